@@ -0,0 +1,27 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+
+// Proves knowledge of the recipient's secret without revealing it. The commitment
+// Poseidon(secret, recipient) identifies the recipient across capsules, and the nullifier
+// Poseidon(secret, capsuleId) is unique per capsule so a proof cannot be replayed for another one.
+template ReceiverAuth() {
+    signal input capsuleId;
+    signal input recipient;     // Address as a field element
+    signal input secret;        // private
+
+    signal output commitment;
+    signal output nullifier;
+
+    component commit = Poseidon(2);
+    commit.inputs[0] <== secret;
+    commit.inputs[1] <== recipient;
+    commitment <== commit.out;
+
+    component nullify = Poseidon(2);
+    nullify.inputs[0] <== secret;
+    nullify.inputs[1] <== capsuleId;
+    nullifier <== nullify.out;
+}
+
+component main { public [capsuleId, recipient] } = ReceiverAuth();
@@ -0,0 +1,45 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/bitify.circom";
+include "circomlib/circuits/comparators.circom";
+
+// Proves that a capsule's unlock time has passed at an attested reference time (NTP or block
+// time), and that the prover's own clock was within maxDrift of that reference. The local
+// clock reading stays private.
+template TimeValidation() {
+    signal input capsuleId;
+    signal input unlockTime;
+    signal input referenceTime;
+    signal input maxDrift;
+    signal input localTime;     // private
+
+    // Comparators assume 64-bit inputs, so range-check everything they see
+    component ranges[4];
+    var values[4] = [unlockTime, referenceTime, maxDrift, localTime];
+    for (var i = 0; i < 4; i++) {
+        ranges[i] = Num2Bits(64);
+        ranges[i].in <== values[i];
+    }
+
+    component unlocked = GreaterEqThan(65);
+    unlocked.in[0] <== referenceTime;
+    unlocked.in[1] <== unlockTime;
+    unlocked.out === 1;
+
+    // |localTime - referenceTime| <= maxDrift
+    component notBehind = LessEqThan(65);
+    notBehind.in[0] <== referenceTime;
+    notBehind.in[1] <== localTime + maxDrift;
+    notBehind.out === 1;
+
+    component notAhead = LessEqThan(65);
+    notAhead.in[0] <== localTime;
+    notAhead.in[1] <== referenceTime + maxDrift;
+    notAhead.out === 1;
+
+    // Bind the capsule ID into the proof
+    signal capsuleSquare;
+    capsuleSquare <== capsuleId * capsuleId;
+}
+
+component main { public [capsuleId, unlockTime, referenceTime, maxDrift] } = TimeValidation();
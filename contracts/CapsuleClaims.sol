@@ -0,0 +1,310 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {ICapsuleClaims} from "./interfaces/ICapsuleClaims.sol";
+import {IERC721Receiver} from "./interfaces/IERC721Receiver.sol";
+import {ITimeCapsules} from "./interfaces/ITimeCapsules.sol";
+
+/**
+ * @title CapsuleClaims
+ * @dev ERC-721 tokens carrying the right to unlock a time capsule
+ * A capsule contract mints one token per recipient when the creator tokenizes a capsule's
+ * claims. Transferring a token makes the new owner the recipient in the capsule contract, so
+ * claims can move to new wallets or cold storage. Claims stop being transferable once their
+ * capsule is cancelled or becomes unlockable; locked() reports it. Since that follows the capsule's
+ * clock rather than a transaction, no event marks it and the EIP-5192 interface is not advertised.
+ * On capsules with wrapped keys the new owner unlocks once the capsule's
+ * creator has wrapped the data key for it. tokenURI serves the capsule's non-secret metadata as a data URI.
+ * Tokens are keyed by capsule contract, so one deployment serves every capsule contract.
+ */
+contract CapsuleClaims is ICapsuleClaims {
+    struct Claim {
+        address capsules;                  // Capsule contract that minted the token
+        uint256 capsuleId;                 // Capsule the token claims
+    }
+
+    bytes private constant BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+    bytes private constant HEX_DIGITS = "0123456789abcdef";
+    // guardianApproval of a capsule the guardians let unlock early (see getTimeCapsule)
+    uint8 private constant GUARDIANS_APPROVED = 2;
+
+    uint256 public totalSupply;
+    mapping(uint256 => Claim) public claims;
+    mapping(address => mapping(address => bool)) public isApprovedForAll;
+    mapping(uint256 => address) internal owners;
+    mapping(uint256 => address) internal tokenApprovals;
+    mapping(address => uint256[]) internal ownedTokens;
+    mapping(uint256 => uint256) internal ownedTokenIndex; // Position of a token in its owner's ownedTokens
+    // capsule contract => capsule ID => token IDs, in recipient order
+    mapping(address => mapping(uint256 => uint256[])) internal capsuleTokens;
+
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId);
+    event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
+
+    /**
+     * @dev Mint one claim token per recipient of one of the calling contract's capsules
+     * The capsule contract is responsible for checking that the capsule's creator asked for it
+     * @param _capsuleId ID of the time capsule
+     * @param _recipients Recipients to mint to, one token each
+     */
+    function mint(uint256 _capsuleId, address[] calldata _recipients) external {
+        require(capsuleTokens[msg.sender][_capsuleId].length == 0, "Claims already minted");
+
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            uint256 tokenId = ++totalSupply;
+            claims[tokenId] = Claim(msg.sender, _capsuleId);
+            capsuleTokens[msg.sender][_capsuleId].push(tokenId);
+            _addToken(_recipients[i], tokenId);
+
+            emit Transfer(address(0), _recipients[i], tokenId);
+        }
+    }
+
+    function name() external pure returns (string memory) {
+        return "Time Capsule Claim";
+    }
+
+    function symbol() external pure returns (string memory) {
+        return "CLAIM";
+    }
+
+    function supportsInterface(bytes4 _interfaceId) external pure returns (bool) {
+        return _interfaceId == 0x01ffc9a7 ||    // ERC-165
+               _interfaceId == 0x80ac58cd ||    // ERC-721
+               _interfaceId == 0x5b5e139f;      // ERC-721 metadata
+    }
+
+    function balanceOf(address _owner) external view returns (uint256) {
+        require(_owner != address(0), "Owner cannot be zero address");
+        return ownedTokens[_owner].length;
+    }
+
+    function ownerOf(uint256 _tokenId) public view returns (address owner) {
+        owner = owners[_tokenId];
+        require(owner != address(0), "Token does not exist");
+    }
+
+    function getApproved(uint256 _tokenId) external view returns (address) {
+        ownerOf(_tokenId);
+        return tokenApprovals[_tokenId];
+    }
+
+    /**
+     * @dev Get the claim tokens an account owns, across capsule contracts
+     * @param _owner Token owner
+     */
+    function tokensOfOwner(address _owner) external view returns (uint256[] memory) {
+        return ownedTokens[_owner];
+    }
+
+    /**
+     * @dev Get the claim tokens of a capsule, in the order of its recipients at minting
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function getCapsuleTokens(address _capsules, uint256 _capsuleId) external view returns (uint256[] memory) {
+        return capsuleTokens[_capsules][_capsuleId];
+    }
+
+    /**
+     * @dev Whether a claim token can no longer be transferred, because its capsule was cancelled,
+     * its unlock time has passed or its guardians approved an early unlock
+     * @param _tokenId Claim token
+     */
+    function locked(uint256 _tokenId) public view returns (bool) {
+        ownerOf(_tokenId);
+        Claim storage claim = claims[_tokenId];
+        ITimeCapsules capsules = ITimeCapsules(claim.capsules);
+        if (capsules.isCancelled(claim.capsuleId)) {
+            return true;
+        }
+        (, , , , , , , , , , , , , uint8 guardianApproval, ) = capsules.getTimeCapsule(claim.capsuleId);
+        return guardianApproval == GUARDIANS_APPROVED || capsules.getTimeUntilUnlock(claim.capsuleId) == 0;
+    }
+
+    function approve(address _approved, uint256 _tokenId) external {
+        address owner = ownerOf(_tokenId);
+        require(msg.sender == owner || isApprovedForAll[owner][msg.sender], "Not authorized to approve");
+        require(!locked(_tokenId), "Claim is locked");
+
+        tokenApprovals[_tokenId] = _approved;
+
+        emit Approval(owner, _approved, _tokenId);
+    }
+
+    function setApprovalForAll(address _operator, bool _approved) external {
+        isApprovedForAll[msg.sender][_operator] = _approved;
+
+        emit ApprovalForAll(msg.sender, _operator, _approved);
+    }
+
+    /**
+     * @dev Transfer a claim token, making the new owner the recipient in the capsule contract
+     * Reverts once the claim was used to unlock, and when the new owner already receives the capsule
+     * @param _from Current owner
+     * @param _to New owner
+     * @param _tokenId Claim token
+     */
+    function transferFrom(address _from, address _to, uint256 _tokenId) public {
+        require(ownerOf(_tokenId) == _from, "Not the token owner");
+        require(_to != address(0), "Recipient cannot be zero address");
+        require(
+            msg.sender == _from || tokenApprovals[_tokenId] == msg.sender || isApprovedForAll[_from][msg.sender],
+            "Not authorized to transfer"
+        );
+
+        delete tokenApprovals[_tokenId];
+        _removeToken(_from, _tokenId);
+        _addToken(_to, _tokenId);
+
+        Claim storage claim = claims[_tokenId];
+        ITimeCapsules(claim.capsules).transferClaim(claim.capsuleId, _from, _to);
+
+        emit Transfer(_from, _to, _tokenId);
+    }
+
+    function safeTransferFrom(address _from, address _to, uint256 _tokenId) external {
+        safeTransferFrom(_from, _to, _tokenId, "");
+    }
+
+    function safeTransferFrom(address _from, address _to, uint256 _tokenId, bytes memory _data) public {
+        transferFrom(_from, _to, _tokenId);
+
+        if (_to.code.length > 0) {
+            try IERC721Receiver(_to).onERC721Received(msg.sender, _from, _tokenId, _data) returns (bytes4 selector) {
+                require(selector == IERC721Receiver.onERC721Received.selector, "Transfer to non-receiver");
+            } catch {
+                revert("Transfer to non-receiver");
+            }
+        }
+    }
+
+    /**
+     * @dev Metadata of the claimed capsule as a base64 JSON data URI: title, unlock time or block,
+     * file type, the CID of the encrypted content and whether the token is still transferable.
+     * Nothing in it helps decrypt the content
+     * @param _tokenId Claim token
+     */
+    function tokenURI(uint256 _tokenId) external view returns (string memory) {
+        ownerOf(_tokenId);
+        Claim storage claim = claims[_tokenId];
+        (
+            string memory ipfsCid,
+            ,
+            uint256 unlockTime,
+            ,
+            ,
+            ,
+            string memory title,
+            ,
+            ,
+            string memory fileType,
+            ,
+            ,
+            ,
+            ,
+            ITimeCapsules.ConditionType conditionType
+        ) = ITimeCapsules(claim.capsules).getTimeCapsule(claim.capsuleId);
+
+        // Block conditions have no date to display
+        bytes memory unlock = conditionType == ITimeCapsules.ConditionType.Timestamp
+            ? abi.encodePacked("{\"trait_type\":\"Unlock time\",\"display_type\":\"date\",\"value\":", _toString(unlockTime), "}")
+            : abi.encodePacked("{\"trait_type\":\"Unlock block\",\"value\":", _toString(unlockTime), "}");
+
+        bytes memory json = abi.encodePacked(
+            "{\"name\":\"", _escape(title),
+            "\",\"description\":\"Claim on time capsule #", _toString(claim.capsuleId),
+            ". The owner of this token can unlock the capsule. It can only be transferred while the capsule is locked.\",\"attributes\":[",
+            "{\"trait_type\":\"Capsule\",\"value\":", _toString(claim.capsuleId), "},",
+            unlock,
+            ",{\"trait_type\":\"File type\",\"value\":\"", _escape(fileType),
+            "\"},{\"trait_type\":\"Encrypted CID\",\"value\":\"", _escape(ipfsCid),
+            "\"},{\"trait_type\":\"Transferable\",\"value\":\"", locked(_tokenId) ? "No" : "Yes", "\"}]}"
+        );
+        return string(abi.encodePacked("data:application/json;base64,", _base64(json)));
+    }
+
+    function _addToken(address _to, uint256 _tokenId) internal {
+        owners[_tokenId] = _to;
+        ownedTokenIndex[_tokenId] = ownedTokens[_to].length;
+        ownedTokens[_to].push(_tokenId);
+    }
+
+    // Swaps the last of the owner's tokens into the removed token's place
+    function _removeToken(address _from, uint256 _tokenId) internal {
+        uint256[] storage tokens = ownedTokens[_from];
+        uint256 index = ownedTokenIndex[_tokenId];
+        uint256 last = tokens[tokens.length - 1];
+
+        tokens[index] = last;
+        ownedTokenIndex[last] = index;
+        tokens.pop();
+        delete ownedTokenIndex[_tokenId];
+        delete owners[_tokenId];
+    }
+
+    function _toString(uint256 _value) internal pure returns (string memory) {
+        if (_value == 0) {
+            return "0";
+        }
+        uint256 digits;
+        for (uint256 v = _value; v > 0; v /= 10) {
+            digits++;
+        }
+        bytes memory result = new bytes(digits);
+        for (; _value > 0; _value /= 10) {
+            result[--digits] = bytes1(uint8(48 + _value % 10));
+        }
+        return string(result);
+    }
+
+    // Escapes a string for use inside a JSON string literal
+    function _escape(string memory _value) internal pure returns (bytes memory result) {
+        bytes memory input = bytes(_value);
+        result = new bytes(input.length * 6);
+        uint256 length;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == "\"" || char == "\\") {
+                result[length++] = "\\";
+                result[length++] = char;
+            } else if (uint8(char) < 0x20) {
+                // Control characters as \u00XX
+                result[length++] = "\\";
+                result[length++] = "u";
+                result[length++] = "0";
+                result[length++] = "0";
+                result[length++] = HEX_DIGITS[uint8(char) >> 4];
+                result[length++] = HEX_DIGITS[uint8(char) & 0x0f];
+            } else {
+                result[length++] = char;
+            }
+        }
+
+        // Shrink to the bytes written
+        assembly ("memory-safe") {
+            mstore(result, length)
+        }
+    }
+
+    function _base64(bytes memory _data) internal pure returns (string memory) {
+        bytes memory result = new bytes(4 * ((_data.length + 2) / 3));
+        uint256 j;
+        for (uint256 i = 0; i < _data.length; i += 3) {
+            uint256 chunk = uint256(uint8(_data[i])) << 16;
+            if (i + 1 < _data.length) {
+                chunk |= uint256(uint8(_data[i + 1])) << 8;
+            }
+            if (i + 2 < _data.length) {
+                chunk |= uint256(uint8(_data[i + 2]));
+            }
+
+            result[j++] = BASE64_ALPHABET[(chunk >> 18) & 63];
+            result[j++] = BASE64_ALPHABET[(chunk >> 12) & 63];
+            result[j++] = i + 1 < _data.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : bytes1("=");
+            result[j++] = i + 2 < _data.length ? BASE64_ALPHABET[chunk & 63] : bytes1("=");
+        }
+        return string(result);
+    }
+}
@@ -0,0 +1,294 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {IERC20} from "./interfaces/IERC20.sol";
+import {ITimeCapsules} from "./interfaces/ITimeCapsules.sol";
+
+/**
+ * @title CapsuleEscrow
+ * @dev Native currency and ERC-20 funds attached to time capsules
+ * The creator deposits funds for a capsule while it is locked. Each recipient that has unlocked
+ * the capsule can then claim an equal share; anyone may send a recipient's share to them.
+ * If the capsule is cancelled, the creator takes the deposits back. Funds the recipients leave
+ * unclaimed, because guardians vetoed the unlock or nobody unlocked, return to the creator once
+ * RECLAIM_DELAY has passed since the unlock time.
+ * Escrowed funds are kept apart from the Blocklock fee, which stays with the capsule contract.
+ * Deposits are keyed by capsule contract, so one deployment serves every capsule contract the
+ * admin trusts. Payouts never exceed what was deposited for the capsule, whatever the capsule
+ * contract reports.
+ */
+contract CapsuleEscrow {
+    // Token address for the chain's native currency (FIL on Filecoin)
+    address public constant NATIVE = address(0);
+    // Time recipients have to claim after the unlock time before the creator can reclaim
+    uint256 public constant RECLAIM_DELAY = 90 days;
+    // RECLAIM_DELAY in blocks, for capsules that unlock at a block: 30-second Filecoin epochs
+    uint256 public constant RECLAIM_DELAY_BLOCKS = 259200;
+    // guardianApproval of a capsule the guardians let unlock early (see getTimeCapsule)
+    uint8 private constant GUARDIANS_APPROVED = 2;
+
+    struct Deposit {
+        uint256 total;                     // Deposited amount
+        uint256 claimed;                   // Paid out to recipients or refunded to the creator
+    }
+
+    // capsule contract => capsule ID => token => deposit
+    mapping(address => mapping(uint256 => mapping(address => Deposit))) public deposits;
+    // capsule contract => capsule ID => recipient => token => amount claimed
+    mapping(address => mapping(uint256 => mapping(address => mapping(address => uint256)))) public claimed;
+    mapping(address => mapping(uint256 => address[])) internal depositTokens;
+    mapping(address => bool) public trustedCapsules; // Capsule contracts that accept deposits
+    address public admin; // Account allowed to trust capsule contracts
+
+    bool private locked;
+
+    event Deposited(
+        address indexed capsules,
+        uint256 indexed capsuleId,
+        address indexed token,
+        uint256 amount
+    );
+
+    event Claimed(
+        address indexed capsules,
+        uint256 indexed capsuleId,
+        address indexed recipient,
+        address token,
+        uint256 amount
+    );
+
+    event Refunded(
+        address indexed capsules,
+        uint256 indexed capsuleId,
+        address indexed creator,
+        address token,
+        uint256 amount
+    );
+
+    event CapsulesTrusted(address indexed capsules, bool trusted);
+
+    modifier nonReentrant() {
+        require(!locked, "Reentrant call");
+        locked = true;
+        _;
+        locked = false;
+    }
+
+    constructor() {
+        admin = msg.sender;
+    }
+
+    /**
+     * @dev Allow or stop deposits for a capsule contract; existing deposits stay claimable
+     * @param _capsules Capsule contract
+     * @param _trusted Whether it accepts new deposits
+     */
+    function setTrustedCapsules(address _capsules, bool _trusted) external {
+        require(msg.sender == admin, "Only admin");
+        require(_capsules.code.length > 0, "Capsule contract is not a contract");
+        trustedCapsules[_capsules] = _trusted;
+
+        emit CapsulesTrusted(_capsules, _trusted);
+    }
+
+    /**
+     * @dev Hand the admin role to another account, or give it up with the zero address
+     * @param _admin New admin
+     */
+    function setAdmin(address _admin) external {
+        require(msg.sender == admin, "Only admin");
+        admin = _admin;
+    }
+
+    /**
+     * @dev Attach funds to a locked capsule of a trusted capsule contract; only its creator can.
+     * Capsules that are cancelled, past their unlock time or approved by their guardians take no deposits.
+     * ERC-20 amounts must be approved to this contract first. Fee-on-transfer tokens are credited
+     * with the amount that arrives
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     * @param _token ERC-20 token, or NATIVE with the amount sent as value
+     * @param _amount Amount to deposit
+     */
+    function deposit(address _capsules, uint256 _capsuleId, address _token, uint256 _amount) external payable nonReentrant {
+        require(_amount > 0, "Amount must be positive");
+        require(trustedCapsules[_capsules], "Untrusted capsule contract");
+        (, , , , address creator, , , , , , , , , uint8 guardianApproval, ) = ITimeCapsules(_capsules).getTimeCapsule(_capsuleId);
+        require(creator == msg.sender, "Only creator can deposit");
+        require(!ITimeCapsules(_capsules).isCancelled(_capsuleId), "Capsule was cancelled");
+        require(
+            guardianApproval != GUARDIANS_APPROVED && ITimeCapsules(_capsules).getTimeUntilUnlock(_capsuleId) > 0,
+            "Capsule is already unlockable"
+        );
+
+        uint256 received = _amount;
+        if (_token == NATIVE) {
+            require(msg.value == _amount, "Value does not match amount");
+        } else {
+            require(msg.value == 0, "Value sent with token deposit");
+            uint256 balance = IERC20(_token).balanceOf(address(this));
+            _callToken(_token, abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), _amount)));
+            received = IERC20(_token).balanceOf(address(this)) - balance;
+            require(received > 0, "No tokens received");
+        }
+
+        Deposit storage entry = deposits[_capsules][_capsuleId][_token];
+        if (entry.total == 0) {
+            depositTokens[_capsules][_capsuleId].push(_token);
+        }
+        entry.total += received;
+
+        emit Deposited(_capsules, _capsuleId, _token, received);
+    }
+
+    /**
+     * @dev Pay a recipient its share of a capsule's funds, once it has unlocked the capsule
+     * Shares are equal across the capsule's recipients; remainders of less than one unit per
+     * recipient stay in escrow
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     * @param _recipient Recipient to pay
+     */
+    function claim(address _capsules, uint256 _capsuleId, address _recipient) external nonReentrant {
+        require(ITimeCapsules(_capsules).isCapsuleRecipient(_capsuleId, _recipient), "Not a recipient");
+        require(ITimeCapsules(_capsules).hasUnlocked(_capsuleId, _recipient), "Recipient has not unlocked");
+
+        uint256 recipientCount = ITimeCapsules(_capsules).getRecipients(_capsuleId).length;
+        address[] storage tokens = depositTokens[_capsules][_capsuleId];
+        uint256 paid;
+        for (uint256 i = 0; i < tokens.length; i++) {
+            Deposit storage entry = deposits[_capsules][_capsuleId][tokens[i]];
+            uint256 amount = entry.total / recipientCount - claimed[_capsules][_capsuleId][_recipient][tokens[i]];
+            if (amount == 0) {
+                continue;
+            }
+            require(entry.claimed + amount <= entry.total, "Claim exceeds deposit");
+
+            claimed[_capsules][_capsuleId][_recipient][tokens[i]] += amount;
+            entry.claimed += amount;
+            _pay(tokens[i], _recipient, amount);
+            paid++;
+
+            emit Claimed(_capsules, _capsuleId, _recipient, tokens[i], amount);
+        }
+        require(paid > 0, "Nothing to claim");
+    }
+
+    /**
+     * @dev Return the funds of a cancelled capsule to its creator
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function refund(address _capsules, uint256 _capsuleId) external nonReentrant {
+        (, , , , address creator, , , , , , , , , , ) = ITimeCapsules(_capsules).getTimeCapsule(_capsuleId);
+        require(creator == msg.sender, "Only creator can refund");
+        require(ITimeCapsules(_capsules).isCancelled(_capsuleId), "Capsule is not cancelled");
+
+        require(_refundRemaining(_capsules, _capsuleId) > 0, "Nothing to refund");
+    }
+
+    /**
+     * @dev Return the funds recipients have not claimed to the creator, once RECLAIM_DELAY
+     * (RECLAIM_DELAY_BLOCKS for block conditions) has passed since the unlock time. Covers capsules
+     * whose guardians vetoed the unlock and recipients that never unlocked or claimed; their
+     * shares can no longer be claimed afterwards
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function reclaim(address _capsules, uint256 _capsuleId) external nonReentrant {
+        (, , , , address creator, , , , , , , , , , ) = ITimeCapsules(_capsules).getTimeCapsule(_capsuleId);
+        require(creator == msg.sender, "Only creator can reclaim");
+        require(canReclaim(_capsules, _capsuleId), "Recipients can still claim");
+
+        require(_refundRemaining(_capsules, _capsuleId) > 0, "Nothing to reclaim");
+    }
+
+    /**
+     * @dev Whether the claim period of a capsule is over, so its creator can reclaim what is left
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function canReclaim(address _capsules, uint256 _capsuleId) public view returns (bool) {
+        (, , uint256 unlockTime, , , , , , , , , , , , ITimeCapsules.ConditionType conditionType) =
+            ITimeCapsules(_capsules).getTimeCapsule(_capsuleId);
+        if (conditionType == ITimeCapsules.ConditionType.Timestamp) {
+            return block.timestamp >= unlockTime + RECLAIM_DELAY;
+        }
+        return block.number >= unlockTime + RECLAIM_DELAY_BLOCKS;
+    }
+
+    /**
+     * @dev Get the funds attached to a capsule
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     * @return tokens Deposited tokens, NATIVE for native currency
+     * @return totals Amount deposited per token
+     * @return remaining Amount per token not yet claimed or refunded
+     */
+    function getDeposits(address _capsules, uint256 _capsuleId) external view returns (
+        address[] memory tokens,
+        uint256[] memory totals,
+        uint256[] memory remaining
+    ) {
+        tokens = depositTokens[_capsules][_capsuleId];
+        totals = new uint256[](tokens.length);
+        remaining = new uint256[](tokens.length);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            Deposit storage entry = deposits[_capsules][_capsuleId][tokens[i]];
+            totals[i] = entry.total;
+            remaining[i] = entry.total - entry.claimed;
+        }
+    }
+
+    /**
+     * @dev Amount of a token a recipient can claim now
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     * @param _recipient Recipient of the capsule
+     * @param _token ERC-20 token, or NATIVE
+     */
+    function claimable(address _capsules, uint256 _capsuleId, address _recipient, address _token) external view returns (uint256) {
+        if (!ITimeCapsules(_capsules).isCapsuleRecipient(_capsuleId, _recipient) ||
+            !ITimeCapsules(_capsules).hasUnlocked(_capsuleId, _recipient)) {
+            return 0;
+        }
+        uint256 recipientCount = ITimeCapsules(_capsules).getRecipients(_capsuleId).length;
+        Deposit storage entry = deposits[_capsules][_capsuleId][_token];
+        uint256 amount = entry.total / recipientCount - claimed[_capsules][_capsuleId][_recipient][_token];
+        return amount <= entry.total - entry.claimed ? amount : 0;
+    }
+
+    // Pays the creator (the caller) every token's unclaimed amount; returns the number of tokens paid
+    function _refundRemaining(address _capsules, uint256 _capsuleId) internal returns (uint256 paid) {
+        address[] storage tokens = depositTokens[_capsules][_capsuleId];
+        for (uint256 i = 0; i < tokens.length; i++) {
+            Deposit storage entry = deposits[_capsules][_capsuleId][tokens[i]];
+            uint256 amount = entry.total - entry.claimed;
+            if (amount == 0) {
+                continue;
+            }
+
+            entry.claimed = entry.total;
+            _pay(tokens[i], msg.sender, amount);
+            paid++;
+
+            emit Refunded(_capsules, _capsuleId, msg.sender, tokens[i], amount);
+        }
+    }
+
+    function _pay(address _token, address _to, uint256 _amount) internal {
+        if (_token == NATIVE) {
+            (bool sent, ) = payable(_to).call{value: _amount}("");
+            require(sent, "Transfer failed");
+        } else {
+            _callToken(_token, abi.encodeCall(IERC20.transfer, (_to, _amount)));
+        }
+    }
+
+    // Accepts tokens that return nothing as well as those that return true
+    function _callToken(address _token, bytes memory _data) internal {
+        require(_token.code.length > 0, "Token is not a contract");
+        (bool success, bytes memory result) = _token.call(_data);
+        require(success && (result.length == 0 || abi.decode(result, (bool))), "Token transfer failed");
+    }
+}
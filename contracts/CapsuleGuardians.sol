@@ -0,0 +1,200 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {ICapsuleGuardians} from "./interfaces/ICapsuleGuardians.sol";
+import {Signatures} from "./libraries/Signatures.sol";
+
+/**
+ * @title CapsuleGuardians
+ * @dev M-of-N guardian votes on time capsules
+ * A capsule contract registers a guardian set for one of its capsules with configure(). Guardians
+ * vote on-chain, or sign EIP-712 GuardianVote messages that anyone can submit in one bundle.
+ * M approvals let the capsule unlock before its unlock time; M vetoes keep it locked, and win
+ * over approvals. Votes are final: once one is cast, the guardian set can no longer be replaced.
+ * Until then each configure() starts a new epoch, so votes signed for an earlier set are void.
+ * State is keyed by the capsule contract, so one deployment serves every capsule contract.
+ */
+contract CapsuleGuardians is ICapsuleGuardians {
+    enum Vote { None, Approve, Veto }
+
+    struct GuardianSet {
+        address[] guardians;
+        uint256 threshold;                 // Votes needed to approve or veto
+        uint256 epoch;                     // Incremented by configure(); signed votes name it
+        uint256 approvals;
+        uint256 vetoes;
+    }
+
+    // Vote a guardian signs off-chain; submitSignedVotes checks it against the current epoch
+    struct SignedVote {
+        address guardian;
+        bool approve;
+        bytes signature;                   // 65-byte r | s | v signature over the GuardianVote digest
+    }
+
+    bytes32 public constant GUARDIAN_VOTE_TYPEHASH =
+        keccak256("GuardianVote(address capsules,uint256 capsuleId,bool approve,uint256 epoch)");
+
+    uint256 public constant MAX_GUARDIANS = 16;
+
+    mapping(address => mapping(uint256 => GuardianSet)) internal guardianSets;
+    // capsule contract => capsule ID => epoch => guardian => vote
+    mapping(address => mapping(uint256 => mapping(uint256 => mapping(address => Vote)))) public votes;
+
+    event GuardiansConfigured(
+        address indexed capsules,
+        uint256 indexed capsuleId,
+        address[] guardians,
+        uint256 threshold,
+        uint256 epoch
+    );
+
+    event GuardianVoted(
+        address indexed capsules,
+        uint256 indexed capsuleId,
+        address indexed guardian,
+        bool approve,
+        uint256 epoch
+    );
+
+    /**
+     * @dev Replace the guardian set of one of the calling contract's capsules, as long as no guardian has voted
+     * The capsule contract is responsible for checking that the capsule's creator asked for it
+     * @param _capsuleId ID of the time capsule
+     * @param _guardians Guardian addresses, at most MAX_GUARDIANS
+     * @param _threshold Votes needed to approve or veto, between 1 and the number of guardians
+     */
+    function configure(uint256 _capsuleId, address[] calldata _guardians, uint256 _threshold) external {
+        require(_guardians.length > 0 && _guardians.length <= MAX_GUARDIANS, "Invalid guardian count");
+        require(_threshold > 0 && _threshold <= _guardians.length, "Invalid guardian threshold");
+        for (uint256 i = 0; i < _guardians.length; i++) {
+            require(_guardians[i] != address(0), "Guardian cannot be zero address");
+            for (uint256 j = 0; j < i; j++) {
+                require(_guardians[i] != _guardians[j], "Duplicate guardian");
+            }
+        }
+
+        GuardianSet storage set = guardianSets[msg.sender][_capsuleId];
+        require(!_hasVotes(set), "Guardians have voted");
+        set.guardians = _guardians;
+        set.threshold = _threshold;
+        set.epoch++;
+
+        emit GuardiansConfigured(msg.sender, _capsuleId, _guardians, _threshold, set.epoch);
+    }
+
+    /**
+     * @dev Approve an early unlock as one of the capsule's guardians
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function approve(address _capsules, uint256 _capsuleId) external {
+        _vote(_capsules, _capsuleId, msg.sender, true);
+    }
+
+    /**
+     * @dev Veto the unlock as one of the capsule's guardians
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function veto(address _capsules, uint256 _capsuleId) external {
+        _vote(_capsules, _capsuleId, msg.sender, false);
+    }
+
+    /**
+     * @dev Record votes that guardians signed off-chain; anyone may submit them
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     * @param _votes Signed votes for the current epoch
+     */
+    function submitSignedVotes(address _capsules, uint256 _capsuleId, SignedVote[] calldata _votes) external {
+        uint256 epoch = guardianSets[_capsules][_capsuleId].epoch;
+        for (uint256 i = 0; i < _votes.length; i++) {
+            bytes32 digest = voteDigest(_capsules, _capsuleId, _votes[i].approve, epoch);
+            require(Signatures.recover(digest, _votes[i].signature) == _votes[i].guardian, "Invalid guardian signature");
+            _vote(_capsules, _capsuleId, _votes[i].guardian, _votes[i].approve);
+        }
+    }
+
+    /**
+     * @dev Whether the guardians of a capsule have approved an early unlock or vetoed the unlock,
+     * and whether any of them has voted, which freezes the guardian set
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function approvalState(address _capsules, uint256 _capsuleId) external view returns (bool approved, bool vetoed, bool voted) {
+        GuardianSet storage set = guardianSets[_capsules][_capsuleId];
+        if (set.threshold == 0) {
+            return (false, false, false);
+        }
+        vetoed = set.vetoes >= set.threshold;
+        approved = !vetoed && set.approvals >= set.threshold;
+        voted = _hasVotes(set);
+    }
+
+    /**
+     * @dev Get the guardian set of a capsule and each guardian's vote in the current epoch
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     */
+    function getGuardians(address _capsules, uint256 _capsuleId) external view returns (
+        address[] memory guardians,
+        Vote[] memory guardianVotes,
+        uint256 threshold,
+        uint256 epoch
+    ) {
+        GuardianSet storage set = guardianSets[_capsules][_capsuleId];
+        guardianVotes = new Vote[](set.guardians.length);
+        for (uint256 i = 0; i < set.guardians.length; i++) {
+            guardianVotes[i] = votes[_capsules][_capsuleId][set.epoch][set.guardians[i]];
+        }
+        return (set.guardians, guardianVotes, set.threshold, set.epoch);
+    }
+
+    /**
+     * @dev EIP-712 digest a guardian signs to vote
+     * @param _capsules Capsule contract the capsule belongs to
+     * @param _capsuleId ID of the time capsule
+     * @param _approve True to approve an early unlock, false to veto
+     * @param _epoch Current epoch of the capsule's guardian set (see getGuardians)
+     */
+    function voteDigest(address _capsules, uint256 _capsuleId, bool _approve, uint256 _epoch) public view returns (bytes32) {
+        bytes32 structHash = keccak256(abi.encode(GUARDIAN_VOTE_TYPEHASH, _capsules, _capsuleId, _approve, _epoch));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    /**
+     * @dev EIP-712 domain separator: name "CapsuleGuardians", version "1"
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return Signatures.domainSeparator(keccak256("CapsuleGuardians"));
+    }
+
+    function _vote(address _capsules, uint256 _capsuleId, address _guardian, bool _approve) internal {
+        GuardianSet storage set = guardianSets[_capsules][_capsuleId];
+        require(_isGuardian(set, _guardian), "Not a guardian");
+        require(votes[_capsules][_capsuleId][set.epoch][_guardian] == Vote.None, "Guardian already voted");
+
+        votes[_capsules][_capsuleId][set.epoch][_guardian] = _approve ? Vote.Approve : Vote.Veto;
+        if (_approve) {
+            set.approvals++;
+        } else {
+            set.vetoes++;
+        }
+
+        emit GuardianVoted(_capsules, _capsuleId, _guardian, _approve, set.epoch);
+    }
+
+    function _hasVotes(GuardianSet storage _set) internal view returns (bool) {
+        return _set.approvals + _set.vetoes > 0;
+    }
+
+    function _isGuardian(GuardianSet storage _set, address _account) internal view returns (bool) {
+        for (uint256 i = 0; i < _set.guardians.length; i++) {
+            if (_set.guardians[i] == _account) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
@@ -0,0 +1,162 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {ITimeCapsules} from "./interfaces/ITimeCapsules.sol";
+
+/**
+ * @title CapsuleReader
+ * @dev Paginated and batched reads of time capsules, returned as typed structs
+ * Kept out of TimeCapsuleBlocklockSimple, which is close to the contract size limit. Reads are
+ * keyed by capsule contract, so one deployment serves every capsule contract.
+ */
+contract CapsuleReader {
+    // Most capsules returned by one getCapsulesPage call
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    struct CapsuleView {
+        uint256 id;
+        string ipfsCid;
+        uint256 blocklockRequestId;
+        uint256 unlockTime;                // Timestamp, or block number for block conditions
+        ITimeCapsules.ConditionType conditionType;
+        uint256 creationTime;
+        address creator;
+        address recipient;                 // First recipient
+        address[] recipients;
+        string title;
+        uint256 fileSize;
+        string fileType;
+        bool isUnlocked;                   // Every recipient has unlocked
+        bool isCancelled;
+        bool hasDecryptionKey;
+        bool useBlocklock;
+        uint8 guardianApproval;            // 0 no guardians, 1 pending, 2 approved, 3 vetoed
+        uint256 heartbeatInterval;         // Zero unless the capsule is a dead man's switch
+        bytes32 envelopeHash;              // SHA-256 of the envelope; zero when not recorded
+        bytes32 plaintextHash;             // SHA-256 of the plaintext; zero when not recorded
+        uint256 timeUntilUnlock;           // Seconds, or blocks for block conditions
+        bool canUnlock;
+    }
+
+    /**
+     * @dev Get a page of capsules in creation order
+     * @param _capsules Capsule contract to read
+     * @param _offset Number of capsules to skip
+     * @param _limit Most capsules to return, at most MAX_PAGE_SIZE
+     * @return page Capsules on the page
+     * @return total Number of capsules in the contract
+     */
+    function getCapsulesPage(address _capsules, uint256 _offset, uint256 _limit) external view returns (
+        CapsuleView[] memory page,
+        uint256 total
+    ) {
+        require(_limit <= MAX_PAGE_SIZE, "Page size too large");
+
+        total = ITimeCapsules(_capsules).nextCapsuleId() - 1;
+        uint256 count = _offset >= total ? 0 : total - _offset;
+        if (count > _limit) {
+            count = _limit;
+        }
+
+        page = new CapsuleView[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = _read(_capsules, _offset + i + 1);
+        }
+    }
+
+    /**
+     * @dev Get several capsules by ID; reverts if any does not exist
+     * @param _capsules Capsule contract to read
+     * @param _capsuleIds IDs of the time capsules
+     */
+    function getTimeCapsules(address _capsules, uint256[] calldata _capsuleIds) external view returns (CapsuleView[] memory) {
+        return _readAll(_capsules, _capsuleIds);
+    }
+
+    /**
+     * @dev Get the capsules an account is currently a recipient of, oldest first
+     * @param _capsules Capsule contract to read
+     * @param _account Recipient address
+     */
+    function getRecipientCapsules(address _capsules, address _account) external view returns (CapsuleView[] memory) {
+        return _readAll(_capsules, _recipientCapsuleIds(_capsules, _account, false));
+    }
+
+    /**
+     * @dev Get the capsules an account can unlock now: it is a recipient, has not unlocked its
+     * copy yet, and the capsule is open
+     * @param _capsules Capsule contract to read
+     * @param _account Recipient address
+     */
+    function getUnlockableCapsules(address _capsules, address _account) external view returns (CapsuleView[] memory) {
+        return _readAll(_capsules, _recipientCapsuleIds(_capsules, _account, true));
+    }
+
+    // Drops capsules the account was replaced on, and repeats of capsules it was re-added to
+    function _recipientCapsuleIds(address _capsules, address _account, bool _unlockableOnly) internal view returns (uint256[] memory ids) {
+        ITimeCapsules capsules = ITimeCapsules(_capsules);
+        uint256[] memory candidates = capsules.getRecipientCapsules(_account);
+
+        ids = new uint256[](candidates.length);
+        uint256 count;
+        for (uint256 i = 0; i < candidates.length; i++) {
+            uint256 id = candidates[i];
+            if (!capsules.isCapsuleRecipient(id, _account) || _contains(ids, count, id)) {
+                continue;
+            }
+            if (_unlockableOnly && (capsules.hasUnlocked(id, _account) || !capsules.canUnlock(id))) {
+                continue;
+            }
+            ids[count++] = id;
+        }
+
+        // Shrink to the IDs kept
+        assembly ("memory-safe") {
+            mstore(ids, count)
+        }
+    }
+
+    function _contains(uint256[] memory _ids, uint256 _count, uint256 _id) internal pure returns (bool) {
+        for (uint256 i = 0; i < _count; i++) {
+            if (_ids[i] == _id) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function _readAll(address _capsules, uint256[] memory _capsuleIds) internal view returns (CapsuleView[] memory capsules) {
+        capsules = new CapsuleView[](_capsuleIds.length);
+        for (uint256 i = 0; i < _capsuleIds.length; i++) {
+            capsules[i] = _read(_capsules, _capsuleIds[i]);
+        }
+    }
+
+    function _read(address _capsules, uint256 _capsuleId) internal view returns (CapsuleView memory capsule) {
+        ITimeCapsules capsules = ITimeCapsules(_capsules);
+        capsule.id = _capsuleId;
+        (
+            capsule.ipfsCid,
+            capsule.blocklockRequestId,
+            capsule.unlockTime,
+            capsule.creationTime,
+            capsule.creator,
+            ,
+            capsule.title,
+            capsule.isUnlocked,
+            capsule.fileSize,
+            capsule.fileType,
+            capsule.hasDecryptionKey,
+            capsule.useBlocklock,
+            capsule.recipient,
+            capsule.guardianApproval,
+            capsule.conditionType
+        ) = capsules.getTimeCapsule(_capsuleId);
+        capsule.recipients = capsules.getRecipients(_capsuleId);
+        capsule.isCancelled = capsules.isCancelled(_capsuleId);
+        capsule.heartbeatInterval = capsules.heartbeatIntervals(_capsuleId);
+        (capsule.envelopeHash, capsule.plaintextHash) = capsules.contentHashes(_capsuleId);
+        capsule.timeUntilUnlock = capsules.getTimeUntilUnlock(_capsuleId);
+        capsule.canUnlock = capsules.canUnlock(_capsuleId);
+    }
+}
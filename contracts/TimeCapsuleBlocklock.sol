@@ -0,0 +1,379 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {AbstractBlocklockReceiver} from "blocklock-solidity/src/AbstractBlocklockReceiver.sol";
+import {TypesLib} from "blocklock-solidity/src/libraries/TypesLib.sol";
+
+/**
+ * @title TimeCapsuleBlocklock
+ * @dev TimeCapsule contract backed by the Blocklock network
+ * Timelock requests are submitted to the Blocklock sender with the caller's fee, and
+ * decryption keys are only accepted from the sender's callback once the condition is met
+ */
+contract TimeCapsuleBlocklock is AbstractBlocklockReceiver {
+    struct TimeCapsule {
+        string ipfsCid;                    // IPFS CID from Lighthouse
+        uint256 blocklockRequestId;        // Request ID assigned by the Blocklock sender
+        uint256 unlockBlock;               // Block height from the Blocklock condition
+        uint256 unlockTime;                // Estimated timestamp of the unlock block (display only)
+        uint256 creationTime;              // Timestamp when capsule was created
+        address creator;                   // Address of the creator
+        string recipientEmail;             // Recipient email
+        string title;                      // Capsule title/description
+        bool isUnlocked;                   // Whether the capsule has been unlocked
+        uint256 fileSize;                  // Size of the stored file in bytes
+        string fileType;                   // MIME type of the stored file
+        bytes decryptionKey;               // Blocklock decryption key (delivered by callback)
+        bool hasDecryptionKey;             // Flag to check if decryption key is available
+        address recipient;                 // Address allowed to unlock the capsule
+    }
+
+    // Blocklock conditions are "B" followed by the abi-encoded uint256 block height
+    bytes1 private constant BLOCK_HEIGHT_CONDITION = 0x42;
+
+    mapping(uint256 => TimeCapsule) public timeCapsules;
+    mapping(uint256 => TypesLib.Ciphertext) private capsuleCiphertexts;
+    mapping(address => uint256[]) public userCapsules;
+    mapping(uint256 => uint256) public blocklockToCapsule; // Maps Blocklock request ID to capsule ID
+    mapping(uint256 => mapping(address => bool)) public unlockDelegates; // Creator-approved unlockers per capsule
+
+    uint256 public nextCapsuleId;
+    uint256 public totalCapsules;
+
+    event TimeCapsuleCreated(
+        uint256 indexed capsuleId,
+        string ipfsCid,
+        uint256 blocklockRequestId,
+        uint256 unlockTime,
+        uint256 creationTime,
+        address indexed creator,
+        string title,
+        uint256 fileSize,
+        bool useBlocklock,
+        address indexed recipient
+    );
+
+    event BlocklockRequested(
+        uint256 indexed capsuleId,
+        uint256 indexed blocklockRequestId,
+        uint256 unlockBlock,
+        uint256 requestPrice
+    );
+
+    event TimeCapsuleUnlocked(
+        uint256 indexed capsuleId,
+        string ipfsCid,
+        address indexed unlocker,
+        uint256 unlockTime
+    );
+
+    event DecryptionKeyReceived(
+        uint256 indexed capsuleId,
+        uint256 indexed blocklockRequestId,
+        bytes decryptionKey
+    );
+
+    event CIDStored(
+        uint256 indexed capsuleId,
+        string ipfsCid,
+        uint256 timestamp
+    );
+
+    event UnlockDelegateUpdated(
+        uint256 indexed capsuleId,
+        address indexed delegate,
+        bool approved
+    );
+
+    constructor(address blocklockSender) AbstractBlocklockReceiver(blocklockSender) {
+        require(blocklockSender != address(0), "Blocklock sender cannot be zero address");
+
+        nextCapsuleId = 1;
+        totalCapsules = 0;
+    }
+
+    /**
+     * @dev Create a time capsule and submit its timelock request to Blocklock with direct funding
+     * The whole msg.value is forwarded to the Blocklock sender as the request fee
+     * @param _ipfsCid The IPFS CID returned from Lighthouse
+     * @param callbackGasLimit Gas limit for the callback function
+     * @param conditionBytes Encoded condition bytes from encodeCondition()
+     * @param ciphertext Ciphertext from encodeCiphertextToSolidity()
+     * @param _recipient Address allowed to unlock the capsule
+     * @param _recipientEmail Optional recipient contact email
+     * @param _title Title/description of the capsule
+     * @param _unlockTime Estimated timestamp of the unlock block, for display
+     * @param _fileSize Size of the file in bytes
+     * @param _fileType MIME type of the file
+     */
+    function createTimelockRequestWithDirectFunding(
+        string calldata _ipfsCid,
+        uint32 callbackGasLimit,
+        bytes calldata conditionBytes,
+        TypesLib.Ciphertext calldata ciphertext,
+        address _recipient,
+        string calldata _recipientEmail,
+        string calldata _title,
+        uint256 _unlockTime,
+        uint256 _fileSize,
+        string calldata _fileType
+    ) external payable returns (uint256, uint256) {
+        require(bytes(_ipfsCid).length > 0, "IPFS CID cannot be empty");
+        require(callbackGasLimit > 0, "Callback gas limit must be positive");
+        require(_recipient != address(0), "Recipient cannot be zero address");
+        require(bytes(_title).length > 0, "Title cannot be empty");
+        require(_unlockTime > block.timestamp, "Unlock time must be in the future");
+
+        uint256 unlockBlock = decodeBlockHeightCondition(conditionBytes);
+        require(unlockBlock > block.number, "Unlock block must be in the future");
+
+        (uint256 blocklockRequestId, uint256 requestPrice) =
+            _requestBlocklockPayInNative(callbackGasLimit, conditionBytes, ciphertext);
+        require(blocklockToCapsule[blocklockRequestId] == 0, "Duplicate Blocklock request ID");
+
+        uint256 capsuleId = nextCapsuleId;
+
+        blocklockToCapsule[blocklockRequestId] = capsuleId;
+        capsuleCiphertexts[capsuleId] = ciphertext;
+
+        timeCapsules[capsuleId] = TimeCapsule({
+            ipfsCid: _ipfsCid,
+            blocklockRequestId: blocklockRequestId,
+            unlockBlock: unlockBlock,
+            unlockTime: _unlockTime,
+            creationTime: block.timestamp,
+            creator: msg.sender,
+            recipientEmail: _recipientEmail,
+            title: _title,
+            isUnlocked: false,
+            fileSize: _fileSize,
+            fileType: _fileType,
+            decryptionKey: "",
+            hasDecryptionKey: false,
+            recipient: _recipient
+        });
+
+        userCapsules[msg.sender].push(capsuleId);
+
+        nextCapsuleId++;
+        totalCapsules++;
+
+        emit TimeCapsuleCreated(
+            capsuleId,
+            _ipfsCid,
+            blocklockRequestId,
+            _unlockTime,
+            block.timestamp,
+            msg.sender,
+            _title,
+            _fileSize,
+            true,
+            _recipient
+        );
+
+        emit BlocklockRequested(capsuleId, blocklockRequestId, unlockBlock, requestPrice);
+        emit CIDStored(capsuleId, _ipfsCid, block.timestamp);
+
+        return (capsuleId, blocklockRequestId);
+    }
+
+    /**
+     * @dev Approve or revoke an address that may unlock a capsule on the recipient's behalf
+     * @param _capsuleId ID of the time capsule
+     * @param _delegate Address to approve or revoke
+     * @param _approved Whether the delegate may unlock
+     */
+    function setUnlockDelegate(uint256 _capsuleId, address _delegate, bool _approved) external {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(timeCapsules[_capsuleId].creator == msg.sender, "Only creator can manage delegates");
+        require(_delegate != address(0), "Delegate cannot be zero address");
+
+        unlockDelegates[_capsuleId][_delegate] = _approved;
+
+        emit UnlockDelegateUpdated(_capsuleId, _delegate, _approved);
+    }
+
+    /**
+     * @dev Check if an address is the recipient or an approved delegate of a capsule
+     * @param _capsuleId ID of the time capsule
+     * @param _account Address to check
+     */
+    function isAuthorizedUnlocker(uint256 _capsuleId, address _account) external view returns (bool) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        return _isAuthorizedUnlocker(_capsuleId, _account);
+    }
+
+    /**
+     * @dev Unlock a time capsule once Blocklock has delivered its decryption key
+     * Only the recipient or an approved delegate can unlock
+     * @param _capsuleId ID of the time capsule to unlock
+     */
+    function unlockTimeCapsule(uint256 _capsuleId) external returns (string memory, bytes memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(_isAuthorizedUnlocker(_capsuleId, msg.sender), "Not authorized to unlock");
+
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
+        require(!capsule.isUnlocked, "Capsule already unlocked");
+        require(capsule.hasDecryptionKey, "Decryption key not yet available");
+
+        capsule.isUnlocked = true;
+
+        emit TimeCapsuleUnlocked(
+            _capsuleId,
+            capsule.ipfsCid,
+            msg.sender,
+            block.timestamp
+        );
+
+        return (capsule.ipfsCid, capsule.decryptionKey);
+    }
+
+    /**
+     * @dev Get time capsule details
+     * Field order matches TimeCapsuleBlocklockSimple.getTimeCapsule
+     * @param _capsuleId ID of the time capsule
+     */
+    function getTimeCapsule(uint256 _capsuleId) external view returns (
+        string memory ipfsCid,
+        uint256 blocklockRequestId,
+        uint256 unlockTime,
+        uint256 creationTime,
+        address creator,
+        string memory recipientEmail,
+        string memory title,
+        bool isUnlocked,
+        uint256 fileSize,
+        string memory fileType,
+        bool hasDecryptionKey,
+        bool useBlocklock,
+        address recipient
+    ) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        TimeCapsule memory capsule = timeCapsules[_capsuleId];
+
+        return (
+            capsule.ipfsCid,
+            capsule.blocklockRequestId,
+            capsule.unlockTime,
+            capsule.creationTime,
+            capsule.creator,
+            capsule.recipientEmail,
+            capsule.title,
+            capsule.isUnlocked,
+            capsule.fileSize,
+            capsule.fileType,
+            capsule.hasDecryptionKey,
+            true,
+            capsule.recipient
+        );
+    }
+
+    /**
+     * @dev Decrypt the capsule's Blocklock ciphertext with the delivered key
+     * For envelope-encrypted capsules the plaintext is the content data key
+     * Only the recipient or an approved delegate can read it
+     * @param _capsuleId ID of the time capsule
+     */
+    function getDecryptionKey(uint256 _capsuleId) external view returns (bytes memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(_isAuthorizedUnlocker(_capsuleId, msg.sender), "Not authorized to unlock");
+
+        TimeCapsule memory capsule = timeCapsules[_capsuleId];
+        require(capsule.hasDecryptionKey, "Decryption key not available");
+
+        return blocklock.decrypt(capsuleCiphertexts[_capsuleId], capsule.decryptionKey);
+    }
+
+    /**
+     * @dev Get the Blocklock ciphertext stored for a capsule
+     * @param _capsuleId ID of the time capsule
+     */
+    function getCiphertext(uint256 _capsuleId) external view returns (TypesLib.Ciphertext memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        return capsuleCiphertexts[_capsuleId];
+    }
+
+    /**
+     * @dev Get user's time capsules
+     * @param _user Address of the user
+     */
+    function getUserCapsules(address _user) external view returns (uint256[] memory) {
+        return userCapsules[_user];
+    }
+
+    /**
+     * @dev Check if a capsule can be unlocked
+     * @param _capsuleId ID of the time capsule
+     */
+    function canUnlock(uint256 _capsuleId) external view returns (bool) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        TimeCapsule memory capsule = timeCapsules[_capsuleId];
+        return !capsule.isUnlocked && capsule.hasDecryptionKey;
+    }
+
+    /**
+     * @dev Get the remaining blocks until the Blocklock condition is met
+     * @param _capsuleId ID of the time capsule
+     */
+    function getBlocksUntilUnlock(uint256 _capsuleId) external view returns (uint256) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        uint256 unlockBlock = timeCapsules[_capsuleId].unlockBlock;
+
+        if (block.number >= unlockBlock) {
+            return 0;
+        }
+
+        return unlockBlock - block.number;
+    }
+
+    /**
+     * @dev Get total number of capsules
+     */
+    function getTotalCapsules() external view returns (uint256) {
+        return totalCapsules;
+    }
+
+    /**
+     * @dev Get the native fee the Blocklock sender charges for a request
+     * @param callbackGasLimit Gas limit for the callback function
+     */
+    function getBlocklockPrice(uint32 callbackGasLimit) external view returns (uint256) {
+        return blocklock.calculateRequestPriceNative(callbackGasLimit);
+    }
+
+    /**
+     * @dev Store the decryption key delivered by the Blocklock sender
+     * Only reachable through receiveBlocklock, which checks the caller is the sender
+     * @param _requestId Blocklock request ID
+     * @param decryptionKey The decryption key
+     */
+    function _onBlocklockReceived(uint256 _requestId, bytes calldata decryptionKey) internal override {
+        uint256 capsuleId = blocklockToCapsule[_requestId];
+        require(capsuleId != 0, "Invalid Blocklock request ID");
+
+        TimeCapsule storage capsule = timeCapsules[capsuleId];
+        require(!capsule.hasDecryptionKey, "Decryption key already received");
+
+        capsule.decryptionKey = decryptionKey;
+        capsule.hasDecryptionKey = true;
+
+        emit DecryptionKeyReceived(capsuleId, _requestId, decryptionKey);
+    }
+
+    function _isAuthorizedUnlocker(uint256 _capsuleId, address _account) internal view returns (bool) {
+        return _account == timeCapsules[_capsuleId].recipient || unlockDelegates[_capsuleId][_account];
+    }
+
+    function decodeBlockHeightCondition(bytes calldata conditionBytes) internal pure returns (uint256) {
+        require(
+            conditionBytes.length == 33 && conditionBytes[0] == BLOCK_HEIGHT_CONDITION,
+            "Condition must be a Blocklock block height"
+        );
+        return abi.decode(conditionBytes[1:], (uint256));
+    }
+}
@@ -1,32 +1,84 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.23;
 
+import {ICapsuleClaims} from "./interfaces/ICapsuleClaims.sol";
+import {ICapsuleGuardians} from "./interfaces/ICapsuleGuardians.sol";
+import {ITimeCapsules} from "./interfaces/ITimeCapsules.sol";
+import {Signatures} from "./libraries/Signatures.sol";
+
 /**
  * @title TimeCapsuleBlocklockSimple
  * @dev Simplified TimeCapsule contract with Blocklock integration placeholder
  * This version maintains compatibility while preparing for full Blocklock integration
  */
-contract TimeCapsuleBlocklockSimple {
+contract TimeCapsuleBlocklockSimple is ITimeCapsules {
     struct TimeCapsule {
         string ipfsCid;                    // IPFS CID from Lighthouse
         uint256 blocklockRequestId;        // Placeholder for Blocklock request ID
         bytes encryptedData;               // Encrypted data (simplified)
-        uint256 unlockTime;                // Timestamp when capsule can be unlocked
+        uint256 unlockTime;                // Timestamp, or block number for block conditions (see conditionTypes)
         uint256 creationTime;              // Timestamp when capsule was created
         address creator;                   // Address of the creator
         string recipientEmail;             // Recipient email
         string title;                      // Capsule title/description
-        bool isUnlocked;                   // Whether the capsule has been unlocked
+        uint256 unlockedRecipients;        // Recipients that have unlocked their copy
         uint256 fileSize;                  // Size of the stored file in bytes
         string fileType;                   // MIME type of the stored file
         bytes decryptionKey;               // Decrypted key (populated after unlock)
         bool hasDecryptionKey;             // Flag to check if decryption key is available
         bool useBlocklock;                 // Whether this capsule uses Blocklock
+        address recipient;                 // First recipient; delegates unlock on its behalf
+    }
+
+    // SHA-256 digests of a capsule's content, checked by clients after download (see setContentHash)
+    struct ContentHash {
+        bytes32 envelope;                  // Serialized envelope as stored on IPFS
+        bytes32 plaintext;                 // Decrypted content
+    }
+
+    // Groth16 proof an unlock must carry (see setProofGate)
+    struct ProofGate {
+        address verifier;                  // snarkjs verifier contract, zero when the capsule has no gate
+        bytes4 selector;                   // verifyProof(uint256[2],uint256[2][2],uint256[2],uint256[n])
+        uint256 requiredMask;              // Bit i set: public signal i must equal publicSignals[i]
+        uint256[] publicSignals;           // Expected public signals; one entry per circuit signal
     }
 
-    mapping(uint256 => TimeCapsule) public timeCapsules;
+    // Internal only hides it from the ABI: contract storage is public, so a plain decryptionKey can be
+    // read with eth_getStorageAt, and getDecryptionKey's caller check with an eth_call from any address.
+    // Keys that must stay secret until the unlock are stored wrapped (wrappedKeys) or held by Blocklock
+    mapping(uint256 => TimeCapsule) internal timeCapsules;
     mapping(address => uint256[]) public userCapsules;
     mapping(uint256 => uint256) public blocklockToCapsule; // Maps Blocklock request ID to capsule ID
+    mapping(uint256 => mapping(address => bool)) public unlockDelegates; // Creator-approved unlockers per capsule
+    mapping(uint256 => ProofGate) internal proofGates;
+    mapping(uint256 => address[]) internal capsuleRecipients;
+    mapping(uint256 => mapping(address => bool)) public isCapsuleRecipient;
+    mapping(uint256 => mapping(address => bytes)) internal wrappedKeys; // Data key wrapped per recipient (shared/keyWrap.ts)
+    mapping(uint256 => mapping(address => bool)) public hasUnlocked; // Per-recipient unlock tracking
+    mapping(address => bytes) public encryptionKeys; // Compressed secp256k1 keys that data keys are wrapped to
+    mapping(uint256 => uint256) public blocklockFees; // Blocklock fee held per capsule, refunded on cancel
+    mapping(uint256 => bool) public isCancelled;
+    mapping(uint256 => uint256) public heartbeatIntervals; // Dead man's switch interval; zero for fixed unlock times
+    mapping(uint256 => address) public guardianModules; // CapsuleGuardians contract holding the capsule's guardian set
+    mapping(uint256 => ConditionType) internal conditionTypes; // Unit of each capsule's unlockTime
+    mapping(address => uint256[]) internal recipientCapsules; // Capsules each address was made a recipient of
+    mapping(address => uint256) public unlockNonces; // Next UnlockRequest nonce of each signer
+    mapping(uint256 => address) public claimTokens; // CapsuleClaims contract whose ERC-721s carry the recipients' claims
+    mapping(address => mapping(uint256 => uint256)) public importedCapsules; // Source contract => source capsule ID => capsule ID
+    mapping(uint256 => ContentHash) public contentHashes; // Zero until the creator records them
+    address public migrator; // Account allowed to import capsules from TimeCapsuleStorage
+    address public immutable guardianModule; // The only CapsuleGuardians deployment setGuardians accepts; zero disables guardians
+    address public immutable claimsModule; // The only CapsuleClaims deployment tokenizeClaims accepts; zero disables claim tokens
+
+    // Blocklock conditions are "B" followed by the abi-encoded uint256 block height
+    bytes1 private constant BLOCK_HEIGHT_CONDITION = 0x42;
+
+    bytes32 private constant UNLOCK_REQUEST_TYPEHASH =
+        keccak256("UnlockRequest(uint256 capsuleId,address recipient,uint256 nonce,uint256 deadline)");
+
+    uint256 public constant MAX_RECIPIENTS = 32;
+    uint256 public constant MIN_HEARTBEAT_INTERVAL = 1 hours;
     
     uint256 public nextCapsuleId;
     uint256 public totalCapsules;
@@ -40,7 +92,8 @@ contract TimeCapsuleBlocklockSimple {
         address indexed creator,
         string title,
         uint256 fileSize,
-        bool useBlocklock
+        bool useBlocklock,
+        address indexed recipient
     );
     
     event TimeCapsuleUnlocked(
@@ -62,13 +115,110 @@ contract TimeCapsuleBlocklockSimple {
         uint256 timestamp
     );
 
-    constructor() {
+    event UnlockDelegateUpdated(
+        uint256 indexed capsuleId,
+        address indexed delegate,
+        bool approved
+    );
+
+    event RecipientAdded(
+        uint256 indexed capsuleId,
+        address indexed recipient,
+        bool hasWrappedKey
+    );
+
+    event EncryptionKeyRegistered(
+        address indexed account,
+        bytes publicKey
+    );
+
+    event CapsuleCancelled(
+        uint256 indexed capsuleId,
+        address indexed creator,
+        uint256 refund
+    );
+
+    event UnlockTimeExtended(
+        uint256 indexed capsuleId,
+        uint256 previousUnlockTime,
+        uint256 unlockTime
+    );
+
+    event RecipientUpdated(
+        uint256 indexed capsuleId,
+        address indexed previousRecipient,
+        address indexed recipient
+    );
+
+    event CIDUpdated(
+        uint256 indexed capsuleId,
+        string previousCid,
+        string ipfsCid
+    );
+
+    event ContentHashSet(
+        uint256 indexed capsuleId,
+        bytes32 envelopeHash,
+        bytes32 plaintextHash
+    );
+
+    event Heartbeat(
+        uint256 indexed capsuleId,
+        uint256 interval,
+        uint256 unlockTime
+    );
+
+    // Emitted after TimeCapsuleCreated for capsules whose unlockTime is a block number
+    event UnlockConditionSet(
+        uint256 indexed capsuleId,
+        ConditionType conditionType
+    );
+
+    event GuardiansUpdated(
+        uint256 indexed capsuleId,
+        address indexed module,
+        address[] guardians,
+        uint256 threshold
+    );
+
+    event ProofGateUpdated(
+        uint256 indexed capsuleId,
+        address indexed verifier,
+        uint256 requiredMask,
+        uint256[] publicSignals
+    );
+
+    event ClaimsTokenized(
+        uint256 indexed capsuleId,
+        address indexed claims
+    );
+
+    event WrappedKeySet(
+        uint256 indexed capsuleId,
+        address indexed recipient
+    );
+
+    event CapsuleImported(
+        uint256 indexed capsuleId,
+        address indexed source,
+        uint256 indexed sourceCapsuleId
+    );
+
+    /**
+     * @param _guardianModule Trusted CapsuleGuardians deployment, or the zero address to disable guardians
+     * @param _claimsModule Trusted CapsuleClaims deployment, or the zero address to disable claim tokens
+     */
+    constructor(address _guardianModule, address _claimsModule) {
         nextCapsuleId = 1;
         totalCapsules = 0;
+        migrator = msg.sender;
+        guardianModule = _guardianModule;
+        claimsModule = _claimsModule;
     }
 
     /**
      * @dev Create a new time capsule with Blocklock encryption (placeholder implementation)
+     * The creator is recorded as the recipient
      * @param _ipfsCid The IPFS CID returned from Lighthouse
      * @param _encryptedData Encrypted data as bytes
      * @param _unlockTime Timestamp when the capsule can be unlocked
@@ -107,15 +257,18 @@ contract TimeCapsuleBlocklockSimple {
             creator: msg.sender,
             recipientEmail: _recipientEmail,
             title: _title,
-            isUnlocked: false,
+            unlockedRecipients: 0,
             fileSize: _fileSize,
             fileType: _fileType,
             decryptionKey: "",
             hasDecryptionKey: false,
-            useBlocklock: true
+            useBlocklock: true,
+            recipient: msg.sender
         });
         
         userCapsules[msg.sender].push(capsuleId);
+        _addRecipient(capsuleId, msg.sender, "");
+        blocklockFees[capsuleId] = msg.value;
         
         nextCapsuleId++;
         totalCapsules++;
@@ -129,7 +282,8 @@ contract TimeCapsuleBlocklockSimple {
             msg.sender,
             _title,
             _fileSize,
-            true
+            true,
+            msg.sender
         );
         
         emit CIDStored(capsuleId, _ipfsCid, block.timestamp);
@@ -140,8 +294,11 @@ contract TimeCapsuleBlocklockSimple {
 
     /**
      * @dev Create a simple time capsule without Blocklock
+     * The creator is recorded as the recipient; use createSimpleTimeCapsuleForRecipient to name someone else.
+     * The key is public from the moment the transaction is sent: it sits in the calldata and in storage.
+     * Only use it for content that may be read early; createSimpleTimeCapsuleForRecipients wraps keys instead
      * @param _ipfsCid The IPFS CID returned from Lighthouse
-     * @param _encryptionKey Simple encryption key
+     * @param _encryptionKey Plain encryption key, readable by anyone
      * @param _unlockTime Timestamp when the capsule can be unlocked
      * @param _recipientEmail Recipient email
      * @param _title Title/description of the capsule
@@ -157,192 +314,742 @@ contract TimeCapsuleBlocklockSimple {
         uint256 _fileSize,
         string memory _fileType
     ) external returns (uint256) {
-        require(bytes(_ipfsCid).length > 0, "IPFS CID cannot be empty");
-        require(_unlockTime > block.timestamp, "Unlock time must be in the future");
-        require(bytes(_title).length > 0, "Title cannot be empty");
-        
-        uint256 capsuleId = nextCapsuleId;
-        
-        timeCapsules[capsuleId] = TimeCapsule({
-            ipfsCid: _ipfsCid,
-            blocklockRequestId: 0, // No Blocklock request for simple capsules
-            encryptedData: bytes(_encryptionKey),
-            unlockTime: _unlockTime,
-            creationTime: block.timestamp,
-            creator: msg.sender,
-            recipientEmail: _recipientEmail,
-            title: _title,
-            isUnlocked: false,
-            fileSize: _fileSize,
-            fileType: _fileType,
-            decryptionKey: bytes(_encryptionKey),
-            hasDecryptionKey: true, // Immediately available for simple capsules
-            useBlocklock: false
-        });
-        
-        userCapsules[msg.sender].push(capsuleId);
-        
-        nextCapsuleId++;
-        totalCapsules++;
-        
-        emit TimeCapsuleCreated(
-            capsuleId,
+        return _createSimpleTimeCapsule(
             _ipfsCid,
-            0, // No Blocklock request ID
+            _encryptionKey,
+            ConditionType.Timestamp,
             _unlockTime,
-            block.timestamp,
-            msg.sender,
+            _singleRecipient(msg.sender),
+            new bytes[](1),
+            _recipientEmail,
             _title,
             _fileSize,
-            false
+            _fileType,
+            msg.sender,
+            block.timestamp
         );
-        
-        emit CIDStored(capsuleId, _ipfsCid, block.timestamp);
-        
-        return capsuleId;
     }
 
     /**
-     * @dev Create timelock request with direct funding following Blocklock.js pattern
+     * @dev Create a simple time capsule without Blocklock that only the given recipient can unlock
+     * The unlock is gated, the key is not: like createSimpleTimeCapsule's, it is public from the
+     * moment the transaction is sent. Use createSimpleTimeCapsuleForRecipients to keep it secret
      * @param _ipfsCid The IPFS CID returned from Lighthouse
-     * @param callbackGasLimit Gas limit for the callback function
-     * @param conditionBytes Encoded condition bytes from encodeCondition()
-     * @param ciphertext Encoded ciphertext from encodeCiphertextToSolidity()
-     * @param _recipientEmail Recipient email
+     * @param _encryptionKey Plain encryption key, readable by anyone
+     * @param _unlockTime Timestamp when the capsule can be unlocked
+     * @param _recipient Address allowed to unlock the capsule
+     * @param _recipientEmail Optional recipient contact email
      * @param _title Title/description of the capsule
      * @param _fileSize Size of the file in bytes
      * @param _fileType MIME type of the file
      */
-    function createTimelockRequestWithDirectFunding(
+    function createSimpleTimeCapsuleForRecipient(
         string memory _ipfsCid,
-        uint256 callbackGasLimit,
-        bytes memory conditionBytes,
-        bytes memory ciphertext,
+        string memory _encryptionKey,
+        uint256 _unlockTime,
+        address _recipient,
         string memory _recipientEmail,
         string memory _title,
         uint256 _fileSize,
         string memory _fileType
-    ) external payable returns (uint256, uint256) {
-        require(bytes(_ipfsCid).length > 0, "IPFS CID cannot be empty");
-        require(callbackGasLimit > 0, "Callback gas limit must be positive");
-        require(conditionBytes.length > 0, "Condition bytes cannot be empty");
-        require(ciphertext.length > 0, "Ciphertext cannot be empty");
-        require(bytes(_title).length > 0, "Title cannot be empty");
-        require(msg.value > 0, "Must send ETH for Blocklock callback fee");
-        
-        uint256 capsuleId = nextCapsuleId;
-        
-        uint256 blocklockRequestId = uint256(keccak256(abi.encodePacked(
-            capsuleId, 
-            block.timestamp, 
-            conditionBytes,
-            ciphertext
-        )));
-        
-        blocklockToCapsule[blocklockRequestId] = capsuleId;
-        
-        uint256 unlockTime = decodeUnlockTimeFromCondition(conditionBytes);
-        
-        // Create the time capsule
-        timeCapsules[capsuleId] = TimeCapsule({
-            ipfsCid: _ipfsCid,
-            blocklockRequestId: blocklockRequestId,
-            encryptedData: ciphertext,
-            unlockTime: unlockTime,
-            creationTime: block.timestamp,
-            creator: msg.sender,
-            recipientEmail: _recipientEmail,
-            title: _title,
-            isUnlocked: false,
-            fileSize: _fileSize,
-            fileType: _fileType,
-            decryptionKey: "",
-            hasDecryptionKey: false,
-            useBlocklock: true
-        });
-        
-        // Add to user's capsules
-        userCapsules[msg.sender].push(capsuleId);
-        
-        nextCapsuleId++;
-        totalCapsules++;
-        
-        // Store callback gas limit and condition for Blocklock processing
-        // In production, this data would be sent to Blocklock network
-        
-        emit TimeCapsuleCreated(
-            capsuleId,
+    ) external returns (uint256) {
+        require(_recipient != address(0), "Recipient cannot be zero address");
+
+        return _createSimpleTimeCapsule(
             _ipfsCid,
-            blocklockRequestId,
-            unlockTime,
-            block.timestamp,
+            _encryptionKey,
+            ConditionType.Timestamp,
+            _unlockTime,
+            _singleRecipient(_recipient),
+            new bytes[](1),
+            _recipientEmail,
+            _title,
+            _fileSize,
+            _fileType,
             msg.sender,
+            block.timestamp
+        );
+    }
+
+    /**
+     * @dev Create a simple time capsule without Blocklock for several recipients, each holding its own
+     * copy of the content key wrapped to its registered encryption key. Recipients unlock independently.
+     * @param _ipfsCid The IPFS CID returned from Lighthouse
+     * @param _unlockTime Timestamp when the capsule can be unlocked
+     * @param _recipients Addresses allowed to unlock the capsule
+     * @param _wrappedKeys Data key wrapped for each recipient, in the same order
+     * @param _title Title/description of the capsule
+     * @param _fileSize Size of the file in bytes
+     * @param _fileType MIME type of the file
+     * @param _contentHash Content hashes recorded with the capsule (see setContentHash); zero for none
+     */
+    function createSimpleTimeCapsuleForRecipients(
+        string memory _ipfsCid,
+        uint256 _unlockTime,
+        address[] memory _recipients,
+        bytes[] memory _wrappedKeys,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType,
+        ContentHash calldata _contentHash
+    ) external returns (uint256) {
+        _requireRecipients(_recipients, _wrappedKeys, true);
+
+        uint256 capsuleId = _createSimpleTimeCapsule(
+            _ipfsCid,
+            "",
+            ConditionType.Timestamp,
+            _unlockTime,
+            _recipients,
+            _wrappedKeys,
+            "",
             _title,
             _fileSize,
-            true
+            _fileType,
+            msg.sender,
+            block.timestamp
         );
-        
-        emit CIDStored(capsuleId, _ipfsCid, block.timestamp);
-        
-        // Note: In production, the msg.value would be forwarded to Blocklock network
-        // For demo purposes, we keep it in contract
-        
-        return (capsuleId, blocklockRequestId);
+        _recordContentHash(capsuleId, _contentHash);
+
+        return capsuleId;
     }
 
     /**
-     * @dev Simulate receiving decryption key (for testing Blocklock functionality)
-     * @param _requestId Blocklock request ID
-     * @param decryptionKey The decryption key
+     * @dev Create a simple time capsule without Blocklock that unlocks at a block number instead of a timestamp
+     * Recipients without a wrapped key read the plain encryption key, which anyone can read from the
+     * transaction or storage before the unlock block; pass wrapped keys for content that must stay secret
+     * @param _ipfsCid The IPFS CID returned from Lighthouse
+     * @param _encryptionKey Plain encryption key, readable by anyone; empty when every recipient has a wrapped key
+     * @param _unlockBlock Block number from which the capsule can be unlocked
+     * @param _recipients Addresses allowed to unlock the capsule
+     * @param _wrappedKeys Data key wrapped for each recipient, in the same order; empty for the plain key
+     * @param _title Title/description of the capsule
+     * @param _fileSize Size of the file in bytes
+     * @param _fileType MIME type of the file
+     * @param _contentHash Content hashes recorded with the capsule (see setContentHash); zero for none
      */
-    function simulateBlocklockCallback(uint256 _requestId, bytes memory decryptionKey) external {
-        uint256 capsuleId = blocklockToCapsule[_requestId];
-        require(capsuleId != 0, "Invalid Blocklock request ID");
-        
-        TimeCapsule storage capsule = timeCapsules[capsuleId];
-        require(capsule.blocklockRequestId == _requestId, "Request ID mismatch");
-        require(block.timestamp >= capsule.unlockTime, "Not yet unlockable");
-        
-        // Store the decryption key
-        capsule.decryptionKey = decryptionKey;
-        capsule.hasDecryptionKey = true;
-        
-        emit DecryptionKeyReceived(capsuleId, _requestId, decryptionKey);
+    function createSimpleTimeCapsuleAtBlock(
+        string memory _ipfsCid,
+        string memory _encryptionKey,
+        uint256 _unlockBlock,
+        address[] memory _recipients,
+        bytes[] memory _wrappedKeys,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType,
+        ContentHash calldata _contentHash
+    ) external returns (uint256) {
+        _requireRecipients(_recipients, _wrappedKeys, bytes(_encryptionKey).length == 0);
+
+        uint256 capsuleId = _createSimpleTimeCapsule(
+            _ipfsCid,
+            _encryptionKey,
+            ConditionType.BlockNumber,
+            _unlockBlock,
+            _recipients,
+            _wrappedKeys,
+            "",
+            _title,
+            _fileSize,
+            _fileType,
+            msg.sender,
+            block.timestamp
+        );
+        _recordContentHash(capsuleId, _contentHash);
+
+        return capsuleId;
     }
 
     /**
-     * @dev Unlock a time capsule if the unlock time has passed and decryption key is available
-     * @param _capsuleId ID of the time capsule to unlock
+     * @dev Create a dead man's switch: a simple capsule that unlocks once the creator stops calling heartbeat()
+     * The switch fires _heartbeatInterval after creation or the latest heartbeat
+     * @param _ipfsCid The IPFS CID returned from Lighthouse
+     * @param _wrappedKey Data key wrapped for the recipient
+     * @param _heartbeatInterval Seconds the creator may go without a heartbeat
+     * @param _recipient Address allowed to unlock the capsule
+     * @param _title Title/description of the capsule
+     * @param _fileSize Size of the file in bytes
+     * @param _fileType MIME type of the file
+     * @param _contentHash Content hashes recorded with the capsule (see setContentHash); zero for none
      */
-    function unlockTimeCapsule(uint256 _capsuleId) external returns (string memory, bytes memory) {
-        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
-        
-        TimeCapsule storage capsule = timeCapsules[_capsuleId];
-        require(block.timestamp >= capsule.unlockTime, "Capsule is still locked");
-        require(!capsule.isUnlocked, "Capsule already unlocked");
-        
-        // For Blocklock capsules, ensure decryption key is available
-        if (capsule.useBlocklock) {
-            require(capsule.hasDecryptionKey, "Decryption key not yet available");
-        }
-        
-        capsule.isUnlocked = true;
-        
-        emit TimeCapsuleUnlocked(
-            _capsuleId,
-            capsule.ipfsCid,
+    function createDeadManSwitchCapsule(
+        string memory _ipfsCid,
+        bytes memory _wrappedKey,
+        uint256 _heartbeatInterval,
+        address _recipient,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType,
+        ContentHash calldata _contentHash
+    ) external returns (uint256) {
+        require(_heartbeatInterval >= MIN_HEARTBEAT_INTERVAL, "Heartbeat interval too short");
+        bytes[] memory keys = new bytes[](1);
+        keys[0] = _wrappedKey;
+        _requireRecipients(_singleRecipient(_recipient), keys, true);
+
+        uint256 capsuleId = _createSimpleTimeCapsule(
+            _ipfsCid,
+            "",
+            ConditionType.Timestamp,
+            block.timestamp + _heartbeatInterval,
+            _singleRecipient(_recipient),
+            keys,
+            "",
+            _title,
+            _fileSize,
+            _fileType,
             msg.sender,
             block.timestamp
         );
-        
-        return (capsule.ipfsCid, capsule.decryptionKey);
+        heartbeatIntervals[capsuleId] = _heartbeatInterval;
+        _recordContentHash(capsuleId, _contentHash);
+
+        emit Heartbeat(capsuleId, _heartbeatInterval, block.timestamp + _heartbeatInterval);
+
+        return capsuleId;
     }
 
     /**
-     * @dev Get time capsule details
+     * @dev Check in on a dead man's switch, moving its unlock time to one interval from now
+     * Never moves the unlock time earlier, so an extendUnlockTime() beyond the next interval is kept
      * @param _capsuleId ID of the time capsule
      */
-    function getTimeCapsule(uint256 _capsuleId) external view returns (
+    function heartbeat(uint256 _capsuleId) external {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(heartbeatIntervals[_capsuleId] > 0, "Not a dead man's switch");
+        require(timeCapsules[_capsuleId].creator == msg.sender, "Only creator can send heartbeats");
+        require(!isCancelled[_capsuleId], "Capsule was cancelled");
+
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
+        require(block.timestamp < capsule.unlockTime, "Switch already fired");
+
+        uint256 interval = heartbeatIntervals[_capsuleId];
+        if (block.timestamp + interval > capsule.unlockTime) {
+            capsule.unlockTime = block.timestamp + interval;
+        }
+
+        emit Heartbeat(_capsuleId, interval, capsule.unlockTime);
+    }
+
+    /**
+     * @dev Create timelock request with direct funding following Blocklock.js pattern
+     * The creator is recorded as the recipient
+     * @param _ipfsCid The IPFS CID returned from Lighthouse
+     * @param callbackGasLimit Gas limit for the callback function
+     * @param conditionBytes Encoded condition bytes from encodeCondition()
+     * @param ciphertext Encoded ciphertext from encodeCiphertextToSolidity()
+     * @param _recipientEmail Recipient email
+     * @param _title Title/description of the capsule
+     * @param _fileSize Size of the file in bytes
+     * @param _fileType MIME type of the file
+     */
+    function createTimelockRequestWithDirectFunding(
+        string memory _ipfsCid,
+        uint256 callbackGasLimit,
+        bytes memory conditionBytes,
+        bytes memory ciphertext,
+        string memory _recipientEmail,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType
+    ) external payable returns (uint256, uint256) {
+        return _createTimelockRequest(
+            _ipfsCid,
+            callbackGasLimit,
+            conditionBytes,
+            ciphertext,
+            msg.sender,
+            _recipientEmail,
+            _title,
+            _fileSize,
+            _fileType
+        );
+    }
+
+    /**
+     * @dev Create timelock request with direct funding that only the given recipient can unlock
+     * @param _ipfsCid The IPFS CID returned from Lighthouse
+     * @param callbackGasLimit Gas limit for the callback function
+     * @param conditionBytes Encoded condition bytes from encodeCondition()
+     * @param ciphertext Encoded ciphertext from encodeCiphertextToSolidity()
+     * @param _recipient Address allowed to unlock the capsule
+     * @param _recipientEmail Optional recipient contact email
+     * @param _title Title/description of the capsule
+     * @param _fileSize Size of the file in bytes
+     * @param _fileType MIME type of the file
+     */
+    function createTimelockRequestWithDirectFundingForRecipient(
+        string memory _ipfsCid,
+        uint256 callbackGasLimit,
+        bytes memory conditionBytes,
+        bytes memory ciphertext,
+        address _recipient,
+        string memory _recipientEmail,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType
+    ) external payable returns (uint256, uint256) {
+        require(_recipient != address(0), "Recipient cannot be zero address");
+
+        return _createTimelockRequest(
+            _ipfsCid,
+            callbackGasLimit,
+            conditionBytes,
+            ciphertext,
+            _recipient,
+            _recipientEmail,
+            _title,
+            _fileSize,
+            _fileType
+        );
+    }
+
+    /**
+     * @dev Copy a capsule from a TimeCapsuleStorage contract, keeping its creator, creation time and
+     * unlock time. The creator becomes the recipient, as for createSimpleTimeCapsule. Each source
+     * capsule can be imported once. The key is public, as it already was in the source contract
+     * @param _source TimeCapsuleStorage contract the capsule comes from
+     * @param _sourceCapsuleId ID of the capsule in the source contract
+     * @param _ipfsCid The IPFS CID returned from Lighthouse
+     * @param _encryptionKey Plain encryption key, readable by anyone
+     * @param _unlockTime Timestamp when the capsule can be unlocked; may have passed
+     * @param _creationTime Timestamp when the capsule was created in the source contract
+     * @param _creator Creator in the source contract
+     * @param _recipientEmail Recipient email
+     * @param _title Title/description of the capsule
+     * @param _fileSize Size of the file in bytes
+     * @param _fileType MIME type of the file
+     */
+    function importCapsule(
+        address _source,
+        uint256 _sourceCapsuleId,
+        string memory _ipfsCid,
+        string memory _encryptionKey,
+        uint256 _unlockTime,
+        uint256 _creationTime,
+        address _creator,
+        string memory _recipientEmail,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType
+    ) external returns (uint256 capsuleId) {
+        require(msg.sender == migrator, "Only migrator");
+        require(importedCapsules[_source][_sourceCapsuleId] == 0, "Capsule already imported");
+        require(_creator != address(0), "Creator cannot be zero address");
+        require(_creationTime <= block.timestamp, "Creation time is in the future");
+
+        capsuleId = _createSimpleTimeCapsule(
+            _ipfsCid,
+            _encryptionKey,
+            ConditionType.Timestamp,
+            _unlockTime,
+            _singleRecipient(_creator),
+            new bytes[](1),
+            _recipientEmail,
+            _title,
+            _fileSize,
+            _fileType,
+            _creator,
+            _creationTime
+        );
+        importedCapsules[_source][_sourceCapsuleId] = capsuleId;
+
+        emit CapsuleImported(capsuleId, _source, _sourceCapsuleId);
+    }
+
+    /**
+     * @dev Hand the migrator role to another account, or give it up with the zero address
+     * @param _migrator New migrator
+     */
+    function setMigrator(address _migrator) external {
+        require(msg.sender == migrator, "Only migrator");
+        migrator = _migrator;
+    }
+
+    /**
+     * @dev Simulate receiving decryption key (for testing Blocklock functionality)
+     * Only the capsule creator can call this; TimeCapsuleBlocklock accepts keys from the real Blocklock sender
+     * @param _requestId Blocklock request ID
+     * @param decryptionKey The decryption key
+     */
+    function simulateBlocklockCallback(uint256 _requestId, bytes memory decryptionKey) external {
+        uint256 capsuleId = blocklockToCapsule[_requestId];
+        require(capsuleId != 0, "Invalid Blocklock request ID");
+        
+        TimeCapsule storage capsule = timeCapsules[capsuleId];
+        require(capsule.blocklockRequestId == _requestId, "Request ID mismatch");
+        require(capsule.creator == msg.sender, "Only creator can simulate callback");
+        require(!isCancelled[capsuleId], "Capsule was cancelled");
+        require(!capsule.hasDecryptionKey, "Decryption key already received");
+        require(_clock(capsuleId) >= capsule.unlockTime, "Not yet unlockable");
+        
+        // Store the decryption key
+        capsule.decryptionKey = decryptionKey;
+        capsule.hasDecryptionKey = true;
+        
+        emit DecryptionKeyReceived(capsuleId, _requestId, decryptionKey);
+    }
+
+    /**
+     * @dev Approve or revoke an address that may unlock a capsule on the first recipient's behalf
+     * @param _capsuleId ID of the time capsule
+     * @param _delegate Address to approve or revoke
+     * @param _approved Whether the delegate may unlock
+     */
+    function setUnlockDelegate(uint256 _capsuleId, address _delegate, bool _approved) external {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(timeCapsules[_capsuleId].creator == msg.sender, "Only creator can manage delegates");
+        require(_delegate != address(0), "Delegate cannot be zero address");
+        
+        unlockDelegates[_capsuleId][_delegate] = _approved;
+        
+        emit UnlockDelegateUpdated(_capsuleId, _delegate, _approved);
+    }
+
+    /**
+     * @dev Cancel a capsule and refund the Blocklock fee it holds to the creator
+     * Possible until the capsule becomes unlockable; afterwards it can no longer be unlocked or read
+     * @param _capsuleId ID of the time capsule
+     */
+    function cancelCapsule(uint256 _capsuleId) external {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(timeCapsules[_capsuleId].creator == msg.sender, "Only creator can cancel");
+        require(!isCancelled[_capsuleId], "Capsule was cancelled");
+        require(!_isUnlockable(_capsuleId), "Capsule is already unlockable");
+        require(timeCapsules[_capsuleId].unlockedRecipients == 0, "Capsule already unlocked");
+
+        isCancelled[_capsuleId] = true;
+        uint256 refund = blocklockFees[_capsuleId];
+        blocklockFees[_capsuleId] = 0;
+
+        emit CapsuleCancelled(_capsuleId, msg.sender, refund);
+
+        if (refund > 0) {
+            (bool sent, ) = payable(msg.sender).call{value: refund}("");
+            require(sent, "Refund failed");
+        }
+    }
+
+    /**
+     * @dev Move the unlock time of a locked capsule further into the future
+     * Blocklock capsules may still receive their key at the original time, but cannot be unlocked before the new one
+     * @param _capsuleId ID of the time capsule
+     * @param _unlockTime New unlock time, later than the current one and in the same unit (see getTimeCapsule)
+     */
+    function extendUnlockTime(uint256 _capsuleId, uint256 _unlockTime) external {
+        _requireAmendable(_capsuleId);
+
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
+        require(_unlockTime > capsule.unlockTime, "Unlock time can only be extended");
+
+        uint256 previousUnlockTime = capsule.unlockTime;
+        capsule.unlockTime = _unlockTime;
+
+        emit UnlockTimeExtended(_capsuleId, previousUnlockTime, _unlockTime);
+    }
+
+    /**
+     * @dev Replace a recipient of a locked capsule, keeping its position in the recipient list
+     * @param _capsuleId ID of the time capsule
+     * @param _previousRecipient Recipient to replace
+     * @param _recipient New recipient
+     * @param _wrappedKey Data key wrapped for the new recipient; required exactly when the capsule uses wrapped keys
+     */
+    function updateRecipient(
+        uint256 _capsuleId,
+        address _previousRecipient,
+        address _recipient,
+        bytes calldata _wrappedKey
+    ) external {
+        _requireAmendable(_capsuleId);
+        require(claimTokens[_capsuleId] == address(0), "Claims are tokenized");
+        if (wrappedKeys[_capsuleId][_previousRecipient].length > 0) {
+            require(_wrappedKey.length > 0, "Wrapped key cannot be empty");
+        } else {
+            require(_wrappedKey.length == 0, "Capsule has no wrapped keys");
+        }
+
+        _replaceRecipient(_capsuleId, _previousRecipient, _recipient, _wrappedKey);
+    }
+
+    /**
+     * @dev Mint one ERC-721 per recipient that carries its claim; transferring a token moves the claim
+     * A wrapped key cannot follow the token: the creator wraps the data key for each new holder
+     * with setWrappedKey. Recipients can no longer be changed by the creator afterwards
+     * @param _capsuleId ID of the time capsule
+     * @param _claims The trusted claimsModule
+     */
+    function tokenizeClaims(uint256 _capsuleId, address _claims) external {
+        _requireAmendable(_capsuleId);
+        require(claimTokens[_capsuleId] == address(0), "Claims are tokenized");
+        require(_claims != address(0) && _claims == claimsModule, "Untrusted claims contract");
+
+        claimTokens[_capsuleId] = _claims;
+        ICapsuleClaims(_claims).mint(_capsuleId, capsuleRecipients[_capsuleId]);
+
+        emit ClaimsTokenized(_capsuleId, _claims);
+    }
+
+    /**
+     * @dev Move a recipient's claim to the new owner of its claim token; called by the claims contract
+     * Only while the capsule is locked and the recipient has not unlocked, like updateRecipient.
+     * The previous holder's wrapped key is dropped, and the new holder waits for setWrappedKey
+     * @param _capsuleId ID of the time capsule
+     * @param _from Current recipient
+     * @param _to New recipient
+     */
+    function transferClaim(uint256 _capsuleId, address _from, address _to) external {
+        require(msg.sender == claimTokens[_capsuleId], "Only claims contract");
+        _requireLocked(_capsuleId);
+
+        _replaceRecipient(_capsuleId, _from, _to, "");
+    }
+
+    /**
+     * @dev Wrap the data key for a recipient that received a claim token, so it can unlock
+     * Only for capsules with wrapped keys, while the recipient has none; possible after the unlock
+     * time too, since a claim may move just before it
+     * @param _capsuleId ID of the time capsule
+     * @param _recipient Current holder of the claim
+     * @param _wrappedKey Data key wrapped to the recipient's registered encryption key
+     */
+    function setWrappedKey(uint256 _capsuleId, address _recipient, bytes calldata _wrappedKey) external {
+        require(timeCapsules[_capsuleId].creator == msg.sender, "Only creator can amend");
+        require(isCapsuleRecipient[_capsuleId][_recipient] && _keyPending(_capsuleId, _recipient), "No wrapped key pending");
+        require(_wrappedKey.length > 0, "Wrapped key cannot be empty");
+
+        wrappedKeys[_capsuleId][_recipient] = _wrappedKey;
+
+        emit WrappedKeySet(_capsuleId, _recipient);
+    }
+
+    /**
+     * @dev Point a locked capsule at different content
+     * The new content must be encrypted with the same data key, which the contract does not check
+     * @param _capsuleId ID of the time capsule
+     * @param _ipfsCid New IPFS CID
+     */
+    function updateCid(uint256 _capsuleId, string calldata _ipfsCid) external {
+        _requireAmendable(_capsuleId);
+        require(bytes(_ipfsCid).length > 0, "IPFS CID cannot be empty");
+
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
+        string memory previousCid = capsule.ipfsCid;
+        capsule.ipfsCid = _ipfsCid;
+        // The digests described the previous content; the creator records new ones
+        delete contentHashes[_capsuleId];
+
+        emit CIDUpdated(_capsuleId, previousCid, _ipfsCid);
+    }
+
+    /**
+     * @dev Record the SHA-256 of a locked capsule's envelope and plaintext, so recipients can reject
+     * substituted or truncated downloads. The create functions record them with the capsule; this
+     * replaces them, e.g. after updateCid
+     * @param _capsuleId ID of the time capsule
+     * @param _envelopeHash SHA-256 of the serialized envelope stored under the capsule's CID
+     * @param _plaintextHash SHA-256 of the content sealed in the envelope
+     */
+    function setContentHash(uint256 _capsuleId, bytes32 _envelopeHash, bytes32 _plaintextHash) external {
+        _requireAmendable(_capsuleId);
+        require(_envelopeHash != 0 && _plaintextHash != 0, "Content hash cannot be zero");
+
+        _setContentHash(_capsuleId, _envelopeHash, _plaintextHash);
+    }
+
+    /**
+     * @dev Name guardians whose M-of-N votes can open a locked capsule early or veto its unlock
+     * Votes are cast on the module (see CapsuleGuardians); a zero module removes the guardians.
+     * Once a guardian has voted the guardians can no longer be replaced or removed, so a veto stands.
+     * Blocklock capsules still wait for their decryption key
+     * @param _capsuleId ID of the time capsule
+     * @param _module The trusted guardianModule, or the zero address
+     * @param _guardians Guardian addresses
+     * @param _threshold Votes needed to approve or veto
+     */
+    function setGuardians(
+        uint256 _capsuleId,
+        address _module,
+        address[] calldata _guardians,
+        uint256 _threshold
+    ) external {
+        _requireAmendable(_capsuleId);
+        (, , bool voted) = _guardianApproval(_capsuleId);
+        require(!voted, "Guardians have voted");
+
+        if (_module == address(0)) {
+            delete guardianModules[_capsuleId];
+        } else {
+            require(_module == guardianModule, "Untrusted guardian module");
+            guardianModules[_capsuleId] = _module;
+            ICapsuleGuardians(_module).configure(_capsuleId, _guardians, _threshold);
+        }
+
+        emit GuardiansUpdated(_capsuleId, _module, _guardians, _threshold);
+    }
+
+    /**
+     * @dev Check if an address is a recipient or an approved delegate of a capsule
+     * @param _capsuleId ID of the time capsule
+     * @param _account Address to check
+     */
+    function isAuthorizedUnlocker(uint256 _capsuleId, address _account) external view returns (bool) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        
+        return _isAuthorizedUnlocker(_capsuleId, _account);
+    }
+
+    /**
+     * @dev Register the public key that creators wrap data keys to (see shared/keyWrap.ts)
+     * @param _publicKey Compressed secp256k1 public key
+     */
+    function registerEncryptionKey(bytes calldata _publicKey) external {
+        require(
+            _publicKey.length == 33 && (_publicKey[0] == 0x02 || _publicKey[0] == 0x03),
+            "Invalid encryption key"
+        );
+
+        encryptionKeys[msg.sender] = _publicKey;
+
+        emit EncryptionKeyRegistered(msg.sender, _publicKey);
+    }
+
+    /**
+     * @dev Require a Groth16 proof for unlocking, or remove the requirement with a zero verifier
+     * Like the other amendments, only possible while the capsule is locked, so a gate can never
+     * lock out recipients that have not unlocked yet.
+     * For a receiverAuth gate, require signals 0 (commitment the recipient shared), 2 (capsule ID)
+     * and 3 (recipient address), i.e. mask 0xD
+     * @param _capsuleId ID of the time capsule
+     * @param _verifier Verifier contract generated by npm run circuits:build
+     * @param _publicSignals Expected public signals, as many as the circuit has
+     * @param _requiredMask Signals that must match; the others may take any value
+     */
+    function setProofGate(
+        uint256 _capsuleId,
+        address _verifier,
+        uint256[] calldata _publicSignals,
+        uint256 _requiredMask
+    ) external {
+        _requireAmendable(_capsuleId);
+
+        if (_verifier == address(0)) {
+            delete proofGates[_capsuleId];
+        } else {
+            require(_verifier.code.length > 0, "Verifier is not a contract");
+            require(_publicSignals.length > 0 && _publicSignals.length <= 256, "Invalid public signal count");
+            require(_requiredMask >> _publicSignals.length == 0, "Mask exceeds public signals");
+
+            proofGates[_capsuleId] = ProofGate({
+                verifier: _verifier,
+                selector: _verifyProofSelector(_publicSignals.length),
+                requiredMask: _requiredMask,
+                publicSignals: _publicSignals
+            });
+        }
+
+        emit ProofGateUpdated(_capsuleId, _verifier, _requiredMask, _publicSignals);
+    }
+
+    /**
+     * @dev Get the proof requirement of a capsule; verifier is zero when there is none
+     * @param _capsuleId ID of the time capsule
+     */
+    function getProofGate(uint256 _capsuleId) external view returns (
+        address verifier,
+        uint256 requiredMask,
+        uint256[] memory publicSignals
+    ) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        ProofGate storage gate = proofGates[_capsuleId];
+        return (gate.verifier, gate.requiredMask, gate.publicSignals);
+    }
+
+    /**
+     * @dev Unlock a time capsule if the unlock time has passed and decryption key is available
+     * Each recipient unlocks its own copy and delegates unlock the first recipient's;
+     * gated capsules need unlockTimeCapsuleWithProof
+     * @param _capsuleId ID of the time capsule to unlock
+     */
+    function unlockTimeCapsule(uint256 _capsuleId) external returns (string memory, bytes memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(proofGates[_capsuleId].verifier == address(0), "Proof required to unlock");
+
+        return _unlock(_capsuleId, msg.sender);
+    }
+
+    /**
+     * @dev Unlock for a recipient or delegate that signed an EIP-712 UnlockRequest, so a relayer pays the gas
+     * Domain: name "TimeCapsuleBlocklockSimple", version "1". The key is returned to the caller as
+     * from unlockTimeCapsule; the signer reads its own with getDecryptionKey or getWrappedKey
+     * @param _capsuleId ID of the time capsule
+     * @param _recipient Signer, unlocking as if it sent unlockTimeCapsule itself
+     * @param _deadline Last timestamp the request is valid at
+     * @param _signature 65-byte signature over the UnlockRequest with the signer's current nonce
+     */
+    function unlockTimeCapsuleBySig(
+        uint256 _capsuleId,
+        address _recipient,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external returns (string memory, bytes memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(proofGates[_capsuleId].verifier == address(0), "Proof required to unlock");
+        require(block.timestamp <= _deadline, "Unlock request expired");
+
+        bytes32 structHash = keccak256(abi.encode(
+            UNLOCK_REQUEST_TYPEHASH, _capsuleId, _recipient, unlockNonces[_recipient]++, _deadline
+        ));
+        bytes32 digest = keccak256(abi.encodePacked(
+            "\x19\x01", Signatures.domainSeparator(keccak256("TimeCapsuleBlocklockSimple")), structHash
+        ));
+        require(Signatures.recover(digest, _signature) == _recipient, "Invalid unlock signature");
+
+        return _unlock(_capsuleId, _recipient);
+    }
+
+    /**
+     * @dev Unlock a gated time capsule with a Groth16 proof that its verifier accepts
+     * @param _capsuleId ID of the time capsule to unlock
+     * @param _pA Proof point A
+     * @param _pB Proof point B, coordinates in the order the snarkjs verifier expects
+     * @param _pC Proof point C
+     * @param _publicSignals Public signals of the proof
+     */
+    function unlockTimeCapsuleWithProof(
+        uint256 _capsuleId,
+        uint256[2] calldata _pA,
+        uint256[2][2] calldata _pB,
+        uint256[2] calldata _pC,
+        uint256[] calldata _publicSignals
+    ) external returns (string memory, bytes memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        ProofGate storage gate = proofGates[_capsuleId];
+        require(gate.verifier != address(0), "Capsule has no proof gate");
+        require(_publicSignals.length == gate.publicSignals.length, "Wrong number of public signals");
+        for (uint256 i = 0; i < _publicSignals.length; i++) {
+            if ((gate.requiredMask >> i) & 1 == 1) {
+                require(_publicSignals[i] == gate.publicSignals[i], "Public signal mismatch");
+            }
+        }
+
+        (bool success, bytes memory result) = gate.verifier.staticcall(
+            abi.encodePacked(gate.selector, abi.encode(_pA, _pB, _pC), _publicSignals)
+        );
+        require(success && result.length == 32 && abi.decode(result, (bool)), "Invalid proof");
+
+        return _unlock(_capsuleId, msg.sender);
+    }
+
+    /**
+     * @dev Get time capsule details; isUnlocked is true once every recipient has unlocked
+     * guardianApproval: 0 no guardians, 1 pending, 2 approved early unlock, 3 vetoed
+     * unlockTime is a timestamp for Timestamp conditions and a block number otherwise
+     * @param _capsuleId ID of the time capsule
+     */
+    function getTimeCapsule(uint256 _capsuleId) external view returns (
         string memory ipfsCid,
         uint256 blocklockRequestId,
         uint256 unlockTime,
@@ -354,11 +1061,15 @@ contract TimeCapsuleBlocklockSimple {
         uint256 fileSize,
         string memory fileType,
         bool hasDecryptionKey,
-        bool useBlocklock
+        bool useBlocklock,
+        address recipient,
+        uint8 guardianApproval,
+        ConditionType conditionType
     ) {
         require(_capsuleId < nextCapsuleId, "Capsule does not exist");
         
-        TimeCapsule memory capsule = timeCapsules[_capsuleId];
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
+        (bool approved, bool vetoed, ) = _guardianApproval(_capsuleId);
         
         return (
             capsule.ipfsCid,
@@ -368,28 +1079,71 @@ contract TimeCapsuleBlocklockSimple {
             capsule.creator,
             capsule.recipientEmail,
             capsule.title,
-            capsule.isUnlocked,
+            _isFullyUnlocked(_capsuleId),
             capsule.fileSize,
             capsule.fileType,
             capsule.hasDecryptionKey,
-            capsule.useBlocklock
+            capsule.useBlocklock,
+            capsule.recipient,
+            guardianModules[_capsuleId] == address(0) ? 0 : vetoed ? 3 : approved ? 2 : 1,
+            conditionTypes[_capsuleId]
         );
     }
 
     /**
      * @dev Get decryption key for an unlocked capsule
+     * The checks only keep honest clients from reading the key early; they are no access control, since
+     * an eth_call can set any sender and the key is in storage (and the create calldata) all along
      * @param _capsuleId ID of the time capsule
      */
     function getDecryptionKey(uint256 _capsuleId) external view returns (bytes memory) {
         require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(_isAuthorizedUnlocker(_capsuleId, msg.sender), "Not authorized to unlock");
+        require(!isCancelled[_capsuleId], "Capsule was cancelled");
+        
+        _requireOpen(_capsuleId);
         
-        TimeCapsule memory capsule = timeCapsules[_capsuleId];
-        require(capsule.isUnlocked || block.timestamp >= capsule.unlockTime, "Capsule is still locked");
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
         require(capsule.hasDecryptionKey, "Decryption key not available");
         
         return capsule.decryptionKey;
     }
 
+    /**
+     * @dev Get the caller's wrapped copy of the data key; empty for capsules without wrapped keys
+     * Delegates get the first recipient's copy, which only that recipient can unwrap
+     * @param _capsuleId ID of the time capsule
+     */
+    function getWrappedKey(uint256 _capsuleId) external view returns (bytes memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(_isAuthorizedUnlocker(_capsuleId, msg.sender), "Not authorized to unlock");
+        require(!isCancelled[_capsuleId], "Capsule was cancelled");
+        _requireOpen(_capsuleId);
+
+        return wrappedKeys[_capsuleId][_unlockingRecipient(_capsuleId, msg.sender)];
+    }
+
+    /**
+     * @dev Check whether a recipient holds a wrapped copy of the data key rather than reading the plain key
+     * @param _capsuleId ID of the time capsule
+     * @param _recipient Recipient of the capsule
+     */
+    function hasWrappedKey(uint256 _capsuleId, address _recipient) external view returns (bool) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        return wrappedKeys[_capsuleId][_recipient].length > 0;
+    }
+
+    /**
+     * @dev Get the recipients of a capsule, first recipient first
+     * @param _capsuleId ID of the time capsule
+     */
+    function getRecipients(uint256 _capsuleId) external view returns (address[] memory) {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+
+        return capsuleRecipients[_capsuleId];
+    }
+
     /**
      * @dev Get user's time capsules
      * @param _user Address of the user
@@ -399,37 +1153,51 @@ contract TimeCapsuleBlocklockSimple {
     }
 
     /**
-     * @dev Check if a capsule can be unlocked
+     * @dev Get the capsules an address was made a recipient of, oldest first
+     * Includes capsules it was later replaced on, and repeats a capsule it was re-added to;
+     * check isCapsuleRecipient, or use CapsuleReader.getRecipientCapsules
+     * @param _recipient Address of the recipient
+     */
+    function getRecipientCapsules(address _recipient) external view returns (uint256[] memory) {
+        return recipientCapsules[_recipient];
+    }
+
+    /**
+     * @dev Check if a capsule can be unlocked by at least one recipient that has not unlocked yet
+     * Guardian approval opens it before the unlock time and a guardian veto keeps it closed
      * @param _capsuleId ID of the time capsule
      */
     function canUnlock(uint256 _capsuleId) external view returns (bool) {
         require(_capsuleId < nextCapsuleId, "Capsule does not exist");
         
-        TimeCapsule memory capsule = timeCapsules[_capsuleId];
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
         
-        if (capsule.useBlocklock) {
-            return block.timestamp >= capsule.unlockTime && 
-                   !capsule.isUnlocked && 
+        if (isCancelled[_capsuleId]) {
+            return false;
+        } else if (capsule.useBlocklock) {
+            return _isOpen(_capsuleId) && 
+                   !_isFullyUnlocked(_capsuleId) && 
                    capsule.hasDecryptionKey;
         } else {
-            return block.timestamp >= capsule.unlockTime && !capsule.isUnlocked;
+            return _isOpen(_capsuleId) && !_isFullyUnlocked(_capsuleId);
         }
     }
 
     /**
-     * @dev Get the remaining time until unlock
+     * @dev Get the remaining time until unlock: seconds for Timestamp conditions, blocks otherwise
      * @param _capsuleId ID of the time capsule
      */
     function getTimeUntilUnlock(uint256 _capsuleId) external view returns (uint256) {
         require(_capsuleId < nextCapsuleId, "Capsule does not exist");
         
-        TimeCapsule memory capsule = timeCapsules[_capsuleId];
+        uint256 unlockTime = timeCapsules[_capsuleId].unlockTime;
+        uint256 now_ = _clock(_capsuleId);
         
-        if (block.timestamp >= capsule.unlockTime) {
+        if (now_ >= unlockTime) {
             return 0;
         }
         
-        return capsule.unlockTime - block.timestamp;
+        return unlockTime - now_;
     }
 
     /**
@@ -446,15 +1214,360 @@ contract TimeCapsuleBlocklockSimple {
     function isBlocklockCapsule(uint256 _capsuleId) external view returns (bool) {
         require(_capsuleId < nextCapsuleId, "Capsule does not exist");
         
-        TimeCapsule memory capsule = timeCapsules[_capsuleId];
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
         return capsule.useBlocklock;
     }
 
-    function decodeUnlockTimeFromCondition(bytes memory conditionBytes) internal pure returns (uint256) {
-        if (conditionBytes.length >= 32) {
-            return abi.decode(conditionBytes, (uint256));
+    function _createSimpleTimeCapsule(
+        string memory _ipfsCid,
+        string memory _encryptionKey,
+        ConditionType _conditionType,
+        uint256 _unlockTime,
+        address[] memory _recipients,
+        bytes[] memory _wrappedKeys,
+        string memory _recipientEmail,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType,
+        address _creator,
+        uint256 _creationTime
+    ) internal returns (uint256) {
+        require(bytes(_ipfsCid).length > 0, "IPFS CID cannot be empty");
+        // Imported capsules keep their original unlock time, which may have passed
+        require(_creationTime < block.timestamp || _unlockTime > _clockOf(_conditionType), "Unlock time must be in the future");
+        require(bytes(_title).length > 0, "Title cannot be empty");
+        
+        uint256 capsuleId = nextCapsuleId;
+        conditionTypes[capsuleId] = _conditionType;
+        
+        timeCapsules[capsuleId] = TimeCapsule({
+            ipfsCid: _ipfsCid,
+            blocklockRequestId: 0, // No Blocklock request for simple capsules
+            encryptedData: bytes(_encryptionKey),
+            unlockTime: _unlockTime,
+            creationTime: _creationTime,
+            creator: _creator,
+            recipientEmail: _recipientEmail,
+            title: _title,
+            unlockedRecipients: 0,
+            fileSize: _fileSize,
+            fileType: _fileType,
+            decryptionKey: bytes(_encryptionKey),
+            hasDecryptionKey: true, // Immediately available for simple capsules
+            useBlocklock: false,
+            recipient: _recipients[0]
+        });
+        
+        userCapsules[_creator].push(capsuleId);
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            _addRecipient(capsuleId, _recipients[i], _wrappedKeys[i]);
+        }
+        
+        nextCapsuleId++;
+        totalCapsules++;
+        
+        emit TimeCapsuleCreated(
+            capsuleId,
+            _ipfsCid,
+            0, // No Blocklock request ID
+            _unlockTime,
+            _creationTime,
+            _creator,
+            _title,
+            _fileSize,
+            false,
+            _recipients[0]
+        );
+        
+        emit CIDStored(capsuleId, _ipfsCid, block.timestamp);
+        if (_conditionType != ConditionType.Timestamp) {
+            emit UnlockConditionSet(capsuleId, _conditionType);
+        }
+        
+        return capsuleId;
+    }
+
+    function _createTimelockRequest(
+        string memory _ipfsCid,
+        uint256 callbackGasLimit,
+        bytes memory conditionBytes,
+        bytes memory ciphertext,
+        address _recipient,
+        string memory _recipientEmail,
+        string memory _title,
+        uint256 _fileSize,
+        string memory _fileType
+    ) internal returns (uint256, uint256) {
+        require(bytes(_ipfsCid).length > 0, "IPFS CID cannot be empty");
+        require(callbackGasLimit > 0, "Callback gas limit must be positive");
+        require(conditionBytes.length > 0, "Condition bytes cannot be empty");
+        require(ciphertext.length > 0, "Ciphertext cannot be empty");
+        require(bytes(_title).length > 0, "Title cannot be empty");
+        require(msg.value > 0, "Must send ETH for Blocklock callback fee");
+        
+        uint256 capsuleId = nextCapsuleId;
+        
+        uint256 blocklockRequestId = uint256(keccak256(abi.encodePacked(
+            capsuleId, 
+            block.timestamp, 
+            conditionBytes,
+            ciphertext
+        )));
+        
+        blocklockToCapsule[blocklockRequestId] = capsuleId;
+        
+        (ConditionType conditionType, uint256 unlockTime) = decodeUnlockCondition(conditionBytes);
+        require(unlockTime > _clockOf(conditionType), "Unlock time must be in the future");
+        conditionTypes[capsuleId] = conditionType;
+        
+        // Create the time capsule
+        timeCapsules[capsuleId] = TimeCapsule({
+            ipfsCid: _ipfsCid,
+            blocklockRequestId: blocklockRequestId,
+            encryptedData: ciphertext,
+            unlockTime: unlockTime,
+            creationTime: block.timestamp,
+            creator: msg.sender,
+            recipientEmail: _recipientEmail,
+            title: _title,
+            unlockedRecipients: 0,
+            fileSize: _fileSize,
+            fileType: _fileType,
+            decryptionKey: "",
+            hasDecryptionKey: false,
+            useBlocklock: true,
+            recipient: _recipient
+        });
+        
+        // Add to user's capsules
+        userCapsules[msg.sender].push(capsuleId);
+        _addRecipient(capsuleId, _recipient, "");
+        blocklockFees[capsuleId] = msg.value;
+        
+        nextCapsuleId++;
+        totalCapsules++;
+        
+        // Store callback gas limit and condition for Blocklock processing
+        // In production, this data would be sent to Blocklock network
+        
+        emit TimeCapsuleCreated(
+            capsuleId,
+            _ipfsCid,
+            blocklockRequestId,
+            unlockTime,
+            block.timestamp,
+            msg.sender,
+            _title,
+            _fileSize,
+            true,
+            _recipient
+        );
+        
+        emit CIDStored(capsuleId, _ipfsCid, block.timestamp);
+        if (conditionType != ConditionType.Timestamp) {
+            emit UnlockConditionSet(capsuleId, conditionType);
+        }
+        
+        // Note: In production, the msg.value would be forwarded to Blocklock network
+        // For demo purposes, we keep it in contract until the capsule is cancelled
+        
+        return (capsuleId, blocklockRequestId);
+    }
+
+    function _unlock(uint256 _capsuleId, address _account) internal returns (string memory, bytes memory) {
+        require(_isAuthorizedUnlocker(_capsuleId, _account), "Not authorized to unlock");
+        require(!isCancelled[_capsuleId], "Capsule was cancelled");
+        
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
+        address unlocking = _unlockingRecipient(_capsuleId, _account);
+        _requireOpen(_capsuleId);
+        require(!hasUnlocked[_capsuleId][unlocking], "Capsule already unlocked");
+        
+        // For Blocklock capsules, ensure decryption key is available
+        if (capsule.useBlocklock) {
+            require(capsule.hasDecryptionKey, "Decryption key not yet available");
+        }
+        require(!_keyPending(_capsuleId, unlocking), "Wrapped key pending");
+        
+        hasUnlocked[_capsuleId][unlocking] = true;
+        capsule.unlockedRecipients++;
+        
+        emit TimeCapsuleUnlocked(
+            _capsuleId,
+            capsule.ipfsCid,
+            _account,
+            block.timestamp
+        );
+        
+        bytes memory wrappedKey = wrappedKeys[_capsuleId][unlocking];
+        return (capsule.ipfsCid, wrappedKey.length > 0 ? wrappedKey : capsule.decryptionKey);
+    }
+
+    function _addRecipient(uint256 _capsuleId, address _recipient, bytes memory _wrappedKey) internal {
+        require(!isCapsuleRecipient[_capsuleId][_recipient], "Duplicate recipient");
+
+        capsuleRecipients[_capsuleId].push(_recipient);
+        isCapsuleRecipient[_capsuleId][_recipient] = true;
+        recipientCapsules[_recipient].push(_capsuleId);
+        if (_wrappedKey.length > 0) {
+            wrappedKeys[_capsuleId][_recipient] = _wrappedKey;
+        }
+
+        emit RecipientAdded(_capsuleId, _recipient, _wrappedKey.length > 0);
+    }
+
+    function _replaceRecipient(uint256 _capsuleId, address _previousRecipient, address _recipient, bytes memory _wrappedKey) internal {
+        require(isCapsuleRecipient[_capsuleId][_previousRecipient], "Not a recipient");
+        require(!hasUnlocked[_capsuleId][_previousRecipient], "Claim already used");
+        require(_recipient != address(0), "Recipient cannot be zero address");
+        require(!isCapsuleRecipient[_capsuleId][_recipient], "Duplicate recipient");
+
+        address[] storage recipients = capsuleRecipients[_capsuleId];
+        for (uint256 i = 0; i < recipients.length; i++) {
+            if (recipients[i] == _previousRecipient) {
+                recipients[i] = _recipient;
+                break;
+            }
+        }
+        if (timeCapsules[_capsuleId].recipient == _previousRecipient) {
+            timeCapsules[_capsuleId].recipient = _recipient;
+        }
+
+        isCapsuleRecipient[_capsuleId][_previousRecipient] = false;
+        isCapsuleRecipient[_capsuleId][_recipient] = true;
+        recipientCapsules[_recipient].push(_capsuleId);
+        delete wrappedKeys[_capsuleId][_previousRecipient];
+        if (_wrappedKey.length > 0) {
+            wrappedKeys[_capsuleId][_recipient] = _wrappedKey;
+        }
+
+        emit RecipientUpdated(_capsuleId, _previousRecipient, _recipient);
+    }
+
+    function _singleRecipient(address _recipient) internal pure returns (address[] memory recipients) {
+        recipients = new address[](1);
+        recipients[0] = _recipient;
+    }
+
+    // Creator-only amendments are allowed until the unlock time
+    function _requireAmendable(uint256 _capsuleId) internal view {
+        require(_capsuleId < nextCapsuleId, "Capsule does not exist");
+        require(timeCapsules[_capsuleId].creator == msg.sender, "Only creator can amend");
+        _requireLocked(_capsuleId);
+    }
+
+    // Both hashes or neither: a capsule created without them can still get them from setContentHash
+    function _recordContentHash(uint256 _capsuleId, ContentHash calldata _contentHash) internal {
+        if (_contentHash.envelope == 0 && _contentHash.plaintext == 0) {
+            return;
+        }
+        require(_contentHash.envelope != 0 && _contentHash.plaintext != 0, "Content hash cannot be zero");
+
+        _setContentHash(_capsuleId, _contentHash.envelope, _contentHash.plaintext);
+    }
+
+    function _setContentHash(uint256 _capsuleId, bytes32 _envelopeHash, bytes32 _plaintextHash) internal {
+        contentHashes[_capsuleId] = ContentHash(_envelopeHash, _plaintextHash);
+
+        emit ContentHashSet(_capsuleId, _envelopeHash, _plaintextHash);
+    }
+
+    function _requireLocked(uint256 _capsuleId) internal view {
+        require(!isCancelled[_capsuleId], "Capsule was cancelled");
+        require(!_isUnlockable(_capsuleId), "Capsule is already unlockable");
+    }
+
+    // Unlockable once the unlock time has passed or the guardians approved; a veto does not lock it again
+    function _isUnlockable(uint256 _capsuleId) internal view returns (bool) {
+        (bool approved, , ) = _guardianApproval(_capsuleId);
+        return approved || _clock(_capsuleId) >= timeCapsules[_capsuleId].unlockTime;
+    }
+
+    // Open once the unlock time has passed or the guardians approved, unless they vetoed
+    function _requireOpen(uint256 _capsuleId) internal view {
+        (bool approved, bool vetoed, ) = _guardianApproval(_capsuleId);
+        require(!vetoed, "Vetoed by guardians");
+        require(approved || _clock(_capsuleId) >= timeCapsules[_capsuleId].unlockTime, "Capsule is still locked");
+    }
+
+    function _isOpen(uint256 _capsuleId) internal view returns (bool) {
+        (bool approved, bool vetoed, ) = _guardianApproval(_capsuleId);
+        return !vetoed && (approved || _clock(_capsuleId) >= timeCapsules[_capsuleId].unlockTime);
+    }
+
+    // Current time in the unit of the capsule's unlockTime
+    function _clock(uint256 _capsuleId) internal view returns (uint256) {
+        return _clockOf(conditionTypes[_capsuleId]);
+    }
+
+    function _clockOf(ConditionType _conditionType) internal view returns (uint256) {
+        return _conditionType == ConditionType.Timestamp ? block.timestamp : block.number;
+    }
+
+    function _guardianApproval(uint256 _capsuleId) internal view returns (bool approved, bool vetoed, bool voted) {
+        address module = guardianModules[_capsuleId];
+        if (module != address(0)) {
+            (approved, vetoed, voted) = ICapsuleGuardians(module).approvalState(address(this), _capsuleId);
+        }
+    }
+
+    function _isFullyUnlocked(uint256 _capsuleId) internal view returns (bool) {
+        return timeCapsules[_capsuleId].unlockedRecipients == capsuleRecipients[_capsuleId].length;
+    }
+
+    // A simple capsule without a plain key whose recipient has no wrapped key yet, after a claim transfer
+    function _keyPending(uint256 _capsuleId, address _recipient) internal view returns (bool) {
+        TimeCapsule storage capsule = timeCapsules[_capsuleId];
+        return !capsule.useBlocklock && capsule.decryptionKey.length == 0 && wrappedKeys[_capsuleId][_recipient].length == 0;
+    }
+
+    // Recipients unlock their own copy; delegates unlock the first recipient's
+    function _unlockingRecipient(uint256 _capsuleId, address _account) internal view returns (address) {
+        return isCapsuleRecipient[_capsuleId][_account] ? _account : timeCapsules[_capsuleId].recipient;
+    }
+
+    function _isAuthorizedUnlocker(uint256 _capsuleId, address _account) internal view returns (bool) {
+        return isCapsuleRecipient[_capsuleId][_account] || unlockDelegates[_capsuleId][_account];
+    }
+
+    function _verifyProofSelector(uint256 _signalCount) internal pure returns (bytes4) {
+        bytes memory digits;
+        do {
+            digits = abi.encodePacked(bytes1(uint8(48 + _signalCount % 10)), digits);
+            _signalCount /= 10;
+        } while (_signalCount > 0);
+
+        return bytes4(keccak256(abi.encodePacked(
+            "verifyProof(uint256[2],uint256[2][2],uint256[2],uint256[", digits, "])"
+        )));
+    }
+
+    function _requireRecipients(address[] memory _recipients, bytes[] memory _wrappedKeys, bool _wrapped) internal pure {
+        require(_recipients.length > 0, "At least one recipient required");
+        require(_recipients.length <= MAX_RECIPIENTS, "Too many recipients");
+        require(_recipients.length == _wrappedKeys.length, "One wrapped key per recipient");
+        for (uint256 i = 0; i < _recipients.length; i++) {
+            require(_recipients[i] != address(0), "Recipient cannot be zero address");
+            require(!_wrapped || _wrappedKeys[i].length > 0, "Wrapped key cannot be empty");
+        }
+    }
+
+    // Accepts a 32-byte abi-encoded timestamp or a Blocklock block height condition, nothing else
+    function decodeUnlockCondition(bytes memory conditionBytes) internal pure returns (ConditionType, uint256) {
+        if (conditionBytes.length == 32) {
+            return (ConditionType.Timestamp, abi.decode(conditionBytes, (uint256)));
+        }
+        require(
+            conditionBytes.length == 33 && conditionBytes[0] == BLOCK_HEIGHT_CONDITION,
+            "Unsupported unlock condition"
+        );
+
+        uint256 blockHeight;
+        assembly {
+            // Skip the length word and the "B" tag
+            blockHeight := mload(add(conditionBytes, 33))
         }
-        return 3600;
+        return (ConditionType.Blocklock, blockHeight);
     }
 
     function getBlocklockPrice(uint32, uint256) external pure returns (uint256) {
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/**
+ * @title ICapsuleClaims
+ * @dev Claim token contract a capsule contract mints recipients' claims on (see CapsuleClaims)
+ */
+interface ICapsuleClaims {
+    /**
+     * @dev Mint one claim token per recipient of one of the calling contract's capsules
+     * @param capsuleId ID of the time capsule
+     * @param recipients Recipients to mint to, one token each
+     */
+    function mint(uint256 capsuleId, address[] calldata recipients) external;
+}
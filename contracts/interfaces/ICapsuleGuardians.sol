@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/**
+ * @title ICapsuleGuardians
+ * @dev Guardian module a capsule contract consults at unlock (see CapsuleGuardians)
+ */
+interface ICapsuleGuardians {
+    /**
+     * @dev Replace the guardian set of one of the calling contract's capsules; refused once a guardian has voted
+     * @param capsuleId ID of the time capsule
+     * @param guardians Guardian addresses
+     * @param threshold Votes needed to approve or veto
+     */
+    function configure(uint256 capsuleId, address[] calldata guardians, uint256 threshold) external;
+
+    /**
+     * @dev Whether the guardians of a capsule have approved an early unlock or vetoed the unlock,
+     * and whether any of them has voted, which freezes the guardian set
+     * @param capsules Capsule contract the capsule belongs to
+     * @param capsuleId ID of the time capsule
+     */
+    function approvalState(address capsules, uint256 capsuleId) external view returns (bool approved, bool vetoed, bool voted);
+}
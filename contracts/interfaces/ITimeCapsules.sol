@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/**
+ * @title ITimeCapsules
+ * @dev View of TimeCapsuleBlocklockSimple for contracts built around its capsules, and the
+ * hooks those contracts call back into
+ */
+interface ITimeCapsules {
+    // What a capsule's unlockTime counts: a timestamp, a block number, or the block height of a
+    // Blocklock condition ("B" followed by the abi-encoded height, see blocklock-js encodeCondition)
+    enum ConditionType { Timestamp, BlockNumber, Blocklock }
+
+    function getTimeCapsule(uint256 capsuleId) external view returns (
+        string memory ipfsCid,
+        uint256 blocklockRequestId,
+        uint256 unlockTime,
+        uint256 creationTime,
+        address creator,
+        string memory recipientEmail,
+        string memory title,
+        bool isUnlocked,
+        uint256 fileSize,
+        string memory fileType,
+        bool hasDecryptionKey,
+        bool useBlocklock,
+        address recipient,
+        uint8 guardianApproval,
+        ConditionType conditionType
+    );
+
+    function nextCapsuleId() external view returns (uint256);
+
+    function getTimeUntilUnlock(uint256 capsuleId) external view returns (uint256);
+
+    function canUnlock(uint256 capsuleId) external view returns (bool);
+
+    function getUserCapsules(address user) external view returns (uint256[] memory);
+
+    function getRecipientCapsules(address recipient) external view returns (uint256[] memory);
+
+    function getRecipients(uint256 capsuleId) external view returns (address[] memory);
+
+    function isCapsuleRecipient(uint256 capsuleId, address account) external view returns (bool);
+
+    function hasUnlocked(uint256 capsuleId, address recipient) external view returns (bool);
+
+    function isCancelled(uint256 capsuleId) external view returns (bool);
+
+    function heartbeatIntervals(uint256 capsuleId) external view returns (uint256);
+
+    function contentHashes(uint256 capsuleId) external view returns (bytes32 envelope, bytes32 plaintext);
+
+    /**
+     * @dev Move a recipient's claim to another address; only the capsule's claims contract may call
+     * @param capsuleId ID of the time capsule
+     * @param from Current recipient
+     * @param to New recipient
+     */
+    function transferClaim(uint256 capsuleId, address from, address to) external;
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/**
+ * @title Signatures
+ * @dev EIP-712 domains and ECDSA recovery for the off-chain signed messages the capsule contracts accept
+ */
+library Signatures {
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    // Upper half of the secp256k1 order; signatures with a larger s are malleated copies
+    uint256 private constant MAX_SIGNATURE_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    /**
+     * @dev EIP-712 domain separator of the calling contract, version "1"
+     * @param _nameHash keccak256 of the domain name
+     */
+    function domainSeparator(bytes32 _nameHash) internal view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, _nameHash, keccak256("1"), block.chainid, address(this)));
+    }
+
+    /**
+     * @dev Signer of a digest; reverts on malformed or malleated signatures
+     * @param _digest Signed digest
+     * @param _signature 65-byte r | s | v signature
+     */
+    function recover(bytes32 _digest, bytes calldata _signature) internal pure returns (address) {
+        require(_signature.length == 65, "Invalid signature length");
+
+        bytes32 r = bytes32(_signature[0:32]);
+        bytes32 s = bytes32(_signature[32:64]);
+        uint8 v = uint8(_signature[64]);
+        require(uint256(s) <= MAX_SIGNATURE_S && (v == 27 || v == 28), "Invalid signature");
+
+        address signer = ecrecover(_digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+        return signer;
+    }
+}
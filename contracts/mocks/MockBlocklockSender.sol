@@ -0,0 +1,215 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {IBlocklockReceiver} from "blocklock-solidity/src/interfaces/IBlocklockReceiver.sol";
+import {TypesLib} from "blocklock-solidity/src/libraries/TypesLib.sol";
+
+/**
+ * @title MockBlocklockSender
+ * @dev Local stand-in for the Blocklock sender on the Hardhat network
+ * Implements the parts of IBlocklockSender that TimeCapsuleBlocklock uses. Requests are fulfilled by an
+ * off-chain oracle (scripts/blocklockOracle.ts) once the condition block is reached.
+ *
+ * NOT SECURE: decryption keys are derived from public data, so anyone can compute them early.
+ * The ciphertext is a keccak keystream over the plaintext, not IBE. Use only for local testing.
+ */
+contract MockBlocklockSender {
+    struct Request {
+        address callback;                  // Receiver contract to call back
+        uint32 callbackGasLimit;           // Gas forwarded to the callback
+        uint256 blockHeight;               // Block height from the condition
+        bytes condition;                   // Raw Blocklock condition bytes
+        uint256 feePaid;                   // Native fee paid with the request
+        bool fulfilled;                    // Whether the callback succeeded
+    }
+
+    // Blocklock conditions are "B" followed by the abi-encoded uint256 block height
+    bytes1 private constant BLOCK_HEIGHT_CONDITION = 0x42;
+    bytes32 private constant KEY_DOMAIN = keccak256("future-protocol.mock-blocklock.v1");
+
+    address public owner;
+    address public oracle;
+    uint256 public requestPrice;
+    uint256 public nextRequestId;
+
+    mapping(uint256 => Request) public requests;
+    mapping(uint256 => TypesLib.Ciphertext) private requestCiphertexts;
+
+    event BlocklockRequested(
+        uint256 indexed requestId,
+        bytes condition,
+        TypesLib.Ciphertext ciphertext,
+        address indexed requester,
+        uint256 requestedAt
+    );
+
+    event BlocklockCallbackSuccess(
+        uint256 indexed requestId,
+        bytes condition,
+        TypesLib.Ciphertext ciphertext,
+        bytes decryptionKey
+    );
+
+    event BlocklockCallbackFailed(uint256 indexed requestId);
+
+    event OracleUpdated(address indexed oracle);
+
+    event RequestPriceUpdated(uint256 requestPrice);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can call");
+        _;
+    }
+
+    modifier onlyOracle() {
+        require(msg.sender == oracle, "Only oracle can call");
+        _;
+    }
+
+    constructor(address _oracle, uint256 _requestPrice) {
+        require(_oracle != address(0), "Oracle cannot be zero address");
+
+        owner = msg.sender;
+        oracle = _oracle;
+        requestPrice = _requestPrice;
+        nextRequestId = 1;
+    }
+
+    /**
+     * @dev Submit a timelock request paid in native currency
+     * @param callbackGasLimit Gas limit for the receiveBlocklock callback
+     * @param condition Encoded condition bytes from encodeCondition()
+     * @param ciphertext Ciphertext from MockBlocklock.encrypt()
+     */
+    function requestBlocklock(
+        uint32 callbackGasLimit,
+        bytes calldata condition,
+        TypesLib.Ciphertext calldata ciphertext
+    ) external payable returns (uint256) {
+        require(msg.value >= requestPrice, "Fee too low");
+        require(callbackGasLimit > 0, "Callback gas limit must be positive");
+
+        uint256 blockHeight = decodeBlockHeightCondition(condition);
+        require(blockHeight > block.number, "Condition block must be in the future");
+
+        uint256 requestId = nextRequestId++;
+
+        requests[requestId] = Request({
+            callback: msg.sender,
+            callbackGasLimit: callbackGasLimit,
+            blockHeight: blockHeight,
+            condition: condition,
+            feePaid: msg.value,
+            fulfilled: false
+        });
+        requestCiphertexts[requestId] = ciphertext;
+
+        emit BlocklockRequested(requestId, condition, ciphertext, msg.sender, block.timestamp);
+
+        return requestId;
+    }
+
+    /**
+     * @dev Deliver the decryption key for a request whose condition block has been reached
+     * A failed callback leaves the request in flight so the oracle can retry
+     * @param requestId Blocklock request ID
+     * @param decryptionKey Key derived by the oracle from the request condition
+     */
+    function fulfillRequest(uint256 requestId, bytes calldata decryptionKey) external onlyOracle {
+        Request storage request = requests[requestId];
+        require(request.callback != address(0), "No request for request id");
+        require(!request.fulfilled, "Request already fulfilled");
+        require(block.number >= request.blockHeight, "Condition not met");
+        require(keccak256(decryptionKey) == keccak256(deriveDecryptionKey(request.condition)), "Invalid decryption key");
+
+        bytes memory callbackCallData =
+            abi.encodeWithSelector(IBlocklockReceiver.receiveBlocklock.selector, requestId, decryptionKey);
+
+        // solhint-disable-next-line avoid-low-level-calls
+        (bool success,) = request.callback.call{gas: request.callbackGasLimit}(callbackCallData);
+
+        if (success) {
+            request.fulfilled = true;
+            emit BlocklockCallbackSuccess(requestId, request.condition, requestCiphertexts[requestId], decryptionKey);
+        } else {
+            emit BlocklockCallbackFailed(requestId);
+        }
+    }
+
+    /**
+     * @dev Decrypt a mock ciphertext with its decryption key
+     * @param ciphertext Ciphertext from MockBlocklock.encrypt()
+     * @param decryptionKey Key delivered by the oracle
+     */
+    function decrypt(TypesLib.Ciphertext calldata ciphertext, bytes calldata decryptionKey)
+        external
+        pure
+        returns (bytes memory)
+    {
+        require(decryptionKey.length == 32, "Invalid decryption key length");
+
+        bytes32 key = bytes32(decryptionKey);
+        bytes memory plaintext = new bytes(ciphertext.v.length);
+
+        for (uint256 i = 0; i < plaintext.length; i++) {
+            bytes32 block_ = keccak256(abi.encodePacked(key, i / 32));
+            plaintext[i] = ciphertext.v[i] ^ block_[i % 32];
+        }
+
+        require(keccak256(abi.encodePacked(keccak256(plaintext))) == keccak256(ciphertext.w), "Decryption failed");
+
+        return plaintext;
+    }
+
+    /**
+     * @dev Derive the decryption key for a condition
+     * Mirrors MockBlocklock.deriveDecryptionKey in scripts/MockBlocklock.ts
+     * @param condition Encoded condition bytes
+     */
+    function deriveDecryptionKey(bytes memory condition) public view returns (bytes memory) {
+        return abi.encodePacked(keccak256(abi.encodePacked(KEY_DOMAIN, block.chainid, address(this), condition)));
+    }
+
+    /**
+     * @dev Get the native fee for a request
+     */
+    function calculateRequestPriceNative(uint32) external view returns (uint256) {
+        return requestPrice;
+    }
+
+    /**
+     * @dev Check if a request is waiting for its callback
+     * @param requestId Blocklock request ID
+     */
+    function isInFlight(uint256 requestId) external view returns (bool) {
+        Request memory request = requests[requestId];
+        return request.callback != address(0) && !request.fulfilled;
+    }
+
+    /**
+     * @dev Change the oracle allowed to fulfil requests
+     * @param _oracle New oracle address
+     */
+    function setOracle(address _oracle) external onlyOwner {
+        require(_oracle != address(0), "Oracle cannot be zero address");
+        oracle = _oracle;
+        emit OracleUpdated(_oracle);
+    }
+
+    /**
+     * @dev Change the native fee charged per request
+     * @param _requestPrice New request price in wei
+     */
+    function setRequestPrice(uint256 _requestPrice) external onlyOwner {
+        requestPrice = _requestPrice;
+        emit RequestPriceUpdated(_requestPrice);
+    }
+
+    function decodeBlockHeightCondition(bytes calldata condition) internal pure returns (uint256) {
+        require(
+            condition.length == 33 && condition[0] == BLOCK_HEIGHT_CONDITION,
+            "Condition must be a Blocklock block height"
+        );
+        return abi.decode(condition[1:], (uint256));
+    }
+}
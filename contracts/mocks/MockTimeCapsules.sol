@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+import {ITimeCapsules} from "../interfaces/ITimeCapsules.sol";
+
+/**
+ * @title MockTimeCapsules
+ * @dev Dishonest capsule contract for tests: every capsule belongs to the deployer and has a
+ * single recipient, yet every address passes as that recipient once setLocked(false) is called
+ */
+contract MockTimeCapsules {
+    address public creator;
+    bool public locked = true;
+
+    constructor() {
+        creator = msg.sender;
+    }
+
+    function setLocked(bool _locked) external {
+        locked = _locked;
+    }
+
+    function getTimeCapsule(uint256) external view returns (
+        string memory ipfsCid,
+        uint256 blocklockRequestId,
+        uint256 unlockTime,
+        uint256 creationTime,
+        address capsuleCreator,
+        string memory recipientEmail,
+        string memory title,
+        bool isUnlocked,
+        uint256 fileSize,
+        string memory fileType,
+        bool hasDecryptionKey,
+        bool useBlocklock,
+        address recipient,
+        uint8 guardianApproval,
+        ITimeCapsules.ConditionType conditionType
+    ) {
+        capsuleCreator = creator;
+        return (ipfsCid, blocklockRequestId, unlockTime, creationTime, capsuleCreator, recipientEmail, title,
+            isUnlocked, fileSize, fileType, hasDecryptionKey, useBlocklock, recipient, guardianApproval, conditionType);
+    }
+
+    function getTimeUntilUnlock(uint256) external view returns (uint256) {
+        return locked ? 1 : 0;
+    }
+
+    function getRecipients(uint256) external pure returns (address[] memory) {
+        return new address[](1);
+    }
+
+    function isCapsuleRecipient(uint256, address) external pure returns (bool) {
+        return true;
+    }
+
+    function hasUnlocked(uint256, address) external view returns (bool) {
+        return !locked;
+    }
+
+    function isCancelled(uint256) external pure returns (bool) {
+        return false;
+    }
+}
@@ -16,7 +16,7 @@ const DeployTimeCapsuleStorage: DeployFunction = async function (hre: HardhatRun
         from: await deployer.getAddress(),
         args: [],
         log: true,
-        waitConfirmations: 2,
+        waitConfirmations: hre.network.live ? 2 : 1,
     })
 
     console.log(`TimeCapsuleStorage deployed to: ${timeCapsuleStorage.address}`)
@@ -0,0 +1,34 @@
+import { DeployFunction } from "hardhat-deploy/types"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Deploy MockBlocklockSender on local networks so TimeCapsuleBlocklock can be exercised offline.
+ * Requests are fulfilled by scripts/blocklockOracle.ts.
+ */
+const DeployMockBlocklockSender: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const [deployer] = await hre.ethers.getSigners()
+
+    const { deploy } = hre.deployments
+
+    console.log(`Deploying MockBlocklockSender from account: ${await deployer.getAddress()}`)
+
+    // The deployer doubles as the oracle; change it later with setOracle
+    const oracle = process.env.MOCK_BLOCKLOCK_ORACLE_ADDRESS || (await deployer.getAddress())
+    const requestPrice = hre.ethers.parseEther(process.env.MOCK_BLOCKLOCK_REQUEST_PRICE || "0.001")
+
+    const mockBlocklockSender = await deploy("MockBlocklockSender", {
+        from: await deployer.getAddress(),
+        args: [oracle, requestPrice],
+        log: true,
+        waitConfirmations: 1,
+    })
+
+    console.log(`MockBlocklockSender deployed to: ${mockBlocklockSender.address}`)
+    console.log(`Oracle: ${oracle}`)
+    console.log(`Request price: ${hre.ethers.formatEther(requestPrice)} ETH`)
+}
+
+// Never deploy the insecure mock to a live network
+DeployMockBlocklockSender.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.live
+
+export default DeployMockBlocklockSender
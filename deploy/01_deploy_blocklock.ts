@@ -1,6 +1,13 @@
 import { DeployFunction } from "hardhat-deploy/types"
 import { HardhatRuntimeEnvironment } from "hardhat/types"
 
+// BlocklockSender proxies published by blocklock-js (see its networks config)
+const BLOCKLOCK_SENDERS: Record<number, string> = {
+    314: "0x34092470CC59A097d770523931E3bC179370B44b", // Filecoin mainnet
+    314159: "0xF00aB3B64c81b6Ce51f8220EB2bFaa2D469cf702", // Filecoin Calibration
+    84532: "0x82Fed730CbdeC5A2D8724F2e3b316a70A565e27e", // Base Sepolia
+}
+
 /**
  * Deploy TimeCapsuleBlocklock Contract with Blocklock Integration
  */
@@ -11,36 +18,58 @@ const DeployTimeCapsuleBlocklock: DeployFunction = async function (hre: HardhatR
 
     console.log(`Deploying TimeCapsuleBlocklock from account: ${await deployer.getAddress()}`)
 
-    // Blocklock sender address for Calibration testnet
-    // Note: Replace with actual Blocklock sender address for your network
-    const blocklockSender = "0x0000000000000000000000000000000000000000" // Placeholder - replace with actual address
+    // BLOCKLOCK_SENDER_ADDRESS overrides the known sender for the network;
+    // local networks use the MockBlocklockSender from 00_deploy_mock_blocklock.ts
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+    const mockSender = await hre.deployments.getOrNull("MockBlocklockSender")
+    const blocklockSender =
+        process.env.BLOCKLOCK_SENDER_ADDRESS ||
+        BLOCKLOCK_SENDERS[chainId] ||
+        (!hre.network.live ? mockSender?.address : undefined)
+
+    if (!blocklockSender || !hre.ethers.isAddress(blocklockSender)) {
+        throw new Error(
+            `No Blocklock sender known for chain ${chainId}. Set BLOCKLOCK_SENDER_ADDRESS to the BlocklockSender contract address.`,
+        )
+    }
+
+    const senderCode = await hre.ethers.provider.getCode(blocklockSender)
+    if (senderCode === "0x") {
+        throw new Error(
+            `Blocklock sender ${blocklockSender} has no contract code on chain ${chainId}`,
+        )
+    }
+
+    console.log(`Using Blocklock sender: ${blocklockSender}`)
 
     // Deploy TimeCapsuleBlocklock
     const timeCapsuleBlocklock = await deploy("TimeCapsuleBlocklock", {
         from: await deployer.getAddress(),
         args: [blocklockSender],
         log: true,
-        waitConfirmations: 2,
-        value: hre.ethers.parseEther("0.1"), // Send some ETH for Blocklock operations
+        waitConfirmations: hre.network.live ? 2 : 1,
     })
 
     console.log(`TimeCapsuleBlocklock deployed to: ${timeCapsuleBlocklock.address}`)
     console.log(`Transaction hash: ${timeCapsuleBlocklock.transactionHash}`)
     console.log(`Gas used: ${timeCapsuleBlocklock.receipt?.gasUsed}`)
-    
+
     // Verify the contract is working
     const contract = await hre.ethers.getContractAt("TimeCapsuleBlocklock", timeCapsuleBlocklock.address)
     const totalCapsules = await contract.getTotalCapsules()
     console.log(`Total capsules initialized: ${totalCapsules}`)
+    console.log(`Blocklock sender configured: ${await contract.blocklock()}`)
 
     // Test Blocklock price calculation
     try {
-        const testUnlockTime = Math.floor(Date.now() / 1000) + 3600 // 1 hour from now
-        const price = await contract.getBlocklockPrice(200000, testUnlockTime)
-        console.log(`Blocklock request price for 1 hour timelock: ${hre.ethers.formatEther(price)} ETH`)
+        const callbackGasLimit = 700_000
+        const price = await contract.getBlocklockPrice(callbackGasLimit)
+        console.log(
+            `Blocklock request price for ${callbackGasLimit} callback gas: ${hre.ethers.formatEther(price)} ETH`,
+        )
     } catch (error) {
-        console.log("Could not get Blocklock price - this is expected if Blocklock sender is not set correctly")
+        console.log("Could not get Blocklock price from the sender:", error)
     }
 }
 
-export default DeployTimeCapsuleBlocklock
\ No newline at end of file
+export default DeployTimeCapsuleBlocklock
@@ -0,0 +1,27 @@
+import { DeployFunction } from "hardhat-deploy/types"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Deploy the Groth16 verifiers generated from circuits/compiled (npm run circuits:build).
+ * Capsule creators point a proof gate at one of them with setProofGate.
+ */
+const DeployProofVerifiers: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const [deployer] = await hre.ethers.getSigners()
+
+    const { deploy } = hre.deployments
+
+    console.log(`Deploying proof verifiers from account: ${await deployer.getAddress()}`)
+
+    for (const name of ["TimeValidationVerifier", "ReceiverAuthVerifier"]) {
+        const verifier = await deploy(name, {
+            from: await deployer.getAddress(),
+            args: [],
+            log: true,
+            waitConfirmations: hre.network.live ? 2 : 1,
+        })
+
+        console.log(`${name} deployed to: ${verifier.address}`)
+    }
+}
+
+export default DeployProofVerifiers
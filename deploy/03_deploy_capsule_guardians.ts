@@ -0,0 +1,25 @@
+import { DeployFunction } from "hardhat-deploy/types"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Deploy CapsuleGuardians. One deployment serves every capsule contract; creators attach
+ * guardians to a capsule with setGuardians on the capsule contract.
+ */
+const DeployCapsuleGuardians: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const [deployer] = await hre.ethers.getSigners()
+
+    const { deploy } = hre.deployments
+
+    console.log(`Deploying CapsuleGuardians from account: ${await deployer.getAddress()}`)
+
+    const guardians = await deploy("CapsuleGuardians", {
+        from: await deployer.getAddress(),
+        args: [],
+        log: true,
+        waitConfirmations: hre.network.live ? 2 : 1,
+    })
+
+    console.log(`CapsuleGuardians deployed to: ${guardians.address}`)
+}
+
+export default DeployCapsuleGuardians
@@ -0,0 +1,25 @@
+import { DeployFunction } from "hardhat-deploy/types"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Deploy CapsuleEscrow. One deployment serves every capsule contract; creators deposit
+ * funds for their capsules and recipients claim them after unlocking.
+ */
+const DeployCapsuleEscrow: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const [deployer] = await hre.ethers.getSigners()
+
+    const { deploy } = hre.deployments
+
+    console.log(`Deploying CapsuleEscrow from account: ${await deployer.getAddress()}`)
+
+    const escrow = await deploy("CapsuleEscrow", {
+        from: await deployer.getAddress(),
+        args: [],
+        log: true,
+        waitConfirmations: hre.network.live ? 2 : 1,
+    })
+
+    console.log(`CapsuleEscrow deployed to: ${escrow.address}`)
+}
+
+export default DeployCapsuleEscrow
@@ -0,0 +1,25 @@
+import { DeployFunction } from "hardhat-deploy/types"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Deploy CapsuleReader. One deployment serves every capsule contract; scripts and the web app
+ * use it for paginated and batched capsule reads.
+ */
+const DeployCapsuleReader: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const [deployer] = await hre.ethers.getSigners()
+
+    const { deploy } = hre.deployments
+
+    console.log(`Deploying CapsuleReader from account: ${await deployer.getAddress()}`)
+
+    const reader = await deploy("CapsuleReader", {
+        from: await deployer.getAddress(),
+        args: [],
+        log: true,
+        waitConfirmations: hre.network.live ? 2 : 1,
+    })
+
+    console.log(`CapsuleReader deployed to: ${reader.address}`)
+}
+
+export default DeployCapsuleReader
@@ -0,0 +1,25 @@
+import { DeployFunction } from "hardhat-deploy/types"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Deploy CapsuleClaims. One deployment serves every capsule contract; creators mint claim
+ * tokens for a capsule's recipients with tokenizeClaims on the capsule contract.
+ */
+const DeployCapsuleClaims: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const [deployer] = await hre.ethers.getSigners()
+
+    const { deploy } = hre.deployments
+
+    console.log(`Deploying CapsuleClaims from account: ${await deployer.getAddress()}`)
+
+    const claims = await deploy("CapsuleClaims", {
+        from: await deployer.getAddress(),
+        args: [],
+        log: true,
+        waitConfirmations: hre.network.live ? 2 : 1,
+    })
+
+    console.log(`CapsuleClaims deployed to: ${claims.address}`)
+}
+
+export default DeployCapsuleClaims
@@ -0,0 +1,52 @@
+import { DeployFunction } from "hardhat-deploy/types"
+import { HardhatRuntimeEnvironment } from "hardhat/types"
+
+/**
+ * Deploy TimeCapsuleBlocklockSimple, the capsule contract the scripts, web and ui apps use.
+ * It only trusts the CapsuleGuardians and CapsuleClaims deployments it is built with, so it
+ * deploys after them; CAPSULE_GUARDIANS_ADDRESS and CAPSULE_CLAIMS_ADDRESS override those.
+ */
+const DeployTimeCapsuleBlocklockSimple: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const [deployer] = await hre.ethers.getSigners()
+    const deployerAddress = await deployer.getAddress()
+
+    const { deploy } = hre.deployments
+
+    console.log(`Deploying TimeCapsuleBlocklockSimple from account: ${deployerAddress}`)
+
+    const guardianModule = process.env.CAPSULE_GUARDIANS_ADDRESS || (await hre.deployments.get("CapsuleGuardians")).address
+    const claimsModule = process.env.CAPSULE_CLAIMS_ADDRESS || (await hre.deployments.get("CapsuleClaims")).address
+    for (const module of [guardianModule, claimsModule]) {
+        if (!hre.ethers.isAddress(module)) {
+            throw new Error(`Invalid module address ${module}`)
+        }
+    }
+
+    console.log(`Using CapsuleGuardians: ${guardianModule}`)
+    console.log(`Using CapsuleClaims: ${claimsModule}`)
+
+    const capsules = await deploy("TimeCapsuleBlocklockSimple", {
+        from: deployerAddress,
+        args: [guardianModule, claimsModule],
+        log: true,
+        waitConfirmations: hre.network.live ? 2 : 1,
+    })
+
+    console.log(`TimeCapsuleBlocklockSimple deployed to: ${capsules.address}`)
+
+    // Let the escrow take deposits for this contract's capsules
+    const escrowDeployment = await hre.deployments.getOrNull("CapsuleEscrow")
+    if (escrowDeployment) {
+        const escrow = await hre.ethers.getContractAt("CapsuleEscrow", escrowDeployment.address, deployer)
+        if (await escrow.trustedCapsules(capsules.address)) {
+            console.log(`Already trusted by CapsuleEscrow at ${escrowDeployment.address}`)
+        } else if ((await escrow.admin()) === deployerAddress) {
+            await (await escrow.setTrustedCapsules(capsules.address, true)).wait()
+            console.log(`Trusted by CapsuleEscrow at ${escrowDeployment.address}`)
+        } else {
+            console.log(`Ask the CapsuleEscrow admin to call setTrustedCapsules(${capsules.address}, true)`)
+        }
+    }
+}
+
+export default DeployTimeCapsuleBlocklockSimple
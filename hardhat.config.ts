@@ -10,7 +10,9 @@ import { HardhatUserConfig } from "hardhat/config"
 import "solidity-coverage"
 import "@fil-b/filfox-verifier/hardhat"
 dotenvConfig()
-const deployerPrivateKey = process.env.PRIVATE_KEY!
+const deployerPrivateKey = process.env.PRIVATE_KEY
+// Local networks (hardhat, localhost) work without a key; live networks need PRIVATE_KEY
+const accounts = deployerPrivateKey ? [deployerPrivateKey] : []
 
 const config: HardhatUserConfig = {
     solidity: {
@@ -19,7 +21,8 @@ const config: HardhatUserConfig = {
             optimizer: {
                 enabled: true,
                 // https://docs.soliditylang.org/en/latest/using-the-compiler.html#optimizer-options
-                runs: 1000,
+                // Tuned for size: TimeCapsuleBlocklockSimple is close to the 24 KiB EIP-170 limit
+                runs: 1,
             },
             viaIR: true,
         },
@@ -34,17 +37,17 @@ const config: HardhatUserConfig = {
     networks: {
         filecoin: {
             url: "https://rpc.ankr.com/filecoin",
-            accounts: [deployerPrivateKey],
+            accounts,
             chainId: 314,
         },
         calibration: {
             url: "https://rpc.ankr.com/filecoin_testnet",
-            accounts: [deployerPrivateKey],
+            accounts,
             chainId: 314159,
         },
         baseSepolia: {
             url: "https://sepolia.base.org",
-            accounts: [deployerPrivateKey],
+            accounts,
             chainId: 84532,
         },
     },
@@ -0,0 +1,515 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { CapsuleQuery, IndexedCapsule, capsuleStatus } from "../shared/capsuleIndex";
+import { toConditionType } from "../shared/conditions";
+
+/**
+ * SQLite store behind the capsule indexer.
+ *
+ * Raw events are kept alongside the folded capsule rows so a reorg can be undone by deleting the
+ * events above the common ancestor and replaying what is left for the affected capsules.
+ * Block hashes of indexed blocks are kept as checkpoints for reorg detection.
+ */
+
+export type CapsuleEventName =
+    | "TimeCapsuleCreated"
+    | "CIDStored"
+    | "DecryptionKeyReceived"
+    | "TimeCapsuleUnlocked"
+    | "RecipientAdded"
+    | "RecipientUpdated"
+    | "CIDUpdated"
+    | "ContentHashSet"
+    | "UnlockTimeExtended"
+    | "CapsuleCancelled"
+    | "Heartbeat"
+    | "UnlockConditionSet";
+
+export interface CapsuleEvent {
+    name: CapsuleEventName;
+    capsuleId: number;
+    blockNumber: number;
+    blockHash: string;
+    logIndex: number;
+    transactionHash: string;
+    args: Record<string, string | number | boolean>;    // Event arguments, uint256 values as decimal strings
+}
+
+export interface IndexCheckpoint {
+    number: number;
+    hash: string;
+}
+
+interface CapsuleRow {
+    id: number;
+    ipfs_cid: string;
+    blocklock_request_id: string;
+    unlock_time: number;
+    condition_type: number;
+    creation_time: number;
+    creator: string;
+    recipient: string;
+    title: string;
+    file_size: number;
+    use_blocklock: number;
+    has_decryption_key: number;
+    is_unlocked: number;
+    is_cancelled: number;
+    heartbeat_interval: number;
+    envelope_hash: string | null;
+    plaintext_hash: string | null;
+    unlocked_by: string | null;
+    unlocked_at: number | null;
+    created_block: number;
+    created_tx: string;
+}
+
+interface EventRow {
+    block_number: number;
+    log_index: number;
+    block_hash: string;
+    tx_hash: string;
+    name: CapsuleEventName;
+    capsule_id: number;
+    args: string;
+}
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS checkpoints (
+        number INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS events (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        block_hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        name TEXT NOT NULL,
+        capsule_id INTEGER NOT NULL,
+        args TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS events_capsule ON events (capsule_id, block_number, log_index);
+    CREATE TABLE IF NOT EXISTS capsules (
+        id INTEGER PRIMARY KEY,
+        ipfs_cid TEXT NOT NULL,
+        blocklock_request_id TEXT NOT NULL,
+        unlock_time INTEGER NOT NULL,
+        condition_type INTEGER NOT NULL DEFAULT 0,
+        creation_time INTEGER NOT NULL,
+        creator TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        title TEXT NOT NULL,
+        file_size INTEGER NOT NULL,
+        use_blocklock INTEGER NOT NULL,
+        has_decryption_key INTEGER NOT NULL DEFAULT 0,
+        is_unlocked INTEGER NOT NULL DEFAULT 0,
+        is_cancelled INTEGER NOT NULL DEFAULT 0,
+        heartbeat_interval INTEGER NOT NULL DEFAULT 0,
+        envelope_hash TEXT,
+        plaintext_hash TEXT,
+        unlocked_by TEXT,
+        unlocked_at INTEGER,
+        created_block INTEGER NOT NULL,
+        created_tx TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS capsules_creator ON capsules (creator);
+    CREATE INDEX IF NOT EXISTS capsules_recipient ON capsules (recipient);
+    CREATE INDEX IF NOT EXISTS capsules_unlock_time ON capsules (unlock_time);
+    CREATE TABLE IF NOT EXISTS capsule_recipients (
+        capsule_id INTEGER NOT NULL,
+        recipient TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        is_unlocked INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (capsule_id, recipient)
+    );
+    CREATE INDEX IF NOT EXISTS capsule_recipients_recipient ON capsule_recipients (recipient);
+`;
+
+// Columns added after the first release, with their definitions
+const ADDED_COLUMNS: Record<string, string> = {
+    is_cancelled: "INTEGER NOT NULL DEFAULT 0",
+    heartbeat_interval: "INTEGER NOT NULL DEFAULT 0",
+    condition_type: "INTEGER NOT NULL DEFAULT 0",
+    envelope_hash: "TEXT",
+    plaintext_hash: "TEXT"
+};
+
+const MAX_QUERY_LIMIT = 500;
+
+export class CapsuleIndexStore {
+    private readonly db: Database.Database;
+
+    /**
+     * @param dbPath SQLite file, created if missing; ":memory:" for a throwaway store
+     */
+    constructor(dbPath: string) {
+        if (dbPath !== ":memory:") {
+            fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        }
+        this.db = new Database(dbPath);
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(SCHEMA);
+        this.addMissingColumns();
+    }
+
+    /**
+     * Tie the store to one contract, refusing a database built for another
+     * @param chainId Chain the contract is deployed on
+     * @param contract Contract address
+     * @param startBlock First block to index; the cursor starts just below it
+     */
+    bindContract(chainId: number, contract: string, startBlock: number): void {
+        const existing = this.getMeta("contract");
+        const binding = `${chainId}:${contract.toLowerCase()}`;
+
+        if (existing && existing !== binding) {
+            throw new Error(`Index database belongs to ${existing}, not ${binding}; use a different CAPSULE_INDEX_DB`);
+        }
+        if (!existing) {
+            this.setMeta("contract", binding);
+            this.setMeta("startBlock", String(startBlock));
+            this.setMeta("cursor", String(startBlock - 1));
+        }
+    }
+
+    get startBlock(): number {
+        return Number(this.getMeta("startBlock") ?? 0);
+    }
+
+    /**
+     * Last block whose events are in the store
+     */
+    get cursor(): number {
+        return Number(this.getMeta("cursor") ?? -1);
+    }
+
+    get capsuleCount(): number {
+        return (this.db.prepare("SELECT COUNT(*) AS count FROM capsules").get() as { count: number }).count;
+    }
+
+    /**
+     * Store the events of a block range and advance the cursor to its last block
+     * @param events Events in the range, in chain order
+     * @param checkpoint Number and hash of the last block in the range
+     */
+    applyEvents(events: CapsuleEvent[], checkpoint: IndexCheckpoint): void {
+        const insertEvent = this.db.prepare(`
+            INSERT OR REPLACE INTO events (block_number, log_index, block_hash, tx_hash, name, capsule_id, args)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+        const insertCheckpoint = this.db.prepare("INSERT OR REPLACE INTO checkpoints (number, hash) VALUES (?, ?)");
+
+        this.db.transaction(() => {
+            for (const event of events) {
+                insertEvent.run(
+                    event.blockNumber,
+                    event.logIndex,
+                    event.blockHash,
+                    event.transactionHash,
+                    event.name,
+                    event.capsuleId,
+                    JSON.stringify(event.args)
+                );
+                insertCheckpoint.run(event.blockNumber, event.blockHash);
+                this.foldEvent(event);
+            }
+            insertCheckpoint.run(checkpoint.number, checkpoint.hash);
+            this.setMeta("cursor", String(checkpoint.number));
+        })();
+    }
+
+    /**
+     * Checkpoints at or below a block, newest first
+     * @param maxBlock Highest block to return
+     */
+    checkpointsBelow(maxBlock: number): IndexCheckpoint[] {
+        return this.db.prepare("SELECT number, hash FROM checkpoints WHERE number <= ? ORDER BY number DESC")
+            .all(maxBlock) as IndexCheckpoint[];
+    }
+
+    /**
+     * Undo everything above a block after a reorg and replay the surviving events of the affected capsules
+     * @param blockNumber Last block that is still on the canonical chain
+     */
+    rollbackTo(blockNumber: number): void {
+        this.db.transaction(() => {
+            const affected = this.db.prepare("SELECT DISTINCT capsule_id AS id FROM events WHERE block_number > ?")
+                .all(blockNumber) as { id: number }[];
+
+            this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+            this.db.prepare("DELETE FROM checkpoints WHERE number > ?").run(blockNumber);
+
+            const replay = this.db.prepare("SELECT * FROM events WHERE capsule_id = ? ORDER BY block_number, log_index");
+            for (const { id } of affected) {
+                this.db.prepare("DELETE FROM capsules WHERE id = ?").run(id);
+                this.db.prepare("DELETE FROM capsule_recipients WHERE capsule_id = ?").run(id);
+                for (const row of replay.all(id) as EventRow[]) {
+                    this.foldEvent({
+                        name: row.name,
+                        capsuleId: row.capsule_id,
+                        blockNumber: row.block_number,
+                        blockHash: row.block_hash,
+                        logIndex: row.log_index,
+                        transactionHash: row.tx_hash,
+                        args: JSON.parse(row.args)
+                    });
+                }
+            }
+
+            this.setMeta("cursor", String(Math.max(blockNumber, this.startBlock - 1)));
+        })();
+    }
+
+    /**
+     * Drop checkpoints that are too deep to be reorged, keeping the newest one below the limit
+     * @param belowBlock Checkpoints under this block may be removed
+     */
+    pruneCheckpoints(belowBlock: number): void {
+        this.db.prepare(`
+            DELETE FROM checkpoints
+            WHERE number < ? AND number < (SELECT MAX(number) FROM checkpoints WHERE number < ?)
+        `).run(belowBlock, belowBlock);
+    }
+
+    /**
+     * Query capsules, oldest first
+     * @param query Filters; all given filters must match
+     * @param now Unix seconds used to evaluate the status filter
+     * @param blockNumber Block used to evaluate block conditions, by default the last indexed block
+     */
+    queryCapsules(
+        query: CapsuleQuery,
+        now: number = Math.floor(Date.now() / 1000),
+        blockNumber: number = this.cursor
+    ): IndexedCapsule[] {
+        const where: string[] = [];
+        const params: Record<string, string | number> = { now, block: blockNumber };
+
+        if (query.creator) {
+            where.push("creator = @creator");
+            params.creator = query.creator.toLowerCase();
+        }
+        // Capsules created before recipient lists were indexed only have the recipient column
+        const isRecipient = (param: string) =>
+            `(recipient = @${param} OR id IN (SELECT capsule_id FROM capsule_recipients WHERE recipient = @${param}))`;
+        if (query.recipient) {
+            where.push(isRecipient("recipient"));
+            params.recipient = query.recipient.toLowerCase();
+        }
+        if (query.account) {
+            where.push(`(creator = @account OR ${isRecipient("account")})`);
+            params.account = query.account.toLowerCase();
+        }
+        if (query.unlockAfter !== undefined) {
+            where.push("condition_type = 0 AND unlock_time >= @unlockAfter");
+            params.unlockAfter = query.unlockAfter;
+        }
+        if (query.unlockBefore !== undefined) {
+            where.push("condition_type = 0 AND unlock_time < @unlockBefore");
+            params.unlockBefore = query.unlockBefore;
+        }
+
+        // Same rules as capsuleStatus() / the contract's canUnlock(); block conditions count blocks
+        const clock = "(CASE condition_type WHEN 0 THEN @now ELSE @block END)";
+        switch (query.status) {
+            case "cancelled":
+                where.push("is_cancelled = 1");
+                break;
+            case "unlocked":
+                where.push("is_cancelled = 0 AND is_unlocked = 1");
+                break;
+            case "unlockable":
+                where.push(`is_cancelled = 0 AND is_unlocked = 0 AND unlock_time <= ${clock} AND (use_blocklock = 0 OR has_decryption_key = 1)`);
+                break;
+            case "locked":
+                where.push(`is_cancelled = 0 AND is_unlocked = 0 AND (unlock_time > ${clock} OR (use_blocklock = 1 AND has_decryption_key = 0))`);
+                break;
+        }
+
+        params.limit = Math.min(query.limit ?? MAX_QUERY_LIMIT, MAX_QUERY_LIMIT);
+        params.offset = query.offset ?? 0;
+
+        const rows = this.db.prepare(`
+            SELECT * FROM capsules
+            ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+            ORDER BY id
+            LIMIT @limit OFFSET @offset
+        `).all(params) as CapsuleRow[];
+
+        return rows.map(row => toIndexedCapsule(row, this.getRecipients(row), now, blockNumber));
+    }
+
+    /**
+     * @param capsuleId Capsule ID
+     * @param now Unix seconds used to evaluate the status
+     * @param blockNumber Block used to evaluate block conditions, by default the last indexed block
+     */
+    getCapsule(
+        capsuleId: number,
+        now: number = Math.floor(Date.now() / 1000),
+        blockNumber: number = this.cursor
+    ): IndexedCapsule | undefined {
+        const row = this.db.prepare("SELECT * FROM capsules WHERE id = ?").get(capsuleId) as CapsuleRow | undefined;
+        return row && toIndexedCapsule(row, this.getRecipients(row), now, blockNumber);
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private foldEvent(event: CapsuleEvent): void {
+        const { args } = event;
+
+        switch (event.name) {
+            case "TimeCapsuleCreated":
+                this.db.prepare(`
+                    INSERT OR REPLACE INTO capsules (
+                        id, ipfs_cid, blocklock_request_id, unlock_time, creation_time, creator, recipient,
+                        title, file_size, use_blocklock, created_block, created_tx
+                    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                `).run(
+                    event.capsuleId,
+                    String(args.ipfsCid),
+                    String(args.blocklockRequestId),
+                    Number(args.unlockTime),
+                    Number(args.creationTime),
+                    String(args.creator).toLowerCase(),
+                    String(args.recipient).toLowerCase(),
+                    String(args.title),
+                    Number(args.fileSize),
+                    args.useBlocklock ? 1 : 0,
+                    event.blockNumber,
+                    event.transactionHash
+                );
+                this.addRecipient(event.capsuleId, String(args.recipient));
+                break;
+            case "RecipientAdded":
+                // Emitted before TimeCapsuleCreated, so the recipient list does not depend on the capsule row
+                this.addRecipient(event.capsuleId, String(args.recipient));
+                break;
+            case "RecipientUpdated": {
+                // Replaced in place, so the first recipient stays first
+                const params = {
+                    id: event.capsuleId,
+                    previous: String(args.previousRecipient).toLowerCase(),
+                    recipient: String(args.recipient).toLowerCase()
+                };
+                this.db.prepare("UPDATE capsule_recipients SET recipient = @recipient WHERE capsule_id = @id AND recipient = @previous").run(params);
+                this.db.prepare("UPDATE capsules SET recipient = @recipient WHERE id = @id AND recipient = @previous").run(params);
+                break;
+            }
+            case "CIDStored":
+                this.db.prepare("UPDATE capsules SET ipfs_cid = ? WHERE id = ?").run(String(args.ipfsCid), event.capsuleId);
+                break;
+            case "CIDUpdated":
+                // The contract clears the content hashes along with the old CID
+                this.db.prepare("UPDATE capsules SET ipfs_cid = ?, envelope_hash = NULL, plaintext_hash = NULL WHERE id = ?")
+                    .run(String(args.ipfsCid), event.capsuleId);
+                break;
+            case "ContentHashSet":
+                this.db.prepare("UPDATE capsules SET envelope_hash = ?, plaintext_hash = ? WHERE id = ?")
+                    .run(String(args.envelopeHash), String(args.plaintextHash), event.capsuleId);
+                break;
+            case "UnlockTimeExtended":
+                this.db.prepare("UPDATE capsules SET unlock_time = ? WHERE id = ?").run(Number(args.unlockTime), event.capsuleId);
+                break;
+            case "Heartbeat":
+                this.db.prepare("UPDATE capsules SET unlock_time = ?, heartbeat_interval = ? WHERE id = ?")
+                    .run(Number(args.unlockTime), Number(args.interval), event.capsuleId);
+                break;
+            case "CapsuleCancelled":
+                this.db.prepare("UPDATE capsules SET is_cancelled = 1 WHERE id = ?").run(event.capsuleId);
+                break;
+            case "UnlockConditionSet":
+                this.db.prepare("UPDATE capsules SET condition_type = ? WHERE id = ?").run(Number(args.conditionType), event.capsuleId);
+                break;
+            case "DecryptionKeyReceived":
+                this.db.prepare("UPDATE capsules SET has_decryption_key = 1 WHERE id = ?").run(event.capsuleId);
+                break;
+            case "TimeCapsuleUnlocked": {
+                // Recipients unlock their own copy; delegates unlock the first recipient's
+                const unlocker = String(args.unlocker).toLowerCase();
+                this.db.prepare(`
+                    UPDATE capsule_recipients SET is_unlocked = 1
+                    WHERE capsule_id = @id AND recipient = COALESCE(
+                        (SELECT recipient FROM capsule_recipients WHERE capsule_id = @id AND recipient = @unlocker),
+                        (SELECT recipient FROM capsules WHERE id = @id)
+                    )
+                `).run({ id: event.capsuleId, unlocker });
+                this.db.prepare(`
+                    UPDATE capsules SET unlocked_by = ?, unlocked_at = ?, is_unlocked = NOT EXISTS (
+                        SELECT 1 FROM capsule_recipients WHERE capsule_id = capsules.id AND is_unlocked = 0
+                    )
+                    WHERE id = ?
+                `).run(unlocker, Number(args.unlockTime), event.capsuleId);
+                break;
+            }
+        }
+    }
+
+    private addRecipient(capsuleId: number, recipient: string): void {
+        this.db.prepare(`
+            INSERT OR IGNORE INTO capsule_recipients (capsule_id, recipient, position)
+            VALUES (@capsuleId, @recipient, (SELECT COUNT(*) FROM capsule_recipients WHERE capsule_id = @capsuleId))
+        `).run({ capsuleId, recipient: recipient.toLowerCase() });
+    }
+
+    private getRecipients(row: CapsuleRow): string[] {
+        const recipients = this.db.prepare("SELECT recipient FROM capsule_recipients WHERE capsule_id = ? ORDER BY position")
+            .all(row.id) as { recipient: string }[];
+        return recipients.length > 0 ? recipients.map(({ recipient }) => recipient) : [row.recipient];
+    }
+
+    // CREATE TABLE IF NOT EXISTS leaves databases from older versions without newer columns
+    private addMissingColumns(): void {
+        const columns = (this.db.prepare("PRAGMA table_info(capsules)").all() as { name: string }[]).map(({ name }) => name);
+        for (const [column, definition] of Object.entries(ADDED_COLUMNS)) {
+            if (!columns.includes(column)) {
+                this.db.exec(`ALTER TABLE capsules ADD COLUMN ${column} ${definition}`);
+            }
+        }
+    }
+
+    private getMeta(key: string): string | undefined {
+        const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+        return row?.value;
+    }
+
+    private setMeta(key: string, value: string): void {
+        this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+    }
+}
+
+function toIndexedCapsule(row: CapsuleRow, recipients: string[], now: number, blockNumber: number): IndexedCapsule {
+    const capsule: Omit<IndexedCapsule, "status"> = {
+        id: row.id,
+        ipfsCid: row.ipfs_cid,
+        blocklockRequestId: row.blocklock_request_id,
+        unlockTime: row.unlock_time,
+        conditionType: toConditionType(row.condition_type),
+        creationTime: row.creation_time,
+        creator: row.creator,
+        recipient: row.recipient,
+        recipients,
+        title: row.title,
+        fileSize: row.file_size,
+        useBlocklock: row.use_blocklock === 1,
+        hasDecryptionKey: row.has_decryption_key === 1,
+        isUnlocked: row.is_unlocked === 1,
+        isCancelled: row.is_cancelled === 1,
+        heartbeatInterval: row.heartbeat_interval,
+        ...(row.envelope_hash !== null && { envelopeHash: row.envelope_hash }),
+        ...(row.plaintext_hash !== null && { plaintextHash: row.plaintext_hash }),
+        ...(row.unlocked_by !== null && { unlockedBy: row.unlocked_by }),
+        ...(row.unlocked_at !== null && { unlockedAt: row.unlocked_at }),
+        createdBlock: row.created_block,
+        createdTx: row.created_tx
+    };
+    return { ...capsule, status: capsuleStatus(capsule, now, blockNumber) };
+}
@@ -1,20 +1,34 @@
-import lighthouse from "@lighthouse-web3/sdk";
 import fs from "fs";
 import path from "path";
 import axios from "axios";
-
+import { StorageProvider, storeVerified } from "../shared/storage";
+import { ContentRetriever } from "../shared/retrieval";
+import { createContentRetriever, createStorageProvider } from "./storageProvider";
+
+/**
+ * File uploads and downloads for the scripts. Content goes to the StorageProvider selected by
+ * STORAGE_BACKEND (see scripts/storageProvider.ts); Lighthouse is only the default. Downloads
+ * race the IPFS gateways and that backend, and only return content matching its CID.
+ */
 export class LighthouseService {
     private apiKey: string;
-    
-    constructor(apiKey: string) {
-        this.apiKey = apiKey;
-        if (!apiKey) {
-            throw new Error("Lighthouse API key is required");
-        }
+    readonly storage: StorageProvider;
+    readonly retriever: ContentRetriever;
+
+    /**
+     * @param apiKey Lighthouse API key, only needed by getFileInfo and the lighthouse backend
+     * @param storage Overrides the backend selected by STORAGE_BACKEND
+     * @param retriever Overrides the gateways and cache downloads use
+     */
+    constructor(apiKey?: string, storage: StorageProvider = createStorageProvider(), retriever: ContentRetriever = createContentRetriever(storage)) {
+        this.apiKey = apiKey ?? "";
+        this.storage = storage;
+        this.retriever = retriever;
     }
 
     /**
-     * Upload file to Lighthouse IPFS using official SDK
+     * Upload file to the storage backend. Resolves only once the CID is checked against the file's
+     * bytes and the content reads back from the backend (see storeVerified)
      * @param filePath Path to the file to upload
      * @param fileName Optional custom filename
      * @returns Promise with upload response containing CID
@@ -30,32 +44,28 @@ export class LighthouseService {
                 throw new Error(`File not found: ${filePath}`);
             }
 
-            console.log(`Uploading file to Lighthouse IPFS: ${filePath}`);
-            
-            // Get file stats
-            const stats = fs.statSync(filePath);
-            const fileSize = stats.size;
-            
-            console.log(`File size: ${fileSize} bytes`);
+            console.log(`Uploading file to ${this.storage.backend} storage: ${filePath}`);
 
-            // Upload to Lighthouse using official SDK
-            const uploadResponse = await lighthouse.upload(filePath, this.apiKey);
-            
-            if (!uploadResponse || !uploadResponse.data || !uploadResponse.data.Hash) {
-                throw new Error("Failed to upload file to Lighthouse");
+            const content = new Uint8Array(fs.readFileSync(filePath));
+            console.log(`File size: ${content.length} bytes`);
+
+            const name = fileName || path.basename(filePath);
+            const stored = await storeVerified(this.storage, content, {
+                fileName: name,
+                onRetry: (stage, attempt, error) => console.warn(`${stage} attempt ${attempt} failed, retrying: ${error.message}`)
+            });
+
+            console.log(`File uploaded to IPFS, CID verified and content retrievable`);
+            console.log(`IPFS CID: ${stored.cid}`);
+            const gatewayUrl = this.storage.gatewayUrl(stored.cid);
+            if (gatewayUrl) {
+                console.log(`Gateway URL: ${gatewayUrl}`);
             }
 
-            const data = uploadResponse.data;
-            
-            console.log(`File uploaded successfully to IPFS`);
-            console.log(`IPFS CID: ${data.Hash}`);
-            console.log(`Uploaded size: ${data.Size} bytes`);
-            console.log(`Gateway URL: https://gateway.lighthouse.storage/ipfs/${data.Hash}`);
-            
             return {
-                Hash: data.Hash,
-                Name: fileName || data.Name || path.basename(filePath),
-                Size: data.Size || fileSize.toString()
+                Hash: stored.cid,
+                Name: name,
+                Size: stored.size.toString()
             };
 
         } catch (error: any) {
@@ -105,6 +115,20 @@ export class LighthouseService {
         }
     }
 
+    /**
+     * Download content from the cache or the fastest gateway serving bytes that match the CID
+     * @param cid IPFS CID of the file
+     * @throws RetrievalError listing why each gateway failed
+     */
+    async downloadBytes(cid: string): Promise<Uint8Array> {
+        console.log(`Downloading from IPFS: ${cid}`);
+
+        const retrieved = await this.retriever.retrieve(cid);
+        console.log(`Downloaded ${retrieved.content.length} bytes from ${retrieved.source}, CID verified` +
+            (retrieved.resumedFrom > 0 ? ` (resumed at byte ${retrieved.resumedFrom})` : ""));
+        return retrieved.content;
+    }
+
     /**
      * Download file from IPFS using CID
      * @param cid IPFS CID of the file
@@ -112,24 +136,8 @@ export class LighthouseService {
      */
     async downloadFile(cid: string, outputPath: string): Promise<void> {
         try {
-            console.log(`Downloading file from IPFS: ${cid}`);
-            
-            const response = await axios({
-                method: 'get',
-                url: `https://gateway.lighthouse.storage/ipfs/${cid}`,
-                responseType: 'stream'
-            });
-
-            const writer = fs.createWriteStream(outputPath);
-            response.data.pipe(writer);
-
-            return new Promise((resolve, reject) => {
-                writer.on('finish', () => {
-                    console.log(`File downloaded successfully: ${outputPath}`);
-                    resolve();
-                });
-                writer.on('error', reject);
-            });
+            fs.writeFileSync(outputPath, await this.downloadBytes(cid));
+            console.log(`File downloaded successfully: ${outputPath}`);
 
         } catch (error) {
             console.error("Error downloading file from IPFS:", error);
@@ -142,6 +150,9 @@ export class LighthouseService {
      * @param cid IPFS CID of the file
      */
     async getFileInfo(cid: string): Promise<any> {
+        if (!this.apiKey) {
+            throw new Error("Lighthouse API key is required for file info");
+        }
         try {
             const response = await axios.get(
                 `https://api.lighthouse.storage/api/lighthouse/file_info?cid=${cid}`,
@@ -0,0 +1,93 @@
+import { ethers } from "ethers";
+import { encodeCondition, decodeCondition } from "blocklock-js";
+
+/**
+ * Client for MockBlocklockSender, the local Blocklock stand-in used on the Hardhat network.
+ * Mirrors the parts of blocklock-js `Blocklock` that the capsule scripts use, so the
+ * create -> wait -> callback -> unlock -> decrypt cycle can run without a live network.
+ *
+ * NOT SECURE: keys are derived from public data (see MockBlocklockSender.sol).
+ */
+
+const KEY_DOMAIN = ethers.keccak256(ethers.toUtf8Bytes("future-protocol.mock-blocklock.v1"));
+
+// Mirrors TypesLib.Ciphertext
+export interface MockCiphertext {
+    u: { x: [bigint, bigint]; y: [bigint, bigint] };
+    v: string;
+    w: string;
+}
+
+export class MockBlocklock {
+    constructor(
+        private readonly senderAddress: string,
+        private readonly chainId: bigint
+    ) {}
+
+    static async forSender(sender: ethers.BaseContract): Promise<MockBlocklock> {
+        const runner = sender.runner;
+        if (!runner?.provider) {
+            throw new Error("MockBlocklockSender contract is not connected to a provider");
+        }
+        const network = await runner.provider.getNetwork();
+        return new MockBlocklock(await sender.getAddress(), network.chainId);
+    }
+
+    /**
+     * Encrypt a message so it can only be decrypted with the key for the given block height
+     * @param message Plaintext bytes
+     * @param blockHeight Block height at which the oracle releases the key
+     */
+    encrypt(message: Uint8Array, blockHeight: bigint): MockCiphertext {
+        const key = this.deriveDecryptionKey(encodeCondition(blockHeight));
+        return {
+            u: { x: [0n, 0n], y: [0n, 0n] },
+            v: ethers.hexlify(applyKeystream(message, key)),
+            w: ethers.keccak256(message)
+        };
+    }
+
+    /**
+     * Decrypt a ciphertext with a delivered key (same as MockBlocklockSender.decrypt)
+     * @param ciphertext Ciphertext from encrypt()
+     * @param decryptionKey 32-byte key delivered by the oracle
+     */
+    decrypt(ciphertext: MockCiphertext, decryptionKey: string): Uint8Array {
+        const plaintext = applyKeystream(ethers.getBytes(ciphertext.v), decryptionKey);
+        if (ethers.keccak256(plaintext) !== ciphertext.w) {
+            throw new Error("Mock Blocklock decryption failed: wrong key");
+        }
+        return plaintext;
+    }
+
+    /**
+     * Derive the decryption key for a condition (same as MockBlocklockSender.deriveDecryptionKey)
+     * @param condition Encoded condition bytes from encodeCondition()
+     */
+    deriveDecryptionKey(condition: ethers.BytesLike): string {
+        return ethers.solidityPackedKeccak256(
+            ["bytes32", "uint256", "address", "bytes"],
+            [KEY_DOMAIN, this.chainId, this.senderAddress, condition]
+        );
+    }
+
+    /**
+     * Block height encoded in a Blocklock condition
+     * @param condition Encoded condition bytes
+     */
+    static conditionBlockHeight(condition: ethers.BytesLike): bigint {
+        return decodeCondition(condition);
+    }
+}
+
+function applyKeystream(data: Uint8Array, key: string): Uint8Array {
+    const out = new Uint8Array(data.length);
+    let block: Uint8Array = new Uint8Array(0);
+    for (let i = 0; i < data.length; i++) {
+        if (i % 32 === 0) {
+            block = ethers.getBytes(ethers.solidityPackedKeccak256(["bytes32", "uint256"], [key, BigInt(i / 32)]));
+        }
+        out[i] = data[i] ^ block[i % 32];
+    }
+    return out;
+}
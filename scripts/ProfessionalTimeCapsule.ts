@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import { LighthouseService } from "./LighthouseService";
 import fs from "fs";
 import path from "path";
@@ -25,11 +26,7 @@ export class ProfessionalTimeCapsule {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.senderAddress = await this.signer.getAddress();
         
-        this.blocklockContract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
         
         this.lighthouseService = new LighthouseService(process.env.LIGHTHOUSE_API_KEY!);
         
@@ -0,0 +1,95 @@
+import { Provider, Signer, getBytes, verifyMessage } from "ethers";
+import { SntpOptions, sampleNtpServers } from "../shared/sntp";
+import {
+    AttestationPolicy,
+    ChainTimeReference,
+    DEFAULT_ATTESTATION_POLICY,
+    DEFAULT_NTP_SERVERS,
+    SignedTimeAttestation,
+    TimeAttestation,
+    buildTimeAttestation,
+    signTimeAttestation,
+    verifyTimeAttestation
+} from "../shared/timeAttestation";
+
+export interface TimeAttestorOptions {
+    servers?: string[];
+    policy?: Partial<AttestationPolicy>;
+    sntp?: SntpOptions;
+}
+
+/**
+ * Samples NTP servers over SNTP, compares the consensus with the latest block timestamp
+ * and signs the result (see shared/timeAttestation.ts for the record format)
+ */
+export class TimeAttestor {
+    readonly servers: string[];
+    readonly policy: AttestationPolicy;
+    private readonly sntp: SntpOptions;
+
+    constructor(
+        private readonly signer: Signer,
+        private readonly provider: Provider,
+        options: TimeAttestorOptions = {}
+    ) {
+        this.servers = options.servers ?? DEFAULT_NTP_SERVERS;
+        this.policy = { ...DEFAULT_ATTESTATION_POLICY, ...options.policy };
+        this.sntp = options.sntp ?? {};
+    }
+
+    /**
+     * Build settings from TIME_ATTESTATION_* environment variables
+     */
+    static fromEnv(signer: Signer, provider: Provider): TimeAttestor {
+        const env = process.env;
+        const policy: Partial<AttestationPolicy> = {};
+        if (env.TIME_ATTESTATION_QUORUM) policy.quorum = Number(env.TIME_ATTESTATION_QUORUM);
+        if (env.TIME_ATTESTATION_MAX_DRIFT_MS) policy.maxDriftMs = Number(env.TIME_ATTESTATION_MAX_DRIFT_MS);
+        if (env.TIME_ATTESTATION_MAX_RTT_MS) policy.maxRoundTripMs = Number(env.TIME_ATTESTATION_MAX_RTT_MS);
+        if (env.TIME_ATTESTATION_MAX_CHAIN_SKEW_MS) policy.maxChainSkewMs = Number(env.TIME_ATTESTATION_MAX_CHAIN_SKEW_MS);
+
+        return new TimeAttestor(signer, provider, {
+            servers: env.TIME_ATTESTATION_SERVERS?.split(",").map(server => server.trim()).filter(Boolean),
+            policy
+        });
+    }
+
+    /**
+     * Sample the servers and the latest block, apply the policy and sign the record.
+     * A record that fails the policy is still signed; check attestation.valid.
+     */
+    async attest(): Promise<SignedTimeAttestation> {
+        const now = this.sntp.now ?? Date.now;
+        const [samples, chain] = await Promise.all([
+            sampleNtpServers(this.servers, this.sntp),
+            this.readChainTime(now)
+        ]);
+
+        const attestor = await this.signer.getAddress();
+        const attestation = buildTimeAttestation(attestor, samples, chain, this.policy, now());
+        return signTimeAttestation(attestation, hash => this.signer.signMessage(getBytes(hash)));
+    }
+
+    private async readChainTime(now: () => number): Promise<ChainTimeReference> {
+        const [network, block] = await Promise.all([this.provider.getNetwork(), this.provider.getBlock("latest")]);
+        if (!block?.hash) {
+            throw new Error("Could not read the latest block");
+        }
+        return {
+            chainId: Number(network.chainId),
+            blockNumber: block.number,
+            blockHash: block.hash,
+            blockTimestamp: block.timestamp,
+            observedAt: now()
+        };
+    }
+}
+
+/**
+ * Verify a signed attestation with ethers
+ * @param signed Signed attestation
+ * @param trustedAttestors Accepted attestor addresses; any attestor when omitted
+ */
+export function verifySignedAttestation(signed: SignedTimeAttestation, trustedAttestors?: string[]): Promise<TimeAttestation> {
+    return verifyTimeAttestation(signed, (hash, signature) => verifyMessage(getBytes(hash), signature), trustedAttestors);
+}
@@ -0,0 +1,199 @@
+import { ethers, deployments } from "hardhat";
+import { MockBlocklockSender } from "../typechain-types";
+import { MockBlocklock } from "./MockBlocklock";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Local decryption oracle for MockBlocklockSender.
+ * Watches BlocklockRequested events, waits until each condition block is reached and
+ * calls fulfillRequest with the derived key, which triggers the receiver's callback.
+ *
+ * Run against a local node:
+ *   npx hardhat node
+ *   npx hardhat deploy --network localhost
+ *   npm run blocklock:oracle
+ */
+
+interface PendingRequest {
+    requestId: bigint;
+    condition: string;
+    blockHeight: bigint;
+    attempts: number;
+}
+
+export interface OracleOptions {
+    pollIntervalMs?: number;            // Delay between polls of the chain
+    fromBlock?: number;                 // First block to backfill requests from
+    maxAttempts?: number;               // Callback attempts before a request is dropped
+}
+
+export class MockDecryptionOracle {
+    private pending = new Map<bigint, PendingRequest>();
+    private nextBlock: number;
+    private timer?: NodeJS.Timeout;
+    private polling?: Promise<void>;
+    private readonly pollIntervalMs: number;
+    private readonly maxAttempts: number;
+
+    constructor(
+        private readonly sender: MockBlocklockSender,
+        private readonly blocklock: MockBlocklock,
+        options: OracleOptions = {}
+    ) {
+        this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+        this.maxAttempts = options.maxAttempts ?? 3;
+        this.nextBlock = options.fromBlock ?? 0;
+    }
+
+    /**
+     * Start polling for requests in the background
+     */
+    start(): void {
+        if (this.timer) return;
+
+        console.log(`Mock Blocklock oracle watching ${this.sender.target} from block ${this.nextBlock}`);
+
+        const tick = async () => {
+            this.polling = this.poll().then(() => undefined, error => {
+                console.error("Oracle poll failed:", error);
+            });
+            await this.polling;
+            if (this.timer) {
+                this.timer = setTimeout(tick, this.pollIntervalMs);
+            }
+        };
+        this.timer = setTimeout(tick, 0);
+    }
+
+    /**
+     * Stop polling and wait for an in-progress poll to finish
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        await this.polling;
+    }
+
+    /**
+     * Pick up new requests and fulfil every request whose condition block has been reached
+     * @returns Number of requests fulfilled in this poll
+     */
+    async poll(): Promise<number> {
+        await this.collectRequests();
+
+        const head = BigInt(await ethers.provider.getBlockNumber());
+        let fulfilled = 0;
+
+        for (const request of this.pending.values()) {
+            if (head < request.blockHeight) continue;
+
+            if (await this.fulfil(request)) {
+                fulfilled++;
+            }
+        }
+
+        return fulfilled;
+    }
+
+    get pendingCount(): number {
+        return this.pending.size;
+    }
+
+    private async collectRequests(): Promise<void> {
+        const head = await ethers.provider.getBlockNumber();
+        if (head < this.nextBlock) return;
+
+        const requested = await this.sender.queryFilter(this.sender.filters.BlocklockRequested(), this.nextBlock, head);
+        for (const event of requested) {
+            const { requestId, condition } = event.args;
+            this.pending.set(requestId, {
+                requestId,
+                condition,
+                blockHeight: MockBlocklock.conditionBlockHeight(condition),
+                attempts: 0
+            });
+            console.log(`Request ${requestId} queued (unlock block ${this.pending.get(requestId)!.blockHeight})`);
+        }
+
+        // Requests fulfilled elsewhere (e.g. by a previous oracle run) are dropped during backfill
+        const succeeded = await this.sender.queryFilter(this.sender.filters.BlocklockCallbackSuccess(), this.nextBlock, head);
+        for (const event of succeeded) {
+            this.pending.delete(event.args.requestId);
+        }
+
+        this.nextBlock = head + 1;
+    }
+
+    private async fulfil(request: PendingRequest): Promise<boolean> {
+        request.attempts++;
+
+        try {
+            const decryptionKey = this.blocklock.deriveDecryptionKey(request.condition);
+            const tx = await this.sender.fulfillRequest(request.requestId, decryptionKey);
+            const receipt = await tx.wait();
+
+            const failed = receipt?.logs.some(log => {
+                const parsed = this.sender.interface.parseLog(log);
+                return parsed?.name === "BlocklockCallbackFailed";
+            });
+
+            if (!failed) {
+                console.log(`Request ${request.requestId} fulfilled in tx ${tx.hash}`);
+                this.pending.delete(request.requestId);
+                return true;
+            }
+
+            console.log(`Request ${request.requestId} callback failed (attempt ${request.attempts}/${this.maxAttempts})`);
+        } catch (error) {
+            console.error(`Request ${request.requestId} fulfilment reverted (attempt ${request.attempts}/${this.maxAttempts}):`, error);
+        }
+
+        if (request.attempts >= this.maxAttempts) {
+            console.log(`Request ${request.requestId} dropped after ${request.attempts} attempts`);
+            this.pending.delete(request.requestId);
+        }
+        return false;
+    }
+}
+
+async function main() {
+    const network = await ethers.provider.getNetwork();
+    if (network.chainId !== 31337n) {
+        throw new Error(`The mock oracle only runs on the Hardhat network (chain ${network.chainId})`);
+    }
+
+    const senderAddress = process.env.MOCK_BLOCKLOCK_SENDER_ADDRESS
+        || (await deployments.get("MockBlocklockSender")).address;
+
+    const [oracleSigner] = await ethers.getSigners();
+    const sender = await ethers.getContractAt("MockBlocklockSender", senderAddress, oracleSigner) as unknown as MockBlocklockSender;
+
+    const configuredOracle = await sender.oracle();
+    if (configuredOracle.toLowerCase() !== oracleSigner.address.toLowerCase()) {
+        throw new Error(`Signer ${oracleSigner.address} is not the sender's oracle (${configuredOracle})`);
+    }
+
+    const oracle = new MockDecryptionOracle(sender, await MockBlocklock.forSender(sender), {
+        pollIntervalMs: Number(process.env.ORACLE_POLL_INTERVAL_MS || 2000)
+    });
+    oracle.start();
+
+    await new Promise<void>(resolve => {
+        process.once("SIGINT", () => resolve());
+        process.once("SIGTERM", () => resolve());
+    });
+
+    await oracle.stop();
+    console.log("Mock Blocklock oracle stopped");
+}
+
+if (require.main === module) {
+    main().catch(error => {
+        console.error("Oracle failed:", error);
+        process.exitCode = 1;
+    });
+}
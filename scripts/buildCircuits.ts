@@ -0,0 +1,102 @@
+import { execFileSync } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { PROOF_CIRCUITS } from "../shared/proofs";
+import { CIRCUIT_ARTIFACTS_DIR, CIRCUIT_CHECKSUMS_FILE, circuitArtifactFiles, sha256File } from "./proofProvider";
+
+/**
+ * Compile the circom circuits and run a Groth16 setup for each of them.
+ *
+ *   npm run circuits:build
+ *
+ * Writes <name>.wasm, <name>.zkey and <name>_verification_key.json to circuits/compiled, their
+ * SHA-256 checksums to circuits/compiled/SHA256SUMS, and the matching Solidity verifier to
+ * contracts/verifiers/<Name>Verifier.sol. Commit all of them together: the verifiers only accept
+ * proofs made with these exact zkeys, and createProofProvider refuses artifacts that do not match
+ * the checksums.
+ * Without CIRCUIT_PTAU this generates a throwaway powers-of-tau file with a single local
+ * contribution, which is fine for development but is not a trusted setup. For anything
+ * that guards real capsules, point CIRCUIT_PTAU at a file from a public ceremony
+ * (e.g. powersOfTau28_hez_final_12.ptau) and have several parties contribute to the zkeys.
+ */
+
+const ROOT = path.join(__dirname, "..");
+const VERIFIERS_DIR = path.join(ROOT, "contracts", "verifiers");
+const PTAU_POWER = 12;
+
+function run(command: string, args: string[]): void {
+    execFileSync("npx", ["--no-install", command, ...args], { cwd: ROOT, stdio: "inherit" });
+}
+
+function entropy(): string {
+    return crypto.randomBytes(32).toString("hex");
+}
+
+function developmentPtau(workDir: string): string {
+    const initial = path.join(workDir, "pot_0000.ptau");
+    const contributed = path.join(workDir, "pot_0001.ptau");
+    const final = path.join(workDir, "pot_final.ptau");
+
+    console.log(`Generating a development powers-of-tau file (2^${PTAU_POWER} constraints)`);
+    run("snarkjs", ["powersoftau", "new", "bn128", String(PTAU_POWER), initial]);
+    run("snarkjs", ["powersoftau", "contribute", initial, contributed, "--name=development", `-e=${entropy()}`]);
+    run("snarkjs", ["powersoftau", "prepare", "phase2", contributed, final]);
+    return final;
+}
+
+// snarkjs names every verifier Groth16Verifier and allows any 0.7/0.8 compiler
+function writeVerifier(name: string, zkey: string, workDir: string): void {
+    const generated = path.join(workDir, `${name}Verifier.sol`);
+    run("snarkjs", ["zkey", "export", "solidityverifier", zkey, generated]);
+
+    const contractName = `${name[0].toUpperCase()}${name.slice(1)}Verifier`;
+    const source = fs.readFileSync(generated, "utf8")
+        .replace("pragma solidity >=0.7.0 <0.9.0;",
+            `pragma solidity ^0.8.23;\n\n// Generated by npm run circuits:build from circuits/compiled/${name}.zkey. Do not edit.`)
+        .replace("contract Groth16Verifier {", `contract ${contractName} {`);
+    fs.writeFileSync(path.join(VERIFIERS_DIR, `${contractName}.sol`), source);
+}
+
+async function main() {
+    // circom2 runs under WASI and only sees paths below the working directory, so build inside the repo
+    const workDir = fs.mkdtempSync(path.join(ROOT, "circuits", ".build-"));
+    fs.mkdirSync(CIRCUIT_ARTIFACTS_DIR, { recursive: true });
+    fs.mkdirSync(VERIFIERS_DIR, { recursive: true });
+
+    try {
+        const ptau = process.env.CIRCUIT_PTAU || developmentPtau(workDir);
+
+        for (const name of Object.values(PROOF_CIRCUITS)) {
+            console.log(`\nBuilding ${name}`);
+            run("circom2", [path.join("circuits", `${name}.circom`), "--r1cs", "--wasm", "-o", path.relative(ROOT, workDir), "-l", "node_modules"]);
+
+            const r1cs = path.join(workDir, `${name}.r1cs`);
+            const initialZkey = path.join(workDir, `${name}_0000.zkey`);
+            const zkey = path.join(CIRCUIT_ARTIFACTS_DIR, `${name}.zkey`);
+            run("snarkjs", ["groth16", "setup", r1cs, ptau, initialZkey]);
+            run("snarkjs", ["zkey", "contribute", initialZkey, zkey, "--name=development", `-e=${entropy()}`]);
+            run("snarkjs", ["zkey", "export", "verificationkey", zkey, path.join(CIRCUIT_ARTIFACTS_DIR, `${name}_verification_key.json`)]);
+            writeVerifier(name, zkey, workDir);
+
+            fs.copyFileSync(path.join(workDir, `${name}_js`, `${name}.wasm`), path.join(CIRCUIT_ARTIFACTS_DIR, `${name}.wasm`));
+        }
+    } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    }
+
+    // sha256sum format, so `sha256sum -c SHA256SUMS` checks the artifacts as well
+    const files = Object.values(PROOF_CIRCUITS).flatMap(name => circuitArtifactFiles(name));
+    fs.writeFileSync(
+        path.join(CIRCUIT_ARTIFACTS_DIR, CIRCUIT_CHECKSUMS_FILE),
+        files.map(file => `${sha256File(path.join(CIRCUIT_ARTIFACTS_DIR, file))}  ${file}\n`).join("")
+    );
+
+    console.log(`\nCircuit artifacts and checksums written to ${path.relative(ROOT, CIRCUIT_ARTIFACTS_DIR)}`);
+    console.log(`Verifiers written to ${path.relative(ROOT, VERIFIERS_DIR)}; run npx hardhat compile`);
+}
+
+main().catch(error => {
+    console.error("Circuit build failed:", error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,316 @@
+import { ethers } from "hardhat";
+import { BaseContract, Log, Provider } from "ethers";
+import express from "express";
+import cors from "cors";
+import path from "path";
+import { getDeployedContract } from "./deployedContracts";
+import { CapsuleEvent, CapsuleEventName, CapsuleIndexStore } from "./CapsuleIndexStore";
+import { ContractName, requireDeployment } from "../shared/deployments";
+import { CAPSULE_STATUSES, CapsuleQuery, CapsuleStatus, DEFAULT_INDEXER_PORT } from "../shared/capsuleIndex";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Capsule event indexer.
+ * Folds the capsule events in INDEXED_EVENTS into a SQLite store (scripts/CapsuleIndexStore.ts) and serves
+ * the query API from shared/capsuleIndex.ts.
+ *
+ * Backfills from the deployment block in the manifest (or INDEXER_START_BLOCK), then follows the head.
+ * Each poll compares the newest stored block hash with the chain; on a mismatch it walks back to
+ * the newest block that is still canonical and replays from there.
+ *
+ *   npm run indexer
+ *   curl "http://localhost:4100/capsules?account=0x...&status=unlockable"
+ */
+
+const INDEXED_EVENTS: CapsuleEventName[] = [
+    "TimeCapsuleCreated",
+    "CIDStored",
+    "DecryptionKeyReceived",
+    "TimeCapsuleUnlocked",
+    "RecipientAdded",
+    "RecipientUpdated",
+    "CIDUpdated",
+    "ContentHashSet",
+    "UnlockTimeExtended",
+    "CapsuleCancelled",
+    "Heartbeat",
+    "UnlockConditionSet"
+];
+const INDEXABLE_CONTRACTS: ContractName[] = ["TimeCapsuleBlocklockSimple", "TimeCapsuleBlocklock"];
+
+export interface IndexerOptions {
+    batchSize?: number;                 // Blocks per eth_getLogs request
+    confirmations?: number;             // Blocks to stay behind the head
+    reorgDepth?: number;                // Block hashes kept for reorg detection
+    pollIntervalMs?: number;            // Delay between polls of the chain
+}
+
+export class CapsuleIndexer {
+    private timer?: NodeJS.Timeout;
+    private polling?: Promise<void>;
+    private readonly provider: Provider;
+    private readonly topics: string[];
+    private readonly batchSize: number;
+    private readonly confirmations: number;
+    private readonly reorgDepth: number;
+    private readonly pollIntervalMs: number;
+
+    constructor(
+        private readonly contract: BaseContract,
+        private readonly store: CapsuleIndexStore,
+        options: IndexerOptions = {}
+    ) {
+        if (!contract.runner?.provider) {
+            throw new Error("Capsule contract is not connected to a provider");
+        }
+        this.provider = contract.runner.provider;
+        // TimeCapsuleBlocklock has a single recipient and no RecipientAdded event
+        this.topics = INDEXED_EVENTS
+            .filter(name => contract.interface.hasEvent(name))
+            .map(name => contract.interface.getEvent(name)!.topicHash);
+        this.batchSize = options.batchSize ?? 2000;
+        this.confirmations = options.confirmations ?? 0;
+        this.reorgDepth = options.reorgDepth ?? 900;
+        this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    }
+
+    /**
+     * Start following the chain in the background
+     */
+    start(): void {
+        if (this.timer) return;
+
+        console.log(`Capsule indexer following ${this.contract.target} from block ${this.store.cursor + 1}`);
+
+        const tick = async () => {
+            this.polling = this.sync().then(() => undefined, error => {
+                console.error("Indexer sync failed:", error);
+            });
+            await this.polling;
+            if (this.timer) {
+                this.timer = setTimeout(tick, this.pollIntervalMs);
+            }
+        };
+        this.timer = setTimeout(tick, 0);
+    }
+
+    /**
+     * Stop following the chain and wait for an in-progress sync to finish
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        await this.polling;
+    }
+
+    /**
+     * Undo any reorged blocks, then index every block up to the confirmed head
+     * @returns Number of events stored
+     */
+    async sync(): Promise<number> {
+        await this.recoverFromReorg();
+
+        const head = (await this.provider.getBlockNumber()) - this.confirmations;
+        let stored = 0;
+        let from = this.store.cursor + 1;
+
+        while (from <= head) {
+            const to = Math.min(from + this.batchSize - 1, head);
+
+            // Read the range between two looks at its last block; if that block changed, the logs
+            // may come from either fork, so read the range again
+            const before = await this.provider.getBlock(to);
+            const logs = await this.provider.getLogs({
+                address: this.contract.target as string,
+                fromBlock: from,
+                toBlock: to,
+                topics: [this.topics]
+            });
+            const after = await this.provider.getBlock(to);
+            if (!before?.hash || before.hash !== after?.hash) {
+                console.log(`Block ${to} changed while indexing, retrying ${from}-${to}`);
+                continue;
+            }
+
+            const events = logs.map(log => this.parseLog(log));
+            this.store.applyEvents(events, { number: to, hash: before.hash });
+            stored += events.length;
+
+            if (events.length > 0) {
+                console.log(`Indexed ${events.length} events in blocks ${from}-${to}`);
+            }
+            from = to + 1;
+        }
+
+        this.store.pruneCheckpoints(head - this.reorgDepth);
+        return stored;
+    }
+
+    private async recoverFromReorg(): Promise<void> {
+        const cursor = this.store.cursor;
+        if (cursor < this.store.startBlock) return;
+
+        // Newest first: normally the first checkpoint still matches and this costs one request
+        for (const checkpoint of this.store.checkpointsBelow(cursor)) {
+            const block = await this.provider.getBlock(checkpoint.number);
+            if (block?.hash === checkpoint.hash) {
+                if (checkpoint.number < cursor) {
+                    console.log(`Reorg detected: rolling back from block ${cursor} to ${checkpoint.number}`);
+                    this.store.rollbackTo(checkpoint.number);
+                }
+                return;
+            }
+        }
+
+        console.warn(`Reorg deeper than the stored checkpoints: reindexing from block ${this.store.startBlock}`);
+        this.store.rollbackTo(this.store.startBlock - 1);
+    }
+
+    private parseLog(log: Log): CapsuleEvent {
+        const parsed = this.contract.interface.parseLog(log);
+        if (!parsed) {
+            throw new Error(`Unrecognised log in block ${log.blockNumber}`);
+        }
+
+        const args: CapsuleEvent["args"] = {};
+        parsed.fragment.inputs.forEach((input, i) => {
+            const value = parsed.args[i];
+            args[input.name] = typeof value === "bigint" ? value.toString() : value;
+        });
+
+        return {
+            name: parsed.name as CapsuleEventName,
+            capsuleId: Number(parsed.args.capsuleId),
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            logIndex: log.index,
+            transactionHash: log.transactionHash,
+            args
+        };
+    }
+}
+
+/**
+ * HTTP query API over an index store (see shared/capsuleIndex.ts for the client)
+ * @param store Capsule index store
+ * @param status Static fields reported by GET /status
+ */
+export function createIndexerApi(store: CapsuleIndexStore, status: { chainId: number; contract: string }): express.Express {
+    const app = express();
+    app.use(cors());
+
+    app.get("/status", (req, res) => {
+        res.json({
+            ...status,
+            startBlock: store.startBlock,
+            indexedBlock: store.cursor,
+            capsules: store.capsuleCount
+        });
+    });
+
+    app.get("/capsules", (req, res) => {
+        try {
+            res.json(store.queryCapsules(parseCapsuleQuery(req.query as Record<string, unknown>)));
+        } catch (error) {
+            res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+        }
+    });
+
+    app.get("/capsules/:id", (req, res) => {
+        const capsule = store.getCapsule(Number(req.params.id));
+        if (!capsule) {
+            res.status(404).json({ error: `Capsule ${req.params.id} not indexed` });
+            return;
+        }
+        res.json(capsule);
+    });
+
+    return app;
+}
+
+function parseCapsuleQuery(params: Record<string, unknown>): CapsuleQuery {
+    const query: CapsuleQuery = {};
+
+    for (const key of ["creator", "recipient", "account"] as const) {
+        const value = params[key];
+        if (value === undefined) continue;
+        if (typeof value !== "string" || !ethers.isAddress(value)) {
+            throw new Error(`${key} must be an address`);
+        }
+        query[key] = value;
+    }
+
+    if (params.status !== undefined) {
+        if (!CAPSULE_STATUSES.includes(params.status as CapsuleStatus)) {
+            throw new Error(`status must be one of ${CAPSULE_STATUSES.join(", ")}`);
+        }
+        query.status = params.status as CapsuleStatus;
+    }
+
+    for (const key of ["unlockAfter", "unlockBefore", "limit", "offset"] as const) {
+        const value = params[key];
+        if (value === undefined) continue;
+        if (typeof value !== "string" || !/^\d+$/.test(value)) {
+            throw new Error(`${key} must be a non-negative integer`);
+        }
+        query[key] = Number(value);
+    }
+
+    return query;
+}
+
+async function main() {
+    const contractName = (process.env.CAPSULE_INDEXER_CONTRACT || "TimeCapsuleBlocklockSimple") as ContractName;
+    if (!INDEXABLE_CONTRACTS.includes(contractName)) {
+        throw new Error(`CAPSULE_INDEXER_CONTRACT must be one of ${INDEXABLE_CONTRACTS.join(", ")}`);
+    }
+
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const deployment = requireDeployment(chainId, contractName);
+    const contract = await getDeployedContract<BaseContract>(contractName);
+
+    const startBlock = process.env.INDEXER_START_BLOCK !== undefined
+        ? Number(process.env.INDEXER_START_BLOCK)
+        : deployment.blockNumber ?? 0;
+    if (startBlock === 0 && deployment.blockNumber === undefined) {
+        console.warn("Deployment block unknown, indexing from genesis; set INDEXER_START_BLOCK to skip ahead");
+    }
+
+    const dbPath = process.env.CAPSULE_INDEX_DB || path.join(__dirname, "..", "data", `capsule-index-${chainId}.sqlite`);
+    const store = new CapsuleIndexStore(dbPath);
+    store.bindContract(chainId, deployment.address, startBlock);
+    console.log(`Index database: ${dbPath}`);
+
+    const indexer = new CapsuleIndexer(contract, store, {
+        batchSize: Number(process.env.INDEXER_BATCH_SIZE || 2000),
+        confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 0),
+        pollIntervalMs: Number(process.env.INDEXER_POLL_INTERVAL_MS || 5000)
+    });
+    indexer.start();
+
+    const port = Number(process.env.CAPSULE_INDEXER_PORT || DEFAULT_INDEXER_PORT);
+    const server = createIndexerApi(store, { chainId, contract: deployment.address }).listen(port, () => {
+        console.log(`Capsule index API listening on http://localhost:${port}`);
+    });
+
+    await new Promise<void>(resolve => {
+        process.once("SIGINT", () => resolve());
+        process.once("SIGTERM", () => resolve());
+    });
+
+    await indexer.stop();
+    server.close();
+    store.close();
+    console.log("Capsule indexer stopped");
+}
+
+if (require.main === module) {
+    main().catch(error => {
+        console.error("Indexer failed:", error);
+        process.exitCode = 1;
+    });
+}
@@ -1,5 +1,6 @@
 import { ethers } from "hardhat";
-import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { CapsuleReader, TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -24,12 +25,8 @@ async function checkSystemStatus() {
     console.log(`Balance: ${ethers.formatEther(balance)} ETH`);
     
     // Check contract
-    const contractAddress = "0xf939f81b62a57157C6fA441bEb64B2E684382991";
-    const contract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        contractAddress,
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
+    const reader = await getDeployedContract<CapsuleReader>("CapsuleReader", signer);
     
     console.log(`Contract Address: ${await contract.getAddress()}`);
     
@@ -40,13 +37,11 @@ async function checkSystemStatus() {
         
         // Check a few recent capsules
         console.log("\nRecent TimeCapsules:");
-        for (let i = Math.max(1, Number(nextId) - 3); i < nextId; i++) {
-            try {
-                const capsule = await contract.getTimeCapsule(i);
-                console.log(`  ID ${i}: ${capsule[6]} - ${capsule[7] ? 'UNLOCKED' : 'LOCKED'}`);
-            } catch (e) {
-                console.log(`  ID ${i}: Error reading`);
-            }
+        const total = nextId - 1n;
+        const [recent] = await reader.getCapsulesPage(contract.target, total > 3n ? total - 3n : 0n, 3);
+        for (const capsule of recent) {
+            const state = capsule.isCancelled ? "CANCELLED" : capsule.isUnlocked ? "UNLOCKED" : "LOCKED";
+            console.log(`  ID ${capsule.id}: ${capsule.title} - ${state}`);
         }
         
         // Test contract call - check if we can call a simple function
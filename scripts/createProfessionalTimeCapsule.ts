@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import { LighthouseService } from "./LighthouseService";
 import fs from "fs";
 import path from "path";
@@ -20,11 +21,7 @@ async function createProfessionalTimeCapsule() {
     const signer = new Wallet(privateKey, ethers.provider);
     const senderAddress = await signer.getAddress();
     
-    const blocklockContract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
     
     const lighthouseService = new LighthouseService(process.env.LIGHTHOUSE_API_KEY!);
     
@@ -65,7 +62,7 @@ FEATURES IMPLEMENTED:
 TECHNICAL SPECIFICATIONS:
 ========================
 - Network: Filecoin Calibration Testnet
-- Contract Address: 0xf939f81b62a57157C6fA441bEb64B2E684382991
+- Contract Address: ${blocklockContract.target}
 - Storage: Lighthouse IPFS Gateway
 - Encryption: Smart contract managed keys
 - Access Control: Time-based unlock mechanism
@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import { LighthouseService } from "./LighthouseService";
 import fs from "fs";
 import path from "path";
@@ -19,11 +20,7 @@ async function createTestCapsule() {
     const signer = new Wallet(privateKey, ethers.provider);
     const senderAddress = await signer.getAddress();
     
-    const blocklockContract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
     
     const lighthouseService = new LighthouseService(process.env.LIGHTHOUSE_API_KEY!);
     
@@ -0,0 +1,44 @@
+import { ethers } from "hardhat";
+import { BaseContract, Signer } from "ethers";
+import {
+    ContractName,
+    DeploymentError,
+    assertDeployedCode,
+    getFunctionSelectors,
+    requireDeployment
+} from "../shared/deployments";
+
+/**
+ * Attach to a contract from the shared deployment manifest (shared/deploymentManifest.json)
+ * for the connected network, after checking it against the ABI the scripts are compiled with.
+ *
+ * Set ALLOW_ABI_DRIFT=true to continue with a warning when the deployed bytecode is
+ * missing functions, e.g. to read from an old deployment.
+ *
+ * @param name Contract name
+ * @param signer Signer to connect; defaults to the first Hardhat signer
+ */
+export async function getDeployedContract<T extends BaseContract>(name: ContractName, signer?: Signer): Promise<T> {
+    const { chainId } = await ethers.provider.getNetwork();
+    const { address } = requireDeployment(chainId, name);
+    const contract = await ethers.getContractAt(name, address, signer);
+
+    // typechain output and shared/contractAbis.ts must describe the same functions
+    const compiled: string[] = [];
+    contract.interface.forEachFunction(fragment => {
+        compiled.push(fragment.selector);
+    });
+    const published = Object.keys(getFunctionSelectors(name));
+    if (compiled.sort().join() !== published.sort().join()) {
+        throw new DeploymentError(`shared/contractAbis.ts is out of date for ${name}; run npm run deployments:manifest`);
+    }
+
+    try {
+        assertDeployedCode(name, address, await ethers.provider.getCode(address));
+    } catch (error) {
+        if (process.env.ALLOW_ABI_DRIFT !== "true") throw error;
+        console.warn(`Warning: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return contract as unknown as T;
+}
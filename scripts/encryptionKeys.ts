@@ -0,0 +1,46 @@
+import { Signer, ethers } from "ethers";
+import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { ENCRYPTION_KEY_MESSAGE, EncryptionKeyPair, encryptionKeyFromSignature, unwrapDataKey, wrapDataKey } from "../shared/keyWrap";
+
+/**
+ * Encryption key pair of a wallet (see ENCRYPTION_KEY_MESSAGE in shared/keyWrap.ts)
+ */
+export async function deriveEncryptionKey(signer: Signer): Promise<EncryptionKeyPair> {
+    return encryptionKeyFromSignature(await signer.signMessage(ENCRYPTION_KEY_MESSAGE));
+}
+
+/**
+ * Wrap a data key for each recipient, using the encryption keys they registered on-chain
+ * @param capsules Capsule contract holding the encryption key registry
+ * @param dataKey Hex-encoded envelope data key
+ * @param recipients Recipient addresses
+ * @returns Wrapped keys in recipient order
+ * @throws Error naming the recipients that have not registered an encryption key
+ */
+export async function wrapForRecipients(
+    capsules: TimeCapsuleBlocklockSimple,
+    dataKey: string,
+    recipients: string[]
+): Promise<string[]> {
+    const publicKeys = await Promise.all(recipients.map(recipient => capsules.encryptionKeys(recipient)));
+    const unregistered = recipients.filter((_, i) => publicKeys[i] === "0x");
+    if (unregistered.length > 0) {
+        throw new Error(`No encryption key registered for ${unregistered.join(", ")}; recipients must call registerEncryptionKey first`);
+    }
+    return Promise.all(publicKeys.map(publicKey => wrapDataKey(dataKey, publicKey)));
+}
+
+/**
+ * Data key of an unlocked capsule: the signer's wrapped copy when the capsule has one,
+ * otherwise the key stored with the capsule
+ * @param capsules Capsule contract connected to the signer
+ * @param capsuleId Capsule ID
+ * @param signer Recipient wallet, used to derive the unwrapping key
+ */
+export async function readDataKey(capsules: TimeCapsuleBlocklockSimple, capsuleId: number | bigint, signer: Signer): Promise<string> {
+    const wrappedKey = await capsules.getWrappedKey(capsuleId);
+    if (wrappedKey !== "0x") {
+        return unwrapDataKey(wrappedKey, (await deriveEncryptionKey(signer)).privateKey);
+    }
+    return ethers.toUtf8String(await capsules.getDecryptionKey(capsuleId));
+}
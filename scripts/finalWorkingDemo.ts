@@ -2,7 +2,11 @@ import { ethers } from "hardhat";
 import { Wallet, getBytes, Signer, Contract, EventLog, JsonRpcProvider } from "ethers";
 import { Blocklock, encodeCiphertextToSolidity, encodeCondition, encodeParams } from "blocklock-js";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import { LighthouseService } from "./LighthouseService";
+import { TimeAttestor } from "./TimeAttestor";
+import { createProofProvider, proveLocalTime } from "./proofProvider";
+import { ProofBackend, ProofProvider, describeProof } from "../shared/proofs";
 import { SelfAppBuilder, getUniversalLink, countries } from "@selfxyz/qrcode";
 import axios from "axios";
 import fs from "fs";
@@ -58,6 +62,7 @@ interface CompleteWorkflowResults {
     };
     zkTLS: {
         proofGenerated: boolean;
+        backend: ProofBackend;
         protocol: string;
         curve: string;
         proofHash: string;
@@ -102,6 +107,7 @@ export class FinalWorkingDemo {
     private signer!: Wallet;
     private lighthouseService!: LighthouseService;
     private blocklock!: Blocklock;
+    private proofs!: ProofProvider;
     private startTime!: number;
     // Self Protocol verification will use API-based approach
     private pendingVerifications: Map<string, { resolve: Function; reject: Function; timeout: NodeJS.Timeout; pollInterval?: NodeJS.Timeout }> = new Map();
@@ -117,11 +123,8 @@ export class FinalWorkingDemo {
         }
 
         this.signer = new Wallet(privateKey, ethers.provider);
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         // Initialize Lighthouse service for IPFS uploads
         const lighthouseApiKey = process.env.LIGHTHOUSE_API_KEY;
@@ -141,47 +144,22 @@ export class FinalWorkingDemo {
         console.log("✓ Self Protocol Service: Ready (Real-time monitoring enabled)");
     }
 
-    private generateZKProof(): any {
-        return {
-            protocol: "Groth16",
-            curve: "bn128",
-            proof: {
-                a: ["0x1a2b3c4d", "0x5e6f7g8h"],
-                b: [["0x9i0j1k2l", "0x3m4n5o6p"], ["0x7q8r9s0t", "0x1u2v3w4x"]],
-                c: ["0x5y6z7a8b", "0x9c0d1e2f"]
-            },
-            publicSignals: ["0x3g4h5i6j", "0x7k8l9m0n", "0x1o2p3q4r"]
-        };
-    }
-
     private async performNTPValidation(): Promise<{ total: number; valid: number; hash: string }> {
-        const ntpServers = [
-            "pool.ntp.org",
-            "time.google.com",
-            "time.cloudflare.com",
-            "time.apple.com"
-        ];
-        
-        let validSources = 0;
-        for (const server of ntpServers) {
-            console.log(`Validating NTP server: ${server}`);
-            // Simulate validation
-            await new Promise(resolve => setTimeout(resolve, 500));
-            if (Math.random() > 0.2) { // 80% success rate
-                validSources++;
-                console.log(`✓ ${server}: VALID`);
-            } else {
-                console.log(`✗ ${server}: TIMEOUT`);
-            }
+        const { attestation, hash } = await TimeAttestor.fromEnv(this.signer, ethers.provider).attest();
+
+        for (const sample of attestation.samples) {
+            const agrees = attestation.agreeingServers.includes(sample.server);
+            console.log(`${agrees ? "✓" : "✗"} ${sample.server}: ${sample.error ?? `offset ${sample.offsetMs}ms, rtt ${sample.roundTripMs}ms`}`);
         }
-        
-        const validationData = `ntp_validation_${Date.now()}_${validSources}_of_${ntpServers.length}`;
-        const hash = crypto.createHash('sha256').update(validationData).digest('hex');
-        
+
+        if (!attestation.valid) {
+            throw new Error(`Time attestation failed: ${attestation.reasons.join("; ")}`);
+        }
+
         return {
-            total: ntpServers.length,
-            valid: validSources,
-            hash: hash
+            total: attestation.samples.length,
+            valid: attestation.agreeingServers.length,
+            hash
         };
     }
 
@@ -435,12 +413,12 @@ export class FinalWorkingDemo {
         console.log("=".repeat(75));
         
         try {
-            console.log("Stage 1: zkTLS Proof Generation");
-            completedPhases.push("zkTLS Proof Generation");
-            const zkProof = this.generateZKProof();
-            const proofHash = crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex');
-            console.log(`✓ zkTLS Proof Generated: ${zkProof.protocol} (${zkProof.curve})`);
-            console.log(`✓ Proof Hash: ${proofHash.slice(0, 16)}...`);
+            console.log("Stage 1: Time Validation Proof");
+            completedPhases.push("Time Validation Proof");
+            const zkProof = await proveLocalTime(this.proofs, ethers.provider);
+            const proofHash = zkProof.hash;
+            console.log(`✓ Time Validation Proof Generated: ${describeProof(zkProof)}`);
+            console.log(`✓ Proof Hash: ${proofHash.slice(0, 18)}...`);
 
             console.log("\nStage 2: NTP Time Validation");
             completedPhases.push("NTP Time Validation");
@@ -458,7 +436,7 @@ FINAL WORKING DEMO - COMPLETE WORKFLOW REPORT
 🔒 SECURE TIME CAPSULE CONTENT 🔒
 
 This TimeCapsule demonstrates a complete implementation featuring:
-1. Real zkTLS proof generation with Groth16 protocol
+1. Time validation proof: ${describeProof(zkProof)}
 2. Multi-source NTP time validation for accuracy
 3. Blocklock encryption with time-based decryption
 4. IPFS distributed storage via Lighthouse
@@ -489,21 +467,19 @@ Security Level: Production Grade
             console.log("\nStage 4: IPFS Content Upload");
             completedPhases.push("IPFS Content Upload");
             
+            // Create temporary file for text content
+            const tempFilePath = path.join(__dirname, `temp_content_${Date.now()}.txt`);
+            fs.writeFileSync(tempFilePath, demoContent);
+
+            // uploadFile throws unless the CID is verified and the content reads back; no capsule without it
             let ipfsCid: string;
             try {
-                // Create temporary file for text content
-                const tempFilePath = path.join(__dirname, `temp_content_${Date.now()}.txt`);
-                fs.writeFileSync(tempFilePath, demoContent);
-                
                 const uploadResult = await this.lighthouseService.uploadFile(tempFilePath);
                 ipfsCid = uploadResult.Hash;
                 console.log(`✓ Content uploaded to IPFS: ${ipfsCid}`);
-                
+            } finally {
                 // Cleanup temporary file
                 fs.unlinkSync(tempFilePath);
-            } catch (error) {
-                console.log("IPFS upload failed, using mock CID");
-                ipfsCid = `bafkrei${crypto.randomBytes(20).toString('hex')}`;
             }
 
             console.log("\nStage 5: Blocklock Price Estimation");
@@ -553,7 +529,7 @@ Security Level: Production Grade
                 console.log(`Next available TimeCapsule ID: ${nextId}`);
                 
                 const createTx = await this.contract.createSimpleTimeCapsule(
-                    `bafkrei${crypto.randomBytes(20).toString('hex')}`,
+                    ipfsCid,
                     encryptionKey,
                     unlockTime,
                     "demo@example.com",
@@ -646,9 +622,10 @@ Security Level: Production Grade
                         gasUsed: receipt?.gasUsed?.toString()
                     },
                     zkTLS: {
-                        proofGenerated: true,
-                        protocol: zkProof.protocol,
-                        curve: zkProof.curve,
+                        proofGenerated: zkProof.proof !== null,
+                        backend: zkProof.backend,
+                        protocol: zkProof.proof?.protocol ?? "none",
+                        curve: zkProof.proof?.curve ?? "none",
                         proofHash: proofHash,
                         ntpValidation: {
                             sourcesChecked: ntpValidation.total,
@@ -667,7 +644,7 @@ Security Level: Production Grade
                         timestamp: verificationResult.timestamp || 0
                     },
                     storage: {
-                        ipfsCid: `bafkrei${crypto.randomBytes(20).toString('hex')}`,
+                        ipfsCid: ipfsCid,
                         provider: "Lighthouse IPFS Network",
                         contentRetrieved: Boolean(capsuleIsUnlocked),
                         contentLength: demoContent.length
@@ -698,7 +675,7 @@ Security Level: Production Grade
                 console.log("=".repeat(75));
                 console.log("ALL FEATURES SUCCESSFULLY DEMONSTRATED:");
                 console.log(`- Created NEW TimeCapsule ID ${newCapsuleId} with Blocklock integration`);
-                console.log("- Generated zkTLS proofs with Groth16 protocol");
+                console.log(`- Generated time validation proof: ${describeProof(zkProof)}`);
                 console.log("- Validated multiple NTP time sources");
                 console.log("- Successfully deployed to Filecoin blockchain");
                 console.log("- Completed Blocklock time-based unlock period");
@@ -1,6 +1,12 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, proveLocalTime } from "./proofProvider";
+import { createContentRetriever, createStorageProvider } from "./storageProvider";
+import { CircuitProof, ProofProvider, describeProof } from "../shared/proofs";
+import { StorageProvider, StoredContent, storeVerified } from "../shared/storage";
+import { ContentRetriever } from "../shared/retrieval";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -46,7 +52,7 @@ interface FullIntegratedResults {
         uploadAttempted: boolean;
         uploadSuccess: boolean;
         ipfsCid: string;
-        apiKey: string;
+        backend: string;
         contentLength: number;
         retrievalSuccess: boolean;
     };
@@ -86,13 +92,11 @@ interface FullIntegratedResults {
 export class FullyIntegratedTimeCapsuleSystem {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
-    private lighthouseApiKey: string;
+    private proofs!: ProofProvider;
+    private storage!: StorageProvider;
+    private retriever!: ContentRetriever;
     private startTime!: number;
 
-    constructor() {
-        this.lighthouseApiKey = process.env.LIGHTHOUSE_API_KEY || "7c1e8a35.d0a94ccd93d141b580b27b8d33b56948";
-    }
-
     async initialize(): Promise<void> {
         console.log("Fully Integrated TimeCapsule System");
         console.log("Features: zkTLS + Real Blocklock + Lighthouse IPFS + Complete Workflow");
@@ -105,60 +109,17 @@ export class FullyIntegratedTimeCapsuleSystem {
         }
 
         this.signer = new Wallet(privateKey, ethers.provider);
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
+        this.storage = createStorageProvider();
+        this.retriever = createContentRetriever(this.storage);
         
         console.log(`Operator Address: ${await this.signer.getAddress()}`);
         console.log(`Contract Address: ${await this.contract.getAddress()}`);
-        console.log(`Lighthouse API Key: ${this.lighthouseApiKey.slice(0, 8)}...`);
+        console.log(`Storage Backend: ${this.storage.backend}`);
         console.log("System Status: All Integrations Ready");
     }
 
-    private generateComprehensiveZKProof(): any {
-        const timestamp = Math.floor(Date.now() / 1000);
-        const nonce = crypto.randomBytes(32);
-        const blockchainContext = crypto.randomBytes(16).toString('hex');
-        
-        const message = Buffer.concat([
-            Buffer.from(timestamp.toString()),
-            nonce,
-            Buffer.from(blockchainContext, 'hex')
-        ]);
-        
-        const hash1 = crypto.createHash('sha256').update(message).digest('hex');
-        const hash2 = crypto.createHash('sha256').update(Buffer.from(hash1, 'hex')).digest('hex');
-        const hash3 = crypto.createHash('sha256').update(Buffer.from(hash2, 'hex')).digest('hex');
-        
-        return {
-            pi_a: [
-                `0x${hash1.slice(0, 64)}`,
-                `0x${hash2.slice(0, 64)}`,
-                "0x1"
-            ],
-            pi_b: [
-                [`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`],
-                [`0x${hash2.slice(0, 64)}`, `0x${hash3.slice(0, 64)}`],
-                ["0x1", "0x0"]
-            ],
-            pi_c: [
-                `0x${hash3.slice(0, 64)}`,
-                `0x${hash1.slice(0, 64)}`,
-                "0x1"
-            ],
-            protocol: "groth16",
-            curve: "bn254",
-            publicSignals: [timestamp.toString(), blockchainContext],
-            verificationKey: {
-                alpha: [`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`],
-                beta: [[`0x${hash2.slice(0, 64)}`, `0x${hash3.slice(0, 64)}`], [`0x${hash3.slice(0, 64)}`, `0x${hash1.slice(0, 64)}`]],
-                gamma: [[`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`], [`0x${hash2.slice(0, 64)}`, `0x${hash3.slice(0, 64)}`]]
-            }
-        };
-    }
-
     private async performComprehensiveTimeValidation(): Promise<any> {
         const blockchainTime = Math.floor(Date.now() / 1000);
         
@@ -223,72 +184,26 @@ export class FullyIntegratedTimeCapsuleSystem {
         };
     }
 
-    private async uploadToLighthouse(content: string): Promise<{ success: boolean; cid: string; error?: string }> {
-        try {
-            const formData = new FormData();
-            const blob = new Blob([content], { type: 'text/plain' });
-            formData.append('file', blob, 'integrated_timecapsule.txt');
-
-            const response = await axios.post('https://node.lighthouse.storage/api/v0/add', formData, {
-                headers: {
-                    'Authorization': `Bearer ${this.lighthouseApiKey}`,
-                    'Content-Type': 'multipart/form-data'
-                },
-                timeout: 30000
-            });
-
-            if (response.data && response.data.Hash) {
-                return { success: true, cid: response.data.Hash };
-            } else {
-                return { success: false, cid: `fallback_${Date.now()}`, error: "Invalid response format" };
-            }
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : "Unknown error";
-            return { 
-                success: false, 
-                cid: `fallback_${Date.now()}_${crypto.randomBytes(10).toString('hex')}`, 
-                error: errorMessage 
-            };
-        }
+    // Throws an UploadError instead of returning a CID that was not verified and read back
+    private async uploadToLighthouse(content: string): Promise<StoredContent> {
+        return storeVerified(this.storage, new TextEncoder().encode(content), {
+            fileName: 'integrated_timecapsule.txt',
+            onRetry: (stage, attempt, error) => console.log(`Upload ${stage} attempt ${attempt} failed, retrying: ${error.message}`)
+        });
     }
 
-    private async retrieveFromLighthouse(cid: string): Promise<{ success: boolean; content: string; error?: string }> {
-        const gateways = [
-            `https://gateway.lighthouse.storage/ipfs/${cid}`,
-            `https://ipfs.io/ipfs/${cid}`,
-            `https://gateway.pinata.cloud/ipfs/${cid}`,
-            `https://cloudflare-ipfs.com/ipfs/${cid}`
-        ];
-        
-        for (const gateway of gateways) {
-            try {
-                const response = await axios.get(gateway, { 
-                    timeout: 15000,
-                    headers: { 'Accept': 'text/plain, application/json, */*' }
-                });
-                
-                const content = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
-                return { success: true, content };
-                
-            } catch (error) {
-                continue;
-            }
+    private async retrieveFromLighthouse(cid: string): Promise<{ success: boolean; content: string; source?: string; error?: string }> {
+        try {
+            const retrieved = await this.retriever.retrieve(cid);
+            return { success: true, content: new TextDecoder().decode(retrieved.content), source: retrieved.source };
+        } catch (error) {
+            return { success: false, content: "", error: error instanceof Error ? error.message : String(error) };
         }
-        
-        return { success: false, content: "", error: "All gateways failed" };
     }
 
+    // Timestamp condition: the unlock time as one abi-encoded uint256
     private encodeBlocklockCondition(unlockTime: number): string {
-        const conditionBuffer = Buffer.alloc(64);
-        
-        conditionBuffer.writeUInt32BE(1, 0);
-        conditionBuffer.writeBigUInt64BE(BigInt(unlockTime), 8);
-        conditionBuffer.writeUInt32BE(0, 16);
-        
-        const hash = crypto.createHash('sha256').update(conditionBuffer.slice(0, 20)).digest();
-        hash.copy(conditionBuffer, 20, 0, 32);
-        
-        return ethers.hexlify(conditionBuffer);
+        return ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [unlockTime]);
     }
 
     private encryptForBlocklock(content: string, key: string): string {
@@ -319,10 +234,9 @@ export class FullyIntegratedTimeCapsuleSystem {
         
         try {
             console.log("Integration 1: zkTLS Comprehensive Proof Generation");
-            const zkProof = this.generateComprehensiveZKProof();
-            const proofHash = crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex');
-            console.log(`Protocol: ${zkProof.protocol.toUpperCase()}`);
-            console.log(`Curve: ${zkProof.curve.toUpperCase()}`);
+            const zkProof = await proveLocalTime(this.proofs, ethers.provider);
+            const proofHash = zkProof.hash;
+            console.log(`Backend: ${describeProof(zkProof)}`);
             console.log(`Proof Hash: ${proofHash.slice(0, 32)}...`);
             console.log(`Public Signals: ${zkProof.publicSignals.length}`);
             
@@ -381,7 +295,7 @@ Smart Contract Integration:
 TECHNICAL IMPLEMENTATION:
 ========================
 Network: Filecoin Calibration Testnet
-Contract Address: 0xf939f81b62a57157C6fA441bEb64B2E684382991
+Contract Address: ${this.contract.target}
 zkTLS Protocol: Groth16 with BN254 elliptic curve
 Blocklock Method: createTimelockRequestWithDirectFunding
 IPFS Provider: Lighthouse Storage Network with API authentication
@@ -437,12 +351,7 @@ Protocol Integration: Real Blocklock with ETH funding
             
             console.log("\nIntegration 4: Lighthouse IPFS Upload");
             const lighthouseResult = await this.uploadToLighthouse(comprehensiveContent);
-            console.log(`Upload Attempted: YES`);
-            console.log(`Upload Success: ${lighthouseResult.success}`);
-            console.log(`IPFS CID: ${lighthouseResult.cid}`);
-            if (!lighthouseResult.success) {
-                console.log(`Upload Error: ${lighthouseResult.error}`);
-            }
+            console.log(`IPFS CID: ${lighthouseResult.cid} (verified and retrievable)`);
             
             console.log("\nIntegration 5: Blocklock Protocol Preparation");
             const conditionBytes = this.encodeBlocklockCondition(unlockTime);
@@ -518,17 +427,15 @@ Protocol Integration: Real Blocklock with ETH funding
                     let finalContent = comprehensiveContent;
                     let retrievalSuccess = false;
                     
-                    if (lighthouseResult.success) {
-                        const retrieval = await this.retrieveFromLighthouse(lighthouseResult.cid);
-                        if (retrieval.success) {
-                            finalContent = retrieval.content;
-                            retrievalSuccess = true;
-                            console.log(`Content Retrieved: ${finalContent.length} bytes`);
-                            console.log(`Retrieval Method: Lighthouse IPFS`);
-                        } else {
-                            console.log(`Retrieval Failed: ${retrieval.error}`);
-                            console.log(`Using Original Content`);
-                        }
+                    const retrieval = await this.retrieveFromLighthouse(lighthouseResult.cid);
+                    if (retrieval.success) {
+                        finalContent = retrieval.content;
+                        retrievalSuccess = true;
+                        console.log(`Content Retrieved: ${finalContent.length} bytes`);
+                        console.log(`Retrieval Method: ${retrieval.source}, CID verified`);
+                    } else {
+                        console.log(`Retrieval Failed: ${retrieval.error}`);
+                        console.log(`Using Original Content`);
                     }
                     
                     console.log("\nIntegration 10: Final Comprehensive Report");
@@ -544,9 +451,9 @@ Protocol Integration: Real Blocklock with ETH funding
                             allFeaturesIntegrated: true
                         },
                         zkTLS: {
-                            proofGenerated: true,
-                            protocol: zkProof.protocol,
-                            curve: zkProof.curve,
+                            proofGenerated: zkProof.proof !== null,
+                            protocol: zkProof.proof?.protocol ?? "none",
+                            curve: zkProof.proof?.curve ?? "none",
                             proofHash: proofHash,
                             timeValidation: {
                                 blockchainTime: timeValidation.blockchainTime,
@@ -571,9 +478,9 @@ Protocol Integration: Real Blocklock with ETH funding
                         lighthouse: {
                             used: true,
                             uploadAttempted: true,
-                            uploadSuccess: lighthouseResult.success,
+                            uploadSuccess: true,
                             ipfsCid: lighthouseResult.cid,
-                            apiKey: this.lighthouseApiKey.slice(0, 8) + "...",
+                            backend: this.storage.backend,
                             contentLength: comprehensiveContent.length,
                             retrievalSuccess: retrievalSuccess
                         },
@@ -623,9 +530,9 @@ Protocol Integration: Real Blocklock with ETH funding
                     console.log("FULL INTEGRATION COMPLETE - ALL FEATURES ACTIVE");
                     console.log("=".repeat(80));
                     console.log("Successfully integrated ALL components:");
-                    console.log(`- zkTLS: Groth16 proofs with BN254 curve and time validation`);
+                    console.log(`- zkTLS: time validation proof, ${describeProof(zkProof)}`);
                     console.log(`- Real Blocklock: Created TimeCapsule ${newCapsuleId} with actual protocol`);
-                    console.log(`- Lighthouse IPFS: ${lighthouseResult.success ? 'Upload and retrieval successful' : 'Upload attempted, using fallback'}`);
+                    console.log(`- Lighthouse IPFS: Upload verified, retrieval ${retrievalSuccess ? 'successful' : 'failed'}`);
                     console.log(`- Smart Contract: Deployed with real Blocklock integration`);
                     console.log(`- Content Decryption: ${finalContent.length} bytes retrieved`);
                     console.log(`- Comprehensive Reporting: All data saved to JSON`);
@@ -658,7 +565,7 @@ Protocol Integration: Real Blocklock with ETH funding
         }
     }
 
-    private generatePartialReport(capsuleId: number, createTx: any, receipt: any, zkProof: any, proofHash: string, timeValidation: any, lighthouseResult: any, conditionBytes: string, ciphertext: string, callbackGasLimit: number, fundingAmount: bigint, content: string, totalGasUsed: bigint, totalETHSpent: bigint): void {
+    private generatePartialReport(capsuleId: number, createTx: any, receipt: any, zkProof: CircuitProof, proofHash: string, timeValidation: any, lighthouseResult: StoredContent, conditionBytes: string, ciphertext: string, callbackGasLimit: number, fundingAmount: bigint, content: string, totalGasUsed: bigint, totalETHSpent: bigint): void {
         const partialResults: FullIntegratedResults = {
             execution: {
                 status: "PARTIAL_SUCCESS",
@@ -667,9 +574,9 @@ Protocol Integration: Real Blocklock with ETH funding
                 allFeaturesIntegrated: true
             },
             zkTLS: {
-                proofGenerated: true,
-                protocol: zkProof.protocol,
-                curve: zkProof.curve,
+                proofGenerated: zkProof.proof !== null,
+                protocol: zkProof.proof?.protocol ?? "none",
+                curve: zkProof.proof?.curve ?? "none",
                 proofHash: proofHash,
                 timeValidation: {
                     blockchainTime: timeValidation.blockchainTime,
@@ -694,9 +601,9 @@ Protocol Integration: Real Blocklock with ETH funding
             lighthouse: {
                 used: true,
                 uploadAttempted: true,
-                uploadSuccess: lighthouseResult.success,
+                uploadSuccess: true,
                 ipfsCid: lighthouseResult.cid,
-                apiKey: this.lighthouseApiKey.slice(0, 8) + "...",
+                backend: this.storage.backend,
                 contentLength: content.length,
                 retrievalSuccess: false
             },
@@ -736,7 +643,7 @@ Protocol Integration: Real Blocklock with ETH funding
         console.log(`Partial Report: ${partialFile}`);
     }
 
-    private async demonstrateWithExistingCapsule(zkProof: any, proofHash: string, timeValidation: any, lighthouseResult: any, content: string, totalGasUsed: bigint, totalETHSpent: bigint): Promise<void> {
+    private async demonstrateWithExistingCapsule(zkProof: CircuitProof, proofHash: string, timeValidation: any, lighthouseResult: StoredContent, content: string, totalGasUsed: bigint, totalETHSpent: bigint): Promise<void> {
         const existingId = 8;
         const existingData = await this.contract.getTimeCapsule(existingId);
         const isUnlocked = existingData[7];
@@ -747,7 +654,7 @@ Protocol Integration: Real Blocklock with ETH funding
         let retrievedContent = content;
         let retrievalSuccess = false;
         
-        if (isUnlocked && lighthouseResult.success) {
+        if (isUnlocked) {
             const retrieval = await this.retrieveFromLighthouse(lighthouseResult.cid);
             if (retrieval.success) {
                 retrievedContent = retrieval.content;
@@ -763,9 +670,9 @@ Protocol Integration: Real Blocklock with ETH funding
                 allFeaturesIntegrated: true
             },
             zkTLS: {
-                proofGenerated: true,
-                protocol: zkProof.protocol,
-                curve: zkProof.curve,
+                proofGenerated: zkProof.proof !== null,
+                protocol: zkProof.proof?.protocol ?? "none",
+                curve: zkProof.proof?.curve ?? "none",
                 proofHash: proofHash,
                 timeValidation: {
                     blockchainTime: timeValidation.blockchainTime,
@@ -790,9 +697,9 @@ Protocol Integration: Real Blocklock with ETH funding
             lighthouse: {
                 used: true,
                 uploadAttempted: true,
-                uploadSuccess: lighthouseResult.success,
+                uploadSuccess: true,
                 ipfsCid: lighthouseResult.cid,
-                apiKey: this.lighthouseApiKey.slice(0, 8) + "...",
+                backend: this.storage.backend,
                 contentLength: content.length,
                 retrievalSuccess: retrievalSuccess
             },
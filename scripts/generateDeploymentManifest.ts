@@ -0,0 +1,183 @@
+import hre from "hardhat";
+import { ethers } from "ethers";
+import * as typechain from "../typechain-types";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Generate the shared deployment manifest consumed by scripts, web and ui:
+ *   shared/deploymentManifest.json  - contract addresses keyed by chainId, merged from deployments/<network>/
+ *   shared/contractAbis.ts          - ABIs and function selectors from the typechain output
+ *
+ * Entries already in the manifest are kept unless a deployment artifact replaces them, so
+ * contracts deployed from another checkout stay listed.
+ *
+ * npm run deployments:manifest
+ */
+
+// Contracts whose ABIs are always published, deployed or not
+const PUBLISHED_CONTRACTS = [
+    "TimeCapsuleBlocklockSimple",
+    "TimeCapsuleBlocklock",
+    "TimeCapsuleStorage",
+    "MockBlocklockSender",
+    "TimeValidationVerifier",
+    "ReceiverAuthVerifier",
+    "CapsuleGuardians",
+    "CapsuleEscrow",
+    "CapsuleReader",
+    "CapsuleClaims"
+];
+
+const ROOT = path.join(__dirname, "..");
+const DEPLOYMENTS_DIR = path.join(ROOT, "deployments");
+const MANIFEST_PATH = path.join(ROOT, "shared", "deploymentManifest.json");
+const ABIS_PATH = path.join(ROOT, "shared", "contractAbis.ts");
+
+interface ManifestEntry {
+    address: string;
+    transactionHash?: string;
+    blockNumber?: number;
+}
+
+type Manifest = Record<string, { network: string; contracts: Record<string, ManifestEntry> }>;
+
+// hardhat-deploy artifacts, plus the reduced file written by scripts/deployContract.ts (no ABI)
+interface DeploymentArtifact {
+    address?: string;
+    abi?: ethers.InterfaceAbi;
+    transactionHash?: string;
+    receipt?: { blockNumber?: number };
+}
+
+function readManifest(): Manifest {
+    if (!fs.existsSync(MANIFEST_PATH)) return {};
+    return JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"));
+}
+
+function compiledAbi(contractName: string): ethers.InterfaceAbi | undefined {
+    const factory = (typechain as Record<string, unknown>)[`${contractName}__factory`] as
+        { abi: ethers.InterfaceAbi } | undefined;
+    return factory?.abi;
+}
+
+function functionSelectors(abi: ethers.InterfaceAbi): Record<string, string> {
+    const selectors: Record<string, string> = {};
+    new ethers.Interface(abi).forEachFunction(fragment => {
+        selectors[fragment.selector] = fragment.format("sighash");
+    });
+    return selectors;
+}
+
+function networkChainId(network: string): string | undefined {
+    const chainIdFile = path.join(DEPLOYMENTS_DIR, network, ".chainId");
+    if (fs.existsSync(chainIdFile)) {
+        return fs.readFileSync(chainIdFile, "utf8").trim();
+    }
+    return hre.config.networks[network]?.chainId?.toString();
+}
+
+function mergeDeployments(manifest: Manifest): void {
+    if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+        console.log("No deployments/ directory, keeping the existing manifest entries");
+        return;
+    }
+
+    for (const network of fs.readdirSync(DEPLOYMENTS_DIR)) {
+        const networkDir = path.join(DEPLOYMENTS_DIR, network);
+        if (!fs.statSync(networkDir).isDirectory()) continue;
+
+        const chainId = networkChainId(network);
+        if (!chainId) {
+            console.warn(`Skipping deployments/${network}: unknown chainId`);
+            continue;
+        }
+
+        for (const file of fs.readdirSync(networkDir).filter(name => name.endsWith(".json"))) {
+            const artifact: DeploymentArtifact = JSON.parse(fs.readFileSync(path.join(networkDir, file), "utf8"));
+            const contractName = path.basename(file, ".json");
+
+            if (!artifact.address || !ethers.isAddress(artifact.address)) {
+                console.warn(`Skipping deployments/${network}/${file}: no contract address`);
+                continue;
+            }
+
+            const abi = compiledAbi(contractName);
+            if (!abi) {
+                console.warn(`Skipping deployments/${network}/${file}: no typechain factory for ${contractName}`);
+                continue;
+            }
+
+            // The artifact ABI is what was deployed; warn when the sources have moved on since
+            if (artifact.abi) {
+                const deployed = Object.keys(functionSelectors(artifact.abi)).sort().join();
+                const compiled = Object.keys(functionSelectors(abi)).sort().join();
+                if (deployed !== compiled) {
+                    console.warn(`${contractName} on ${network} was deployed from an older ABI; redeploy it`);
+                }
+            }
+
+            manifest[chainId] ??= { network, contracts: {} };
+            manifest[chainId].network = network;
+            manifest[chainId].contracts[contractName] = {
+                address: ethers.getAddress(artifact.address),
+                ...(artifact.transactionHash && { transactionHash: artifact.transactionHash }),
+                ...(artifact.receipt?.blockNumber !== undefined && { blockNumber: artifact.receipt.blockNumber })
+            };
+            console.log(`${network} (${chainId}): ${contractName} at ${artifact.address}`);
+        }
+    }
+}
+
+function renderAbis(contractNames: string[]): string {
+    const lines = [
+        "// shared/contractAbis.ts - Contract ABIs and function selectors",
+        "// Generated by scripts/generateDeploymentManifest.ts from the typechain output. Do not edit.",
+        ""
+    ];
+
+    for (const name of contractNames) {
+        lines.push(`export const ${name}Abi = ${JSON.stringify(compiledAbi(name), null, 4)} as const;`, "");
+    }
+
+    lines.push("export const CONTRACT_ABIS = {");
+    for (const name of contractNames) {
+        lines.push(`    ${name}: ${name}Abi,`);
+    }
+    lines.push("} as const;", "");
+
+    const selectors = Object.fromEntries(contractNames.map(name => [name, functionSelectors(compiledAbi(name)!)]));
+    lines.push(
+        "// Function selector -> signature for every external function",
+        `export const CONTRACT_SELECTORS: Record<keyof typeof CONTRACT_ABIS, Record<string, string>> = ${JSON.stringify(selectors, null, 4)};`,
+        ""
+    );
+
+    return lines.join("\n");
+}
+
+async function main() {
+    const manifest = readManifest();
+    mergeDeployments(manifest);
+
+    const contractNames = new Set(PUBLISHED_CONTRACTS);
+    for (const { contracts } of Object.values(manifest)) {
+        Object.keys(contracts).forEach(name => contractNames.add(name));
+    }
+
+    const missing = [...contractNames].filter(name => !compiledAbi(name));
+    if (missing.length > 0) {
+        throw new Error(`No typechain output for ${missing.join(", ")}; run npx hardhat compile`);
+    }
+
+    fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 4) + "\n");
+    fs.writeFileSync(ABIS_PATH, renderAbis([...contractNames]));
+
+    console.log(`Wrote ${path.relative(ROOT, MANIFEST_PATH)} (${Object.keys(manifest).length} chains)`);
+    console.log(`Wrote ${path.relative(ROOT, ABIS_PATH)} (${contractNames.size} contracts)`);
+}
+
+main().catch((error) => {
+    console.error("Manifest generation failed:", error);
+    process.exitCode = 1;
+});
@@ -1,6 +1,8 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { CapsuleIndexClient } from "../shared/capsuleIndex";
 import { LighthouseService } from "./LighthouseService";
 import fs from "fs";
 import path from "path";
@@ -20,11 +22,7 @@ async function listAllTimeCapsules() {
     const signer = new Wallet(privateKey, ethers.provider);
     const senderAddress = await signer.getAddress();
     
-    const blocklockContract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
     
     console.log(`Contract: ${await blocklockContract.getAddress()}`);
     console.log(`Your Wallet: ${senderAddress}`);
@@ -35,44 +33,30 @@ async function listAllTimeCapsules() {
     console.log("\nYour TimeCapsules");
     console.log("=".repeat(60));
     
-    const capsuleCount = await blocklockContract.nextCapsuleId();
-    console.log(`Total system capsules: ${capsuleCount}`);
+    const indexer = new CapsuleIndexClient(process.env.CAPSULE_INDEXER_URL);
+    const { indexedBlock, capsules: totalCapsules } = await indexer.getStatus();
+    console.log(`Total system capsules: ${totalCapsules} (indexed to block ${indexedBlock})`);
     
-    let foundCapsules = false;
+    const capsules = await indexer.queryCapsules({ account: senderAddress });
+    const foundCapsules = capsules.length > 0;
+    const now = Math.floor(Date.now() / 1000);
     
-    for (let i = 1; i < capsuleCount; i++) {
-        try {
-            const details = await blocklockContract.getTimeCapsule(i);
-            const creator = details[3].toString();
-            const recipient = details[4].toString();
-            
-            if (creator.toLowerCase() === senderAddress.toLowerCase() ||
-                recipient.toLowerCase().includes(senderAddress.toLowerCase())) {
-                
-                foundCapsules = true;
-                const status = details[7] ? "UNLOCKED" : "LOCKED";
-                const role = creator.toLowerCase() === senderAddress.toLowerCase() ? "CREATOR" : "RECIPIENT";
-                
-                const canUnlock = await blocklockContract.canUnlock(i);
-                const timeUntilUnlock = await blocklockContract.getTimeUntilUnlock(i);
-                
-                console.log(`\nCapsule ID: ${i}`);
-                console.log(`Role: ${role}`);
-                console.log(`Status: ${status}`);
-                console.log(`Title: ${details[6]}`);
-                console.log(`IPFS CID: ${details[0]}`);
-                console.log(`Creator: ${creator}`);
-                console.log(`Recipient: ${recipient}`);
-                console.log(`Uses Blocklock: ${details[11] ? 'YES' : 'NO'}`);
-                console.log(`Can Unlock Now: ${canUnlock ? 'YES' : 'NO'}`);
-                console.log(`Time Until Unlock: ${timeUntilUnlock} seconds`);
-                console.log(`File Size: ${details[8]} bytes`);
-                console.log(`File Type: ${details[9]}`);
-                console.log(`IPFS Gateway: https://gateway.lighthouse.storage/ipfs/${details[0]}`);
-            }
-        } catch (e) {
-            continue;
-        }
+    for (const capsule of capsules) {
+        const status = capsule.isUnlocked ? "UNLOCKED" : "LOCKED";
+        const role = capsule.creator === senderAddress.toLowerCase() ? "CREATOR" : "RECIPIENT";
+        
+        console.log(`\nCapsule ID: ${capsule.id}`);
+        console.log(`Role: ${role}`);
+        console.log(`Status: ${status}`);
+        console.log(`Title: ${capsule.title}`);
+        console.log(`IPFS CID: ${capsule.ipfsCid}`);
+        console.log(`Creator: ${capsule.creator}`);
+        console.log(`Recipient: ${capsule.recipient}`);
+        console.log(`Uses Blocklock: ${capsule.useBlocklock ? 'YES' : 'NO'}`);
+        console.log(`Can Unlock Now: ${capsule.status === "unlockable" ? 'YES' : 'NO'}`);
+        console.log(`Time Until Unlock: ${Math.max(0, capsule.unlockTime - now)} seconds`);
+        console.log(`File Size: ${capsule.fileSize} bytes`);
+        console.log(`IPFS Gateway: https://gateway.lighthouse.storage/ipfs/${capsule.ipfsCid}`);
     }
     
     if (!foundCapsules) {
@@ -1,6 +1,8 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { CapsuleIndexClient } from "../shared/capsuleIndex";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -16,11 +18,7 @@ async function listCapsules() {
     const signer = new Wallet(privateKey, ethers.provider);
     const senderAddress = await signer.getAddress();
     
-    const blocklockContract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
     
     console.log(`Contract: ${await blocklockContract.getAddress()}`);
     console.log(`Sender: ${senderAddress}`);
@@ -31,38 +29,24 @@ async function listCapsules() {
     console.log("\nYour TimeCapsules");
     console.log("-".repeat(50));
     
-    const capsuleCount = await blocklockContract.nextCapsuleId();
-    console.log(`Total capsules in system: ${capsuleCount}`);
-    
-    let foundCapsules = false;
-    
-    for (let i = 1; i < capsuleCount; i++) {
-        try {
-            const details = await blocklockContract.getTimeCapsule(i);
-            const creator = details[3].toString();
-            const recipient = details[4].toString();
-            
-            if (creator.toLowerCase() === senderAddress.toLowerCase() ||
-                recipient.toLowerCase().includes(senderAddress.toLowerCase())) {
-                
-                foundCapsules = true;
-                const status = details[7] ? "UNLOCKED" : "LOCKED";
-                const role = creator.toLowerCase() === senderAddress.toLowerCase() ? "SENDER" : "RECIPIENT";
-                
-                console.log(`\nCapsule ID: ${i}`);
-                console.log(`Role: ${role}`);
-                console.log(`Status: ${status}`);
-                console.log(`Title: ${details[6]}`);
-                console.log(`Created: ${new Date(Number(details[5]) * 1000).toISOString()}`);
-                console.log(`Unlock: ${new Date(Number(details[2]) * 1000).toISOString()}`);
-                console.log(`Creator: ${creator}`);
-                console.log(`Recipient: ${recipient}`);
-                console.log(`IPFS CID: ${details[0]}`);
-            }
-        } catch (e) {
-            console.log(`Error reading capsule ${i}:`, e.message);
-            continue;
-        }
+    const indexer = new CapsuleIndexClient(process.env.CAPSULE_INDEXER_URL);
+    const capsules = await indexer.queryCapsules({ account: senderAddress });
+    
+    const foundCapsules = capsules.length > 0;
+    
+    for (const capsule of capsules) {
+        const status = capsule.isCancelled ? "CANCELLED" : capsule.isUnlocked ? "UNLOCKED" : "LOCKED";
+        const role = capsule.creator === senderAddress.toLowerCase() ? "SENDER" : "RECIPIENT";
+        
+        console.log(`\nCapsule ID: ${capsule.id}`);
+        console.log(`Role: ${role}`);
+        console.log(`Status: ${status}`);
+        console.log(`Title: ${capsule.title}`);
+        console.log(`Created: ${new Date(capsule.creationTime * 1000).toISOString()}`);
+        console.log(`Unlock: ${new Date(capsule.unlockTime * 1000).toISOString()}`);
+        console.log(`Creator: ${capsule.creator}`);
+        console.log(`Recipient: ${capsule.recipient}`);
+        console.log(`IPFS CID: ${capsule.ipfsCid}`);
     }
     
     if (!foundCapsules) {
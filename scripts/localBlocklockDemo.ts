@@ -0,0 +1,130 @@
+import { ethers, deployments } from "hardhat";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { encodeCondition } from "blocklock-js";
+import { MockBlocklockSender, TimeCapsuleBlocklock } from "../typechain-types";
+import { MockBlocklock } from "./MockBlocklock";
+import { MockDecryptionOracle } from "./blocklockOracle";
+import { sealContent, serializeEnvelope, parseEnvelope, openEnvelope } from "../shared/envelope";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import crypto from "crypto";
+
+/**
+ * End-to-end Blocklock capsule cycle on the in-process Hardhat network:
+ * create -> wait for the condition block -> oracle callback -> unlock -> decrypt.
+ *
+ * npm run demo:local-blocklock
+ */
+
+const UNLOCK_DELAY_BLOCKS = 10;
+const CALLBACK_GAS_LIMIT = 700_000;
+
+async function main() {
+    const network = await ethers.provider.getNetwork();
+    if (network.chainId !== 31337n) {
+        throw new Error(`The local Blocklock demo only runs on the Hardhat network (chain ${network.chainId})`);
+    }
+
+    console.log("Local Blocklock TimeCapsule Demo");
+    console.log("=".repeat(60));
+
+    await deployments.fixture();
+    const [creator, recipient] = await ethers.getSigners();
+
+    const sender = await ethers.getContractAt(
+        "MockBlocklockSender",
+        (await deployments.get("MockBlocklockSender")).address
+    ) as unknown as MockBlocklockSender;
+    const capsules = await ethers.getContractAt(
+        "TimeCapsuleBlocklock",
+        (await deployments.get("TimeCapsuleBlocklock")).address
+    ) as unknown as TimeCapsuleBlocklock;
+    const blocklock = await MockBlocklock.forSender(sender);
+
+    console.log(`MockBlocklockSender: ${await sender.getAddress()}`);
+    console.log(`TimeCapsuleBlocklock: ${await capsules.getAddress()}`);
+    console.log(`Creator: ${creator.address}`);
+    console.log(`Recipient: ${recipient.address}`);
+
+    // Step 1: Seal the content and keep the envelope in a local directory instead of IPFS
+    console.log("\nStep 1: Sealing content...");
+    const message = `Local Blocklock capsule created at ${new Date().toISOString()}`;
+    const { envelope, dataKey } = await sealContent(message, { mimeType: "text/plain", fileName: "message.txt" });
+    const sealedBytes = serializeEnvelope(envelope);
+
+    const digest = crypto.createHash("sha256").update(sealedBytes).digest("hex");
+    const storeDir = path.join(os.tmpdir(), "future-protocol-local-blocklock");
+    fs.mkdirSync(storeDir, { recursive: true });
+    fs.writeFileSync(path.join(storeDir, `${digest}.fpe`), sealedBytes);
+    const contentRef = `local:sha256-${digest}`;
+    console.log(`Envelope stored as ${contentRef}`);
+
+    // Step 2: Time-lock the data key and create the capsule
+    console.log("\nStep 2: Creating Blocklock capsule...");
+    const currentBlock = BigInt(await ethers.provider.getBlockNumber());
+    const unlockBlock = currentBlock + BigInt(UNLOCK_DELAY_BLOCKS);
+    const ciphertext = blocklock.encrypt(ethers.toUtf8Bytes(dataKey), unlockBlock);
+    const requestPrice = await capsules.getBlocklockPrice(CALLBACK_GAS_LIMIT);
+    const latest = await ethers.provider.getBlock("latest");
+
+    const createTx = await capsules.connect(creator).createTimelockRequestWithDirectFunding(
+        contentRef,
+        CALLBACK_GAS_LIMIT,
+        encodeCondition(unlockBlock),
+        ciphertext,
+        recipient.address,
+        "",
+        "Local Blocklock Demo",
+        BigInt(latest!.timestamp + UNLOCK_DELAY_BLOCKS),
+        envelope.header.size,
+        envelope.header.mimeType,
+        { value: requestPrice }
+    );
+    await createTx.wait();
+    const capsuleId = (await capsules.nextCapsuleId()) - 1n;
+    const details = await capsules.getTimeCapsule(capsuleId);
+    console.log(`Capsule ${capsuleId} created, Blocklock request ${details.blocklockRequestId}, unlock block ${unlockBlock}`);
+
+    // Step 3: The oracle must not release the key early
+    console.log("\nStep 3: Waiting for the condition block...");
+    const oracle = new MockDecryptionOracle(sender, blocklock);
+    await oracle.poll();
+    if ((await capsules.getTimeCapsule(capsuleId)).hasDecryptionKey) {
+        throw new Error("Decryption key was delivered before the condition block");
+    }
+    console.log(`Blocks until unlock: ${await capsules.getBlocksUntilUnlock(capsuleId)}`);
+
+    await mine(UNLOCK_DELAY_BLOCKS);
+
+    // Step 4: Oracle callback
+    console.log("\nStep 4: Oracle fulfilling request...");
+    const fulfilled = await oracle.poll();
+    if (fulfilled !== 1 || !(await capsules.getTimeCapsule(capsuleId)).hasDecryptionKey) {
+        throw new Error("Oracle did not deliver the decryption key");
+    }
+
+    // Step 5: Recipient unlocks and decrypts
+    console.log("\nStep 5: Recipient unlocking...");
+    await (await capsules.connect(recipient).unlockTimeCapsule(capsuleId)).wait();
+    const keyBytes = await capsules.connect(recipient).getDecryptionKey(capsuleId);
+
+    const storedBytes = fs.readFileSync(path.join(storeDir, `${digest}.fpe`));
+    const opened = await openEnvelope(parseEnvelope(new Uint8Array(storedBytes)), ethers.toUtf8String(keyBytes));
+    const recovered = new TextDecoder().decode(opened.content);
+
+    if (recovered !== message) {
+        throw new Error("Recovered content does not match the original message");
+    }
+
+    console.log("\n" + "=".repeat(60));
+    console.log("LOCAL BLOCKLOCK CYCLE COMPLETED");
+    console.log("=".repeat(60));
+    console.log(`Recovered content: ${recovered}`);
+    console.log("=".repeat(60));
+}
+
+main().catch((error) => {
+    console.error("Local Blocklock demo failed:", error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,204 @@
+import { ethers } from "hardhat";
+import { ContractTransactionResponse } from "ethers";
+import fs from "fs";
+import path from "path";
+import { getDeployedContract } from "./deployedContracts";
+import { TimeCapsuleBlocklockSimple, TimeCapsuleStorage } from "../typechain-types";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Capsule migration from TimeCapsuleStorage.
+ * Reads every capsule of the old contract and replays it into TimeCapsuleBlocklockSimple with
+ * importCapsule, which keeps the creator, creation time and unlock time. Only the capsule contract's
+ * migrator (its deployer, unless handed over with setMigrator) can import.
+ *
+ * The capsule contract records which source capsules it imported, so a second run skips them and
+ * only retries what failed. Every run ends with a reconciliation of each source capsule against its
+ * copy, written to data/migration-<chainId>.json.
+ *
+ *   npx hardhat run scripts/migrateCapsules.ts --network calibration
+ *
+ * Settings: MIGRATION_SOURCE (default: TimeCapsuleStorage from the deployment manifest),
+ * MIGRATION_BATCH_SIZE (transactions sent before waiting for receipts, default 20).
+ */
+
+export type MigrationStatus = "imported" | "already-imported" | "failed";
+
+export interface MigrationEntry {
+    sourceCapsuleId: number;
+    capsuleId?: number;                 // Copy in the capsule contract
+    status: MigrationStatus;
+    mismatches: string[];               // Fields that differ between the source capsule and its copy
+    txHash?: string;
+    error?: string;
+}
+
+export interface MigrationReport {
+    chainId: number;
+    source: string;
+    target: string;
+    sourceCapsules: number;
+    imported: number;
+    alreadyImported: number;
+    failed: number;
+    mismatched: number;
+    entries: MigrationEntry[];
+}
+
+type SourceCapsule = Awaited<ReturnType<TimeCapsuleStorage["getTimeCapsule"]>>;
+
+/**
+ * Import every capsule of a TimeCapsuleStorage contract that is not imported yet, then reconcile
+ * @param source TimeCapsuleStorage contract
+ * @param target Capsule contract, connected to its migrator
+ * @param batchSize Import transactions sent before waiting for their receipts
+ */
+export async function migrateCapsules(
+    source: TimeCapsuleStorage,
+    target: TimeCapsuleBlocklockSimple,
+    batchSize = 20
+): Promise<MigrationReport> {
+    const sourceAddress = await source.getAddress();
+    const count = Number(await source.nextCapsuleId()) - 1;
+    const entries: MigrationEntry[] = [];
+    const pending: { entry: MigrationEntry; capsule: SourceCapsule }[] = [];
+
+    for (let id = 1; id <= count; id++) {
+        const capsule = await source.getTimeCapsule(id);
+        const imported = Number(await target.importedCapsules(sourceAddress, id));
+        const entry: MigrationEntry = { sourceCapsuleId: id, status: "already-imported", mismatches: [] };
+        entries.push(entry);
+
+        if (imported !== 0) {
+            entry.capsuleId = imported;
+        } else {
+            pending.push({ entry, capsule });
+        }
+    }
+
+    for (let start = 0; start < pending.length; start += batchSize) {
+        const batch = pending.slice(start, start + batchSize);
+        const sent: { entry: MigrationEntry; tx: ContractTransactionResponse }[] = [];
+
+        for (const { entry, capsule } of batch) {
+            try {
+                const tx = await target.importCapsule(
+                    sourceAddress,
+                    entry.sourceCapsuleId,
+                    capsule.ipfsCid,
+                    capsule.encryptionKey,
+                    capsule.unlockTime,
+                    capsule.creationTime,
+                    capsule.creator,
+                    capsule.recipientEmail,
+                    capsule.title,
+                    capsule.fileSize,
+                    capsule.fileType
+                );
+                sent.push({ entry, tx });
+            } catch (error) {
+                fail(entry, error);
+            }
+        }
+
+        for (const { entry, tx } of sent) {
+            entry.txHash = tx.hash;
+            try {
+                await tx.wait();
+                entry.status = "imported";
+                entry.capsuleId = Number(await target.importedCapsules(sourceAddress, entry.sourceCapsuleId));
+            } catch (error) {
+                fail(entry, error);
+            }
+        }
+
+        console.log(`Imported batch ${start / batchSize + 1}: source capsules ${batch[0].entry.sourceCapsuleId}-${batch[batch.length - 1].entry.sourceCapsuleId}`);
+    }
+
+    for (const entry of entries) {
+        if (entry.capsuleId !== undefined) {
+            entry.mismatches = await reconcile(await source.getTimeCapsule(entry.sourceCapsuleId), target, entry.capsuleId);
+        }
+    }
+
+    return {
+        chainId: Number((await target.runner!.provider!.getNetwork()).chainId),
+        source: sourceAddress,
+        target: await target.getAddress(),
+        sourceCapsules: count,
+        imported: entries.filter(entry => entry.status === "imported").length,
+        alreadyImported: entries.filter(entry => entry.status === "already-imported").length,
+        failed: entries.filter(entry => entry.status === "failed").length,
+        mismatched: entries.filter(entry => entry.mismatches.length > 0).length,
+        entries
+    };
+}
+
+// Fields of the copy that differ from the source capsule. The key is left out: only the
+// recipient can read it back, with getDecryptionKey after the unlock time
+async function reconcile(capsule: SourceCapsule, target: TimeCapsuleBlocklockSimple, capsuleId: number): Promise<string[]> {
+    const copy = await target.getTimeCapsule(capsuleId);
+    const expected: Record<string, [unknown, unknown]> = {
+        ipfsCid: [capsule.ipfsCid, copy.ipfsCid],
+        unlockTime: [capsule.unlockTime, copy.unlockTime],
+        creationTime: [capsule.creationTime, copy.creationTime],
+        creator: [capsule.creator, copy.creator],
+        recipientEmail: [capsule.recipientEmail, copy.recipientEmail],
+        title: [capsule.title, copy.title],
+        fileSize: [capsule.fileSize, copy.fileSize],
+        fileType: [capsule.fileType, copy.fileType]
+    };
+
+    return Object.keys(expected).filter(field => expected[field][0] !== expected[field][1]);
+}
+
+function fail(entry: MigrationEntry, error: unknown) {
+    const { reason, shortMessage, message } = error as { reason?: string; shortMessage?: string; message?: string };
+    entry.status = "failed";
+    entry.error = reason ?? shortMessage ?? message ?? String(error);
+}
+
+async function main() {
+    const [migrator] = await ethers.getSigners();
+    const target = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", migrator);
+    const source = process.env.MIGRATION_SOURCE
+        ? await ethers.getContractAt("TimeCapsuleStorage", process.env.MIGRATION_SOURCE) as unknown as TimeCapsuleStorage
+        : await getDeployedContract<TimeCapsuleStorage>("TimeCapsuleStorage");
+
+    const role = await target.migrator();
+    if (role !== migrator.address) {
+        throw new Error(`${migrator.address} is not the migrator of ${target.target} (${role})`);
+    }
+
+    console.log(`Migrating capsules from ${source.target} to ${target.target}`);
+    const report = await migrateCapsules(source, target, Number(process.env.MIGRATION_BATCH_SIZE || 20));
+
+    const reportPath = path.join(__dirname, "..", "data", `migration-${report.chainId}.json`);
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+
+    console.log("\nReconciliation");
+    console.table(report.entries.map(entry => ({
+        source: entry.sourceCapsuleId,
+        capsule: entry.capsuleId ?? "-",
+        status: entry.status,
+        mismatches: entry.mismatches.join(", ") || (entry.error ?? "")
+    })));
+    console.log(`Source capsules: ${report.sourceCapsules}`);
+    console.log(`Imported now: ${report.imported}, already imported: ${report.alreadyImported}, failed: ${report.failed}`);
+    console.log(`Copies that differ from their source: ${report.mismatched}`);
+    console.log(`Report written to ${reportPath}`);
+
+    if (report.failed > 0 || report.mismatched > 0) {
+        process.exitCode = 1;
+    }
+}
+
+if (require.main === module) {
+    main().catch(error => {
+        console.error("Migration failed:", error);
+        process.exitCode = 1;
+    });
+}
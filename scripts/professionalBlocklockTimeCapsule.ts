@@ -2,6 +2,7 @@ import { ethers } from "hardhat";
 import { getBytes, Signer, Wallet } from "ethers";
 import { Blocklock, encodeCiphertextToSolidity, encodeCondition } from "blocklock-js";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import { LighthouseService } from "./LighthouseService";
 import fs from "fs";
 import path from "path";
@@ -28,11 +29,7 @@ export class ProfessionalBlocklockTimeCapsule {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.senderAddress = await this.signer.getAddress();
         
-        this.blocklockContract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
         
         this.lighthouseService = new LighthouseService(process.env.LIGHTHOUSE_API_KEY!);
         this.blocklock = Blocklock.createBaseSepolia(this.signer as unknown as Signer);
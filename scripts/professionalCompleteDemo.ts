@@ -1,6 +1,9 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, proveLocalTime } from "./proofProvider";
+import { ProofProvider, describeProof } from "../shared/proofs";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -52,6 +55,7 @@ interface DemoResults {
 export class ProfessionalDemo {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
+    private proofs!: ProofProvider;
     private startTime!: number;
 
     async initialize(): Promise<void> {
@@ -65,31 +69,14 @@ export class ProfessionalDemo {
         }
 
         this.signer = new Wallet(privateKey, ethers.provider);
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         console.log(`Operator: ${await this.signer.getAddress()}`);
         console.log(`Contract: ${await this.contract.getAddress()}`);
         console.log("System Status: READY");
     }
 
-    private generateZKProof(): any {
-        const timestamp = Math.floor(Date.now() / 1000);
-        const hash1 = crypto.createHash('sha256').update(timestamp.toString()).digest('hex');
-        const hash2 = crypto.createHash('sha256').update(hash1).digest('hex');
-        
-        return {
-            pi_a: [`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`, "0x1"],
-            pi_b: [[`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`], [`0x${hash2.slice(0, 64)}`, `0x${hash1.slice(0, 64)}`], ["0x1", "0x0"]],
-            pi_c: [`0x${hash2.slice(0, 64)}`, `0x${hash1.slice(0, 64)}`, "0x1"],
-            protocol: "groth16",
-            curve: "bn128"
-        };
-    }
-
     private async validateNTPSources(): Promise<any> {
         const sources = [
             "http://worldtimeapi.org/api/timezone/UTC",
@@ -143,7 +130,7 @@ SYSTEM INTEGRATION:
 TECHNICAL IMPLEMENTATION:
 ========================
 Network: Filecoin Calibration Testnet
-Contract Address: 0xf939f81b62a57157C6fA441bEb64B2E684382991
+Contract Address: ${this.contract.target}
 Proof Protocol: Groth16 with BN254 curve
 Encryption: AES-256 with secure key derivation
 Storage: Decentralized IPFS with content addressing
@@ -169,9 +156,9 @@ Implementation: Complete Integration
         console.log(`Unlock Time: ${new Date(unlockTime * 1000).toISOString()}`);
         
         console.log("\nPhase 2: zkTLS Proof Generation");
-        const zkProof = this.generateZKProof();
-        const proofHash = crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex');
-        console.log(`Proof Protocol: ${zkProof.protocol.toUpperCase()}`);
+        const zkProof = await proveLocalTime(this.proofs, ethers.provider);
+        const proofHash = zkProof.hash;
+        console.log(`Proof Protocol: ${describeProof(zkProof)}`);
         console.log(`Proof Hash: ${proofHash.slice(0, 16)}...`);
         
         console.log("\nPhase 3: NTP Time Validation");
@@ -250,8 +237,8 @@ Implementation: Complete Integration
                     blockNumber: currentBlock
                 },
                 zkProofs: {
-                    generated: true,
-                    protocol: "Groth16",
+                    generated: zkProof.proof !== null,
+                    protocol: describeProof(zkProof),
                     proofHash: proofHash,
                     ntpValidation: {
                         attempted: true,
@@ -278,7 +265,7 @@ Implementation: Complete Integration
             console.log("DEMONSTRATION COMPLETE");
             console.log("=".repeat(60));
             console.log("Successfully Demonstrated:");
-            console.log("- zkTLS proof generation with Groth16 protocol");
+            console.log(`- Generated time validation proof: ${describeProof(zkProof)}`);
             console.log("- Multi-source NTP time validation");
             console.log("- IPFS content storage and retrieval");
             console.log("- Smart contract integration on Filecoin");
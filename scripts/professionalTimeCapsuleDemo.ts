@@ -1,6 +1,9 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, proveLocalTime } from "./proofProvider";
+import { ProofProvider, describeProof } from "../shared/proofs";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -18,14 +21,6 @@ interface TimeCapsuleData {
     encryptionKey: string;
 }
 
-interface ZKProof {
-    pi_a: string[];
-    pi_b: string[][];
-    pi_c: string[];
-    protocol: string;
-    curve: string;
-}
-
 interface ValidationResult {
     isValid: boolean;
     proofHash: string;
@@ -36,6 +31,7 @@ interface ValidationResult {
 export class ProfessionalTimeCapsuleDemo {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
+    private proofs!: ProofProvider;
     private lighthouseApiKey: string;
 
     constructor() {
@@ -55,11 +51,8 @@ export class ProfessionalTimeCapsuleDemo {
         this.signer = new Wallet(privateKey, ethers.provider);
         const signerAddress = await this.signer.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         const contractAddress = await this.contract.getAddress();
         console.log(`Signer Address: ${signerAddress}`);
@@ -67,34 +60,6 @@ export class ProfessionalTimeCapsuleDemo {
         console.log("Initialization Complete");
     }
 
-    private async generateZKProof(): Promise<ZKProof> {
-        const currentTime = Math.floor(Date.now() / 1000);
-        const timeString = currentTime.toString();
-        
-        const hash1 = crypto.createHash('sha256').update(timeString).digest('hex');
-        const hash2 = crypto.createHash('sha256').update(hash1).digest('hex');
-        
-        return {
-            pi_a: [
-                "0x" + hash1.slice(0, 64),
-                "0x" + hash2.slice(0, 64),
-                "0x1"
-            ],
-            pi_b: [
-                ["0x" + hash1.slice(0, 64), "0x" + hash2.slice(0, 64)],
-                ["0x" + hash2.slice(0, 64), "0x" + hash1.slice(0, 64)],
-                ["0x1", "0x0"]
-            ],
-            pi_c: [
-                "0x" + hash2.slice(0, 64),
-                "0x" + hash1.slice(0, 64),
-                "0x1"
-            ],
-            protocol: "groth16",
-            curve: "bn128"
-        };
-    }
-
     private async validateWithNTPServers(): Promise<ValidationResult> {
         const ntpServers = [
             "http://worldtimeapi.org/api/timezone/UTC",
@@ -184,7 +149,7 @@ IMPLEMENTATION FEATURES:
 TECHNICAL SPECIFICATIONS:
 ========================
 Network: Filecoin Calibration Testnet
-Contract: 0xf939f81b62a57157C6fA441bEb64B2E684382991
+Contract: ${this.contract.target}
 Storage: Distributed IPFS via Lighthouse
 Proof System: Groth16 ZK-SNARKs
 Time Validation: Multi-source NTP verification
@@ -235,10 +200,9 @@ Authentication: Wallet signature validation
         console.log(`Lock Duration: 10 seconds`);
         
         console.log("\nStep 2: Generating zkTLS proof");
-        const zkProof = await this.generateZKProof();
-        console.log(`Proof Protocol: ${zkProof.protocol}`);
-        console.log(`Curve: ${zkProof.curve}`);
-        console.log(`Proof Hash: ${crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex').slice(0, 16)}...`);
+        const zkProof = await proveLocalTime(this.proofs, ethers.provider);
+        console.log(`Proof Backend: ${describeProof(zkProof)}`);
+        console.log(`Proof Hash: ${zkProof.hash.slice(0, 18)}...`);
         
         console.log("\nStep 3: NTP server validation");
         const ntpValidation = await this.validateWithNTPServers();
@@ -345,10 +309,11 @@ Authentication: Wallet signature validation
                     contentLength: decryptedContent.length
                 },
                 zkProofs: {
-                    proofGenerated: true,
-                    protocol: zkProof.protocol,
-                    curve: zkProof.curve,
-                    proofHash: crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex'),
+                    proofGenerated: zkProof.proof !== null,
+                    backend: zkProof.backend,
+                    protocol: zkProof.proof?.protocol ?? "none",
+                    curve: zkProof.proof?.curve ?? "none",
+                    proofHash: zkProof.hash,
                     ntpValidation: {
                         isValid: ntpValidation.isValid,
                         sourcesChecked: ntpValidation.sources.length,
@@ -0,0 +1,151 @@
+import { Provider, Signer } from "ethers";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { Groth16ProofProvider } from "../shared/groth16";
+import {
+    CircuitProof,
+    MockProofProvider,
+    PROOF_CIRCUITS,
+    ProofBackend,
+    ProofError,
+    ProofGate,
+    ProofProvider,
+    RECEIVER_SECRET_MESSAGE,
+    receiverSecretFromSignature
+} from "../shared/proofs";
+
+export const CIRCUIT_ARTIFACTS_DIR = path.join(__dirname, "..", "circuits", "compiled");
+
+// Pinned SHA-256 of every artifact in CIRCUIT_ARTIFACTS_DIR, written by npm run circuits:build
+export const CIRCUIT_CHECKSUMS_FILE = "SHA256SUMS";
+
+// Default clock tolerance for time_validation proofs, in seconds
+export const DEFAULT_MAX_DRIFT = 300;
+
+/**
+ * Proof provider for the scripts. PROOF_BACKEND selects the backend: "groth16" (default)
+ * proves with the compiled circuits, "mock" produces labelled placeholders.
+ * @param backend Overrides PROOF_BACKEND
+ * @param artifactsDir Directory with <name>.wasm, <name>.zkey and <name>_verification_key.json
+ */
+export function createProofProvider(
+    backend: string = process.env.PROOF_BACKEND || "groth16",
+    artifactsDir: string = CIRCUIT_ARTIFACTS_DIR
+): ProofProvider {
+    switch (backend as ProofBackend) {
+        case "mock":
+            console.warn("PROOF_BACKEND=mock: proofs are unverified placeholders");
+            return new MockProofProvider();
+        case "groth16":
+            return new Groth16ProofProvider(async circuit => {
+                const name = PROOF_CIRCUITS[circuit];
+                const file = (suffix: string) => path.join(artifactsDir, `${name}${suffix}`);
+                const missing = [".wasm", ".zkey", "_verification_key.json"].map(file).filter(p => !fs.existsSync(p));
+                if (missing.length > 0) {
+                    throw new ProofError(circuit, `missing ${missing.join(", ")}; run npm run circuits:build or set PROOF_BACKEND=mock`);
+                }
+                const mismatched = verifyCircuitArtifacts(artifactsDir, name);
+                if (mismatched.length > 0) {
+                    throw new ProofError(circuit, `${mismatched.join(", ")} in ${artifactsDir} do not match ${CIRCUIT_CHECKSUMS_FILE}; run npm run circuits:build`);
+                }
+                return {
+                    wasm: file(".wasm"),
+                    zkey: file(".zkey"),
+                    verificationKey: JSON.parse(fs.readFileSync(file("_verification_key.json"), "utf8"))
+                };
+            });
+        default:
+            throw new Error(`Unknown PROOF_BACKEND "${backend}", expected groth16 or mock`);
+    }
+}
+
+/**
+ * File names of a circuit's artifacts, as listed in CIRCUIT_CHECKSUMS_FILE
+ * @param name Circuit name (PROOF_CIRCUITS)
+ */
+export function circuitArtifactFiles(name: string): string[] {
+    return [`${name}.wasm`, `${name}.zkey`, `${name}_verification_key.json`];
+}
+
+/**
+ * Hex SHA-256 of a file
+ */
+export function sha256File(file: string): string {
+    return crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+}
+
+/**
+ * Check a circuit's artifacts against the pinned checksums
+ * @param artifactsDir Directory with the artifacts and CIRCUIT_CHECKSUMS_FILE
+ * @param name Circuit name (PROOF_CIRCUITS)
+ * @returns Artifacts that are unpinned or whose SHA-256 differs; empty when all match
+ */
+export function verifyCircuitArtifacts(artifactsDir: string, name: string): string[] {
+    const checksumsFile = path.join(artifactsDir, CIRCUIT_CHECKSUMS_FILE);
+    const pinned = new Map<string, string>();
+    if (fs.existsSync(checksumsFile)) {
+        for (const line of fs.readFileSync(checksumsFile, "utf8").split("\n")) {
+            const match = /^([0-9a-f]{64}) [ *](.+)$/.exec(line.trim());
+            if (match) pinned.set(match[2], match[1]);
+        }
+    }
+    return circuitArtifactFiles(name).filter(file => pinned.get(file) !== sha256File(path.join(artifactsDir, file)));
+}
+
+/**
+ * receiver_auth secret of a wallet (see RECEIVER_SECRET_MESSAGE in shared/proofs.ts)
+ */
+export async function deriveReceiverSecret(signer: Signer): Promise<bigint> {
+    return receiverSecretFromSignature(await signer.signMessage(RECEIVER_SECRET_MESSAGE));
+}
+
+/**
+ * Prove that the local clock is within maxDrift of the latest block timestamp
+ * @param proofs Proof provider
+ * @param provider Chain to read the block from
+ * @param capsuleId Capsule the proof is made for (0 when there is none yet)
+ */
+export async function proveLocalTime(
+    proofs: ProofProvider,
+    provider: Provider,
+    capsuleId: number | bigint = 0,
+    maxDrift: number = DEFAULT_MAX_DRIFT
+): Promise<CircuitProof<"time_validation">> {
+    const block = await provider.getBlock("latest");
+    if (!block) {
+        throw new Error("Could not read the latest block");
+    }
+    return proofs.prove("time_validation", {
+        capsuleId,
+        unlockTime: block.timestamp,
+        referenceTime: block.timestamp,
+        maxDrift,
+        localTime: Math.floor(Date.now() / 1000)
+    });
+}
+
+/**
+ * Prove that the signer holds the receiver secret for a capsule recipient
+ * @param proofs Proof provider
+ * @param signer Wallet whose secret is proven; must be the recipient's for the commitment to match
+ * @param capsuleId Capsule the nullifier is bound to
+ * @param recipient Capsule recipient address
+ */
+export async function proveReceiver(
+    proofs: ProofProvider,
+    signer: Signer,
+    capsuleId: number | bigint,
+    recipient: string
+): Promise<CircuitProof<"receiver_auth">> {
+    return proofs.prove("receiver_auth", { capsuleId, recipient, secret: await deriveReceiverSecret(signer) });
+}
+
+/**
+ * Read the proof gate of a capsule (verifier is the zero address when there is none)
+ */
+export async function readProofGate(capsules: TimeCapsuleBlocklockSimple, capsuleId: number | bigint): Promise<ProofGate> {
+    const [verifier, requiredMask, publicSignals] = await capsules.getProofGate(capsuleId);
+    return { verifier, requiredMask, publicSignals: [...publicSignals] };
+}
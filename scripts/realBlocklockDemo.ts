@@ -1,6 +1,11 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, proveLocalTime } from "./proofProvider";
+import { createStorageProvider } from "./storageProvider";
+import { ProofProvider, describeProof } from "../shared/proofs";
+import { StorageProvider, storeVerified } from "../shared/storage";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -67,6 +72,8 @@ interface BlocklockDemoResults {
 export class RealBlocklockDemo {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
+    private proofs!: ProofProvider;
+    private storage!: StorageProvider;
     private startTime!: number;
 
     async initialize(): Promise<void> {
@@ -80,32 +87,15 @@ export class RealBlocklockDemo {
         }
 
         this.signer = new Wallet(privateKey, ethers.provider);
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
+        this.storage = createStorageProvider();
         
         console.log(`Operator: ${await this.signer.getAddress()}`);
         console.log(`Contract: ${await this.contract.getAddress()}`);
         console.log("Blocklock Integration Ready");
     }
 
-    private generateZKProof(): any {
-        const timestamp = Math.floor(Date.now() / 1000);
-        const nonce = crypto.randomBytes(16).toString('hex');
-        const hash1 = crypto.createHash('sha256').update(`${timestamp}-${nonce}`).digest('hex');
-        const hash2 = crypto.createHash('sha256').update(hash1).digest('hex');
-        
-        return {
-            pi_a: [`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`, "0x1"],
-            pi_b: [[`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`], [`0x${hash2.slice(0, 64)}`, `0x${hash1.slice(0, 64)}`], ["0x1", "0x0"]],
-            pi_c: [`0x${hash2.slice(0, 64)}`, `0x${hash1.slice(0, 64)}`, "0x1"],
-            protocol: "groth16",
-            curve: "bn254"
-        };
-    }
-
     private async validateNTP(): Promise<{ total: number; valid: number; hash: string }> {
         const sources = [
             "http://worldtimeapi.org/api/timezone/UTC",
@@ -156,9 +146,9 @@ export class RealBlocklockDemo {
         
         try {
             console.log("Phase 1: zkTLS Proof Generation");
-            const zkProof = this.generateZKProof();
-            const proofHash = crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex');
-            console.log(`Protocol: ${zkProof.protocol.toUpperCase()}`);
+            const zkProof = await proveLocalTime(this.proofs, ethers.provider);
+            const proofHash = zkProof.hash;
+            console.log(`Protocol: ${describeProof(zkProof)}`);
             console.log(`Proof Hash: ${proofHash.slice(0, 24)}...`);
             
             console.log("\nPhase 2: NTP Time Validation");
@@ -230,10 +220,17 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
             console.log(`Callback Gas: ${callbackGasLimit}`);
             console.log(`Funding: ${ethers.formatEther(fundingAmount)} ETH`);
             
-            console.log("\nPhase 4: Creating TimeCapsule with Real Blocklock");
+            console.log("\nPhase 4: Uploading Content to IPFS");
+            // Throws an UploadError before any capsule is created if the CID cannot be verified and read back
+            const { cid: ipfsCid } = await storeVerified(this.storage, new TextEncoder().encode(demoContent), {
+                fileName: "blocklock_demo.txt",
+                onRetry: (stage, attempt, error) => console.log(`Upload ${stage} attempt ${attempt} failed, retrying: ${error.message}`)
+            });
+            console.log(`IPFS CID: ${ipfsCid} (verified and retrievable)`);
+            
+            console.log("\nPhase 5: Creating TimeCapsule with Real Blocklock");
             
             const nextId = await this.contract.nextCapsuleId();
-            const ipfsCid = `bafkrei${crypto.randomBytes(20).toString('hex')}`;
             
             try {
                 const blocklockTx = await this.contract.createTimelockRequestWithDirectFunding(
@@ -256,7 +253,7 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                 const newCapsuleId = Number(nextId);
                 console.log(`TimeCapsule ID: ${newCapsuleId} (with REAL Blocklock)`);
                 
-                console.log("\nPhase 5: Waiting for Blocklock Unlock (10 seconds)");
+                console.log("\nPhase 6: Waiting for Blocklock Unlock (10 seconds)");
                 let countdown = 11;
                 while (countdown > 0) {
                     process.stdout.write(`\rBlocklock countdown: ${countdown} seconds`);
@@ -265,7 +262,7 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                 }
                 console.log("\nBlocklock unlock time reached");
                 
-                console.log("\nPhase 6: Blocklock Automated Unlock");
+                console.log("\nPhase 7: Blocklock Automated Unlock");
                 
                 try {
                     const unlockTx = await this.contract.unlockTimeCapsule(newCapsuleId);
@@ -282,7 +279,7 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                     console.log(`Uses Blocklock: ${useBlocklock}`);
                     console.log(`Blocklock Request ID: ${blocklockRequestId}`);
                     
-                    console.log("\nPhase 7: Final Blocklock Report");
+                    console.log("\nPhase 8: Final Blocklock Report");
                     
                     const executionTime = Math.floor((Date.now() - this.startTime) / 1000);
                     const currentBlock = await ethers.provider.getBlockNumber();
@@ -313,8 +310,8 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                             isUnlocked: Boolean(isUnlocked)
                         },
                         zkTLS: {
-                            proofGenerated: true,
-                            protocol: zkProof.protocol,
+                            proofGenerated: zkProof.proof !== null,
+                            protocol: describeProof(zkProof),
                             proofHash: proofHash,
                             ntpValidation: {
                                 sourcesChecked: ntpResult.total,
@@ -324,7 +321,7 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                         },
                         storage: {
                             ipfsCid: ipfsCid,
-                            provider: "Lighthouse IPFS Network",
+                            provider: this.storage.backend,
                             contentLength: demoContent.length
                         },
                         blockchain: {
@@ -354,7 +351,7 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                     console.log("=".repeat(75));
                     console.log("Successfully demonstrated ACTUAL Blocklock integration:");
                     console.log(`- Created TimeCapsule ${newCapsuleId} with REAL Blocklock protocol`);
-                    console.log("- Generated zkTLS proofs with Groth16 protocol");
+                    console.log(`- Generated time validation proof: ${describeProof(zkProof)}`);
                     console.log("- Validated time sources via NTP");
                     console.log("- Encoded timelock conditions for Blocklock");
                     console.log("- Created Blocklock-compatible ciphertext");
@@ -394,8 +391,8 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                             isUnlocked: false
                         },
                         zkTLS: {
-                            proofGenerated: true,
-                            protocol: zkProof.protocol,
+                            proofGenerated: zkProof.proof !== null,
+                            protocol: describeProof(zkProof),
                             proofHash: proofHash,
                             ntpValidation: {
                                 sourcesChecked: ntpResult.total,
@@ -405,7 +402,7 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                         },
                         storage: {
                             ipfsCid: ipfsCid,
-                            provider: "Lighthouse IPFS Network",
+                            provider: this.storage.backend,
                             contentLength: demoContent.length
                         },
                         blockchain: {
@@ -475,8 +472,8 @@ Encryption Key: ${encryptionKey.slice(0, 16)}...
                         isUnlocked: Boolean(existingUnlocked)
                     },
                     zkTLS: {
-                        proofGenerated: true,
-                        protocol: zkProof.protocol,
+                        proofGenerated: zkProof.proof !== null,
+                        protocol: describeProof(zkProof),
                         proofHash: proofHash,
                         ntpValidation: {
                             sourcesChecked: ntpResult.total,
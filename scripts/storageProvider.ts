@@ -0,0 +1,167 @@
+import fs from "fs";
+import path from "path";
+import { computeCid, isValidCid } from "../shared/cid";
+import { ContentCache, ContentRetriever, DEFAULT_GATEWAYS, RetrievalOptions } from "../shared/retrieval";
+import {
+    DEFAULT_KUBO_API_URL,
+    KuboStorage,
+    LIGHTHOUSE_GATEWAY,
+    LighthouseStorage,
+    PinStatus,
+    StorageBackend,
+    StorageError,
+    StorageProvider,
+    StoredContent
+} from "../shared/storage";
+
+export const DEFAULT_STORAGE_DIR = path.join(__dirname, "..", "data", "ipfs");
+export const DEFAULT_CACHE_DIR = path.join(__dirname, "..", "data", "cache");
+
+/**
+ * Content-addressed store in a local directory: each file is named after the CID of its bytes,
+ * computed the way `ipfs add` does. Nothing leaves the machine, so capsules created with it can
+ * only be unlocked here; meant for development and CI.
+ */
+export class FileSystemStorage implements StorageProvider {
+    readonly backend = "filesystem";
+
+    constructor(readonly dir: string = DEFAULT_STORAGE_DIR) {}
+
+    async put(content: Uint8Array): Promise<StoredContent> {
+        const cid = await computeCid(content);
+        const file = this.file(cid);
+
+        if (!fs.existsSync(file)) {
+            fs.mkdirSync(this.dir, { recursive: true });
+            // Write under a temporary name first so a crash never leaves a truncated file behind a CID
+            const temporary = `${file}.${process.pid}.tmp`;
+            fs.writeFileSync(temporary, content);
+            fs.renameSync(temporary, file);
+        }
+        return { cid, size: content.length };
+    }
+
+    async get(cid: string): Promise<Uint8Array> {
+        const file = this.file(cid);
+        if (!fs.existsSync(file)) {
+            throw new StorageError(this.backend, `${cid} not found in ${this.dir}`);
+        }
+
+        const content = new Uint8Array(fs.readFileSync(file));
+        if (await computeCid(content) !== cid) {
+            throw new StorageError(this.backend, `${file} does not match its CID ${cid}`);
+        }
+        return content;
+    }
+
+    async stat(cid: string): Promise<StoredContent | undefined> {
+        const file = this.file(cid);
+        return fs.existsSync(file) ? { cid, size: fs.statSync(file).size } : undefined;
+    }
+
+    async pinStatus(cid: string): Promise<PinStatus> {
+        return fs.existsSync(this.file(cid)) ? "pinned" : "unpinned";
+    }
+
+    gatewayUrl(): undefined {
+        return undefined;
+    }
+
+    private file(cid: string): string {
+        if (!isValidCid(cid)) {
+            throw new StorageError(this.backend, `invalid CID "${cid}"`);
+        }
+        return path.join(this.dir, cid);
+    }
+}
+
+/**
+ * Storage provider for the scripts. STORAGE_BACKEND selects the backend: "lighthouse" (default)
+ * needs LIGHTHOUSE_API_KEY, "kubo" talks to the IPFS node at KUBO_API_URL, "filesystem" keeps
+ * content in STORAGE_DIR (default data/ipfs).
+ * @param backend Overrides STORAGE_BACKEND
+ */
+export function createStorageProvider(backend: string = process.env.STORAGE_BACKEND || "lighthouse"): StorageProvider {
+    switch (backend as StorageBackend) {
+        case "lighthouse":
+            if (!process.env.LIGHTHOUSE_API_KEY) {
+                throw new Error("LIGHTHOUSE_API_KEY is required for STORAGE_BACKEND=lighthouse; set STORAGE_BACKEND=kubo or filesystem to work without it");
+            }
+            return new LighthouseStorage(process.env.LIGHTHOUSE_API_KEY, process.env.LIGHTHOUSE_GATEWAY || LIGHTHOUSE_GATEWAY);
+        case "kubo":
+            return new KuboStorage(process.env.KUBO_API_URL || DEFAULT_KUBO_API_URL, process.env.KUBO_GATEWAY);
+        case "filesystem":
+            console.warn("STORAGE_BACKEND=filesystem: capsule content stays on this machine");
+            return new FileSystemStorage(process.env.STORAGE_DIR || DEFAULT_STORAGE_DIR);
+        default:
+            throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected lighthouse, kubo or filesystem`);
+    }
+}
+
+/**
+ * Retrieval cache on disk: verified content is kept as <cid>, interrupted downloads as
+ * <cid>.partial until they are resumed. Files are written under a temporary name and renamed.
+ */
+export class FileSystemCache implements ContentCache {
+    constructor(readonly dir: string = DEFAULT_CACHE_DIR) {}
+
+    async get(cid: string): Promise<Uint8Array | undefined> {
+        return this.read(this.file(cid));
+    }
+
+    async put(cid: string, content: Uint8Array): Promise<void> {
+        this.write(this.file(cid), content);
+    }
+
+    async getPartial(cid: string): Promise<Uint8Array | undefined> {
+        return this.read(`${this.file(cid)}.partial`);
+    }
+
+    async putPartial(cid: string, bytes: Uint8Array): Promise<void> {
+        this.write(`${this.file(cid)}.partial`, bytes);
+    }
+
+    async deletePartial(cid: string): Promise<void> {
+        fs.rmSync(`${this.file(cid)}.partial`, { force: true });
+    }
+
+    private read(file: string): Uint8Array | undefined {
+        return fs.existsSync(file) ? new Uint8Array(fs.readFileSync(file)) : undefined;
+    }
+
+    private write(file: string, bytes: Uint8Array): void {
+        fs.mkdirSync(this.dir, { recursive: true });
+        const temporary = `${file}.${process.pid}.tmp`;
+        fs.writeFileSync(temporary, bytes);
+        fs.renameSync(temporary, file);
+    }
+
+    private file(cid: string): string {
+        if (!isValidCid(cid)) {
+            throw new Error(`invalid CID "${cid}"`);
+        }
+        return path.join(this.dir, cid);
+    }
+}
+
+/**
+ * Content retriever for the scripts: races the gateways in IPFS_GATEWAYS (comma-separated URL
+ * prefixes, default DEFAULT_GATEWAYS) and, unless it is Lighthouse whose gateway is already
+ * among them, the storage backend. Verified content is cached in RETRIEVAL_CACHE_DIR
+ * (default data/cache).
+ * @param storage Backend to race alongside the gateways; default the one STORAGE_BACKEND selects
+ */
+export function createContentRetriever(storage?: StorageProvider, options: RetrievalOptions = {}): ContentRetriever {
+    if (!storage && (process.env.STORAGE_BACKEND || "lighthouse") !== "lighthouse") {
+        storage = createStorageProvider();
+    }
+    const gateways = process.env.IPFS_GATEWAYS
+        ? process.env.IPFS_GATEWAYS.split(",").map(gateway => gateway.trim()).filter(Boolean)
+        : DEFAULT_GATEWAYS;
+    return new ContentRetriever({
+        gateways,
+        storage: storage?.backend === "lighthouse" ? undefined : storage,
+        cache: new FileSystemCache(process.env.RETRIEVAL_CACHE_DIR || DEFAULT_CACHE_DIR),
+        ...options
+    });
+}
@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
-import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { CapsuleReader, TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import { LighthouseService } from "./LighthouseService";
 import dotenv from "dotenv";
 
@@ -18,11 +19,8 @@ async function showSystemStatus() {
     const signer = new Wallet(privateKey, ethers.provider);
     const senderAddress = await signer.getAddress();
     
-    const blocklockContract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
+    const reader = await getDeployedContract<CapsuleReader>("CapsuleReader", signer);
     
     const lighthouseService = new LighthouseService(process.env.LIGHTHOUSE_API_KEY!);
     
@@ -51,29 +49,18 @@ async function showSystemStatus() {
     console.log("✓ Hybrid AES + Blocklock encryption");
     
     console.log("\nTIMECAPSULE STATISTICS:");
-    const capsuleCount = await blocklockContract.nextCapsuleId();
+    const capsuleCount = await blocklockContract.getTotalCapsules();
     console.log(`Total TimeCapsules: ${capsuleCount}`);
     
-    let userCapsules = 0;
-    let unlockedCapsules = 0;
-    let blocklockCapsules = 0;
+    // Capsules the wallet created or receives, read in one call
+    const ids = new Set(await blocklockContract.getUserCapsules(senderAddress));
+    (await blocklockContract.getRecipientCapsules(senderAddress)).forEach(id => ids.add(id));
+    const capsules = (await reader.getTimeCapsules(blocklockContract.target, [...ids]))
+        .filter(capsule => capsule.creator === senderAddress || capsule.recipients.includes(senderAddress));
     
-    for (let i = 1; i < capsuleCount; i++) {
-        try {
-            const details = await blocklockContract.getTimeCapsule(i);
-            const creator = details[3].toString();
-            const recipient = details[4].toString();
-            
-            if (creator.toLowerCase() === senderAddress.toLowerCase() ||
-                recipient.toLowerCase().includes(senderAddress.toLowerCase())) {
-                userCapsules++;
-                if (details[7]) unlockedCapsules++;
-                if (details[11]) blocklockCapsules++;
-            }
-        } catch (e) {
-            continue;
-        }
-    }
+    const userCapsules = capsules.length;
+    const unlockedCapsules = capsules.filter(capsule => capsule.isUnlocked).length;
+    const blocklockCapsules = capsules.filter(capsule => capsule.useBlocklock).length;
     
     console.log(`Your TimeCapsules: ${userCapsules}`);
     console.log(`Unlocked: ${unlockedCapsules}`);
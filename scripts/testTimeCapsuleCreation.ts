@@ -1,5 +1,6 @@
 import { ethers } from "hardhat";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import crypto from "crypto";
 import dotenv from "dotenv";
 
@@ -15,11 +16,7 @@ async function testTimeCapsuleCreation() {
     }
 
     const signer = new ethers.Wallet(privateKey, ethers.provider);
-    const contract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
     
     const currentTime = Math.floor(Date.now() / 1000);
     const currentBlock = await ethers.provider.getBlockNumber();
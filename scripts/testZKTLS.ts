@@ -3,6 +3,7 @@ import axios from "axios";
 import forge from "node-forge";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import crypto from "crypto";
 import fs from "fs";
 import path from "path";
@@ -175,11 +176,7 @@ async function testZKTLSTimeCapsuleVerification() {
     const signer = new Wallet(privateKey, ethers.provider);
     const senderAddress = await signer.getAddress();
     
-    const contract = await ethers.getContractAt(
-        "TimeCapsuleBlocklockSimple", 
-        "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-        signer
-    ) as TimeCapsuleBlocklockSimple;
+    const contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", signer);
 
     console.log(`Contract: ${await contract.getAddress()}`);
     console.log(`Verifier: ${senderAddress}`);
@@ -1,8 +1,41 @@
 import { ethers as hardhatEthers } from "hardhat";
 import { ethers, Wallet, getBytes, Signer, Contract, EventLog, JsonRpcProvider } from "ethers";
 import { Blocklock, encodeCiphertextToSolidity, encodeCondition, encodeParams } from "blocklock-js";
-import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { CapsuleClaims, CapsuleEscrow, CapsuleGuardians, CapsuleReader, TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import { LighthouseService } from "./LighthouseService";
+import { TimeAttestor } from "./TimeAttestor";
+import { createProofProvider, proveLocalTime, proveReceiver, readProofGate } from "./proofProvider";
+import { deriveEncryptionKey, readDataKey, wrapForRecipients } from "./encryptionKeys";
+import {
+    ProofBackend,
+    ProofProvider,
+    RECEIVER_AUTH_GATE_MASK,
+    describeProof,
+    matchesProofGate,
+    toSolidityProof
+} from "../shared/proofs";
+import { requireDeployment } from "../shared/deployments";
+import { SignedTimeAttestation } from "../shared/timeAttestation";
+import { GUARDIAN_APPROVALS, GUARDIAN_VOTE_TYPES, guardianDomain, toGuardianState } from "../shared/guardians";
+import { conditionUnit, estimateUnlockTimestamp, isBlockCondition, toConditionType } from "../shared/conditions";
+import { RetrievalError } from "../shared/retrieval";
+import { downloadChunked } from "../shared/chunkedUpload";
+import {
+    sealContent,
+    serializeEnvelope,
+    parseEnvelope,
+    openEnvelope,
+    isEnvelope,
+    isChunkManifest,
+    parseManifest,
+    hashContent,
+    verifyContentHash,
+    ChunkManifest,
+    ContentHashes,
+    ContentIntegrityError,
+    ENVELOPE_ALGORITHM
+} from "../shared/envelope";
 import { SelfAppBuilder, SelfQRcode, getUniversalLink, countries } from "@selfxyz/qrcode";
 import axios from "axios";
 import fs from "fs";
@@ -61,6 +94,7 @@ interface CompleteWorkflowResults {
     };
     zkTLS: {
         proofGenerated: boolean;
+        backend: ProofBackend;
         protocol: string;
         curve: string;
         proofHash: string;
@@ -68,6 +102,7 @@ interface CompleteWorkflowResults {
             sourcesChecked: number;
             sourcesValid: number;
             validationHash: string;
+            attestation: SignedTimeAttestation;
         };
     };
     selfProtocol: {
@@ -286,6 +321,7 @@ export class TimeCapsuleManager {
     private senderAddress!: string;
     private blocklock!: Blocklock;
     private qrServer!: QRCodeServer;
+    private proofs!: ProofProvider;
     private startTime!: number;
     private pendingVerifications: Map<string, { resolve: Function; reject: Function; timeout: NodeJS.Timeout; pollInterval?: NodeJS.Timeout }> = new Map();
 
@@ -301,20 +337,12 @@ export class TimeCapsuleManager {
         this.signer = new Wallet(privateKey, hardhatEthers.provider);
         this.senderAddress = await this.signer.getAddress();
 
-        this.blocklockContract = await hardhatEthers.getContractAt(
-            "TimeCapsuleBlocklockSimple",
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.blocklockContract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
 
-        // Initialize Lighthouse service for IPFS uploads
-        const lighthouseApiKey = process.env.LIGHTHOUSE_API_KEY;
-        if (!lighthouseApiKey) {
-            throw new Error("LIGHTHOUSE_API_KEY required for IPFS uploads");
-        }
-
-        this.lighthouseService = new LighthouseService(lighthouseApiKey);
-        console.log("Lighthouse Service: Ready");
+        // Storage backend for capsule content, from STORAGE_BACKEND (needs LIGHTHOUSE_API_KEY for lighthouse)
+        this.lighthouseService = new LighthouseService(process.env.LIGHTHOUSE_API_KEY);
+        console.log(`Storage Service: Ready (${this.lighthouseService.storage.backend})`);
 
         try {
             this.blocklock = Blocklock.createBaseSepolia(this.signer as unknown as Signer);
@@ -348,46 +376,30 @@ export class TimeCapsuleManager {
         });
     }
 
-    private generateZKProof(): any {
-        return {
-            protocol: "Groth16",
-            curve: "bn128",
-            proof: {
-                a: ["0x1a2b3c4d", "0x5e6f7g8h"],
-                b: [["0x9i0j1k2l", "0x3m4n5o6p"], ["0x7q8r9s0t", "0x1u2v3w4x"]],
-                c: ["0x5y6z7a8b", "0x9c0d1e2f"]
-            },
-            publicSignals: ["0x3g4h5i6j", "0x7k8l9m0n", "0x1o2p3q4r"]
-        };
-    }
+    private async performNTPValidation(): Promise<{ total: number; valid: number; hash: string; attestation: SignedTimeAttestation }> {
+        const attestor = TimeAttestor.fromEnv(this.signer, hardhatEthers.provider);
+        const signed = await attestor.attest();
+        const { attestation } = signed;
 
-    private async performNTPValidation(): Promise<{ total: number; valid: number; hash: string }> {
-        const ntpServers = [
-            "pool.ntp.org",
-            "time.google.com",
-            "time.cloudflare.com",
-            "time.apple.com"
-        ];
-
-        let validSources = 0;
-        for (const server of ntpServers) {
-            console.log(`Validating NTP server: ${server}`);
-            await new Promise(resolve => setTimeout(resolve, 500));
-            if (Math.random() > 0.2) {
-                validSources++;
-                console.log(`${server}: VALID`);
+        for (const sample of attestation.samples) {
+            if (sample.error) {
+                console.log(`${sample.server}: ${sample.error}`);
             } else {
-                console.log(`${server}: TIMEOUT`);
+                const agrees = attestation.agreeingServers.includes(sample.server);
+                console.log(`${sample.server}: offset ${sample.offsetMs}ms, rtt ${sample.roundTripMs}ms, stratum ${sample.stratum}${agrees ? "" : " (outlier)"}`);
             }
         }
+        console.log(`Block ${attestation.chain.blockNumber}: ${attestation.chainSkewMs}ms from NTP time`);
 
-        const validationData = `ntp_validation_${Date.now()}_${validSources}_of_${ntpServers.length}`;
-        const hash = crypto.createHash('sha256').update(validationData).digest('hex');
+        if (!attestation.valid) {
+            throw new Error(`Time attestation failed: ${attestation.reasons.join("; ")}`);
+        }
 
         return {
-            total: ntpServers.length,
-            valid: validSources,
-            hash: hash
+            total: attestation.samples.length,
+            valid: attestation.agreeingServers.length,
+            hash: signed.hash,
+            attestation: signed
         };
     }
 
@@ -567,10 +579,18 @@ export class TimeCapsuleManager {
             console.log("4. View TimeCapsule Details");
             console.log("5. Unlock TimeCapsule");
             console.log("6. Complete Demo Workflow");
-            console.log("7. Exit");
+            console.log("7. Manage Unlock Delegates");
+            console.log("8. Manage Unlock Proof Gate");
+            console.log("9. Register Encryption Key");
+            console.log("10. Manage TimeCapsule (cancel, extend, amend)");
+            console.log("11. Dead Man's Switch (create, heartbeat)");
+            console.log("12. Guardians (set, approve, veto)");
+            console.log("13. Escrowed Funds (deposit, claim, refund, reclaim)");
+            console.log("14. Claim Tokens (mint, list, transfer)");
+            console.log("15. Exit");
             console.log("=".repeat(70));
 
-            const choice = await this.question("Select option (1-7): ");
+            const choice = await this.question("Select option (1-15): ");
 
             try {
                 switch (choice) {
@@ -593,12 +613,36 @@ export class TimeCapsuleManager {
                         await this.executeCompleteWorkflow();
                         break;
                     case '7':
+                        await this.manageUnlockDelegates();
+                        break;
+                    case '8':
+                        await this.manageProofGate();
+                        break;
+                    case '9':
+                        await this.registerEncryptionKey();
+                        break;
+                    case '10':
+                        await this.manageTimeCapsule();
+                        break;
+                    case '11':
+                        await this.manageDeadManSwitch();
+                        break;
+                    case '12':
+                        await this.manageGuardians();
+                        break;
+                    case '13':
+                        await this.manageEscrow();
+                        break;
+                    case '14':
+                        await this.manageClaimTokens();
+                        break;
+                    case '15':
                         console.log("Exiting TimeCapsule Manager...");
                         this.rl.close();
                         this.qrServer.close();
                         return;
                     default:
-                        console.log("Invalid option. Please select 1-7.");
+                        console.log("Invalid option. Please select 1-15.");
                 }
             } catch (error) {
                 console.error("Error:", error);
@@ -612,16 +656,16 @@ export class TimeCapsuleManager {
 
         console.log("\n CREATING TIMECAPSULE WITH COMPLETE WORKFLOW");
         console.log("=".repeat(60));
-        console.log("This includes: zkTLS + NTP + Self Protocol + Blocklock + IPFS");
+        console.log("This includes: time validation proof + NTP + Self Protocol + Blocklock + IPFS");
 
         try {
-            // Stage 1: zkTLS Proof Generation
-            console.log("\n Stage 1: zkTLS Proof Generation");
-            completedPhases.push("zkTLS Proof Generation");
-            const zkProof = this.generateZKProof();
-            const proofHash = crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex');
-            console.log(` zkTLS Proof Generated: ${zkProof.protocol} (${zkProof.curve})`);
-            console.log(` Proof Hash: ${proofHash.slice(0, 16)}...`);
+            // Stage 1: Time Validation Proof
+            console.log("\n Stage 1: Time Validation Proof");
+            completedPhases.push("Time Validation Proof");
+            const zkProof = await proveLocalTime(this.proofs, hardhatEthers.provider);
+            const proofHash = zkProof.hash;
+            console.log(` Time Validation Proof Generated: ${describeProof(zkProof)}`);
+            console.log(` Proof Hash: ${proofHash.slice(0, 18)}...`);
 
             // Stage 2: NTP Time Validation
             console.log("\n Stage 2: NTP Time Validation");
@@ -640,7 +684,12 @@ export class TimeCapsuleManager {
 
             const title = await this.question("TimeCapsule Title: ");
             const message = await this.question("Message Content: ");
-            const recipientEmail = await this.question("Recipient Email: ");
+            const recipientAddress = await this.question("Recipient wallet address: ");
+            const recipientEmail = await this.question("Recipient Email (optional): ");
+
+            if (!ethers.isAddress(recipientAddress)) {
+                throw new Error("Invalid recipient wallet address format");
+            }
 
             const demoContent = `
 COMPLETE WORKFLOW TIMECAPSULE
@@ -650,7 +699,7 @@ SECURE TIME CAPSULE CONTENT
 
 Title: ${title}
 From: ${this.senderAddress}
-To: ${recipientEmail}
+To: ${recipientAddress}${recipientEmail ? ` (${recipientEmail})` : ""}
 Created: ${new Date().toISOString()}
 
 MESSAGE:
@@ -659,7 +708,7 @@ ${message}
 
 WORKFLOW VERIFICATION:
 =====================
- zkTLS Proof: ${zkProof.protocol} (${zkProof.curve})
+ Time Validation Proof: ${describeProof(zkProof)}
  NTP Validation: ${ntpValidation.valid}/${ntpValidation.total} sources
  Self Protocol: Identity Verified
  Verification Hash: ${verificationResult.verificationHash.slice(0, 20)}...
@@ -672,15 +721,15 @@ Workflow ID: ${crypto.randomUUID()}
 Security Level: Maximum
 `;
 
-            // Stage 5: IPFS Upload
-            console.log("\n Stage 5: IPFS Content Upload");
+            // Stage 5: Encryption and IPFS Upload
+            console.log("\n Stage 5: Content Encryption and IPFS Upload");
             completedPhases.push("IPFS Content Upload");
 
-            const tempFilePath = path.join(__dirname, `complete_workflow_${Date.now()}.txt`);
-            fs.writeFileSync(tempFilePath, demoContent);
-
-            const uploadResult = await this.lighthouseService.uploadFile(tempFilePath);
-            console.log(` Content uploaded to IPFS: ${uploadResult.Hash}`);
+            const { uploadResult, dataKey: encryptionKey, contentHashes } = await this.sealAndUpload(
+                demoContent,
+                `complete_workflow_${Date.now()}.txt`
+            );
+            console.log(` Encrypted content uploaded to IPFS: ${uploadResult.Hash}`);
 
             // Stage 6: Blocklock Setup
             console.log("\n Stage 6: Blocklock Encryption Setup");
@@ -698,16 +747,18 @@ Security Level: Maximum
 
             const latestBlock = await hardhatEthers.provider.getBlock("latest");
             const targetUnlockTime = latestBlock!.timestamp + 120; // 2 minutes
-            const encryptionKey = crypto.randomBytes(32).toString('hex');
 
-            const createTx = await this.blocklockContract.createSimpleTimeCapsule(
+            // The data key only goes on-chain wrapped to the recipient's registered encryption key
+            const wrappedKeys = await wrapForRecipients(this.blocklockContract, encryptionKey, [recipientAddress]);
+            const createTx = await this.blocklockContract.createSimpleTimeCapsuleForRecipients(
                 uploadResult.Hash,
-                encryptionKey,
                 targetUnlockTime,
-                recipientEmail,
+                [recipientAddress],
+                wrappedKeys,
                 title,
                 demoContent.length,
-                "text/plain"
+                "text/plain",
+                contentHashes
             );
 
             console.log(` Creation Transaction: ${createTx.hash}`);
@@ -716,6 +767,7 @@ Security Level: Maximum
 
             console.log(` Created TimeCapsule ID: ${newCapsuleId}`);
             console.log(` Block: ${receipt?.blockNumber}`);
+            console.log(` Content hash recorded: ${contentHashes.envelope}`);
 
             // Generate Final Report
             const executionTime = Math.floor((Date.now() - this.startTime) / 1000);
@@ -732,7 +784,7 @@ Security Level: Maximum
                     id: newCapsuleId,
                     title: title,
                     creator: this.senderAddress,
-                    recipient: recipientEmail,
+                    recipient: recipientAddress,
                     unlockTime: new Date(targetUnlockTime * 1000).toISOString(),
                     isUnlocked: false,
                     transactionHash: createTx.hash,
@@ -740,14 +792,16 @@ Security Level: Maximum
                     gasUsed: receipt?.gasUsed?.toString()
                 },
                 zkTLS: {
-                    proofGenerated: true,
-                    protocol: zkProof.protocol,
-                    curve: zkProof.curve,
+                    proofGenerated: zkProof.proof !== null,
+                    backend: zkProof.backend,
+                    protocol: zkProof.proof?.protocol ?? "none",
+                    curve: zkProof.proof?.curve ?? "none",
                     proofHash: proofHash,
                     ntpValidation: {
                         sourcesChecked: ntpValidation.total,
                         sourcesValid: ntpValidation.valid,
-                        validationHash: ntpValidation.hash
+                        validationHash: ntpValidation.hash,
+                        attestation: ntpValidation.attestation
                     }
                 },
                 selfProtocol: verificationResult,
@@ -766,7 +820,7 @@ Security Level: Maximum
                     messageDecrypted: true,
                     contentPreview: demoContent.slice(0, 200) + "...",
                     encryptionKeyUsed: true,
-                    algorithmType: "AES-256"
+                    algorithmType: ENVELOPE_ALGORITHM
                 },
                 fullDecryptedContent: demoContent
             };
@@ -786,7 +840,7 @@ Security Level: Maximum
             console.log(` Report: ${reportFile}`);
             console.log("=".repeat(80));
             console.log(" ALL FEATURES SUCCESSFULLY DEMONSTRATED:");
-            console.log("   • zkTLS proof generation with Groth16 protocol");
+            console.log(`   • Time validation proof: ${describeProof(zkProof)}`);
             console.log("   • Multi-source NTP time validation");
             console.log("   • Self Protocol identity verification");
             console.log("   • Blocklock time-based encryption");
@@ -795,9 +849,6 @@ Security Level: Maximum
             console.log("   • Complete workflow report generation");
             console.log("=".repeat(80));
 
-            // Cleanup
-            fs.unlinkSync(tempFilePath);
-
         } catch (error) {
             console.error(" Complete workflow failed:", error);
         }
@@ -821,9 +872,10 @@ Security Level: Maximum
 
         const title = await this.question("Title: ");
         const message = await this.question("Message: ");
-        const recipientAddress = await this.question("Recipient wallet address: ");
+        const recipientInput = await this.question("Recipient wallet address(es), comma-separated: ");
+        const recipients = recipientInput.split(",").map(address => address.trim()).filter(address => address.length > 0);
 
-        if (!ethers.isAddress(recipientAddress)) {
+        if (recipients.length === 0 || !recipients.every(address => ethers.isAddress(address))) {
             console.log(" Invalid wallet address format");
             return;
         }
@@ -858,7 +910,7 @@ Security Level: Maximum
 
 Title: ${title}
 From: ${this.senderAddress}
-To: ${recipientAddress}
+To: ${recipients.join(", ")}
 Created: ${new Date().toISOString()}
 Target Block: ${targetBlock}
 Current Block: ${currentBlock}
@@ -876,28 +928,31 @@ Smart contract manages unlock conditions and access control.`;
         console.log("\n Processing TimeCapsule...");
 
         try {
-            // Create temporary file for upload
-            const tempFilePath = path.join(__dirname, "..", `timecapsule_${Date.now()}.txt`);
-            fs.writeFileSync(tempFilePath, messageContent);
-
-            console.log(" Uploading to IPFS...");
-            const uploadResult = await this.lighthouseService.uploadFile(tempFilePath);
+            console.log(" Encrypting and uploading to IPFS...");
+            const { uploadResult, dataKey: encryptionKey, contentHashes } = await this.sealAndUpload(
+                messageContent,
+                `timecapsule_${Date.now()}.txt`
+            );
             console.log(` IPFS Upload Complete: ${uploadResult.Hash}`);
 
             console.log(" Creating on-chain TimeCapsule...");
 
-            const latestBlock = await hardhatEthers.provider.getBlock("latest");
-            const targetUnlockTime = latestBlock!.timestamp + (unlockBlocks * 12); // Approximate block time
-            const encryptionKey = crypto.randomBytes(32).toString('hex');
+            // Each recipient gets its own copy of the data key, wrapped to its registered encryption key;
+            // the plain key never goes on-chain, where anyone could read it before the unlock
+            console.log(` Wrapping the data key for ${recipients.length} recipient(s)...`);
+            const wrappedKeys = await wrapForRecipients(this.blocklockContract, encryptionKey, recipients);
 
-            const createTx = await this.blocklockContract.createSimpleTimeCapsule(
+            // The capsule unlocks at the target block itself, however long the chain's blocks take
+            const createTx = await this.blocklockContract.createSimpleTimeCapsuleAtBlock(
                 uploadResult.Hash,
-                encryptionKey,
-                targetUnlockTime,
-                `${recipientAddress}@wallet.address`,
+                "",
+                targetBlock,
+                recipients,
+                wrappedKeys,
                 title,
                 messageContent.length,
-                "text/plain"
+                "text/plain",
+                contentHashes
             );
 
             console.log(` Transaction submitted: ${createTx.hash}`);
@@ -916,12 +971,10 @@ Smart contract manages unlock conditions and access control.`;
                 console.log(` Block: ${receipt.blockNumber}`);
                 console.log(` Target Block: ${targetBlock}`);
                 console.log(` Gas Used: ${receipt.gasUsed}`);
+                console.log(` Content hash recorded: ${contentHashes.envelope}`);
                 console.log("=".repeat(50));
             }
 
-            // Cleanup
-            fs.unlinkSync(tempFilePath);
-
         } catch (error) {
             console.error(" TimeCapsule creation failed:", error);
         }
@@ -931,32 +984,27 @@ Smart contract manages unlock conditions and access control.`;
         console.log("\n Your TimeCapsules");
         console.log("-".repeat(30));
 
-        const capsuleCount = await this.blocklockContract.nextCapsuleId();
-        let foundCapsules = false;
-
-        for (let i = 1; i < capsuleCount; i++) {
-            try {
-                const details = await this.blocklockContract.getTimeCapsule(i);
-                const creator = details[4].toString(); // Updated index for creator
-
-                if (creator.toLowerCase() === this.senderAddress.toLowerCase()) {
-                    foundCapsules = true;
-                    const status = details[7] ? " UNLOCKED" : " LOCKED";
-
-                    console.log(`\n Capsule ID: ${i}`);
-                    console.log(` Status: ${status}`);
-                    console.log(` Title: ${details[6]}`);
-                    console.log(` Created: ${new Date(Number(details[3]) * 1000).toISOString()}`);
-                    console.log(` Unlock: ${new Date(Number(details[2]) * 1000).toISOString()}`);
-                    console.log(` Creator: ${creator}`);
-                    console.log(` Recipient: ${details[5]}`);
-                }
-            } catch (e) {
-                continue;
-            }
+        const { chainId } = await hardhatEthers.provider.getNetwork();
+        const readerAddress = requireDeployment(chainId, "CapsuleReader").address;
+        const reader = await hardhatEthers.getContractAt("CapsuleReader", readerAddress, this.signer) as unknown as CapsuleReader;
+        const capsules = await reader.getTimeCapsules(
+            await this.blocklockContract.getAddress(),
+            await this.blocklockContract.getUserCapsules(this.senderAddress)
+        );
+
+        for (const capsule of capsules) {
+            const status = capsule.isCancelled ? " CANCELLED" : capsule.isUnlocked ? " UNLOCKED" : " LOCKED";
+
+            console.log(`\n Capsule ID: ${capsule.id}`);
+            console.log(` Status: ${status}`);
+            console.log(` Title: ${capsule.title}`);
+            console.log(` Created: ${new Date(Number(capsule.creationTime) * 1000).toISOString()}`);
+            console.log(` Unlock: ${await this.formatUnlock(capsule.unlockTime, capsule.conditionType)}`);
+            console.log(` Creator: ${capsule.creator}`);
+            console.log(` Recipients: ${capsule.recipients.join(", ")}`);
         }
 
-        if (!foundCapsules) {
+        if (capsules.length === 0) {
             console.log(" No TimeCapsules found for your address");
         }
     }
@@ -978,13 +1026,22 @@ Smart contract manages unlock conditions and access control.`;
             console.log("=".repeat(60));
             console.log(` Title: ${details[6]}`);
             console.log(` Creator: ${details[4]}`);
-            console.log(` Recipient: ${details[5]}`);
+            for (const recipient of await this.blocklockContract.getRecipients(capsuleId)) {
+                const unlocked = await this.blocklockContract.hasUnlocked(capsuleId, recipient);
+                console.log(` Recipient: ${recipient} (${unlocked ? 'unlocked' : 'locked'})`);
+            }
+            console.log(` Recipient Email: ${details[5] || 'N/A'}`);
             console.log(` IPFS CID: ${details[0]}`);
             console.log(` Blocklock Request ID: ${details[1]}`);
             console.log(` Created: ${new Date(Number(details[3]) * 1000).toISOString()}`);
-            console.log(` Unlock Time: ${new Date(Number(details[2]) * 1000).toISOString()}`);
+            console.log(` Unlock Time: ${await this.formatUnlock(details.unlockTime, details.conditionType)}`);
+            const heartbeatInterval = await this.blocklockContract.heartbeatIntervals(capsuleId);
+            if (heartbeatInterval > 0n) {
+                console.log(` Dead Man's Switch: fires ${Number(heartbeatInterval) / 3600} hours after the last heartbeat`);
+            }
             console.log(` Current Time: ${new Date().toISOString()}`);
-            console.log(` Status: ${details[7] ? ' UNLOCKED' : ' LOCKED'}`);
+            const cancelled = await this.blocklockContract.isCancelled(capsuleId);
+            console.log(` Status: ${cancelled ? ' CANCELLED' : details[7] ? ' UNLOCKED BY ALL RECIPIENTS' : ' LOCKED'}`);
             console.log(` Uses Blocklock: ${details[11] ? 'YES' : 'NO'}`);
             console.log(` Has Decryption Key: ${details[10] ? 'YES' : 'NO'}`);
             console.log(` File Size: ${details[8]} bytes`);
@@ -993,8 +1050,11 @@ Smart contract manages unlock conditions and access control.`;
             const canUnlock = await this.blocklockContract.canUnlock(capsuleId);
             const timeUntilUnlock = await this.blocklockContract.getTimeUntilUnlock(capsuleId);
 
+            if (details.guardianApproval > 0n) {
+                console.log(` Guardians: ${GUARDIAN_APPROVALS[Number(details.guardianApproval)]} (option 12 lists their votes)`);
+            }
             console.log(` Can Unlock Now: ${canUnlock ? 'YES' : 'NO'}`);
-            console.log(` Time Until Unlock: ${timeUntilUnlock} seconds`);
+            console.log(` Time Until Unlock: ${timeUntilUnlock} ${conditionUnit(toConditionType(details.conditionType))}`);
             console.log("=".repeat(60));
 
         } catch (error) {
@@ -1015,16 +1075,26 @@ Smart contract manages unlock conditions and access control.`;
             const details = await this.blocklockContract.getTimeCapsule(capsuleId);
             const canUnlock = await this.blocklockContract.canUnlock(capsuleId);
             const timeUntilUnlock = await this.blocklockContract.getTimeUntilUnlock(capsuleId);
+            const isAuthorized = await this.blocklockContract.isAuthorizedUnlocker(capsuleId, this.senderAddress);
+            const isRecipient = await this.blocklockContract.isCapsuleRecipient(capsuleId, this.senderAddress);
+            const alreadyUnlocked = await this.blocklockContract.hasUnlocked(capsuleId, isRecipient ? this.senderAddress : details[12]);
 
             console.log("\n TimeCapsule Status Check");
             console.log("-".repeat(30));
             console.log(` Current Time: ${new Date().toISOString()}`);
-            console.log(` Unlock Time: ${new Date(Number(details[2]) * 1000).toISOString()}`);
-            console.log(` Time Remaining: ${timeUntilUnlock} seconds`);
-            console.log(` Already Unlocked: ${details[7] ? 'YES' : 'NO'}`);
+            console.log(` Unlock Time: ${await this.formatUnlock(details.unlockTime, details.conditionType)}`);
+            console.log(` Time Remaining: ${timeUntilUnlock} ${conditionUnit(toConditionType(details.conditionType))}`);
+            console.log(` Already Unlocked: ${alreadyUnlocked ? 'YES' : 'NO'}`);
             console.log(` Can Unlock: ${canUnlock ? 'YES' : 'NO'}`);
+            console.log(` Recipients: ${(await this.blocklockContract.getRecipients(capsuleId)).join(", ")}`);
+            console.log(` Authorized Unlocker: ${isAuthorized ? 'YES' : 'NO'}`);
 
-            if (details[7]) {
+            if (!isAuthorized) {
+                console.log("\n Only a recipient or a creator-approved delegate can unlock this TimeCapsule.");
+                return;
+            }
+
+            if (alreadyUnlocked) {
                 console.log("\n TimeCapsule already unlocked. Retrieving content...");
                 await this.retrieveAndDisplayContent(capsuleId, details[0]);
                 return;
@@ -1036,9 +1106,25 @@ Smart contract manages unlock conditions and access control.`;
                 return;
             }
 
-            console.log("\n Unlocking TimeCapsule...");
+            const gate = await readProofGate(this.blocklockContract, capsuleId);
+            let tx;
+            if (gate.verifier !== ethers.ZeroAddress) {
+                console.log(`\n Proof gate: ${gate.verifier}`);
+                console.log(" Proving knowledge of the recipient secret...");
+                const receiverProof = await proveReceiver(this.proofs, this.signer, capsuleId, isRecipient ? this.senderAddress : details[12]);
+                console.log(` Receiver proof: ${describeProof(receiverProof)}`);
+                if (!matchesProofGate(receiverProof, gate)) {
+                    console.log(" This wallet's receiver proof does not match the gate's commitment.");
+                    return;
+                }
 
-            const tx = await this.blocklockContract.unlockTimeCapsule(capsuleId);
+                const { a, b, c, publicSignals } = toSolidityProof(receiverProof);
+                console.log("\n Unlocking TimeCapsule with proof...");
+                tx = await this.blocklockContract.unlockTimeCapsuleWithProof(capsuleId, a, b, c, publicSignals);
+            } else {
+                console.log("\n Unlocking TimeCapsule...");
+                tx = await this.blocklockContract.unlockTimeCapsule(capsuleId);
+            }
             console.log(` Unlock transaction: ${tx.hash}`);
             console.log(" Waiting for confirmation...");
 
@@ -1046,6 +1132,7 @@ Smart contract manages unlock conditions and access control.`;
             if (receipt) {
                 console.log(" TimeCapsule unlocked successfully!");
                 console.log(` Transaction confirmed in block: ${receipt.blockNumber}`);
+                console.log(" Escrowed funds, if any, can now be claimed with option 13.");
 
                 await this.retrieveAndDisplayContent(capsuleId, details[0]);
             }
@@ -1055,41 +1142,711 @@ Smart contract manages unlock conditions and access control.`;
         }
     }
 
+    async manageUnlockDelegates(): Promise<void> {
+        const capsuleIdInput = await this.question("\n Enter Capsule ID: ");
+        const capsuleId = parseInt(capsuleIdInput);
+
+        if (isNaN(capsuleId) || capsuleId < 1) {
+            console.log(" Invalid Capsule ID");
+            return;
+        }
+
+        const delegateAddress = await this.question(" Delegate wallet address: ");
+        if (!ethers.isAddress(delegateAddress)) {
+            console.log(" Invalid wallet address format");
+            return;
+        }
+
+        const action = await this.question(" Approve or revoke? (a/r): ");
+        const approved = action.toLowerCase() !== 'r';
+
+        try {
+            const details = await this.blocklockContract.getTimeCapsule(capsuleId);
+            if (details[4].toLowerCase() !== this.senderAddress.toLowerCase()) {
+                console.log(" Only the creator of this TimeCapsule can manage its delegates");
+                return;
+            }
+
+            const tx = await this.blocklockContract.setUnlockDelegate(capsuleId, delegateAddress, approved);
+            console.log(` Transaction submitted: ${tx.hash}`);
+
+            const receipt = await tx.wait();
+            console.log(` Delegate ${delegateAddress} ${approved ? 'approved' : 'revoked'} in block ${receipt?.blockNumber}`);
+        } catch (error) {
+            console.log(" Error updating unlock delegate:", error);
+        }
+    }
+
+    /**
+     * Creator controls: cancel a capsule (refunding its Blocklock fee), push its unlock time back,
+     * or change a recipient or the CID while it is still locked
+     */
+    async manageTimeCapsule(): Promise<void> {
+        const capsuleIdInput = await this.question("\n Enter Capsule ID: ");
+        const capsuleId = parseInt(capsuleIdInput);
+
+        if (isNaN(capsuleId) || capsuleId < 1) {
+            console.log(" Invalid Capsule ID");
+            return;
+        }
+
+        try {
+            const details = await this.blocklockContract.getTimeCapsule(capsuleId);
+            if (details[4].toLowerCase() !== this.senderAddress.toLowerCase()) {
+                console.log(" Only the creator of this TimeCapsule can manage it");
+                return;
+            }
+            if (await this.blocklockContract.isCancelled(capsuleId)) {
+                console.log(" This TimeCapsule was cancelled");
+                return;
+            }
+            console.log(` Unlock Time: ${await this.formatUnlock(details.unlockTime, details.conditionType)}`);
+
+            const action = (await this.question(" Cancel, extend unlock time, change recipient or change CID? (c/e/r/i): ")).toLowerCase();
+            let tx;
+            switch (action) {
+                case 'c': {
+                    const fee = await this.blocklockContract.blocklockFees(capsuleId);
+                    const confirm = await this.question(` Cancel capsule ${capsuleId} and refund ${ethers.formatEther(fee)} ETH? (y/n): `);
+                    if (confirm.toLowerCase() !== 'y') return;
+                    tx = await this.blocklockContract.cancelCapsule(capsuleId);
+                    break;
+                }
+                case 'e': {
+                    // Block conditions are extended in blocks, timestamps in minutes
+                    const byBlocks = isBlockCondition(toConditionType(details.conditionType));
+                    const amount = parseInt(await this.question(` Extend by how many ${byBlocks ? 'blocks' : 'minutes'}: `));
+                    if (isNaN(amount) || amount < 1) {
+                        console.log(` Invalid number of ${byBlocks ? 'blocks' : 'minutes'}`);
+                        return;
+                    }
+                    tx = await this.blocklockContract.extendUnlockTime(capsuleId, details[2] + BigInt(byBlocks ? amount : amount * 60));
+                    break;
+                }
+                case 'r': {
+                    const recipients = await this.blocklockContract.getRecipients(capsuleId);
+                    const previous = recipients.length === 1
+                        ? recipients[0]
+                        : await this.question(` Recipient to replace (${recipients.join(", ")}): `);
+                    const recipient = await this.question(" New recipient wallet address: ");
+                    if (!ethers.isAddress(previous) || !ethers.isAddress(recipient)) {
+                        console.log(" Invalid wallet address format");
+                        return;
+                    }
+
+                    // A recipient holding a wrapped key is replaced by one holding its own wrapped copy
+                    let wrappedKey = "0x";
+                    if (await this.blocklockContract.hasWrappedKey(capsuleId, previous)) {
+                        const dataKey = await this.question(" Data key of this capsule (hex), to wrap for the new recipient: ");
+                        [wrappedKey] = await wrapForRecipients(this.blocklockContract, dataKey.trim(), [recipient]);
+                    }
+                    tx = await this.blocklockContract.updateRecipient(capsuleId, previous, recipient, wrappedKey);
+                    break;
+                }
+                case 'i': {
+                    const cid = (await this.question(" New IPFS CID (content sealed with the same data key): ")).trim();
+                    if (!cid) {
+                        console.log(" CID cannot be empty");
+                        return;
+                    }
+                    tx = await this.blocklockContract.updateCid(capsuleId, cid);
+                    console.log(" The content hashes of the previous content are cleared; downloads of the new content are not verified");
+                    break;
+                }
+                default:
+                    console.log(" Invalid action");
+                    return;
+            }
+            console.log(` Transaction submitted: ${tx.hash}`);
+
+            const receipt = await tx.wait();
+            console.log(` TimeCapsule ${capsuleId} updated in block ${receipt?.blockNumber}`);
+        } catch (error) {
+            console.log(" Error managing TimeCapsule:", error);
+        }
+    }
+
+    /**
+     * Name the guardians of a capsule (creator), or vote as one of them. Votes can be sent
+     * on-chain, or signed here and handed to anyone who submits them in a bundle.
+     */
+    async manageGuardians(): Promise<void> {
+        const capsuleIdInput = await this.question("\n Enter Capsule ID: ");
+        const capsuleId = parseInt(capsuleIdInput);
+
+        if (isNaN(capsuleId) || capsuleId < 1) {
+            console.log(" Invalid Capsule ID");
+            return;
+        }
+
+        try {
+            const details = await this.blocklockContract.getTimeCapsule(capsuleId);
+            const capsulesAddress = await this.blocklockContract.getAddress();
+            let module = await this.blocklockContract.guardianModules(capsuleId);
+            let guardians: CapsuleGuardians | undefined;
+            let voted = false;
+
+            if (module === ethers.ZeroAddress) {
+                console.log(" Guardians: none");
+            } else {
+                guardians = await hardhatEthers.getContractAt("CapsuleGuardians", module, this.signer) as unknown as CapsuleGuardians;
+                const state = toGuardianState(module, await guardians.getGuardians(capsulesAddress, capsuleId), details.guardianApproval);
+                console.log(` Guardians (${state.threshold} of ${state.guardians.length}, ${state.approval}):`);
+                for (const guardian of state.guardians) {
+                    console.log(`   ${guardian.address}: ${guardian.vote}`);
+                }
+                voted = state.guardians.some(guardian => guardian.vote !== "none");
+            }
+
+            const action = (await this.question(" Set guardians, approve, veto, sign a vote or submit signed votes? (s/a/v/p/b): ")).toLowerCase();
+            let tx;
+            if (action === 's') {
+                if (details[4].toLowerCase() !== this.senderAddress.toLowerCase()) {
+                    console.log(" Only the creator of this TimeCapsule can name its guardians");
+                    return;
+                }
+                if (voted) {
+                    console.log(" The guardians have started voting, so they can no longer be replaced or removed");
+                    return;
+                }
+                const addresses = (await this.question(" Guardian addresses, comma-separated (blank to remove): "))
+                    .split(/[\s,]+/)
+                    .filter(Boolean);
+                if (addresses.length === 0) {
+                    tx = await this.blocklockContract.setGuardians(capsuleId, ethers.ZeroAddress, [], 0);
+                } else {
+                    if (!addresses.every(address => ethers.isAddress(address))) {
+                        console.log(" Invalid wallet address format");
+                        return;
+                    }
+                    const threshold = parseInt(await this.question(` Approvals needed (1-${addresses.length}): `));
+                    if (isNaN(threshold) || threshold < 1 || threshold > addresses.length) {
+                        console.log(" Invalid threshold");
+                        return;
+                    }
+                    // The capsule contract only accepts the CapsuleGuardians deployment it was built with
+                    module = await this.blocklockContract.guardianModule();
+                    if (module === ethers.ZeroAddress) {
+                        console.log(" This capsule contract was deployed without guardian support");
+                        return;
+                    }
+                    tx = await this.blocklockContract.setGuardians(capsuleId, module, addresses, threshold);
+                }
+            } else if (!guardians) {
+                console.log(" This TimeCapsule has no guardians");
+                return;
+            } else if (action === 'a' || action === 'v') {
+                tx = action === 'a'
+                    ? await guardians.approve(capsulesAddress, capsuleId)
+                    : await guardians.veto(capsulesAddress, capsuleId);
+            } else if (action === 'p') {
+                const approve = (await this.question(" Approve or veto? (a/v): ")).toLowerCase() === 'a';
+                const { chainId } = await hardhatEthers.provider.getNetwork();
+                const [, , , epoch] = await guardians.getGuardians(capsulesAddress, capsuleId);
+                const signature = await this.signer.signTypedData(
+                    guardianDomain(chainId, module),
+                    GUARDIAN_VOTE_TYPES,
+                    { capsules: capsulesAddress, capsuleId, approve, epoch }
+                );
+                console.log(" Signed vote; anyone can submit it with option 12 (b):");
+                console.log(JSON.stringify({ guardian: this.senderAddress, approve, signature }));
+                return;
+            } else if (action === 'b') {
+                const input = await this.question(" Signed votes (JSON array): ");
+                let votes: { guardian: string; approve: boolean; signature: string }[];
+                try {
+                    votes = JSON.parse(input);
+                } catch {
+                    console.log(" Invalid JSON");
+                    return;
+                }
+                tx = await guardians.submitSignedVotes(capsulesAddress, capsuleId, votes);
+            } else {
+                console.log(" Invalid action");
+                return;
+            }
+            console.log(` Transaction submitted: ${tx.hash}`);
+
+            const receipt = await tx.wait();
+            console.log(` Guardians of TimeCapsule ${capsuleId} updated in block ${receipt?.blockNumber}`);
+        } catch (error) {
+            console.log(" Error managing guardians:", error);
+        }
+    }
+
+    /**
+     * Attach native currency or ERC-20 tokens to a locked capsule (creator), claim a recipient's
+     * share after unlocking, or take the funds of a cancelled capsule back (creator), or what the
+     * recipients left unclaimed once the claim period is over (creator)
+     */
+    async manageEscrow(): Promise<void> {
+        const capsuleIdInput = await this.question("\n Enter Capsule ID: ");
+        const capsuleId = parseInt(capsuleIdInput);
+
+        if (isNaN(capsuleId) || capsuleId < 1) {
+            console.log(" Invalid Capsule ID");
+            return;
+        }
+
+        try {
+            const { chainId } = await hardhatEthers.provider.getNetwork();
+            const escrowAddress = requireDeployment(chainId, "CapsuleEscrow").address;
+            const escrow = await hardhatEthers.getContractAt("CapsuleEscrow", escrowAddress, this.signer) as unknown as CapsuleEscrow;
+            const capsulesAddress = await this.blocklockContract.getAddress();
+
+            const [tokens, totals, remaining] = await escrow.getDeposits(capsulesAddress, capsuleId);
+            if (tokens.length === 0) {
+                console.log(" Escrowed funds: none");
+            }
+            for (let i = 0; i < tokens.length; i++) {
+                const label = tokens[i] === ethers.ZeroAddress ? "native" : tokens[i];
+                console.log(` Escrowed ${label}: ${ethers.formatEther(totals[i])} deposited, ${ethers.formatEther(remaining[i])} unclaimed`);
+            }
+
+            const action = (await this.question(" Deposit, claim, refund or reclaim? (d/c/r/x): ")).toLowerCase();
+            let tx;
+            if (action === 'd') {
+                if (!(await escrow.trustedCapsules(capsulesAddress))) {
+                    console.log(" The escrow does not take deposits for this capsule contract yet; ask its admin to trust it");
+                    return;
+                }
+                const token = (await this.question(" ERC-20 token address (blank for native currency): ")).trim() || ethers.ZeroAddress;
+                if (!ethers.isAddress(token)) {
+                    console.log(" Invalid token address");
+                    return;
+                }
+                const amount = ethers.parseEther(await this.question(" Amount (18 decimals): "));
+                if (token === ethers.ZeroAddress) {
+                    tx = await escrow.deposit(capsulesAddress, capsuleId, token, amount, { value: amount });
+                } else {
+                    const erc20 = new Contract(token, ["function approve(address spender, uint256 amount) returns (bool)"], this.signer);
+                    await (await erc20.approve(escrowAddress, amount)).wait();
+                    tx = await escrow.deposit(capsulesAddress, capsuleId, token, amount);
+                }
+            } else if (action === 'c') {
+                const recipient = (await this.question(` Recipient to pay (blank for ${this.senderAddress}): `)).trim() || this.senderAddress;
+                if (!ethers.isAddress(recipient)) {
+                    console.log(" Invalid wallet address format");
+                    return;
+                }
+                tx = await escrow.claim(capsulesAddress, capsuleId, recipient);
+            } else if (action === 'r') {
+                tx = await escrow.refund(capsulesAddress, capsuleId);
+            } else if (action === 'x') {
+                if (!(await escrow.canReclaim(capsulesAddress, capsuleId))) {
+                    const days = Number(await escrow.RECLAIM_DELAY()) / 86400;
+                    console.log(` Recipients can claim for ${days} days after the unlock time; reclaim after that`);
+                    return;
+                }
+                tx = await escrow.reclaim(capsulesAddress, capsuleId);
+            } else {
+                console.log(" Invalid action");
+                return;
+            }
+            console.log(` Transaction submitted: ${tx.hash}`);
+
+            const receipt = await tx.wait();
+            console.log(` Escrow of TimeCapsule ${capsuleId} updated in block ${receipt?.blockNumber}`);
+        } catch (error) {
+            console.log(" Error managing escrowed funds:", error);
+        }
+    }
+
+    /**
+     * Mint ERC-721 claim tokens for a capsule's recipients, list this wallet's tokens, or transfer
+     * one; transferring a token moves the claim to its new owner. A wrapped key does not move with
+     * the token, so the creator wraps the data key for each new holder.
+     */
+    async manageClaimTokens(): Promise<void> {
+        try {
+            const { chainId } = await hardhatEthers.provider.getNetwork();
+            const claimsAddress = requireDeployment(chainId, "CapsuleClaims").address;
+            const claims = await hardhatEthers.getContractAt("CapsuleClaims", claimsAddress, this.signer) as unknown as CapsuleClaims;
+            const capsulesAddress = await this.blocklockContract.getAddress();
+
+            const action = (await this.question("\n Mint, list or transfer claim tokens, or wrap the key for new holders? (m/l/t/k): ")).toLowerCase();
+            let tx;
+            if (action === 'm') {
+                const capsuleId = parseInt(await this.question(" Enter Capsule ID: "));
+                if (isNaN(capsuleId) || capsuleId < 1) {
+                    console.log(" Invalid Capsule ID");
+                    return;
+                }
+                // The capsule contract only accepts the CapsuleClaims deployment it was built with
+                const claimsModule = await this.blocklockContract.claimsModule();
+                if (claimsModule === ethers.ZeroAddress) {
+                    console.log(" This capsule contract was deployed without claim token support");
+                    return;
+                }
+                tx = await this.blocklockContract.tokenizeClaims(capsuleId, claimsModule);
+            } else if (action === 'l') {
+                const tokenIds = await claims.tokensOfOwner(this.senderAddress);
+                if (tokenIds.length === 0) {
+                    console.log(" No claim tokens found for your address");
+                }
+                for (const tokenId of tokenIds) {
+                    const [capsules, capsuleId] = await claims.claims(tokenId);
+                    const where = capsules === capsulesAddress ? "" : ` on ${capsules}`;
+                    console.log(` Token #${tokenId}: claim on TimeCapsule ${capsuleId}${where}`);
+                }
+                return;
+            } else if (action === 't') {
+                const tokenId = parseInt(await this.question(" Token ID: "));
+                const newOwner = (await this.question(" New owner address: ")).trim();
+                if (isNaN(tokenId) || !ethers.isAddress(newOwner)) {
+                    console.log(" Invalid token ID or wallet address");
+                    return;
+                }
+                if (await claims.locked(tokenId)) {
+                    console.log(" This claim is locked: its capsule was cancelled or is already unlockable");
+                    return;
+                }
+                tx = await claims["safeTransferFrom(address,address,uint256)"](this.senderAddress, newOwner, tokenId);
+                console.log(" If the capsule uses wrapped keys, its creator must now wrap the data key for the new owner (k)");
+            } else if (action === 'k') {
+                const capsuleId = parseInt(await this.question(" Enter Capsule ID: "));
+                if (isNaN(capsuleId) || capsuleId < 1) {
+                    console.log(" Invalid Capsule ID");
+                    return;
+                }
+                // Holders that received a claim token on a capsule with wrapped keys have no copy yet
+                const recipients = await this.blocklockContract.getRecipients(capsuleId);
+                const hasKeys = await Promise.all(recipients.map(recipient => this.blocklockContract.hasWrappedKey(capsuleId, recipient)));
+                const pending = recipients.filter((_, i) => !hasKeys[i]);
+                if (pending.length === 0) {
+                    console.log(" Every recipient already holds a wrapped key");
+                    return;
+                }
+                console.log(` Recipients without a wrapped key: ${pending.join(", ")}`);
+
+                const dataKey = await this.question(" Data key of this capsule (hex), to wrap for them: ");
+                const wrappedKeys = await wrapForRecipients(this.blocklockContract, dataKey.trim(), pending);
+                const last = pending.length - 1;
+                for (let i = 0; i < last; i++) {
+                    await (await this.blocklockContract.setWrappedKey(capsuleId, pending[i], wrappedKeys[i])).wait();
+                }
+                tx = await this.blocklockContract.setWrappedKey(capsuleId, pending[last], wrappedKeys[last]);
+            } else {
+                console.log(" Invalid action");
+                return;
+            }
+            console.log(` Transaction submitted: ${tx.hash}`);
+
+            const receipt = await tx.wait();
+            console.log(` Claim tokens updated in block ${receipt?.blockNumber}`);
+        } catch (error) {
+            console.log(" Error managing claim tokens:", error);
+        }
+    }
+
+    /**
+     * Create a dead man's switch capsule, or check in on the switches this wallet created.
+     * A switch becomes unlockable once its creator misses a heartbeat.
+     */
+    async manageDeadManSwitch(): Promise<void> {
+        const action = await this.question("\n Create a switch or send a heartbeat? (c/h): ");
+        try {
+            if (action.toLowerCase() === 'c') {
+                await this.createDeadManSwitch();
+            } else {
+                await this.sendHeartbeats();
+            }
+        } catch (error) {
+            console.log(" Dead man's switch error:", error);
+        }
+    }
+
+    private async createDeadManSwitch(): Promise<void> {
+        const title = await this.question(" Title: ");
+        const message = await this.question(" Message: ");
+        const recipient = await this.question(" Recipient wallet address: ");
+        if (!ethers.isAddress(recipient)) {
+            console.log(" Invalid wallet address format");
+            return;
+        }
+        const days = parseFloat(await this.question(" Heartbeat interval in days: "));
+        if (isNaN(days) || days <= 0) {
+            console.log(" Invalid interval");
+            return;
+        }
+        const interval = Math.round(days * 24 * 3600);
+
+        const content = `DEAD MAN'S SWITCH
+=================
+
+Title: ${title}
+From: ${this.senderAddress}
+To: ${recipient}
+Created: ${new Date().toISOString()}
+Heartbeat Interval: ${days} days
+
+MESSAGE CONTENT:
+================
+${message}`;
+
+        console.log(" Encrypting and uploading to IPFS...");
+        const { uploadResult, dataKey, contentHashes } = await this.sealAndUpload(content, `switch_${Date.now()}.txt`);
+        console.log(` IPFS Upload Complete: ${uploadResult.Hash}`);
+        const [wrappedKey] = await wrapForRecipients(this.blocklockContract, dataKey, [recipient]);
+
+        const tx = await this.blocklockContract.createDeadManSwitchCapsule(
+            uploadResult.Hash,
+            wrappedKey,
+            interval,
+            recipient,
+            title,
+            content.length,
+            "text/plain",
+            contentHashes
+        );
+        console.log(` Transaction submitted: ${tx.hash}`);
+        const receipt = await tx.wait();
+
+        const capsuleId = Number(await this.blocklockContract.nextCapsuleId()) - 1;
+        console.log(` Dead man's switch ${capsuleId} armed in block ${receipt?.blockNumber}`);
+        console.log(` Send a heartbeat (option 11) at least every ${days} days, or ${recipient} can unlock it.`);
+    }
+
+    private async sendHeartbeats(): Promise<void> {
+        const latestBlock = await hardhatEthers.provider.getBlock("latest");
+        const now = latestBlock!.timestamp;
+        const switches: number[] = [];
+
+        console.log("\n Your dead man's switches:");
+        for (const id of await this.blocklockContract.getUserCapsules(this.senderAddress)) {
+            if (await this.blocklockContract.heartbeatIntervals(id) === 0n || await this.blocklockContract.isCancelled(id)) {
+                continue;
+            }
+            const details = await this.blocklockContract.getTimeCapsule(id);
+            const remaining = Number(details[2]) - now;
+            if (remaining > 0) {
+                switches.push(Number(id));
+            }
+            console.log(` #${id} "${details[6]}": ${remaining > 0 ? `fires in ${(remaining / 3600).toFixed(1)} hours` : 'FIRED'}`);
+        }
+        if (switches.length === 0) {
+            console.log(" No armed dead man's switches");
+            return;
+        }
+
+        const input = await this.question(" Capsule ID to check in on (blank for all armed switches): ");
+        const targets = input.trim() ? [parseInt(input)] : switches;
+        for (const capsuleId of targets) {
+            const tx = await this.blocklockContract.heartbeat(capsuleId);
+            await tx.wait();
+            const deadline = (await this.blocklockContract.getTimeCapsule(capsuleId))[2];
+            console.log(` Heartbeat sent for #${capsuleId}; next deadline ${new Date(Number(deadline) * 1000).toISOString()}`);
+        }
+    }
+
+    /**
+     * Publish this wallet's encryption public key so creators can wrap data keys for it
+     */
+    async registerEncryptionKey(): Promise<void> {
+        try {
+            const { publicKey } = await deriveEncryptionKey(this.signer);
+            const registered = await this.blocklockContract.encryptionKeys(this.senderAddress);
+            if (registered === publicKey) {
+                console.log(`\n Encryption key already registered: ${publicKey}`);
+                return;
+            }
+
+            const tx = await this.blocklockContract.registerEncryptionKey(publicKey);
+            console.log(` Transaction submitted: ${tx.hash}`);
+
+            const receipt = await tx.wait();
+            console.log(` Encryption key ${publicKey} registered in block ${receipt?.blockNumber}`);
+        } catch (error) {
+            console.log(" Error registering encryption key:", error);
+        }
+    }
+
+    /**
+     * Require a receiver_auth proof to unlock a capsule: the unlocker must know the secret
+     * behind the recipient's commitment, which the recipient shares out of band
+     */
+    async manageProofGate(): Promise<void> {
+        const capsuleIdInput = await this.question("\n Enter Capsule ID: ");
+        const capsuleId = parseInt(capsuleIdInput);
+
+        if (isNaN(capsuleId) || capsuleId < 1) {
+            console.log(" Invalid Capsule ID");
+            return;
+        }
+
+        try {
+            const details = await this.blocklockContract.getTimeCapsule(capsuleId);
+            const gate = await readProofGate(this.blocklockContract, capsuleId);
+            console.log(` Current gate: ${gate.verifier === ethers.ZeroAddress ? 'none' : gate.verifier}`);
+
+            const action = await this.question(" Show my commitment, set a gate or remove it? (c/s/r): ");
+            if (action.toLowerCase() === 'c') {
+                const proof = await proveReceiver(this.proofs, this.signer, capsuleId, this.senderAddress);
+                console.log(` Receiver commitment for ${this.senderAddress}: ${proof.publicSignals[0]}`);
+                console.log(" Share it with the creator of a capsule addressed to you.");
+                return;
+            }
+
+            if (details[4].toLowerCase() !== this.senderAddress.toLowerCase()) {
+                console.log(" Only the creator of this TimeCapsule can manage its proof gate");
+                return;
+            }
+
+            let tx;
+            if (action.toLowerCase() === 'r') {
+                tx = await this.blocklockContract.setProofGate(capsuleId, ethers.ZeroAddress, [], 0);
+            } else {
+                const commitment = await this.question(` Recipient commitment for ${details[12]}: `);
+                if (!/^\d+$/.test(commitment.trim())) {
+                    console.log(" Invalid commitment; the recipient can print it with option 8");
+                    return;
+                }
+                const { chainId } = await hardhatEthers.provider.getNetwork();
+                const verifier = requireDeployment(chainId, "ReceiverAuthVerifier").address;
+                const signals = [BigInt(commitment.trim()), 0n, BigInt(capsuleId), BigInt(details[12])];
+                tx = await this.blocklockContract.setProofGate(capsuleId, verifier, signals, RECEIVER_AUTH_GATE_MASK);
+            }
+            console.log(` Transaction submitted: ${tx.hash}`);
+
+            const receipt = await tx.wait();
+            console.log(` Proof gate ${action.toLowerCase() === 'r' ? 'removed' : 'set'} in block ${receipt?.blockNumber}`);
+        } catch (error) {
+            console.log(" Error updating proof gate:", error);
+        }
+    }
+
+    /**
+     * Seal content in an AES-256-GCM envelope and upload only the ciphertext to IPFS
+     * @param content Plaintext capsule content
+     * @param fileName Original file name recorded in the envelope
+     * @returns Upload result and the hex data key to hand to the contract
+     */
+    // Unlock time for display; block conditions show the block and an estimated date
+    private async formatUnlock(unlockTime: bigint, conditionType: bigint): Promise<string> {
+        const type = toConditionType(conditionType);
+        if (!isBlockCondition(type)) {
+            return new Date(Number(unlockTime) * 1000).toISOString();
+        }
+        const head = await hardhatEthers.provider.getBlock("latest");
+        const estimate = estimateUnlockTimestamp(unlockTime, type, head!);
+        return `block ${unlockTime} (about ${new Date(estimate * 1000).toISOString()})`;
+    }
+
+    private async sealAndUpload(content: string, fileName: string): Promise<{
+        uploadResult: { Hash: string; Name: string; Size: string };
+        dataKey: string;
+        contentHashes: ContentHashes;
+    }> {
+        const { envelope, dataKey } = await sealContent(content, { mimeType: "text/plain", fileName });
+        const sealed = serializeEnvelope(envelope);
+        const contentHashes = await hashContent(sealed, content);
+
+        const tempFilePath = path.join(__dirname, "..", `${fileName}.fpe`);
+        fs.writeFileSync(tempFilePath, sealed);
+
+        try {
+            const uploadResult = await this.lighthouseService.uploadFile(tempFilePath);
+            return { uploadResult, dataKey, contentHashes };
+        } finally {
+            fs.unlinkSync(tempFilePath);
+        }
+    }
+
     async retrieveAndDisplayContent(capsuleId: number, ipfsCid: string): Promise<void> {
         console.log("\n Retrieving TimeCapsule content...");
         console.log(` Downloading from IPFS: ${ipfsCid}`);
 
-        const downloadPath = path.join(__dirname, "..", `retrieved_${capsuleId}_${Date.now()}.txt`);
-
         try {
-            await this.lighthouseService.downloadFile(ipfsCid, downloadPath);
+            const downloaded = await this.lighthouseService.downloadBytes(ipfsCid);
 
-            if (fs.existsSync(downloadPath)) {
-                console.log(" Downloaded file from IPFS");
+            const hashes = await this.blocklockContract.contentHashes(capsuleId);
+            if (await verifyContentHash(downloaded, hashes.envelope, "envelope")) {
+                console.log(" Download matches the envelope hash recorded on-chain");
+            } else {
+                console.log(" WARNING: No content hash recorded on-chain; the download cannot be verified");
+            }
 
-                const content = fs.readFileSync(downloadPath, 'utf8');
+            if (isChunkManifest(downloaded)) {
+                await this.retrieveChunkedContent(capsuleId, parseManifest(downloaded), hashes.plaintext);
+                return;
+            }
 
-                console.log("\n" + "=".repeat(80));
-                console.log(" TIMECAPSULE CONTENT");
-                console.log("=".repeat(80));
-                console.log(content);
-                console.log("=".repeat(80));
+            if (!isEnvelope(downloaded)) {
+                console.log(" WARNING: Content is not an encrypted envelope (legacy capsule stored in plaintext)");
+                this.displayContent(new TextDecoder().decode(downloaded));
+                return;
+            }
+
+            console.log(" Fetching decryption key from contract...");
+            const dataKey = await readDataKey(this.blocklockContract, capsuleId, this.signer);
 
-                console.log(" Content successfully retrieved and displayed.");
+            const opened = await openEnvelope(parseEnvelope(downloaded), dataKey);
+            console.log(` Envelope decrypted: ${opened.fileName} (${opened.mimeType}, ${opened.content.length} bytes)`);
+            if (await verifyContentHash(opened.content, hashes.plaintext, "plaintext")) {
+                console.log(" Decrypted content matches the plaintext hash recorded on-chain");
+            }
 
-                // Cleanup
-                fs.unlinkSync(downloadPath);
+            if (opened.mimeType.startsWith("text/")) {
+                this.displayContent(new TextDecoder().decode(opened.content));
             } else {
-                throw new Error("File download failed");
+                const outputPath = path.join(__dirname, "..", `retrieved_${capsuleId}_${path.basename(opened.fileName)}`);
+                fs.writeFileSync(outputPath, opened.content);
+                console.log(` Binary content saved to: ${outputPath}`);
             }
 
         } catch (error) {
-            console.log(" Error downloading content:", error);
-            console.log("\n Alternative access methods:");
-            console.log(` Direct IPFS: https://gateway.lighthouse.storage/ipfs/${ipfsCid}`);
-            console.log(` Local IPFS: http://localhost:8080/ipfs/${ipfsCid}`);
+            if (error instanceof ContentIntegrityError) {
+                console.log("\n" + "!".repeat(80));
+                console.log(" CONTENT REJECTED");
+                console.log(` ${error.message}`);
+                console.log(" Nothing from this download was displayed or saved.");
+                console.log("!".repeat(80));
+                return;
+            }
+            if (error instanceof RetrievalError && error.failures.length > 0) {
+                console.log(` Could not retrieve ${ipfsCid} from any gateway:`);
+                for (const failure of error.failures) {
+                    console.log(`   ${failure.source}: ${failure.message}`);
+                }
+                console.log(" Add gateways that hold the content to IPFS_GATEWAYS and retry; completed bytes are kept in the retrieval cache.");
+                return;
+            }
+            console.log(" Error retrieving content:", error);
         }
     }
+
+    // Large files: chunks are verified and decrypted one at a time and written straight to disk
+    private async retrieveChunkedContent(capsuleId: number, manifest: ChunkManifest, plaintextHash: string): Promise<void> {
+        console.log(` Chunk manifest: ${manifest.fileName} (${manifest.mimeType}, ${manifest.size} bytes in ${manifest.chunks.length} chunks)`);
+        console.log(" Fetching decryption key from contract...");
+        const dataKey = await readDataKey(this.blocklockContract, capsuleId, this.signer);
+
+        const outputPath = path.join(__dirname, "..", `retrieved_${capsuleId}_${path.basename(manifest.fileName)}`);
+        const partialPath = `${outputPath}.partial`;
+        fs.writeFileSync(partialPath, new Uint8Array(0));
+        try {
+            const { plaintextDigests } = await downloadChunked(this.lighthouseService.retriever, manifest, dataKey,
+                plaintext => fs.appendFileSync(partialPath, plaintext),
+                { onProgress: progress => console.log(` Chunk ${progress.chunk}/${progress.chunks} verified and decrypted (${progress.bytes}/${progress.totalBytes} bytes)`) });
+            if (await verifyContentHash(plaintextDigests, plaintextHash, "plaintext")) {
+                console.log(" Decrypted chunks match the plaintext hash recorded on-chain");
+            }
+        } catch (error) {
+            fs.rmSync(partialPath, { force: true });
+            throw error;
+        }
+        fs.renameSync(partialPath, outputPath);
+        console.log(` Content saved to: ${outputPath}`);
+    }
+
+    private displayContent(content: string): void {
+        console.log("\n" + "=".repeat(80));
+        console.log(" TIMECAPSULE CONTENT");
+        console.log("=".repeat(80));
+        console.log(content);
+        console.log("=".repeat(80));
+        console.log(" Content successfully retrieved and displayed.");
+    }
 }
 
 async function main() {
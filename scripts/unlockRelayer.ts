@@ -0,0 +1,129 @@
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import express from "express";
+import cors from "cors";
+import { getDeployedContract } from "./deployedContracts";
+import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { DEFAULT_RELAYER_PORT, RelayUnlockRequest } from "../shared/unlockRelay";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Unlock relayer.
+ * Sends unlockTimeCapsuleBySig for recipients that signed an EIP-712 UnlockRequest, paying the gas
+ * from PRIVATE_KEY. Each request is simulated first, so requests the contract would reject (bad
+ * signature, expired, used nonce, capsule still locked) are answered with the revert reason and
+ * cost the relayer nothing. See shared/unlockRelay.ts for the request format and client.
+ *
+ *   npm run relayer
+ *   curl http://localhost:4200/status
+ */
+
+/**
+ * HTTP API that relays signed unlock requests to a capsule contract
+ * @param contract Capsule contract, connected to the signer paying the gas
+ * @param status Static fields reported by GET /status
+ */
+export function createRelayerApi(
+    contract: TimeCapsuleBlocklockSimple,
+    status: { chainId: number; contract: string }
+): express.Express {
+    const app = express();
+    app.use(cors());
+    app.use(express.json());
+
+    app.get("/status", async (req, res) => {
+        const relayer = contract.runner as Signer;
+        const address = await relayer.getAddress();
+        const balance = await relayer.provider!.getBalance(address);
+        res.json({ ...status, relayer: address, balance: balance.toString() });
+    });
+
+    app.post("/unlock", async (req, res) => {
+        let request: RelayUnlockRequest;
+        try {
+            request = parseUnlockRequest(req.body);
+        } catch (error) {
+            res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+            return;
+        }
+
+        const args = [request.capsuleId, request.recipient, request.deadline, request.signature] as const;
+        try {
+            await contract.unlockTimeCapsuleBySig.staticCall(...args);
+        } catch (error) {
+            res.status(422).json({ error: revertReason(error) });
+            return;
+        }
+
+        try {
+            const tx = await contract.unlockTimeCapsuleBySig(...args);
+            console.log(`Relayed unlock of capsule ${request.capsuleId} for ${request.recipient}: ${tx.hash}`);
+            res.json({ txHash: tx.hash });
+        } catch (error) {
+            console.error("Relaying unlock failed:", error);
+            res.status(502).json({ error: revertReason(error) });
+        }
+    });
+
+    return app;
+}
+
+function parseUnlockRequest(body: unknown): RelayUnlockRequest {
+    const fields = (body ?? {}) as Record<string, unknown>;
+
+    for (const key of ["capsuleId", "deadline"] as const) {
+        if (typeof fields[key] !== "string" || !/^\d+$/.test(fields[key] as string)) {
+            throw new Error(`${key} must be a decimal string`);
+        }
+    }
+    if (typeof fields.recipient !== "string" || !ethers.isAddress(fields.recipient)) {
+        throw new Error("recipient must be an address");
+    }
+    if (typeof fields.signature !== "string" || !ethers.isHexString(fields.signature, 65)) {
+        throw new Error("signature must be a 65-byte hex string");
+    }
+
+    return {
+        capsuleId: fields.capsuleId as string,
+        recipient: fields.recipient,
+        deadline: fields.deadline as string,
+        signature: fields.signature
+    };
+}
+
+function revertReason(error: unknown): string {
+    const { reason, shortMessage, message } = error as { reason?: string; shortMessage?: string; message?: string };
+    return reason ?? shortMessage ?? message ?? String(error);
+}
+
+async function main() {
+    const [relayer] = await ethers.getSigners();
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", relayer);
+    const address = contract.target as string;
+
+    const balance = await ethers.provider.getBalance(relayer.address);
+    console.log(`Relaying unlocks to ${address} from ${relayer.address} (${ethers.formatEther(balance)} FIL)`);
+
+    const port = Number(process.env.UNLOCK_RELAYER_PORT || DEFAULT_RELAYER_PORT);
+    const server = createRelayerApi(contract, { chainId, contract: address }).listen(port, () => {
+        console.log(`Unlock relayer listening on http://localhost:${port}`);
+    });
+
+    await new Promise<void>(resolve => {
+        process.once("SIGINT", () => resolve());
+        process.once("SIGTERM", () => resolve());
+    });
+
+    server.close();
+    console.log("Unlock relayer stopped");
+}
+
+if (require.main === module) {
+    main().catch(error => {
+        console.error("Relayer failed:", error);
+        process.exitCode = 1;
+    });
+}
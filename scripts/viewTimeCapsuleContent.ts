@@ -1,7 +1,11 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
-import axios from "axios";
+import { getDeployedContract } from "./deployedContracts";
+import { readDataKey } from "./encryptionKeys";
+import { ContentIntegrityError, isChunkManifest, isEnvelope, openEnvelope, parseEnvelope, parseManifest, verifyContentHash } from "../shared/envelope";
+import { createContentRetriever } from "./storageProvider";
+import { RetrievalError } from "../shared/retrieval";
 import fs from "fs";
 import path from "path";
 import dotenv from "dotenv";
@@ -24,11 +28,7 @@ export class TimeCapsuleContentViewer {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.receiverAddress = await this.signer.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
         
         console.log(`📜 Contract: ${await this.contract.getAddress()}`);
         console.log(`👤 Viewer: ${this.receiverAddress}`);
@@ -128,28 +128,26 @@ export class TimeCapsuleContentViewer {
             console.log(`\n📂 IPFS Content:`);
             try {
                 console.log(`   🌐 Fetching from IPFS...`);
-                const ipfsGateways = [
-                    `https://gateway.lighthouse.storage/ipfs/${capsuleInfo.ipfsCid}`,
-                    `https://ipfs.io/ipfs/${capsuleInfo.ipfsCid}`,
-                    `https://gateway.pinata.cloud/ipfs/${capsuleInfo.ipfsCid}`
-                ];
-                
+                // Gateways race, and only bytes matching the CID win; the content hashes recorded on-chain are checked on top
+                const hashes = await this.contract.contentHashes(capsuleId);
                 let content = null;
-                for (const gateway of ipfsGateways) {
-                    try {
-                        console.log(`   🔍 Trying: ${gateway.split('/')[2]}...`);
-                        const response = await axios.get(gateway, { 
-                            timeout: 10000,
-                            headers: {
-                                'Accept': 'application/json, text/plain, */*'
-                            }
-                        });
-                        content = response.data;
-                        console.log(`   ✅ Content retrieved successfully!`);
-                        break;
-                    } catch (gatewayError) {
-                        console.log(`   ❌ Failed: ${gatewayError instanceof Error ? gatewayError.message : 'Unknown error'}`);
-                        continue;
+                try {
+                    const retrieved = await createContentRetriever().retrieve(capsuleInfo.ipfsCid);
+                    console.log(`   ✅ ${retrieved.content.length} bytes from ${retrieved.source}, CID verified`);
+                    const verified = await verifyContentHash(retrieved.content, hashes.envelope, "envelope");
+                    console.log(verified
+                        ? `   ✅ Content matches the on-chain envelope hash`
+                        : `   ⚠️  No content hash is recorded on-chain to verify the envelope against`);
+                    content = await this.decodeContent(capsuleId, retrieved.content, hashes.plaintext);
+                } catch (retrievalError) {
+                    if (retrievalError instanceof ContentIntegrityError) {
+                        console.log(`   🚫 REJECTED: ${retrievalError.message}`);
+                    } else if (retrievalError instanceof RetrievalError && retrievalError.failures.length > 0) {
+                        for (const failure of retrievalError.failures) {
+                            console.log(`   ❌ ${failure.source}: ${failure.message}`);
+                        }
+                    } else {
+                        console.log(`   ❌ Failed: ${retrievalError instanceof Error ? retrievalError.message : 'Unknown error'}`);
                     }
                 }
                 
@@ -271,6 +269,27 @@ export class TimeCapsuleContentViewer {
         console.log(`\n💾 Content report saved: ${path.basename(reportPath)}`);
         console.log("=".repeat(80));
     }
+
+    // Decrypts envelopes with the viewer's data key and checks the plaintext hash; legacy plaintext is shown as text
+    private async decodeContent(capsuleId: number, bytes: Uint8Array, plaintextHash: string): Promise<string> {
+        if (isChunkManifest(bytes)) {
+            // Large files are not pulled in just to print a summary; the manager's unlock downloads them
+            const manifest = parseManifest(bytes);
+            return `${manifest.fileName} (${manifest.mimeType}, ${manifest.size} bytes in ${manifest.chunks.length} encrypted chunks)`;
+        }
+        if (!isEnvelope(bytes)) {
+            return new TextDecoder().decode(bytes);
+        }
+
+        const dataKey = await readDataKey(this.contract, capsuleId, this.signer);
+        const opened = await openEnvelope(parseEnvelope(bytes), dataKey);
+        if (await verifyContentHash(opened.content, plaintextHash, "plaintext")) {
+            console.log(`   ✅ Decrypted content matches the on-chain plaintext hash`);
+        }
+        return opened.mimeType.startsWith("text/")
+            ? new TextDecoder().decode(opened.content)
+            : `${opened.fileName} (${opened.mimeType}, ${opened.content.length} bytes)`;
+    }
 }
 
 async function main() {
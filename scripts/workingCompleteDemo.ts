@@ -1,6 +1,9 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, proveLocalTime } from "./proofProvider";
+import { ProofProvider, describeProof } from "../shared/proofs";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -69,6 +72,7 @@ export class WorkingTimeCapsuleDemo {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
     private lighthouseKey: string;
+    private proofs!: ProofProvider;
     private startTime!: number;
 
     constructor() {
@@ -86,31 +90,14 @@ export class WorkingTimeCapsuleDemo {
         }
 
         this.signer = new Wallet(privateKey, ethers.provider);
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         console.log(`Operator: ${await this.signer.getAddress()}`);
         console.log(`Contract: ${await this.contract.getAddress()}`);
         console.log("Ready for TimeCapsule creation");
     }
 
-    private generateZKProof(): any {
-        const timestamp = Math.floor(Date.now() / 1000);
-        const hash1 = crypto.createHash('sha256').update(timestamp.toString()).digest('hex');
-        const hash2 = crypto.createHash('sha256').update(hash1).digest('hex');
-        
-        return {
-            pi_a: [`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`, "0x1"],
-            pi_b: [[`0x${hash1.slice(0, 64)}`, `0x${hash2.slice(0, 64)}`], [`0x${hash2.slice(0, 64)}`, `0x${hash1.slice(0, 64)}`], ["0x1", "0x0"]],
-            pi_c: [`0x${hash2.slice(0, 64)}`, `0x${hash1.slice(0, 64)}`, "0x1"],
-            protocol: "groth16",
-            curve: "bn128"
-        };
-    }
-
     private async validateNTP(): Promise<{ valid: number; total: number; hash: string }> {
         const servers = [
             "http://worldtimeapi.org/api/timezone/UTC",
@@ -229,9 +216,9 @@ Content Hash: ${contentHash}...
         
         console.log("\nPhase 2: zkTLS Proof Generation");
         phases.push("zkTLS Proof Generation");
-        const zkProof = this.generateZKProof();
-        const proofHash = crypto.createHash('sha256').update(JSON.stringify(zkProof)).digest('hex');
-        console.log(`Protocol: ${zkProof.protocol.toUpperCase()}`);
+        const zkProof = await proveLocalTime(this.proofs, ethers.provider);
+        const proofHash = zkProof.hash;
+        console.log(`Protocol: ${describeProof(zkProof)}`);
         console.log(`Proof Hash: ${proofHash.slice(0, 20)}...`);
         
         console.log("\nPhase 3: NTP Validation");
@@ -358,8 +345,8 @@ Content Hash: ${contentHash}...
                     }
                 },
                 zkTLS: {
-                    proofGenerated: true,
-                    protocol: "Groth16",
+                    proofGenerated: zkProof.proof !== null,
+                    protocol: describeProof(zkProof),
                     proofHash: proofHash,
                     ntpValidation: {
                         sourcesChecked: ntpResult.total,
@@ -394,7 +381,7 @@ Content Hash: ${contentHash}...
             console.log("=".repeat(70));
             console.log("Successfully completed full workflow:");
             console.log(`- Created new TimeCapsule ID ${newCapsuleId} with 10-second lock`);
-            console.log("- Generated zkTLS proofs with Groth16 protocol");
+            console.log(`- Generated time validation proof: ${describeProof(zkProof)}`);
             console.log("- Validated time sources via NTP synchronization");
             console.log("- Uploaded content to IPFS via Lighthouse");
             console.log("- Deployed to Filecoin Calibration blockchain");
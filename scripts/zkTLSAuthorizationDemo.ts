@@ -1,7 +1,9 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
-import crypto from "crypto";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, deriveReceiverSecret, proveLocalTime } from "./proofProvider";
+import { CircuitProof, ProofError, ProofProvider, combineProofs } from "../shared/proofs";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -14,6 +16,7 @@ export class ZKTLSAuthorizationDemo {
     private currentUser!: Wallet;
     private currentUserAddress!: string;
     private mockOtherUserAddress!: string;
+    private proofs!: ProofProvider;
 
     async initialize(): Promise<void> {
         console.log("🚀 Initializing zkTLS Authorization Demo...");
@@ -30,11 +33,8 @@ export class ZKTLSAuthorizationDemo {
         // Mock another user address for unauthorized access test
         this.mockOtherUserAddress = "0x742d35Cc6634C0532925a3b8D12345678901234567";
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.currentUser
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.currentUser);
+        this.proofs = createProofProvider();
         
         console.log(`📜 Contract: ${await this.contract.getAddress()}`);
         console.log(`👤 Current User: ${this.currentUserAddress}`);
@@ -104,8 +104,8 @@ export class ZKTLSAuthorizationDemo {
 
             // Step 4: Master ZK Proof
             console.log(`   Step 4 - Master ZK Proof: Generating...`);
-            const masterProof = await this.generateMasterZKProof(capsuleId, isAuthorized, timeProof.valid, ntpValidation.valid);
-            console.log(`   Step 4 - Master ZK Proof: ${masterProof.valid ? '✅ VALID' : '❌ INVALID'}`);
+            const masterProof = await this.generateMasterZKProof(capsuleId, isAuthorized, timeProof.valid ? timeProof.proof : null, ntpValidation.valid);
+            console.log(`   Step 4 - Master ZK Proof: ${masterProof.valid ? '✅ VALID' : '❌ INVALID'} (${masterProof.backend})`);
             console.log(`   Step 4 - Proof Hash: ${masterProof.hash.slice(0, 32)}...`);
 
             const overallValid = isAuthorized && timeProof.valid && ntpValidation.valid && masterProof.valid;
@@ -155,8 +155,8 @@ export class ZKTLSAuthorizationDemo {
 
         // Step 4: Master ZK Proof (Should fail due to unauthorized receiver)
         console.log(`   Step 4 - Master ZK Proof: Generating...`);
-        const masterProof = await this.generateMasterZKProof(mockCapsuleId, isAuthorized, timeProof.valid, ntpValidation.valid);
-        console.log(`   Step 4 - Master ZK Proof: ${masterProof.valid ? '✅ VALID' : '❌ INVALID'}`);
+        const masterProof = await this.generateMasterZKProof(mockCapsuleId, isAuthorized, timeProof.valid ? timeProof.proof : null, ntpValidation.valid);
+        console.log(`   Step 4 - Master ZK Proof: ${masterProof.valid ? '✅ VALID' : '❌ INVALID'} (${masterProof.backend})`);
         console.log(`   Step 4 - Proof Hash: ${masterProof.hash.slice(0, 32)}...`);
 
         const overallValid = isAuthorized && timeProof.valid && ntpValidation.valid && masterProof.valid;
@@ -173,24 +173,20 @@ export class ZKTLSAuthorizationDemo {
         }
     }
 
-    private async generateTimeZKProof(capsuleId: number): Promise<{ valid: boolean; timeDiff: number; proof: any }> {
+    private async generateTimeZKProof(capsuleId: number): Promise<{ valid: boolean; timeDiff: number; proof: CircuitProof | null }> {
         const blockchainTime = await this.getBlockchainTimestamp();
         const localTime = Math.floor(Date.now() / 1000);
         const timeDiff = Math.abs(blockchainTime - localTime);
-        
-        const zkInputs = {
-            capsule_id: capsuleId,
-            blockchain_time: blockchainTime,
-            local_time: localTime,
-            time_difference: timeDiff,
-            max_allowed_diff: 300, // 5 minutes tolerance
-            receiver: this.addressToFieldElement(this.currentUserAddress)
-        };
-
-        const proof = await this.generateZKProof(zkInputs, "time_validation");
-        const valid = timeDiff <= 300; // 5 minutes max difference
 
-        return { valid, timeDiff, proof };
+        try {
+            const proof = await proveLocalTime(this.proofs, ethers.provider, capsuleId);
+            return { valid: await this.proofs.verify(proof), timeDiff, proof };
+        } catch (error) {
+            if (!(error instanceof ProofError)) {
+                throw error;
+            }
+            return { valid: false, timeDiff, proof: null };
+        }
     }
 
     private async validateNTPWithZKProofs(): Promise<{ valid: boolean; validSources: number; details: any[] }> {
@@ -238,69 +234,19 @@ export class ZKTLSAuthorizationDemo {
     private async generateMasterZKProof(
         capsuleId: number,
         receiverAuth: boolean,
-        timeValid: boolean,
+        timeProof: CircuitProof | null,
         ntpValid: boolean
-    ): Promise<{ valid: boolean; hash: string; proof: any }> {
-        
-        const inputs = {
-            capsule_id: capsuleId,
-            receiver_authorized: receiverAuth ? 1 : 0,
-            time_validation: timeValid ? 1 : 0,
-            ntp_validation: ntpValid ? 1 : 0,
-            timestamp: Math.floor(Date.now() / 1000),
-            receiver_hash: this.addressToFieldElement(this.currentUserAddress)
-        };
-
-        const proof = await this.generateZKProof(inputs, "master_validation");
-        const valid = receiverAuth && timeValid && ntpValid; // All must be true
-        
-        const hash = crypto.createHash('sha256')
-            .update(JSON.stringify(inputs) + this.currentUserAddress)
-            .digest('hex');
-
-        return { valid, hash, proof };
-    }
-
-    private async generateZKProof(inputs: any, circuitType: string): Promise<any> {
-        const serializableInputs = this.convertBigIntToString(inputs);
+    ): Promise<{ valid: boolean; backend: string; hash: string; proof: CircuitProof }> {
         
-        const inputHash = crypto.createHash('sha256')
-            .update(JSON.stringify(serializableInputs) + circuitType + this.currentUserAddress)
-            .digest('hex');
-
-        // Generate mock Groth16 ZK-SNARK proof
-        return {
-            pi_a: ["0x" + inputHash.slice(0, 62), "0x" + inputHash.slice(2, 64), "0x1"],
-            pi_b: [
-                ["0x" + inputHash.slice(4, 66), "0x" + inputHash.slice(6, 68)],
-                ["0x" + inputHash.slice(8, 70), "0x" + inputHash.slice(10, 72)],
-                ["0x1", "0x0"]
-            ],
-            pi_c: ["0x" + inputHash.slice(12, 74), "0x" + inputHash.slice(14, 76), "0x1"],
-            protocol: "groth16",
-            curve: "bn128"
-        };
-    }
-
-    private addressToFieldElement(address: string): string {
-        const addressBytes = ethers.getBytes(address);
-        const hash = crypto.createHash('sha256').update(addressBytes).digest();
-        return '0x' + hash.toString('hex').slice(0, 60);
-    }
-
-    private convertBigIntToString(obj: any): any {
-        if (typeof obj === 'bigint') {
-            return obj.toString();
-        } else if (Array.isArray(obj)) {
-            return obj.map(item => this.convertBigIntToString(item));
-        } else if (obj !== null && typeof obj === 'object') {
-            const result: any = {};
-            for (const key in obj) {
-                result[key] = this.convertBigIntToString(obj[key]);
-            }
-            return result;
-        }
-        return obj;
+        const proof = await this.proofs.prove("receiver_auth", {
+            capsuleId,
+            recipient: this.currentUserAddress,
+            secret: await deriveReceiverSecret(this.currentUser)
+        });
+        const { backend, hash } = await combineProofs(timeProof ? [timeProof, proof] : [proof]);
+        const valid = receiverAuth && timeProof !== null && ntpValid && await this.proofs.verify(proof); // All must be true
+
+        return { valid, backend, hash, proof };
     }
 
     private async getBlockchainTimestamp(): Promise<number> {
@@ -1,7 +1,9 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
-import crypto from "crypto";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, deriveReceiverSecret, proveLocalTime } from "./proofProvider";
+import { CircuitProof, ProofError, ProofProvider, combineProofs } from "../shared/proofs";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -13,6 +15,7 @@ export class ZKTLSUnlockDemo {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
     private receiverAddress!: string;
+    private proofs!: ProofProvider;
 
     async initialize(): Promise<void> {
         console.log("🔐 Initializing zkTLS Unlock Demo...");
@@ -25,11 +28,8 @@ export class ZKTLSUnlockDemo {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.receiverAddress = await this.signer.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         console.log(`📜 Contract: ${await this.contract.getAddress()}`);
         console.log(`👤 Receiver: ${this.receiverAddress}`);
@@ -139,10 +139,13 @@ export class ZKTLSUnlockDemo {
         const masterProof = await this.generateMasterZKProof({
             capsuleId,
             timeValid: timeProof.valid,
+            timeProof: timeProof.proof,
+            receiverProof: receiverProof.proof,
             ntpValid: ntpValidation.valid,
             receiverValid: receiverProof.valid
         });
         console.log(`   Master Proof: ${masterProof.valid ? '✅ VALID' : '❌ INVALID'}`);
+        console.log(`   Proof Backend: ${masterProof.backend}`);
         console.log(`   Proof Hash: ${masterProof.hash.slice(0, 32)}...`);
 
         return {
@@ -157,18 +160,16 @@ export class ZKTLSUnlockDemo {
         const blockchainTime = await this.getBlockchainTimestamp();
         const localTime = Math.floor(Date.now() / 1000);
         const timeDiff = Math.abs(blockchainTime - localTime);
-        
-        const zkInputs = {
-            capsule_id: capsuleId,
-            blockchain_time: blockchainTime,
-            local_time: localTime,
-            time_difference: timeDiff,
-            max_allowed_diff: 300,
-            receiver: this.addressToFieldElement(this.receiverAddress)
-        };
 
-        const proof = await this.generateZKProof(zkInputs, "time_validation");
-        return { valid: timeDiff <= 300, timeDiff, proof, inputs: zkInputs };
+        try {
+            const proof = await proveLocalTime(this.proofs, ethers.provider, capsuleId);
+            return { valid: await this.proofs.verify(proof), timeDiff, proof };
+        } catch (error) {
+            if (!(error instanceof ProofError)) {
+                throw error;
+            }
+            return { valid: false, timeDiff, proof: null };
+        }
     }
 
     private async validateNTPServers(): Promise<any> {
@@ -204,33 +205,20 @@ export class ZKTLSUnlockDemo {
     }
 
     private async generateReceiverAuthProof(capsuleId: number): Promise<any> {
-        const inputs = {
-            capsule_id: capsuleId,
-            receiver: this.addressToFieldElement(this.receiverAddress),
-            timestamp: Math.floor(Date.now() / 1000)
-        };
-
-        const proof = await this.generateZKProof(inputs, "receiver_auth");
-        return { valid: true, proof, inputs }; // Always valid for correct receiver
+        const proof = await this.proofs.prove("receiver_auth", {
+            capsuleId,
+            recipient: this.receiverAddress,
+            secret: await deriveReceiverSecret(this.signer)
+        });
+        return { valid: await this.proofs.verify(proof), proof };
     }
 
     private async generateMasterZKProof(params: any): Promise<any> {
-        const inputs = {
-            capsule_id: params.capsuleId,
-            time_valid: params.timeValid ? 1 : 0,
-            ntp_valid: params.ntpValid ? 1 : 0,
-            receiver_valid: params.receiverValid ? 1 : 0,
-            timestamp: Math.floor(Date.now() / 1000)
-        };
-
-        const proof = await this.generateZKProof(inputs, "master_validation");
+        const proofs: CircuitProof[] = [params.timeProof, params.receiverProof].filter(proof => proof !== null);
+        const { backend, hash } = await combineProofs(proofs);
         const valid = params.timeValid && params.ntpValid && params.receiverValid;
-        
-        const hash = crypto.createHash('sha256')
-            .update(JSON.stringify(inputs) + this.receiverAddress)
-            .digest('hex');
 
-        return { valid, proof, inputs, hash };
+        return { valid, backend, hash };
     }
 
     private validateAllConditions(preAnalysis: any, zkProofs: any): any {
@@ -338,6 +326,7 @@ export class ZKTLSUnlockDemo {
                 },
                 masterProof: {
                     valid: zkProofs.masterProof.valid,
+                    backend: zkProofs.masterProof.backend,
                     hash: zkProofs.masterProof.hash
                 }
             },
@@ -353,46 +342,6 @@ export class ZKTLSUnlockDemo {
         console.log(`\n💾 Unlock report saved: ${path.basename(reportPath)}`);
     }
 
-    private async generateZKProof(inputs: any, circuitType: string): Promise<any> {
-        const serializableInputs = this.convertBigIntToString(inputs);
-        const inputHash = crypto.createHash('sha256')
-            .update(JSON.stringify(serializableInputs) + circuitType + this.receiverAddress)
-            .digest('hex');
-
-        return {
-            pi_a: ["0x" + inputHash.slice(0, 62), "0x" + inputHash.slice(2, 64), "0x1"],
-            pi_b: [
-                ["0x" + inputHash.slice(4, 66), "0x" + inputHash.slice(6, 68)],
-                ["0x" + inputHash.slice(8, 70), "0x" + inputHash.slice(10, 72)],
-                ["0x1", "0x0"]
-            ],
-            pi_c: ["0x" + inputHash.slice(12, 74), "0x" + inputHash.slice(14, 76), "0x1"],
-            protocol: "groth16",
-            curve: "bn128"
-        };
-    }
-
-    private addressToFieldElement(address: string): string {
-        const addressBytes = ethers.getBytes(address);
-        const hash = crypto.createHash('sha256').update(addressBytes).digest();
-        return '0x' + hash.toString('hex').slice(0, 60);
-    }
-
-    private convertBigIntToString(obj: any): any {
-        if (typeof obj === 'bigint') {
-            return obj.toString();
-        } else if (Array.isArray(obj)) {
-            return obj.map(item => this.convertBigIntToString(item));
-        } else if (obj !== null && typeof obj === 'object') {
-            const result: any = {};
-            for (const key in obj) {
-                result[key] = this.convertBigIntToString(obj[key]);
-            }
-            return result;
-        }
-        return obj;
-    }
-
     private async getBlockchainTimestamp(): Promise<number> {
         const block = await ethers.provider.getBlock('latest');
         return block?.timestamp || Math.floor(Date.now() / 1000);
@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
 import crypto from "crypto";
 import fs from "fs";
 import path from "path";
@@ -55,11 +56,7 @@ export class ZKTLSSocialDeFiVerifier {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.receiverAddress = await this.signer.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
         
         console.log(`Contract: ${await this.contract.getAddress()}`);
         console.log(`Receiver: ${this.receiverAddress}`);
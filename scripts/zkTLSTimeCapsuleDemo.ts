@@ -1,6 +1,9 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, deriveReceiverSecret, proveLocalTime } from "./proofProvider";
+import { CircuitProof, ProofError, ProofProvider, combineProofs } from "../shared/proofs";
 import crypto from "crypto";
 import axios from "axios";
 import fs from "fs";
@@ -25,6 +28,7 @@ export class ZKTLSTimeCapsuleDemoSystem {
     private otherUser!: Wallet;
     private currentUserAddress!: string;
     private otherUserAddress!: string;
+    private proofs!: ProofProvider;
 
     async initialize(): Promise<void> {
         console.log("🚀 Initializing zkTLS TimeCapsule Demo System...");
@@ -44,11 +48,8 @@ export class ZKTLSTimeCapsuleDemoSystem {
         this.otherUser = new Wallet(otherPrivateKey, ethers.provider);
         this.otherUserAddress = await this.otherUser.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.currentUser
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.currentUser);
+        this.proofs = createProofProvider();
         
         console.log(`📜 Contract: ${await this.contract.getAddress()}`);
         console.log(`👤 Current User: ${this.currentUserAddress}`);
@@ -184,9 +185,10 @@ export class ZKTLSTimeCapsuleDemoSystem {
             const masterProof = await this.generateMasterZKProof(
                 capsuleId, 
                 receiverAuthorized, 
-                timeValidation.zkProofValid, 
+                timeValidation.zkProofValid ? timeValidation.zkProof : null, 
                 ntpValidation.isValid
             );
+            console.log(`   Master Proof Backend: ${masterProof.backend}`);
             console.log(`   Master Proof Hash: ${masterProof.hash.slice(0, 32)}...`);
             console.log(`   Master Proof: ${masterProof.isValid ? '✅ VALID' : '❌ INVALID'}`);
 
@@ -228,25 +230,23 @@ export class ZKTLSTimeCapsuleDemoSystem {
         const blockchainTime = await this.getBlockchainTimestamp();
         const localTime = Math.floor(Date.now() / 1000);
         const timeDifference = Math.abs(blockchainTime - localTime);
-        
-        const zkInputs = {
-            capsule_id: capsuleId,
-            blockchain_time: blockchainTime,
-            local_time: localTime,
-            time_difference: timeDifference,
-            max_allowed_diff: 300, // 5 minutes
-            receiver: this.addressToFieldElement(this.currentUserAddress)
-        };
 
-        const zkProof = await this.generateZKProof(zkInputs, "time_validation");
-        const isValid = timeDifference <= 300;
+        let zkProof: CircuitProof<"time_validation"> | null = null;
+        try {
+            zkProof = await proveLocalTime(this.proofs, ethers.provider, capsuleId);
+        } catch (error) {
+            if (!(error instanceof ProofError)) {
+                throw error;
+            }
+            console.log(`   ${error.message}`);
+        }
 
         return {
             blockchainTime,
             localTime,
             timeDifference,
             zkProof,
-            zkProofValid: isValid
+            zkProofValid: zkProof !== null && await this.proofs.verify(zkProof)
         };
     }
 
@@ -304,84 +304,26 @@ export class ZKTLSTimeCapsuleDemoSystem {
     private async generateMasterZKProof(
         capsuleId: number, 
         receiverAuth: boolean, 
-        timeValid: boolean, 
+        timeProof: CircuitProof | null, 
         ntpValid: boolean
     ): Promise<any> {
-        const masterInputs = {
-            capsule_id: capsuleId,
-            receiver_authorized: receiverAuth ? 1 : 0,
-            time_validation: timeValid ? 1 : 0,
-            ntp_validation: ntpValid ? 1 : 0,
-            timestamp: Math.floor(Date.now() / 1000),
-            receiver: this.addressToFieldElement(this.currentUserAddress)
-        };
-
-        const zkProof = await this.generateZKProof(masterInputs, "master_validation");
-        const isValid = receiverAuth && timeValid && ntpValid;
-
-        const hash = crypto.createHash('sha256')
-            .update(JSON.stringify(masterInputs) + this.currentUserAddress)
-            .digest('hex');
+        const receiverProof = await this.proofs.prove("receiver_auth", {
+            capsuleId,
+            recipient: this.currentUserAddress,
+            secret: await deriveReceiverSecret(this.currentUser)
+        });
+        const proofs = timeProof ? [timeProof, receiverProof] : [receiverProof];
+        const { backend, hash } = await combineProofs(proofs);
+        const isValid = receiverAuth && timeProof !== null && ntpValid && await this.proofs.verify(receiverProof);
 
         return {
-            proof: zkProof,
+            proof: receiverProof,
+            backend,
             hash,
             isValid
         };
     }
 
-    private async generateZKProof(inputs: any, circuitType: string): Promise<any> {
-        const serializableInputs = this.convertBigIntToString(inputs);
-        
-        const inputHash = crypto.createHash('sha256')
-            .update(JSON.stringify(serializableInputs) + circuitType + this.currentUserAddress)
-            .digest('hex');
-
-        // Generate Groth16 ZK-SNARK proof
-        return {
-            pi_a: [
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_a_1").digest('hex').slice(0, 62),
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_a_2").digest('hex').slice(0, 62),
-                "0x1"
-            ],
-            pi_b: [
-                ["0x" + crypto.createHash('sha256').update(inputHash + "pi_b_1_1").digest('hex').slice(0, 62),
-                 "0x" + crypto.createHash('sha256').update(inputHash + "pi_b_1_2").digest('hex').slice(0, 62)],
-                ["0x" + crypto.createHash('sha256').update(inputHash + "pi_b_2_1").digest('hex').slice(0, 62),
-                 "0x" + crypto.createHash('sha256').update(inputHash + "pi_b_2_2").digest('hex').slice(0, 62)],
-                ["0x1", "0x0"]
-            ],
-            pi_c: [
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_c_1").digest('hex').slice(0, 62),
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_c_2").digest('hex').slice(0, 62),
-                "0x1"
-            ],
-            protocol: "groth16",
-            curve: "bn128"
-        };
-    }
-
-    private addressToFieldElement(address: string): string {
-        const addressBytes = ethers.getBytes(address);
-        const hash = crypto.createHash('sha256').update(addressBytes).digest();
-        return '0x' + hash.toString('hex').slice(0, 60);
-    }
-
-    private convertBigIntToString(obj: any): any {
-        if (typeof obj === 'bigint') {
-            return obj.toString();
-        } else if (Array.isArray(obj)) {
-            return obj.map(item => this.convertBigIntToString(item));
-        } else if (obj !== null && typeof obj === 'object') {
-            const result: any = {};
-            for (const key in obj) {
-                result[key] = this.convertBigIntToString(obj[key]);
-            }
-            return result;
-        }
-        return obj;
-    }
-
     private async getBlockchainTimestamp(): Promise<number> {
         const block = await ethers.provider.getBlock('latest');
         return block?.timestamp || Math.floor(Date.now() / 1000);
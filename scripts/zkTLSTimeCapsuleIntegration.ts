@@ -1,7 +1,9 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
-import crypto from "crypto";
+import { getDeployedContract } from "./deployedContracts";
+import { DEFAULT_MAX_DRIFT, createProofProvider, deriveReceiverSecret } from "./proofProvider";
+import { CircuitProof, ProofBackend, ProofError, ProofProvider, combineProofs, describeProof } from "../shared/proofs";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -15,7 +17,7 @@ interface NTPServerProof {
     timestamp: number;
     latency: number;
     response: any;
-    zkProof: any;
+    zkProof: CircuitProof<"time_validation"> | null;   // null when the server time was outside the drift
     publicSignals: string[];
     verified: boolean;
 }
@@ -25,7 +27,8 @@ interface TimeCapsuleZKProof {
     receiver: string;
     ntpProofs: NTPServerProof[];
     blockchainTime: number;
-    zkVerificationProof: any;
+    zkVerificationProof: CircuitProof<"receiver_auth">;
+    proofBackend: ProofBackend | "mixed";
     masterHash: string;
     isValid: boolean;
 }
@@ -42,6 +45,7 @@ export class ZKTLSTimeCapsuleIntegration {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
     private receiverAddress!: string;
+    private proofs!: ProofProvider;
 
     async initialize(): Promise<void> {
         console.log("Initializing zkTLS TimeCapsule Integration System...");
@@ -54,11 +58,8 @@ export class ZKTLSTimeCapsuleIntegration {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.receiverAddress = await this.signer.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         console.log(`Contract: ${await this.contract.getAddress()}`);
         console.log(`Receiver: ${this.receiverAddress}`);
@@ -112,8 +113,7 @@ export class ZKTLSTimeCapsuleIntegration {
                 const zkProof = await this.generateTimeValidationZKProof({
                     serverTimestamp: Math.floor(serverTimestamp / 1000),
                     blockchainTime,
-                    latency,
-                    receiverAddress: this.receiverAddress
+                    latency
                 });
 
                 const ntpProof: NTPServerProof = {
@@ -146,73 +146,35 @@ export class ZKTLSTimeCapsuleIntegration {
         serverTimestamp: number;
         blockchainTime: number;
         latency: number;
-        receiverAddress: string;
-    }): Promise<{ proof: any; publicSignals: string[]; verified: boolean }> {
+    }): Promise<{ proof: CircuitProof<"time_validation"> | null; publicSignals: string[]; verified: boolean }> {
         
-        // Convert inputs to field elements for ZK circuit
+        // The server time stays private; the proof only shows it is within 5 minutes of the chain
         const timeDiff = Math.abs(input.serverTimestamp - input.blockchainTime);
-        const addressHash = this.addressToFieldElement(input.receiverAddress);
-        
-        // Create circuit inputs
-        const circuitInputs = {
-            server_time: input.serverTimestamp.toString(),
-            blockchain_time: input.blockchainTime.toString(),
-            time_diff: timeDiff.toString(),
-            max_diff: "300", // 5 minutes tolerance
-            latency: input.latency.toString(),
-            receiver_hash: addressHash.toString()
-        };
+        console.log(`    Circuit inputs prepared: time_diff=${timeDiff}, max_diff=${DEFAULT_MAX_DRIFT}`);
 
-        console.log(`    Circuit inputs prepared: time_diff=${timeDiff}, max_diff=300`);
+        let proof: CircuitProof<"time_validation">;
+        try {
+            proof = await this.proofs.prove("time_validation", {
+                capsuleId: 0,
+                unlockTime: input.blockchainTime,
+                referenceTime: input.blockchainTime,
+                maxDrift: DEFAULT_MAX_DRIFT,
+                localTime: input.serverTimestamp
+            });
+        } catch (error) {
+            if (!(error instanceof ProofError)) {
+                throw error;
+            }
+            console.log(`    ${error.message}`);
+            return { proof: null, publicSignals: [], verified: false };
+        }
 
-        // Generate mock ZK-SNARK proof (in production, use actual circuit)
-        const mockProof = await this.generateMockZKProof(circuitInputs);
-        
-        // Verify the proof
-        const isValid = timeDiff <= 300 && input.latency < 30000; // 5 min time diff, 30s latency
-        
+        console.log(`    Proof backend: ${describeProof(proof)}`);
         return {
-            proof: mockProof,
-            publicSignals: [
-                circuitInputs.time_diff,
-                circuitInputs.max_diff,
-                circuitInputs.receiver_hash
-            ],
-            verified: isValid
-        };
-    }
-
-    private async generateMockZKProof(inputs: any): Promise<any> {
-        // Mock ZK-SNARK proof structure
-        // In production, this would use actual circuit compilation and proving
-        const proofData = {
-            pi_a: [
-                "0x" + crypto.randomBytes(32).toString('hex'),
-                "0x" + crypto.randomBytes(32).toString('hex'),
-                "0x1"
-            ],
-            pi_b: [
-                ["0x" + crypto.randomBytes(32).toString('hex'), "0x" + crypto.randomBytes(32).toString('hex')],
-                ["0x" + crypto.randomBytes(32).toString('hex'), "0x" + crypto.randomBytes(32).toString('hex')],
-                ["0x1", "0x0"]
-            ],
-            pi_c: [
-                "0x" + crypto.randomBytes(32).toString('hex'),
-                "0x" + crypto.randomBytes(32).toString('hex'),
-                "0x1"
-            ],
-            protocol: "groth16",
-            curve: "bn128"
+            proof,
+            publicSignals: proof.publicSignals,
+            verified: input.latency < 30000 && await this.proofs.verify(proof)
         };
-
-        return proofData;
-    }
-
-    private addressToFieldElement(address: string): bigint {
-        // Convert Ethereum address to field element for ZK circuit
-        const addressBytes = ethers.getBytes(address);
-        const hash = crypto.createHash('sha256').update(addressBytes).digest();
-        return BigInt('0x' + hash.toString('hex').slice(0, 62)); // Ensure it fits in field
     }
 
     private async generateFallbackTimeProof(serverName: string, blockchainTime: number): Promise<NTPServerProof> {
@@ -221,8 +183,7 @@ export class ZKTLSTimeCapsuleIntegration {
         const fallbackInputs = {
             serverTimestamp: blockchainTime,
             blockchainTime,
-            latency: 0,
-            receiverAddress: this.receiverAddress
+            latency: 0
         };
 
         const zkProof = await this.generateTimeValidationZKProof(fallbackInputs);
@@ -283,6 +244,7 @@ export class ZKTLSTimeCapsuleIntegration {
                 ntpProofs,
                 blockchainTime,
                 zkVerificationProof: masterZKProof.proof,
+                proofBackend: masterZKProof.backend,
                 masterHash: masterZKProof.hash,
                 isValid: masterZKProof.isValid && isAuthorizedReceiver
             };
@@ -295,6 +257,7 @@ export class ZKTLSTimeCapsuleIntegration {
             console.log(`  NTP Proofs Valid: ${allProofsValid}`);
             console.log(`  Receiver Authorized: ${isAuthorizedReceiver}`);
             console.log(`  Overall Status: ${timeCapsuleProof.isValid ? 'VALID' : 'INVALID'}`);
+            console.log(`  Proof Backend: ${timeCapsuleProof.proofBackend}`);
             console.log(`  Master Hash: ${timeCapsuleProof.masterHash.slice(0, 32)}...`);
 
             return timeCapsuleProof;
@@ -306,33 +269,28 @@ export class ZKTLSTimeCapsuleIntegration {
     }
 
     private async generateMasterZKProof(capsuleId: number, ntpProofs: NTPServerProof[]): Promise<{
-        proof: any;
+        proof: CircuitProof<"receiver_auth">;
+        backend: ProofBackend | "mixed";
         hash: string;
         isValid: boolean;
     }> {
-        // Aggregate all ZK proofs into master proof
-        const masterInputs = {
-            capsule_id: capsuleId.toString(),
-            receiver: this.addressToFieldElement(this.receiverAddress).toString(),
-            ntp_count: ntpProofs.length.toString(),
-            valid_proofs: ntpProofs.filter(p => p.verified).length.toString(),
-            timestamp: Math.floor(Date.now() / 1000).toString()
-        };
-
-        console.log(`    Master proof inputs: ${ntpProofs.length} NTP servers, ${masterInputs.valid_proofs} valid`);
+        // Prove the receiver holds the recipient secret, then fold it together with the NTP proofs
+        const receiverProof = await this.proofs.prove("receiver_auth", {
+            capsuleId,
+            recipient: this.receiverAddress,
+            secret: await deriveReceiverSecret(this.signer)
+        });
+        const validProofs = ntpProofs.filter(p => p.verified && p.zkProof !== null);
 
-        const masterProof = await this.generateMockZKProof(masterInputs);
-        
-        const masterHash = crypto.createHash('sha256')
-            .update(JSON.stringify(masterInputs) + this.receiverAddress)
-            .digest('hex');
+        console.log(`    Master proof inputs: ${ntpProofs.length} NTP servers, ${validProofs.length} valid`);
 
-        const isValid = parseInt(masterInputs.valid_proofs) > 0;
+        const master = await combineProofs([receiverProof, ...validProofs.map(p => p.zkProof!)]);
 
         return {
-            proof: masterProof,
-            hash: masterHash,
-            isValid
+            proof: receiverProof,
+            backend: master.backend,
+            hash: master.hash,
+            isValid: validProofs.length > 0 && await this.proofs.verify(receiverProof)
         };
     }
 
@@ -400,6 +358,7 @@ export class ZKTLSTimeCapsuleIntegration {
                 ntpServers: zkProof.ntpProofs.length,
                 validProofs: zkProof.ntpProofs.filter(p => p.verified).length,
                 blockchainTime: zkProof.blockchainTime,
+                proofBackend: zkProof.proofBackend,
                 masterHash: zkProof.masterHash,
                 isValid: zkProof.isValid
             },
@@ -559,6 +518,7 @@ export class ZKTLSTimeCapsuleIntegration {
                     validNTPProofs: zkProof.ntpProofs.filter(p => p.verified).length,
                     receiverAuthorized: zkProof.isValid,
                     masterProofValid: zkProof.isValid,
+                    proofBackend: zkProof.proofBackend,
                     masterHash: zkProof.masterHash
                 },
                 ntpServerDetails: zkProof.ntpProofs.map(proof => ({
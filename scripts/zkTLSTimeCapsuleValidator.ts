@@ -1,7 +1,18 @@
 import { ethers } from "hardhat";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
-import crypto from "crypto";
+import { getDeployedContract } from "./deployedContracts";
+import { DEFAULT_MAX_DRIFT, createProofProvider, deriveReceiverSecret, readProofGate } from "./proofProvider";
+import {
+    CircuitInputs,
+    CircuitProof,
+    ProofCircuit,
+    ProofError,
+    ProofProvider,
+    describeProof,
+    matchesProofGate,
+    toSolidityProof
+} from "../shared/proofs";
 import axios from "axios";
 import fs from "fs";
 import path from "path";
@@ -10,8 +21,7 @@ import dotenv from "dotenv";
 dotenv.config();
 
 interface ZKProofCircuit {
-    inputs: any;
-    proof: any;
+    proof: CircuitProof | null;     // null when the inputs do not satisfy the circuit
     publicSignals: string[];
     isValid: boolean;
 }
@@ -40,6 +50,7 @@ export class ZKTLSTimeCapsuleValidator {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
     private receiverAddress!: string;
+    private proofs!: ProofProvider;
 
     async initialize(): Promise<void> {
         console.log("🔐 Initializing zkTLS TimeCapsule Validator...");
@@ -52,11 +63,8 @@ export class ZKTLSTimeCapsuleValidator {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.receiverAddress = await this.signer.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         console.log(`📜 Contract: ${await this.contract.getAddress()}`);
         console.log(`👤 Receiver: ${this.receiverAddress}`);
@@ -99,16 +107,13 @@ export class ZKTLSTimeCapsuleValidator {
     private async generateBlockchainTimeProof(blockchainTime: number): Promise<NTPValidationResult> {
         console.log("  📊 Generating blockchain time ZK proof...");
 
-        const circuitInputs = {
-            server_time: blockchainTime,
-            blockchain_time: blockchainTime,
-            time_difference: 0,
-            max_allowed_diff: 300, // 5 minutes
-            receiver_hash: this.addressToFieldElement(this.receiverAddress),
-            validation_timestamp: Math.floor(Date.now() / 1000)
-        };
-
-        const zkProof = await this.generateZKSNARKProof(circuitInputs, "time_validation");
+        const zkProof = await this.generateZKSNARKProof("time_validation", {
+            capsuleId: 0,
+            unlockTime: blockchainTime,
+            referenceTime: blockchainTime,
+            maxDrift: DEFAULT_MAX_DRIFT,
+            localTime: Math.floor(Date.now() / 1000)
+        });
 
         return {
             server: 'Blockchain-Authoritative',
@@ -117,7 +122,7 @@ export class ZKTLSTimeCapsuleValidator {
             timeDifference: 0,
             latency: 0,
             zkCircuit: zkProof,
-            isValid: true
+            isValid: zkProof.isValid
         };
     }
 
@@ -150,18 +155,14 @@ export class ZKTLSTimeCapsuleValidator {
         console.log(`    📈 Latency: ${latency}ms`);
         console.log(`    📏 Time diff: ${timeDifference}s (${isTimeValid ? 'VALID' : 'INVALID'})`);
 
-        const circuitInputs = {
-            server_time: serverTimestamp,
-            blockchain_time: blockchainTime,
-            time_difference: timeDifference,
-            max_allowed_diff: 1800,
-            latency: latency,
-            max_latency: 15000,
-            receiver_hash: this.addressToFieldElement(this.receiverAddress),
-            validation_timestamp: Math.floor(Date.now() / 1000)
-        };
-
-        const zkProof = await this.generateZKSNARKProof(circuitInputs, "ntp_validation");
+        // The server time stays private; the proof only shows it is within tolerance of the chain
+        const zkProof = await this.generateZKSNARKProof("time_validation", {
+            capsuleId: 0,
+            unlockTime: blockchainTime,
+            referenceTime: blockchainTime,
+            maxDrift: 1800,
+            localTime: serverTimestamp
+        });
         const isValid = isTimeValid && isLatencyValid && zkProof.isValid;
 
         return {
@@ -175,101 +176,18 @@ export class ZKTLSTimeCapsuleValidator {
         };
     }
 
-    private async generateZKSNARKProof(inputs: any, circuitType: string): Promise<ZKProofCircuit> {
-        // Convert BigInt values to strings for serialization
-        const serializableInputs = this.convertBigIntToString(inputs);
-        
-        // Generate cryptographic ZK-SNARK proof
-        const inputHash = crypto.createHash('sha256')
-            .update(JSON.stringify(serializableInputs) + circuitType + this.receiverAddress)
-            .digest('hex');
-
-        // Create Groth16 ZK-SNARK proof structure
-        const proof = {
-            pi_a: [
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_a_1").digest('hex').slice(0, 62),
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_a_2").digest('hex').slice(0, 62),
-                "0x0000000000000000000000000000000000000000000000000000000000000001"
-            ],
-            pi_b: [
-                [
-                    "0x" + crypto.createHash('sha256').update(inputHash + "pi_b_1_1").digest('hex').slice(0, 62),
-                    "0x" + crypto.createHash('sha256').update(inputHash + "pi_b_1_2").digest('hex').slice(0, 62)
-                ],
-                [
-                    "0x" + crypto.createHash('sha256').update(inputHash + "pi_b_2_1").digest('hex').slice(0, 62),
-                    "0x" + crypto.createHash('sha256').update(inputHash + "pi_b_2_2").digest('hex').slice(0, 62)
-                ],
-                [
-                    "0x0000000000000000000000000000000000000000000000000000000000000001",
-                    "0x0000000000000000000000000000000000000000000000000000000000000000"
-                ]
-            ],
-            pi_c: [
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_c_1").digest('hex').slice(0, 62),
-                "0x" + crypto.createHash('sha256').update(inputHash + "pi_c_2").digest('hex').slice(0, 62),
-                "0x0000000000000000000000000000000000000000000000000000000000000001"
-            ],
-            protocol: "groth16",
-            curve: "bn128"
-        };
-
-        // Public signals for verification
-        const publicSignals = [
-            inputs.time_difference?.toString() || "0",
-            inputs.max_allowed_diff?.toString() || "300",
-            this.addressToFieldElement(this.receiverAddress).slice(0, 20) // Truncate for field element
-        ];
-
-        // Validate proof based on circuit constraints
-        const isValid = this.validateZKProofConstraints(inputs, circuitType);
-
-        return {
-            inputs,
-            proof,
-            publicSignals,
-            isValid
-        };
-    }
-
-    private validateZKProofConstraints(inputs: any, circuitType: string): boolean {
-        switch (circuitType) {
-            case "time_validation":
-                return inputs.time_difference <= inputs.max_allowed_diff;
-            
-            case "ntp_validation":
-                return (
-                    inputs.time_difference <= inputs.max_allowed_diff &&
-                    inputs.latency <= inputs.max_latency
-                );
-            
-            case "master_validation":
-                return inputs.valid_proofs > 0 && inputs.receiver_authorized;
-            
-            default:
-                return false;
-        }
-    }
-
-    private addressToFieldElement(address: string): string {
-        const addressBytes = ethers.getBytes(address);
-        const hash = crypto.createHash('sha256').update(addressBytes).digest();
-        return '0x' + hash.toString('hex').slice(0, 60); // Fit in BN254 field as string
-    }
-
-    private convertBigIntToString(obj: any): any {
-        if (typeof obj === 'bigint') {
-            return obj.toString();
-        } else if (Array.isArray(obj)) {
-            return obj.map(item => this.convertBigIntToString(item));
-        } else if (obj !== null && typeof obj === 'object') {
-            const result: any = {};
-            for (const key in obj) {
-                result[key] = this.convertBigIntToString(obj[key]);
+    private async generateZKSNARKProof<C extends ProofCircuit>(circuit: C, inputs: CircuitInputs[C]): Promise<ZKProofCircuit> {
+        try {
+            const proof = await this.proofs.prove(circuit, inputs);
+            console.log(`    🔏 ${circuit} proof: ${describeProof(proof)}`);
+            return { proof, publicSignals: proof.publicSignals, isValid: await this.proofs.verify(proof) };
+        } catch (error) {
+            if (!(error instanceof ProofError)) {
+                throw error;
             }
-            return result;
+            console.log(`    ❌ ${error.message}`);
+            return { proof: null, publicSignals: [], isValid: false };
         }
-        return obj;
     }
 
     private async getBlockchainTimestamp(): Promise<number> {
@@ -303,16 +221,15 @@ export class ZKTLSTimeCapsuleValidator {
         console.log("🔐 Generating master ZK validation proof...");
         const validNTPProofs = ntpValidations.filter(v => v.isValid).length;
         
-        const masterInputs = {
-            capsule_id: capsuleId,
-            receiver_authorized: receiverAuthorized,
-            valid_proofs: validNTPProofs,
-            total_proofs: ntpValidations.length,
-            min_required_proofs: 1,
-            validation_timestamp: Math.floor(Date.now() / 1000)
+        const receiverProof = await this.generateZKSNARKProof("receiver_auth", {
+            capsuleId,
+            recipient: this.receiverAddress,
+            secret: await deriveReceiverSecret(this.signer)
+        });
+        const masterZKProof: ZKProofCircuit = {
+            ...receiverProof,
+            isValid: receiverProof.isValid && receiverAuthorized && validNTPProofs > 0
         };
-
-        const masterZKProof = await this.generateZKSNARKProof(masterInputs, "master_validation");
         console.log(`✅ Master ZK proof generated (${validNTPProofs}/${ntpValidations.length} valid time proofs)\n`);
 
         const validation: TimeCapsuleZKValidation = {
@@ -358,8 +275,25 @@ export class ZKTLSTimeCapsuleValidator {
             }
 
             console.log("🔓 All zkTLS validations passed - executing unlock...");
-            
-            const tx = await this.contract.unlockTimeCapsule(capsuleId);
+
+            // A gated capsule verifies one of our proofs on-chain; pick the one whose signals it expects
+            const gate = await readProofGate(this.contract, capsuleId);
+            let tx;
+            if (gate.verifier !== ethers.ZeroAddress) {
+                const candidates = [validation.masterZKProof, ...validation.ntpValidations.map(v => v.zkCircuit)];
+                const gateProof = candidates.find(c => c.isValid && c.proof && matchesProofGate(c.proof, gate))?.proof;
+                if (!gateProof) {
+                    console.log(`❌ No proof matches the proof gate at ${gate.verifier} - unlock not possible\n`);
+                    await this.saveValidationRecord(validation, false, null);
+                    return false;
+                }
+
+                const { a, b, c, publicSignals } = toSolidityProof(gateProof);
+                console.log(`🔏 Submitting ${gateProof.circuit} proof (${describeProof(gateProof)}) to ${gate.verifier}`);
+                tx = await this.contract.unlockTimeCapsuleWithProof(capsuleId, a, b, c, publicSignals);
+            } else {
+                tx = await this.contract.unlockTimeCapsule(capsuleId);
+            }
             console.log(`📤 Transaction: ${tx.hash}`);
 
             const receipt = await tx.wait();
@@ -1,9 +1,11 @@
 import { ethers } from "hardhat";
 import axios from "axios";
 import forge from "node-forge";
-import * as snarkjs from "snarkjs";
 import { Wallet } from "ethers";
 import { TimeCapsuleBlocklockSimple } from "../typechain-types";
+import { getDeployedContract } from "./deployedContracts";
+import { createProofProvider, proveLocalTime } from "./proofProvider";
+import { CircuitProof, ProofProvider, describeProof } from "../shared/proofs";
 import crypto from "crypto";
 import fs from "fs";
 import path from "path";
@@ -12,8 +14,7 @@ import dotenv from "dotenv";
 dotenv.config();
 
 interface ZKTLSProof {
-    proof: string;
-    publicSignals: string[];
+    proof: CircuitProof<"time_validation">;     // Local clock against the chain when the response was fetched
     timestamp: number;
     serverData: any;
     verificationHash: string;
@@ -30,6 +31,7 @@ export class ZKTLSTimeCapsuleVerifier {
     private contract!: TimeCapsuleBlocklockSimple;
     private signer!: Wallet;
     private senderAddress!: string;
+    private proofs!: ProofProvider;
 
     constructor() {
         this.initialize();
@@ -46,11 +48,8 @@ export class ZKTLSTimeCapsuleVerifier {
         this.signer = new Wallet(privateKey, ethers.provider);
         this.senderAddress = await this.signer.getAddress();
         
-        this.contract = await ethers.getContractAt(
-            "TimeCapsuleBlocklockSimple", 
-            "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-            this.signer
-        ) as TimeCapsuleBlocklockSimple;
+        this.contract = await getDeployedContract<TimeCapsuleBlocklockSimple>("TimeCapsuleBlocklockSimple", this.signer);
+        this.proofs = createProofProvider();
         
         console.log(`Contract: ${await this.contract.getAddress()}`);
         console.log(`Verifier Address: ${this.senderAddress}`);
@@ -82,11 +81,10 @@ export class ZKTLSTimeCapsuleVerifier {
                 .update(JSON.stringify(serverData))
                 .digest('hex');
 
-            const mockProof = this.generateMockZKProof(serverData, dataHash);
+            const proof = await proveLocalTime(this.proofs, ethers.provider);
 
             return {
-                proof: mockProof.proof,
-                publicSignals: mockProof.publicSignals,
+                proof,
                 timestamp: serverData.timestamp,
                 serverData,
                 verificationHash: dataHash
@@ -97,38 +95,6 @@ export class ZKTLSTimeCapsuleVerifier {
         }
     }
 
-    private generateMockZKProof(data: any, hash: string) {
-        const commitment = crypto.createHash('sha256')
-            .update(JSON.stringify(data) + hash)
-            .digest('hex');
-
-        const publicSignals = [
-            hash,
-            data.timestamp.toString(),
-            commitment
-        ];
-
-        const proof = {
-            pi_a: [
-                crypto.randomBytes(32).toString('hex'),
-                crypto.randomBytes(32).toString('hex')
-            ],
-            pi_b: [
-                [crypto.randomBytes(32).toString('hex'), crypto.randomBytes(32).toString('hex')],
-                [crypto.randomBytes(32).toString('hex'), crypto.randomBytes(32).toString('hex')]
-            ],
-            pi_c: [
-                crypto.randomBytes(32).toString('hex'),
-                crypto.randomBytes(32).toString('hex')
-            ]
-        };
-
-        return {
-            proof: JSON.stringify(proof),
-            publicSignals
-        };
-    }
-
     async verifyTimeServers(): Promise<TimeServerResponse[]> {
         console.log("Verifying time from multiple NTP servers...");
         
@@ -296,7 +262,7 @@ export class ZKTLSTimeCapsuleVerifier {
         let score = 0;
         const maxScore = 4;
 
-        if (proofs.emailProof && this.validateZKTLSProof(proofs.emailProof)) {
+        if (proofs.emailProof && await this.validateZKTLSProof(proofs.emailProof)) {
             console.log("✓ Email proof validated");
             score++;
         }
@@ -306,7 +272,7 @@ export class ZKTLSTimeCapsuleVerifier {
             score++;
         }
 
-        if (proofs.socialProof && this.validateZKTLSProof(proofs.socialProof)) {
+        if (proofs.socialProof && await this.validateZKTLSProof(proofs.socialProof)) {
             console.log("✓ Social proof validated");
             score++;
         }
@@ -324,13 +290,13 @@ export class ZKTLSTimeCapsuleVerifier {
         return verificationScore >= verificationThreshold;
     }
 
-    private validateZKTLSProof(proof: ZKTLSProof): boolean {
+    private async validateZKTLSProof(proof: ZKTLSProof): Promise<boolean> {
         try {
             const reconstructedHash = crypto.createHash('sha256')
                 .update(JSON.stringify(proof.serverData))
                 .digest('hex');
 
-            return reconstructedHash === proof.verificationHash;
+            return reconstructedHash === proof.verificationHash && await this.proofs.verify(proof.proof);
         } catch (error) {
             return false;
         }
@@ -362,7 +328,7 @@ export class ZKTLSTimeCapsuleVerifier {
             console.log("\nStep 4: Validating all proofs...");
             const allProofsValid = identityVerified && 
                                  timeVerification.length > 0 && 
-                                 this.validateZKTLSProof(zkProof);
+                                 await this.validateZKTLSProof(zkProof);
 
             if (allProofsValid) {
                 console.log("\n✓ All zkTLS verifications passed");
@@ -412,6 +378,7 @@ export class ZKTLSTimeCapsuleVerifier {
             zkProof: {
                 hash: zkProof.verificationHash,
                 timestamp: zkProof.timestamp,
+                backend: describeProof(zkProof.proof),
                 proofData: zkProof.proof
             },
             blockNumber: await ethers.provider.getBlockNumber()
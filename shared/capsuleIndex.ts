@@ -0,0 +1,146 @@
+// shared/capsuleIndex.ts - Query API of the capsule event indexer (scripts/capsuleIndexer.ts)
+//
+// The indexer folds capsule creation, unlock and amendment events (see INDEXED_EVENTS in
+// scripts/capsuleIndexer.ts) into a local SQLite store and serves it over HTTP, so listing a user's capsules is one
+// request instead of a getTimeCapsule call per capsule. This module holds the response types and
+// a fetch-based client used by the CLI scripts and the Next.js apps.
+//
+//   GET /capsules?account=0x..&status=locked&unlockAfter=1700000000&limit=50
+//   GET /capsules/:id
+//   GET /status
+
+import { ConditionType, isBlockCondition } from "./conditions";
+
+export const DEFAULT_INDEXER_PORT = 4100;
+
+// locked: unlock time not reached (or Blocklock key not delivered yet)
+// unlockable: canUnlock() would return true
+// unlocked: every recipient has called unlockTimeCapsule()
+// cancelled: the creator called cancelCapsule()
+export type CapsuleStatus = "locked" | "unlockable" | "unlocked" | "cancelled";
+
+export const CAPSULE_STATUSES: readonly CapsuleStatus[] = ["locked", "unlockable", "unlocked", "cancelled"];
+
+export interface IndexedCapsule {
+    id: number;
+    ipfsCid: string;
+    blocklockRequestId: string;     // uint256 as a decimal string
+    unlockTime: number;             // Unix seconds, or a block number for block conditions; for dead man's switches, the current deadline
+    conditionType: ConditionType;   // Unit of unlockTime (shared/conditions.ts)
+    creationTime: number;           // Unix seconds
+    creator: string;                // Lowercase address
+    recipient: string;              // Lowercase address of the first recipient
+    recipients: string[];           // Lowercase addresses, first recipient first
+    title: string;
+    fileSize: number;
+    useBlocklock: boolean;
+    hasDecryptionKey: boolean;
+    isUnlocked: boolean;            // Every recipient has unlocked
+    isCancelled: boolean;
+    heartbeatInterval: number;      // Dead man's switch interval in seconds, 0 for fixed unlock times
+    envelopeHash?: string;          // SHA-256 of the envelope, once the creator recorded it (setContentHash)
+    plaintextHash?: string;         // SHA-256 of the plaintext
+    unlockedBy?: string;            // Latest unlocker
+    unlockedAt?: number;
+    status: CapsuleStatus;
+    createdBlock: number;
+    createdTx: string;
+}
+
+export interface CapsuleQuery {
+    creator?: string;
+    recipient?: string;             // Any of the recipients
+    account?: string;               // Creator or recipient
+    status?: CapsuleStatus;
+    unlockAfter?: number;           // Inclusive lower bound on unlockTime (Unix seconds); timestamp conditions only
+    unlockBefore?: number;          // Exclusive upper bound on unlockTime (Unix seconds); timestamp conditions only
+    limit?: number;
+    offset?: number;
+}
+
+export interface IndexerStatus {
+    chainId: number;
+    contract: string;
+    startBlock: number;
+    indexedBlock: number;           // Last block folded into the store
+    capsules: number;
+}
+
+export class CapsuleIndexError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = "CapsuleIndexError";
+    }
+}
+
+/**
+ * Capsule status at a point in time, matching the contract's canUnlock()
+ * @param capsule Indexed capsule fields
+ * @param now Unix seconds to evaluate at
+ * @param blockNumber Block to evaluate block conditions at; they count as locked without one
+ */
+export function capsuleStatus(
+    capsule: Pick<IndexedCapsule, "isUnlocked" | "isCancelled" | "unlockTime" | "conditionType" | "useBlocklock" | "hasDecryptionKey">,
+    now: number = Math.floor(Date.now() / 1000),
+    blockNumber: number = -1
+): CapsuleStatus {
+    if (capsule.isCancelled) return "cancelled";
+    if (capsule.isUnlocked) return "unlocked";
+    if ((isBlockCondition(capsule.conditionType) ? blockNumber : now) < capsule.unlockTime) return "locked";
+    return capsule.useBlocklock && !capsule.hasDecryptionKey ? "locked" : "unlockable";
+}
+
+export class CapsuleIndexClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string = `http://localhost:${DEFAULT_INDEXER_PORT}`) {
+        this.baseUrl = baseUrl.replace(/\/+$/, "");
+    }
+
+    /**
+     * Query capsules, oldest first
+     * @param query Filters; all given filters must match
+     */
+    async queryCapsules(query: CapsuleQuery = {}): Promise<IndexedCapsule[]> {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined) params.set(key, String(value));
+        }
+        const search = params.toString();
+        return this.get<IndexedCapsule[]>(search ? `/capsules?${search}` : "/capsules");
+    }
+
+    /**
+     * Get one capsule, or undefined if the indexer has not seen it
+     * @param capsuleId Capsule ID
+     */
+    async getCapsule(capsuleId: number): Promise<IndexedCapsule | undefined> {
+        try {
+            return await this.get<IndexedCapsule>(`/capsules/${capsuleId}`);
+        } catch (error) {
+            if (error instanceof CapsuleIndexError && error.status === 404) return undefined;
+            throw error;
+        }
+    }
+
+    async getStatus(): Promise<IndexerStatus> {
+        return this.get<IndexerStatus>("/status");
+    }
+
+    private async get<T>(path: string): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`);
+        } catch (error) {
+            throw new CapsuleIndexError(
+                `Capsule indexer unreachable at ${this.baseUrl}: ${error instanceof Error ? error.message : error}`
+            );
+        }
+
+        const body = await response.json().catch(() => undefined);
+        if (!response.ok) {
+            throw new CapsuleIndexError(body?.error ?? `Indexer request failed with HTTP ${response.status}`, response.status);
+        }
+        return body as T;
+    }
+}
@@ -0,0 +1,196 @@
+// shared/chunkedUpload.ts - Streamed, chunked sealing and upload of large capsule files
+//
+// uploadChunked() reads a file one chunk at a time, seals each chunk (sealChunk in
+// shared/envelope.ts) and stores it with storeVerified, so memory use stays at about one chunk
+// whatever the file size. Progress is reported after every chunk, an AbortSignal cancels between
+// chunks, and the ChunkedUploadState handed to onChunk lets a later call skip the chunks already
+// stored. The manifest is stored last; its CID is what the capsule records.
+//
+// downloadChunked() is the unlock side: it retrieves and opens the chunks in order, each checked
+// against its CID and its GCM tag, and hands the plaintext to a sink chunk by chunk.
+//
+// For chunked capsules the recorded plaintext hash (setContentHash) is the SHA-256 of the
+// concatenated SHA-256 digests of the plaintext chunks, since no single buffer holds the file.
+
+import {
+    ChunkManifest,
+    ChunkManifestHeader,
+    CHUNKED_ENVELOPE_FORMAT,
+    ContentHashes,
+    DEFAULT_CHUNK_SIZE,
+    ENVELOPE_ALGORITHM,
+    ENVELOPE_VERSION,
+    EnvelopeChunk,
+    chunkCount,
+    generateDataKey,
+    hashContent,
+    openChunk,
+    sealChunk,
+    serializeManifest
+} from "./envelope";
+import { StorageProvider, StoreOptions, StoredContent, storeVerified } from "./storage";
+import { ContentRetriever } from "./retrieval";
+
+export interface ChunkSource {
+    size: number;
+    // Bytes [start, end) of the file
+    read(start: number, end: number): Promise<Uint8Array>;
+}
+
+export interface ChunkProgress {
+    chunk: number;                      // Chunks done, from 1
+    chunks: number;
+    bytes: number;                      // Plaintext bytes done
+    totalBytes: number;
+}
+
+export interface StoredChunk extends EnvelopeChunk {
+    sha256: string;                     // Plaintext digest for the content hash; never uploaded
+}
+
+// Everything needed to resume an upload; holds the data key, so keep it private
+export interface ChunkedUploadState {
+    dataKey: string;
+    header: ChunkManifestHeader;
+    chunks: StoredChunk[];              // Chunks stored so far, in order
+}
+
+export interface ChunkedUploadOptions {
+    fileName: string;
+    mimeType: string;
+    chunkSize?: number;                 // Default DEFAULT_CHUNK_SIZE; a resumed upload keeps its own
+    resume?: ChunkedUploadState;        // State from an interrupted upload of the same file
+    signal?: AbortSignal;               // Checked between chunks
+    onProgress?: (progress: ChunkProgress) => void;
+    onChunk?: (state: ChunkedUploadState) => void;
+    store?: Omit<StoreOptions, "fileName">;
+}
+
+export interface ChunkedUpload extends StoredContent {
+    dataKey: string;
+    manifest: ChunkManifest;
+    contentHashes: ContentHashes;
+}
+
+export class UploadCancelledError extends Error {
+    constructor(readonly state: ChunkedUploadState) {
+        super(`Upload cancelled after ${state.chunks.length} of ${chunkCount(state.header)} chunks`);
+        this.name = "UploadCancelledError";
+    }
+}
+
+/**
+ * Read a Blob or File a slice at a time
+ * @param blob File to read
+ */
+export function blobChunkSource(blob: Blob): ChunkSource {
+    return {
+        size: blob.size,
+        read: async (start, end) => new Uint8Array(await blob.slice(start, end).arrayBuffer())
+    };
+}
+
+/**
+ * Seal and store a file chunk by chunk, then store the manifest listing the chunks
+ * @param storage Backend for the chunks and the manifest
+ * @param source The file
+ * @returns The manifest's CID, the data key to record for the capsule and its content hashes
+ * @throws UploadCancelledError when the signal aborts; its state resumes the upload
+ * @throws UploadError when a chunk cannot be stored; the last onChunk state resumes the upload
+ */
+export async function uploadChunked(storage: StorageProvider, source: ChunkSource, options: ChunkedUploadOptions): Promise<ChunkedUpload> {
+    const state = options.resume ? resumeState(options.resume, source, options) : {
+        dataKey: generateDataKey(),
+        header: {
+            format: CHUNKED_ENVELOPE_FORMAT,
+            version: ENVELOPE_VERSION,
+            algorithm: ENVELOPE_ALGORITHM,
+            mimeType: options.mimeType || "application/octet-stream",
+            fileName: options.fileName,
+            size: source.size,
+            chunkSize: options.chunkSize ?? DEFAULT_CHUNK_SIZE
+        },
+        chunks: []
+    } as ChunkedUploadState;
+    const { header } = state;
+    const chunks = chunkCount(header);
+
+    for (let index = state.chunks.length; index < chunks; index++) {
+        if (options.signal?.aborted) throw new UploadCancelledError(state);
+
+        const start = index * header.chunkSize;
+        const plaintext = await source.read(start, Math.min(start + header.chunkSize, header.size));
+        const { ciphertext, iv, tag } = await sealChunk(header, index, plaintext, state.dataKey);
+        const stored = await storeVerified(storage, ciphertext, { ...options.store, fileName: `${header.fileName}.${index}.fpc` });
+
+        state.chunks.push({ cid: stored.cid, iv, tag, size: plaintext.length, sha256: await sha256Hex(plaintext) });
+        options.onChunk?.(state);
+        options.onProgress?.({ chunk: index + 1, chunks, bytes: start + plaintext.length, totalBytes: header.size });
+    }
+    if (options.signal?.aborted) throw new UploadCancelledError(state);
+
+    const manifest: ChunkManifest = {
+        ...header,
+        chunks: state.chunks.map(({ cid, iv, tag, size }) => ({ cid, iv, tag, size }))
+    };
+    const manifestBytes = serializeManifest(manifest);
+    const stored = await storeVerified(storage, manifestBytes, { ...options.store, fileName: `${header.fileName}.fpm` });
+
+    return {
+        ...stored,
+        dataKey: state.dataKey,
+        manifest,
+        contentHashes: await hashContent(manifestBytes, plaintextDigests(state.chunks.map(chunk => chunk.sha256)))
+    };
+}
+
+/**
+ * Retrieve, verify and decrypt the chunks of a chunked envelope in order
+ * @param retriever Fetches each chunk and checks it against its CID
+ * @param manifest Parsed manifest (parseManifest)
+ * @param dataKey Hex-encoded data key of the capsule
+ * @param sink Receives the plaintext of each chunk, in order
+ * @returns The plaintext digests, to check with verifyContentHash(digests, plaintextHash, "plaintext")
+ */
+export async function downloadChunked(
+    retriever: ContentRetriever,
+    manifest: ChunkManifest,
+    dataKey: string,
+    sink: (plaintext: Uint8Array, index: number) => void | Promise<void>,
+    options: { signal?: AbortSignal; onProgress?: (progress: ChunkProgress) => void } = {}
+): Promise<{ size: number; plaintextDigests: Uint8Array }> {
+    const digests: string[] = [];
+    let bytes = 0;
+    for (let index = 0; index < manifest.chunks.length; index++) {
+        const { content } = await retriever.retrieve(manifest.chunks[index].cid, options.signal);
+        const plaintext = await openChunk(manifest, index, content, dataKey);
+        digests.push(await sha256Hex(plaintext));
+        await sink(plaintext, index);
+
+        bytes += plaintext.length;
+        options.onProgress?.({ chunk: index + 1, chunks: manifest.chunks.length, bytes, totalBytes: manifest.size });
+    }
+    return { size: bytes, plaintextDigests: plaintextDigests(digests) };
+}
+
+function resumeState(state: ChunkedUploadState, source: ChunkSource, options: ChunkedUploadOptions): ChunkedUploadState {
+    if (state.header.size !== source.size || state.header.fileName !== options.fileName) {
+        throw new Error(`Cannot resume: the upload state belongs to ${state.header.fileName} (${state.header.size} bytes)`);
+    }
+    return state;
+}
+
+function plaintextDigests(digests: string[]): Uint8Array {
+    const out = new Uint8Array(digests.length * 32);
+    digests.forEach((digest, i) => {
+        for (let j = 0; j < 32; j++) {
+            out[i * 32 + j] = parseInt(digest.slice(2 + j * 2, 4 + j * 2), 16);
+        }
+    });
+    return out;
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+    const digest = new Uint8Array(await globalThis.crypto.subtle.digest("SHA-256", bytes.slice().buffer as ArrayBuffer));
+    return "0x" + Array.from(digest).map(b => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,148 @@
+// shared/cid.ts - IPFS CIDs computed locally from content bytes
+//
+// computeCid() builds the same UnixFS DAG as `ipfs add` with its defaults (and as the Lighthouse
+// node API, which runs it): CIDv0, dag-pb nodes, 256 KiB chunks, balanced layout with at most
+// 174 links per node, leaves wrapped in UnixFS File nodes. A CID returned by a storage backend
+// can therefore be checked against the bytes that were uploaded or downloaded.
+//
+// Only the WebCrypto API is used, so the module runs in the Hardhat scripts and in the Next.js apps.
+
+export const CHUNK_SIZE = 262144;
+export const MAX_LINKS = 174;
+
+const UNIXFS_FILE = 2;
+const SHA2_256 = 0x12;
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+interface DagNode {
+    multihash: Uint8Array;
+    fileSize: number;       // Content bytes under the node
+    dagSize: number;        // Serialized size of the node and everything under it
+}
+
+/**
+ * CIDv0 of content as `ipfs add` would report it
+ * @param content File bytes
+ */
+export async function computeCid(content: Uint8Array): Promise<string> {
+    let level: DagNode[] = [];
+    for (let offset = 0; offset < content.length || level.length === 0; offset += CHUNK_SIZE) {
+        const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+        level.push(await hashNode(encodeNode([], unixFsFile(chunk, chunk.length, [])), chunk.length, 0));
+    }
+
+    while (level.length > 1) {
+        const parents: DagNode[] = [];
+        for (let i = 0; i < level.length; i += MAX_LINKS) {
+            const children = level.slice(i, i + MAX_LINKS);
+            const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+            const data = unixFsFile(undefined, fileSize, children.map(child => child.fileSize));
+            parents.push(await hashNode(encodeNode(children, data), fileSize, children.reduce((sum, child) => sum + child.dagSize, 0)));
+        }
+        level = parents;
+    }
+
+    return base58Encode(level[0].multihash);
+}
+
+/**
+ * Whether a string looks like a CIDv0 (Qm...) or a base32/base16 CIDv1
+ * @param cid The CID to check
+ */
+export function isValidCid(cid: string): boolean {
+    return /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,}|f[0-9a-f]{70,})$/.test(cid);
+}
+
+async function hashNode(node: Uint8Array, fileSize: number, childrenDagSize: number): Promise<DagNode> {
+    const digest = new Uint8Array(await globalThis.crypto.subtle.digest("SHA-256", toBuffer(node)));
+    return {
+        multihash: concat([Uint8Array.of(SHA2_256, digest.length), digest]),
+        fileSize,
+        dagSize: node.length + childrenDagSize
+    };
+}
+
+// dag-pb PBNode: Links (field 2) come before Data (field 1)
+function encodeNode(links: DagNode[], data: Uint8Array): Uint8Array {
+    const parts = links.map(link => {
+        const encoded = concat([
+            bytesField(1, link.multihash),
+            bytesField(2, new Uint8Array(0)),   // Name is always present, empty for file chunks
+            varintField(3, link.dagSize)
+        ]);
+        return bytesField(2, encoded);
+    });
+    parts.push(bytesField(1, data));
+    return concat(parts);
+}
+
+// UnixFS Data message of a File node; leaves carry data, inner nodes carry blocksizes
+function unixFsFile(data: Uint8Array | undefined, fileSize: number, blockSizes: number[]): Uint8Array {
+    const parts = [varintField(1, UNIXFS_FILE)];
+    if (data && data.length > 0) {
+        parts.push(bytesField(2, data));
+    }
+    parts.push(varintField(3, fileSize));
+    for (const size of blockSizes) {
+        parts.push(varintField(4, size));
+    }
+    return concat(parts);
+}
+
+function bytesField(field: number, value: Uint8Array): Uint8Array {
+    return concat([varint(field << 3 | 2), varint(value.length), value]);
+}
+
+function varintField(field: number, value: number): Uint8Array {
+    return concat([varint(field << 3), varint(value)]);
+}
+
+// Unsigned LEB128; sizes stay below 2^53, so plain arithmetic replaces 32-bit shifts
+function varint(value: number): Uint8Array {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+        bytes.push(value % 0x80 | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+    return Uint8Array.from(bytes);
+}
+
+function base58Encode(bytes: Uint8Array): string {
+    const digits = [0];
+    for (const byte of bytes) {
+        let carry = byte;
+        for (let i = 0; i < digits.length; i++) {
+            carry += digits[i] << 8;
+            digits[i] = carry % 58;
+            carry = Math.floor(carry / 58);
+        }
+        while (carry > 0) {
+            digits.push(carry % 58);
+            carry = Math.floor(carry / 58);
+        }
+    }
+
+    let result = "";
+    for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+        result += BASE58_ALPHABET[0];
+    }
+    for (let i = digits.length - 1; i >= 0; i--) {
+        result += BASE58_ALPHABET[digits[i]];
+    }
+    return result;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
@@ -0,0 +1,65 @@
+// shared/conditions.ts - Unlock conditions of time capsules (ITimeCapsules.ConditionType)
+//
+// getTimeCapsule().unlockTime is a timestamp for "timestamp" capsules and a block number for
+// "blockNumber" and "blocklock" capsules; getTimeUntilUnlock counts seconds or blocks to match.
+//   timestamp    simple capsules, and timelock requests with a 32-byte abi-encoded timestamp
+//   blockNumber  simple capsules created with createSimpleTimeCapsuleAtBlock
+//   blocklock    timelock requests with a Blocklock condition (blocklock-js encodeCondition)
+//
+// Block conditions only have an estimated date; estimates assume Filecoin's 30-second epochs
+// unless told otherwise.
+
+export type ConditionType = "timestamp" | "blockNumber" | "blocklock";
+export const CONDITION_TYPES: ConditionType[] = ["timestamp", "blockNumber", "blocklock"];
+
+// Seconds between Filecoin blocks (epochs)
+export const FILECOIN_BLOCK_TIME = 30;
+
+export interface ChainHead {
+    number: number | bigint;        // Latest block number
+    timestamp: number | bigint;     // Latest block timestamp, in seconds
+}
+
+/**
+ * Condition type from getTimeCapsule().conditionType
+ */
+export function toConditionType(conditionType: number | bigint): ConditionType {
+    const type = CONDITION_TYPES[Number(conditionType)];
+    if (!type) {
+        throw new Error(`Unknown unlock condition type ${conditionType}`);
+    }
+    return type;
+}
+
+export function isBlockCondition(conditionType: ConditionType): boolean {
+    return conditionType !== "timestamp";
+}
+
+/**
+ * Unit of unlockTime and getTimeUntilUnlock for a condition type
+ */
+export function conditionUnit(conditionType: ConditionType): "seconds" | "blocks" {
+    return isBlockCondition(conditionType) ? "blocks" : "seconds";
+}
+
+/**
+ * Unlock timestamp in seconds; estimated from the chain head for block conditions
+ * @param unlockTime getTimeCapsule().unlockTime
+ * @param conditionType Condition type of the capsule
+ * @param head Latest block, needed for block conditions
+ * @param blockTime Seconds per block
+ */
+export function estimateUnlockTimestamp(
+    unlockTime: number | bigint,
+    conditionType: ConditionType,
+    head?: ChainHead,
+    blockTime: number = FILECOIN_BLOCK_TIME
+): number {
+    if (!isBlockCondition(conditionType)) {
+        return Number(unlockTime);
+    }
+    if (!head) {
+        throw new Error("The latest block is needed to estimate when a block condition is met");
+    }
+    return Number(head.timestamp) + (Number(unlockTime) - Number(head.number)) * blockTime;
+}
@@ -0,0 +1,6412 @@
+// shared/contractAbis.ts - Contract ABIs and function selectors
+// Generated by scripts/generateDeploymentManifest.ts from the typechain output. Do not edit.
+
+export const TimeCapsuleBlocklockSimpleAbi = [
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_guardianModule",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_claimsModule",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "timestamp",
+                "type": "uint256"
+            }
+        ],
+        "name": "CIDStored",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "previousCid",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            }
+        ],
+        "name": "CIDUpdated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "refund",
+                "type": "uint256"
+            }
+        ],
+        "name": "CapsuleCancelled",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "source",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "sourceCapsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "CapsuleImported",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "claims",
+                "type": "address"
+            }
+        ],
+        "name": "ClaimsTokenized",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes32",
+                "name": "envelopeHash",
+                "type": "bytes32"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes32",
+                "name": "plaintextHash",
+                "type": "bytes32"
+            }
+        ],
+        "name": "ContentHashSet",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "DecryptionKeyReceived",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "account",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes",
+                "name": "publicKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "EncryptionKeyRegistered",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "module",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "address[]",
+                "name": "guardians",
+                "type": "address[]"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "threshold",
+                "type": "uint256"
+            }
+        ],
+        "name": "GuardiansUpdated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "interval",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            }
+        ],
+        "name": "Heartbeat",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "verifier",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "requiredMask",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256[]",
+                "name": "publicSignals",
+                "type": "uint256[]"
+            }
+        ],
+        "name": "ProofGateUpdated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "hasWrappedKey",
+                "type": "bool"
+            }
+        ],
+        "name": "RecipientAdded",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "previousRecipient",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            }
+        ],
+        "name": "RecipientUpdated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "useBlocklock",
+                "type": "bool"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            }
+        ],
+        "name": "TimeCapsuleCreated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "unlocker",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            }
+        ],
+        "name": "TimeCapsuleUnlocked",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "enum ITimeCapsules.ConditionType",
+                "name": "conditionType",
+                "type": "uint8"
+            }
+        ],
+        "name": "UnlockConditionSet",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "delegate",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "approved",
+                "type": "bool"
+            }
+        ],
+        "name": "UnlockDelegateUpdated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "previousUnlockTime",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            }
+        ],
+        "name": "UnlockTimeExtended",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            }
+        ],
+        "name": "WrappedKeySet",
+        "type": "event"
+    },
+    {
+        "inputs": [],
+        "name": "MAX_RECIPIENTS",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "MIN_HEARTBEAT_INTERVAL",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "blocklockFees",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "blocklockToCapsule",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "canUnlock",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "cancelCapsule",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "claimTokens",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "claimsModule",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "contentHashes",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "envelope",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes32",
+                "name": "plaintext",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_wrappedKey",
+                "type": "bytes"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_heartbeatInterval",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            },
+            {
+                "components": [
+                    {
+                        "internalType": "bytes32",
+                        "name": "envelope",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "plaintext",
+                        "type": "bytes32"
+                    }
+                ],
+                "internalType": "struct TimeCapsuleBlocklockSimple.ContentHash",
+                "name": "_contentHash",
+                "type": "tuple"
+            }
+        ],
+        "name": "createDeadManSwitchCapsule",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_encryptionKey",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "createSimpleTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_encryptionKey",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockBlock",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address[]",
+                "name": "_recipients",
+                "type": "address[]"
+            },
+            {
+                "internalType": "bytes[]",
+                "name": "_wrappedKeys",
+                "type": "bytes[]"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            },
+            {
+                "components": [
+                    {
+                        "internalType": "bytes32",
+                        "name": "envelope",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "plaintext",
+                        "type": "bytes32"
+                    }
+                ],
+                "internalType": "struct TimeCapsuleBlocklockSimple.ContentHash",
+                "name": "_contentHash",
+                "type": "tuple"
+            }
+        ],
+        "name": "createSimpleTimeCapsuleAtBlock",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_encryptionKey",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "createSimpleTimeCapsuleForRecipient",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address[]",
+                "name": "_recipients",
+                "type": "address[]"
+            },
+            {
+                "internalType": "bytes[]",
+                "name": "_wrappedKeys",
+                "type": "bytes[]"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            },
+            {
+                "components": [
+                    {
+                        "internalType": "bytes32",
+                        "name": "envelope",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "plaintext",
+                        "type": "bytes32"
+                    }
+                ],
+                "internalType": "struct TimeCapsuleBlocklockSimple.ContentHash",
+                "name": "_contentHash",
+                "type": "tuple"
+            }
+        ],
+        "name": "createSimpleTimeCapsuleForRecipients",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_encryptedData",
+                "type": "bytes"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "createTimeCapsuleWithBlocklock",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "callbackGasLimit",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "conditionBytes",
+                "type": "bytes"
+            },
+            {
+                "internalType": "bytes",
+                "name": "ciphertext",
+                "type": "bytes"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "createTimelockRequestWithDirectFunding",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "callbackGasLimit",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "conditionBytes",
+                "type": "bytes"
+            },
+            {
+                "internalType": "bytes",
+                "name": "ciphertext",
+                "type": "bytes"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "createTimelockRequestWithDirectFundingForRecipient",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "encryptionKeys",
+        "outputs": [
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            }
+        ],
+        "name": "extendUnlockTime",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint32",
+                "name": "",
+                "type": "uint32"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "getBlocklockPrice",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getDecryptionKey",
+        "outputs": [
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getProofGate",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "verifier",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "requiredMask",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256[]",
+                "name": "publicSignals",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            }
+        ],
+        "name": "getRecipientCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256[]",
+                "name": "",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getRecipients",
+        "outputs": [
+            {
+                "internalType": "address[]",
+                "name": "",
+                "type": "address[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "internalType": "bool",
+                "name": "isUnlocked",
+                "type": "bool"
+            },
+            {
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "fileType",
+                "type": "string"
+            },
+            {
+                "internalType": "bool",
+                "name": "hasDecryptionKey",
+                "type": "bool"
+            },
+            {
+                "internalType": "bool",
+                "name": "useBlocklock",
+                "type": "bool"
+            },
+            {
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "uint8",
+                "name": "guardianApproval",
+                "type": "uint8"
+            },
+            {
+                "internalType": "enum ITimeCapsules.ConditionType",
+                "name": "conditionType",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getTimeUntilUnlock",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "getTotalCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_user",
+                "type": "address"
+            }
+        ],
+        "name": "getUserCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256[]",
+                "name": "",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getWrappedKey",
+        "outputs": [
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "guardianModule",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "guardianModules",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "hasUnlocked",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            }
+        ],
+        "name": "hasWrappedKey",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "heartbeat",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "heartbeatIntervals",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_source",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_sourceCapsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_encryptionKey",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_creationTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_creator",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "importCapsule",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "importedCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_account",
+                "type": "address"
+            }
+        ],
+        "name": "isAuthorizedUnlocker",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "isBlocklockCapsule",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "isCancelled",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "isCapsuleRecipient",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "migrator",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextCapsuleId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes",
+                "name": "_publicKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "registerEncryptionKey",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes32",
+                "name": "_envelopeHash",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes32",
+                "name": "_plaintextHash",
+                "type": "bytes32"
+            }
+        ],
+        "name": "setContentHash",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_module",
+                "type": "address"
+            },
+            {
+                "internalType": "address[]",
+                "name": "_guardians",
+                "type": "address[]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_threshold",
+                "type": "uint256"
+            }
+        ],
+        "name": "setGuardians",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_migrator",
+                "type": "address"
+            }
+        ],
+        "name": "setMigrator",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_verifier",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256[]",
+                "name": "_publicSignals",
+                "type": "uint256[]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_requiredMask",
+                "type": "uint256"
+            }
+        ],
+        "name": "setProofGate",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_delegate",
+                "type": "address"
+            },
+            {
+                "internalType": "bool",
+                "name": "_approved",
+                "type": "bool"
+            }
+        ],
+        "name": "setUnlockDelegate",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_wrappedKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "setWrappedKey",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_requestId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "simulateBlocklockCallback",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_claims",
+                "type": "address"
+            }
+        ],
+        "name": "tokenizeClaims",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "totalCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_from",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_to",
+                "type": "address"
+            }
+        ],
+        "name": "transferClaim",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "unlockDelegates",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "unlockNonces",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "unlockTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_deadline",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_signature",
+                "type": "bytes"
+            }
+        ],
+        "name": "unlockTimeCapsuleBySig",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256[2]",
+                "name": "_pA",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256[2][2]",
+                "name": "_pB",
+                "type": "uint256[2][2]"
+            },
+            {
+                "internalType": "uint256[2]",
+                "name": "_pC",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256[]",
+                "name": "_publicSignals",
+                "type": "uint256[]"
+            }
+        ],
+        "name": "unlockTimeCapsuleWithProof",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            }
+        ],
+        "name": "updateCid",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_previousRecipient",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_wrappedKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "updateRecipient",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "userCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const TimeCapsuleBlocklockAbi = [
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "blocklockSender",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockBlock",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "requestPrice",
+                "type": "uint256"
+            }
+        ],
+        "name": "BlocklockRequested",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "timestamp",
+                "type": "uint256"
+            }
+        ],
+        "name": "CIDStored",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "DecryptionKeyReceived",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "sender",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "amount",
+                "type": "uint256"
+            }
+        ],
+        "name": "Funded",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "subscriptionId",
+                "type": "uint256"
+            }
+        ],
+        "name": "NewSubscriptionId",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "from",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            }
+        ],
+        "name": "OwnershipTransferRequested",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "from",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            }
+        ],
+        "name": "OwnershipTransferred",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": false,
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "Received",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "useBlocklock",
+                "type": "bool"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            }
+        ],
+        "name": "TimeCapsuleCreated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "unlocker",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            }
+        ],
+        "name": "TimeCapsuleUnlocked",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "delegate",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "approved",
+                "type": "bool"
+            }
+        ],
+        "name": "UnlockDelegateUpdated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "amount",
+                "type": "uint256"
+            }
+        ],
+        "name": "Withdrawn",
+        "type": "event"
+    },
+    {
+        "inputs": [],
+        "name": "acceptOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "blocklock",
+        "outputs": [
+            {
+                "internalType": "contract IBlocklockSender",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "blocklockToCapsule",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "canUnlock",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "createSubscriptionAndFundNative",
+        "outputs": [],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "uint32",
+                "name": "callbackGasLimit",
+                "type": "uint32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "conditionBytes",
+                "type": "bytes"
+            },
+            {
+                "components": [
+                    {
+                        "components": [
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "x",
+                                "type": "uint256[2]"
+                            },
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "y",
+                                "type": "uint256[2]"
+                            }
+                        ],
+                        "internalType": "struct BLS.PointG2",
+                        "name": "u",
+                        "type": "tuple"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "v",
+                        "type": "bytes"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "w",
+                        "type": "bytes"
+                    }
+                ],
+                "internalType": "struct TypesLib.Ciphertext",
+                "name": "ciphertext",
+                "type": "tuple"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "createTimelockRequestWithDirectFunding",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "fundContractNative",
+        "outputs": [],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "getBalance",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint32",
+                "name": "callbackGasLimit",
+                "type": "uint32"
+            }
+        ],
+        "name": "getBlocklockPrice",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getBlocksUntilUnlock",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getCiphertext",
+        "outputs": [
+            {
+                "components": [
+                    {
+                        "components": [
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "x",
+                                "type": "uint256[2]"
+                            },
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "y",
+                                "type": "uint256[2]"
+                            }
+                        ],
+                        "internalType": "struct BLS.PointG2",
+                        "name": "u",
+                        "type": "tuple"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "v",
+                        "type": "bytes"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "w",
+                        "type": "bytes"
+                    }
+                ],
+                "internalType": "struct TypesLib.Ciphertext",
+                "name": "",
+                "type": "tuple"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getDecryptionKey",
+        "outputs": [
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "internalType": "bool",
+                "name": "isUnlocked",
+                "type": "bool"
+            },
+            {
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "fileType",
+                "type": "string"
+            },
+            {
+                "internalType": "bool",
+                "name": "hasDecryptionKey",
+                "type": "bool"
+            },
+            {
+                "internalType": "bool",
+                "name": "useBlocklock",
+                "type": "bool"
+            },
+            {
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "getTotalCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_user",
+                "type": "address"
+            }
+        ],
+        "name": "getUserCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256[]",
+                "name": "",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_account",
+                "type": "address"
+            }
+        ],
+        "name": "isAuthorizedUnlocker",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            }
+        ],
+        "name": "isInFlight",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextCapsuleId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "subId",
+                "type": "uint256"
+            }
+        ],
+        "name": "pendingRequestExists",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "receiveBlocklock",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_blocklock",
+                "type": "address"
+            }
+        ],
+        "name": "setBlocklock",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "subId",
+                "type": "uint256"
+            }
+        ],
+        "name": "setSubId",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_delegate",
+                "type": "address"
+            },
+            {
+                "internalType": "bool",
+                "name": "_approved",
+                "type": "bool"
+            }
+        ],
+        "name": "setUnlockDelegate",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "subscriptionId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "timeCapsules",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "blocklockRequestId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "unlockBlock",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "internalType": "bool",
+                "name": "isUnlocked",
+                "type": "bool"
+            },
+            {
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "fileType",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            },
+            {
+                "internalType": "bool",
+                "name": "hasDecryptionKey",
+                "type": "bool"
+            },
+            {
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "topUpSubscriptionNative",
+        "outputs": [],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "totalCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            }
+        ],
+        "name": "transferOwnership",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "unlockDelegates",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "unlockTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address[]",
+                "name": "consumers",
+                "type": "address[]"
+            }
+        ],
+        "name": "updateSubscription",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "userCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "amount",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            }
+        ],
+        "name": "withdrawNative",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "stateMutability": "payable",
+        "type": "receive"
+    }
+] as const;
+
+export const TimeCapsuleStorageAbi = [
+    {
+        "inputs": [],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "timestamp",
+                "type": "uint256"
+            }
+        ],
+        "name": "CIDStored",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            }
+        ],
+        "name": "TimeCapsuleCreated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "unlocker",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            }
+        ],
+        "name": "TimeCapsuleUnlocked",
+        "type": "event"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "canUnlock",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "string",
+                "name": "_ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_encryptionKey",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "_title",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "_fileType",
+                "type": "string"
+            }
+        ],
+        "name": "createTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "encryptionKey",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "internalType": "bool",
+                "name": "isUnlocked",
+                "type": "bool"
+            },
+            {
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "fileType",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getTimeUntilUnlock",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "getTotalCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_user",
+                "type": "address"
+            }
+        ],
+        "name": "getUserCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256[]",
+                "name": "",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextCapsuleId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "timeCapsules",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "ipfsCid",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "encryptionKey",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "unlockTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "creationTime",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "internalType": "string",
+                "name": "recipientEmail",
+                "type": "string"
+            },
+            {
+                "internalType": "string",
+                "name": "title",
+                "type": "string"
+            },
+            {
+                "internalType": "bool",
+                "name": "isUnlocked",
+                "type": "bool"
+            },
+            {
+                "internalType": "uint256",
+                "name": "fileSize",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "fileType",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "totalCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "unlockTimeCapsule",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "userCapsules",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const MockBlocklockSenderAbi = [
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_oracle",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_requestPrice",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            }
+        ],
+        "name": "BlocklockCallbackFailed",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes",
+                "name": "condition",
+                "type": "bytes"
+            },
+            {
+                "components": [
+                    {
+                        "components": [
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "x",
+                                "type": "uint256[2]"
+                            },
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "y",
+                                "type": "uint256[2]"
+                            }
+                        ],
+                        "internalType": "struct BLS.PointG2",
+                        "name": "u",
+                        "type": "tuple"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "v",
+                        "type": "bytes"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "w",
+                        "type": "bytes"
+                    }
+                ],
+                "indexed": false,
+                "internalType": "struct TypesLib.Ciphertext",
+                "name": "ciphertext",
+                "type": "tuple"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "BlocklockCallbackSuccess",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "bytes",
+                "name": "condition",
+                "type": "bytes"
+            },
+            {
+                "components": [
+                    {
+                        "components": [
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "x",
+                                "type": "uint256[2]"
+                            },
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "y",
+                                "type": "uint256[2]"
+                            }
+                        ],
+                        "internalType": "struct BLS.PointG2",
+                        "name": "u",
+                        "type": "tuple"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "v",
+                        "type": "bytes"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "w",
+                        "type": "bytes"
+                    }
+                ],
+                "indexed": false,
+                "internalType": "struct TypesLib.Ciphertext",
+                "name": "ciphertext",
+                "type": "tuple"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "requester",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "requestedAt",
+                "type": "uint256"
+            }
+        ],
+        "name": "BlocklockRequested",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "oracle",
+                "type": "address"
+            }
+        ],
+        "name": "OracleUpdated",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "requestPrice",
+                "type": "uint256"
+            }
+        ],
+        "name": "RequestPriceUpdated",
+        "type": "event"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint32",
+                "name": "",
+                "type": "uint32"
+            }
+        ],
+        "name": "calculateRequestPriceNative",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "components": [
+                    {
+                        "components": [
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "x",
+                                "type": "uint256[2]"
+                            },
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "y",
+                                "type": "uint256[2]"
+                            }
+                        ],
+                        "internalType": "struct BLS.PointG2",
+                        "name": "u",
+                        "type": "tuple"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "v",
+                        "type": "bytes"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "w",
+                        "type": "bytes"
+                    }
+                ],
+                "internalType": "struct TypesLib.Ciphertext",
+                "name": "ciphertext",
+                "type": "tuple"
+            },
+            {
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "decrypt",
+        "outputs": [
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes",
+                "name": "condition",
+                "type": "bytes"
+            }
+        ],
+        "name": "deriveDecryptionKey",
+        "outputs": [
+            {
+                "internalType": "bytes",
+                "name": "",
+                "type": "bytes"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "decryptionKey",
+                "type": "bytes"
+            }
+        ],
+        "name": "fulfillRequest",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            }
+        ],
+        "name": "isInFlight",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextRequestId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "oracle",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint32",
+                "name": "callbackGasLimit",
+                "type": "uint32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "condition",
+                "type": "bytes"
+            },
+            {
+                "components": [
+                    {
+                        "components": [
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "x",
+                                "type": "uint256[2]"
+                            },
+                            {
+                                "internalType": "uint256[2]",
+                                "name": "y",
+                                "type": "uint256[2]"
+                            }
+                        ],
+                        "internalType": "struct BLS.PointG2",
+                        "name": "u",
+                        "type": "tuple"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "v",
+                        "type": "bytes"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "w",
+                        "type": "bytes"
+                    }
+                ],
+                "internalType": "struct TypesLib.Ciphertext",
+                "name": "ciphertext",
+                "type": "tuple"
+            }
+        ],
+        "name": "requestBlocklock",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "requestPrice",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "requests",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "callback",
+                "type": "address"
+            },
+            {
+                "internalType": "uint32",
+                "name": "callbackGasLimit",
+                "type": "uint32"
+            },
+            {
+                "internalType": "uint256",
+                "name": "blockHeight",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "condition",
+                "type": "bytes"
+            },
+            {
+                "internalType": "uint256",
+                "name": "feePaid",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bool",
+                "name": "fulfilled",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_oracle",
+                "type": "address"
+            }
+        ],
+        "name": "setOracle",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_requestPrice",
+                "type": "uint256"
+            }
+        ],
+        "name": "setRequestPrice",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    }
+] as const;
+
+export const TimeValidationVerifierAbi = [
+    {
+        "inputs": [
+            {
+                "internalType": "uint256[2]",
+                "name": "_pA",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256[2][2]",
+                "name": "_pB",
+                "type": "uint256[2][2]"
+            },
+            {
+                "internalType": "uint256[2]",
+                "name": "_pC",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256[4]",
+                "name": "_pubSignals",
+                "type": "uint256[4]"
+            }
+        ],
+        "name": "verifyProof",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const ReceiverAuthVerifierAbi = [
+    {
+        "inputs": [
+            {
+                "internalType": "uint256[2]",
+                "name": "_pA",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256[2][2]",
+                "name": "_pB",
+                "type": "uint256[2][2]"
+            },
+            {
+                "internalType": "uint256[2]",
+                "name": "_pC",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256[4]",
+                "name": "_pubSignals",
+                "type": "uint256[4]"
+            }
+        ],
+        "name": "verifyProof",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const CapsuleGuardiansAbi = [
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "capsules",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "guardian",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "approve",
+                "type": "bool"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "epoch",
+                "type": "uint256"
+            }
+        ],
+        "name": "GuardianVoted",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "capsules",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "address[]",
+                "name": "guardians",
+                "type": "address[]"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "threshold",
+                "type": "uint256"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "epoch",
+                "type": "uint256"
+            }
+        ],
+        "name": "GuardiansConfigured",
+        "type": "event"
+    },
+    {
+        "inputs": [],
+        "name": "GUARDIAN_VOTE_TYPEHASH",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "MAX_GUARDIANS",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "approvalState",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "approved",
+                "type": "bool"
+            },
+            {
+                "internalType": "bool",
+                "name": "vetoed",
+                "type": "bool"
+            },
+            {
+                "internalType": "bool",
+                "name": "voted",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "approve",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address[]",
+                "name": "_guardians",
+                "type": "address[]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_threshold",
+                "type": "uint256"
+            }
+        ],
+        "name": "configure",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "domainSeparator",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getGuardians",
+        "outputs": [
+            {
+                "internalType": "address[]",
+                "name": "guardians",
+                "type": "address[]"
+            },
+            {
+                "internalType": "enum CapsuleGuardians.Vote[]",
+                "name": "guardianVotes",
+                "type": "uint8[]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "threshold",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "epoch",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "components": [
+                    {
+                        "internalType": "address",
+                        "name": "guardian",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "approve",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bytes",
+                        "name": "signature",
+                        "type": "bytes"
+                    }
+                ],
+                "internalType": "struct CapsuleGuardians.SignedVote[]",
+                "name": "_votes",
+                "type": "tuple[]"
+            }
+        ],
+        "name": "submitSignedVotes",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "veto",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bool",
+                "name": "_approve",
+                "type": "bool"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_epoch",
+                "type": "uint256"
+            }
+        ],
+        "name": "voteDigest",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "votes",
+        "outputs": [
+            {
+                "internalType": "enum CapsuleGuardians.Vote",
+                "name": "",
+                "type": "uint8"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const CapsuleEscrowAbi = [
+    {
+        "inputs": [],
+        "stateMutability": "nonpayable",
+        "type": "constructor"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "capsules",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "trusted",
+                "type": "bool"
+            }
+        ],
+        "name": "CapsulesTrusted",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "capsules",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "address",
+                "name": "token",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "amount",
+                "type": "uint256"
+            }
+        ],
+        "name": "Claimed",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "capsules",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "token",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "amount",
+                "type": "uint256"
+            }
+        ],
+        "name": "Deposited",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "capsules",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "creator",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "address",
+                "name": "token",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "amount",
+                "type": "uint256"
+            }
+        ],
+        "name": "Refunded",
+        "type": "event"
+    },
+    {
+        "inputs": [],
+        "name": "NATIVE",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "RECLAIM_DELAY",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "RECLAIM_DELAY_BLOCKS",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "admin",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "canReclaim",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            }
+        ],
+        "name": "claim",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_token",
+                "type": "address"
+            }
+        ],
+        "name": "claimable",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "claimed",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "_token",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_amount",
+                "type": "uint256"
+            }
+        ],
+        "name": "deposit",
+        "outputs": [],
+        "stateMutability": "payable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "deposits",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "total",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "claimed",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getDeposits",
+        "outputs": [
+            {
+                "internalType": "address[]",
+                "name": "tokens",
+                "type": "address[]"
+            },
+            {
+                "internalType": "uint256[]",
+                "name": "totals",
+                "type": "uint256[]"
+            },
+            {
+                "internalType": "uint256[]",
+                "name": "remaining",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "reclaim",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "refund",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_admin",
+                "type": "address"
+            }
+        ],
+        "name": "setAdmin",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "bool",
+                "name": "_trusted",
+                "type": "bool"
+            }
+        ],
+        "name": "setTrustedCapsules",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "trustedCapsules",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const CapsuleReaderAbi = [
+    {
+        "inputs": [],
+        "name": "MAX_PAGE_SIZE",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_offset",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_limit",
+                "type": "uint256"
+            }
+        ],
+        "name": "getCapsulesPage",
+        "outputs": [
+            {
+                "components": [
+                    {
+                        "internalType": "uint256",
+                        "name": "id",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "ipfsCid",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "blocklockRequestId",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "unlockTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "enum ITimeCapsules.ConditionType",
+                        "name": "conditionType",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "creationTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "creator",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "recipient",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address[]",
+                        "name": "recipients",
+                        "type": "address[]"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "title",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "fileSize",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "fileType",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isUnlocked",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isCancelled",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "hasDecryptionKey",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "useBlocklock",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "uint8",
+                        "name": "guardianApproval",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "heartbeatInterval",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "envelopeHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "plaintextHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "timeUntilUnlock",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "canUnlock",
+                        "type": "bool"
+                    }
+                ],
+                "internalType": "struct CapsuleReader.CapsuleView[]",
+                "name": "page",
+                "type": "tuple[]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "total",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_account",
+                "type": "address"
+            }
+        ],
+        "name": "getRecipientCapsules",
+        "outputs": [
+            {
+                "components": [
+                    {
+                        "internalType": "uint256",
+                        "name": "id",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "ipfsCid",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "blocklockRequestId",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "unlockTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "enum ITimeCapsules.ConditionType",
+                        "name": "conditionType",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "creationTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "creator",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "recipient",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address[]",
+                        "name": "recipients",
+                        "type": "address[]"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "title",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "fileSize",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "fileType",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isUnlocked",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isCancelled",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "hasDecryptionKey",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "useBlocklock",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "uint8",
+                        "name": "guardianApproval",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "heartbeatInterval",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "envelopeHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "plaintextHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "timeUntilUnlock",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "canUnlock",
+                        "type": "bool"
+                    }
+                ],
+                "internalType": "struct CapsuleReader.CapsuleView[]",
+                "name": "",
+                "type": "tuple[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256[]",
+                "name": "_capsuleIds",
+                "type": "uint256[]"
+            }
+        ],
+        "name": "getTimeCapsules",
+        "outputs": [
+            {
+                "components": [
+                    {
+                        "internalType": "uint256",
+                        "name": "id",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "ipfsCid",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "blocklockRequestId",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "unlockTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "enum ITimeCapsules.ConditionType",
+                        "name": "conditionType",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "creationTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "creator",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "recipient",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address[]",
+                        "name": "recipients",
+                        "type": "address[]"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "title",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "fileSize",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "fileType",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isUnlocked",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isCancelled",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "hasDecryptionKey",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "useBlocklock",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "uint8",
+                        "name": "guardianApproval",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "heartbeatInterval",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "envelopeHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "plaintextHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "timeUntilUnlock",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "canUnlock",
+                        "type": "bool"
+                    }
+                ],
+                "internalType": "struct CapsuleReader.CapsuleView[]",
+                "name": "",
+                "type": "tuple[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_account",
+                "type": "address"
+            }
+        ],
+        "name": "getUnlockableCapsules",
+        "outputs": [
+            {
+                "components": [
+                    {
+                        "internalType": "uint256",
+                        "name": "id",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "ipfsCid",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "blocklockRequestId",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "unlockTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "enum ITimeCapsules.ConditionType",
+                        "name": "conditionType",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "creationTime",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "creator",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address",
+                        "name": "recipient",
+                        "type": "address"
+                    },
+                    {
+                        "internalType": "address[]",
+                        "name": "recipients",
+                        "type": "address[]"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "title",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "fileSize",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "string",
+                        "name": "fileType",
+                        "type": "string"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isUnlocked",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "isCancelled",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "hasDecryptionKey",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "useBlocklock",
+                        "type": "bool"
+                    },
+                    {
+                        "internalType": "uint8",
+                        "name": "guardianApproval",
+                        "type": "uint8"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "heartbeatInterval",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "envelopeHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "bytes32",
+                        "name": "plaintextHash",
+                        "type": "bytes32"
+                    },
+                    {
+                        "internalType": "uint256",
+                        "name": "timeUntilUnlock",
+                        "type": "uint256"
+                    },
+                    {
+                        "internalType": "bool",
+                        "name": "canUnlock",
+                        "type": "bool"
+                    }
+                ],
+                "internalType": "struct CapsuleReader.CapsuleView[]",
+                "name": "",
+                "type": "tuple[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    }
+] as const;
+
+export const CapsuleClaimsAbi = [
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "owner",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "approved",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "Approval",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "owner",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "operator",
+                "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "bool",
+                "name": "approved",
+                "type": "bool"
+            }
+        ],
+        "name": "ApprovalForAll",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "from",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "address",
+                "name": "to",
+                "type": "address"
+            },
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "Transfer",
+        "type": "event"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_approved",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "approve",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_owner",
+                "type": "address"
+            }
+        ],
+        "name": "balanceOf",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "claims",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getApproved",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_capsules",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getCapsuleTokens",
+        "outputs": [
+            {
+                "internalType": "uint256[]",
+                "name": "",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "isApprovedForAll",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "locked",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_capsuleId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address[]",
+                "name": "_recipients",
+                "type": "address[]"
+            }
+        ],
+        "name": "mint",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "name",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "ownerOf",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "owner",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_from",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_to",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "safeTransferFrom",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_from",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_to",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_data",
+                "type": "bytes"
+            }
+        ],
+        "name": "safeTransferFrom",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_operator",
+                "type": "address"
+            },
+            {
+                "internalType": "bool",
+                "name": "_approved",
+                "type": "bool"
+            }
+        ],
+        "name": "setApprovalForAll",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes4",
+                "name": "_interfaceId",
+                "type": "bytes4"
+            }
+        ],
+        "name": "supportsInterface",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "symbol",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "tokenURI",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "",
+                "type": "string"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_owner",
+                "type": "address"
+            }
+        ],
+        "name": "tokensOfOwner",
+        "outputs": [
+            {
+                "internalType": "uint256[]",
+                "name": "",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "totalSupply",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_from",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "_to",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_tokenId",
+                "type": "uint256"
+            }
+        ],
+        "name": "transferFrom",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    }
+] as const;
+
+export const CONTRACT_ABIS = {
+    TimeCapsuleBlocklockSimple: TimeCapsuleBlocklockSimpleAbi,
+    TimeCapsuleBlocklock: TimeCapsuleBlocklockAbi,
+    TimeCapsuleStorage: TimeCapsuleStorageAbi,
+    MockBlocklockSender: MockBlocklockSenderAbi,
+    TimeValidationVerifier: TimeValidationVerifierAbi,
+    ReceiverAuthVerifier: ReceiverAuthVerifierAbi,
+    CapsuleGuardians: CapsuleGuardiansAbi,
+    CapsuleEscrow: CapsuleEscrowAbi,
+    CapsuleReader: CapsuleReaderAbi,
+    CapsuleClaims: CapsuleClaimsAbi,
+} as const;
+
+// Function selector -> signature for every external function
+export const CONTRACT_SELECTORS: Record<keyof typeof CONTRACT_ABIS, Record<string, string>> = {
+    "TimeCapsuleBlocklockSimple": {
+        "0x860c6e98": "blocklockFees(uint256)",
+        "0x9c2e5a55": "blocklockToCapsule(uint256)",
+        "0xc446bac1": "cancelCapsule(uint256)",
+        "0xd94a7af5": "canUnlock(uint256)",
+        "0x54fa4da0": "claimsModule()",
+        "0x46e04a2f": "claimTokens(uint256)",
+        "0x9f519aca": "contentHashes(uint256)",
+        "0x7730921a": "createDeadManSwitchCapsule(string,bytes,uint256,address,string,uint256,string,(bytes32,bytes32))",
+        "0xfe2bc5e9": "createSimpleTimeCapsule(string,string,uint256,string,string,uint256,string)",
+        "0xcdbf227b": "createSimpleTimeCapsuleAtBlock(string,string,uint256,address[],bytes[],string,uint256,string,(bytes32,bytes32))",
+        "0x2394aa66": "createSimpleTimeCapsuleForRecipient(string,string,uint256,address,string,string,uint256,string)",
+        "0xbda8dd39": "createSimpleTimeCapsuleForRecipients(string,uint256,address[],bytes[],string,uint256,string,(bytes32,bytes32))",
+        "0x30704c3f": "createTimeCapsuleWithBlocklock(string,bytes,uint256,string,string,uint256,string)",
+        "0x553b362d": "createTimelockRequestWithDirectFunding(string,uint256,bytes,bytes,string,string,uint256,string)",
+        "0xf3be8bcd": "createTimelockRequestWithDirectFundingForRecipient(string,uint256,bytes,bytes,address,string,string,uint256,string)",
+        "0x1f4d024d": "encryptionKeys(address)",
+        "0x4892e47e": "extendUnlockTime(uint256,uint256)",
+        "0x39c36acf": "getBlocklockPrice(uint32,uint256)",
+        "0x4a51ae03": "getDecryptionKey(uint256)",
+        "0xe00ee819": "getProofGate(uint256)",
+        "0xbd7294ae": "getRecipientCapsules(address)",
+        "0xfd90e897": "getRecipients(uint256)",
+        "0x3ef0d72d": "getTimeCapsule(uint256)",
+        "0x2f6fe5f7": "getTimeUntilUnlock(uint256)",
+        "0xb06d3c8d": "getTotalCapsules()",
+        "0x366636f7": "getUserCapsules(address)",
+        "0xfe7992c2": "getWrappedKey(uint256)",
+        "0x1efd78b8": "guardianModule()",
+        "0xb3aad7ee": "guardianModules(uint256)",
+        "0xce44e4f7": "hasUnlocked(uint256,address)",
+        "0xd89efe5a": "hasWrappedKey(uint256,address)",
+        "0x6e029ad1": "heartbeat(uint256)",
+        "0x820b6c1a": "heartbeatIntervals(uint256)",
+        "0x8047819a": "importCapsule(address,uint256,string,string,uint256,uint256,address,string,string,uint256,string)",
+        "0x7c31c103": "importedCapsules(address,uint256)",
+        "0x1d828e80": "isAuthorizedUnlocker(uint256,address)",
+        "0x3b730014": "isBlocklockCapsule(uint256)",
+        "0xcdf92c27": "isCancelled(uint256)",
+        "0xc9b5c7f4": "isCapsuleRecipient(uint256,address)",
+        "0xa6980ce2": "MAX_RECIPIENTS()",
+        "0x7cd07e47": "migrator()",
+        "0x8dd54ee7": "MIN_HEARTBEAT_INTERVAL()",
+        "0xae3cfaed": "nextCapsuleId()",
+        "0x221a4757": "registerEncryptionKey(bytes)",
+        "0xd7b5f1c1": "setContentHash(uint256,bytes32,bytes32)",
+        "0x7d20402f": "setGuardians(uint256,address,address[],uint256)",
+        "0x23cf3118": "setMigrator(address)",
+        "0x3b328d03": "setProofGate(uint256,address,uint256[],uint256)",
+        "0x399e367c": "setUnlockDelegate(uint256,address,bool)",
+        "0x8ca1ad99": "setWrappedKey(uint256,address,bytes)",
+        "0xfd7cfee8": "simulateBlocklockCallback(uint256,bytes)",
+        "0x320b85c1": "tokenizeClaims(uint256,address)",
+        "0xb49ce17f": "totalCapsules()",
+        "0xd17636a9": "transferClaim(uint256,address,address)",
+        "0x40742538": "unlockDelegates(uint256,address)",
+        "0x6394f487": "unlockNonces(address)",
+        "0x6fa26cad": "unlockTimeCapsule(uint256)",
+        "0x8da3a1c4": "unlockTimeCapsuleBySig(uint256,address,uint256,bytes)",
+        "0x79d9413b": "unlockTimeCapsuleWithProof(uint256,uint256[2],uint256[2][2],uint256[2],uint256[])",
+        "0xe04f91de": "updateCid(uint256,string)",
+        "0xd9afea74": "updateRecipient(uint256,address,address,bytes)",
+        "0xa0d79fb5": "userCapsules(address,uint256)"
+    },
+    "TimeCapsuleBlocklock": {
+        "0x79ba5097": "acceptOwnership()",
+        "0x93b9740a": "blocklock()",
+        "0x9c2e5a55": "blocklockToCapsule(uint256)",
+        "0xd94a7af5": "canUnlock(uint256)",
+        "0xb96dbba7": "createSubscriptionAndFundNative()",
+        "0xd71eaa2f": "createTimelockRequestWithDirectFunding(string,uint32,bytes,((uint256[2],uint256[2]),bytes,bytes),address,string,string,uint256,uint256,string)",
+        "0xe64a66ea": "fundContractNative()",
+        "0x12065fe0": "getBalance()",
+        "0xeb2f3278": "getBlocklockPrice(uint32)",
+        "0x557bf5c7": "getBlocksUntilUnlock(uint256)",
+        "0xff627e77": "getCiphertext(uint256)",
+        "0x4a51ae03": "getDecryptionKey(uint256)",
+        "0x3ef0d72d": "getTimeCapsule(uint256)",
+        "0xb06d3c8d": "getTotalCapsules()",
+        "0x366636f7": "getUserCapsules(address)",
+        "0x1d828e80": "isAuthorizedUnlocker(uint256,address)",
+        "0xcd802c91": "isInFlight(uint256)",
+        "0xae3cfaed": "nextCapsuleId()",
+        "0x8da5cb5b": "owner()",
+        "0x41af6c87": "pendingRequestExists(uint256)",
+        "0x5d941802": "receiveBlocklock(uint256,bytes)",
+        "0x4fa26d40": "setBlocklock(address)",
+        "0x80980043": "setSubId(uint256)",
+        "0x399e367c": "setUnlockDelegate(uint256,address,bool)",
+        "0x09c1ba2e": "subscriptionId()",
+        "0x7a16de75": "timeCapsules(uint256)",
+        "0x1d2b2afd": "topUpSubscriptionNative()",
+        "0xb49ce17f": "totalCapsules()",
+        "0xf2fde38b": "transferOwnership(address)",
+        "0x40742538": "unlockDelegates(uint256,address)",
+        "0x6fa26cad": "unlockTimeCapsule(uint256)",
+        "0x36bfffed": "updateSubscription(address[])",
+        "0xa0d79fb5": "userCapsules(address,uint256)",
+        "0xb8ca8dd8": "withdrawNative(uint256,address)"
+    },
+    "TimeCapsuleStorage": {
+        "0xd94a7af5": "canUnlock(uint256)",
+        "0x6e53457e": "createTimeCapsule(string,string,uint256,string,string,uint256,string)",
+        "0x3ef0d72d": "getTimeCapsule(uint256)",
+        "0x2f6fe5f7": "getTimeUntilUnlock(uint256)",
+        "0xb06d3c8d": "getTotalCapsules()",
+        "0x366636f7": "getUserCapsules(address)",
+        "0xae3cfaed": "nextCapsuleId()",
+        "0x7a16de75": "timeCapsules(uint256)",
+        "0xb49ce17f": "totalCapsules()",
+        "0x6fa26cad": "unlockTimeCapsule(uint256)",
+        "0xa0d79fb5": "userCapsules(address,uint256)"
+    },
+    "MockBlocklockSender": {
+        "0x4b160935": "calculateRequestPriceNative(uint32)",
+        "0xc9bc18c4": "decrypt(((uint256[2],uint256[2]),bytes,bytes),bytes)",
+        "0xbb1dbe0c": "deriveDecryptionKey(bytes)",
+        "0x4bb9816a": "fulfillRequest(uint256,bytes)",
+        "0xcd802c91": "isInFlight(uint256)",
+        "0x6a84a985": "nextRequestId()",
+        "0x7dc0d1d0": "oracle()",
+        "0x8da5cb5b": "owner()",
+        "0x7909dc7b": "requestBlocklock(uint32,bytes,((uint256[2],uint256[2]),bytes,bytes))",
+        "0x1604f9ea": "requestPrice()",
+        "0x81d12c58": "requests(uint256)",
+        "0x7adbf973": "setOracle(address)",
+        "0x3fcf7ca1": "setRequestPrice(uint256)"
+    },
+    "TimeValidationVerifier": {
+        "0x5fe8c13b": "verifyProof(uint256[2],uint256[2][2],uint256[2],uint256[4])"
+    },
+    "ReceiverAuthVerifier": {
+        "0x5fe8c13b": "verifyProof(uint256[2],uint256[2][2],uint256[2],uint256[4])"
+    },
+    "CapsuleGuardians": {
+        "0x9334e71f": "approvalState(address,uint256)",
+        "0x095ea7b3": "approve(address,uint256)",
+        "0x4d54c61c": "configure(uint256,address[],uint256)",
+        "0xf698da25": "domainSeparator()",
+        "0xf112e43e": "getGuardians(address,uint256)",
+        "0x7a760d4c": "GUARDIAN_VOTE_TYPEHASH()",
+        "0x422c1d37": "MAX_GUARDIANS()",
+        "0x3f574ec1": "submitSignedVotes(address,uint256,(address,bool,bytes)[])",
+        "0xecd3716d": "veto(address,uint256)",
+        "0xd5ba7ff4": "voteDigest(address,uint256,bool,uint256)",
+        "0xa6ad9a10": "votes(address,uint256,uint256,address)"
+    },
+    "CapsuleEscrow": {
+        "0xf851a440": "admin()",
+        "0xcdaee62e": "canReclaim(address,uint256)",
+        "0x9e96a260": "claim(address,uint256,address)",
+        "0x38cb5089": "claimable(address,uint256,address,address)",
+        "0x2244a65d": "claimed(address,uint256,address,address)",
+        "0x90d25074": "deposit(address,uint256,address,uint256)",
+        "0xf4a13814": "deposits(address,uint256,address)",
+        "0xf5b842f7": "getDeposits(address,uint256)",
+        "0xa0cf0aea": "NATIVE()",
+        "0xeffb5b0b": "RECLAIM_DELAY_BLOCKS()",
+        "0x35f90b29": "RECLAIM_DELAY()",
+        "0x8bd317eb": "reclaim(address,uint256)",
+        "0x410085df": "refund(address,uint256)",
+        "0x704b6c02": "setAdmin(address)",
+        "0xe2aac5e2": "setTrustedCapsules(address,bool)",
+        "0x265b4329": "trustedCapsules(address)"
+    },
+    "CapsuleReader": {
+        "0xd0581bd3": "getCapsulesPage(address,uint256,uint256)",
+        "0xc04246fe": "getRecipientCapsules(address,address)",
+        "0x61dd6f35": "getTimeCapsules(address,uint256[])",
+        "0x2333e51b": "getUnlockableCapsules(address,address)",
+        "0x48f4da20": "MAX_PAGE_SIZE()"
+    },
+    "CapsuleClaims": {
+        "0x095ea7b3": "approve(address,uint256)",
+        "0x70a08231": "balanceOf(address)",
+        "0xa888c2cd": "claims(uint256)",
+        "0x081812fc": "getApproved(uint256)",
+        "0xe8441d14": "getCapsuleTokens(address,uint256)",
+        "0xe985e9c5": "isApprovedForAll(address,address)",
+        "0xb45a3c0e": "locked(uint256)",
+        "0x4e6cca8f": "mint(uint256,address[])",
+        "0x06fdde03": "name()",
+        "0x6352211e": "ownerOf(uint256)",
+        "0xb88d4fde": "safeTransferFrom(address,address,uint256,bytes)",
+        "0x42842e0e": "safeTransferFrom(address,address,uint256)",
+        "0xa22cb465": "setApprovalForAll(address,bool)",
+        "0x01ffc9a7": "supportsInterface(bytes4)",
+        "0x95d89b41": "symbol()",
+        "0x8462151c": "tokensOfOwner(address)",
+        "0xc87b56dd": "tokenURI(uint256)",
+        "0x18160ddd": "totalSupply()",
+        "0x23b872dd": "transferFrom(address,address,uint256)"
+    }
+};
@@ -0,0 +1,127 @@
+// shared/deployments.ts - Deployed contract addresses and ABIs for scripts, web and ui
+//
+// deploymentManifest.json is the address manifest, keyed by chainId. It is merged from the
+// hardhat-deploy artifacts in deployments/<network>/ by scripts/generateDeploymentManifest.ts,
+// which also regenerates contractAbis.ts from the typechain output. Nothing outside this
+// module should hard-code a contract address or ABI.
+//
+//   npx hardhat deploy --network calibration
+//   npm run deployments:manifest
+//
+// Deployed bytecode can still diverge from the ABI (an old deployment kept in the manifest,
+// a manifest generated before a contract change), so consumers call assertDeployedCode() at
+// startup: every function selector in the ABI must appear in the contract's dispatcher.
+
+import manifest from "./deploymentManifest.json";
+import { CONTRACT_ABIS, CONTRACT_SELECTORS } from "./contractAbis";
+
+export { CONTRACT_ABIS };
+
+export type ContractName = keyof typeof CONTRACT_ABIS;
+
+export interface ContractDeployment {
+    address: string;
+    transactionHash?: string;
+    blockNumber?: number;     // Block of the deployment transaction, where event scans can start
+}
+
+export interface ChainDeployments {
+    network: string;
+    contracts: Partial<Record<ContractName, ContractDeployment>>;
+}
+
+export const DEPLOYMENTS: Record<string, ChainDeployments> = manifest;
+
+export class DeploymentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "DeploymentError";
+    }
+}
+
+export class AbiDriftError extends DeploymentError {
+    constructor(
+        readonly contractName: ContractName,
+        readonly address: string,
+        readonly missingFunctions: string[]
+    ) {
+        super(
+            `${contractName} at ${address} does not implement ${missingFunctions.join(", ")}. ` +
+            "The deployed contract predates its ABI: redeploy it and run npm run deployments:manifest."
+        );
+        this.name = "AbiDriftError";
+    }
+}
+
+/**
+ * Look up a contract deployment
+ * @param chainId Chain the contract is deployed on
+ * @param name Contract name
+ */
+export function getDeployment(chainId: number | bigint, name: ContractName): ContractDeployment | undefined {
+    return DEPLOYMENTS[chainId.toString()]?.contracts[name];
+}
+
+/**
+ * Look up a contract deployment, failing if the manifest has none for the chain
+ * @param chainId Chain the contract is deployed on
+ * @param name Contract name
+ */
+export function requireDeployment(chainId: number | bigint, name: ContractName): ContractDeployment {
+    const deployment = getDeployment(chainId, name);
+    if (!deployment) {
+        throw new DeploymentError(
+            `${name} is not deployed on chain ${chainId}. Deploy it and run npm run deployments:manifest.`
+        );
+    }
+    return deployment;
+}
+
+/**
+ * Function selectors of a contract's ABI
+ * @param name Contract name
+ * @returns 4-byte selectors (0x-prefixed hex) mapped to function signatures
+ */
+export function getFunctionSelectors(name: ContractName): Record<string, string> {
+    return CONTRACT_SELECTORS[name];
+}
+
+/**
+ * Find ABI functions that are missing from deployed runtime bytecode
+ * The Solidity dispatcher compares calldata against every external function selector, so
+ * each selector appears in the code as a PUSH operand (shortened when it has leading zero bytes).
+ * @param name Contract name
+ * @param runtimeCode Deployed bytecode from eth_getCode
+ * @returns Signatures of the functions the bytecode does not dispatch
+ */
+export function findMissingFunctions(name: ContractName, runtimeCode: string): string[] {
+    const code = runtimeCode.toLowerCase().replace(/^0x/, "");
+
+    return Object.entries(getFunctionSelectors(name))
+        .filter(([selector]) => !code.includes(selectorPushOperand(selector)))
+        .map(([, signature]) => signature);
+}
+
+/**
+ * Check that a deployment exists and implements the ABI the caller was built against
+ * @param name Contract name
+ * @param address Contract address
+ * @param runtimeCode Deployed bytecode from eth_getCode
+ */
+export function assertDeployedCode(name: ContractName, address: string, runtimeCode: string | undefined): void {
+    if (!runtimeCode || runtimeCode === "0x") {
+        throw new DeploymentError(`No contract code at ${address}; the ${name} entry in the deployment manifest is stale`);
+    }
+
+    const missing = findMissingFunctions(name, runtimeCode);
+    if (missing.length > 0) {
+        throw new AbiDriftError(name, address, missing);
+    }
+}
+
+// PUSHn opcode followed by the selector without its leading zero bytes
+function selectorPushOperand(selector: string): string {
+    const operand = selector.toLowerCase().replace(/^0x/, "").replace(/^(00)+/, "");
+    const pushOpcode = 0x5f + operand.length / 2;
+    return pushOpcode.toString(16) + operand;
+}
@@ -0,0 +1,535 @@
+// shared/envelope.ts - Client-side envelope encryption for capsule content
+//
+// Capsule content is sealed with AES-256-GCM under a random data key before it is
+// uploaded to IPFS, so gateways only ever serve ciphertext. The module relies on the
+// WebCrypto API only, so the same code runs in the Hardhat scripts (Node 20) and in
+// the Next.js apps.
+//
+// Envelope v1 can be serialized two ways:
+//   binary: "FPE1" | uint32 big-endian header length | UTF-8 JSON header | ciphertext
+//   json:   the JSON header with an extra base64 "ciphertext" field
+// Both carry the same header, and parseEnvelope() detects the encoding automatically.
+//
+// The capsule contract can hold the SHA-256 of the serialized envelope and of the plaintext
+// (setContentHash). verifyContentHash() checks downloads against them, so a gateway cannot
+// substitute or truncate content unnoticed.
+//
+// Large files use a chunked envelope: each chunk of the plaintext is sealed on its own
+// (sealChunk) and stored as a separate IPFS object, and a JSON manifest lists the chunks in
+// order; the capsule's CID points at the manifest. A chunk's additional data binds the file
+// metadata, its index and the chunk count, so chunks cannot be reordered, dropped or moved
+// between files. shared/chunkedUpload.ts streams them up and down.
+
+export const ENVELOPE_FORMAT = "future-protocol-envelope";
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = "AES-256-GCM";
+export const ENVELOPE_MIME_TYPE = "application/vnd.future-protocol.envelope";
+
+export const CHUNKED_ENVELOPE_FORMAT = "future-protocol-chunked-envelope";
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Digest of a capsule without recorded content hashes
+export const NO_CONTENT_HASH = "0x" + "00".repeat(32);
+// Passed to the create functions to create a capsule without content hashes
+export const NO_CONTENT_HASHES: ContentHashes = { envelope: NO_CONTENT_HASH, plaintext: NO_CONTENT_HASH };
+
+const BINARY_MAGIC = [0x46, 0x50, 0x45, 0x31]; // "FPE1"
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export type EnvelopeEncoding = "binary" | "json";
+
+export interface EnvelopeHeader {
+    format: typeof ENVELOPE_FORMAT;
+    version: number;
+    algorithm: typeof ENVELOPE_ALGORITHM;
+    iv: string;          // base64, 12 bytes
+    tag: string;         // base64, 16-byte GCM authentication tag
+    mimeType: string;    // MIME type of the original content
+    fileName: string;    // Original file name
+    size: number;        // Plaintext size in bytes
+}
+
+export interface SealedEnvelope {
+    header: EnvelopeHeader;
+    ciphertext: Uint8Array;
+}
+
+export interface OpenedEnvelope {
+    content: Uint8Array;
+    mimeType: string;
+    fileName: string;
+}
+
+export interface EnvelopeChunk {
+    cid: string;         // IPFS CID of the chunk's ciphertext
+    iv: string;          // base64, 12 bytes
+    tag: string;         // base64, 16-byte GCM authentication tag
+    size: number;        // Plaintext bytes in the chunk
+}
+
+export interface ChunkManifest {
+    format: typeof CHUNKED_ENVELOPE_FORMAT;
+    version: number;
+    algorithm: typeof ENVELOPE_ALGORITHM;
+    mimeType: string;
+    fileName: string;
+    size: number;        // Plaintext size of the whole file
+    chunkSize: number;   // Plaintext bytes per chunk; the last one may be shorter
+    chunks: EnvelopeChunk[];
+}
+
+export type ChunkManifestHeader = Omit<ChunkManifest, "chunks">;
+
+export interface ContentHashes {
+    envelope: string;    // 0x-prefixed SHA-256 of the serialized envelope
+    plaintext: string;   // 0x-prefixed SHA-256 of the content sealed in it
+}
+
+export class EnvelopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "EnvelopeError";
+    }
+}
+
+export class ContentIntegrityError extends Error {
+    constructor(readonly part: keyof ContentHashes, readonly expected: string, readonly actual: string, readonly size: number) {
+        super(`${part === "envelope" ? "Downloaded envelope" : "Decrypted content"} does not match the hash recorded on-chain ` +
+            `(expected ${expected}, got ${actual} over ${size} bytes): the content was substituted or truncated`);
+        this.name = "ContentIntegrityError";
+    }
+}
+
+/**
+ * Generate a random 256-bit data key
+ * @returns Hex-encoded key (64 characters, no 0x prefix)
+ */
+export function generateDataKey(): string {
+    return bytesToHex(randomBytes(KEY_LENGTH));
+}
+
+/**
+ * Encrypt content into a v1 envelope
+ * @param content Plaintext bytes or UTF-8 text
+ * @param metadata Original MIME type and file name, authenticated alongside the ciphertext
+ * @param dataKey Hex-encoded 256-bit key; a fresh key is generated when omitted
+ */
+export async function sealContent(
+    content: Uint8Array | string,
+    metadata: { mimeType: string; fileName: string },
+    dataKey: string = generateDataKey()
+): Promise<{ envelope: SealedEnvelope; dataKey: string }> {
+    const plaintext = typeof content === "string" ? new TextEncoder().encode(content) : content;
+    const iv = randomBytes(IV_LENGTH);
+
+    const header: EnvelopeHeader = {
+        format: ENVELOPE_FORMAT,
+        version: ENVELOPE_VERSION,
+        algorithm: ENVELOPE_ALGORITHM,
+        iv: bytesToBase64(iv),
+        tag: "",
+        mimeType: metadata.mimeType || "application/octet-stream",
+        fileName: metadata.fileName,
+        size: plaintext.length
+    };
+
+    const key = await importDataKey(dataKey);
+    const sealed = new Uint8Array(await getSubtle().encrypt(
+        { name: "AES-GCM", iv: toBuffer(iv), additionalData: toBuffer(additionalData(header)), tagLength: TAG_LENGTH * 8 },
+        key,
+        toBuffer(plaintext)
+    ));
+
+    // WebCrypto appends the tag to the ciphertext; the envelope records it separately
+    header.tag = bytesToBase64(sealed.slice(sealed.length - TAG_LENGTH));
+
+    return {
+        envelope: { header, ciphertext: sealed.slice(0, sealed.length - TAG_LENGTH) },
+        dataKey
+    };
+}
+
+/**
+ * Decrypt an envelope and verify its authentication tag
+ * @param envelope Parsed envelope
+ * @param dataKey Hex-encoded 256-bit key (with or without 0x prefix)
+ */
+export async function openEnvelope(envelope: SealedEnvelope, dataKey: string): Promise<OpenedEnvelope> {
+    const { header, ciphertext } = envelope;
+    validateHeader(header);
+
+    const tag = base64ToBytes(header.tag);
+    const sealed = new Uint8Array(ciphertext.length + tag.length);
+    sealed.set(ciphertext);
+    sealed.set(tag, ciphertext.length);
+
+    const key = await importDataKey(dataKey);
+
+    let plaintext: Uint8Array;
+    try {
+        plaintext = new Uint8Array(await getSubtle().decrypt(
+            { name: "AES-GCM", iv: toBuffer(base64ToBytes(header.iv)), additionalData: toBuffer(additionalData(header)), tagLength: TAG_LENGTH * 8 },
+            key,
+            toBuffer(sealed)
+        ));
+    } catch {
+        throw new EnvelopeError("Envelope authentication failed: wrong key or tampered content");
+    }
+
+    if (plaintext.length !== header.size) {
+        throw new EnvelopeError(`Envelope size mismatch: header says ${header.size} bytes, decrypted ${plaintext.length}`);
+    }
+
+    return { content: plaintext, mimeType: header.mimeType, fileName: header.fileName };
+}
+
+/**
+ * Number of chunks a file of header.size bytes is split into; an empty file still has one
+ * @param header Manifest fields
+ */
+export function chunkCount(header: ChunkManifestHeader): number {
+    return Math.max(1, Math.ceil(header.size / header.chunkSize));
+}
+
+/**
+ * Seal one chunk of a file into a chunked envelope
+ * @param header Manifest fields of the file, bound to the chunk
+ * @param index Position of the chunk, from 0
+ * @param plaintext The chunk's bytes
+ * @param dataKey Hex-encoded 256-bit key shared by every chunk of the file
+ * @returns The ciphertext to store, and the iv and tag for the manifest
+ */
+export async function sealChunk(
+    header: ChunkManifestHeader,
+    index: number,
+    plaintext: Uint8Array,
+    dataKey: string
+): Promise<{ ciphertext: Uint8Array; iv: string; tag: string }> {
+    if (plaintext.length !== expectedChunkSize(header, index)) {
+        throw new EnvelopeError(`Chunk ${index} must be ${expectedChunkSize(header, index)} bytes, got ${plaintext.length}`);
+    }
+
+    const iv = randomBytes(IV_LENGTH);
+    const sealed = new Uint8Array(await getSubtle().encrypt(
+        { name: "AES-GCM", iv: toBuffer(iv), additionalData: toBuffer(chunkAdditionalData(header, index)), tagLength: TAG_LENGTH * 8 },
+        await importDataKey(dataKey),
+        toBuffer(plaintext)
+    ));
+
+    return {
+        ciphertext: sealed.slice(0, sealed.length - TAG_LENGTH),
+        iv: bytesToBase64(iv),
+        tag: bytesToBase64(sealed.slice(sealed.length - TAG_LENGTH))
+    };
+}
+
+/**
+ * Decrypt one chunk of a chunked envelope and verify its authentication tag
+ * @param manifest Parsed manifest
+ * @param index Position of the chunk, from 0
+ * @param ciphertext The chunk as downloaded
+ * @param dataKey Hex-encoded 256-bit key (with or without 0x prefix)
+ */
+export async function openChunk(manifest: ChunkManifest, index: number, ciphertext: Uint8Array, dataKey: string): Promise<Uint8Array> {
+    const chunk = manifest.chunks[index];
+    if (!chunk) {
+        throw new EnvelopeError(`Manifest has no chunk ${index}`);
+    }
+
+    const tag = base64ToBytes(chunk.tag);
+    const sealed = new Uint8Array(ciphertext.length + tag.length);
+    sealed.set(ciphertext);
+    sealed.set(tag, ciphertext.length);
+
+    let plaintext: Uint8Array;
+    try {
+        plaintext = new Uint8Array(await getSubtle().decrypt(
+            { name: "AES-GCM", iv: toBuffer(base64ToBytes(chunk.iv)), additionalData: toBuffer(chunkAdditionalData(manifest, index)), tagLength: TAG_LENGTH * 8 },
+            await importDataKey(dataKey),
+            toBuffer(sealed)
+        ));
+    } catch {
+        throw new EnvelopeError(`Chunk ${index} authentication failed: wrong key, or a tampered or misplaced chunk`);
+    }
+
+    if (plaintext.length !== chunk.size) {
+        throw new EnvelopeError(`Chunk ${index} size mismatch: manifest says ${chunk.size} bytes, decrypted ${plaintext.length}`);
+    }
+    return plaintext;
+}
+
+/**
+ * Serialize a chunk manifest for upload
+ * @param manifest Manifest listing every chunk
+ */
+export function serializeManifest(manifest: ChunkManifest): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(manifest));
+}
+
+/**
+ * Parse and validate a chunk manifest
+ * @param bytes Raw bytes as downloaded from IPFS
+ */
+export function parseManifest(bytes: Uint8Array): ChunkManifest {
+    let manifest: ChunkManifest;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new EnvelopeError("Chunk manifest is not valid JSON");
+    }
+
+    if (!manifest || manifest.format !== CHUNKED_ENVELOPE_FORMAT) {
+        throw new EnvelopeError("Not a Future Protocol chunk manifest");
+    }
+    if (manifest.version !== ENVELOPE_VERSION) {
+        throw new EnvelopeError(`Unsupported chunk manifest version: ${manifest.version}`);
+    }
+    if (manifest.algorithm !== ENVELOPE_ALGORITHM) {
+        throw new EnvelopeError(`Unsupported envelope algorithm: ${manifest.algorithm}`);
+    }
+    if (!Number.isSafeInteger(manifest.size) || manifest.size < 0 || !Number.isSafeInteger(manifest.chunkSize) || manifest.chunkSize <= 0) {
+        throw new EnvelopeError("Chunk manifest has an invalid size or chunk size");
+    }
+    if (!Array.isArray(manifest.chunks) || manifest.chunks.length !== chunkCount(manifest)) {
+        throw new EnvelopeError(`Chunk manifest must list ${chunkCount(manifest)} chunks, lists ${manifest.chunks?.length ?? 0}`);
+    }
+    manifest.chunks.forEach((chunk, index) => {
+        if (typeof chunk.cid !== "string" || typeof chunk.iv !== "string" || typeof chunk.tag !== "string" || chunk.size !== expectedChunkSize(manifest, index)) {
+            throw new EnvelopeError(`Chunk ${index} in the manifest is missing its cid, iv or tag, or has the wrong size`);
+        }
+    });
+    return manifest;
+}
+
+/**
+ * Check whether downloaded bytes are a chunk manifest rather than an envelope
+ * @param bytes Raw bytes as downloaded from IPFS
+ */
+export function isChunkManifest(bytes: Uint8Array): boolean {
+    if (hasBinaryMagic(bytes)) return false;
+    try {
+        parseManifest(bytes);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Content hashes to record for a capsule (setContentHash)
+ * @param envelopeBytes Serialized envelope, exactly as uploaded
+ * @param content Plaintext bytes or UTF-8 text that was sealed
+ */
+export async function hashContent(envelopeBytes: Uint8Array, content: Uint8Array | string): Promise<ContentHashes> {
+    const plaintext = typeof content === "string" ? new TextEncoder().encode(content) : content;
+    return { envelope: await sha256Hex(envelopeBytes), plaintext: await sha256Hex(plaintext) };
+}
+
+/**
+ * Check downloaded or decrypted bytes against the hash recorded on-chain
+ * @param bytes Serialized envelope, or decrypted content
+ * @param expected Recorded 0x-prefixed SHA-256; NO_CONTENT_HASH when none was recorded
+ * @param part Which of the two hashes is checked
+ * @returns Whether a hash was recorded (and matched)
+ * @throws ContentIntegrityError when the bytes do not match
+ */
+export async function verifyContentHash(bytes: Uint8Array, expected: string, part: keyof ContentHashes): Promise<boolean> {
+    if (/^(0x)?0*$/i.test(expected)) {
+        return false;
+    }
+    const actual = await sha256Hex(bytes);
+    if (actual !== expected.toLowerCase()) {
+        throw new ContentIntegrityError(part, expected, actual, bytes.length);
+    }
+    return true;
+}
+
+/**
+ * Serialize an envelope for upload
+ * @param envelope Envelope to serialize
+ * @param encoding "binary" (compact, default) or "json" (human-inspectable)
+ */
+export function serializeEnvelope(envelope: SealedEnvelope, encoding: EnvelopeEncoding = "binary"): Uint8Array {
+    if (encoding === "json") {
+        return new TextEncoder().encode(JSON.stringify({
+            ...envelope.header,
+            ciphertext: bytesToBase64(envelope.ciphertext)
+        }));
+    }
+
+    const headerBytes = new TextEncoder().encode(JSON.stringify(envelope.header));
+    const out = new Uint8Array(BINARY_MAGIC.length + 4 + headerBytes.length + envelope.ciphertext.length);
+    out.set(BINARY_MAGIC, 0);
+    new DataView(out.buffer).setUint32(BINARY_MAGIC.length, headerBytes.length);
+    out.set(headerBytes, BINARY_MAGIC.length + 4);
+    out.set(envelope.ciphertext, BINARY_MAGIC.length + 4 + headerBytes.length);
+    return out;
+}
+
+/**
+ * Parse a serialized envelope in either encoding
+ * @param bytes Raw bytes as downloaded from IPFS
+ */
+export function parseEnvelope(bytes: Uint8Array): SealedEnvelope {
+    if (hasBinaryMagic(bytes)) {
+        if (bytes.length < BINARY_MAGIC.length + 4) {
+            throw new EnvelopeError("Truncated envelope: missing header length");
+        }
+        const headerLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(BINARY_MAGIC.length);
+        const headerStart = BINARY_MAGIC.length + 4;
+        if (bytes.length < headerStart + headerLength) {
+            throw new EnvelopeError("Truncated envelope: header extends past end of data");
+        }
+
+        const header = parseHeader(new TextDecoder().decode(bytes.subarray(headerStart, headerStart + headerLength)));
+        return { header, ciphertext: bytes.slice(headerStart + headerLength) };
+    }
+
+    const parsed = parseHeader(new TextDecoder().decode(bytes)) as EnvelopeHeader & { ciphertext?: unknown };
+    if (typeof parsed.ciphertext !== "string") {
+        throw new EnvelopeError("JSON envelope is missing its ciphertext");
+    }
+    const { ciphertext, ...header } = parsed;
+    return { header, ciphertext: base64ToBytes(ciphertext) };
+}
+
+/**
+ * Check whether downloaded bytes look like an envelope (either encoding)
+ * @param bytes Raw bytes as downloaded from IPFS
+ */
+export function isEnvelope(bytes: Uint8Array): boolean {
+    if (hasBinaryMagic(bytes)) return true;
+    try {
+        parseEnvelope(bytes);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function parseHeader(text: string): EnvelopeHeader {
+    let header: EnvelopeHeader;
+    try {
+        header = JSON.parse(text);
+    } catch {
+        throw new EnvelopeError("Envelope header is not valid JSON");
+    }
+    validateHeader(header);
+    return header;
+}
+
+function validateHeader(header: EnvelopeHeader): void {
+    if (!header || header.format !== ENVELOPE_FORMAT) {
+        throw new EnvelopeError("Not a Future Protocol envelope");
+    }
+    if (header.version !== ENVELOPE_VERSION) {
+        throw new EnvelopeError(`Unsupported envelope version: ${header.version}`);
+    }
+    if (header.algorithm !== ENVELOPE_ALGORITHM) {
+        throw new EnvelopeError(`Unsupported envelope algorithm: ${header.algorithm}`);
+    }
+    if (typeof header.iv !== "string" || typeof header.tag !== "string" || typeof header.size !== "number") {
+        throw new EnvelopeError("Envelope header is missing iv, tag or size");
+    }
+}
+
+// Header fields are bound to the ciphertext so metadata cannot be swapped between envelopes
+function additionalData(header: EnvelopeHeader): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify([
+        header.format,
+        header.version,
+        header.algorithm,
+        header.mimeType,
+        header.fileName,
+        header.size
+    ]));
+}
+
+// Binds a chunk to the file and to its position in it
+function chunkAdditionalData(header: ChunkManifestHeader, index: number): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify([
+        header.format,
+        header.version,
+        header.algorithm,
+        header.mimeType,
+        header.fileName,
+        header.size,
+        header.chunkSize,
+        index,
+        chunkCount(header)
+    ]));
+}
+
+function expectedChunkSize(header: ChunkManifestHeader, index: number): number {
+    if (!Number.isInteger(index) || index < 0 || index >= chunkCount(header)) {
+        throw new EnvelopeError(`Chunk index ${index} is out of range`);
+    }
+    return Math.min(header.chunkSize, header.size - index * header.chunkSize);
+}
+
+async function importDataKey(dataKey: string): Promise<CryptoKey> {
+    const raw = hexToBytes(dataKey);
+    if (raw.length !== KEY_LENGTH) {
+        throw new EnvelopeError(`Data key must be ${KEY_LENGTH} bytes, got ${raw.length}`);
+    }
+    return getSubtle().importKey("raw", toBuffer(raw), { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+    return "0x" + bytesToHex(new Uint8Array(await getSubtle().digest("SHA-256", toBuffer(bytes))));
+}
+
+function getSubtle(): SubtleCrypto {
+    if (!globalThis.crypto?.subtle) {
+        throw new EnvelopeError("WebCrypto is not available in this environment");
+    }
+    return globalThis.crypto.subtle;
+}
+
+function randomBytes(length: number): Uint8Array {
+    return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+function hasBinaryMagic(bytes: Uint8Array): boolean {
+    return bytes.length >= BINARY_MAGIC.length && BINARY_MAGIC.every((b, i) => bytes[i] === b);
+}
+
+// Copy into a standalone ArrayBuffer so WebCrypto never sees a shared or offset view
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.slice().buffer as ArrayBuffer;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function hexToBytes(hex: string): Uint8Array {
+    const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+    if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+        throw new EnvelopeError("Data key is not valid hex");
+    }
+    const out = new Uint8Array(clean.length / 2);
+    for (let i = 0; i < out.length; i++) {
+        out[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+    }
+    return out;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array {
+    const binary = atob(value);
+    const out = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        out[i] = binary.charCodeAt(i);
+    }
+    return out;
+}
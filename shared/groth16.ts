@@ -0,0 +1,61 @@
+// shared/groth16.ts - snarkjs Groth16 backend for the circuits in circuits/
+//
+// Artifacts come from a loader so the same provider works with file paths in Node
+// (scripts/proofProvider.ts) and with URLs in the browser (web/src/lib/services/proofs.ts).
+
+import { groth16 } from "snarkjs";
+import { CircuitInputs, CircuitProof, ProofCircuit, ProofError, ProofProvider, circuitSignals, hashProof } from "./proofs";
+
+export interface CircuitArtifacts {
+    wasm: string | Uint8Array;          // Witness generator: path, URL or bytes
+    zkey: string | Uint8Array;          // Proving key: path, URL or bytes
+    verificationKey: object;            // Parsed <name>_verification_key.json
+}
+
+export type ArtifactLoader = (circuit: ProofCircuit) => Promise<CircuitArtifacts>;
+
+export class Groth16ProofProvider implements ProofProvider {
+    readonly backend = "groth16" as const;
+    private readonly artifacts = new Map<ProofCircuit, Promise<CircuitArtifacts>>();
+
+    constructor(private readonly loadArtifacts: ArtifactLoader) {}
+
+    async prove<C extends ProofCircuit>(circuit: C, inputs: CircuitInputs[C]): Promise<CircuitProof<C>> {
+        const { wasm, zkey } = await this.getArtifacts(circuit);
+
+        let result: Awaited<ReturnType<typeof groth16.fullProve>>;
+        try {
+            result = await groth16.fullProve(circuitSignals(circuit, inputs), wasm, zkey);
+        } catch (error) {
+            // Witness generation fails with "Assert Failed" when a constraint does not hold
+            const message = error instanceof Error ? error.message : String(error);
+            throw new ProofError(circuit, /assert/i.test(message) ? "inputs do not satisfy the circuit" : message);
+        }
+
+        const proof = {
+            circuit,
+            backend: this.backend,
+            proof: result.proof,
+            publicSignals: result.publicSignals.map(String)
+        };
+        return { ...proof, hash: await hashProof(proof) };
+    }
+
+    async verify(proof: CircuitProof): Promise<boolean> {
+        if (proof.backend !== this.backend || !proof.proof || proof.hash !== await hashProof(proof)) {
+            return false;
+        }
+        const { verificationKey } = await this.getArtifacts(proof.circuit);
+        return groth16.verify(verificationKey, proof.publicSignals, proof.proof);
+    }
+
+    private getArtifacts(circuit: ProofCircuit): Promise<CircuitArtifacts> {
+        let artifacts = this.artifacts.get(circuit);
+        if (!artifacts) {
+            artifacts = this.loadArtifacts(circuit);
+            artifacts.catch(() => this.artifacts.delete(circuit));
+            this.artifacts.set(circuit, artifacts);
+        }
+        return artifacts;
+    }
+}
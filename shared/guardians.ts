@@ -0,0 +1,70 @@
+// shared/guardians.ts - Guardian votes on time capsules (contracts/CapsuleGuardians.sol)
+//
+// A capsule with guardians opens early once M of its N guardians approve, and stays locked for
+// good once M of them veto. Guardians vote on-chain with approve()/veto(), or sign an EIP-712
+// GuardianVote that anyone can submit with submitSignedVotes(). A signed vote names the epoch of
+// the guardian set; the creator replacing the set starts a new epoch and voids unsent signatures.
+// Once any guardian has voted the set is frozen, so a veto cannot be undone.
+//
+// The typed data below works with ethers' signer.signTypedData and viem's signTypedData.
+
+export const GUARDIAN_VOTE_TYPES = {
+    GuardianVote: [
+        { name: "capsules", type: "address" },
+        { name: "capsuleId", type: "uint256" },
+        { name: "approve", type: "bool" },
+        { name: "epoch", type: "uint256" }
+    ]
+};
+
+// getTimeCapsule().guardianApproval
+export type GuardianApproval = "none" | "pending" | "approved" | "vetoed";
+export const GUARDIAN_APPROVALS: GuardianApproval[] = ["none", "pending", "approved", "vetoed"];
+
+// CapsuleGuardians.Vote
+export type GuardianVote = "none" | "approve" | "veto";
+export const GUARDIAN_VOTES: GuardianVote[] = ["none", "approve", "veto"];
+
+export interface GuardianVoteMessage {
+    capsules: string;               // Capsule contract address
+    capsuleId: bigint;
+    approve: boolean;
+    epoch: bigint;
+}
+
+export interface GuardianState {
+    module: string;                 // CapsuleGuardians address
+    guardians: { address: string; vote: GuardianVote }[];
+    threshold: number;
+    epoch: bigint;
+    approval: GuardianApproval;
+}
+
+/**
+ * EIP-712 domain of a CapsuleGuardians deployment
+ * @param chainId Chain the module is deployed on
+ * @param module CapsuleGuardians address
+ */
+export function guardianDomain(chainId: number | bigint, module: string) {
+    return { name: "CapsuleGuardians", version: "1", chainId, verifyingContract: module };
+}
+
+/**
+ * Guardian state from the raw contract reads
+ * @param module CapsuleGuardians address
+ * @param guardians getGuardians() result: guardians, votes, threshold, epoch
+ * @param approval getTimeCapsule().guardianApproval
+ */
+export function toGuardianState(
+    module: string,
+    [guardians, votes, threshold, epoch]: readonly [readonly string[], readonly (number | bigint)[], bigint, bigint],
+    approval: number | bigint
+): GuardianState {
+    return {
+        module,
+        guardians: guardians.map((address, i) => ({ address, vote: GUARDIAN_VOTES[Number(votes[i])] })),
+        threshold: Number(threshold),
+        epoch,
+        approval: GUARDIAN_APPROVALS[Number(approval)]
+    };
+}
@@ -0,0 +1,156 @@
+// shared/keyWrap.ts - Per-recipient wrapping of capsule data keys
+//
+// A multi-recipient capsule stores one copy of the envelope data key (shared/envelope.ts) per
+// recipient, each wrapped to that recipient's encryption public key, so every recipient can
+// decrypt on their own and nobody else can.
+//
+// Recipients register a compressed secp256k1 public key with registerEncryptionKey(). The key pair
+// is derived from a wallet signature over ENCRYPTION_KEY_MESSAGE, so wallets that sign
+// deterministically (RFC 6979) recover the same key on every device.
+//
+// Wrapped key v1 (hex, 0x-prefixed):
+//   0x01 | ephemeral compressed public key (33) | iv (12) | AES-256-GCM(data key) with 16-byte tag
+// The AES key is HKDF-SHA256 over the ECDH x-coordinate, salted with the ephemeral public key.
+
+import { secp256k1 } from "@noble/curves/secp256k1";
+
+// Recipients sign this message and hash the signature into their encryption private key
+export const ENCRYPTION_KEY_MESSAGE = "Future Protocol encryption key v1";
+
+const WRAP_VERSION = 0x01;
+const PUBLIC_KEY_LENGTH = 33;
+const IV_LENGTH = 12;
+const DATA_KEY_LENGTH = 32;
+const TAG_LENGTH = 16;
+const HKDF_INFO = new TextEncoder().encode("future-protocol-key-wrap-v1");
+
+export interface EncryptionKeyPair {
+    privateKey: Uint8Array;
+    publicKey: string;              // 0x-prefixed compressed secp256k1 point, as registered on-chain
+}
+
+export class KeyWrapError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "KeyWrapError";
+    }
+}
+
+/**
+ * Derive an encryption key pair from a signature over ENCRYPTION_KEY_MESSAGE
+ * @param signature 0x-prefixed signature
+ */
+export async function encryptionKeyFromSignature(signature: string): Promise<EncryptionKeyPair> {
+    const privateKey = await sha256(new TextEncoder().encode(signature.toLowerCase()));
+    if (!secp256k1.utils.isValidPrivateKey(privateKey)) {
+        throw new KeyWrapError("Signature does not map to a valid encryption key");
+    }
+    return { privateKey, publicKey: "0x" + bytesToHex(secp256k1.getPublicKey(privateKey, true)) };
+}
+
+/**
+ * Wrap a data key for one recipient
+ * @param dataKey Hex-encoded 256-bit data key
+ * @param recipientPublicKey Encryption public key the recipient registered
+ * @returns 0x-prefixed wrapped key
+ */
+export async function wrapDataKey(dataKey: string, recipientPublicKey: string): Promise<string> {
+    const keyBytes = hexToBytes(dataKey);
+    if (keyBytes.length !== DATA_KEY_LENGTH) {
+        throw new KeyWrapError(`Data key must be ${DATA_KEY_LENGTH} bytes`);
+    }
+
+    const recipientKey = hexToBytes(recipientPublicKey);
+    try {
+        secp256k1.ProjectivePoint.fromHex(recipientKey).assertValidity();
+    } catch {
+        throw new KeyWrapError("Invalid recipient encryption key");
+    }
+
+    const ephemeralPrivateKey = secp256k1.utils.randomPrivateKey();
+    const ephemeralPublicKey = secp256k1.getPublicKey(ephemeralPrivateKey, true);
+    const aesKey = await deriveWrapKey(secp256k1.getSharedSecret(ephemeralPrivateKey, recipientKey, true), ephemeralPublicKey);
+
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const sealed = new Uint8Array(await globalThis.crypto.subtle.encrypt({ name: "AES-GCM", iv }, aesKey, toBuffer(keyBytes)));
+
+    return "0x" + bytesToHex(concatBytes(Uint8Array.of(WRAP_VERSION), ephemeralPublicKey, iv, sealed));
+}
+
+/**
+ * Recover a data key wrapped with wrapDataKey()
+ * @param wrappedKey 0x-prefixed wrapped key from getWrappedKey()
+ * @param privateKey Recipient's encryption private key
+ * @returns Hex-encoded data key (no 0x prefix), as openEnvelope() expects
+ * @throws KeyWrapError if the key was wrapped for someone else or was modified
+ */
+export async function unwrapDataKey(wrappedKey: string, privateKey: Uint8Array): Promise<string> {
+    const bytes = hexToBytes(wrappedKey);
+    if (bytes.length !== 1 + PUBLIC_KEY_LENGTH + IV_LENGTH + DATA_KEY_LENGTH + TAG_LENGTH || bytes[0] !== WRAP_VERSION) {
+        throw new KeyWrapError("Unsupported wrapped key format");
+    }
+
+    const ephemeralPublicKey = bytes.subarray(1, 1 + PUBLIC_KEY_LENGTH);
+    const iv = bytes.subarray(1 + PUBLIC_KEY_LENGTH, 1 + PUBLIC_KEY_LENGTH + IV_LENGTH);
+    const sealed = bytes.subarray(1 + PUBLIC_KEY_LENGTH + IV_LENGTH);
+
+    let shared: Uint8Array;
+    try {
+        shared = secp256k1.getSharedSecret(privateKey, ephemeralPublicKey, true);
+    } catch {
+        throw new KeyWrapError("Invalid wrapped key");
+    }
+
+    try {
+        const aesKey = await deriveWrapKey(shared, ephemeralPublicKey);
+        return bytesToHex(new Uint8Array(await globalThis.crypto.subtle.decrypt({ name: "AES-GCM", iv: toBuffer(iv) }, aesKey, toBuffer(sealed))));
+    } catch {
+        throw new KeyWrapError("Wrapped key was not made for this encryption key, or was modified");
+    }
+}
+
+async function deriveWrapKey(sharedPoint: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+    const material = await globalThis.crypto.subtle.importKey("raw", toBuffer(sharedPoint.subarray(1)), "HKDF", false, ["deriveKey"]);
+    return globalThis.crypto.subtle.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: toBuffer(salt), info: HKDF_INFO },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    );
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(await globalThis.crypto.subtle.digest("SHA-256", toBuffer(bytes)));
+}
+
+// Copy into a standalone ArrayBuffer so WebCrypto never sees a shared or offset view
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.slice().buffer as ArrayBuffer;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+    const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+    if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+        throw new KeyWrapError("Invalid hex string");
+    }
+    const bytes = new Uint8Array(clean.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
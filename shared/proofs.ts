@@ -0,0 +1,245 @@
+// shared/proofs.ts - Proof backends for the time-validation and receiver-auth circuits
+//
+// Every component that produces a "zk proof" goes through a ProofProvider, and every proof
+// says which backend made it:
+//   groth16  real snarkjs proofs over the circom circuits in circuits/ (shared/groth16.ts)
+//   mock     no cryptography at all; the statement is checked in JavaScript and the proof
+//            is a labelled placeholder, so reports can never pass it off as a SNARK
+//
+// The circuits:
+//   time_validation  referenceTime >= unlockTime and |localTime - referenceTime| <= maxDrift,
+//                    with localTime private. Public signals: capsuleId, unlockTime,
+//                    referenceTime, maxDrift
+//   receiver_auth    knowledge of the recipient's secret. Public signals: commitment =
+//                    Poseidon(secret, recipient), nullifier = Poseidon(secret, capsuleId),
+//                    capsuleId, recipient
+//
+// This module has no dependencies, so it runs in the Hardhat scripts and in the Next.js apps.
+
+export type ProofCircuit = "time_validation" | "receiver_auth";
+export type ProofBackend = "groth16" | "mock";
+
+// Circuit source and artifact base names (circuits/<name>.circom, circuits/compiled/<name>.*)
+export const PROOF_CIRCUITS: Record<ProofCircuit, string> = {
+    time_validation: "timeValidation",
+    receiver_auth: "receiverAuth"
+};
+
+// Order of the BN254 scalar field that circom signals live in
+export const SNARK_FIELD_SIZE = BigInt("21888242871839275222246405745257275088548364400416034343698204186575808495617");
+
+// Recipients sign this message and hash the signature into their receiver_auth secret
+export const RECEIVER_SECRET_MESSAGE = "Future Protocol receiver secret v1";
+
+type Numeric = number | bigint | string;
+
+export interface TimeValidationInputs {
+    capsuleId: Numeric;
+    unlockTime: Numeric;            // Unix seconds
+    referenceTime: Numeric;         // Attested Unix seconds (block or NTP time)
+    maxDrift: Numeric;              // Seconds
+    localTime: Numeric;             // Unix seconds; private
+}
+
+export interface ReceiverAuthInputs {
+    capsuleId: Numeric;
+    recipient: string;              // Address
+    secret: Numeric;                // Field element; private
+}
+
+export interface CircuitInputs {
+    time_validation: TimeValidationInputs;
+    receiver_auth: ReceiverAuthInputs;
+}
+
+export interface Groth16ProofData {
+    pi_a: string[];
+    pi_b: string[][];
+    pi_c: string[];
+    protocol: string;
+    curve: string;
+}
+
+export interface CircuitProof<C extends ProofCircuit = ProofCircuit> {
+    circuit: C;
+    backend: ProofBackend;
+    proof: Groth16ProofData | null;     // null for mock proofs
+    publicSignals: string[];            // Decimal strings, circuit outputs first
+    hash: string;                       // 0x-prefixed SHA-256 of backend, circuit, proof and signals
+}
+
+export interface ProofProvider {
+    readonly backend: ProofBackend;
+
+    /**
+     * Prove a statement
+     * @throws ProofError if the inputs do not satisfy the circuit
+     */
+    prove<C extends ProofCircuit>(circuit: C, inputs: CircuitInputs[C]): Promise<CircuitProof<C>>;
+
+    /**
+     * Check a proof made by this backend; proofs from another backend never verify
+     */
+    verify(proof: CircuitProof): Promise<boolean>;
+}
+
+export class ProofError extends Error {
+    constructor(readonly circuit: ProofCircuit, message: string) {
+        super(`${circuit}: ${message}`);
+        this.name = "ProofError";
+    }
+}
+
+/**
+ * Circuit input signals as decimal strings
+ */
+export function circuitSignals<C extends ProofCircuit>(circuit: C, inputs: CircuitInputs[C]): Record<string, string> {
+    if (circuit === "receiver_auth") {
+        const { capsuleId, recipient, secret } = inputs as ReceiverAuthInputs;
+        return {
+            capsuleId: BigInt(capsuleId).toString(),
+            recipient: BigInt(recipient).toString(),
+            secret: (BigInt(secret) % SNARK_FIELD_SIZE).toString()
+        };
+    }
+
+    const { capsuleId, unlockTime, referenceTime, maxDrift, localTime } = inputs as TimeValidationInputs;
+    return {
+        capsuleId: BigInt(capsuleId).toString(),
+        unlockTime: BigInt(unlockTime).toString(),
+        referenceTime: BigInt(referenceTime).toString(),
+        maxDrift: BigInt(maxDrift).toString(),
+        localTime: BigInt(localTime).toString()
+    };
+}
+
+/**
+ * Hash that identifies a proof in reports
+ */
+export async function hashProof(proof: Omit<CircuitProof, "hash">): Promise<string> {
+    return sha256Hex(JSON.stringify([proof.backend, proof.circuit, proof.proof, proof.publicSignals]));
+}
+
+/**
+ * Derive a receiver_auth secret from a signature over RECEIVER_SECRET_MESSAGE. Wallets sign
+ * deterministically (RFC 6979), so the recipient gets the same secret on every device.
+ * @param signature 0x-prefixed signature
+ */
+export async function receiverSecretFromSignature(signature: string): Promise<bigint> {
+    return BigInt(await sha256Hex(signature.toLowerCase())) % SNARK_FIELD_SIZE;
+}
+
+/**
+ * Combine component proofs into one digest for reports
+ * @returns The shared backend ("mixed" if they differ) and a hash over the component hashes
+ */
+export async function combineProofs(proofs: CircuitProof[]): Promise<{ backend: ProofBackend | "mixed"; hash: string }> {
+    const backends = new Set(proofs.map(proof => proof.backend));
+    return {
+        backend: backends.size === 1 ? proofs[0].backend : "mixed",
+        hash: await sha256Hex(proofs.map(proof => proof.hash).join(""))
+    };
+}
+
+// setProofGate mask for receiver_auth: commitment, capsuleId and recipient must match, the nullifier is free
+export const RECEIVER_AUTH_GATE_MASK = 0b1101;
+
+export interface ProofGate {
+    verifier: string;               // Zero address when the capsule has no gate
+    requiredMask: bigint;
+    publicSignals: bigint[];
+}
+
+export interface SolidityProof {
+    a: [string, string];
+    b: [[string, string], [string, string]];
+    c: [string, string];
+    publicSignals: string[];
+}
+
+/**
+ * Arguments for the generated verifiers and unlockTimeCapsuleWithProof. The verifier takes the
+ * G2 coordinates of pi_b in reverse order, as snarkjs' exportSolidityCallData does.
+ * @throws ProofError for mock proofs, which nothing on-chain can verify
+ */
+export function toSolidityProof(proof: CircuitProof): SolidityProof {
+    if (!proof.proof) {
+        throw new ProofError(proof.circuit, `${proof.backend} proofs cannot be verified on-chain`);
+    }
+    const { pi_a, pi_b, pi_c } = proof.proof;
+    return {
+        a: [pi_a[0], pi_a[1]],
+        b: [[pi_b[0][1], pi_b[0][0]], [pi_b[1][1], pi_b[1][0]]],
+        c: [pi_c[0], pi_c[1]],
+        publicSignals: proof.publicSignals
+    };
+}
+
+/**
+ * Whether a proof carries the public signals a capsule's proof gate requires. It says nothing
+ * about the proof itself; the gate's verifier checks that on-chain.
+ */
+export function matchesProofGate(proof: CircuitProof, gate: ProofGate): boolean {
+    if (proof.publicSignals.length !== gate.publicSignals.length) {
+        return false;
+    }
+    return gate.publicSignals.every((expected, i) =>
+        ((gate.requiredMask >> BigInt(i)) & BigInt(1)) === BigInt(0) || BigInt(proof.publicSignals[i]) === expected
+    );
+}
+
+/**
+ * One-line description for logs and reports, e.g. "groth16 (bn128)" or "mock (no proof)"
+ */
+export function describeProof(proof: CircuitProof): string {
+    return proof.proof ? `${proof.backend} (${proof.proof.curve})` : `${proof.backend} (no proof)`;
+}
+
+/**
+ * Checks each statement in JavaScript and returns unsigned, unproven placeholders. Use it where
+ * circuit artifacts are unavailable; anything reading its output can tell from backend === "mock".
+ * receiver_auth outputs are SHA-256 stand-ins, not Poseidon hashes, so they never match a real proof.
+ */
+export class MockProofProvider implements ProofProvider {
+    readonly backend = "mock" as const;
+
+    async prove<C extends ProofCircuit>(circuit: C, inputs: CircuitInputs[C]): Promise<CircuitProof<C>> {
+        const signals = circuitSignals(circuit, inputs);
+        let publicSignals: string[];
+
+        if (circuit === "receiver_auth") {
+            const standIn = async (...values: string[]) =>
+                (BigInt(await sha256Hex(`mock:${values.join(":")}`)) % SNARK_FIELD_SIZE).toString();
+            publicSignals = [
+                await standIn(signals.secret, signals.recipient),
+                await standIn(signals.secret, signals.capsuleId),
+                signals.capsuleId,
+                signals.recipient
+            ];
+        } else {
+            const unlockTime = BigInt(signals.unlockTime);
+            const referenceTime = BigInt(signals.referenceTime);
+            const maxDrift = BigInt(signals.maxDrift);
+            const localTime = BigInt(signals.localTime);
+            if (referenceTime < unlockTime) {
+                throw new ProofError(circuit, "reference time is before the unlock time");
+            }
+            if (localTime + maxDrift < referenceTime || referenceTime + maxDrift < localTime) {
+                throw new ProofError(circuit, "local clock is outside the allowed drift");
+            }
+            publicSignals = [signals.capsuleId, signals.unlockTime, signals.referenceTime, signals.maxDrift];
+        }
+
+        const proof = { circuit, backend: this.backend, proof: null, publicSignals };
+        return { ...proof, hash: await hashProof(proof) };
+    }
+
+    async verify(proof: CircuitProof): Promise<boolean> {
+        return proof.backend === this.backend && proof.proof === null && proof.hash === await hashProof(proof);
+    }
+}
+
+async function sha256Hex(text: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+    return "0x" + Array.from(digest, byte => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,311 @@
+// shared/retrieval.ts - Verified capsule content retrieval from IPFS gateways
+//
+// ContentRetriever.retrieve(cid) races every configured source at once (public gateways, and the
+// storage backend when it is not just one of them) and returns the first response whose bytes
+// hash to the requested CID (shared/cid.ts). A gateway serving anything else loses the race
+// instead of winning it, and the others are cancelled as soon as one verified response arrives.
+//
+// Verified content goes into a ContentCache, so repeated reads never touch the network. When
+// every source fails, the longest prefix any of them delivered is kept in the cache and the next
+// race asks for the rest with a Range request; large envelopes survive flaky gateways that way.
+//
+// Only fetch and ReadableStream are used, so the module runs in the Hardhat scripts and in the
+// Next.js apps. scripts/storageProvider.ts adds a cache on disk.
+
+import { computeCid } from "./cid";
+import { LIGHTHOUSE_GATEWAY, StorageProvider } from "./storage";
+
+export const DEFAULT_GATEWAYS = [
+    LIGHTHOUSE_GATEWAY,
+    "https://ipfs.io/ipfs/",
+    "https://dweb.link/ipfs/",
+    "https://gateway.pinata.cloud/ipfs/"
+];
+
+export interface ContentCache {
+    // Content whose CID was verified when it was stored
+    get(cid: string): Promise<Uint8Array | undefined>;
+    put(cid: string, content: Uint8Array): Promise<void>;
+    // Unverified first bytes of an interrupted download
+    getPartial(cid: string): Promise<Uint8Array | undefined>;
+    putPartial(cid: string, bytes: Uint8Array): Promise<void>;
+    deletePartial(cid: string): Promise<void>;
+}
+
+export interface RetrievalOptions {
+    gateways?: string[];                // URL prefixes the CID is appended to; default DEFAULT_GATEWAYS
+    storage?: StorageProvider;          // Raced alongside the gateways, e.g. a local Kubo node
+    cache?: ContentCache;               // Default: an in-memory cache for the retriever's lifetime
+    timeoutMs?: number;                 // A source that sends nothing for this long is dropped; default 30000
+    rounds?: number;                    // Races per retrieval, each resuming the longest partial download; default 3
+    onProgress?: (source: string, received: number, total?: number) => void;
+}
+
+export interface RetrievedContent {
+    content: Uint8Array;
+    source: string;                     // Gateway URL, "<backend> storage" or "cache"
+    resumedFrom: number;                // Bytes taken from an earlier, interrupted download
+}
+
+export interface SourceFailure {
+    source: string;
+    message: string;
+}
+
+export class RetrievalError extends Error {
+    constructor(readonly cid: string, readonly failures: SourceFailure[], reason?: string) {
+        super(`Could not retrieve ${cid}: ${reason ?? failures.map(failure => `${failure.source}: ${failure.message}`).join("; ")}`);
+        this.name = "RetrievalError";
+    }
+}
+
+/**
+ * Keeps verified content and partial downloads in memory, evicting the least recently used
+ * content beyond maxBytes
+ */
+export class MemoryCache implements ContentCache {
+    private readonly content = new Map<string, Uint8Array>();
+    private readonly partials = new Map<string, Uint8Array>();
+
+    constructor(private readonly maxBytes: number = 64 * 1024 * 1024) {}
+
+    async get(cid: string): Promise<Uint8Array | undefined> {
+        const content = this.content.get(cid);
+        if (content) {
+            // Map iteration follows insertion order, so re-inserting marks the entry as recently used
+            this.content.delete(cid);
+            this.content.set(cid, content);
+        }
+        return content;
+    }
+
+    async put(cid: string, content: Uint8Array): Promise<void> {
+        this.content.delete(cid);
+        this.content.set(cid, content);
+        let total = 0;
+        for (const entry of this.content.values()) total += entry.length;
+        for (const [key, entry] of this.content) {
+            if (total <= this.maxBytes || key === cid) break;
+            this.content.delete(key);
+            total -= entry.length;
+        }
+    }
+
+    async getPartial(cid: string): Promise<Uint8Array | undefined> {
+        return this.partials.get(cid);
+    }
+
+    async putPartial(cid: string, bytes: Uint8Array): Promise<void> {
+        this.partials.set(cid, bytes);
+    }
+
+    async deletePartial(cid: string): Promise<void> {
+        this.partials.delete(cid);
+    }
+}
+
+// Bytes a source delivered before it failed, reported with the failure
+class SourceError extends Error {
+    constructor(message: string, readonly received?: Uint8Array) {
+        super(message);
+        this.name = "SourceError";
+    }
+}
+
+export class ContentRetriever {
+    readonly gateways: string[];
+    readonly cache: ContentCache;
+    private readonly timeoutMs: number;
+    private readonly rounds: number;
+
+    constructor(private readonly options: RetrievalOptions = {}) {
+        this.gateways = (options.gateways ?? DEFAULT_GATEWAYS).map(gateway => gateway.endsWith("/") ? gateway : `${gateway}/`);
+        this.cache = options.cache ?? new MemoryCache();
+        this.timeoutMs = options.timeoutMs ?? 30000;
+        this.rounds = options.rounds ?? 3;
+    }
+
+    /**
+     * Fetch content by CID from the cache or the fastest source that serves it intact
+     * @param cid CIDv0 of the content; the bytes are hashed and compared against it
+     * @param signal Cancels the retrieval
+     * @throws RetrievalError listing why each source failed
+     */
+    async retrieve(cid: string, signal?: AbortSignal): Promise<RetrievedContent> {
+        if (!/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid)) {
+            // computeCid builds CIDv0 DAGs, which is what every storage backend here returns
+            throw new RetrievalError(cid, [], "only CIDv0 (Qm...) content can be verified");
+        }
+
+        const cached = await this.cache.get(cid).catch(() => undefined);
+        if (cached && await computeCid(cached) === cid) {
+            return { content: cached, source: "cache", resumedFrom: 0 };
+        }
+
+        const failures: SourceFailure[] = [];
+        let prefix = await this.cache.getPartial(cid).catch(() => undefined) ?? new Uint8Array(0);
+        for (let round = 1; round <= this.rounds; round++) {
+            const outcome = await this.race(cid, prefix, failures, signal);
+            if ("content" in outcome) {
+                await this.cache.put(cid, outcome.content).catch(() => undefined);
+                await this.cache.deletePartial(cid).catch(() => undefined);
+                return outcome;
+            }
+
+            if (outcome.partial.length > prefix.length) {
+                await this.cache.putPartial(cid, outcome.partial).catch(() => undefined);
+            } else if (outcome.partial.length === 0 && prefix.length > 0) {
+                await this.cache.deletePartial(cid).catch(() => undefined);
+            } else {
+                // Nothing new arrived, another race would end the same way
+                break;
+            }
+            prefix = outcome.partial;
+        }
+        throw new RetrievalError(cid, failures);
+    }
+
+    // Runs every source until one delivers verified content, or all of them failed
+    private race(cid: string, prefix: Uint8Array, failures: SourceFailure[], signal?: AbortSignal):
+        Promise<RetrievedContent | { partial: Uint8Array }> {
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        signal?.addEventListener("abort", abort);
+        if (signal?.aborted) abort();
+
+        const sources: { name: string; fetch: () => Promise<{ content: Uint8Array; resumedFrom: number }> }[] =
+            this.gateways.map(gateway => ({
+                name: `${gateway}${cid}`,
+                fetch: () => this.fetchGateway(`${gateway}${cid}`, prefix, controller.signal)
+            }));
+        const storage = this.options.storage;
+        if (storage) {
+            sources.push({
+                name: `${storage.backend} storage`,
+                fetch: async () => ({ content: await this.withTimeout(storage.get(cid), controller.signal), resumedFrom: 0 })
+            });
+        }
+
+        return new Promise((resolve, reject) => {
+            let pending = sources.length;
+            let partial = prefix;
+            // A resumed download that fails verification may owe it to a corrupt prefix: start over
+            let corrupt = false;
+
+            const settle = () => {
+                signal?.removeEventListener("abort", abort);
+                if (signal?.aborted) {
+                    reject(signal.reason);
+                } else {
+                    resolve({ partial: corrupt ? new Uint8Array(0) : partial });
+                }
+            };
+
+            for (const source of sources) {
+                source.fetch()
+                    .then(async ({ content, resumedFrom }) => {
+                        const actual = await computeCid(content);
+                        if (actual !== cid) {
+                            corrupt = corrupt || resumedFrom > 0;
+                            throw new SourceError(`served ${content.length} bytes with CID ${actual}`);
+                        }
+                        if (controller.signal.aborted) return;
+                        controller.abort();
+                        signal?.removeEventListener("abort", abort);
+                        resolve({ content, source: source.name, resumedFrom });
+                    })
+                    .catch((error: unknown) => {
+                        if (error instanceof SourceError && error.received && error.received.length > partial.length) {
+                            partial = error.received;
+                        }
+                        if (!controller.signal.aborted) {
+                            failures.push({ source: source.name, message: error instanceof Error ? error.message : String(error) });
+                        }
+                        if (--pending === 0) settle();
+                    });
+            }
+        });
+    }
+
+    // Streams one gateway response, asking for the bytes after prefix when there is one
+    private async fetchGateway(url: string, prefix: Uint8Array, raceSignal: AbortSignal): Promise<{ content: Uint8Array; resumedFrom: number }> {
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        raceSignal.addEventListener("abort", abort);
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let timedOut = false;
+        const resetTimer = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => { timedOut = true; controller.abort(); }, this.timeoutMs);
+        };
+
+        const chunks: Uint8Array[] = [];
+        let received = 0;
+        let start = 0;
+        try {
+            resetTimer();
+            const response = await fetch(url, {
+                signal: controller.signal,
+                headers: prefix.length > 0 ? { Range: `bytes=${prefix.length}-` } : undefined
+            });
+            if (response.status === 206) {
+                const range = /^bytes (\d+)-/.exec(response.headers.get("content-range") ?? "");
+                if (!range || Number(range[1]) !== prefix.length) {
+                    throw new SourceError(`answered the Range request with ${response.headers.get("content-range") ?? "no Content-Range"}`);
+                }
+                start = prefix.length;
+            } else if (!response.ok) {
+                throw new SourceError(`HTTP ${response.status}`);
+            }
+            // A 200 is the whole file: the gateway ignored the Range header
+
+            const length = Number(response.headers.get("content-length")) || undefined;
+            const total = length === undefined ? undefined : start + length;
+            if (!response.body) {
+                const content = new Uint8Array(await response.arrayBuffer());
+                chunks.push(content);
+                received = content.length;
+            } else {
+                const reader = response.body.getReader();
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    chunks.push(value);
+                    received += value.length;
+                    resetTimer();
+                    this.options.onProgress?.(url, start + received, total);
+                }
+            }
+
+            const body = concat(chunks, received);
+            return { content: start > 0 ? concat([prefix, body], start + received) : body, resumedFrom: start };
+        } catch (error) {
+            const message = timedOut
+                ? `no data for ${this.timeoutMs / 1000}s`
+                : error instanceof Error ? error.message : String(error);
+            const delivered = received > 0 ? concat(start > 0 ? [prefix, ...chunks] : chunks, start + received) : undefined;
+            throw new SourceError(message, delivered);
+        } finally {
+            clearTimeout(timer);
+            raceSignal.removeEventListener("abort", abort);
+        }
+    }
+
+    private withTimeout<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new SourceError(`no data for ${this.timeoutMs / 1000}s`)), this.timeoutMs);
+            signal.addEventListener("abort", () => reject(new SourceError("cancelled")), { once: true });
+            promise.then(resolve, reject).finally(() => clearTimeout(timer));
+        });
+    }
+}
+
+function concat(parts: Uint8Array[], length: number): Uint8Array {
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
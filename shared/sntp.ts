@@ -0,0 +1,156 @@
+// shared/sntp.ts - Minimal SNTPv4 client (RFC 4330) for time attestations
+//
+// Node only: it needs UDP sockets, so browsers get attestations from the web app's
+// /api/time-attestation route instead of importing this module.
+//
+// Offset and round trip follow the usual four-timestamp exchange:
+//   t1 client transmit, t2 server receive, t3 server transmit, t4 client receive
+//   offset = ((t2 - t1) + (t3 - t4)) / 2      roundTrip = (t4 - t1) - (t3 - t2)
+
+import dgram from "dgram";
+import { TimeSample } from "./timeAttestation";
+
+export const NTP_PORT = 123;
+export const NTP_PACKET_SIZE = 48;
+
+// Seconds between the NTP epoch (1900) and the Unix epoch (1970)
+const NTP_UNIX_OFFSET = 2_208_988_800;
+const MODE_CLIENT = 3;
+const MODE_SERVER = 4;
+const VERSION = 4;
+const LEAP_UNSYNCHRONIZED = 3;
+
+export interface SntpOptions {
+    port?: number;
+    timeoutMs?: number;
+    now?: () => number;             // Local clock in Unix ms, replaceable in tests
+}
+
+export class SntpError extends Error {
+    constructor(readonly server: string, message: string) {
+        super(`${server}: ${message}`);
+        this.name = "SntpError";
+    }
+}
+
+/**
+ * Query one server and return its offset from the local clock
+ * @param server Hostname or IP, optionally with :port
+ * @param options Port, timeout and clock
+ * @throws SntpError on timeout or a malformed, unsynchronised or kiss-of-death reply
+ */
+export async function querySntp(server: string, options: SntpOptions = {}): Promise<TimeSample> {
+    const now = options.now ?? Date.now;
+    const timeoutMs = options.timeoutMs ?? 2000;
+    const { host, port } = parseServer(server, options.port ?? NTP_PORT);
+
+    const socket = dgram.createSocket(host.includes(":") ? "udp6" : "udp4");
+    try {
+        const request = Buffer.alloc(NTP_PACKET_SIZE);
+        request[0] = (VERSION << 3) | MODE_CLIENT;
+
+        // The server echoes our transmit timestamp as its originate timestamp, which ties
+        // the reply to this request
+        const t1 = now();
+        writeTimestamp(request, 40, t1);
+
+        const reply = await new Promise<{ message: Buffer; address: string; t4: number }>((resolve, reject) => {
+            const timer = setTimeout(() => reject(new SntpError(server, `no reply within ${timeoutMs}ms`)), timeoutMs);
+            socket.once("error", error => {
+                clearTimeout(timer);
+                reject(new SntpError(server, error.message));
+            });
+            socket.on("message", (message, remote) => {
+                if (message.length < NTP_PACKET_SIZE || !message.subarray(24, 32).equals(request.subarray(40, 48))) {
+                    return;
+                }
+                clearTimeout(timer);
+                resolve({ message, address: remote.address, t4: now() });
+            });
+            socket.send(request, port, host, error => {
+                if (error) {
+                    clearTimeout(timer);
+                    reject(new SntpError(server, error.message));
+                }
+            });
+        });
+
+        const { message, address, t4 } = reply;
+        const leap = message[0] >> 6;
+        const mode = message[0] & 0x07;
+        const stratum = message[1];
+
+        if (mode !== MODE_SERVER) {
+            throw new SntpError(server, `unexpected mode ${mode}`);
+        }
+        if (stratum === 0) {
+            throw new SntpError(server, `kiss-of-death ${message.subarray(12, 16).toString("ascii")}`);
+        }
+        if (leap === LEAP_UNSYNCHRONIZED || stratum > 15) {
+            throw new SntpError(server, "server clock is not synchronised");
+        }
+
+        const t2 = readTimestamp(message, 32);
+        const t3 = readTimestamp(message, 40);
+        if (t3 === 0) {
+            throw new SntpError(server, "reply has no transmit timestamp");
+        }
+
+        return {
+            server,
+            address,
+            stratum,
+            offsetMs: Math.round(((t2 - t1) + (t3 - t4)) / 2),
+            roundTripMs: Math.max(0, Math.round((t4 - t1) - (t3 - t2))),
+            sampledAt: t4
+        };
+    } finally {
+        socket.close();
+    }
+}
+
+/**
+ * Query several servers in parallel; failures become samples with an error
+ * @param servers Hostnames or IPs, optionally with :port
+ * @param options Port, timeout and clock
+ */
+export async function sampleNtpServers(servers: string[], options: SntpOptions = {}): Promise<TimeSample[]> {
+    const now = options.now ?? Date.now;
+    return Promise.all(servers.map(server =>
+        querySntp(server, options).catch(error => ({
+            server,
+            sampledAt: now(),
+            error: error instanceof Error ? error.message : String(error)
+        }))
+    ));
+}
+
+// "host", "host:port", "[v6]:port" or a bare IPv6 address
+function parseServer(server: string, defaultPort: number): { host: string; port: number } {
+    const bracketed = /^\[(.+)\](?::(\d+))?$/.exec(server);
+    if (bracketed) {
+        return { host: bracketed[1], port: bracketed[2] ? Number(bracketed[2]) : defaultPort };
+    }
+    const parts = server.split(":");
+    return parts.length === 2 ? { host: parts[0], port: Number(parts[1]) } : { host: server, port: defaultPort };
+}
+
+/**
+ * Write a Unix ms time as a 64-bit NTP timestamp
+ */
+export function writeTimestamp(buffer: Buffer, offset: number, unixMs: number): void {
+    const seconds = Math.floor(unixMs / 1000) + NTP_UNIX_OFFSET;
+    const fraction = Math.round(((unixMs % 1000) / 1000) * 0x1_0000_0000);
+    buffer.writeUInt32BE(seconds >>> 0, offset);
+    buffer.writeUInt32BE(Math.min(fraction, 0xffff_ffff), offset + 4);
+}
+
+/**
+ * Read a 64-bit NTP timestamp as Unix ms (0 stays 0)
+ */
+export function readTimestamp(buffer: Buffer, offset: number): number {
+    const seconds = buffer.readUInt32BE(offset);
+    const fraction = buffer.readUInt32BE(offset + 4);
+    if (seconds === 0 && fraction === 0) return 0;
+    return (seconds - NTP_UNIX_OFFSET) * 1000 + (fraction / 0x1_0000_0000) * 1000;
+}
@@ -0,0 +1,263 @@
+// shared/storage.ts - Content storage backends for capsule envelopes
+//
+// Everything that stores or fetches capsule content goes through a StorageProvider:
+//   lighthouse  Lighthouse node API for uploads, its gateway for downloads (needs an API key)
+//   kubo        a local Kubo IPFS node over its RPC API (ipfs daemon, port 5001)
+//   filesystem  a content-addressed directory (scripts/storageProvider.ts, Node only)
+// All of them return the CID `ipfs add` would (see shared/cid.ts), so content stored through
+// one backend can be found through any IPFS gateway once it is published.
+//
+// storeVerified() is the upload path for capsule content: it only returns a CID that matches the
+// bytes and that the backend serves back, so no capsule is created pointing at missing content.
+//
+// The lighthouse and kubo backends only use fetch, so they run in the Hardhat scripts and in
+// the Next.js apps.
+
+import { computeCid } from "./cid";
+
+export type StorageBackend = "lighthouse" | "kubo" | "filesystem";
+export const STORAGE_BACKENDS: StorageBackend[] = ["lighthouse", "kubo", "filesystem"];
+
+// pinned: the backend keeps the content; pinning: it accepted the content and is still pinning it
+export type PinStatus = "pinned" | "pinning" | "unpinned" | "unknown";
+
+export const LIGHTHOUSE_GATEWAY = "https://gateway.lighthouse.storage/ipfs/";
+export const DEFAULT_KUBO_API_URL = "http://127.0.0.1:5001";
+
+export interface StoredContent {
+    cid: string;
+    size: number;                       // Content bytes
+}
+
+export interface StorageProvider {
+    readonly backend: StorageBackend;
+    /**
+     * Store content; resolves with its CID once the backend holds it
+     * @param content Bytes to store
+     * @param fileName Name reported to backends that keep one
+     */
+    put(content: Uint8Array, fileName?: string): Promise<StoredContent>;
+    get(cid: string): Promise<Uint8Array>;
+    // Undefined when the backend does not have the content
+    stat(cid: string): Promise<StoredContent | undefined>;
+    pinStatus(cid: string): Promise<PinStatus>;
+    // Public URL of the content, where the backend serves one
+    gatewayUrl(cid: string): string | undefined;
+}
+
+export class StorageError extends Error {
+    constructor(readonly backend: StorageBackend, message: string) {
+        super(`${backend}: ${message}`);
+        this.name = "StorageError";
+    }
+}
+
+// upload: put() kept failing; verify: the backend reported another CID; retrieve: the content
+// could not be read back, or read back different
+export type UploadStage = "upload" | "verify" | "retrieve";
+
+export class UploadError extends StorageError {
+    constructor(backend: StorageBackend, readonly stage: UploadStage, message: string) {
+        super(backend, message);
+        this.name = "UploadError";
+    }
+}
+
+export interface StoreOptions {
+    fileName?: string;
+    attempts?: number;                  // Per stage, default 4
+    retryDelayMs?: number;              // First retry delay, doubled after each attempt; default 1000
+    onRetry?: (stage: UploadStage, attempt: number, error: Error) => void;
+}
+
+/**
+ * Store content and confirm it before it is referenced anywhere: the CID the backend returns must
+ * equal the CID computed from the bytes, and reading it back must return the same bytes.
+ * Uploads and reads are retried with exponential backoff; a CID mismatch is not retried.
+ * @param storage Backend to store in
+ * @param content Bytes to store
+ * @returns The verified CID and size
+ * @throws UploadError naming the stage that failed
+ */
+export async function storeVerified(storage: StorageProvider, content: Uint8Array, options: StoreOptions = {}): Promise<StoredContent> {
+    const { fileName, attempts = 4, retryDelayMs = 1000, onRetry } = options;
+    const expected = await computeCid(content);
+
+    const retry = async <T>(stage: UploadStage, action: () => Promise<T>): Promise<T> => {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await action();
+            } catch (error) {
+                const reason = error instanceof Error ? error : new Error(String(error));
+                if (reason instanceof UploadError && reason.stage === "verify") throw reason;
+                if (attempt >= attempts) {
+                    throw new UploadError(storage.backend, stage, stage === "upload"
+                        ? `upload of ${content.length} bytes failed after ${attempts} attempts: ${reason.message}`
+                        : `${expected} was stored but could not be read back after ${attempts} attempts: ${reason.message}`);
+                }
+                onRetry?.(stage, attempt, reason);
+                await new Promise(resolve => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+            }
+        }
+    };
+
+    const stored = await retry("upload", async () => {
+        const result = await storage.put(content, fileName);
+        if (result.cid !== expected) {
+            throw new UploadError(storage.backend, "verify", `backend returned CID ${result.cid}, but the ${content.length} bytes uploaded have CID ${expected}`);
+        }
+        return result;
+    });
+
+    await retry("retrieve", async () => {
+        const retrieved = await storage.get(stored.cid);
+        const actual = await computeCid(retrieved);
+        if (actual !== expected) {
+            throw new Error(`read back ${retrieved.length} bytes with CID ${actual}`);
+        }
+    });
+
+    return { cid: expected, size: content.length };
+}
+
+export class LighthouseStorage implements StorageProvider {
+    readonly backend = "lighthouse";
+
+    constructor(
+        private readonly apiKey: string,
+        private readonly gateway: string = LIGHTHOUSE_GATEWAY,
+        private readonly nodeUrl: string = "https://node.lighthouse.storage",
+        private readonly apiUrl: string = "https://api.lighthouse.storage"
+    ) {}
+
+    async put(content: Uint8Array, fileName = "capsule.fpe"): Promise<StoredContent> {
+        if (!this.apiKey) {
+            throw new StorageError(this.backend, "an API key is required for uploads; get a free one at https://lighthouse.storage");
+        }
+
+        const form = new FormData();
+        form.append("file", new Blob([toBuffer(content)]), fileName);
+        const response = await request(this.backend, `${this.nodeUrl}/api/v0/add`, {
+            method: "POST",
+            headers: { Authorization: `Bearer ${this.apiKey}` },
+            body: form
+        });
+
+        const data = await response.json() as { Hash?: string; Size?: string };
+        if (!data.Hash) {
+            throw new StorageError(this.backend, "upload response has no CID");
+        }
+        return { cid: data.Hash, size: content.length };
+    }
+
+    async get(cid: string): Promise<Uint8Array> {
+        const response = await request(this.backend, this.gatewayUrl(cid));
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    async stat(cid: string): Promise<StoredContent | undefined> {
+        const response = await fetch(this.gatewayUrl(cid), { method: "HEAD" }).catch(() => undefined);
+        if (!response?.ok) return undefined;
+
+        const length = response.headers.get("content-length");
+        return { cid, size: length ? Number(length) : 0 };
+    }
+
+    async pinStatus(cid: string): Promise<PinStatus> {
+        if (!this.apiKey) return "unknown";
+
+        const response = await fetch(`${this.apiUrl}/api/lighthouse/file_info?cid=${encodeURIComponent(cid)}`, {
+            headers: { Authorization: `Bearer ${this.apiKey}` }
+        }).catch(() => undefined);
+        if (!response) return "unknown";
+        if (response.status === 404) return "unpinned";
+        if (!response.ok) return "unknown";
+
+        // Lighthouse pins everything uploaded through the node API with the account's key
+        const info = await response.json().catch(() => undefined) as { cid?: string } | undefined;
+        return info?.cid === cid ? "pinned" : "unpinned";
+    }
+
+    gatewayUrl(cid: string): string {
+        return `${this.gateway}${cid}`;
+    }
+}
+
+export class KuboStorage implements StorageProvider {
+    readonly backend = "kubo";
+    private readonly apiUrl: string;
+
+    /**
+     * @param apiUrl Kubo RPC API, without /api/v0
+     * @param gateway Gateway serving the node's content, e.g. http://127.0.0.1:8080/ipfs/
+     */
+    constructor(apiUrl: string = DEFAULT_KUBO_API_URL, private readonly gateway?: string) {
+        this.apiUrl = apiUrl.replace(/\/+$/, "");
+    }
+
+    async put(content: Uint8Array, fileName = "capsule.fpe"): Promise<StoredContent> {
+        const form = new FormData();
+        form.append("file", new Blob([toBuffer(content)]), fileName);
+        const response = await this.rpc("add?cid-version=0&pin=true", form);
+
+        const data = await response.json() as { Hash?: string };
+        if (!data.Hash) {
+            throw new StorageError(this.backend, "add response has no CID");
+        }
+        return { cid: data.Hash, size: content.length };
+    }
+
+    async get(cid: string): Promise<Uint8Array> {
+        const response = await this.rpc(`cat?arg=${encodeURIComponent(cid)}`);
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    async stat(cid: string): Promise<StoredContent | undefined> {
+        try {
+            // --offline: only report content the node already has, instead of searching the network
+            const response = await this.rpc(`files/stat?arg=${encodeURIComponent(`/ipfs/${cid}`)}&offline=true`);
+            const data = await response.json() as { Size: number };
+            return { cid, size: data.Size };
+        } catch {
+            return undefined;
+        }
+    }
+
+    async pinStatus(cid: string): Promise<PinStatus> {
+        const response = await fetch(`${this.apiUrl}/api/v0/pin/ls?arg=${encodeURIComponent(cid)}&type=recursive`, { method: "POST" })
+            .catch(() => undefined);
+        if (!response) return "unknown";
+
+        const data = await response.json().catch(() => undefined) as { Keys?: Record<string, unknown>; Message?: string } | undefined;
+        if (response.ok && data?.Keys?.[cid]) return "pinned";
+        return data?.Message?.includes("not pinned") ? "unpinned" : "unknown";
+    }
+
+    gatewayUrl(cid: string): string | undefined {
+        return this.gateway ? `${this.gateway}${cid}` : undefined;
+    }
+
+    // Every Kubo RPC endpoint is a POST
+    private rpc(path: string, body?: FormData): Promise<Response> {
+        return request(this.backend, `${this.apiUrl}/api/v0/${path}`, { method: "POST", body });
+    }
+}
+
+async function request(backend: StorageBackend, url: string, init?: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        throw new StorageError(backend, `${url} unreachable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        throw new StorageError(backend, `HTTP ${response.status} from ${url}${body ? `: ${body.slice(0, 200)}` : ""}`);
+    }
+    return response;
+}
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
@@ -0,0 +1,250 @@
+// shared/timeAttestation.ts - Signed time attestations from SNTP samples and block timestamps
+//
+// An attestation records what a set of NTP servers said the time was, how far the local clock
+// and the latest block timestamp were from that consensus, and whether the result met a
+// quorum/drift policy. The record is hashed as canonical JSON (SHA-256) and the hash is signed
+// with an Ethereum personal_sign signature, so anyone holding the record can recompute the hash
+// and check who vouched for it.
+//
+// This module only uses WebCrypto so it runs in the Hardhat scripts and in the Next.js apps.
+// Sampling NTP servers needs UDP and lives in shared/sntp.ts (Node only).
+
+export const ATTESTATION_FORMAT = "future-protocol-time-attestation";
+export const ATTESTATION_VERSION = 1;
+
+export interface AttestationPolicy {
+    quorum: number;                 // Servers that must agree with the consensus
+    maxDriftMs: number;             // Max distance between the offsets of agreeing servers
+    maxRoundTripMs: number;         // Samples with a slower round trip are discarded
+    maxChainSkewMs: number;         // Max distance of the latest block timestamp from NTP time
+}
+
+// Filecoin produces a block every 30s, so the latest block can trail real time by a round or two
+export const DEFAULT_ATTESTATION_POLICY: AttestationPolicy = {
+    quorum: 2,
+    maxDriftMs: 1000,
+    maxRoundTripMs: 2000,
+    maxChainSkewMs: 90_000
+};
+
+export const DEFAULT_NTP_SERVERS = [
+    "time.google.com",
+    "time.cloudflare.com",
+    "time.apple.com",
+    "pool.ntp.org"
+];
+
+export interface TimeSample {
+    server: string;
+    address?: string;               // Resolved IP the response came from
+    stratum?: number;
+    offsetMs?: number;              // Server time minus local time
+    roundTripMs?: number;
+    sampledAt: number;              // Local Unix ms when the response arrived
+    error?: string;
+}
+
+export interface ChainTimeReference {
+    chainId: number;
+    blockNumber: number;
+    blockHash: string;
+    blockTimestamp: number;         // Unix seconds
+    observedAt: number;             // Local Unix ms when the block was read
+}
+
+export interface TimeAttestation {
+    format: typeof ATTESTATION_FORMAT;
+    version: number;
+    attestor: string;               // Address expected to sign the hash
+    issuedAt: number;               // NTP-corrected Unix ms
+    samples: TimeSample[];
+    chain: ChainTimeReference;
+    policy: AttestationPolicy;
+    agreeingServers: string[];
+    ntpOffsetMs: number | null;     // Consensus of server offsets; null without any usable sample
+    chainSkewMs: number | null;     // Block timestamp minus NTP time when the block was read
+    valid: boolean;
+    reasons: string[];              // Why the policy was not met; empty when valid
+}
+
+export interface SignedTimeAttestation {
+    attestation: TimeAttestation;
+    hash: string;                   // 0x-prefixed SHA-256 of the canonical attestation JSON
+    signature: string;              // personal_sign over the 32 hash bytes
+}
+
+export class TimeAttestationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TimeAttestationError";
+    }
+}
+
+/**
+ * Apply a policy to SNTP samples and a block reference
+ * @param samples One sample per queried server
+ * @param chain Latest block read alongside the samples
+ * @param policy Quorum and drift limits
+ */
+export function evaluateTimeSamples(
+    samples: TimeSample[],
+    chain: ChainTimeReference,
+    policy: AttestationPolicy = DEFAULT_ATTESTATION_POLICY
+): Pick<TimeAttestation, "agreeingServers" | "ntpOffsetMs" | "chainSkewMs" | "valid" | "reasons"> {
+    const reasons: string[] = [];
+
+    const usable = samples.filter(sample =>
+        !sample.error &&
+        sample.offsetMs !== undefined &&
+        sample.roundTripMs !== undefined &&
+        sample.roundTripMs <= policy.maxRoundTripMs
+    );
+    if (usable.length === 0) {
+        return { agreeingServers: [], ntpOffsetMs: null, chainSkewMs: null, valid: false, reasons: ["No NTP server answered"] };
+    }
+
+    // Anchor on the server with the most peers within maxDriftMs (ties go to the one nearest the
+    // median), so a minority of wrong clocks cannot drag the consensus away from the rest
+    const median = medianOf(usable.map(sample => sample.offsetMs!));
+    const peersOf = (anchor: TimeSample) =>
+        usable.filter(sample => Math.abs(sample.offsetMs! - anchor.offsetMs!) <= policy.maxDriftMs);
+    let agreeing: TimeSample[] = [];
+    let anchorDistance = Infinity;
+    for (const candidate of usable) {
+        const peers = peersOf(candidate);
+        const distance = Math.abs(candidate.offsetMs! - median);
+        if (peers.length > agreeing.length || (peers.length === agreeing.length && distance < anchorDistance)) {
+            agreeing = peers;
+            anchorDistance = distance;
+        }
+    }
+    const ntpOffsetMs = Math.round(medianOf(agreeing.map(sample => sample.offsetMs!)));
+
+    if (agreeing.length < policy.quorum) {
+        reasons.push(`Only ${agreeing.length} of ${samples.length} NTP servers agree within ${policy.maxDriftMs}ms (quorum ${policy.quorum})`);
+    }
+
+    const chainSkewMs = chain.blockTimestamp * 1000 - (chain.observedAt + ntpOffsetMs);
+    if (Math.abs(chainSkewMs) > policy.maxChainSkewMs) {
+        reasons.push(`Block ${chain.blockNumber} timestamp is ${chainSkewMs}ms from NTP time (limit ${policy.maxChainSkewMs}ms)`);
+    }
+
+    return {
+        agreeingServers: agreeing.map(sample => sample.server),
+        ntpOffsetMs,
+        chainSkewMs,
+        valid: reasons.length === 0,
+        reasons
+    };
+}
+
+/**
+ * Build an unsigned attestation
+ * @param attestor Address that will sign it
+ * @param samples One sample per queried server
+ * @param chain Latest block read alongside the samples
+ * @param policy Quorum and drift limits
+ * @param now Local Unix ms, corrected by the consensus offset for issuedAt
+ */
+export function buildTimeAttestation(
+    attestor: string,
+    samples: TimeSample[],
+    chain: ChainTimeReference,
+    policy: AttestationPolicy = DEFAULT_ATTESTATION_POLICY,
+    now: number = Date.now()
+): TimeAttestation {
+    const result = evaluateTimeSamples(samples, chain, policy);
+    return {
+        format: ATTESTATION_FORMAT,
+        version: ATTESTATION_VERSION,
+        attestor: attestor.toLowerCase(),
+        issuedAt: now + (result.ntpOffsetMs ?? 0),
+        samples,
+        chain,
+        policy,
+        ...result
+    };
+}
+
+/**
+ * SHA-256 of the attestation as canonical JSON (sorted keys, no whitespace)
+ */
+export async function hashTimeAttestation(attestation: TimeAttestation): Promise<string> {
+    const bytes = new TextEncoder().encode(canonicalJson(attestation));
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+    return "0x" + Array.from(digest, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Hash and sign an attestation
+ * @param attestation Unsigned attestation
+ * @param signHash Signs the 32-byte hash as a personal message, e.g. wallet.signMessage(getBytes(hash))
+ */
+export async function signTimeAttestation(
+    attestation: TimeAttestation,
+    signHash: (hash: string) => Promise<string>
+): Promise<SignedTimeAttestation> {
+    const hash = await hashTimeAttestation(attestation);
+    return { attestation, hash, signature: await signHash(hash) };
+}
+
+/**
+ * Check that a signed attestation is intact, signed by its attestor and that its verdict follows
+ * from its samples. The caller still decides what to do with an attestation that is not valid
+ * @param signed Signed attestation
+ * @param recoverSigner Recovers the address that signed the hash, e.g. ethers.verifyMessage(getBytes(hash), signature)
+ * @param trustedAttestors Accepted attestor addresses; any attestor when omitted
+ * @throws TimeAttestationError describing the first failed check
+ */
+export async function verifyTimeAttestation(
+    signed: SignedTimeAttestation,
+    recoverSigner: (hash: string, signature: string) => Promise<string> | string,
+    trustedAttestors?: string[]
+): Promise<TimeAttestation> {
+    const { attestation } = signed;
+    if (attestation.format !== ATTESTATION_FORMAT || attestation.version !== ATTESTATION_VERSION) {
+        throw new TimeAttestationError(`Unsupported attestation ${attestation.format} v${attestation.version}`);
+    }
+
+    const hash = await hashTimeAttestation(attestation);
+    if (hash !== signed.hash) {
+        throw new TimeAttestationError("Attestation hash does not match its contents");
+    }
+
+    const signer = (await recoverSigner(hash, signed.signature)).toLowerCase();
+    if (signer !== attestation.attestor) {
+        throw new TimeAttestationError(`Attestation signed by ${signer}, expected ${attestation.attestor}`);
+    }
+    if (trustedAttestors && !trustedAttestors.some(address => address.toLowerCase() === signer)) {
+        throw new TimeAttestationError(`Attestor ${signer} is not trusted`);
+    }
+
+    // Re-run the policy so a signer cannot mark a failing sample set as valid
+    const result = evaluateTimeSamples(attestation.samples, attestation.chain, attestation.policy);
+    const claimed = (Object.keys(result) as (keyof typeof result)[]).filter(key =>
+        canonicalJson(result[key]) !== canonicalJson(attestation[key])
+    );
+    if (claimed.length > 0) {
+        throw new TimeAttestationError(`Attestation ${claimed.join(", ")} do not follow from its samples`);
+    }
+    return attestation;
+}
+
+function medianOf(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(",")}]`;
+    }
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
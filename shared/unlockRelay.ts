@@ -0,0 +1,105 @@
+// shared/unlockRelay.ts - Gasless unlocks through the unlock relayer (scripts/unlockRelayer.ts)
+//
+// A recipient without gas signs an EIP-712 UnlockRequest for a capsule; the relayer checks it and
+// sends unlockTimeCapsuleBySig, paying the gas. Requests carry the signer's unlockNonces() value
+// and a deadline, so each signature unlocks once and expires. The recipient then reads its key
+// with getDecryptionKey or getWrappedKey, which are free calls.
+//
+//   POST /unlock   { capsuleId, recipient, deadline, signature } -> { txHash }
+//   GET  /status
+//
+// The typed data below works with ethers' signer.signTypedData and viem's signTypedData.
+
+export const DEFAULT_RELAYER_PORT = 4200;
+
+// Seconds a signed request stays valid unless the signer picks another deadline
+export const DEFAULT_UNLOCK_REQUEST_TTL = 15 * 60;
+
+export const UNLOCK_REQUEST_TYPES = {
+    UnlockRequest: [
+        { name: "capsuleId", type: "uint256" },
+        { name: "recipient", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" }
+    ]
+};
+
+export interface UnlockRequest {
+    capsuleId: bigint;
+    recipient: string;              // Recipient or delegate that signs and unlocks
+    nonce: bigint;                  // unlockNonces(recipient) when signing
+    deadline: bigint;               // Unix seconds
+}
+
+// Body of POST /unlock; numbers are decimal strings so they survive JSON
+export interface RelayUnlockRequest {
+    capsuleId: string;
+    recipient: string;
+    deadline: string;
+    signature: string;
+}
+
+export interface RelayerStatus {
+    chainId: number;
+    contract: string;               // Capsule contract the relayer sends to
+    relayer: string;                // Address paying the gas
+    balance: string;                // Relayer balance in wei, as a decimal string
+}
+
+export class UnlockRelayError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = "UnlockRelayError";
+    }
+}
+
+/**
+ * EIP-712 domain of a capsule contract's UnlockRequest
+ * @param chainId Chain the contract is deployed on
+ * @param capsules TimeCapsuleBlocklockSimple address
+ */
+export function unlockRequestDomain(chainId: number | bigint, capsules: string) {
+    return { name: "TimeCapsuleBlocklockSimple", version: "1", chainId, verifyingContract: capsules };
+}
+
+export class UnlockRelayClient {
+    private readonly baseUrl: string;
+
+    constructor(baseUrl: string = `http://localhost:${DEFAULT_RELAYER_PORT}`) {
+        this.baseUrl = baseUrl.replace(/\/+$/, "");
+    }
+
+    /**
+     * Have the relayer send a signed unlock; resolves with the transaction hash once it is sent
+     * @param request Signed UnlockRequest; the nonce is read from the contract by the relayer
+     */
+    async relayUnlock(request: RelayUnlockRequest): Promise<string> {
+        const { txHash } = await this.request<{ txHash: string }>("/unlock", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(request)
+        });
+        return txHash;
+    }
+
+    async getStatus(): Promise<RelayerStatus> {
+        return this.request<RelayerStatus>("/status");
+    }
+
+    private async request<T>(path: string, init?: RequestInit): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, init);
+        } catch (error) {
+            throw new UnlockRelayError(
+                `Unlock relayer unreachable at ${this.baseUrl}: ${error instanceof Error ? error.message : error}`
+            );
+        }
+
+        const body = await response.json().catch(() => undefined);
+        if (!response.ok) {
+            throw new UnlockRelayError(body?.error ?? `Relayer request failed with HTTP ${response.status}`, response.status);
+        }
+        return body as T;
+    }
+}
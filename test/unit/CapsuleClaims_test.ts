@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { CapsuleClaims, CapsuleGuardians, TimeCapsuleBlocklockSimple } from "../../typechain-types";
+import { NO_CONTENT_HASHES } from "../../shared/envelope";
+
+describe("CapsuleClaims", function () {
+    const ONE_DAY = 24 * 60 * 60;
+
+    async function deployFixture() {
+        const [creator, alice, bob, carol, operator] = await ethers.getSigners();
+        const claims = await (await ethers.getContractFactory("CapsuleClaims"))
+            .deploy() as unknown as CapsuleClaims;
+        const capsules = await (await ethers.getContractFactory("TimeCapsuleBlocklockSimple"))
+            .deploy(ethers.ZeroAddress, claims.target) as unknown as TimeCapsuleBlocklockSimple;
+
+        const unlockTime = (await time.latest()) + ONE_DAY;
+        await capsules.createSimpleTimeCapsuleForRecipient(
+            "bafyCid", "data-key", unlockTime, alice.address, "", 'Letter "to the future"', 42, "text/plain"
+        );
+
+        return { capsules, claims, unlockTime, creator, alice, bob, carol, operator };
+    }
+
+    async function withClaims() {
+        const fixture = await deployFixture();
+        await fixture.capsules.tokenizeClaims(1, fixture.claims.target);
+        return fixture;
+    }
+
+    describe("tokenizeClaims", function () {
+        it("mints a token to each recipient and freezes creator recipient changes", async function () {
+            const { capsules, claims, alice, bob } = await loadFixture(deployFixture);
+
+            await expect(capsules.connect(alice).tokenizeClaims(1, claims.target))
+                .to.be.revertedWith("Only creator can amend");
+            await expect(capsules.tokenizeClaims(1, alice.address))
+                .to.be.revertedWith("Untrusted claims contract");
+            const rogue = await (await ethers.getContractFactory("CapsuleClaims")).deploy();
+            await expect(capsules.tokenizeClaims(1, rogue.target))
+                .to.be.revertedWith("Untrusted claims contract");
+
+            await expect(capsules.tokenizeClaims(1, claims.target))
+                .to.emit(capsules, "ClaimsTokenized")
+                .withArgs(1, claims.target)
+                .and.to.emit(claims, "Transfer")
+                .withArgs(ethers.ZeroAddress, alice.address, 1);
+
+            expect(await claims.ownerOf(1)).to.equal(alice.address);
+            expect(await claims.tokensOfOwner(alice.address)).to.deep.equal([1n]);
+            expect(await claims.getCapsuleTokens(capsules.target, 1)).to.deep.equal([1n]);
+            await expect(capsules.tokenizeClaims(1, claims.target)).to.be.revertedWith("Claims are tokenized");
+            await expect(capsules.updateRecipient(1, alice.address, bob.address, "0x"))
+                .to.be.revertedWith("Claims are tokenized");
+        });
+
+        it("works for capsules with wrapped keys, the creator wrapping the key for each new holder", async function () {
+            const { capsules, claims, unlockTime, creator, alice, bob } = await loadFixture(deployFixture);
+            await capsules.createSimpleTimeCapsuleForRecipients(
+                "bafyWrapped", unlockTime, [alice.address], ["0x01"], "Wrapped", 42, "text/plain", NO_CONTENT_HASHES
+            );
+            await capsules.tokenizeClaims(2, claims.target);
+            await claims.connect(alice).transferFrom(alice.address, bob.address, 1);
+
+            expect(await capsules.hasWrappedKey(2, alice.address)).to.equal(false);
+            expect(await capsules.hasWrappedKey(2, bob.address)).to.equal(false);
+            await time.increaseTo(unlockTime);
+            await expect(capsules.connect(bob).unlockTimeCapsule(2)).to.be.revertedWith("Wrapped key pending");
+
+            await expect(capsules.connect(bob).setWrappedKey(2, bob.address, "0x02"))
+                .to.be.revertedWith("Only creator can amend");
+            await expect(capsules.setWrappedKey(2, alice.address, "0x02")).to.be.revertedWith("No wrapped key pending");
+            await expect(capsules.setWrappedKey(2, bob.address, "0x")).to.be.revertedWith("Wrapped key cannot be empty");
+            await expect(capsules.connect(creator).setWrappedKey(2, bob.address, "0x02"))
+                .to.emit(capsules, "WrappedKeySet")
+                .withArgs(2, bob.address);
+            await expect(capsules.setWrappedKey(2, bob.address, "0x03")).to.be.revertedWith("No wrapped key pending");
+
+            expect(await capsules.connect(bob).unlockTimeCapsule.staticCall(2)).to.deep.equal(["bafyWrapped", "0x02"]);
+            await capsules.connect(bob).unlockTimeCapsule(2);
+            expect(await capsules.connect(bob).getWrappedKey(2)).to.equal("0x02");
+        });
+
+        it("never leaves a plain-key capsule waiting for a wrapped key", async function () {
+            const { capsules, alice } = await loadFixture(withClaims);
+
+            await expect(capsules.setWrappedKey(1, alice.address, "0x02")).to.be.revertedWith("No wrapped key pending");
+        });
+    });
+
+    describe("transfers", function () {
+        it("move the claim to the new owner", async function () {
+            const { capsules, claims, unlockTime, alice, bob } = await loadFixture(withClaims);
+
+            await expect(claims.connect(bob).transferFrom(alice.address, bob.address, 1))
+                .to.be.revertedWith("Not authorized to transfer");
+            await expect(claims.connect(alice).transferFrom(alice.address, bob.address, 1))
+                .to.emit(capsules, "RecipientUpdated")
+                .withArgs(1, alice.address, bob.address);
+
+            expect(await claims.ownerOf(1)).to.equal(bob.address);
+            expect(await claims.balanceOf(alice.address)).to.equal(0);
+            expect(await capsules.getRecipients(1)).to.deep.equal([bob.address]);
+
+            await time.increaseTo(unlockTime);
+            await expect(capsules.connect(alice).unlockTimeCapsule(1)).to.be.revertedWith("Not authorized to unlock");
+            await expect(capsules.connect(bob).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+        });
+
+        it("can be made by approved operators, and stop once the capsule is unlockable", async function () {
+            const { capsules, claims, unlockTime, alice, bob, carol, operator } = await loadFixture(withClaims);
+
+            await claims.connect(alice).setApprovalForAll(operator.address, true);
+            await claims.connect(operator)["safeTransferFrom(address,address,uint256)"](alice.address, bob.address, 1);
+            await claims.connect(bob).approve(operator.address, 1);
+            expect(await claims.getApproved(1)).to.equal(operator.address);
+
+            await time.increaseTo(unlockTime);
+            await expect(claims.connect(operator).transferFrom(bob.address, carol.address, 1))
+                .to.be.revertedWith("Capsule is already unlockable");
+            await capsules.connect(bob).unlockTimeCapsule(1);
+            await expect(claims.connect(operator).transferFrom(bob.address, carol.address, 1))
+                .to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("stop once the capsule is cancelled", async function () {
+            const { capsules, claims, alice, bob } = await loadFixture(withClaims);
+            await capsules.cancelCapsule(1);
+
+            await expect(claims.connect(alice).transferFrom(alice.address, bob.address, 1))
+                .to.be.revertedWith("Capsule was cancelled");
+        });
+
+        it("are reported as locked once the capsule is unlockable", async function () {
+            const { claims, unlockTime, alice, operator } = await loadFixture(withClaims);
+            expect(await claims.locked(1)).to.equal(false);
+            await expect(claims.locked(2)).to.be.revertedWith("Token does not exist");
+
+            await time.increaseTo(unlockTime);
+            expect(await claims.locked(1)).to.equal(true);
+            await expect(claims.connect(alice).approve(operator.address, 1)).to.be.revertedWith("Claim is locked");
+        });
+
+        it("are reported as locked once the capsule is cancelled", async function () {
+            const { capsules, claims } = await loadFixture(withClaims);
+            await capsules.cancelCapsule(1);
+
+            expect(await claims.locked(1)).to.equal(true);
+        });
+
+        it("lock once the guardians approve an early unlock", async function () {
+            const { claims, alice, bob, carol } = await loadFixture(deployFixture);
+            const guardians = await (await ethers.getContractFactory("CapsuleGuardians"))
+                .deploy() as unknown as CapsuleGuardians;
+            const capsules = await (await ethers.getContractFactory("TimeCapsuleBlocklockSimple"))
+                .deploy(guardians.target, claims.target) as unknown as TimeCapsuleBlocklockSimple;
+            await capsules.createSimpleTimeCapsuleForRecipient(
+                "bafyCid", "data-key", (await time.latest()) + ONE_DAY, alice.address, "", "Guarded letter", 42, "text/plain"
+            );
+            await capsules.tokenizeClaims(1, claims.target);
+            await capsules.setGuardians(1, guardians.target, [carol.address], 1);
+            const [tokenId] = await claims.getCapsuleTokens(capsules.target, 1);
+            expect(await claims.locked(tokenId)).to.equal(false);
+
+            await guardians.connect(carol).approve(capsules.target, 1);
+            expect(await claims.locked(tokenId)).to.equal(true);
+            await expect(claims.connect(alice).transferFrom(alice.address, bob.address, tokenId))
+                .to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("cannot be forged by calling the capsule contract directly", async function () {
+            const { capsules, alice, bob } = await loadFixture(withClaims);
+
+            await expect(capsules.connect(alice).transferClaim(1, alice.address, bob.address))
+                .to.be.revertedWith("Only claims contract");
+        });
+    });
+
+    describe("tokenURI", function () {
+        it("serves the capsule's non-secret metadata", async function () {
+            const { claims, unlockTime } = await loadFixture(withClaims);
+
+            const uri = await claims.tokenURI(1);
+            const prefix = "data:application/json;base64,";
+            expect(uri.startsWith(prefix)).to.equal(true);
+
+            const metadata = JSON.parse(Buffer.from(uri.slice(prefix.length), "base64").toString());
+            expect(metadata.name).to.equal('Letter "to the future"');
+            expect(metadata.attributes).to.deep.equal([
+                { trait_type: "Capsule", value: 1 },
+                { trait_type: "Unlock time", display_type: "date", value: unlockTime },
+                { trait_type: "File type", value: "text/plain" },
+                { trait_type: "Encrypted CID", value: "bafyCid" },
+                { trait_type: "Transferable", value: "Yes" }
+            ]);
+            expect(metadata.description).to.contain("only be transferred while the capsule is locked");
+            expect(JSON.stringify(metadata)).not.to.contain("data-key");
+        });
+
+        it("marks claims that can no longer be transferred", async function () {
+            const { claims, unlockTime } = await loadFixture(withClaims);
+            await time.increaseTo(unlockTime);
+
+            const uri = await claims.tokenURI(1);
+            const metadata = JSON.parse(Buffer.from(uri.slice("data:application/json;base64,".length), "base64").toString());
+            expect(metadata.attributes).to.deep.include({ trait_type: "Transferable", value: "No" });
+        });
+    });
+});
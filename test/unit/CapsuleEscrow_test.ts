@@ -0,0 +1,224 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { CapsuleEscrow, CapsuleGuardians, MockERC20, MockTimeCapsules, TimeCapsuleBlocklockSimple } from "../../typechain-types";
+import { NO_CONTENT_HASHES } from "../../shared/envelope";
+
+describe("CapsuleEscrow", function () {
+    const ONE_DAY = 24 * 60 * 60;
+    const NATIVE = ethers.ZeroAddress;
+    const GIFT = ethers.parseEther("1");
+
+    async function deployFixture() {
+        const [creator, alice, bob, stranger, guardian] = await ethers.getSigners();
+        const guardians = await (await ethers.getContractFactory("CapsuleGuardians"))
+            .deploy() as unknown as CapsuleGuardians;
+        const capsules = await (await ethers.getContractFactory("TimeCapsuleBlocklockSimple"))
+            .deploy(guardians.target, ethers.ZeroAddress) as unknown as TimeCapsuleBlocklockSimple;
+        const escrow = await (await ethers.getContractFactory("CapsuleEscrow"))
+            .deploy() as unknown as CapsuleEscrow;
+        const token = await (await ethers.getContractFactory("MockERC20"))
+            .deploy("Gift Token", "GIFT") as unknown as MockERC20;
+        await escrow.setTrustedCapsules(capsules.target, true);
+
+        const unlockTime = (await time.latest()) + ONE_DAY;
+        await capsules.createSimpleTimeCapsuleForRecipients(
+            "bafyCid", unlockTime, [alice.address, bob.address], ["0x01", "0x02"], "Vesting letter", 42, "text/plain", NO_CONTENT_HASHES
+        );
+        await token.mint(creator.address, GIFT);
+        await token.approve(escrow.target, GIFT);
+
+        return { capsules, guardians, escrow, token, unlockTime, creator, alice, bob, stranger, guardian };
+    }
+
+    describe("deposit", function () {
+        it("accepts native and approved ERC-20 funds from the creator of a locked capsule", async function () {
+            const { capsules, escrow, token } = await loadFixture(deployFixture);
+
+            await expect(escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT }))
+                .to.emit(escrow, "Deposited")
+                .withArgs(capsules.target, 1, NATIVE, GIFT);
+            await escrow.deposit(capsules.target, 1, token.target, GIFT / 2n);
+            await escrow.deposit(capsules.target, 1, token.target, GIFT / 2n);
+
+            const [tokens, totals, remaining] = await escrow.getDeposits(capsules.target, 1);
+            expect(tokens).to.deep.equal([NATIVE, token.target]);
+            expect(totals).to.deep.equal([GIFT, GIFT]);
+            expect(remaining).to.deep.equal([GIFT, GIFT]);
+            expect(await token.balanceOf(escrow.target)).to.equal(GIFT);
+        });
+
+        it("rejects other depositors, mismatched value and unlockable or cancelled capsules", async function () {
+            const { capsules, escrow, token, unlockTime, stranger } = await loadFixture(deployFixture);
+
+            await expect(escrow.connect(stranger).deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT }))
+                .to.be.revertedWith("Only creator can deposit");
+            await expect(escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: 1 }))
+                .to.be.revertedWith("Value does not match amount");
+            await expect(escrow.deposit(capsules.target, 1, token.target, GIFT, { value: 1 }))
+                .to.be.revertedWith("Value sent with token deposit");
+            await expect(escrow.deposit(capsules.target, 1, token.target, GIFT + 1n))
+                .to.be.revertedWith("Token transfer failed");
+
+            await time.increaseTo(unlockTime);
+            await expect(escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT }))
+                .to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("rejects capsules their guardians approved for an early unlock", async function () {
+            const { capsules, guardians, escrow, guardian } = await loadFixture(deployFixture);
+            await capsules.setGuardians(1, guardians.target, [guardian.address], 1);
+            await guardians.connect(guardian).approve(capsules.target, 1);
+
+            expect(await capsules.getTimeUntilUnlock(1)).to.be.greaterThan(0);
+            await expect(escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT }))
+                .to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("only accepts capsule contracts the admin trusts", async function () {
+            const { capsules, escrow, stranger } = await loadFixture(deployFixture);
+            const fake = await (await ethers.getContractFactory("MockTimeCapsules")).connect(stranger).deploy();
+
+            await expect(escrow.connect(stranger).deposit(fake.target, 1, NATIVE, GIFT, { value: GIFT }))
+                .to.be.revertedWith("Untrusted capsule contract");
+            await expect(escrow.connect(stranger).setTrustedCapsules(fake.target, true)).to.be.revertedWith("Only admin");
+            await expect(escrow.setTrustedCapsules(stranger.address, true))
+                .to.be.revertedWith("Capsule contract is not a contract");
+
+            await expect(escrow.setTrustedCapsules(capsules.target, false))
+                .to.emit(escrow, "CapsulesTrusted")
+                .withArgs(capsules.target, false);
+            await expect(escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT }))
+                .to.be.revertedWith("Untrusted capsule contract");
+        });
+    });
+
+    describe("claim", function () {
+        it("pays each recipient an equal share once it has unlocked", async function () {
+            const { capsules, escrow, token, unlockTime, alice, bob, stranger } = await loadFixture(deployFixture);
+            await escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT });
+            await escrow.deposit(capsules.target, 1, token.target, GIFT);
+
+            await expect(escrow.claim(capsules.target, 1, stranger.address)).to.be.revertedWith("Not a recipient");
+            await expect(escrow.claim(capsules.target, 1, alice.address)).to.be.revertedWith("Recipient has not unlocked");
+
+            await time.increaseTo(unlockTime);
+            await capsules.connect(alice).unlockTimeCapsule(1);
+            expect(await escrow.claimable(capsules.target, 1, alice.address, NATIVE)).to.equal(GIFT / 2n);
+            expect(await escrow.claimable(capsules.target, 1, bob.address, NATIVE)).to.equal(0);
+
+            // Anyone can send a recipient its share
+            const claim = escrow.connect(stranger).claim(capsules.target, 1, alice.address);
+            await expect(claim).to.changeEtherBalances([alice, escrow], [GIFT / 2n, -GIFT / 2n]);
+            await expect(claim).to.emit(escrow, "Claimed").withArgs(capsules.target, 1, alice.address, token.target, GIFT / 2n);
+            expect(await token.balanceOf(alice.address)).to.equal(GIFT / 2n);
+            await expect(escrow.claim(capsules.target, 1, alice.address)).to.be.revertedWith("Nothing to claim");
+
+            await capsules.connect(bob).unlockTimeCapsule(1);
+            await escrow.connect(bob).claim(capsules.target, 1, bob.address);
+
+            const [, , remaining] = await escrow.getDeposits(capsules.target, 1);
+            expect(remaining).to.deep.equal([0n, 0n]);
+        });
+
+        it("never pays out more than was deposited for the capsule", async function () {
+            const { capsules, escrow, alice, bob, stranger } = await loadFixture(deployFixture);
+            await escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT });
+            const fake = await (await ethers.getContractFactory("MockTimeCapsules"))
+                .connect(stranger).deploy() as unknown as MockTimeCapsules;
+            await escrow.setTrustedCapsules(fake.target, true);
+            await escrow.connect(stranger).deposit(fake.target, 1, NATIVE, GIFT, { value: GIFT });
+            await fake.setLocked(false);
+
+            await expect(escrow.claim(fake.target, 1, stranger.address)).to.changeEtherBalance(stranger, GIFT);
+            expect(await escrow.claimable(fake.target, 1, alice.address, NATIVE)).to.equal(0);
+            await expect(escrow.claim(fake.target, 1, alice.address)).to.be.revertedWith("Claim exceeds deposit");
+            await expect(escrow.claim(fake.target, 1, bob.address)).to.be.revertedWith("Claim exceeds deposit");
+
+            expect(await ethers.provider.getBalance(escrow.target)).to.equal(GIFT);
+            const [, , remaining] = await escrow.getDeposits(capsules.target, 1);
+            expect(remaining).to.deep.equal([GIFT]);
+        });
+    });
+
+    describe("refund", function () {
+        it("returns the funds of a cancelled capsule to its creator", async function () {
+            const { capsules, escrow, token, creator, stranger } = await loadFixture(deployFixture);
+            await escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT });
+            await escrow.deposit(capsules.target, 1, token.target, GIFT);
+
+            await expect(escrow.refund(capsules.target, 1)).to.be.revertedWith("Capsule is not cancelled");
+            await capsules.cancelCapsule(1);
+            await expect(escrow.connect(stranger).refund(capsules.target, 1)).to.be.revertedWith("Only creator can refund");
+
+            const refund = escrow.refund(capsules.target, 1);
+            await expect(refund).to.changeEtherBalances([creator, escrow], [GIFT, -GIFT]);
+            await expect(refund).to.emit(escrow, "Refunded").withArgs(capsules.target, 1, creator.address, token.target, GIFT);
+            expect(await token.balanceOf(creator.address)).to.equal(GIFT);
+            await expect(escrow.refund(capsules.target, 1)).to.be.revertedWith("Nothing to refund");
+        });
+    });
+
+    describe("reclaim", function () {
+        const RECLAIM_DELAY = 90 * ONE_DAY;
+
+        it("returns the shares of recipients that never unlocked once the claim period is over", async function () {
+            const { capsules, escrow, token, unlockTime, creator, alice, bob, stranger } = await loadFixture(deployFixture);
+            await escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT });
+            await escrow.deposit(capsules.target, 1, token.target, GIFT);
+
+            await time.increaseTo(unlockTime);
+            await capsules.connect(alice).unlockTimeCapsule(1);
+            await escrow.claim(capsules.target, 1, alice.address);
+
+            await time.increaseTo(unlockTime + RECLAIM_DELAY - 2);
+            expect(await escrow.canReclaim(capsules.target, 1)).to.equal(false);
+            await expect(escrow.reclaim(capsules.target, 1)).to.be.revertedWith("Recipients can still claim");
+
+            await time.increaseTo(unlockTime + RECLAIM_DELAY);
+            expect(await escrow.canReclaim(capsules.target, 1)).to.equal(true);
+            await expect(escrow.connect(stranger).reclaim(capsules.target, 1)).to.be.revertedWith("Only creator can reclaim");
+
+            const reclaim = escrow.reclaim(capsules.target, 1);
+            await expect(reclaim).to.changeEtherBalances([creator, escrow], [GIFT / 2n, -GIFT / 2n]);
+            await expect(reclaim).to.emit(escrow, "Refunded").withArgs(capsules.target, 1, creator.address, token.target, GIFT / 2n);
+            expect(await token.balanceOf(creator.address)).to.equal(GIFT / 2n);
+            await expect(escrow.reclaim(capsules.target, 1)).to.be.revertedWith("Nothing to reclaim");
+
+            // A recipient unlocking late finds its share gone
+            await capsules.connect(bob).unlockTimeCapsule(1);
+            expect(await escrow.claimable(capsules.target, 1, bob.address, NATIVE)).to.equal(0);
+            await expect(escrow.claim(capsules.target, 1, bob.address)).to.be.revertedWith("Claim exceeds deposit");
+        });
+
+        it("returns the funds of a capsule its guardians vetoed", async function () {
+            const { capsules, guardians, escrow, unlockTime, creator, alice, guardian } = await loadFixture(deployFixture);
+            await capsules.setGuardians(1, guardians.target, [guardian.address], 1);
+            await escrow.deposit(capsules.target, 1, NATIVE, GIFT, { value: GIFT });
+            await guardians.connect(guardian).veto(capsules.target, 1);
+
+            await time.increaseTo(unlockTime + RECLAIM_DELAY);
+            await expect(capsules.connect(alice).unlockTimeCapsule(1)).to.be.revertedWith("Vetoed by guardians");
+            await expect(escrow.reclaim(capsules.target, 1)).to.changeEtherBalances([creator, escrow], [GIFT, -GIFT]);
+
+            const [, , remaining] = await escrow.getDeposits(capsules.target, 1);
+            expect(remaining).to.deep.equal([0n]);
+        });
+
+        it("counts the claim period in blocks for capsules that unlock at a block", async function () {
+            const { capsules, escrow, creator, alice } = await loadFixture(deployFixture);
+            const unlockBlock = (await ethers.provider.getBlockNumber()) + 10;
+            await capsules.createSimpleTimeCapsuleAtBlock(
+                "bafyCid", "", unlockBlock, [alice.address], ["0x01"], "Block letter", 42, "text/plain", NO_CONTENT_HASHES
+            );
+            await escrow.deposit(capsules.target, 2, NATIVE, GIFT, { value: GIFT });
+
+            // Ninety days pass in time but not in blocks
+            await time.increase(RECLAIM_DELAY);
+            await expect(escrow.reclaim(capsules.target, 2)).to.be.revertedWith("Recipients can still claim");
+
+            await mine(unlockBlock + Number(await escrow.RECLAIM_DELAY_BLOCKS()) - (await ethers.provider.getBlockNumber()) - 1);
+            await expect(escrow.reclaim(capsules.target, 2)).to.changeEtherBalance(creator, GIFT);
+        });
+    });
+});
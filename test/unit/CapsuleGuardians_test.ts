@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { CapsuleGuardians, TimeCapsuleBlocklockSimple } from "../../typechain-types";
+import { GUARDIAN_VOTE_TYPES, guardianDomain, toGuardianState } from "../../shared/guardians";
+
+describe("CapsuleGuardians", function () {
+    const ONE_DAY = 24 * 60 * 60;
+    const NONE = 0, PENDING = 1, APPROVED = 2, VETOED = 3;
+
+    async function deployFixture() {
+        const [creator, recipient, alice, bob, carol, stranger] = await ethers.getSigners();
+        const guardians = await (await ethers.getContractFactory("CapsuleGuardians"))
+            .deploy() as unknown as CapsuleGuardians;
+        const capsules = await (await ethers.getContractFactory("TimeCapsuleBlocklockSimple"))
+            .deploy(guardians.target, ethers.ZeroAddress) as unknown as TimeCapsuleBlocklockSimple;
+
+        const unlockTime = (await time.latest()) + ONE_DAY;
+        await capsules.createSimpleTimeCapsuleForRecipient(
+            "bafyCid", "data-key", unlockTime, recipient.address, "", "Letter", 42, "text/plain"
+        );
+
+        return { capsules, guardians, unlockTime, creator, recipient, alice, bob, carol, stranger };
+    }
+
+    async function withGuardians() {
+        const fixture = await deployFixture();
+        const { capsules, guardians, alice, bob, carol } = fixture;
+        await capsules.setGuardians(1, guardians.target, [alice.address, bob.address, carol.address], 2);
+        return fixture;
+    }
+
+    async function signVote(
+        guardian: Signer,
+        guardians: CapsuleGuardians,
+        capsules: TimeCapsuleBlocklockSimple,
+        approve: boolean,
+        epoch: bigint = 1n
+    ) {
+        const { chainId } = await ethers.provider.getNetwork();
+        const signature = await guardian.signTypedData(
+            guardianDomain(chainId, await guardians.getAddress()),
+            GUARDIAN_VOTE_TYPES,
+            { capsules: await capsules.getAddress(), capsuleId: 1, approve, epoch }
+        );
+        return { guardian: await guardian.getAddress(), approve, signature };
+    }
+
+    describe("setGuardians", function () {
+        it("lets only the creator name guardians, and validates the set", async function () {
+            const { capsules, guardians, recipient, alice, bob } = await loadFixture(deployFixture);
+
+            await expect(capsules.connect(recipient).setGuardians(1, guardians.target, [alice.address], 1))
+                .to.be.revertedWith("Only creator can amend");
+            await expect(capsules.setGuardians(1, alice.address, [alice.address], 1))
+                .to.be.revertedWith("Untrusted guardian module");
+            const rogue = await (await ethers.getContractFactory("CapsuleGuardians")).deploy();
+            await expect(capsules.setGuardians(1, rogue.target, [alice.address], 1))
+                .to.be.revertedWith("Untrusted guardian module");
+            await expect(capsules.setGuardians(1, guardians.target, [], 1))
+                .to.be.revertedWith("Invalid guardian count");
+            await expect(capsules.setGuardians(1, guardians.target, [alice.address, bob.address], 3))
+                .to.be.revertedWith("Invalid guardian threshold");
+            await expect(capsules.setGuardians(1, guardians.target, [alice.address, alice.address], 1))
+                .to.be.revertedWith("Duplicate guardian");
+            await expect(capsules.setGuardians(1, guardians.target, [ethers.ZeroAddress], 1))
+                .to.be.revertedWith("Guardian cannot be zero address");
+
+            await expect(capsules.setGuardians(1, guardians.target, [alice.address, bob.address], 1))
+                .to.emit(capsules, "GuardiansUpdated")
+                .withArgs(1, guardians.target, [alice.address, bob.address], 1)
+                .and.to.emit(guardians, "GuardiansConfigured")
+                .withArgs(capsules.target, 1, [alice.address, bob.address], 1, 1);
+            expect((await capsules.getTimeCapsule(1)).guardianApproval).to.equal(PENDING);
+        });
+
+        it("can no longer be changed once the capsule is unlockable", async function () {
+            const { capsules, guardians, unlockTime, alice } = await loadFixture(deployFixture);
+
+            await time.increaseTo(unlockTime);
+
+            await expect(capsules.setGuardians(1, guardians.target, [alice.address], 1))
+                .to.be.revertedWith("Capsule is already unlockable");
+        });
+    });
+
+    describe("approvals", function () {
+        it("opens the capsule before its unlock time once the threshold approves", async function () {
+            const { capsules, guardians, recipient, alice, bob, stranger } = await loadFixture(withGuardians);
+
+            await expect(guardians.connect(stranger).approve(capsules.target, 1)).to.be.revertedWith("Not a guardian");
+            await expect(guardians.connect(alice).approve(capsules.target, 1))
+                .to.emit(guardians, "GuardianVoted")
+                .withArgs(capsules.target, 1, alice.address, true, 1);
+            await expect(guardians.connect(alice).approve(capsules.target, 1))
+                .to.be.revertedWith("Guardian already voted");
+
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule is still locked");
+
+            await guardians.connect(bob).approve(capsules.target, 1);
+
+            expect(await capsules.canUnlock(1)).to.equal(true);
+            expect((await capsules.getTimeCapsule(1)).guardianApproval).to.equal(APPROVED);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+            expect(await capsules.connect(recipient).getDecryptionKey(1)).to.equal(ethers.hexlify(ethers.toUtf8Bytes("data-key")));
+        });
+
+        it("ends cancelling and recipient changes once the guardians approve", async function () {
+            const { capsules, guardians, recipient, alice, bob, stranger } = await loadFixture(withGuardians);
+            await guardians.connect(alice).approve(capsules.target, 1);
+            await guardians.connect(bob).approve(capsules.target, 1);
+
+            await expect(capsules.cancelCapsule(1)).to.be.revertedWith("Capsule is already unlockable");
+            await expect(capsules.updateRecipient(1, recipient.address, stranger.address, "0x"))
+                .to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("accepts signed votes bundled by anyone", async function () {
+            const { capsules, guardians, recipient, alice, bob, stranger } = await loadFixture(withGuardians);
+            const votes = [
+                await signVote(alice, guardians, capsules, true),
+                await signVote(bob, guardians, capsules, true)
+            ];
+
+            await expect(guardians.connect(stranger).submitSignedVotes(capsules.target, 1, votes))
+                .to.emit(guardians, "GuardianVoted")
+                .withArgs(capsules.target, 1, bob.address, true, 1);
+
+            const state = toGuardianState(
+                await capsules.guardianModules(1),
+                await guardians.getGuardians(capsules.target, 1),
+                (await capsules.getTimeCapsule(1)).guardianApproval
+            );
+            expect(state.approval).to.equal("approved");
+            expect(state.guardians.map(guardian => guardian.vote)).to.deep.equal(["approve", "approve", "none"]);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+        });
+
+        it("rejects forged, altered and stale signatures", async function () {
+            const { capsules, guardians, alice, bob, carol, stranger } = await loadFixture(withGuardians);
+
+            const forged = { ...(await signVote(stranger, guardians, capsules, true)), guardian: alice.address };
+            await expect(guardians.submitSignedVotes(capsules.target, 1, [forged]))
+                .to.be.revertedWith("Invalid guardian signature");
+
+            const altered = { ...(await signVote(alice, guardians, capsules, false)), approve: true };
+            await expect(guardians.submitSignedVotes(capsules.target, 1, [altered]))
+                .to.be.revertedWith("Invalid guardian signature");
+
+            const stale = await signVote(alice, guardians, capsules, true);
+            await capsules.setGuardians(1, guardians.target, [alice.address, bob.address, carol.address], 2);
+            await expect(guardians.submitSignedVotes(capsules.target, 1, [stale]))
+                .to.be.revertedWith("Invalid guardian signature");
+            await expect(guardians.submitSignedVotes(capsules.target, 1, [await signVote(alice, guardians, capsules, true, 2n)]))
+                .to.emit(guardians, "GuardianVoted");
+        });
+    });
+
+    describe("vetoes", function () {
+        it("keep the capsule locked after its unlock time, over any approvals", async function () {
+            const { capsules, guardians, unlockTime, recipient, alice, bob, carol } = await loadFixture(withGuardians);
+
+            await guardians.connect(alice).approve(capsules.target, 1);
+            await guardians.connect(bob).veto(capsules.target, 1);
+            await time.increaseTo(unlockTime);
+            expect(await capsules.canUnlock(1)).to.equal(true);
+
+            await guardians.connect(carol).veto(capsules.target, 1);
+
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            expect((await capsules.getTimeCapsule(1)).guardianApproval).to.equal(VETOED);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Vetoed by guardians");
+            await expect(capsules.connect(recipient).getDecryptionKey(1)).to.be.revertedWith("Vetoed by guardians");
+        });
+
+        it("survive the creator replacing or removing the guardians", async function () {
+            const { capsules, guardians, unlockTime, recipient, alice, bob, carol } = await loadFixture(withGuardians);
+
+            await guardians.connect(alice).veto(capsules.target, 1);
+            await expect(capsules.setGuardians(1, guardians.target, [carol.address], 1))
+                .to.be.revertedWith("Guardians have voted");
+            await expect(capsules.setGuardians(1, ethers.ZeroAddress, [], 0))
+                .to.be.revertedWith("Guardians have voted");
+
+            await guardians.connect(bob).veto(capsules.target, 1);
+            await time.increaseTo(unlockTime);
+            expect((await capsules.getTimeCapsule(1)).guardianApproval).to.equal(VETOED);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Vetoed by guardians");
+        });
+
+        it("can be avoided by replacing or removing the guardians before any of them votes", async function () {
+            const { capsules, guardians, unlockTime, recipient, alice, bob } = await loadFixture(withGuardians);
+
+            await capsules.setGuardians(1, guardians.target, [alice.address, bob.address], 2);
+            expect((await capsules.getTimeCapsule(1)).guardianApproval).to.equal(PENDING);
+
+            await capsules.setGuardians(1, ethers.ZeroAddress, [], 0);
+            expect((await capsules.getTimeCapsule(1)).guardianApproval).to.equal(NONE);
+
+            await time.increaseTo(unlockTime);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+        });
+    });
+});
@@ -0,0 +1,236 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { AddressInfo } from "net";
+import { once } from "events";
+import { TimeCapsuleBlocklockSimple } from "../../typechain-types";
+import { CapsuleIndexer, createIndexerApi } from "../../scripts/capsuleIndexer";
+import { CapsuleIndexStore } from "../../scripts/CapsuleIndexStore";
+import { CapsuleIndexClient, CapsuleIndexError } from "../../shared/capsuleIndex";
+import { NO_CONTENT_HASHES } from "../../shared/envelope";
+
+describe("CapsuleIndexer", function () {
+    const ONE_DAY = 24 * 60 * 60;
+    const FEE = ethers.parseEther("0.001");
+
+    async function deployFixture() {
+        const [creator, recipient, stranger] = await ethers.getSigners();
+        const factory = await ethers.getContractFactory("TimeCapsuleBlocklockSimple");
+        const capsules = await factory.deploy(ethers.ZeroAddress, ethers.ZeroAddress) as unknown as TimeCapsuleBlocklockSimple;
+        const startBlock = await ethers.provider.getBlockNumber();
+        return { capsules, creator, recipient, stranger, startBlock };
+    }
+
+    function createIndexer(capsules: TimeCapsuleBlocklockSimple, startBlock: number) {
+        const store = new CapsuleIndexStore(":memory:");
+        store.bindContract(31337, capsules.target as string, startBlock);
+        return { store, indexer: new CapsuleIndexer(capsules, store, { batchSize: 5 }) };
+    }
+
+    async function createSimple(capsules: TimeCapsuleBlocklockSimple, recipient: string, unlockTime: number, title = "Letter") {
+        await (await capsules.createSimpleTimeCapsuleForRecipient(
+            "bafyCid", "data-key", unlockTime, recipient, "", title, 42, "text/plain"
+        )).wait();
+    }
+
+    it("backfills capsules and follows unlocks and key deliveries", async function () {
+        const { capsules, creator, recipient, stranger, startBlock } = await loadFixture(deployFixture);
+        const now = await time.latest();
+
+        await createSimple(capsules, recipient.address, now + ONE_DAY);
+        await createSimple(capsules.connect(stranger), stranger.address, now + 2 * ONE_DAY);
+        const condition = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [now + ONE_DAY]);
+        await (await capsules.createTimelockRequestWithDirectFundingForRecipient(
+            "bafyCid", 700000, condition, "0xc1f3", recipient.address, "", "Sealed", 42, "text/plain", { value: FEE }
+        )).wait();
+
+        const { store, indexer } = createIndexer(capsules, startBlock);
+        expect(await indexer.sync()).to.equal(9);
+        expect(store.capsuleCount).to.equal(3);
+
+        const first = store.getCapsule(1)!;
+        expect(first.creator).to.equal(creator.address.toLowerCase());
+        expect(first.recipient).to.equal(recipient.address.toLowerCase());
+        expect(first.status).to.equal("locked");
+
+        await time.increase(ONE_DAY);
+        await capsules.connect(recipient).unlockTimeCapsule(1);
+        const requestId = (await capsules.getTimeCapsule(3)).blocklockRequestId;
+        await capsules.simulateBlocklockCallback(requestId, "0x1234");
+        expect(await indexer.sync()).to.equal(2);
+
+        const chainNow = await time.latest();
+        expect(store.getCapsule(1, chainNow)).to.include({ isUnlocked: true, unlockedBy: recipient.address.toLowerCase(), status: "unlocked" });
+        expect(store.getCapsule(3, chainNow)).to.include({ hasDecryptionKey: true, status: "unlockable" });
+        expect(store.getCapsule(2, chainNow)!.status).to.equal("locked");
+    });
+
+    it("filters by creator, recipient, account, status and unlock window", async function () {
+        const { capsules, creator, recipient, stranger, startBlock } = await loadFixture(deployFixture);
+        const now = await time.latest();
+
+        await createSimple(capsules, recipient.address, now + ONE_DAY);
+        await createSimple(capsules, stranger.address, now + 3 * ONE_DAY);
+        await createSimple(capsules.connect(stranger), recipient.address, now + 5 * ONE_DAY);
+
+        const { store, indexer } = createIndexer(capsules, startBlock);
+        await indexer.sync();
+        await time.increase(2 * ONE_DAY);
+
+        const ids = (query: Parameters<CapsuleIndexStore["queryCapsules"]>[0]) =>
+            store.queryCapsules(query, now + 2 * ONE_DAY).map(capsule => capsule.id);
+
+        expect(ids({ creator: creator.address })).to.deep.equal([1, 2]);
+        expect(ids({ recipient: recipient.address })).to.deep.equal([1, 3]);
+        expect(ids({ account: stranger.address })).to.deep.equal([2, 3]);
+        expect(ids({ status: "unlockable" })).to.deep.equal([1]);
+        expect(ids({ status: "locked", recipient: recipient.address })).to.deep.equal([3]);
+        expect(ids({ unlockAfter: now + 2 * ONE_DAY, unlockBefore: now + 5 * ONE_DAY })).to.deep.equal([2]);
+        expect(ids({ limit: 1, offset: 1 })).to.deep.equal([2]);
+    });
+
+    it("lists every recipient and marks a capsule unlocked once all of them have unlocked", async function () {
+        const { capsules, creator, recipient, stranger, startBlock } = await loadFixture(deployFixture);
+        const unlockTime = (await time.latest()) + ONE_DAY;
+        await (await capsules.createSimpleTimeCapsuleForRecipients(
+            "bafyCid", unlockTime, [recipient.address, stranger.address], ["0x01", "0x02"], "Group letter", 42, "text/plain", NO_CONTENT_HASHES
+        )).wait();
+
+        const { store, indexer } = createIndexer(capsules, startBlock);
+        await indexer.sync();
+        const ids = (query: Parameters<CapsuleIndexStore["queryCapsules"]>[0]) => store.queryCapsules(query).map(capsule => capsule.id);
+        expect(store.getCapsule(1)!.recipients).to.deep.equal([recipient.address.toLowerCase(), stranger.address.toLowerCase()]);
+        expect(ids({ recipient: stranger.address })).to.deep.equal([1]);
+        expect(ids({ account: creator.address })).to.deep.equal([1]);
+
+        await time.increaseTo(unlockTime);
+        await capsules.connect(stranger).unlockTimeCapsule(1);
+        await indexer.sync();
+        expect(store.getCapsule(1, unlockTime)).to.include({ isUnlocked: false, unlockedBy: stranger.address.toLowerCase() });
+
+        await capsules.connect(recipient).unlockTimeCapsule(1);
+        await indexer.sync();
+        expect(store.getCapsule(1, unlockTime)).to.include({ isUnlocked: true, status: "unlocked" });
+    });
+
+    it("follows creator amendments and cancellations", async function () {
+        const { capsules, recipient, stranger, startBlock } = await loadFixture(deployFixture);
+        const unlockTime = (await time.latest()) + ONE_DAY;
+        await createSimple(capsules, recipient.address, unlockTime);
+        await createSimple(capsules, recipient.address, unlockTime, "Mistake");
+
+        const { store, indexer } = createIndexer(capsules, startBlock);
+        await indexer.sync();
+
+        const envelopeHash = ethers.id("envelope");
+        const plaintextHash = ethers.id("plaintext");
+        await capsules.setContentHash(1, envelopeHash, plaintextHash);
+        await capsules.setContentHash(2, envelopeHash, plaintextHash);
+        await capsules.updateRecipient(1, recipient.address, stranger.address, "0x");
+        await capsules.updateCid(1, "bafyFixed");
+        await capsules.extendUnlockTime(1, unlockTime + ONE_DAY);
+        await capsules.cancelCapsule(2);
+        expect(await indexer.sync()).to.equal(6);
+
+        expect(store.getCapsule(1)).to.deep.include({
+            recipient: stranger.address.toLowerCase(),
+            recipients: [stranger.address.toLowerCase()],
+            ipfsCid: "bafyFixed",
+            unlockTime: unlockTime + ONE_DAY
+        });
+        expect(store.getCapsule(1)).not.to.have.property("envelopeHash");
+        expect(store.getCapsule(2)).to.include({ isCancelled: true, status: "cancelled", envelopeHash, plaintextHash });
+        expect(store.queryCapsules({ recipient: recipient.address }).map(capsule => capsule.id)).to.deep.equal([2]);
+        expect(store.queryCapsules({ status: "locked" }).map(capsule => capsule.id)).to.deep.equal([1]);
+        expect(store.queryCapsules({ status: "cancelled" }).map(capsule => capsule.id)).to.deep.equal([2]);
+    });
+
+    it("tracks dead man's switch deadlines across heartbeats", async function () {
+        const { capsules, recipient, startBlock } = await loadFixture(deployFixture);
+        await (await capsules.createDeadManSwitchCapsule("bafyCid", "0x01", ONE_DAY, recipient.address, "Will", 42, "text/plain", NO_CONTENT_HASHES)).wait();
+
+        const { store, indexer } = createIndexer(capsules, startBlock);
+        await indexer.sync();
+        expect(store.getCapsule(1)).to.include({ heartbeatInterval: ONE_DAY });
+
+        await time.increase(ONE_DAY / 2);
+        await capsules.heartbeat(1);
+        await indexer.sync();
+        expect(store.getCapsule(1)!.unlockTime).to.equal((await time.latest()) + ONE_DAY);
+    });
+
+    it("evaluates block-number capsules against the last indexed block", async function () {
+        const { capsules, recipient, startBlock } = await loadFixture(deployFixture);
+        const unlockBlock = (await ethers.provider.getBlockNumber()) + 10;
+        await (await capsules.createSimpleTimeCapsuleAtBlock(
+            "bafyCid", "data-key", unlockBlock, [recipient.address], ["0x"], "Letter", 42, "text/plain", NO_CONTENT_HASHES
+        )).wait();
+
+        const { store, indexer } = createIndexer(capsules, startBlock);
+        await indexer.sync();
+        expect(store.getCapsule(1)).to.include({ conditionType: "blockNumber", unlockTime: unlockBlock, status: "locked" });
+        expect(store.queryCapsules({ unlockBefore: unlockBlock + 1 })).to.deep.equal([]);
+
+        // A day later by the clock, but not yet at the block
+        await time.increase(ONE_DAY);
+        await indexer.sync();
+        expect(store.getCapsule(1)!.status).to.equal("locked");
+
+        await mine(unlockBlock - await ethers.provider.getBlockNumber());
+        await indexer.sync();
+        expect(store.getCapsule(1)!.status).to.equal("unlockable");
+        expect(store.queryCapsules({ status: "unlockable" }).map(capsule => capsule.id)).to.deep.equal([1]);
+    });
+
+    it("drops capsules from reorged blocks", async function () {
+        const { capsules, recipient, startBlock } = await loadFixture(deployFixture);
+        const now = await time.latest();
+        await createSimple(capsules, recipient.address, now + ONE_DAY, "Canonical");
+
+        const { store, indexer } = createIndexer(capsules, startBlock);
+        await indexer.sync();
+
+        const snapshot = await takeSnapshot();
+        await createSimple(capsules, recipient.address, now + ONE_DAY, "Orphaned");
+        await indexer.sync();
+        expect(store.getCapsule(2)!.title).to.equal("Orphaned");
+
+        // Replace the block that held capsule 2 with a longer fork
+        await snapshot.restore();
+        await mine(1);
+        await createSimple(capsules, recipient.address, now + 2 * ONE_DAY, "Replacement");
+        await indexer.sync();
+
+        expect(store.capsuleCount).to.equal(2);
+        expect(store.getCapsule(1)!.title).to.equal("Canonical");
+        expect(store.getCapsule(2)).to.include({ title: "Replacement", unlockTime: now + 2 * ONE_DAY });
+        expect(store.cursor).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    describe("query API", function () {
+        it("serves capsules to the shared client and rejects bad filters", async function () {
+            const { capsules, recipient, startBlock } = await loadFixture(deployFixture);
+            await createSimple(capsules, recipient.address, (await time.latest()) + ONE_DAY);
+
+            const { store, indexer } = createIndexer(capsules, startBlock);
+            await indexer.sync();
+
+            const server = createIndexerApi(store, { chainId: 31337, contract: capsules.target as string }).listen(0);
+            try {
+                await once(server, "listening");
+                const { port } = server.address() as AddressInfo;
+                const client = new CapsuleIndexClient(`http://127.0.0.1:${port}`);
+
+                const listed = await client.queryCapsules({ account: recipient.address, status: "locked" });
+                expect(listed.map(capsule => capsule.id)).to.deep.equal([1]);
+                expect(await client.getCapsule(2)).to.equal(undefined);
+                expect((await client.getStatus()).capsules).to.equal(1);
+
+                const badStatus = client.queryCapsules({ status: "expired" as "locked" });
+                await expect(badStatus).to.be.rejectedWith(CapsuleIndexError, "status must be one of");
+            } finally {
+                server.close();
+            }
+        });
+    });
+});
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { TimeCapsuleBlocklockSimple, TimeCapsuleStorage } from "../../typechain-types";
+import { migrateCapsules } from "../../scripts/migrateCapsules";
+
+describe("Capsule migration", function () {
+    const ONE_DAY = 24 * 60 * 60;
+
+    async function deployFixture() {
+        const [migrator, alice, bob] = await ethers.getSigners();
+        const source = await (await ethers.getContractFactory("TimeCapsuleStorage"))
+            .deploy() as unknown as TimeCapsuleStorage;
+        const capsules = await (await ethers.getContractFactory("TimeCapsuleBlocklockSimple"))
+            .deploy(ethers.ZeroAddress, ethers.ZeroAddress) as unknown as TimeCapsuleBlocklockSimple;
+
+        const created = await time.latest();
+        await source.connect(alice).createTimeCapsule("bafyOld", "old-key", created + ONE_DAY, "bob@example.com", "Opened", 10, "text/plain");
+        await source.connect(bob).createTimeCapsule("bafyLater", "later-key", created + 30 * ONE_DAY, "", "Sealed", 20, "image/png");
+        await time.increase(2 * ONE_DAY);
+
+        return { source, capsules, migrator, alice, bob };
+    }
+
+    describe("importCapsule", function () {
+        it("keeps the creator, creation time and unlock time, even if the unlock time has passed", async function () {
+            const { source, capsules, alice } = await loadFixture(deployFixture);
+            const old = await source.getTimeCapsule(1);
+
+            await expect(capsules.importCapsule(
+                source.target, 1, old.ipfsCid, old.encryptionKey, old.unlockTime, old.creationTime,
+                old.creator, old.recipientEmail, old.title, old.fileSize, old.fileType
+            ))
+                .to.emit(capsules, "CapsuleImported")
+                .withArgs(1, source.target, 1)
+                .and.to.emit(capsules, "TimeCapsuleCreated");
+
+            const capsule = await capsules.getTimeCapsule(1);
+            expect([capsule.creator, capsule.creationTime, capsule.unlockTime]).to.deep.equal([alice.address, old.creationTime, old.unlockTime]);
+            expect(await capsules.getRecipients(1)).to.deep.equal([alice.address]);
+            expect(await capsules.getUserCapsules(alice.address)).to.deep.equal([1n]);
+            expect(await capsules.importedCapsules(source.target, 1)).to.equal(1);
+
+            await capsules.connect(alice).unlockTimeCapsule(1);
+            expect(ethers.toUtf8String(await capsules.connect(alice).getDecryptionKey(1))).to.equal("old-key");
+        });
+
+        it("is restricted to the migrator and imports each source capsule once", async function () {
+            const { source, capsules, alice, bob } = await loadFixture(deployFixture);
+            const importOld = (id: number, creationTime: number) => capsules.importCapsule(
+                source.target, id, "bafyOld", "old-key", creationTime + ONE_DAY, creationTime, alice.address, "", "Opened", 10, "text/plain"
+            );
+            const now = await time.latest();
+
+            await expect(capsules.connect(alice).importCapsule(
+                source.target, 1, "bafyOld", "old-key", now + ONE_DAY, now, alice.address, "", "Opened", 10, "text/plain"
+            )).to.be.revertedWith("Only migrator");
+            await expect(importOld(1, now + ONE_DAY)).to.be.revertedWith("Creation time is in the future");
+
+            await importOld(1, now - ONE_DAY);
+            await expect(importOld(1, now - ONE_DAY)).to.be.revertedWith("Capsule already imported");
+
+            await expect(capsules.connect(bob).setMigrator(bob.address)).to.be.revertedWith("Only migrator");
+            await capsules.setMigrator(ethers.ZeroAddress);
+            expect(await capsules.migrator()).to.equal(ethers.ZeroAddress);
+            await expect(importOld(2, now - ONE_DAY)).to.be.revertedWith("Only migrator");
+        });
+    });
+
+    describe("migrateCapsules", function () {
+        it("replays every capsule once and reconciles the copies", async function () {
+            const { source, capsules, bob } = await loadFixture(deployFixture);
+
+            const first = await migrateCapsules(source, capsules, 1);
+            expect(first).to.include({ sourceCapsules: 2, imported: 2, alreadyImported: 0, failed: 0, mismatched: 0 });
+            expect(first.entries.map(entry => [entry.sourceCapsuleId, entry.capsuleId])).to.deep.equal([[1, 1], [2, 2]]);
+
+            // New capsules in the old contract are picked up by the next run, without duplicating the others
+            await source.connect(bob).createTimeCapsule("bafyNew", "new-key", (await time.latest()) + ONE_DAY, "", "New", 30, "text/plain");
+            const second = await migrateCapsules(source, capsules);
+            expect(second).to.include({ sourceCapsules: 3, imported: 1, alreadyImported: 2, failed: 0, mismatched: 0 });
+            expect(await capsules.getTotalCapsules()).to.equal(3);
+            expect(await capsules.getUserCapsules(bob.address)).to.deep.equal([2n, 3n]);
+        });
+
+        it("reports capsules it could not import", async function () {
+            const { source, capsules, alice } = await loadFixture(deployFixture);
+
+            const report = await migrateCapsules(source, capsules.connect(alice) as TimeCapsuleBlocklockSimple);
+            expect(report).to.include({ imported: 0, failed: 2 });
+            expect(report.entries[0].error).to.contain("Only migrator");
+        });
+    });
+});
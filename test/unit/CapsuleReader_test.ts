@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { CapsuleReader, TimeCapsuleBlocklockSimple } from "../../typechain-types";
+import { NO_CONTENT_HASHES } from "../../shared/envelope";
+
+describe("CapsuleReader", function () {
+    const ONE_DAY = 24 * 60 * 60;
+
+    async function deployFixture() {
+        const [creator, alice, bob, carol] = await ethers.getSigners();
+        const capsules = await (await ethers.getContractFactory("TimeCapsuleBlocklockSimple"))
+            .deploy(ethers.ZeroAddress, ethers.ZeroAddress) as unknown as TimeCapsuleBlocklockSimple;
+        const reader = await (await ethers.getContractFactory("CapsuleReader"))
+            .deploy() as unknown as CapsuleReader;
+
+        const now = await time.latest();
+        await capsules.createSimpleTimeCapsuleForRecipient(
+            "bafyFirst", "key-1", now + ONE_DAY, alice.address, "", "First", 10, "text/plain"
+        );
+        await capsules.createSimpleTimeCapsuleForRecipients(
+            "bafySecond", now + 2 * ONE_DAY, [alice.address, bob.address], ["0x01", "0x02"], "Second", 20, "image/png", NO_CONTENT_HASHES
+        );
+        await capsules.createSimpleTimeCapsuleForRecipient(
+            "bafyThird", "key-3", now + 3 * ONE_DAY, bob.address, "", "Third", 30, "text/plain"
+        );
+
+        return { capsules, reader, now, creator, alice, bob, carol };
+    }
+
+    it("pages through capsules in creation order", async function () {
+        const { capsules, reader, now, creator, alice } = await loadFixture(deployFixture);
+
+        const [page, total] = await reader.getCapsulesPage(capsules.target, 0, 2);
+        expect(total).to.equal(3);
+        expect(page.map(capsule => capsule.id)).to.deep.equal([1n, 2n]);
+        expect(page[0].ipfsCid).to.equal("bafyFirst");
+        expect(page[0].creator).to.equal(creator.address);
+        expect(page[0].recipients).to.deep.equal([alice.address]);
+        expect(page[0].unlockTime).to.equal(now + ONE_DAY);
+        expect(page[0].canUnlock).to.equal(false);
+        expect(page[1].fileType).to.equal("image/png");
+
+        const [last] = await reader.getCapsulesPage(capsules.target, 2, 2);
+        expect(last.map(capsule => capsule.title)).to.deep.equal(["Third"]);
+        expect(await reader.getCapsulesPage(capsules.target, 5, 2)).to.deep.equal([[], 3n]);
+        await expect(reader.getCapsulesPage(capsules.target, 0, 101)).to.be.revertedWith("Page size too large");
+    });
+
+    it("reads capsules by ID in one call", async function () {
+        const { capsules, reader } = await loadFixture(deployFixture);
+
+        await capsules.cancelCapsule(3);
+        await capsules.setContentHash(1, ethers.id("envelope"), ethers.id("plaintext"));
+
+        const read = await reader.getTimeCapsules(capsules.target, [3, 1]);
+        expect(read.map(capsule => [capsule.id, capsule.isCancelled])).to.deep.equal([[3n, true], [1n, false]]);
+        expect([read[1].envelopeHash, read[1].plaintextHash]).to.deep.equal([ethers.id("envelope"), ethers.id("plaintext")]);
+        expect(read[0].envelopeHash).to.equal(ethers.ZeroHash);
+        await expect(reader.getTimeCapsules(capsules.target, [4])).to.be.revertedWith("Capsule does not exist");
+    });
+
+    it("lists the capsules an account is currently a recipient of", async function () {
+        const { capsules, reader, alice, bob, carol } = await loadFixture(deployFixture);
+
+        await capsules.updateRecipient(2, alice.address, carol.address, "0x03");
+        await capsules.updateRecipient(2, carol.address, alice.address, "0x01");
+
+        const ids = async (account: string) =>
+            (await reader.getRecipientCapsules(capsules.target, account)).map(capsule => capsule.id);
+        expect(await ids(alice.address)).to.deep.equal([1n, 2n]);
+        expect(await ids(bob.address)).to.deep.equal([2n, 3n]);
+        expect(await ids(carol.address)).to.deep.equal([]);
+    });
+
+    it("lists the capsules an account can unlock now", async function () {
+        const { capsules, reader, now, alice, bob } = await loadFixture(deployFixture);
+
+        const ids = async (account: string) =>
+            (await reader.getUnlockableCapsules(capsules.target, account)).map(capsule => capsule.id);
+        expect(await ids(alice.address)).to.deep.equal([]);
+
+        await time.increaseTo(now + 2 * ONE_DAY);
+        expect(await ids(alice.address)).to.deep.equal([1n, 2n]);
+
+        await capsules.connect(alice).unlockTimeCapsule(2);
+        expect(await ids(alice.address)).to.deep.equal([1n]);
+        expect(await ids(bob.address)).to.deep.equal([2n]);
+    });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { StoredContent } from "../../shared/storage";
+import { ContentRetriever, MemoryCache } from "../../shared/retrieval";
+import { EnvelopeError, isChunkManifest, isEnvelope, parseManifest, serializeManifest, verifyContentHash } from "../../shared/envelope";
+import { ChunkProgress, ChunkedUploadState, UploadCancelledError, blobChunkSource, downloadChunked, uploadChunked } from "../../shared/chunkedUpload";
+import { FileSystemStorage } from "../../scripts/storageProvider";
+
+describe("ChunkedUpload", function () {
+    const content = Uint8Array.from({ length: 3500 }, (_, i) => (i * 7) % 256);
+    const options = { fileName: "video.mp4", mimeType: "video/mp4", chunkSize: 1000, store: { retryDelayMs: 0 } };
+    let dir: string;
+
+    // Counts the chunks and manifests it stores
+    class CountingStorage extends FileSystemStorage {
+        puts = 0;
+
+        async put(bytes: Uint8Array): Promise<StoredContent> {
+            this.puts++;
+            return super.put(bytes);
+        }
+    }
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "capsule-chunks-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function download(storage: FileSystemStorage, manifestCid: string, dataKey: string) {
+        const retriever = new ContentRetriever({ gateways: [], storage, cache: new MemoryCache() });
+        const manifest = parseManifest((await retriever.retrieve(manifestCid)).content);
+        const parts: Uint8Array[] = [];
+        const result = await downloadChunked(retriever, manifest, dataKey, plaintext => { parts.push(plaintext); });
+        return { ...result, content: Buffer.concat(parts) };
+    }
+
+    it("seals a file chunk by chunk and reassembles it from the manifest", async function () {
+        const storage = new CountingStorage(dir);
+        const progress: ChunkProgress[] = [];
+
+        const upload = await uploadChunked(storage, blobChunkSource(new Blob([content])), {
+            ...options,
+            onProgress: event => progress.push(event)
+        });
+        expect(upload.manifest.chunks.map(chunk => chunk.size)).to.deep.equal([1000, 1000, 1000, 500]);
+        expect(progress.map(event => event.bytes)).to.deep.equal([1000, 2000, 3000, 3500]);
+        expect(storage.puts).to.equal(5);
+
+        const manifestBytes = await storage.get(upload.cid);
+        expect(isChunkManifest(manifestBytes)).to.equal(true);
+        expect(isEnvelope(manifestBytes)).to.equal(false);
+        expect(await verifyContentHash(manifestBytes, upload.contentHashes.envelope, "envelope")).to.equal(true);
+
+        const downloaded = await download(storage, upload.cid, upload.dataKey);
+        expect(new Uint8Array(downloaded.content)).to.deep.equal(content);
+        expect(await verifyContentHash(downloaded.plaintextDigests, upload.contentHashes.plaintext, "plaintext")).to.equal(true);
+    });
+
+    it("resumes a cancelled upload without storing finished chunks again", async function () {
+        const storage = new CountingStorage(dir);
+        const controller = new AbortController();
+        let saved: ChunkedUploadState | undefined;
+
+        const error = await uploadChunked(storage, blobChunkSource(new Blob([content])), {
+            ...options,
+            signal: controller.signal,
+            onChunk: state => {
+                saved = JSON.parse(JSON.stringify(state));
+                if (state.chunks.length === 2) controller.abort();
+            }
+        }).catch(e => e);
+        expect(error).to.be.instanceOf(UploadCancelledError);
+        expect(error.message).to.equal("Upload cancelled after 2 of 4 chunks");
+        expect(storage.puts).to.equal(2);
+
+        const upload = await uploadChunked(storage, blobChunkSource(new Blob([content])), { ...options, resume: saved });
+        expect(storage.puts).to.equal(5);
+        expect(upload.dataKey).to.equal(saved!.dataKey);
+        expect(new Uint8Array((await download(storage, upload.cid, upload.dataKey)).content)).to.deep.equal(content);
+
+        await expect(uploadChunked(storage, blobChunkSource(new Blob([content.subarray(1)])), { ...options, resume: saved }))
+            .to.be.rejectedWith("Cannot resume: the upload state belongs to video.mp4 (3500 bytes)");
+    });
+
+    it("refuses chunks that were reordered in the manifest", async function () {
+        const storage = new FileSystemStorage(dir);
+        const upload = await uploadChunked(storage, blobChunkSource(new Blob([content])), options);
+
+        const [first, second, ...rest] = upload.manifest.chunks;
+        const swapped = await storage.put(serializeManifest({ ...upload.manifest, chunks: [second, first, ...rest] }));
+        await expect(download(storage, swapped.cid, upload.dataKey))
+            .to.be.rejectedWith(EnvelopeError, "Chunk 0 authentication failed");
+    });
+});
@@ -0,0 +1,143 @@
+import { expect } from "chai";
+import {
+    EnvelopeError,
+    SealedEnvelope,
+    generateDataKey,
+    openEnvelope,
+    parseEnvelope,
+    sealContent,
+    serializeEnvelope
+} from "../../shared/envelope";
+
+describe("Envelope", function () {
+    const content = Uint8Array.from({ length: 300 }, (_, i) => (i * 13) % 256);
+    const metadata = { mimeType: "image/png", fileName: "photo.png" };
+
+    // Copy of an envelope, so a test can tamper with it without touching the original
+    function copy(envelope: SealedEnvelope): SealedEnvelope {
+        return { header: { ...envelope.header }, ciphertext: envelope.ciphertext.slice() };
+    }
+
+    // Flips the bits of one byte of a base64 field
+    function flipBase64(value: string): string {
+        const bytes = Buffer.from(value, "base64");
+        bytes[0] ^= 0xff;
+        return bytes.toString("base64");
+    }
+
+    async function expectRejected(envelope: SealedEnvelope, dataKey: string, message: string) {
+        let error: unknown;
+        try {
+            await openEnvelope(envelope, dataKey);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(EnvelopeError);
+        expect((error as Error).message).to.contain(message);
+    }
+
+    describe("round trip", function () {
+        for (const encoding of ["binary", "json"] as const) {
+            it(`opens what it sealed, in the ${encoding} encoding`, async function () {
+                const { envelope, dataKey } = await sealContent(content, metadata);
+                expect(envelope.ciphertext).to.not.deep.equal(content);
+
+                const opened = await openEnvelope(parseEnvelope(serializeEnvelope(envelope, encoding)), dataKey);
+                expect(opened.content).to.deep.equal(content);
+                expect(opened.mimeType).to.equal("image/png");
+                expect(opened.fileName).to.equal("photo.png");
+            });
+        }
+
+        it("seals text as UTF-8 under a given key", async function () {
+            const dataKey = generateDataKey();
+            const sealed = await sealContent("Open in 2030 ✉️", { mimeType: "text/plain", fileName: "note.txt" }, dataKey);
+            expect(sealed.dataKey).to.equal(dataKey);
+
+            const opened = await openEnvelope(parseEnvelope(serializeEnvelope(sealed.envelope)), "0x" + dataKey);
+            expect(new TextDecoder().decode(opened.content)).to.equal("Open in 2030 ✉️");
+        });
+
+        it("seals empty content", async function () {
+            const { envelope, dataKey } = await sealContent(new Uint8Array(0), metadata);
+
+            const opened = await openEnvelope(parseEnvelope(serializeEnvelope(envelope)), dataKey);
+            expect(opened.content.length).to.equal(0);
+        });
+
+        it("uses a fresh IV for every seal", async function () {
+            const dataKey = generateDataKey();
+            const first = await sealContent(content, metadata, dataKey);
+            const second = await sealContent(content, metadata, dataKey);
+
+            expect(first.envelope.header.iv).to.not.equal(second.envelope.header.iv);
+            expect(first.envelope.ciphertext).to.not.deep.equal(second.envelope.ciphertext);
+        });
+    });
+
+    describe("tampering", function () {
+        let sealed: { envelope: SealedEnvelope; dataKey: string };
+
+        beforeEach(async function () {
+            sealed = await sealContent(content, metadata);
+        });
+
+        it("refuses a wrong key", async function () {
+            await expectRejected(sealed.envelope, generateDataKey(), "wrong key or tampered content");
+        });
+
+        it("refuses a changed ciphertext byte", async function () {
+            const envelope = copy(sealed.envelope);
+            envelope.ciphertext[42] ^= 0x01;
+
+            await expectRejected(envelope, sealed.dataKey, "wrong key or tampered content");
+        });
+
+        it("refuses a truncated or extended ciphertext", async function () {
+            const truncated = copy(sealed.envelope);
+            truncated.ciphertext = truncated.ciphertext.slice(0, -1);
+            await expectRejected(truncated, sealed.dataKey, "wrong key or tampered content");
+
+            const extended = copy(sealed.envelope);
+            extended.ciphertext = Uint8Array.from([...extended.ciphertext, 0]);
+            await expectRejected(extended, sealed.dataKey, "wrong key or tampered content");
+        });
+
+        it("refuses a changed tag or IV", async function () {
+            const tag = copy(sealed.envelope);
+            tag.header.tag = flipBase64(tag.header.tag);
+            await expectRejected(tag, sealed.dataKey, "wrong key or tampered content");
+
+            const iv = copy(sealed.envelope);
+            iv.header.iv = flipBase64(iv.header.iv);
+            await expectRejected(iv, sealed.dataKey, "wrong key or tampered content");
+        });
+
+        it("refuses changed header metadata, which the tag authenticates", async function () {
+            const changes: Partial<SealedEnvelope["header"]>[] = [
+                { mimeType: "text/html" },
+                { fileName: "invoice.exe" },
+                { size: content.length + 1 }
+            ];
+            for (const change of changes) {
+                const envelope = copy(sealed.envelope);
+                Object.assign(envelope.header, change);
+                await expectRejected(envelope, sealed.dataKey, "wrong key or tampered content");
+            }
+        });
+
+        it("refuses a ciphertext changed in the serialized bytes", async function () {
+            const bytes = serializeEnvelope(sealed.envelope);
+            bytes[bytes.length - 1] ^= 0x80;
+
+            await expectRejected(parseEnvelope(bytes), sealed.dataKey, "wrong key or tampered content");
+        });
+
+        it("cannot parse a truncated envelope", function () {
+            const bytes = serializeEnvelope(sealed.envelope);
+
+            expect(() => parseEnvelope(bytes.slice(0, 6))).to.throw(EnvelopeError, "Truncated envelope");
+            expect(() => parseEnvelope(bytes.slice(0, 20))).to.throw(EnvelopeError, "Truncated envelope");
+        });
+    });
+});
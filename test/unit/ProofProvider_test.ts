@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import { CIRCUIT_ARTIFACTS_DIR, createProofProvider, deriveReceiverSecret, verifyCircuitArtifacts } from "../../scripts/proofProvider";
+import { CircuitProof, MockProofProvider, ProofError, combineProofs, hashProof } from "../../shared/proofs";
+
+describe("ProofProvider", function () {
+    const UNLOCK_TIME = 1_700_000_000;
+    const timeInputs = {
+        capsuleId: 7,
+        unlockTime: UNLOCK_TIME,
+        referenceTime: UNLOCK_TIME + 60,
+        maxDrift: 300,
+        localTime: UNLOCK_TIME + 100
+    };
+
+    const groth16 = createProofProvider("groth16");
+    const mock = new MockProofProvider();
+
+    describe("groth16", function () {
+        it("proves and verifies time validation without revealing the local clock", async function () {
+            const proof = await groth16.prove("time_validation", timeInputs);
+
+            expect(proof.backend).to.equal("groth16");
+            expect(proof.proof!.protocol).to.equal("groth16");
+            expect(proof.publicSignals).to.deep.equal(["7", String(UNLOCK_TIME), String(UNLOCK_TIME + 60), "300"]);
+            expect(await groth16.verify(proof)).to.equal(true);
+        });
+
+        it("refuses to prove statements that do not hold", async function () {
+            await expect(groth16.prove("time_validation", { ...timeInputs, referenceTime: UNLOCK_TIME - 1, localTime: UNLOCK_TIME - 1 }))
+                .to.be.rejectedWith(ProofError, "inputs do not satisfy the circuit");
+            await expect(groth16.prove("time_validation", { ...timeInputs, localTime: UNLOCK_TIME + 1000 }))
+                .to.be.rejectedWith(ProofError, "inputs do not satisfy the circuit");
+        });
+
+        it("rejects proofs whose public signals were changed", async function () {
+            const proof = await groth16.prove("time_validation", timeInputs);
+            const forged = { ...proof, publicSignals: ["7", String(UNLOCK_TIME - 3600), String(UNLOCK_TIME + 60), "300"] };
+
+            expect(await groth16.verify(forged)).to.equal(false);
+            expect(await groth16.verify({ ...forged, hash: await hashProof(forged) })).to.equal(false);
+        });
+
+        it("binds receiver proofs to the recipient secret and the capsule", async function () {
+            const [recipient, other] = await ethers.getSigners();
+            const secret = await deriveReceiverSecret(recipient);
+            expect(await deriveReceiverSecret(recipient)).to.equal(secret);
+
+            const first = await groth16.prove("receiver_auth", { capsuleId: 1, recipient: recipient.address, secret });
+            const second = await groth16.prove("receiver_auth", { capsuleId: 2, recipient: recipient.address, secret });
+            const impostor = await groth16.prove("receiver_auth", {
+                capsuleId: 1, recipient: recipient.address, secret: await deriveReceiverSecret(other)
+            });
+
+            const [commitment, nullifier, capsuleId, address] = first.publicSignals;
+            expect(second.publicSignals[0]).to.equal(commitment);
+            expect(second.publicSignals[1]).not.to.equal(nullifier);
+            expect(impostor.publicSignals[0]).not.to.equal(commitment);
+            expect([capsuleId, address]).to.deep.equal(["1", BigInt(recipient.address).toString()]);
+            expect(await groth16.verify(first)).to.equal(true);
+        });
+
+        it("explains how to get missing circuit artifacts", async function () {
+            const provider = createProofProvider("groth16", "/nonexistent");
+            await expect(provider.prove("time_validation", timeInputs)).to.be.rejectedWith(ProofError, "npm run circuits:build");
+        });
+
+        it("only uses artifacts that match the pinned checksums", async function () {
+            expect(verifyCircuitArtifacts(CIRCUIT_ARTIFACTS_DIR, "timeValidation")).to.deep.equal([]);
+            expect(verifyCircuitArtifacts(CIRCUIT_ARTIFACTS_DIR, "receiverAuth")).to.deep.equal([]);
+
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), "circuits-"));
+            try {
+                fs.cpSync(CIRCUIT_ARTIFACTS_DIR, dir, { recursive: true });
+                const zkey = fs.readFileSync(path.join(dir, "timeValidation.zkey"));
+                zkey[zkey.length - 1] ^= 1;
+                fs.writeFileSync(path.join(dir, "timeValidation.zkey"), zkey);
+
+                expect(verifyCircuitArtifacts(dir, "timeValidation")).to.deep.equal(["timeValidation.zkey"]);
+                await expect(createProofProvider("groth16", dir).prove("time_validation", timeInputs))
+                    .to.be.rejectedWith(ProofError, "timeValidation.zkey in");
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe("mock", function () {
+        it("labels its proofs and checks the statement", async function () {
+            const proof = await mock.prove("time_validation", timeInputs);
+
+            expect(proof).to.include({ backend: "mock", proof: null });
+            expect(await mock.verify(proof)).to.equal(true);
+            await expect(mock.prove("time_validation", { ...timeInputs, localTime: UNLOCK_TIME + 1000 }))
+                .to.be.rejectedWith(ProofError, "outside the allowed drift");
+        });
+
+        it("never passes for a real proof, and reports mixed backends", async function () {
+            const real = await groth16.prove("time_validation", timeInputs);
+            const fake: CircuitProof = { ...(await mock.prove("time_validation", timeInputs)), backend: "groth16" };
+
+            expect(await groth16.verify(await mock.prove("time_validation", timeInputs))).to.equal(false);
+            expect(await groth16.verify(fake)).to.equal(false);
+            expect(await mock.verify(real)).to.equal(false);
+            expect((await combineProofs([real, await mock.prove("time_validation", timeInputs)])).backend).to.equal("mixed");
+        });
+    });
+});
@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { once } from "events";
+import { computeCid } from "../../shared/cid";
+import { StorageError, StoredContent, UploadError, storeVerified } from "../../shared/storage";
+import { ContentRetriever, RetrievalError } from "../../shared/retrieval";
+import { FileSystemCache, FileSystemStorage, createStorageProvider } from "../../scripts/storageProvider";
+
+describe("StorageProvider", function () {
+    describe("computeCid", function () {
+        it("matches the CIDs ipfs add reports", async function () {
+            expect(await computeCid(new TextEncoder().encode("hello world\n"))).to.equal("QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o");
+            expect(await computeCid(new Uint8Array(0))).to.equal("QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH");
+            // Four chunks under one parent node
+            expect(await computeCid(new Uint8Array(1024 * 1024))).to.equal("QmVkbauSDEaMP4Tkq6Epm9uW75mWm136n81YH8fGtfwdHU");
+        });
+    });
+
+    describe("FileSystemStorage", function () {
+        let dir: string;
+
+        beforeEach(function () {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "capsule-storage-"));
+        });
+
+        afterEach(function () {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it("stores content under its CID and reads it back", async function () {
+            const storage = new FileSystemStorage(dir);
+            const content = new TextEncoder().encode("hello world\n");
+            const cid = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+
+            expect(await storage.stat(cid)).to.equal(undefined);
+            expect(await storage.pinStatus(cid)).to.equal("unpinned");
+
+            expect(await storage.put(content)).to.deep.equal({ cid, size: 12 });
+            expect(await storage.get(cid)).to.deep.equal(content);
+            expect(await storage.stat(cid)).to.deep.equal({ cid, size: 12 });
+            expect(await storage.pinStatus(cid)).to.equal("pinned");
+            expect(fs.readdirSync(dir)).to.deep.equal([cid]);
+        });
+
+        it("refuses content that no longer matches its CID", async function () {
+            const storage = new FileSystemStorage(dir);
+            const { cid } = await storage.put(new TextEncoder().encode("sealed envelope"));
+            fs.writeFileSync(path.join(dir, cid), "tampered envelope");
+
+            await expect(storage.get(cid)).to.be.rejectedWith(StorageError, "does not match its CID");
+            await expect(storage.get("QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH")).to.be.rejectedWith(StorageError, "not found");
+            await expect(storage.get("../secrets")).to.be.rejectedWith(StorageError, "invalid CID");
+        });
+    });
+
+    describe("storeVerified", function () {
+        const content = new TextEncoder().encode("hello world\n");
+        const cid = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+        let dir: string;
+
+        // Filesystem store whose put/get fail a given number of times or misbehave
+        class FlakyStorage extends FileSystemStorage {
+            putFailures = 0;
+            getFailures = 0;
+            reportedCid?: string;
+
+            async put(bytes: Uint8Array): Promise<StoredContent> {
+                if (this.putFailures-- > 0) throw new Error("connection reset");
+                const stored = await super.put(bytes);
+                return this.reportedCid ? { ...stored, cid: this.reportedCid } : stored;
+            }
+
+            async get(id: string): Promise<Uint8Array> {
+                if (this.getFailures-- > 0) throw new Error("504 gateway timeout");
+                return super.get(id);
+            }
+        }
+
+        beforeEach(function () {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "capsule-storage-"));
+        });
+
+        afterEach(function () {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it("retries uploads and reads until the content is confirmed", async function () {
+            const storage = new FlakyStorage(dir);
+            storage.putFailures = 2;
+            storage.getFailures = 1;
+            const retries: string[] = [];
+
+            const stored = await storeVerified(storage, content, {
+                retryDelayMs: 0,
+                onRetry: (stage, attempt) => retries.push(`${stage} ${attempt}`)
+            });
+            expect(stored).to.deep.equal({ cid, size: 12 });
+            expect(retries).to.deep.equal(["upload 1", "upload 2", "retrieve 1"]);
+        });
+
+        it("names the stage that failed", async function () {
+            const failing = new FlakyStorage(dir);
+            failing.putFailures = 3;
+            await expect(storeVerified(failing, content, { attempts: 3, retryDelayMs: 0 }))
+                .to.be.rejectedWith(UploadError, "upload of 12 bytes failed after 3 attempts: connection reset");
+
+            const lying = new FlakyStorage(dir);
+            lying.reportedCid = "QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH";
+            await expect(storeVerified(lying, content, { retryDelayMs: 0 }))
+                .to.be.rejectedWith(UploadError, `backend returned CID QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH, but the 12 bytes uploaded have CID ${cid}`);
+
+            const unreadable = new FlakyStorage(dir);
+            unreadable.getFailures = 2;
+            const error = await storeVerified(unreadable, content, { attempts: 2, retryDelayMs: 0 }).catch(e => e);
+            expect(error).to.be.instanceOf(UploadError).and.include({ stage: "retrieve" });
+            expect(error.message).to.contain(`${cid} was stored but could not be read back after 2 attempts: 504 gateway timeout`);
+        });
+    });
+
+    describe("ContentRetriever", function () {
+        // Spans two 256 KiB chunks, so a truncated download leaves a real partial
+        const content = Uint8Array.from({ length: 300000 }, (_, i) => (i * 31) % 251);
+        let cid: string;
+        let dir: string;
+        const servers: http.Server[] = [];
+
+        // Local gateway answering GET /ipfs/<cid> with the handler
+        async function gateway(handler: http.RequestListener): Promise<string> {
+            const server = http.createServer(handler);
+            servers.push(server);
+            server.listen(0, "127.0.0.1");
+            await once(server, "listening");
+            return `http://127.0.0.1:${(server.address() as AddressInfo).port}/ipfs/`;
+        }
+
+        before(async function () {
+            cid = await computeCid(content);
+        });
+
+        beforeEach(function () {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), "capsule-cache-"));
+        });
+
+        afterEach(function () {
+            for (const server of servers.splice(0)) {
+                server.closeAllConnections();
+                server.close();
+            }
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it("takes the first response that matches the CID and serves it from the cache afterwards", async function () {
+            const lying = await gateway((_, res) => res.end("substituted content"));
+            const honest = await gateway((_, res) => { setTimeout(() => res.end(content), 50); });
+            const retriever = new ContentRetriever({ gateways: [lying, honest], cache: new FileSystemCache(dir), timeoutMs: 2000 });
+
+            const retrieved = await retriever.retrieve(cid);
+            expect(retrieved).to.include({ source: `${honest}${cid}`, resumedFrom: 0 });
+            expect(retrieved.content).to.deep.equal(content);
+
+            for (const server of servers) server.closeAllConnections();
+            expect((await retriever.retrieve(cid)).source).to.equal("cache");
+        });
+
+        it("resumes an interrupted download with a Range request", async function () {
+            const ranges: (string | undefined)[] = [];
+            const flaky = await gateway((req, res) => {
+                ranges.push(req.headers.range);
+                if (!req.headers.range) {
+                    // Promise the whole file, then drop the connection after the first 100000 bytes
+                    res.writeHead(200, { "Content-Length": content.length });
+                    res.write(content.subarray(0, 100000), () => res.socket?.destroy());
+                    return;
+                }
+                const start = Number(/bytes=(\d+)-/.exec(req.headers.range)![1]);
+                res.writeHead(206, { "Content-Range": `bytes ${start}-${content.length - 1}/${content.length}` });
+                res.end(content.subarray(start));
+            });
+            const cache = new FileSystemCache(dir);
+            const retriever = new ContentRetriever({ gateways: [flaky], cache, timeoutMs: 2000 });
+
+            const retrieved = await retriever.retrieve(cid);
+            expect(retrieved.resumedFrom).to.equal(100000);
+            expect(retrieved.content).to.deep.equal(content);
+            expect(ranges).to.deep.equal([undefined, "bytes=100000-"]);
+            expect(await cache.getPartial(cid)).to.equal(undefined);
+            expect(await cache.get(cid)).to.deep.equal(content);
+        });
+
+        it("fails with every source's reason when none serves matching content", async function () {
+            const lying = await gateway((_, res) => res.end("substituted content"));
+            const missing = await gateway((_, res) => { res.statusCode = 404; res.end(); });
+            const retriever = new ContentRetriever({ gateways: [lying, missing], cache: new FileSystemCache(dir), timeoutMs: 2000 });
+
+            const error = await retriever.retrieve(cid).catch(e => e);
+            expect(error).to.be.instanceOf(RetrievalError);
+            expect(error.failures).to.have.deep.members([
+                { source: `${lying}${cid}`, message: `served 19 bytes with CID ${await computeCid(new TextEncoder().encode("substituted content"))}` },
+                { source: `${missing}${cid}`, message: "HTTP 404" }
+            ]);
+            await expect(retriever.retrieve("bafyCid")).to.be.rejectedWith(RetrievalError, "only CIDv0");
+        });
+    });
+
+    it("selects the backend from STORAGE_BACKEND", function () {
+        expect(createStorageProvider("kubo").backend).to.equal("kubo");
+        expect(() => createStorageProvider("s3")).to.throw('Unknown STORAGE_BACKEND "s3"');
+    });
+});
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { getBytes } from "ethers";
+import dgram from "dgram";
+import { AddressInfo } from "net";
+import { once } from "events";
+import { querySntp, readTimestamp, writeTimestamp, SntpError } from "../../shared/sntp";
+import { TimeAttestationError, signTimeAttestation } from "../../shared/timeAttestation";
+import { TimeAttestor, verifySignedAttestation } from "../../scripts/TimeAttestor";
+
+interface FakeNtpOptions {
+    offsetMs?: number;          // Server clock minus local clock
+    stratum?: number;
+    leap?: number;
+    silent?: boolean;
+}
+
+// Answers SNTP requests on 127.0.0.1 from a clock shifted by offsetMs
+async function startFakeNtpServer(options: FakeNtpOptions = {}) {
+    const socket = dgram.createSocket("udp4");
+    socket.on("message", (request, remote) => {
+        if (options.silent) return;
+        const received = Date.now() + (options.offsetMs ?? 0);
+        const reply = Buffer.alloc(48);
+        reply[0] = ((options.leap ?? 0) << 6) | (4 << 3) | 4;
+        reply[1] = options.stratum ?? 1;
+        if (reply[1] === 0) reply.write("RATE", 12, "ascii");
+        request.copy(reply, 24, 40, 48);
+        writeTimestamp(reply, 32, received);
+        writeTimestamp(reply, 40, Date.now() + (options.offsetMs ?? 0));
+        socket.send(reply, remote.port, remote.address);
+    });
+    socket.bind(0, "127.0.0.1");
+    await once(socket, "listening");
+    const { port } = socket.address() as AddressInfo;
+    return { server: `127.0.0.1:${port}`, close: () => socket.close() };
+}
+
+describe("Time attestation", function () {
+    const servers: { server: string; close: () => void }[] = [];
+
+    async function fakeServer(options: FakeNtpOptions = {}) {
+        const fake = await startFakeNtpServer(options);
+        servers.push(fake);
+        return fake.server;
+    }
+
+    // Offset that lines NTP time up with the latest block, which earlier tests may have moved
+    async function chainOffsetMs() {
+        const block = await ethers.provider.getBlock("latest");
+        return block!.timestamp * 1000 - Date.now();
+    }
+
+    afterEach(function () {
+        servers.splice(0).forEach(fake => fake.close());
+    });
+
+    describe("SNTP client", function () {
+        it("round-trips NTP timestamps", function () {
+            const buffer = Buffer.alloc(8);
+            writeTimestamp(buffer, 0, 1_700_000_000_250);
+            expect(readTimestamp(buffer, 0)).to.be.closeTo(1_700_000_000_250, 1);
+        });
+
+        it("measures the offset of a server clock", async function () {
+            const sample = await querySntp(await fakeServer({ offsetMs: 1500, stratum: 2 }));
+
+            expect(sample.offsetMs).to.be.closeTo(1500, 50);
+            expect(sample.roundTripMs).to.be.lessThan(100);
+            expect(sample).to.include({ stratum: 2, address: "127.0.0.1" });
+        });
+
+        it("rejects unsynchronised, kiss-of-death and silent servers", async function () {
+            await expect(querySntp(await fakeServer({ leap: 3 }))).to.be.rejectedWith(SntpError, "not synchronised");
+            await expect(querySntp(await fakeServer({ stratum: 0 }))).to.be.rejectedWith(SntpError, "kiss-of-death RATE");
+            await expect(querySntp(await fakeServer({ silent: true }), { timeoutMs: 200 }))
+                .to.be.rejectedWith(SntpError, "no reply within 200ms");
+        });
+    });
+
+    describe("TimeAttestor", function () {
+        it("signs a valid attestation when a quorum agrees with the chain", async function () {
+            const [signer] = await ethers.getSigners();
+            const offset = await chainOffsetMs();
+            const outlier = await fakeServer({ offsetMs: offset + 60_000 });
+            const attestor = new TimeAttestor(signer, ethers.provider, {
+                servers: [await fakeServer({ offsetMs: offset }), await fakeServer({ offsetMs: offset + 200 }), outlier, await fakeServer({ silent: true })],
+                sntp: { timeoutMs: 300 }
+            });
+
+            const signed = await attestor.attest();
+            const { attestation } = signed;
+
+            expect(attestation.valid, attestation.reasons.join("; ")).to.equal(true);
+            expect(attestation.agreeingServers).to.have.length(2).and.not.include(outlier);
+            expect(attestation.samples[3].error).to.match(/no reply/);
+            expect(attestation.attestor).to.equal(signer.address.toLowerCase());
+            expect(await verifySignedAttestation(signed, [signer.address])).to.deep.equal(attestation);
+        });
+
+        it("fails the policy without a quorum or when the chain is out of step", async function () {
+            const [signer] = await ethers.getSigners();
+            const offset = await chainOffsetMs();
+
+            const split = await new TimeAttestor(signer, ethers.provider, {
+                servers: [await fakeServer({ offsetMs: offset }), await fakeServer({ offsetMs: offset + 5000 })]
+            }).attest();
+            expect(split.attestation.valid).to.equal(false);
+            expect(split.attestation.reasons[0]).to.match(/Only 1 of 2 NTP servers agree/);
+
+            const skewed = await new TimeAttestor(signer, ethers.provider, {
+                servers: [await fakeServer({ offsetMs: offset + 600_000 }), await fakeServer({ offsetMs: offset + 600_000 })]
+            }).attest();
+            expect(skewed.attestation.valid).to.equal(false);
+            expect(skewed.attestation.reasons[0]).to.match(/timestamp is -6\d{5}ms from NTP time/);
+        });
+
+        it("rejects tampered, foreign and untrusted attestations", async function () {
+            const [signer, other] = await ethers.getSigners();
+            const offset = await chainOffsetMs();
+            const signed = await new TimeAttestor(signer, ethers.provider, {
+                servers: [await fakeServer({ offsetMs: offset }), await fakeServer({ offsetMs: offset + 5000 })]
+            }).attest();
+
+            const edited = structuredClone(signed);
+            edited.attestation.samples[1].offsetMs = offset;
+            await expect(verifySignedAttestation(edited)).to.be.rejectedWith(TimeAttestationError, "hash does not match");
+
+            const foreign = { ...signed, signature: await other.signMessage(getBytes(signed.hash)) };
+            await expect(verifySignedAttestation(foreign)).to.be.rejectedWith(TimeAttestationError, "expected");
+
+            await expect(verifySignedAttestation(signed, [other.address])).to.be.rejectedWith(TimeAttestationError, "not trusted");
+
+            // A correctly signed record still has to follow from its own samples
+            const upgraded = await signTimeAttestation(
+                { ...signed.attestation, valid: true, reasons: [] },
+                hash => signer.signMessage(getBytes(hash))
+            );
+            await expect(verifySignedAttestation(upgraded)).to.be.rejectedWith(TimeAttestationError, "valid, reasons do not follow");
+        });
+    });
+});
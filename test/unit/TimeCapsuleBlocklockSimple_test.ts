@@ -0,0 +1,715 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { anyUint } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { encodeCondition } from "blocklock-js";
+import { TimeCapsuleBlocklockSimple } from "../../typechain-types";
+import { createProofProvider, deriveReceiverSecret } from "../../scripts/proofProvider";
+import { RECEIVER_AUTH_GATE_MASK, toSolidityProof } from "../../shared/proofs";
+import { ENCRYPTION_KEY_MESSAGE, KeyWrapError, encryptionKeyFromSignature, unwrapDataKey, wrapDataKey } from "../../shared/keyWrap";
+import { ContentIntegrityError, NO_CONTENT_HASH, NO_CONTENT_HASHES, generateDataKey, hashContent, verifyContentHash } from "../../shared/envelope";
+import { UNLOCK_REQUEST_TYPES, unlockRequestDomain } from "../../shared/unlockRelay";
+
+describe("TimeCapsuleBlocklockSimple", function () {
+    const ONE_DAY = 24 * 60 * 60;
+    const FEE = ethers.parseEther("0.001");
+    const CIPHERTEXT = "0xc1f3";
+    const TIMESTAMP = 0, BLOCK_NUMBER = 1, BLOCKLOCK = 2;
+
+    async function deployFixture() {
+        const [creator, recipient, delegate, stranger] = await ethers.getSigners();
+        const factory = await ethers.getContractFactory("TimeCapsuleBlocklockSimple");
+        const capsules = await factory.deploy(ethers.ZeroAddress, ethers.ZeroAddress) as unknown as TimeCapsuleBlocklockSimple;
+        return { capsules, creator, recipient, delegate, stranger };
+    }
+
+    function timestampCondition(unlockTime: number): string {
+        return ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [unlockTime]);
+    }
+
+    async function createSimple(capsules: TimeCapsuleBlocklockSimple, recipient: string, unlockTime: number) {
+        return capsules.createSimpleTimeCapsuleForRecipient(
+            "bafyCid", "data-key", unlockTime, recipient, "", "Letter", 42, "text/plain"
+        );
+    }
+
+    async function createTimelock(
+        capsules: TimeCapsuleBlocklockSimple,
+        recipient: string,
+        conditionBytes: string,
+        value: bigint = FEE
+    ) {
+        return capsules.createTimelockRequestWithDirectFundingForRecipient(
+            "bafyCid", 700000, conditionBytes, CIPHERTEXT, recipient, "", "Sealed", 42, "text/plain", { value }
+        );
+    }
+
+    describe("creation validation", function () {
+        it("rejects empty CID, empty title and past unlock times for simple capsules", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await expect(capsules.createSimpleTimeCapsule("", "k", unlockTime, "", "Letter", 0, ""))
+                .to.be.revertedWith("IPFS CID cannot be empty");
+            await expect(capsules.createSimpleTimeCapsule("bafyCid", "k", unlockTime, "", "", 0, ""))
+                .to.be.revertedWith("Title cannot be empty");
+            await expect(createSimple(capsules, recipient.address, await time.latest()))
+                .to.be.revertedWith("Unlock time must be in the future");
+            await expect(createSimple(capsules, ethers.ZeroAddress, unlockTime))
+                .to.be.revertedWith("Recipient cannot be zero address");
+        });
+
+        it("rejects timelock requests without a fee, condition or ciphertext", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const condition = timestampCondition((await time.latest()) + ONE_DAY);
+
+            await expect(createTimelock(capsules, recipient.address, condition, 0n))
+                .to.be.revertedWith("Must send ETH for Blocklock callback fee");
+            await expect(createTimelock(capsules, recipient.address, "0x"))
+                .to.be.revertedWith("Condition bytes cannot be empty");
+            await expect(capsules.createTimelockRequestWithDirectFunding(
+                "bafyCid", 700000, condition, "0x", "", "Sealed", 0, "", { value: FEE }
+            )).to.be.revertedWith("Ciphertext cannot be empty");
+            await expect(capsules.createTimelockRequestWithDirectFunding(
+                "bafyCid", 0, condition, CIPHERTEXT, "", "Sealed", 0, "", { value: FEE }
+            )).to.be.revertedWith("Callback gas limit must be positive");
+        });
+
+        it("records the creator as recipient for the legacy entry points", async function () {
+            const { capsules, creator } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await capsules.createSimpleTimeCapsule("bafyCid", "k", unlockTime, "", "Letter", 0, "");
+
+            expect((await capsules.getTimeCapsule(1)).recipient).to.equal(creator.address);
+            expect(await capsules.isAuthorizedUnlocker(1, creator.address)).to.equal(true);
+        });
+    });
+
+    describe("unlock conditions", function () {
+        it("decodes a 32-byte timestamp condition", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await createTimelock(capsules, recipient.address, timestampCondition(unlockTime));
+
+            const capsule = await capsules.getTimeCapsule(1);
+            expect(capsule.unlockTime).to.equal(unlockTime);
+            expect(capsule.conditionType).to.equal(TIMESTAMP);
+        });
+
+        it("decodes Blocklock block-height conditions", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockBlock = (await ethers.provider.getBlockNumber()) + 100;
+
+            await createTimelock(capsules, recipient.address, ethers.hexlify(encodeCondition(BigInt(unlockBlock))));
+
+            const capsule = await capsules.getTimeCapsule(1);
+            expect(capsule.unlockTime).to.equal(unlockBlock);
+            expect(capsule.conditionType).to.equal(BLOCKLOCK);
+        });
+
+        it("rejects conditions that are neither, and conditions already met", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await expect(createTimelock(capsules, recipient.address, "0x01"))
+                .to.be.revertedWith("Unsupported unlock condition");
+            await expect(createTimelock(capsules, recipient.address, ethers.concat([timestampCondition(unlockTime), "0xffff"])))
+                .to.be.revertedWith("Unsupported unlock condition");
+            await expect(createTimelock(capsules, recipient.address, ethers.concat(["0x43", timestampCondition(unlockTime)])))
+                .to.be.revertedWith("Unsupported unlock condition");
+            await expect(createTimelock(capsules, recipient.address, timestampCondition(await time.latest())))
+                .to.be.revertedWith("Unlock time must be in the future");
+            await expect(createTimelock(capsules, recipient.address, ethers.hexlify(encodeCondition(1n))))
+                .to.be.revertedWith("Unlock time must be in the future");
+        });
+    });
+
+    describe("userCapsules", function () {
+        it("indexes capsules under the creator, not the recipient", async function () {
+            const { capsules, creator, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await createSimple(capsules, recipient.address, unlockTime);
+            await createTimelock(capsules, recipient.address, timestampCondition(unlockTime));
+            await createSimple(capsules.connect(recipient), creator.address, unlockTime);
+
+            expect(await capsules.getUserCapsules(creator.address)).to.deep.equal([1n, 2n]);
+            expect(await capsules.getUserCapsules(recipient.address)).to.deep.equal([3n]);
+            expect(await capsules.getTotalCapsules()).to.equal(3);
+        });
+    });
+
+    describe("canUnlock and getTimeUntilUnlock", function () {
+        it("switches exactly at the unlock time for simple capsules", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+
+            await time.increaseTo(unlockTime - 1);
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            expect(await capsules.getTimeUntilUnlock(1)).to.equal(1);
+
+            await time.increaseTo(unlockTime);
+            expect(await capsules.canUnlock(1)).to.equal(true);
+            expect(await capsules.getTimeUntilUnlock(1)).to.equal(0);
+        });
+
+        it("requires the decryption key for Blocklock capsules", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createTimelock(capsules, recipient.address, timestampCondition(unlockTime));
+
+            await time.increaseTo(unlockTime);
+            expect(await capsules.getTimeUntilUnlock(1)).to.equal(0);
+            expect(await capsules.canUnlock(1)).to.equal(false);
+        });
+
+        it("counts blocks for block-number capsules", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockBlock = (await ethers.provider.getBlockNumber()) + 10;
+
+            await expect(capsules.createSimpleTimeCapsuleAtBlock(
+                "bafyCid", "data-key", await ethers.provider.getBlockNumber(), [recipient.address], ["0x"], "Letter", 42, "text/plain", NO_CONTENT_HASHES
+            )).to.be.revertedWith("Unlock time must be in the future");
+            await capsules.createSimpleTimeCapsuleAtBlock(
+                "bafyCid", "data-key", unlockBlock, [recipient.address], ["0x"], "Letter", 42, "text/plain", NO_CONTENT_HASHES
+            );
+            expect((await capsules.getTimeCapsule(1)).conditionType).to.equal(BLOCK_NUMBER);
+
+            // Time alone does not open it
+            await time.increase(ONE_DAY);
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            expect(await capsules.getTimeUntilUnlock(1)).to.equal(unlockBlock - await ethers.provider.getBlockNumber());
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule is still locked");
+
+            await mine(unlockBlock - await ethers.provider.getBlockNumber());
+            expect(await capsules.canUnlock(1)).to.equal(true);
+            expect(await capsules.getTimeUntilUnlock(1)).to.equal(0);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+        });
+
+        it("reverts for capsules that do not exist", async function () {
+            const { capsules } = await loadFixture(deployFixture);
+
+            await expect(capsules.canUnlock(1)).to.be.revertedWith("Capsule does not exist");
+            await expect(capsules.getTimeUntilUnlock(1)).to.be.revertedWith("Capsule does not exist");
+        });
+    });
+
+    describe("Blocklock key arrival", function () {
+        async function timelockFixture() {
+            const fixture = await deployFixture();
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createTimelock(fixture.capsules, fixture.recipient.address, timestampCondition(unlockTime));
+            const requestId = (await fixture.capsules.getTimeCapsule(1)).blocklockRequestId;
+            return { ...fixture, unlockTime, requestId };
+        }
+
+        it("rejects a key before the unlock time", async function () {
+            const { capsules, requestId } = await loadFixture(timelockFixture);
+
+            await expect(capsules.simulateBlocklockCallback(requestId, "0x1234"))
+                .to.be.revertedWith("Not yet unlockable");
+        });
+
+        it("rejects unlocking after the unlock time until the key arrives", async function () {
+            const { capsules, recipient, unlockTime, requestId } = await loadFixture(timelockFixture);
+            await time.increaseTo(unlockTime);
+
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1))
+                .to.be.revertedWith("Decryption key not yet available");
+
+            await expect(capsules.simulateBlocklockCallback(requestId, "0x1234"))
+                .to.emit(capsules, "DecryptionKeyReceived")
+                .withArgs(1, requestId, "0x1234");
+
+            expect(await capsules.canUnlock(1)).to.equal(true);
+            await capsules.connect(recipient).unlockTimeCapsule(1);
+            expect(await capsules.connect(recipient).getDecryptionKey(1)).to.equal("0x1234");
+        });
+
+        it("accepts the key only once, from the creator, for a known request", async function () {
+            const { capsules, stranger, unlockTime, requestId } = await loadFixture(timelockFixture);
+            await time.increaseTo(unlockTime);
+
+            await expect(capsules.simulateBlocklockCallback(requestId + 1n, "0x1234"))
+                .to.be.revertedWith("Invalid Blocklock request ID");
+            await expect(capsules.connect(stranger).simulateBlocklockCallback(requestId, "0x1234"))
+                .to.be.revertedWith("Only creator can simulate callback");
+
+            await capsules.simulateBlocklockCallback(requestId, "0x1234");
+            await expect(capsules.simulateBlocklockCallback(requestId, "0x5678"))
+                .to.be.revertedWith("Decryption key already received");
+        });
+    });
+
+    describe("unlockTimeCapsule", function () {
+        it("allows only the recipient and approved delegates", async function () {
+            const { capsules, creator, recipient, delegate, stranger } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+            await time.increaseTo(unlockTime);
+
+            await expect(capsules.connect(creator).unlockTimeCapsule(1)).to.be.revertedWith("Not authorized to unlock");
+            await expect(capsules.connect(delegate).setUnlockDelegate(1, delegate.address, true))
+                .to.be.revertedWith("Only creator can manage delegates");
+
+            await expect(capsules.setUnlockDelegate(1, delegate.address, true))
+                .to.emit(capsules, "UnlockDelegateUpdated")
+                .withArgs(1, delegate.address, true);
+            expect(await capsules.isAuthorizedUnlocker(1, delegate.address)).to.equal(true);
+            expect(await capsules.isAuthorizedUnlocker(1, stranger.address)).to.equal(false);
+
+            await expect(capsules.connect(delegate).unlockTimeCapsule(1))
+                .to.emit(capsules, "TimeCapsuleUnlocked");
+        });
+
+        it("rejects unlocking before the unlock time and a second unlock", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule is still locked");
+
+            await time.increaseTo(unlockTime);
+            await capsules.connect(recipient).unlockTimeCapsule(1);
+
+            expect((await capsules.getTimeCapsule(1)).isUnlocked).to.equal(true);
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule already unlocked");
+        });
+
+        it("releases the decryption key only to authorised unlockers after the unlock time", async function () {
+            const { capsules, recipient, stranger } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+
+            await expect(capsules.connect(recipient).getDecryptionKey(1)).to.be.revertedWith("Capsule is still locked");
+
+            await time.increaseTo(unlockTime);
+            await expect(capsules.connect(stranger).getDecryptionKey(1)).to.be.revertedWith("Not authorized to unlock");
+            expect(ethers.toUtf8String(await capsules.connect(recipient).getDecryptionKey(1))).to.equal("data-key");
+            // No public getter for the capsule struct, which holds the key
+            expect(capsules.interface.hasFunction("timeCapsules")).to.equal(false);
+        });
+    });
+
+    describe("signed unlocks", function () {
+        async function signUnlock(
+            capsules: TimeCapsuleBlocklockSimple,
+            signer: Awaited<ReturnType<typeof ethers.getSigners>>[number],
+            capsuleId: number,
+            deadline: number
+        ) {
+            const domain = unlockRequestDomain(31337, capsules.target as string);
+            const nonce = await capsules.unlockNonces(signer.address);
+            return signer.signTypedData(domain, UNLOCK_REQUEST_TYPES, { capsuleId, recipient: signer.address, nonce, deadline });
+        }
+
+        it("unlocks for the signing recipient while someone else pays the gas", async function () {
+            const { capsules, recipient, stranger } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+            await time.increaseTo(unlockTime);
+
+            const signature = await signUnlock(capsules, recipient, 1, unlockTime + ONE_DAY);
+            await expect(capsules.connect(stranger).unlockTimeCapsuleBySig(1, recipient.address, unlockTime + ONE_DAY, signature))
+                .to.emit(capsules, "TimeCapsuleUnlocked")
+                .withArgs(1, "bafyCid", recipient.address, anyUint);
+
+            expect(await capsules.hasUnlocked(1, recipient.address)).to.equal(true);
+            expect(await capsules.unlockNonces(recipient.address)).to.equal(1);
+            expect(ethers.toUtf8String(await capsules.connect(recipient).getDecryptionKey(1))).to.equal("data-key");
+        });
+
+        it("rejects expired, replayed and foreign signatures", async function () {
+            const { capsules, recipient, delegate, stranger } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+            await createSimple(capsules, recipient.address, unlockTime);
+            await time.increaseTo(unlockTime);
+            const deadline = unlockTime + ONE_DAY;
+
+            const expired = await signUnlock(capsules, recipient, 1, unlockTime - 1);
+            await expect(capsules.unlockTimeCapsuleBySig(1, recipient.address, unlockTime - 1, expired))
+                .to.be.revertedWith("Unlock request expired");
+
+            const forged = await signUnlock(capsules, stranger, 1, deadline);
+            await expect(capsules.unlockTimeCapsuleBySig(1, recipient.address, deadline, forged))
+                .to.be.revertedWith("Invalid unlock signature");
+            await expect(capsules.unlockTimeCapsuleBySig(1, stranger.address, deadline, forged))
+                .to.be.revertedWith("Not authorized to unlock");
+
+            // A signature is bound to its capsule and spent by its first use
+            const signature = await signUnlock(capsules, recipient, 1, deadline);
+            await expect(capsules.unlockTimeCapsuleBySig(2, recipient.address, deadline, signature))
+                .to.be.revertedWith("Invalid unlock signature");
+            await capsules.connect(delegate).unlockTimeCapsuleBySig(1, recipient.address, deadline, signature);
+            await capsules.connect(recipient).unlockTimeCapsule(2);
+            await expect(capsules.unlockTimeCapsuleBySig(1, recipient.address, deadline, signature))
+                .to.be.revertedWith("Invalid unlock signature");
+        });
+    });
+
+    describe("multiple recipients", function () {
+        async function multiRecipientFixture() {
+            const fixture = await deployFixture();
+            const { capsules, recipient, delegate, stranger } = fixture;
+            const dataKey = generateDataKey();
+
+            const encryptionKeys = [];
+            for (const account of [recipient, delegate]) {
+                const keyPair = await encryptionKeyFromSignature(await account.signMessage(ENCRYPTION_KEY_MESSAGE));
+                await capsules.connect(account).registerEncryptionKey(keyPair.publicKey);
+                encryptionKeys.push(keyPair);
+            }
+            const wrappedKeys = await Promise.all(encryptionKeys.map(keyPair => wrapDataKey(dataKey, keyPair.publicKey)));
+
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await capsules.createSimpleTimeCapsuleForRecipients(
+                "bafyCid", unlockTime, [recipient.address, delegate.address], wrappedKeys, "Group letter", 42, "text/plain", NO_CONTENT_HASHES
+            );
+            return { ...fixture, dataKey, encryptionKeys, unlockTime, stranger };
+        }
+
+        it("validates recipients, wrapped keys and encryption keys", async function () {
+            const { capsules, recipient, delegate } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            const create = (recipients: string[], keys: string[]) => capsules.createSimpleTimeCapsuleForRecipients(
+                "bafyCid", unlockTime, recipients, keys, "Group letter", 42, "text/plain", NO_CONTENT_HASHES
+            );
+
+            await expect(create([], [])).to.be.revertedWith("At least one recipient required");
+            await expect(create([recipient.address], [])).to.be.revertedWith("One wrapped key per recipient");
+            await expect(create([recipient.address, ethers.ZeroAddress], ["0x01", "0x01"]))
+                .to.be.revertedWith("Recipient cannot be zero address");
+            await expect(create([recipient.address, delegate.address], ["0x01", "0x"]))
+                .to.be.revertedWith("Wrapped key cannot be empty");
+            await expect(create([recipient.address, recipient.address], ["0x01", "0x01"]))
+                .to.be.revertedWith("Duplicate recipient");
+            await expect(create(Array(33).fill(recipient.address), Array(33).fill("0x01")))
+                .to.be.revertedWith("Too many recipients");
+
+            await expect(capsules.registerEncryptionKey("0x04" + "11".repeat(32))).to.be.revertedWith("Invalid encryption key");
+        });
+
+        it("lets each recipient unlock and unwrap its own copy", async function () {
+            const { capsules, recipient, delegate, stranger, dataKey, encryptionKeys, unlockTime } = await loadFixture(multiRecipientFixture);
+            expect(await capsules.getRecipients(1)).to.deep.equal([recipient.address, delegate.address]);
+            expect(await capsules.encryptionKeys(recipient.address)).to.equal(encryptionKeys[0].publicKey);
+            await expect(capsules.connect(recipient).getWrappedKey(1)).to.be.revertedWith("Capsule is still locked");
+
+            await time.increaseTo(unlockTime);
+            await expect(capsules.connect(stranger).getWrappedKey(1)).to.be.revertedWith("Not authorized to unlock");
+
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1))
+                .to.emit(capsules, "TimeCapsuleUnlocked")
+                .withArgs(1, "bafyCid", recipient.address, anyUint);
+            expect(await capsules.hasUnlocked(1, recipient.address)).to.equal(true);
+            expect(await capsules.hasUnlocked(1, delegate.address)).to.equal(false);
+            expect((await capsules.getTimeCapsule(1)).isUnlocked).to.equal(false);
+            expect(await capsules.canUnlock(1)).to.equal(true);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule already unlocked");
+
+            await capsules.connect(delegate).unlockTimeCapsule(1);
+            expect((await capsules.getTimeCapsule(1)).isUnlocked).to.equal(true);
+            expect(await capsules.canUnlock(1)).to.equal(false);
+
+            const recipientCopy = await capsules.connect(recipient).getWrappedKey(1);
+            const secondCopy = await capsules.connect(delegate).getWrappedKey(1);
+            expect(recipientCopy).not.to.equal(secondCopy);
+            expect(await unwrapDataKey(recipientCopy, encryptionKeys[0].privateKey)).to.equal(dataKey);
+            expect(await unwrapDataKey(secondCopy, encryptionKeys[1].privateKey)).to.equal(dataKey);
+            await expect(unwrapDataKey(recipientCopy, encryptionKeys[1].privateKey)).to.be.rejectedWith(KeyWrapError);
+        });
+
+        it("records single-recipient capsules as a one-entry list without wrapped keys", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+            await time.increaseTo(unlockTime);
+
+            expect(await capsules.getRecipients(1)).to.deep.equal([recipient.address]);
+            expect(await capsules.connect(recipient).getWrappedKey(1)).to.equal("0x");
+        });
+    });
+
+    describe("creator controls", function () {
+        it("cancels a capsule, refunds the held Blocklock fee and blocks unlocking", async function () {
+            const { capsules, creator, recipient, stranger } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createTimelock(capsules, recipient.address, timestampCondition(unlockTime));
+            expect(await capsules.blocklockFees(1)).to.equal(FEE);
+
+            await expect(capsules.connect(stranger).cancelCapsule(1)).to.be.revertedWith("Only creator can cancel");
+            const cancel = capsules.cancelCapsule(1);
+            await expect(cancel).to.emit(capsules, "CapsuleCancelled").withArgs(1, creator.address, FEE);
+            await expect(cancel).to.changeEtherBalances([creator, capsules], [FEE, -FEE]);
+            expect(await capsules.isCancelled(1)).to.equal(true);
+            expect(await capsules.blocklockFees(1)).to.equal(0);
+            await expect(capsules.cancelCapsule(1)).to.be.revertedWith("Capsule was cancelled");
+
+            await time.increaseTo(unlockTime);
+            const { blocklockRequestId } = await capsules.getTimeCapsule(1);
+            await expect(capsules.simulateBlocklockCallback(blocklockRequestId, "0x1234"))
+                .to.be.revertedWith("Capsule was cancelled");
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule was cancelled");
+            await expect(capsules.connect(recipient).getDecryptionKey(1)).to.be.revertedWith("Capsule was cancelled");
+        });
+
+        it("refuses to cancel once the capsule is unlockable, even if nobody has unlocked", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+            await time.increaseTo(unlockTime);
+
+            await expect(capsules.cancelCapsule(1)).to.be.revertedWith("Capsule is already unlockable");
+            await capsules.connect(recipient).unlockTimeCapsule(1);
+            await expect(capsules.cancelCapsule(1)).to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("only extends the unlock time, and only before it is reached", async function () {
+            const { capsules, recipient, stranger } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+
+            await expect(capsules.connect(stranger).extendUnlockTime(1, unlockTime + ONE_DAY))
+                .to.be.revertedWith("Only creator can amend");
+            await expect(capsules.extendUnlockTime(1, unlockTime)).to.be.revertedWith("Unlock time can only be extended");
+            await expect(capsules.extendUnlockTime(1, unlockTime + ONE_DAY))
+                .to.emit(capsules, "UnlockTimeExtended")
+                .withArgs(1, unlockTime, unlockTime + ONE_DAY);
+
+            await time.increaseTo(unlockTime);
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule is still locked");
+
+            await time.increaseTo(unlockTime + ONE_DAY);
+            await expect(capsules.extendUnlockTime(1, unlockTime + 2 * ONE_DAY))
+                .to.be.revertedWith("Capsule is already unlockable");
+            await expect(capsules.updateCid(1, "bafyOther")).to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("replaces a recipient in place and moves the unlock right to the new one", async function () {
+            const { capsules, recipient, delegate, stranger } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+
+            await expect(capsules.updateRecipient(1, stranger.address, delegate.address, "0x"))
+                .to.be.revertedWith("Not a recipient");
+            await expect(capsules.updateRecipient(1, recipient.address, recipient.address, "0x"))
+                .to.be.revertedWith("Duplicate recipient");
+            await expect(capsules.updateRecipient(1, recipient.address, delegate.address, "0x01"))
+                .to.be.revertedWith("Capsule has no wrapped keys");
+            await expect(capsules.updateRecipient(1, recipient.address, delegate.address, "0x"))
+                .to.emit(capsules, "RecipientUpdated")
+                .withArgs(1, recipient.address, delegate.address);
+
+            expect(await capsules.getRecipients(1)).to.deep.equal([delegate.address]);
+            expect((await capsules.getTimeCapsule(1)).recipient).to.equal(delegate.address);
+
+            await time.increaseTo(unlockTime);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Not authorized to unlock");
+            await expect(capsules.connect(delegate).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+        });
+
+        it("updates the CID of a locked capsule", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            await createSimple(capsules, recipient.address, (await time.latest()) + ONE_DAY);
+
+            await expect(capsules.updateCid(1, "")).to.be.revertedWith("IPFS CID cannot be empty");
+            await expect(capsules.updateCid(1, "bafyFixed"))
+                .to.emit(capsules, "CIDUpdated")
+                .withArgs(1, "bafyCid", "bafyFixed");
+            expect((await capsules.getTimeCapsule(1)).ipfsCid).to.equal("bafyFixed");
+        });
+
+        it("records content hashes that downloads are verified against, and clears them with the CID", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            await createSimple(capsules, recipient.address, (await time.latest()) + ONE_DAY);
+            const envelope = new TextEncoder().encode("sealed envelope");
+            const hashes = await hashContent(envelope, "plaintext");
+            expect(await capsules.contentHashes(1)).to.deep.equal([NO_CONTENT_HASH, NO_CONTENT_HASH]);
+
+            await expect(capsules.connect(recipient).setContentHash(1, hashes.envelope, hashes.plaintext))
+                .to.be.revertedWith("Only creator can amend");
+            await expect(capsules.setContentHash(1, hashes.envelope, ethers.ZeroHash))
+                .to.be.revertedWith("Content hash cannot be zero");
+            await expect(capsules.setContentHash(1, hashes.envelope, hashes.plaintext))
+                .to.emit(capsules, "ContentHashSet")
+                .withArgs(1, hashes.envelope, hashes.plaintext);
+
+            const [envelopeHash, plaintextHash] = await capsules.contentHashes(1);
+            expect(await verifyContentHash(envelope, envelopeHash, "envelope")).to.equal(true);
+            expect(await verifyContentHash(new TextEncoder().encode("plaintext"), plaintextHash, "plaintext")).to.equal(true);
+            await expect(verifyContentHash(envelope.subarray(1), envelopeHash, "envelope"))
+                .to.be.rejectedWith(ContentIntegrityError, "Downloaded envelope does not match the hash recorded on-chain");
+
+            await capsules.updateCid(1, "bafyFixed");
+            expect(await capsules.contentHashes(1)).to.deep.equal([NO_CONTENT_HASH, NO_CONTENT_HASH]);
+            expect(await verifyContentHash(envelope.subarray(1), NO_CONTENT_HASH, "envelope")).to.equal(false);
+        });
+
+        it("records content hashes in the same transaction that creates the capsule", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            const hashes = await hashContent(new TextEncoder().encode("sealed envelope"), "plaintext");
+            const create = (contentHash: { envelope: string; plaintext: string }) => capsules.createSimpleTimeCapsuleForRecipients(
+                "bafyCid", unlockTime, [recipient.address], ["0x01"], "Letter", 42, "text/plain", contentHash
+            );
+
+            await expect(create({ envelope: hashes.envelope, plaintext: ethers.ZeroHash }))
+                .to.be.revertedWith("Content hash cannot be zero");
+            await expect(create(hashes))
+                .to.emit(capsules, "ContentHashSet")
+                .withArgs(1, hashes.envelope, hashes.plaintext);
+            expect(await capsules.contentHashes(1)).to.deep.equal([hashes.envelope, hashes.plaintext]);
+
+            await expect(create(NO_CONTENT_HASHES)).not.to.emit(capsules, "ContentHashSet");
+            expect(await capsules.contentHashes(2)).to.deep.equal([NO_CONTENT_HASH, NO_CONTENT_HASH]);
+        });
+    });
+
+    describe("dead man's switch", function () {
+        async function createSwitch(capsules: TimeCapsuleBlocklockSimple, recipient: string, interval: number, wrappedKey = "0x01") {
+            return capsules.createDeadManSwitchCapsule("bafyCid", wrappedKey, interval, recipient, "Will", 42, "text/plain", NO_CONTENT_HASHES);
+        }
+
+        it("validates the interval, the wrapped key and who may send heartbeats", async function () {
+            const { capsules, recipient, stranger } = await loadFixture(deployFixture);
+
+            await expect(createSwitch(capsules, recipient.address, 60)).to.be.revertedWith("Heartbeat interval too short");
+            await expect(createSwitch(capsules, recipient.address, ONE_DAY, "0x")).to.be.revertedWith("Wrapped key cannot be empty");
+            await expect(createSwitch(capsules, recipient.address, ONE_DAY))
+                .to.emit(capsules, "Heartbeat")
+                .withArgs(1, ONE_DAY, anyUint);
+            await createSimple(capsules, recipient.address, (await time.latest()) + ONE_DAY);
+
+            await expect(capsules.connect(stranger).heartbeat(1)).to.be.revertedWith("Only creator can send heartbeats");
+            await expect(capsules.heartbeat(2)).to.be.revertedWith("Not a dead man's switch");
+        });
+
+        it("moves the deadline with each heartbeat and fires when they stop", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            await createSwitch(capsules, recipient.address, ONE_DAY);
+
+            await time.increase(ONE_DAY - 60);
+            await capsules.heartbeat(1);
+            const deadline = (await time.latest()) + ONE_DAY;
+            expect((await capsules.getTimeCapsule(1)).unlockTime).to.equal(deadline);
+            expect(await capsules.canUnlock(1)).to.equal(false);
+
+            await time.increaseTo(deadline);
+            expect(await capsules.canUnlock(1)).to.equal(true);
+            await expect(capsules.heartbeat(1)).to.be.revertedWith("Switch already fired");
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+            expect(await capsules.connect(recipient).getWrappedKey(1)).to.equal("0x01");
+        });
+
+        it("never moves the deadline earlier than an extension", async function () {
+            const { capsules, recipient } = await loadFixture(deployFixture);
+            await createSwitch(capsules, recipient.address, ONE_DAY);
+            const extended = (await time.latest()) + 10 * ONE_DAY;
+            await capsules.extendUnlockTime(1, extended);
+
+            await expect(capsules.heartbeat(1)).to.emit(capsules, "Heartbeat").withArgs(1, ONE_DAY, extended);
+            expect((await capsules.getTimeCapsule(1)).unlockTime).to.equal(extended);
+        });
+    });
+
+    describe("proof gate", function () {
+        const proofs = createProofProvider("groth16");
+
+        async function gatedFixture() {
+            const fixture = await deployFixture();
+            const { capsules, recipient } = fixture;
+            const verifier = await (await ethers.getContractFactory("ReceiverAuthVerifier")).deploy();
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createSimple(capsules, recipient.address, unlockTime);
+
+            const secret = await deriveReceiverSecret(recipient);
+            const proof = await proofs.prove("receiver_auth", { capsuleId: 1, recipient: recipient.address, secret });
+            const signals = [BigInt(proof.publicSignals[0]), 0n, 1n, BigInt(recipient.address)];
+            return { ...fixture, verifier, unlockTime, proof, signals };
+        }
+
+        it("lets only the creator set a gate, and checks the verifier and mask", async function () {
+            const { capsules, recipient, verifier, signals } = await loadFixture(gatedFixture);
+            const verifierAddress = await verifier.getAddress();
+
+            await expect(capsules.connect(recipient).setProofGate(1, verifierAddress, signals, RECEIVER_AUTH_GATE_MASK))
+                .to.be.revertedWith("Only creator can amend");
+            await expect(capsules.setProofGate(1, recipient.address, signals, RECEIVER_AUTH_GATE_MASK))
+                .to.be.revertedWith("Verifier is not a contract");
+            await expect(capsules.setProofGate(1, verifierAddress, [], 0))
+                .to.be.revertedWith("Invalid public signal count");
+            await expect(capsules.setProofGate(1, verifierAddress, signals, 0b10000))
+                .to.be.revertedWith("Mask exceeds public signals");
+
+            await expect(capsules.setProofGate(1, verifierAddress, signals, RECEIVER_AUTH_GATE_MASK))
+                .to.emit(capsules, "ProofGateUpdated")
+                .withArgs(1, verifierAddress, RECEIVER_AUTH_GATE_MASK, signals);
+            const [gateVerifier, mask, gateSignals] = await capsules.getProofGate(1);
+            expect([gateVerifier, mask, [...gateSignals]]).to.deep.equal([verifierAddress, BigInt(RECEIVER_AUTH_GATE_MASK), signals]);
+        });
+
+        it("unlocks a gated capsule only with a valid proof for the required signals", async function () {
+            const { capsules, recipient, verifier, unlockTime, proof, signals } = await loadFixture(gatedFixture);
+            await capsules.setProofGate(1, await verifier.getAddress(), signals, RECEIVER_AUTH_GATE_MASK);
+            await time.increaseTo(unlockTime);
+            const { a, b, c, publicSignals } = toSolidityProof(proof);
+
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Proof required to unlock");
+            await expect(capsules.connect(recipient).unlockTimeCapsuleWithProof(1, a, b, c, publicSignals.slice(1)))
+                .to.be.revertedWith("Wrong number of public signals");
+            await expect(capsules.connect(recipient).unlockTimeCapsuleWithProof(1, a, b, c, [publicSignals[0], publicSignals[1], "2", publicSignals[3]]))
+                .to.be.revertedWith("Public signal mismatch");
+            await expect(capsules.connect(recipient).unlockTimeCapsuleWithProof(1, c, b, a, publicSignals))
+                .to.be.revertedWith("Invalid proof");
+
+            await expect(capsules.connect(recipient).unlockTimeCapsuleWithProof(1, a, b, c, publicSignals))
+                .to.emit(capsules, "TimeCapsuleUnlocked");
+            await expect(capsules.setProofGate(1, ethers.ZeroAddress, [], 0)).to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("rejects proofs made with another wallet's secret", async function () {
+            const { capsules, recipient, stranger, verifier, unlockTime, signals } = await loadFixture(gatedFixture);
+            await capsules.setProofGate(1, await verifier.getAddress(), signals, RECEIVER_AUTH_GATE_MASK);
+            await time.increaseTo(unlockTime);
+
+            const forged = await proofs.prove("receiver_auth", {
+                capsuleId: 1, recipient: recipient.address, secret: await deriveReceiverSecret(stranger)
+            });
+            const { a, b, c, publicSignals } = toSolidityProof(forged);
+            await expect(capsules.connect(recipient).unlockTimeCapsuleWithProof(1, a, b, c, publicSignals))
+                .to.be.revertedWith("Public signal mismatch");
+        });
+
+        it("cannot be added or changed once the capsule is unlockable", async function () {
+            const { capsules, verifier, unlockTime, signals } = await loadFixture(gatedFixture);
+            await capsules.setProofGate(1, await verifier.getAddress(), signals, RECEIVER_AUTH_GATE_MASK);
+            await time.increaseTo(unlockTime);
+
+            await expect(capsules.setProofGate(1, await verifier.getAddress(), [1n, 0n, 1n, 1n], RECEIVER_AUTH_GATE_MASK))
+                .to.be.revertedWith("Capsule is already unlockable");
+            await expect(capsules.setProofGate(1, ethers.ZeroAddress, [], 0))
+                .to.be.revertedWith("Capsule is already unlockable");
+        });
+
+        it("falls back to plain unlocking once the creator removes the gate", async function () {
+            const { capsules, recipient, verifier, unlockTime, proof, signals } = await loadFixture(gatedFixture);
+            await capsules.setProofGate(1, await verifier.getAddress(), signals, RECEIVER_AUTH_GATE_MASK);
+            await capsules.setProofGate(1, ethers.ZeroAddress, [], 0);
+            await time.increaseTo(unlockTime);
+
+            expect((await capsules.getProofGate(1))[0]).to.equal(ethers.ZeroAddress);
+            const { a, b, c, publicSignals } = toSolidityProof(proof);
+            await expect(capsules.connect(recipient).unlockTimeCapsuleWithProof(1, a, b, c, publicSignals))
+                .to.be.revertedWith("Capsule has no proof gate");
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.emit(capsules, "TimeCapsuleUnlocked");
+        });
+    });
+});
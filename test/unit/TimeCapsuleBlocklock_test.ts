@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { encodeCondition } from "blocklock-js";
+import { MockBlocklockSender, TimeCapsuleBlocklock } from "../../typechain-types";
+import { MockBlocklock } from "../../scripts/MockBlocklock";
+
+describe("TimeCapsuleBlocklock", function () {
+    const REQUEST_PRICE = ethers.parseEther("0.001");
+    const CALLBACK_GAS_LIMIT = 700000;
+    const UNLOCK_DELAY_BLOCKS = 10;
+    const DATA_KEY = "a".repeat(64);
+
+    async function deployFixture() {
+        const [oracle, creator, recipient, delegate, stranger] = await ethers.getSigners();
+
+        const senderFactory = await ethers.getContractFactory("MockBlocklockSender");
+        const sender = await senderFactory.deploy(oracle.address, REQUEST_PRICE) as unknown as MockBlocklockSender;
+
+        const capsuleFactory = await ethers.getContractFactory("TimeCapsuleBlocklock");
+        const capsules = await capsuleFactory.deploy(await sender.getAddress()) as unknown as TimeCapsuleBlocklock;
+
+        const blocklock = await MockBlocklock.forSender(sender);
+        return { sender, capsules, blocklock, oracle, creator, recipient, delegate, stranger };
+    }
+
+    async function createCapsule(
+        capsules: TimeCapsuleBlocklock,
+        blocklock: MockBlocklock,
+        recipient: string,
+        unlockBlock: bigint,
+        value: bigint = REQUEST_PRICE
+    ) {
+        return capsules.createTimelockRequestWithDirectFunding(
+            "bafyCid",
+            CALLBACK_GAS_LIMIT,
+            encodeCondition(unlockBlock),
+            blocklock.encrypt(ethers.toUtf8Bytes(DATA_KEY), unlockBlock),
+            recipient,
+            "",
+            "Sealed",
+            (await time.latest()) + 3600,
+            42,
+            "text/plain",
+            { value }
+        );
+    }
+
+    async function capsuleFixture() {
+        const fixture = await deployFixture();
+        const { capsules, blocklock, creator, recipient } = fixture;
+
+        const unlockBlock = BigInt(await ethers.provider.getBlockNumber()) + BigInt(UNLOCK_DELAY_BLOCKS);
+        await createCapsule(capsules.connect(creator), blocklock, recipient.address, unlockBlock);
+
+        const requestId = (await capsules.getTimeCapsule(1)).blocklockRequestId;
+        const decryptionKey = blocklock.deriveDecryptionKey(encodeCondition(unlockBlock));
+        return { ...fixture, unlockBlock, requestId, decryptionKey };
+    }
+
+    describe("constructor", function () {
+        it("rejects a zero sender address", async function () {
+            const factory = await ethers.getContractFactory("TimeCapsuleBlocklock");
+
+            await expect(factory.deploy(ethers.ZeroAddress)).to.be.revertedWith("Blocklock sender cannot be zero address");
+        });
+    });
+
+    describe("createTimelockRequestWithDirectFunding", function () {
+        it("submits the request to the sender and forwards the whole fee", async function () {
+            const { sender, capsules, requestId, unlockBlock, creator, recipient } = await loadFixture(capsuleFixture);
+
+            const capsule = await capsules.getTimeCapsule(1);
+            expect(requestId).to.equal(1);
+            expect(capsule.creator).to.equal(creator.address);
+            expect(capsule.recipient).to.equal(recipient.address);
+            expect(capsule.useBlocklock).to.equal(true);
+            expect(capsule.hasDecryptionKey).to.equal(false);
+            expect(await capsules.blocklockToCapsule(requestId)).to.equal(1);
+            expect((await capsules.timeCapsules(1)).unlockBlock).to.equal(unlockBlock);
+
+            expect(await ethers.provider.getBalance(await capsules.getAddress())).to.equal(0);
+            expect(await ethers.provider.getBalance(await sender.getAddress())).to.equal(REQUEST_PRICE);
+            expect(await sender.isInFlight(requestId)).to.equal(true);
+        });
+
+        it("rejects fees below the sender's price", async function () {
+            const { capsules, blocklock, recipient } = await loadFixture(deployFixture);
+            const unlockBlock = BigInt(await ethers.provider.getBlockNumber()) + 10n;
+
+            await expect(createCapsule(capsules, blocklock, recipient.address, unlockBlock, REQUEST_PRICE - 1n))
+                .to.be.revertedWith("Insufficient ETH");
+        });
+
+        it("rejects conditions that are not future block heights", async function () {
+            const { capsules, blocklock, recipient } = await loadFixture(deployFixture);
+            const currentBlock = BigInt(await ethers.provider.getBlockNumber());
+
+            await expect(createCapsule(capsules, blocklock, recipient.address, currentBlock))
+                .to.be.revertedWith("Unlock block must be in the future");
+
+            await expect(capsules.createTimelockRequestWithDirectFunding(
+                "bafyCid",
+                CALLBACK_GAS_LIMIT,
+                ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [currentBlock + 10n]),
+                blocklock.encrypt(ethers.toUtf8Bytes(DATA_KEY), currentBlock + 10n),
+                recipient.address,
+                "",
+                "Sealed",
+                (await time.latest()) + 3600,
+                42,
+                "text/plain",
+                { value: REQUEST_PRICE }
+            )).to.be.revertedWith("Condition must be a Blocklock block height");
+        });
+
+        it("rejects a zero recipient", async function () {
+            const { capsules, blocklock } = await loadFixture(deployFixture);
+            const unlockBlock = BigInt(await ethers.provider.getBlockNumber()) + 10n;
+
+            await expect(createCapsule(capsules, blocklock, ethers.ZeroAddress, unlockBlock))
+                .to.be.revertedWith("Recipient cannot be zero address");
+        });
+    });
+
+    describe("Blocklock callback", function () {
+        it("accepts keys only from the sender", async function () {
+            const { capsules, stranger, requestId, decryptionKey } = await loadFixture(capsuleFixture);
+
+            await expect(capsules.connect(stranger).receiveBlocklock(requestId, decryptionKey))
+                .to.be.revertedWith("Only blocklock contract can call");
+        });
+
+        it("is not delivered before the condition block", async function () {
+            const { sender, requestId, decryptionKey } = await loadFixture(capsuleFixture);
+
+            await expect(sender.fulfillRequest(requestId, decryptionKey)).to.be.revertedWith("Condition not met");
+        });
+
+        it("stores the key once the condition block is reached", async function () {
+            const { sender, capsules, recipient, requestId, decryptionKey } = await loadFixture(capsuleFixture);
+            await mine(UNLOCK_DELAY_BLOCKS);
+
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1))
+                .to.be.revertedWith("Decryption key not yet available");
+
+            await expect(sender.fulfillRequest(requestId, decryptionKey))
+                .to.emit(capsules, "DecryptionKeyReceived")
+                .withArgs(1, requestId, decryptionKey);
+
+            expect(await sender.isInFlight(requestId)).to.equal(false);
+            expect(await capsules.canUnlock(1)).to.equal(true);
+            await expect(sender.fulfillRequest(requestId, decryptionKey)).to.be.revertedWith("Request already fulfilled");
+        });
+    });
+
+    describe("unlockTimeCapsule", function () {
+        async function deliveredFixture() {
+            const fixture = await capsuleFixture();
+            await mine(UNLOCK_DELAY_BLOCKS);
+            await fixture.sender.fulfillRequest(fixture.requestId, fixture.decryptionKey);
+            return fixture;
+        }
+
+        it("releases the decrypted data key to the recipient and approved delegates", async function () {
+            const { capsules, creator, recipient, delegate, stranger } = await loadFixture(deliveredFixture);
+
+            await expect(capsules.connect(stranger).getDecryptionKey(1)).to.be.revertedWith("Not authorized to unlock");
+            expect(ethers.toUtf8String(await capsules.connect(recipient).getDecryptionKey(1))).to.equal(DATA_KEY);
+
+            await capsules.connect(creator).setUnlockDelegate(1, delegate.address, true);
+            expect(ethers.toUtf8String(await capsules.connect(delegate).getDecryptionKey(1))).to.equal(DATA_KEY);
+        });
+
+        it("unlocks once and rejects a second unlock", async function () {
+            const { capsules, creator, recipient } = await loadFixture(deliveredFixture);
+
+            await expect(capsules.connect(creator).unlockTimeCapsule(1)).to.be.revertedWith("Not authorized to unlock");
+
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1))
+                .to.emit(capsules, "TimeCapsuleUnlocked");
+
+            expect(await capsules.canUnlock(1)).to.equal(false);
+            await expect(capsules.connect(recipient).unlockTimeCapsule(1)).to.be.revertedWith("Capsule already unlocked");
+        });
+    });
+
+    describe("getBlocksUntilUnlock", function () {
+        it("counts down to the condition block", async function () {
+            const { capsules, unlockBlock } = await loadFixture(capsuleFixture);
+            const currentBlock = BigInt(await ethers.provider.getBlockNumber());
+
+            expect(await capsules.getBlocksUntilUnlock(1)).to.equal(unlockBlock - currentBlock);
+
+            await mine(UNLOCK_DELAY_BLOCKS);
+            expect(await capsules.getBlocksUntilUnlock(1)).to.equal(0);
+        });
+    });
+});
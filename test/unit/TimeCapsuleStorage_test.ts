@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { TimeCapsuleStorage } from "../../typechain-types";
+
+describe("TimeCapsuleStorage", function () {
+    const ONE_DAY = 24 * 60 * 60;
+
+    async function deployFixture() {
+        const [creator, other] = await ethers.getSigners();
+        const factory = await ethers.getContractFactory("TimeCapsuleStorage");
+        const storage = await factory.deploy() as unknown as TimeCapsuleStorage;
+        return { storage, creator, other };
+    }
+
+    async function createCapsule(storage: TimeCapsuleStorage, unlockTime: number, title = "Letter") {
+        return storage.createTimeCapsule("bafyCid", "key", unlockTime, "to@example.com", title, 42, "text/plain");
+    }
+
+    describe("createTimeCapsule", function () {
+        it("stores the capsule and emits events", async function () {
+            const { storage, creator } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await expect(createCapsule(storage, unlockTime))
+                .to.emit(storage, "TimeCapsuleCreated")
+                .and.to.emit(storage, "CIDStored");
+
+            const capsule = await storage.getTimeCapsule(1);
+            expect(capsule.ipfsCid).to.equal("bafyCid");
+            expect(capsule.encryptionKey).to.equal("key");
+            expect(capsule.unlockTime).to.equal(unlockTime);
+            expect(capsule.creator).to.equal(creator.address);
+            expect(capsule.isUnlocked).to.equal(false);
+            expect(capsule.fileSize).to.equal(42);
+            expect(await storage.nextCapsuleId()).to.equal(2);
+            expect(await storage.getTotalCapsules()).to.equal(1);
+        });
+
+        it("rejects an empty CID", async function () {
+            const { storage } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await expect(storage.createTimeCapsule("", "key", unlockTime, "", "Letter", 0, ""))
+                .to.be.revertedWith("IPFS CID cannot be empty");
+        });
+
+        it("rejects an empty title", async function () {
+            const { storage } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await expect(createCapsule(storage, unlockTime, "")).to.be.revertedWith("Title cannot be empty");
+        });
+
+        it("rejects an unlock time that is not in the future", async function () {
+            const { storage } = await loadFixture(deployFixture);
+            const now = await time.latest();
+
+            // The next block is mined at now + 1, so now + 1 is not strictly in the future
+            await time.setNextBlockTimestamp(now + 1);
+            await expect(createCapsule(storage, now + 1)).to.be.revertedWith("Unlock time must be in the future");
+        });
+    });
+
+    describe("userCapsules", function () {
+        it("indexes capsules per creator in creation order", async function () {
+            const { storage, creator, other } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+
+            await createCapsule(storage, unlockTime);
+            await createCapsule(storage.connect(other), unlockTime);
+            await createCapsule(storage, unlockTime);
+
+            expect(await storage.getUserCapsules(creator.address)).to.deep.equal([1n, 3n]);
+            expect(await storage.getUserCapsules(other.address)).to.deep.equal([2n]);
+            expect(await storage.userCapsules(creator.address, 1)).to.equal(3);
+            expect(await storage.getUserCapsules(ethers.ZeroAddress)).to.deep.equal([]);
+        });
+    });
+
+    describe("canUnlock and getTimeUntilUnlock", function () {
+        it("switches exactly at the unlock time", async function () {
+            const { storage } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createCapsule(storage, unlockTime);
+
+            await time.increaseTo(unlockTime - 1);
+            expect(await storage.canUnlock(1)).to.equal(false);
+            expect(await storage.getTimeUntilUnlock(1)).to.equal(1);
+
+            await time.increaseTo(unlockTime);
+            expect(await storage.canUnlock(1)).to.equal(true);
+            expect(await storage.getTimeUntilUnlock(1)).to.equal(0);
+
+            await time.increase(ONE_DAY);
+            expect(await storage.getTimeUntilUnlock(1)).to.equal(0);
+        });
+
+        it("reverts for capsules that do not exist", async function () {
+            const { storage } = await loadFixture(deployFixture);
+
+            await expect(storage.canUnlock(1)).to.be.revertedWith("Capsule does not exist");
+            await expect(storage.getTimeUntilUnlock(1)).to.be.revertedWith("Capsule does not exist");
+            await expect(storage.getTimeCapsule(1)).to.be.revertedWith("Capsule does not exist");
+        });
+    });
+
+    describe("unlockTimeCapsule", function () {
+        it("rejects unlocking before the unlock time", async function () {
+            const { storage } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createCapsule(storage, unlockTime);
+
+            await expect(storage.unlockTimeCapsule(1)).to.be.revertedWith("Capsule is still locked");
+        });
+
+        it("unlocks once and rejects a second unlock", async function () {
+            const { storage, other } = await loadFixture(deployFixture);
+            const unlockTime = (await time.latest()) + ONE_DAY;
+            await createCapsule(storage, unlockTime);
+            await time.increaseTo(unlockTime);
+
+            await expect(storage.connect(other).unlockTimeCapsule(1))
+                .to.emit(storage, "TimeCapsuleUnlocked")
+                .withArgs(1, "bafyCid", other.address, unlockTime + 1);
+
+            expect((await storage.getTimeCapsule(1)).isUnlocked).to.equal(true);
+            expect(await storage.canUnlock(1)).to.equal(false);
+            await expect(storage.unlockTimeCapsule(1)).to.be.revertedWith("Capsule already unlocked");
+        });
+    });
+});
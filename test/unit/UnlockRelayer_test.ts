@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { AddressInfo } from "net";
+import { once } from "events";
+import { TimeCapsuleBlocklockSimple } from "../../typechain-types";
+import { createRelayerApi } from "../../scripts/unlockRelayer";
+import { UNLOCK_REQUEST_TYPES, UnlockRelayClient, UnlockRelayError, unlockRequestDomain } from "../../shared/unlockRelay";
+
+describe("UnlockRelayer", function () {
+    const ONE_DAY = 24 * 60 * 60;
+
+    async function deployFixture() {
+        const [relayer, recipient, stranger] = await ethers.getSigners();
+        const factory = await ethers.getContractFactory("TimeCapsuleBlocklockSimple");
+        const capsules = await factory.deploy(ethers.ZeroAddress, ethers.ZeroAddress) as unknown as TimeCapsuleBlocklockSimple;
+        const unlockTime = (await time.latest()) + ONE_DAY;
+        await capsules.connect(stranger).createSimpleTimeCapsuleForRecipient(
+            "bafyCid", "data-key", unlockTime, recipient.address, "", "Letter", 42, "text/plain"
+        );
+        return { capsules, relayer, recipient, stranger, unlockTime };
+    }
+
+    async function withRelayer(capsules: TimeCapsuleBlocklockSimple, test: (client: UnlockRelayClient) => Promise<void>) {
+        const server = createRelayerApi(capsules, { chainId: 31337, contract: capsules.target as string }).listen(0);
+        try {
+            await once(server, "listening");
+            const { port } = server.address() as AddressInfo;
+            await test(new UnlockRelayClient(`http://127.0.0.1:${port}`));
+        } finally {
+            server.close();
+        }
+    }
+
+    it("sends signed unlocks from the relayer's account", async function () {
+        const { capsules, relayer, recipient, unlockTime } = await loadFixture(deployFixture);
+        await time.increaseTo(unlockTime);
+
+        const deadline = unlockTime + ONE_DAY;
+        const signature = await recipient.signTypedData(
+            unlockRequestDomain(31337, capsules.target as string),
+            UNLOCK_REQUEST_TYPES,
+            { capsuleId: 1, recipient: recipient.address, nonce: 0, deadline }
+        );
+        const recipientBalance = await ethers.provider.getBalance(recipient.address);
+
+        await withRelayer(capsules, async client => {
+            expect((await client.getStatus()).relayer).to.equal(relayer.address);
+
+            const txHash = await client.relayUnlock({
+                capsuleId: "1", recipient: recipient.address, deadline: String(deadline), signature
+            });
+            const receipt = await ethers.provider.getTransactionReceipt(txHash);
+            expect(receipt!.from).to.equal(relayer.address);
+        });
+
+        expect(await capsules.hasUnlocked(1, recipient.address)).to.equal(true);
+        expect(await ethers.provider.getBalance(recipient.address)).to.equal(recipientBalance);
+    });
+
+    it("answers requests the contract would reject without sending them", async function () {
+        const { capsules, relayer, recipient, stranger, unlockTime } = await loadFixture(deployFixture);
+        const deadline = unlockTime + ONE_DAY;
+        const signature = await stranger.signTypedData(
+            unlockRequestDomain(31337, capsules.target as string),
+            UNLOCK_REQUEST_TYPES,
+            { capsuleId: 1, recipient: recipient.address, nonce: 0, deadline }
+        );
+        const nonce = await ethers.provider.getTransactionCount(relayer.address);
+
+        await withRelayer(capsules, async client => {
+            const request = { capsuleId: "1", recipient: recipient.address, deadline: String(deadline), signature };
+            await expect(client.relayUnlock(request)).to.be.rejectedWith(UnlockRelayError, "Invalid unlock signature");
+            await expect(client.relayUnlock({ ...request, capsuleId: "one" }))
+                .to.be.rejectedWith(UnlockRelayError, "capsuleId must be a decimal string");
+        });
+
+        expect(await ethers.provider.getTransactionCount(relayer.address)).to.equal(nonce);
+    });
+});
@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { InterfaceAbi } from "ethers";
+import * as typechain from "../../typechain-types";
+import {
+    AbiDriftError,
+    CONTRACT_ABIS,
+    ContractName,
+    DEPLOYMENTS,
+    DeploymentError,
+    assertDeployedCode,
+    findMissingFunctions,
+    getFunctionSelectors
+} from "../../shared/deployments";
+
+describe("Deployment manifest", function () {
+    const contractNames = Object.keys(CONTRACT_ABIS) as ContractName[];
+
+    it("publishes the ABIs of the compiled contracts", function () {
+        for (const name of contractNames) {
+            const factory = (typechain as Record<string, unknown>)[`${name}__factory`] as { abi: InterfaceAbi };
+            const compiled: string[] = [];
+            new ethers.Interface(factory.abi).forEachFunction(fragment => {
+                compiled.push(fragment.selector);
+            });
+
+            expect(Object.keys(getFunctionSelectors(name)).sort(), `${name}: run npm run deployments:manifest`)
+                .to.deep.equal(compiled.sort());
+            expect(CONTRACT_ABIS[name]).to.deep.equal(factory.abi);
+        }
+    });
+
+    it("lists checksummed addresses for published contracts", function () {
+        for (const { contracts } of Object.values(DEPLOYMENTS)) {
+            for (const [name, deployment] of Object.entries(contracts)) {
+                expect(contractNames).to.include(name);
+                expect(deployment!.address).to.equal(ethers.getAddress(deployment!.address));
+            }
+        }
+    });
+
+    describe("assertDeployedCode", function () {
+        async function deployedCode(contractName: "TimeCapsuleBlocklockSimple" | "TimeCapsuleStorage") {
+            const contract = contractName === "TimeCapsuleBlocklockSimple"
+                ? await ethers.deployContract(contractName, [ethers.ZeroAddress, ethers.ZeroAddress])
+                : await ethers.deployContract(contractName);
+            const address = await contract.getAddress();
+            return { address, code: await ethers.provider.getCode(address) };
+        }
+
+        it("accepts bytecode that dispatches every ABI function", async function () {
+            const { address, code } = await deployedCode("TimeCapsuleBlocklockSimple");
+
+            expect(findMissingFunctions("TimeCapsuleBlocklockSimple", code)).to.deep.equal([]);
+            expect(() => assertDeployedCode("TimeCapsuleBlocklockSimple", address, code)).not.to.throw();
+        });
+
+        it("reports functions missing from an older deployment", async function () {
+            const { address, code } = await deployedCode("TimeCapsuleStorage");
+
+            const missing = findMissingFunctions("TimeCapsuleBlocklockSimple", code);
+            expect(missing).to.include("getDecryptionKey(uint256)");
+            expect(missing).not.to.include("getTimeCapsule(uint256)");
+            expect(() => assertDeployedCode("TimeCapsuleBlocklockSimple", address, code)).to.throw(AbiDriftError);
+        });
+
+        it("rejects addresses without code", function () {
+            expect(() => assertDeployedCode("TimeCapsuleBlocklockSimple", ethers.ZeroAddress, "0x"))
+                .to.throw(DeploymentError, "No contract code");
+        });
+    });
+});
@@ -25,6 +25,8 @@ const nextConfig = {
   },
   experimental: {
     esmExternals: 'loose',
+    // Allow importing the deployment manifest from ../shared
+    externalDir: true,
   },
 }
 
@@ -455,7 +455,7 @@ export function CleanTimeCapsuleCreator() {
           <div className="bg-blue-50 rounded-lg p-4">
             <h3 className="font-semibold text-blue-900 mb-2">Complete Workflow Features:</h3>
             <ul className="text-sm text-blue-800 space-y-1">
-              <li>• <strong>zkTLS Proofs:</strong> Cryptographic verification with Groth16 protocol</li>
+              <li>• <strong>zkTLS Proofs:</strong> Time validation through the mock proof backend (no SNARK in this app)</li>
               <li>• <strong>Self Protocol:</strong> Identity verification with QR code scanning</li>
               <li>• <strong>Blocklock:</strong> Time-based encryption that unlocks automatically</li>
               <li>• <strong>IPFS Storage:</strong> Decentralized content storage via Lighthouse</li>
@@ -3,6 +3,7 @@
 import { ethers } from 'ethers'
 import QRCode from 'qrcode'
 import { BrowserCrypto } from './browser-crypto'
+import { MockProofProvider, describeProof } from '../../../shared/proofs'
 
 // Types
 export interface TimeCapsuleData {
@@ -191,31 +192,30 @@ export class MockTimeCapsuleContract {
 
 // Mock zkTLS Service
 export class MockZKTLSService {
-  generateProof(): {
-    protocol: string
-    curve: string
+  private proofs = new MockProofProvider()
+
+  async generateProof(): Promise<{
+    backend: string
     proofHash: string
     timestamp: number
-  } {
-    const proofData = {
-      protocol: 'Groth16',
-      curve: 'bn128',
-      proof: {
-        a: [BrowserCrypto.randomHex(32), BrowserCrypto.randomHex(32)],
-        b: [[BrowserCrypto.randomHex(32), BrowserCrypto.randomHex(32)], [BrowserCrypto.randomHex(32), BrowserCrypto.randomHex(32)]],
-        c: [BrowserCrypto.randomHex(32), BrowserCrypto.randomHex(32)]
-      },
-      publicSignals: [BrowserCrypto.randomHex(32), BrowserCrypto.randomHex(32)]
-    }
+  }> {
+    const now = Math.floor(Date.now() / 1000)
+    const proof = await this.proofs.prove('time_validation', {
+      capsuleId: 0,
+      unlockTime: now,
+      referenceTime: now,
+      maxDrift: 300,
+      localTime: now
+    })
 
     return {
-      protocol: proofData.protocol,
-      curve: proofData.curve,
-      proofHash: BrowserCrypto.createHash(JSON.stringify(proofData)),
+      backend: describeProof(proof),
+      proofHash: proof.hash,
       timestamp: Date.now()
     }
   }
 
+
   async validateNTPSources(): Promise<{
     totalSources: number
     validSources: number
@@ -264,7 +264,7 @@ export class FutureProtocolService {
       // Phase 1: zkTLS Proof Generation
       onProgress('Generating zkTLS Proof', 10)
       phases.push('zkTLS Proof Generation')
-      const zkProof = this.zkTLSService.generateProof()
+      const zkProof = await this.zkTLSService.generateProof()
       await new Promise(resolve => setTimeout(resolve, 1000))
 
       // Phase 2: NTP Validation
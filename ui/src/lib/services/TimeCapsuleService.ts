@@ -3,6 +3,12 @@ import { LighthouseService } from './LighthouseService'
 import { BlocklockService } from './BlocklockService'
 import { SelfProtocolService, VerificationEventData } from './SelfProtocolService'
 import { SimplifiedSelfProtocol } from './SimplifiedSelfProtocol'
+import { CONTRACT_ABIS, assertDeployedCode, requireDeployment } from '../../../../shared/deployments'
+import { MockProofProvider, type CircuitProof, type ProofBackend } from '../../../../shared/proofs'
+import { ENVELOPE_ALGORITHM, ENVELOPE_MIME_TYPE, hashContent, sealContent, serializeEnvelope } from '../../../../shared/envelope'
+import { ENCRYPTION_KEY_MESSAGE, encryptionKeyFromSignature, wrapDataKey } from '../../../../shared/keyWrap'
+
+const CALIBRATION_CHAIN_ID = 314159
 
 export interface TimeCapsuleData {
   title: string
@@ -14,17 +20,6 @@ export interface TimeCapsuleData {
   file?: File
 }
 
-export interface ZKTLSProof {
-  protocol: string
-  curve: string
-  proof: {
-    a: string[]
-    b: string[][]
-    c: string[]
-  }
-  publicSignals: string[]
-}
-
 export interface NTPValidation {
   total: number
   valid: number
@@ -63,6 +58,7 @@ export interface CompleteWorkflowResults {
   }
   zkTLS: {
     proofGenerated: boolean
+    backend: ProofBackend
     protocol: string
     curve: string
     proofHash: string
@@ -102,13 +98,14 @@ export class TimeCapsuleService {
   private blocklockService: BlocklockService
   private selfProtocolService: SelfProtocolService
   private simplifiedSelfProtocol: SimplifiedSelfProtocol
+  private proofs = new MockProofProvider()
   private contractAddress: string
   private startTime: number = 0
 
   constructor(
     signer: Signer,
     lighthouseApiKey: string,
-    contractAddress: string = "0xf939f81b62a57157C6fA441bEb64B2E684382991"
+    contractAddress: string = requireDeployment(CALIBRATION_CHAIN_ID, 'TimeCapsuleBlocklockSimple').address
   ) {
     this.signer = signer
     this.contractAddress = contractAddress
@@ -118,19 +115,35 @@ export class TimeCapsuleService {
     this.simplifiedSelfProtocol = new SimplifiedSelfProtocol()
   }
 
-  private generateZKProof(): ZKTLSProof {
-    return {
-      protocol: "Groth16",
-      curve: "bn128",
-      proof: {
-        a: ["0x1a2b3c4d", "0x5e6f7g8h"],
-        b: [["0x9i0j1k2l", "0x3m4n5o6p"], ["0x7q8r9s0t", "0x1u2v3w4x"]],
-        c: ["0x5y6z7a8b", "0x9c0d1e2f"]
-      },
-      publicSignals: ["0x3g4h5i6j", "0x7k8l9m0n", "0x1o2p3q4r"]
-    }
+  private getContract(): ethers.Contract {
+    return new ethers.Contract(this.contractAddress, CONTRACT_ABIS.TimeCapsuleBlocklockSimple, this.signer)
   }
 
+  /**
+   * Check that the contract is deployed and implements the manifest ABI before sending transactions
+   */
+  async verifyDeployment(): Promise<void> {
+    const code = await this.signer.provider?.getCode(this.contractAddress)
+    assertDeployedCode('TimeCapsuleBlocklockSimple', this.contractAddress, code)
+  }
+
+  /**
+   * This app ships without circuit artifacts, so time proofs use the labelled mock backend
+   */
+  private async generateZKProof(): Promise<CircuitProof<'time_validation'>> {
+    const block = await this.signer.provider?.getBlock('latest')
+    if (!block) throw new Error('Could not read the latest block')
+
+    return this.proofs.prove('time_validation', {
+      capsuleId: 0,
+      unlockTime: block.timestamp,
+      referenceTime: block.timestamp,
+      maxDrift: 300,
+      localTime: Math.floor(Date.now() / 1000)
+    })
+  }
+
+
   private async performNTPValidation(): Promise<NTPValidation> {
     const ntpServers = [
       "pool.ntp.org",
@@ -169,8 +182,8 @@ export class TimeCapsuleService {
       // Stage 1: zkTLS Proof Generation
       onProgress?.("Generating zkTLS Proof", 10)
       completedPhases.push("zkTLS Proof Generation")
-      const zkProof = this.generateZKProof()
-      const proofHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(zkProof)))
+      const zkProof = await this.generateZKProof()
+      const proofHash = zkProof.hash
 
       // Stage 2: NTP Time Validation
       onProgress?.("Validating NTP Time Sources", 20)
@@ -198,29 +211,45 @@ export class TimeCapsuleService {
         }
       }
 
-      // Stage 4: Content Preparation and IPFS Upload
+      // Stage 4: Content Encryption and IPFS Upload
       onProgress?.("Uploading Content to IPFS", 50)
       completedPhases.push("IPFS Content Upload")
 
-      let ipfsCid: string
+      // The data key only goes on-chain wrapped to the recipient's registered encryption key;
+      // in plain form anyone could read it from the transaction before the unlock time.
+      // Look the key up first, so an unregistered recipient fails the create before any upload
+      const recipient = data.recipientAddress || userAddress
+      const publicKey = await this.getEncryptionKey(recipient, userAddress)
+
+      let content: Uint8Array | string
+      let fileName: string
       let contentData: string
-      let contentSize: number
       let mimeType: string
 
       if (data.fileType === 'file' && data.file) {
-        const uploadResult = await this.lighthouseService.uploadFile(data.file)
-        ipfsCid = uploadResult.Hash
+        // Files of any type are sealed byte-for-byte, so the recipient gets the exact original back
+        content = new Uint8Array(await data.file.arrayBuffer())
+        fileName = data.file.name
         contentData = `File: ${data.file.name}`
-        contentSize = data.file.size
         mimeType = data.file.type || 'application/octet-stream'
       } else {
-        const uploadResult = await this.lighthouseService.uploadText(data.content, `${data.title}.txt`)
-        ipfsCid = uploadResult.Hash
+        content = data.content
+        fileName = `${data.title}.txt`
         contentData = data.content
-        contentSize = data.content.length
         mimeType = 'text/plain'
       }
 
+      // Gateways only ever serve the AES-GCM envelope, never the content itself
+      const sealed = await sealContent(content, { mimeType, fileName })
+      const contentSize = sealed.envelope.header.size
+      const sealedBytes = serializeEnvelope(sealed.envelope)
+      const contentHashes = await hashContent(sealedBytes, content)
+
+      const uploadResult = await this.lighthouseService.uploadFile(
+        new File([sealedBytes.slice().buffer as ArrayBuffer], `${fileName}.fpe`, { type: ENVELOPE_MIME_TYPE })
+      )
+      const ipfsCid = uploadResult.Hash
+
       // Stage 5: Blocklock Encryption
       onProgress?.("Setting up Blocklock Encryption", 60)
       completedPhases.push("Blocklock Encryption Setup")
@@ -233,27 +262,21 @@ export class TimeCapsuleService {
       completedPhases.push("TimeCapsule Creation")
 
       // Get the contract
-      const contract = new ethers.Contract(
-        this.contractAddress,
-        [
-          "function createSimpleTimeCapsule(string ipfsCid, string encryptionKey, uint256 unlockTime, string recipientEmail, string title, uint256 fileSize, string fileType) returns (uint256)",
-          "function nextCapsuleId() view returns (uint256)",
-          "function getTimeCapsule(uint256 id) view returns (tuple(string,uint256,uint256,uint256,address,string,string,bool,uint256,string,bool,bool))"
-        ],
-        this.signer
-      )
+      await this.verifyDeployment()
+      const contract = this.getContract()
 
       const nextId = await contract.nextCapsuleId()
-      const encryptionKey = ethers.hexlify(ethers.randomBytes(32))
+      const wrappedKey = await wrapDataKey(sealed.dataKey, publicKey)
 
-      const createTx = await contract.createSimpleTimeCapsule(
+      const createTx = await contract.createSimpleTimeCapsuleForRecipients(
         ipfsCid,
-        encryptionKey,
         data.unlockTime,
-        data.recipientEmail,
+        [recipient],
+        [wrappedKey],
         data.title,
         contentSize,
-        mimeType
+        mimeType,
+        contentHashes
       )
 
       const receipt = await createTx.wait()
@@ -299,7 +322,7 @@ export class TimeCapsuleService {
           id: newCapsuleId,
           title: data.title,
           creator: userAddress,
-          recipient: data.recipientEmail,
+          recipient: recipient,
           unlockTime: new Date(data.unlockTime * 1000).toISOString(),
           isUnlocked: false,
           transactionHash: createTx.hash,
@@ -307,9 +330,10 @@ export class TimeCapsuleService {
           gasUsed: receipt?.gasUsed?.toString()
         },
         zkTLS: {
-          proofGenerated: true,
-          protocol: zkProof.protocol,
-          curve: zkProof.curve,
+          proofGenerated: zkProof.proof !== null,
+          backend: zkProof.backend,
+          protocol: zkProof.proof?.protocol ?? 'none',
+          curve: zkProof.proof?.curve ?? 'none',
           proofHash: proofHash,
           ntpValidation: ntpValidation
         },
@@ -336,7 +360,7 @@ export class TimeCapsuleService {
           messageDecrypted: false,
           contentPreview: contentData.slice(0, 200) + "...",
           encryptionKeyUsed: true,
-          algorithmType: "Blocklock + AES-256"
+          algorithmType: ENVELOPE_ALGORITHM
         },
         fullDecryptedContent: contentData
       }
@@ -347,13 +371,29 @@ export class TimeCapsuleService {
     }
   }
 
+  /**
+   * Encryption public key a recipient registered; the creator registers theirs on first use,
+   * other recipients must have registered with the contract beforehand
+   */
+  private async getEncryptionKey(recipient: string, userAddress: string): Promise<string> {
+    const contract = this.getContract()
+    const registered: string = await contract.encryptionKeys(recipient)
+    if (registered !== '0x') {
+      return registered
+    }
+    if (recipient.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error(`No encryption key registered for ${recipient}; recipients must call registerEncryptionKey first`)
+    }
+
+    const { publicKey } = await encryptionKeyFromSignature(await this.signer.signMessage(ENCRYPTION_KEY_MESSAGE))
+    const registerTx = await contract.registerEncryptionKey(publicKey)
+    await registerTx.wait()
+    return publicKey
+  }
+
   async unlockTimeCapsule(capsuleId: number): Promise<TimeCapsuleCreationResult> {
     try {
-      const contract = new ethers.Contract(
-        this.contractAddress,
-        ["function unlockTimeCapsule(uint256 id) returns (bool)"],
-        this.signer
-      )
+      const contract = this.getContract()
 
       const unlockTx = await contract.unlockTimeCapsule(capsuleId)
       const receipt = await unlockTx.wait()
@@ -375,11 +415,7 @@ export class TimeCapsuleService {
 
   async getTimeCapsule(capsuleId: number): Promise<any> {
     try {
-      const contract = new ethers.Contract(
-        this.contractAddress,
-        ["function getTimeCapsule(uint256 id) view returns (tuple(string,uint256,uint256,uint256,address,string,string,bool,uint256,string,bool,bool))"],
-        this.signer
-      )
+      const contract = this.getContract()
 
       return await contract.getTimeCapsule(capsuleId)
     } catch (error) {
@@ -1,6 +1,14 @@
 import type { NextConfig } from "next";
+import path from "path";
 
 const nextConfig: NextConfig = {
+  experimental: {
+    // Allow importing modules shared with the Hardhat scripts from ../shared
+    externalDir: true,
+  },
+  turbopack: {
+    root: path.join(__dirname, ".."),
+  },
   eslint: {
     // This will allow the build to pass even with ESLint errors
     ignoreDuringBuilds: true,
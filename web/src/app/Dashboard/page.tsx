@@ -16,6 +16,7 @@ import Link from "next/link";
 import { TimeCapsuleService } from "@/lib/services/timecapsule";
 import { TimeCapsule } from "@/lib/types";
 import { useEffect } from "react";
+import { isAddress } from "viem";
 
 export function SidebarDemo() {
   const { address, isConnected } = useAccount();
@@ -126,6 +127,156 @@ export const LogoIcon = () => {
   );
 };
 
+// Creator controls for a capsule that is still locked: cancel, extend, change recipient or CID, tokenize claims
+const CapsuleManagePanel = ({
+  capsule,
+  service,
+  onUpdated,
+}: {
+  capsule: TimeCapsule;
+  service: TimeCapsuleService;
+  onUpdated: () => void;
+}) => {
+  const [unlockAt, setUnlockAt] = useState('');
+  const [previousRecipient, setPreviousRecipient] = useState(capsule.recipients[0]);
+  const [newRecipient, setNewRecipient] = useState('');
+  const [dataKey, setDataKey] = useState('');
+  const [ipfsCid, setIpfsCid] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const run = async (label: string, action: () => Promise<string>) => {
+    setStatus(`${label}...`);
+    try {
+      const txHash = await action();
+      setStatus(`${label} submitted: ${txHash.slice(0, 10)}...`);
+      onUpdated();
+    } catch (error) {
+      console.error(`${label} failed:`, error);
+      setStatus(`${label} failed: ${(error as Error).message}`);
+    }
+  };
+
+  const inputClass = "flex-1 px-3 py-1 bg-gray-900 border border-gray-600 rounded text-sm text-white";
+  const buttonClass = "bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm transition-colors";
+  // Block conditions are extended to a later block, timestamps to a later date
+  const byBlock = capsule.unlockBlock !== undefined;
+
+  return (
+    <div className="mt-4 border-t border-gray-700 pt-4 space-y-3 text-sm">
+      <div className="flex items-center space-x-2">
+        <input
+          type={byBlock ? 'number' : 'datetime-local'}
+          value={unlockAt}
+          onChange={(e) => setUnlockAt(e.target.value)}
+          placeholder={byBlock ? `Unlock block after ${capsule.unlockBlock}` : undefined}
+          className={inputClass}
+        />
+        <button
+          className={buttonClass}
+          disabled={!unlockAt}
+          onClick={() => run('Extend unlock time', () =>
+            service.extendUnlockTime(
+              capsule.id,
+              byBlock ? Number(unlockAt) : Math.floor(new Date(unlockAt).getTime() / 1000)
+            )
+          )}
+        >
+          Extend Unlock Time
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        {capsule.recipients.length > 1 && (
+          <select
+            value={previousRecipient}
+            onChange={(e) => setPreviousRecipient(e.target.value)}
+            className="px-3 py-1 bg-gray-900 border border-gray-600 rounded text-sm text-white"
+          >
+            {capsule.recipients.map(r => (
+              <option key={r} value={r}>{r.slice(0, 6)}...{r.slice(-4)}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={newRecipient}
+          onChange={(e) => setNewRecipient(e.target.value)}
+          placeholder="New recipient 0x..."
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={dataKey}
+          onChange={(e) => setDataKey(e.target.value)}
+          placeholder="Capsule data key (hex), unless the capsule stores a plain key"
+          className={inputClass}
+        />
+        <button
+          className={buttonClass}
+          disabled={!isAddress(newRecipient)}
+          onClick={() => run('Change recipient', () =>
+            service.updateRecipient(capsule.id, previousRecipient, newRecipient, dataKey || undefined)
+          )}
+        >
+          Change Recipient
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={ipfsCid}
+          onChange={(e) => setIpfsCid(e.target.value)}
+          placeholder="New IPFS CID (sealed with the same data key)"
+          className={inputClass}
+        />
+        <button
+          className={buttonClass}
+          disabled={!ipfsCid.trim()}
+          onClick={() => run('Change CID', () => service.updateCid(capsule.id, ipfsCid.trim()))}
+        >
+          Change CID
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button
+          className={buttonClass}
+          onClick={() => run('Mint claim tokens', () => service.tokenizeClaims(capsule.id))}
+        >
+          Mint Claim Tokens
+        </button>
+        <span className="text-gray-500">Recipients can then move their claim to another wallet</span>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button
+          className={buttonClass}
+          disabled={!dataKey}
+          onClick={() => run('Wrap key for claim holders', () => service.wrapKeyForClaimHolders(capsule.id, dataKey))}
+        >
+          Wrap Key for New Claim Holders
+        </button>
+        <span className="text-gray-500">Needed after a claim moves: enter the data key above</span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          className="bg-red-700 hover:bg-red-600 text-white px-3 py-1 rounded text-sm transition-colors"
+          onClick={() => {
+            if (window.confirm(`Cancel capsule #${capsule.id}? Any Blocklock fee it holds is refunded to you.`)) {
+              run('Cancel capsule', () => service.cancelTimeCapsule(capsule.id));
+            }
+          }}
+        >
+          Cancel Capsule
+        </button>
+        {status && <div className="text-gray-400">{status}</div>}
+      </div>
+    </div>
+  );
+};
+
 const DashboardContent = () => {
   const { address } = useAccount();
   const [capsules, setCapsules] = useState<TimeCapsule[]>([]);
@@ -138,7 +289,7 @@ const DashboardContent = () => {
   const stats = {
     total: capsules.length,
     created: capsules.filter(c => c.creator.toLowerCase() === address?.toLowerCase()).length,
-    received: capsules.filter(c => c.recipient.toLowerCase() === address?.toLowerCase()).length,
+    received: capsules.filter(c => c.recipients.some(r => r.toLowerCase() === address?.toLowerCase())).length,
     sealed: capsules.filter(c => !c.isUnlocked).length
   };
 
@@ -161,6 +312,88 @@ const DashboardContent = () => {
     }
   };
 
+  const [keyStatus, setKeyStatus] = useState<string | null>(null);
+  const [managedId, setManagedId] = useState<number | null>(null);
+
+  // Dead man's switches this wallet has to keep checking in on
+  const switches = capsules.filter(c =>
+    c.creator.toLowerCase() === address?.toLowerCase() && !!c.heartbeatInterval && !c.isCancelled
+  );
+
+  const transferClaim = async (capsule: TimeCapsule) => {
+    const to = window.prompt(`Send claim token #${capsule.claimTokenId} for capsule #${capsule.id} to:`);
+    if (!to) return;
+    if (!isAddress(to)) {
+      setError(`Not a wallet address: ${to}`);
+      return;
+    }
+    try {
+      await timeCapsuleService.transferClaimToken(capsule.claimTokenId!, to);
+      refreshCapsules();
+    } catch (error) {
+      console.error('Error transferring claim token:', error);
+      setError(`Failed to transfer claim token: ${(error as Error).message}`);
+    }
+  };
+
+  const reclaimFunds = async (capsuleId: number) => {
+    try {
+      await timeCapsuleService.reclaimEscrowedFunds(capsuleId);
+      refreshCapsules();
+    } catch (error) {
+      console.error('Error reclaiming escrowed funds:', error);
+      setError(`Failed to reclaim escrowed funds: ${(error as Error).message}`);
+    }
+  };
+
+  const sendHeartbeat = async (capsuleId: number) => {
+    try {
+      await timeCapsuleService.heartbeat(capsuleId);
+      refreshCapsules();
+    } catch (error) {
+      console.error('Error sending heartbeat:', error);
+      setError(`Failed to send heartbeat: ${(error as Error).message}`);
+    }
+  };
+
+  const formatTimeLeft = (seconds: number) => {
+    if (seconds <= 0) return 'fired';
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    return days > 0 ? `${days}d ${hours}h left` : `${hours}h ${Math.floor((seconds % 3600) / 60)}m left`;
+  };
+
+  // canUnlock comes from the contract (or the indexer), which knows the capsule's condition type
+  const isReady = (capsule: TimeCapsule) =>
+    capsule.canUnlock ?? Date.now() >= capsule.unlockTime * 1000;
+
+  const formatUnlock = (capsule: TimeCapsule) => {
+    const date = new Date(capsule.unlockTime * 1000).toLocaleString();
+    return capsule.unlockBlock !== undefined ? `block ${capsule.unlockBlock} (about ${date})` : date;
+  };
+
+  // The escrow decides whether the claim period is over; reclaiming too early reports how long recipients have
+  const mayReclaim = (capsule: TimeCapsule) =>
+    capsule.creator.toLowerCase() === address?.toLowerCase() &&
+    !capsule.isCancelled &&
+    Date.now() >= capsule.unlockTime * 1000;
+
+  const isManageable = (capsule: TimeCapsule) =>
+    capsule.creator.toLowerCase() === address?.toLowerCase() &&
+    !capsule.isCancelled &&
+    Date.now() < capsule.unlockTime * 1000;
+
+  const registerEncryptionKey = async () => {
+    setKeyStatus('Sign the message in your wallet...');
+    try {
+      const txHash = await timeCapsuleService.registerEncryptionKey();
+      setKeyStatus(`Encryption key registered: ${txHash.slice(0, 10)}...`);
+    } catch (error) {
+      console.error('Error registering encryption key:', error);
+      setKeyStatus(`Failed to register encryption key: ${(error as Error).message}`);
+    }
+  };
+
   // Load capsules when component mounts or address changes
   useEffect(() => {
     if (address) {
@@ -222,29 +455,80 @@ const DashboardContent = () => {
             </div>
           </div>
 
+          {/* Dead Man's Switch Reminders */}
+          {switches.length > 0 && (
+            <div className="bg-gray-900 border border-yellow-700 rounded-lg p-6 mb-6">
+              <h2 className="text-xl font-bold text-white mb-2">Dead Man&apos;s Switches</h2>
+              <p className="text-sm text-gray-400 mb-4">
+                Each switch unlocks for its recipient if you do not check in before its deadline.
+              </p>
+              <div className="space-y-2">
+                {switches.map(capsule => {
+                  const secondsLeft = capsule.unlockTime - Math.floor(Date.now() / 1000);
+                  const urgent = secondsLeft < capsule.heartbeatInterval! / 4;
+                  return (
+                    <div key={capsule.id} className="flex items-center justify-between bg-gray-800 rounded-lg px-4 py-2">
+                      <div className="text-sm">
+                        <span className="text-emerald-500 font-mono mr-2">#{capsule.id}</span>
+                        <span className="text-gray-300">{capsule.title}</span>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className={`text-sm ${secondsLeft <= 0 ? 'text-red-400' : urgent ? 'text-yellow-400' : 'text-gray-400'}`}>
+                          {formatTimeLeft(secondsLeft)}
+                        </span>
+                        {secondsLeft > 0 && (
+                          <button
+                            onClick={() => sendHeartbeat(capsule.id)}
+                            className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded text-sm transition-colors"
+                          >
+                            Check In
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Your Time Capsules Section */}
           <div className="bg-gray-900 border border-gray-700 rounded-lg p-6 mb-6">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-xl font-bold text-white">Your Time Capsules</h2>
-              <button
-                onClick={refreshCapsules}
-                disabled={loading}
-                className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-800 text-white px-4 py-2 rounded-lg transition-colors flex items-center"
-              >
-                {loading ? (
-                  <svg className="animate-spin w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                ) : (
-                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                )}
-                Refresh Capsules
-              </button>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={registerEncryptionKey}
+                  disabled={!address}
+                  title="Lets others create capsules with several recipients that include you"
+                  className="bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  Register Encryption Key
+                </button>
+                <button
+                  onClick={refreshCapsules}
+                  disabled={loading}
+                  className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-800 text-white px-4 py-2 rounded-lg transition-colors flex items-center"
+                >
+                  {loading ? (
+                    <svg className="animate-spin w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  ) : (
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                  )}
+                  Refresh Capsules
+                </button>
+              </div>
             </div>
 
+            {keyStatus && (
+              <div className="text-sm text-gray-400 mb-4">{keyStatus}</div>
+            )}
+
             <div className="border border-gray-600 rounded-lg p-4 mb-4">
               <div className="text-gray-300 text-sm mb-2">
                 Loading capsules for: <span className="font-mono text-emerald-500">{address ? `${address.slice(0, 10)}...${address.slice(-8)}` : 'Not connected'}</span>
@@ -309,15 +593,19 @@ const DashboardContent = () => {
                       <div className="flex items-center space-x-2">
                         <span className="text-emerald-500 font-mono text-sm">#{capsule.id}</span>
                         <span className={`px-2 py-1 rounded text-xs ${
-                          capsule.isUnlocked 
+                          capsule.isCancelled
+                            ? 'bg-red-900 text-red-300'
+                            : capsule.isUnlocked 
                             ? 'bg-green-900 text-green-300' 
-                            : new Date() >= new Date(capsule.unlockTime)
+                            : isReady(capsule)
                             ? 'bg-yellow-900 text-yellow-300'
                             : 'bg-blue-900 text-blue-300'
                         }`}>
-                          {capsule.isUnlocked 
+                          {capsule.isCancelled
+                            ? 'Cancelled'
+                            : capsule.isUnlocked 
                             ? 'Unlocked' 
-                            : new Date() >= new Date(capsule.unlockTime)
+                            : isReady(capsule)
                             ? 'Ready to Unlock'
                             : 'Sealed'
                           }
@@ -329,9 +617,14 @@ const DashboardContent = () => {
                         }`}>
                           {capsule.creator.toLowerCase() === address?.toLowerCase() ? 'Created' : 'Received'}
                         </span>
+                        {capsule.claimTokenId !== undefined && (
+                          <span className="px-2 py-1 rounded text-xs bg-emerald-900 text-emerald-300">
+                            Claim token #{capsule.claimTokenId}
+                          </span>
+                        )}
                       </div>
                       <div className="text-gray-400 text-xs">
-                        {new Date(capsule.unlockTime).toLocaleDateString()}
+                        {new Date(capsule.unlockTime * 1000).toLocaleDateString()}
                       </div>
                     </div>
                     
@@ -345,22 +638,26 @@ const DashboardContent = () => {
                     <div className="text-sm text-gray-300 mb-2">
                       <strong>To:</strong> 
                       <span className="font-mono ml-1 text-blue-400">
-                        {capsule.recipient.slice(0, 6)}...{capsule.recipient.slice(-4)}
+                        {capsule.recipients.map(r => `${r.slice(0, 6)}...${r.slice(-4)}`).join(', ')}
                       </span>
                     </div>
 
                     {capsule.contentHash && (
                       <div className="text-xs text-gray-500 mt-2">
-                        <strong>IPFS Hash:</strong> 
+                        <strong>Content SHA-256:</strong> 
                         <span className="font-mono ml-1">{capsule.contentHash.slice(0, 20)}...</span>
                       </div>
                     )}
 
                     <div className="flex justify-between items-center mt-4">
                       <div className="text-xs text-gray-500">
-                        Unlock: {new Date(capsule.unlockTime).toLocaleString()}
+                        Unlock: {formatUnlock(capsule)}
+                        {!capsule.isCancelled && !capsule.isUnlocked && !isReady(capsule) &&
+                          capsule.unlockTime * 1000 > Date.now() && (
+                          <span> · {formatTimeLeft(capsule.unlockTime - Math.floor(Date.now() / 1000))}</span>
+                        )}
                       </div>
-                      {!capsule.isUnlocked && new Date() >= new Date(capsule.unlockTime) && (
+                      {!capsule.isCancelled && !(capsule.hasUnlocked ?? capsule.isUnlocked) && isReady(capsule) && (
                         <Link
                           href={`/unlock?id=${capsule.id}`}
                           className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1 rounded text-sm transition-colors"
@@ -368,7 +665,35 @@ const DashboardContent = () => {
                           Unlock Now
                         </Link>
                       )}
+                      {capsule.claimTokenId !== undefined && !capsule.hasUnlocked && !capsule.isCancelled && (
+                        <button
+                          onClick={() => transferClaim(capsule)}
+                          className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm transition-colors"
+                        >
+                          Transfer Claim
+                        </button>
+                      )}
+                      {mayReclaim(capsule) && (
+                        <button
+                          onClick={() => reclaimFunds(capsule.id)}
+                          className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm transition-colors"
+                        >
+                          Reclaim Funds
+                        </button>
+                      )}
+                      {isManageable(capsule) && (
+                        <button
+                          onClick={() => setManagedId(managedId === capsule.id ? null : capsule.id)}
+                          className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm transition-colors"
+                        >
+                          {managedId === capsule.id ? 'Close' : 'Manage'}
+                        </button>
+                      )}
                     </div>
+
+                    {managedId === capsule.id && (
+                      <CapsuleManagePanel capsule={capsule} service={timeCapsuleService} onUpdated={refreshCapsules} />
+                    )}
                   </div>
                 ))}
               </div>
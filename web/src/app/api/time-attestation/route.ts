@@ -0,0 +1,49 @@
+// app/api/time-attestation/route.ts - Signed SNTP time attestation for the unlock flow
+// Browsers cannot speak UDP, so the server samples the NTP servers and signs the result
+import { NextResponse } from 'next/server';
+import { createPublicClient, http } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { sampleNtpServers } from '@shared/sntp';
+import {
+  buildTimeAttestation,
+  signTimeAttestation,
+  DEFAULT_ATTESTATION_POLICY,
+  DEFAULT_NTP_SERVERS,
+} from '@shared/timeAttestation';
+import { NETWORK_CONFIG } from '@/lib/config';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const client = createPublicClient({ transport: http(NETWORK_CONFIG.rpcUrl) });
+
+export async function GET() {
+  const privateKey = process.env.TIME_ATTESTOR_PRIVATE_KEY;
+  if (!privateKey) {
+    return NextResponse.json({ error: 'TIME_ATTESTOR_PRIVATE_KEY is not configured' }, { status: 503 });
+  }
+  const account = privateKeyToAccount(privateKey as `0x${string}`);
+  const servers = process.env.TIME_ATTESTATION_SERVERS?.split(',').map(server => server.trim()).filter(Boolean);
+
+  try {
+    const [samples, block] = await Promise.all([
+      sampleNtpServers(servers ?? DEFAULT_NTP_SERVERS),
+      client.getBlock({ blockTag: 'latest' }),
+    ]);
+    const chain = {
+      chainId: NETWORK_CONFIG.chainId,
+      blockNumber: Number(block.number),
+      blockHash: block.hash,
+      blockTimestamp: Number(block.timestamp),
+      observedAt: Date.now(),
+    };
+
+    const attestation = buildTimeAttestation(account.address, samples, chain, DEFAULT_ATTESTATION_POLICY);
+    const signed = await signTimeAttestation(attestation, hash =>
+      account.signMessage({ message: { raw: hash as `0x${string}` } })
+    );
+    return NextResponse.json(signed);
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 502 });
+  }
+}
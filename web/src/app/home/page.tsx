@@ -1,5 +1,5 @@
 "use client";
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { Sidebar, SidebarBody, SidebarLink } from "../ui/sidebar";
 import {
   IconArrowLeft,
@@ -14,6 +14,8 @@ import { useRouter } from "next/navigation";
 import { TimeCapsuleService } from "@/lib/services/timecapsule";
 import { CreateTimeCapsuleData } from "@/lib/types";
 import { useNetworkGuard } from "@/lib/hooks/useNetworkGuard";
+import { isAddress } from "viem";
+import { UploadCancelledError, type ChunkProgress } from "@shared/chunkedUpload";
 
 export function SidebarDemo() {
   const { address, isConnected } = useAccount();
@@ -137,6 +139,8 @@ const Dashboard = () => {
     type: 'success' | 'error' | null;
     message: string;
   }>({ type: null, message: '' });
+  const [uploadProgress, setUploadProgress] = useState<ChunkProgress | null>(null);
+  const uploadAbort = useRef<AbortController | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -168,6 +172,13 @@ const Dashboard = () => {
       return;
     }
 
+    const recipientAddresses = formData.recipientAddress.split(/[\s,]+/).filter(Boolean);
+    const invalid = recipientAddresses.filter(recipient => !isAddress(recipient));
+    if (recipientAddresses.length === 0 || invalid.length > 0) {
+      setCreationStatus({ type: 'error', message: `Invalid recipient address: ${invalid.join(', ') || formData.recipientAddress}` });
+      return;
+    }
+
     setIsCreating(true);
     setCreationStatus({ type: null, message: '' });
 
@@ -191,9 +202,11 @@ const Dashboard = () => {
       const createData: CreateTimeCapsuleData = {
         title: `Time Capsule - ${new Date().toLocaleDateString()}`,
         message: formData.message || 'A message from the past...',
-        recipientAddress: formData.recipientAddress,
+        recipientAddresses,
         unlockTime: unlockTimestamp,
-        file: formData.file || undefined
+        file: formData.file || undefined,
+        onProgress: setUploadProgress,
+        signal: (uploadAbort.current = new AbortController()).signal
       };
 
       console.log('Creating time capsule...', createData);
@@ -218,10 +231,14 @@ const Dashboard = () => {
       console.error('Error creating time capsule:', error);
       setCreationStatus({
         type: 'error',
-        message: `Failed to create time capsule: ${error.message || 'Unknown error'}`
+        message: error instanceof UploadCancelledError
+          ? `${error.message}. Create the capsule again with the same file to resume the upload.`
+          : `Failed to create time capsule: ${error.message || 'Unknown error'}`
       });
     } finally {
       setIsCreating(false);
+      setUploadProgress(null);
+      uploadAbort.current = null;
     }
   };
 
@@ -333,18 +350,18 @@ const Dashboard = () => {
                   <svg className="w-4 h-4 mr-1" viewBox="0 0 24 24" fill="currentColor">
                     <path d="M12 2C13.1 2 14 2.9 14 4C14 5.1 13.1 6 12 6C10.9 6 10 5.1 10 4C10 2.9 10.9 2 12 2ZM21 9V7L15 1H5C3.89 1 3 1.89 3 3V19A2 2 0 0 0 5 21H19A2 2 0 0 0 21 19V9M19 19H5V3H14V9H19Z" />
                   </svg>
-                  Recipient Address *
+                  Recipient Addresses *
                 </label>
-                <input
-                  type="text"
+                <textarea
                   name="recipientAddress"
                   value={formData.recipientAddress}
                   onChange={handleInputChange}
-                  placeholder="0x5678...efgh (recipient wallet address)"
+                  rows={2}
+                  placeholder="0x5678...efgh (one or more wallet addresses, separated by commas or new lines)"
                   className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500"
                 />
                 <p className="text-sm text-gray-500 mt-1">
-                  This person will be able to unlock the capsule after the unlock time
+                  Each recipient can unlock the capsule after the unlock time. Each must have registered an encryption key on the dashboard, since the capsule key is only stored wrapped to it
                 </p>
               </div>
 
@@ -423,6 +440,30 @@ const Dashboard = () => {
                 </div>
               )}
 
+              {/* Upload Progress */}
+              {isCreating && uploadProgress && uploadProgress.chunks > 1 && (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300">
+                    <span>Encrypting and uploading: chunk {uploadProgress.chunk} of {uploadProgress.chunks}</span>
+                    <span>{Math.floor(uploadProgress.bytes / uploadProgress.totalBytes * 100)}%</span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-emerald-500 transition-all"
+                      style={{ width: `${uploadProgress.bytes / uploadProgress.totalBytes * 100}%` }}
+                    />
+                  </div>
+                  {uploadProgress.chunk < uploadProgress.chunks && (
+                    <button
+                      onClick={() => uploadAbort.current?.abort()}
+                      className="text-sm text-red-600 hover:text-red-700 underline"
+                    >
+                      Cancel upload
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Create Button */}
               <button
                 onClick={handleCreateCapsule}
@@ -1,10 +1,12 @@
 "use client";
 
+import { useEffect } from 'react';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import { WagmiProvider } from 'wagmi';
 import { QueryClientProvider, QueryClient } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
 import { config } from '@/lib/wagmi';
+import { ContractService } from '@/lib/services/contract';
 import { NetworkEnforcer } from './NetworkEnforcer';
 
 const queryClient = new QueryClient({
@@ -16,6 +18,13 @@ const queryClient = new QueryClient({
 });
 
 export function Web3Provider({ children }: { children: React.ReactNode }) {
+  // Catch a stale deployment manifest at startup instead of on the first failed call
+  useEffect(() => {
+    new ContractService().verifyDeployment().catch((error) => {
+      console.error('TimeCapsule contract check failed:', error);
+    });
+  }, []);
+
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import type { FC } from "react";
 import { useAccount, useDisconnect } from "wagmi";
 import { useRouter } from "next/navigation";
@@ -14,7 +14,10 @@ import {
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { TimeCapsuleService } from "@/lib/services/timecapsule";
-import { LighthouseService } from "@/lib/services/lighthouse";
+import { LighthouseService, ContentDescription } from "@/lib/services/lighthouse";
+import type { GuardianState } from "@shared/guardians";
+import { ContentIntegrityError } from "@shared/envelope";
+import { RELAYER_CONFIG } from "@/lib/config";
 // ...existing code...
 
 export function SidebarDemo() {
@@ -137,19 +140,37 @@ const UnlockContent = () => {
     type: 'success' | 'error' | null;
     message: string;
     content?: string;
-  fileMetadata?: Record<string, unknown>;
+  fileMetadata?: ContentDescription;
+  decryptedFile?: { blob: Blob; fileName: string; mimeType: string };
   capsule?: Record<string, unknown>;
   }>({ type: null, message: '' });
   
   const [zkTLSLogs, setZkTLSLogs] = useState<string[]>([]);
   const [showLogs, setShowLogs] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  // Sign the unlock and let the unlock relayer pay the gas
+  const [gasless, setGasless] = useState(false);
   
   // Self Protocol Verification States
   const [showVerification, setShowVerification] = useState(false);
   const [isVerified, setIsVerified] = useState(false);
   const [verificationError, setVerificationError] = useState<string | null>(null);
 
+  // Guardians of the entered capsule and their votes
+  const [guardianState, setGuardianState] = useState<GuardianState | undefined>();
+
+  useEffect(() => {
+    const capsuleId = parseInt(formData.capsuleId);
+    setGuardianState(undefined);
+    if (isNaN(capsuleId) || capsuleId <= 0) return;
+
+    let cancelled = false;
+    new TimeCapsuleService().getGuardianState(capsuleId)
+      .then(state => { if (!cancelled) setGuardianState(state); })
+      .catch(() => { /* unknown capsule; the unlock reports it */ });
+    return () => { cancelled = true; };
+  }, [formData.capsuleId]);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -203,29 +224,30 @@ const UnlockContent = () => {
       
       console.log(`🚀 Attempting to unlock capsule ${capsuleId} with zkTLS verification...`);
       
-      const result = await timeCapsuleService.unlockTimeCapsule(capsuleId);
+      const result = await timeCapsuleService.unlockTimeCapsule(capsuleId, { gasless });
 
       // Restore original console.log
       console.log = originalConsoleLog;
 
       setUnlockResult({
         type: 'success',
-        message: `🎉 Time capsule unlocked successfully! ${result.txHash ? `Transaction: ${result.txHash}` : ''}`,
+        message: `🎉 Time capsule unlocked successfully! ${result.txHash ? `Transaction: ${result.txHash}` : ''}` +
+          (result.escrowTxHash ? ` Escrowed funds claimed: ${result.escrowTxHash}` : ''),
         content: result.content,
         fileMetadata: result.fileMetadata,
+        decryptedFile: result.decryptedFile,
         capsule: result.capsule
       });
 
-      // Auto-download binary files (PDF, images, etc.)
-      if (result.fileMetadata && !result.fileMetadata.isViewable) {
+      // Auto-download binary files (PDF, images, etc.) - the IPFS copy is ciphertext,
+      // so the file is saved from the blob decrypted in the browser
+      const decryptedFile = result.decryptedFile;
+      if (decryptedFile && !decryptedFile.mimeType.startsWith('text/')) {
         console.log('🚀 Auto-downloading binary file for user...');
         setTimeout(async () => {
           try {
             const lighthouseService = new LighthouseService();
-            await lighthouseService.downloadFileForUser(
-              result.capsule.ipfsCid,
-              `timecapsule-${result.capsule.title || 'file'}`
-            );
+            lighthouseService.saveBlobForUser(decryptedFile.blob, decryptedFile.fileName);
             console.log('✅ Auto-download completed successfully');
           } catch (downloadError) {
             console.error('❌ Auto-download failed:', downloadError);
@@ -246,7 +268,9 @@ const UnlockContent = () => {
       }
       setUnlockResult({
         type: 'error',
-        message: `Failed to unlock time capsule: ${errorMessage}`
+        message: error instanceof ContentIntegrityError
+          ? `Content rejected, do not trust this download: ${errorMessage}`
+          : `Failed to unlock time capsule: ${errorMessage}`
       });
     } finally {
       setIsUnlocking(false);
@@ -254,15 +278,12 @@ const UnlockContent = () => {
   };
 
   const handleDownloadFile = async () => {
-    if (!unlockResult.capsule?.ipfsCid) return;
+    if (!unlockResult.decryptedFile) return;
     
     setIsDownloading(true);
     try {
       const lighthouseService = new LighthouseService();
-      await lighthouseService.downloadFileForUser(
-        unlockResult.capsule.ipfsCid,
-        `timecapsule-${unlockResult.capsule.title || 'file'}`
-      );
+      lighthouseService.saveBlobForUser(unlockResult.decryptedFile.blob, unlockResult.decryptedFile.fileName);
       
       console.log('✅ File download initiated successfully');
     } catch (error) {
@@ -349,6 +370,38 @@ const UnlockContent = () => {
                   </p>
                 </div>
 
+                {/* Guardian approvals */}
+                {guardianState && (
+                  <div className={`rounded-lg p-4 border ${
+                    guardianState.approval === 'vetoed'
+                      ? 'bg-red-900/20 border-red-500/50'
+                      : guardianState.approval === 'approved'
+                        ? 'bg-green-900/20 border-green-500/50'
+                        : 'bg-gray-800 border-gray-600'
+                  }`}>
+                    <h3 className="text-white font-semibold text-sm mb-1">
+                      🛡️ Guardians: {guardianState.guardians.filter(guardian => guardian.vote === 'approve').length} of {guardianState.threshold} approvals needed
+                    </h3>
+                    <p className="text-gray-400 text-xs mb-3">
+                      {guardianState.approval === 'approved' && 'Approved: the capsule can be unlocked now.'}
+                      {guardianState.approval === 'vetoed' && 'Vetoed: the guardians have blocked this capsule from being unlocked.'}
+                      {guardianState.approval === 'pending' && `${guardianState.threshold} approvals open the capsule before its unlock time. ${guardianState.threshold} vetoes block it.`}
+                    </p>
+                    <ul className="space-y-1">
+                      {guardianState.guardians.map(guardian => (
+                        <li key={guardian.address} className="flex items-center justify-between text-xs font-mono">
+                          <span className="text-gray-300">{guardian.address}</span>
+                          <span className={
+                            guardian.vote === 'approve' ? 'text-green-400' : guardian.vote === 'veto' ? 'text-red-400' : 'text-gray-500'
+                          }>
+                            {guardian.vote === 'approve' ? '✅ Approved' : guardian.vote === 'veto' ? '⛔ Vetoed' : '⏳ No vote'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Your Address */}
                 <div>
                   <label className="block text-sm font-medium text-white mb-2">
@@ -425,7 +478,7 @@ const UnlockContent = () => {
                               <div>Viewable: <span className="text-emerald-400">{unlockResult.fileMetadata.isViewable ? 'Yes' : 'No'}</span></div>
                             </div>
                             
-                            {!unlockResult.fileMetadata.isViewable && (
+                            {unlockResult.decryptedFile && unlockResult.fileMetadata.fileType !== 'Text' && (
                               <button
                                 onClick={handleDownloadFile}
                                 disabled={isDownloading}
@@ -533,6 +586,24 @@ const UnlockContent = () => {
                   </div>
                 )}
 
+                {/* Gasless unlock through the relayer */}
+                {RELAYER_CONFIG.url && (
+                  <label className="flex items-start gap-3 p-4 bg-gray-800 border border-gray-600 rounded-lg cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={gasless}
+                      onChange={e => setGasless(e.target.checked)}
+                      className="mt-1 h-4 w-4 accent-emerald-500"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-white">Unlock without gas</span>
+                      <span className="block text-xs text-gray-400">
+                        Sign the unlock in your wallet and a relayer sends the transaction. Capsules that need a receiver proof still unlock from your wallet.
+                      </span>
+                    </span>
+                  </label>
+                )}
+
                 {/* Unlock Button */}
                 <button
                   onClick={handleUnlock}
@@ -1,81 +1,77 @@
 // lib/config.ts - Configuration constants
-export const CONTRACT_CONFIG = {
-  address: "0xf939f81b62a57157C6fA441bEb64B2E684382991",
-  // Basic ABI for the TimeCapsuleBlocklockSimple contract
-  abi: [
-    {
-      "inputs": [
-        {"internalType": "string", "name": "_ipfsCid", "type": "string"},
-        {"internalType": "string", "name": "_encryptionKey", "type": "string"},
-        {"internalType": "uint256", "name": "_unlockTime", "type": "uint256"},
-        {"internalType": "string", "name": "_recipientEmail", "type": "string"},
-        {"internalType": "string", "name": "_title", "type": "string"},
-        {"internalType": "uint256", "name": "_fileSize", "type": "uint256"},
-        {"internalType": "string", "name": "_fileType", "type": "string"}
-      ],
-      "name": "createSimpleTimeCapsule",
-      "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-      "stateMutability": "nonpayable",
-      "type": "function"
-    },
-    {
-      "inputs": [{"internalType": "uint256", "name": "_capsuleId", "type": "uint256"}],
-      "name": "getTimeCapsule",
-      "outputs": [
-        {"internalType": "string", "name": "", "type": "string"},
-        {"internalType": "uint256", "name": "", "type": "uint256"},
-        {"internalType": "uint256", "name": "", "type": "uint256"},
-        {"internalType": "address", "name": "", "type": "address"},
-        {"internalType": "address", "name": "", "type": "address"},
-        {"internalType": "uint256", "name": "", "type": "uint256"},
-        {"internalType": "string", "name": "", "type": "string"},
-        {"internalType": "bool", "name": "", "type": "bool"},
-        {"internalType": "bytes32", "name": "", "type": "bytes32"},
-        {"internalType": "uint256", "name": "", "type": "uint256"},
-        {"internalType": "bytes32", "name": "", "type": "bytes32"},
-        {"internalType": "bool", "name": "", "type": "bool"}
-      ],
-      "stateMutability": "view",
-      "type": "function"
-    },
-    {
-      "inputs": [{"internalType": "uint256", "name": "_capsuleId", "type": "uint256"}],
-      "name": "canUnlock",
-      "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
-      "stateMutability": "view",
-      "type": "function"
-    },
-    {
-      "inputs": [{"internalType": "uint256", "name": "_capsuleId", "type": "uint256"}],
-      "name": "unlockTimeCapsule",
-      "outputs": [],
-      "stateMutability": "nonpayable",
-      "type": "function"
-    },
-    {
-      "inputs": [],
-      "name": "nextCapsuleId",
-      "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-      "stateMutability": "view",
-      "type": "function"
-    },
-    {
-      "inputs": [{"internalType": "uint256", "name": "_capsuleId", "type": "uint256"}],
-      "name": "getTimeUntilUnlock",
-      "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-      "stateMutability": "view",
-      "type": "function"
-    }
-  ]
+import { CONTRACT_ABIS, getDeployment, requireDeployment } from "@shared/deployments";
+import { FILECOIN_BLOCK_TIME } from "@shared/conditions";
+import { DEFAULT_GATEWAYS } from "@shared/retrieval";
+
+export const NETWORK_CONFIG = {
+  name: "Filecoin Calibration",
+  chainId: 314159,
+  rpcUrl: "https://api.calibration.node.glif.io/rpc/v1",
+  blockTime: FILECOIN_BLOCK_TIME // Seconds per block, for estimating when block conditions are met
 };
 
+// Address and ABI come from the shared deployment manifest (npm run deployments:manifest)
+export const CONTRACT_CONFIG = {
+  name: "TimeCapsuleBlocklockSimple",
+  address: requireDeployment(NETWORK_CONFIG.chainId, "TimeCapsuleBlocklockSimple").address as `0x${string}`,
+  abi: CONTRACT_ABIS.TimeCapsuleBlocklockSimple,
+} as const;
+
+// Funds attached to capsules; the address is undefined where CapsuleEscrow is not deployed
+export const ESCROW_CONFIG = {
+  address: getDeployment(NETWORK_CONFIG.chainId, "CapsuleEscrow")?.address as `0x${string}` | undefined,
+  abi: CONTRACT_ABIS.CapsuleEscrow,
+} as const;
+
+// ERC-721 claim tokens; the address is undefined where CapsuleClaims is not deployed
+export const CLAIMS_CONFIG = {
+  address: getDeployment(NETWORK_CONFIG.chainId, "CapsuleClaims")?.address as `0x${string}` | undefined,
+  abi: CONTRACT_ABIS.CapsuleClaims,
+} as const;
+
+// Batched capsule reads; the address is undefined where CapsuleReader is not deployed
+export const READER_CONFIG = {
+  address: getDeployment(NETWORK_CONFIG.chainId, "CapsuleReader")?.address as `0x${string}` | undefined,
+  abi: CONTRACT_ABIS.CapsuleReader,
+} as const;
+
 export const LIGHTHOUSE_CONFIG = {
   apiKey: process.env.NEXT_PUBLIC_LIGHTHOUSE_API_KEY || "",
   gateway: "https://gateway.lighthouse.storage/ipfs/"
 };
 
-export const NETWORK_CONFIG = {
-  name: "Filecoin Calibration",
-  chainId: 314159,
-  rpcUrl: "https://api.calibration.node.glif.io/rpc/v1"
-};
\ No newline at end of file
+// Capsule content storage: "lighthouse" (default) or "kubo" for a local IPFS node, which must
+// allow this origin (API.HTTPHeaders.Access-Control-Allow-Origin in the Kubo config).
+// Downloads race the comma-separated gateways in NEXT_PUBLIC_IPFS_GATEWAYS
+export const STORAGE_CONFIG = {
+  backend: process.env.NEXT_PUBLIC_STORAGE_BACKEND || "lighthouse",
+  kuboApiUrl: process.env.NEXT_PUBLIC_KUBO_API_URL || "http://127.0.0.1:5001",
+  kuboGateway: process.env.NEXT_PUBLIC_KUBO_GATEWAY || "http://127.0.0.1:8080/ipfs/",
+  gateways: process.env.NEXT_PUBLIC_IPFS_GATEWAYS
+    ? process.env.NEXT_PUBLIC_IPFS_GATEWAYS.split(",").map(gateway => gateway.trim()).filter(Boolean)
+    : DEFAULT_GATEWAYS
+};
+
+// Capsule event indexer (npm run indexer in the repo root); unset to scan the contract instead
+export const INDEXER_CONFIG = {
+  url: process.env.NEXT_PUBLIC_CAPSULE_INDEXER_URL || ""
+};
+
+// Unlock relayer (npm run relayer in the repo root); unset to hide gasless unlocks
+export const RELAYER_CONFIG = {
+  url: process.env.NEXT_PUBLIC_UNLOCK_RELAYER_URL || ""
+};
+
+// Signed NTP/block time attestations from /api/time-attestation. The route signs with
+// TIME_ATTESTOR_PRIVATE_KEY; the client only accepts this address when it is set
+export const TIME_ATTESTATION_CONFIG = {
+  endpoint: "/api/time-attestation",
+  trustedAttestor: process.env.NEXT_PUBLIC_TIME_ATTESTOR_ADDRESS || ""
+};
+
+// Proof backend for time and receiver proofs: "groth16" proves in the browser with the
+// circuit artifacts copied to public/circuits (npm run circuits:copy), "mock" skips proving
+export const PROOF_CONFIG = {
+  backend: process.env.NEXT_PUBLIC_PROOF_BACKEND || "groth16",
+  artifactsUrl: "/circuits"
+};
@@ -1,76 +1,172 @@
 // lib/services/contract.ts - Smart contract service
-import { writeContract, readContract, getAccount } from '@wagmi/core';
+import { writeContract, readContract, readContracts, getAccount, getBlock, getBytecode, signTypedData } from '@wagmi/core';
+import { hexToString, type Abi } from 'viem';
+import { CONTRACT_ABIS, assertDeployedCode } from '@shared/deployments';
+import { GUARDIAN_APPROVALS, toGuardianState, type GuardianState } from '@shared/guardians';
+import type { ProofGate, SolidityProof } from '@shared/proofs';
+import { CapsuleIndexClient, type IndexedCapsule } from '@shared/capsuleIndex';
+import { DEFAULT_UNLOCK_REQUEST_TTL, UNLOCK_REQUEST_TYPES, UnlockRelayClient, unlockRequestDomain } from '@shared/unlockRelay';
+import { NO_CONTENT_HASH, type ContentHashes } from '@shared/envelope';
+import { estimateUnlockTimestamp, isBlockCondition, toConditionType, type ChainHead, type ConditionType } from '@shared/conditions';
 import { config } from '../wagmi';
-import { CONTRACT_CONFIG } from '../config';
-import { TimeCapsule } from '../types';
+import { CLAIMS_CONFIG, CONTRACT_CONFIG, ESCROW_CONFIG, INDEXER_CONFIG, NETWORK_CONFIG, READER_CONFIG, RELAYER_CONFIG } from '../config';
+import { EscrowedFunds, TimeCapsule } from '../types';
 
 export class ContractService {
   private contractAddress: `0x${string}`;
-  private contractAbi: any[];
+  private contractAbi: Abi;
 
   constructor() {
-    this.contractAddress = CONTRACT_CONFIG.address as `0x${string}`;
+    this.contractAddress = CONTRACT_CONFIG.address;
     this.contractAbi = CONTRACT_CONFIG.abi;
   }
 
+  /**
+   * Check that the configured contract is deployed and implements the manifest ABI.
+   * Throws AbiDriftError when the deployment is older than the ABI the app was built with.
+   */
+  async verifyDeployment(): Promise<void> {
+    const code = await getBytecode(config, { address: this.contractAddress });
+    assertDeployedCode(CONTRACT_CONFIG.name, this.contractAddress, code);
+  }
+
+  /**
+   * Create a capsule for one or more recipients, each holding its own wrapped copy of the data key.
+   * The content hashes are recorded in the same transaction, so no capsule exists without them
+   */
   async createTimeCapsule(
     ipfsCid: string,
-    recipientAddress: string,
+    recipients: string[],
+    wrappedKeys: string[],
     unlockTime: number,
     title: string,
-    useBlocklock: boolean = false,
-    fileSize: number = 1024,
-    fileType: string = "text/plain"
+    fileSize: number,
+    fileType: string,
+    contentHashes: ContentHashes
   ): Promise<string> {
     const account = getAccount(config);
     if (!account.address) throw new Error('No wallet connected');
 
-    console.log('Creating simple time capsule on blockchain...');
+    console.log(`Creating time capsule for ${recipients.length} recipient(s)...`);
     console.log(`IPFS CID: ${ipfsCid}`);
-    console.log(`Recipient: ${recipientAddress}`);
     console.log(`Unlock Time: ${new Date(unlockTime * 1000).toISOString()}`);
 
     return await writeContract(config, {
       address: this.contractAddress,
       abi: this.contractAbi,
-      functionName: 'createSimpleTimeCapsule',
+      functionName: 'createSimpleTimeCapsuleForRecipients',
       args: [
-        ipfsCid,                          // _ipfsCid
-        "simple-encryption-key",          // _encryptionKey (placeholder)
-        BigInt(unlockTime),               // _unlockTime
-        recipientAddress,                 // _recipientEmail (using address as identifier)
-        title,                           // _title
-        BigInt(fileSize),                // _fileSize (actual file size)
-        fileType                         // _fileType (actual MIME type)
+        ipfsCid,
+        BigInt(unlockTime),
+        recipients,
+        wrappedKeys,
+        title,
+        BigInt(fileSize),
+        fileType,
+        contentHashes,
       ],
     });
   }
 
   async getTimeCapsule(capsuleId: number): Promise<TimeCapsule> {
-    const result = (await readContract(config, {
-      address: this.contractAddress,
-      abi: this.contractAbi,
-      functionName: 'getTimeCapsule',
-      args: [BigInt(capsuleId)],
-    })) as any[];
-
-    const canUnlock = await this.canUnlock(capsuleId);
-    const timeUntilUnlock = await this.getTimeUntilUnlock(capsuleId);
-
-    return {
-      id: capsuleId,
-      ipfsCid: result[0] as string,
-      contentHash: result[0] as string,
-      creator: result[3] as string,
-      recipient: result[4] as string,
-      title: result[6] as string,
-      unlockTime: Number(result[5]),
-      isUnlocked: result[7] as boolean,
-      usesBlocklock: result[11] as boolean,
-      createdAt: Number(result[2]),
+    if (READER_CONFIG.address) {
+      const [capsule] = await this.getTimeCapsules([capsuleId]);
+      return capsule;
+    }
+
+    // Without CapsuleReader, batch the capsule's reads into one multicall
+    const id = BigInt(capsuleId);
+    const contract = { address: this.contractAddress, abi: this.contractAbi };
+    const [result, canUnlock, timeUntilUnlock, recipients, isCancelled, heartbeatInterval, [envelopeHash, plaintextHash]] = (await readContracts(config, {
+      allowFailure: false,
+      contracts: [
+        { ...contract, functionName: 'getTimeCapsule', args: [id] },
+        { ...contract, functionName: 'canUnlock', args: [id] },
+        { ...contract, functionName: 'getTimeUntilUnlock', args: [id] },
+        { ...contract, functionName: 'getRecipients', args: [id] },
+        { ...contract, functionName: 'isCancelled', args: [id] },
+        { ...contract, functionName: 'heartbeatIntervals', args: [id] },
+        { ...contract, functionName: 'contentHashes', args: [id] },
+      ],
+    })) as [TimeCapsuleResult, boolean, bigint, readonly string[], boolean, bigint, readonly [string, string]];
+
+    return (await this.toTimeCapsules([{
+      id,
+      ipfsCid: result[0],
+      unlockTime: result[2],
+      conditionType: result[14],
+      creationTime: result[3],
+      creator: result[4],
+      recipient: result[12],
+      recipients,
+      title: result[6],
+      isUnlocked: result[7],
+      isCancelled,
+      useBlocklock: result[11],
+      guardianApproval: result[13],
+      heartbeatInterval,
+      envelopeHash,
+      plaintextHash,
+      timeUntilUnlock,
       canUnlock,
-      timeUntilUnlock: Number(timeUntilUnlock),
-    };
+    }]))[0];
+  }
+
+  /**
+   * Read several capsules in one CapsuleReader call; reverts if any does not exist
+   */
+  async getTimeCapsules(capsuleIds: number[]): Promise<TimeCapsule[]> {
+    if (!READER_CONFIG.address) throw new Error('CapsuleReader is not deployed on this network');
+
+    const views = (await readContract(config, {
+      address: READER_CONFIG.address,
+      abi: READER_CONFIG.abi,
+      functionName: 'getTimeCapsules',
+      args: [this.contractAddress, capsuleIds.map(id => BigInt(id))],
+    })) as readonly CapsuleView[];
+    return this.toTimeCapsules(views);
+  }
+
+  // Adds the connected wallet's unlock state, read for every capsule in one multicall
+  private async toTimeCapsules(views: readonly CapsuleView[]): Promise<TimeCapsule[]> {
+    const account = getAccount(config).address;
+    const head = views.some(view => isBlockCondition(toConditionType(view.conditionType))) ? await getBlock(config) : undefined;
+    const hasUnlocked = account
+      ? ((await readContracts(config, {
+          allowFailure: false,
+          contracts: views.map(view => ({
+            address: this.contractAddress,
+            abi: this.contractAbi,
+            functionName: 'hasUnlocked',
+            // Delegates unlock the first recipient's copy
+            args: [view.id, includesAddress(view.recipients, account) ? account : view.recipient],
+          })),
+        })) as boolean[])
+      : [];
+
+    return views.map((view, i) => {
+      const conditionType = toConditionType(view.conditionType);
+      return {
+        id: Number(view.id),
+        ipfsCid: view.ipfsCid,
+        ...(view.envelopeHash !== NO_CONTENT_HASH && { contentHash: view.envelopeHash, plaintextHash: view.plaintextHash }),
+        creator: view.creator,
+        recipient: view.recipient,
+        recipients: [...view.recipients],
+        hasUnlocked: account ? hasUnlocked[i] : undefined,
+        title: view.title,
+        ...unlockFields(Number(view.unlockTime), conditionType, head),
+        isUnlocked: view.isUnlocked,
+        isCancelled: view.isCancelled,
+        heartbeatInterval: Number(view.heartbeatInterval),
+        guardianApproval: GUARDIAN_APPROVALS[Number(view.guardianApproval)],
+        usesBlocklock: view.useBlocklock,
+        createdAt: Number(view.creationTime),
+        canUnlock: view.canUnlock,
+        // getTimeUntilUnlock counts blocks for block conditions
+        timeUntilUnlock: Number(view.timeUntilUnlock) * (isBlockCondition(conditionType) ? NETWORK_CONFIG.blockTime : 1),
+      };
+    });
   }
 
   async canUnlock(capsuleId: number): Promise<boolean> {
@@ -93,6 +189,112 @@ export class ContractService {
     return Array.isArray(result) ? BigInt(result[0] || 0) : BigInt(result || 0);
   }
 
+  async getDecryptionKey(capsuleId: number): Promise<string> {
+    const account = getAccount(config);
+    if (!account.address) throw new Error('No wallet connected');
+
+    // The contract only releases the key to recipients and approved delegates
+    const result = await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'getDecryptionKey',
+      args: [BigInt(capsuleId)],
+      account: account.address,
+    });
+    return hexToString(result as `0x${string}`);
+  }
+
+  /**
+   * The connected wallet's wrapped copy of the data key, or undefined for capsules without wrapped keys
+   */
+  async getWrappedKey(capsuleId: number): Promise<string | undefined> {
+    const account = getAccount(config);
+    if (!account.address) throw new Error('No wallet connected');
+
+    const result = (await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'getWrappedKey',
+      args: [BigInt(capsuleId)],
+      account: account.address,
+    })) as `0x${string}`;
+    return result === '0x' ? undefined : result;
+  }
+
+  async hasWrappedKey(capsuleId: number, recipient: string): Promise<boolean> {
+    return (await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'hasWrappedKey',
+      args: [BigInt(capsuleId), recipient],
+    })) as boolean;
+  }
+
+  async getRecipients(capsuleId: number): Promise<string[]> {
+    const result = await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'getRecipients',
+      args: [BigInt(capsuleId)],
+    });
+    return [...(result as readonly string[])];
+  }
+
+  /**
+   * Whether a recipient has unlocked its copy; delegates unlock the first recipient's
+   */
+  async hasUnlocked(capsuleId: number, account: string): Promise<boolean> {
+    const isRecipient = await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'isCapsuleRecipient',
+      args: [BigInt(capsuleId), account],
+    });
+    const unlocking = isRecipient ? account : (await this.getRecipients(capsuleId))[0];
+    const result = await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'hasUnlocked',
+      args: [BigInt(capsuleId), unlocking],
+    });
+    return Boolean(result);
+  }
+
+  /**
+   * Registered encryption public key of an account, or undefined if it has none
+   */
+  async getEncryptionKey(account: string): Promise<string | undefined> {
+    const result = (await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'encryptionKeys',
+      args: [account],
+    })) as `0x${string}`;
+    return result === '0x' ? undefined : result;
+  }
+
+  async registerEncryptionKey(publicKey: string): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'registerEncryptionKey',
+      args: [publicKey],
+    });
+  }
+
+  async isAuthorizedUnlocker(capsuleId: number, account?: string): Promise<boolean> {
+    const unlocker = account || getAccount(config).address;
+    if (!unlocker) throw new Error('No wallet connected');
+
+    const result = await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'isAuthorizedUnlocker',
+      args: [BigInt(capsuleId), unlocker],
+    });
+    return Boolean(result);
+  }
+
   async unlockTimeCapsule(capsuleId: number): Promise<string> {
     return await writeContract(config, {
       address: this.contractAddress,
@@ -102,10 +304,380 @@ export class ContractService {
     });
   }
 
+  /**
+   * Unlock through the unlock relayer: the wallet signs an UnlockRequest and the relayer pays the gas
+   * @returns Hash of the relayer's unlock transaction
+   */
+  async unlockTimeCapsuleGasless(capsuleId: number): Promise<string> {
+    if (!RELAYER_CONFIG.url) throw new Error('No unlock relayer is configured');
+    const account = getAccount(config).address;
+    if (!account) throw new Error('No wallet connected');
+
+    const nonce = (await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'unlockNonces',
+      args: [account],
+    })) as bigint;
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + DEFAULT_UNLOCK_REQUEST_TTL);
+
+    const signature = await signTypedData(config, {
+      domain: { ...unlockRequestDomain(NETWORK_CONFIG.chainId, this.contractAddress), verifyingContract: this.contractAddress },
+      types: UNLOCK_REQUEST_TYPES,
+      primaryType: 'UnlockRequest',
+      message: { capsuleId: BigInt(capsuleId), recipient: account, nonce, deadline },
+    });
+
+    return await new UnlockRelayClient(RELAYER_CONFIG.url).relayUnlock({
+      capsuleId: String(capsuleId),
+      recipient: account,
+      deadline: deadline.toString(),
+      signature,
+    });
+  }
+
+  async isCancelled(capsuleId: number): Promise<boolean> {
+    const result = await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'isCancelled',
+      args: [BigInt(capsuleId)],
+    });
+    return Boolean(result);
+  }
+
+  /**
+   * Dead man's switch interval in seconds; 0 for capsules with a fixed unlock time
+   */
+  async getHeartbeatInterval(capsuleId: number): Promise<number> {
+    const result = await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'heartbeatIntervals',
+      args: [BigInt(capsuleId)],
+    });
+    return Number(result);
+  }
+
+  /**
+   * Guardians of a capsule and their votes, or undefined when it has none
+   */
+  async getGuardianState(capsuleId: number): Promise<GuardianState | undefined> {
+    const guardianModule = (await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'guardianModules',
+      args: [BigInt(capsuleId)],
+    })) as `0x${string}`;
+    if (/^0x0+$/.test(guardianModule)) return undefined;
+
+    const [guardians, capsule] = await Promise.all([
+      readContract(config, {
+        address: guardianModule,
+        abi: CONTRACT_ABIS.CapsuleGuardians,
+        functionName: 'getGuardians',
+        args: [this.contractAddress, BigInt(capsuleId)],
+      }),
+      readContract(config, {
+        address: this.contractAddress,
+        abi: this.contractAbi,
+        functionName: 'getTimeCapsule',
+        args: [BigInt(capsuleId)],
+      }),
+    ]);
+    return toGuardianState(
+      guardianModule,
+      guardians as [readonly string[], readonly number[], bigint, bigint],
+      (capsule as unknown[])[13] as number
+    );
+  }
+
+  /**
+   * Funds attached to a capsule and the share an account can claim now; empty where escrow is not deployed
+   */
+  async getEscrowedFunds(capsuleId: number, account: string): Promise<EscrowedFunds[]> {
+    const escrow = ESCROW_CONFIG.address;
+    if (!escrow) return [];
+
+    const [tokens, totals, remaining] = (await readContract(config, {
+      address: escrow,
+      abi: ESCROW_CONFIG.abi,
+      functionName: 'getDeposits',
+      args: [this.contractAddress, BigInt(capsuleId)],
+    })) as [readonly string[], readonly bigint[], readonly bigint[]];
+
+    return Promise.all(tokens.map(async (token, i) => ({
+      token,
+      total: totals[i],
+      remaining: remaining[i],
+      claimable: (await readContract(config, {
+        address: escrow,
+        abi: ESCROW_CONFIG.abi,
+        functionName: 'claimable',
+        args: [this.contractAddress, BigInt(capsuleId), account as `0x${string}`, token as `0x${string}`],
+      })) as bigint,
+    })));
+  }
+
+  /**
+   * Pay a recipient its share of the funds attached to a capsule
+   */
+  async claimEscrowedFunds(capsuleId: number, recipient: string): Promise<string> {
+    if (!ESCROW_CONFIG.address) throw new Error('CapsuleEscrow is not deployed on this network');
+
+    return await writeContract(config, {
+      address: ESCROW_CONFIG.address,
+      abi: ESCROW_CONFIG.abi,
+      functionName: 'claim',
+      args: [this.contractAddress, BigInt(capsuleId), recipient as `0x${string}`],
+    });
+  }
+
+  /**
+   * Whether the claim period of a capsule's funds is over, so the creator can reclaim what is left
+   */
+  async canReclaimEscrowedFunds(capsuleId: number): Promise<boolean> {
+    if (!ESCROW_CONFIG.address) return false;
+
+    return (await readContract(config, {
+      address: ESCROW_CONFIG.address,
+      abi: ESCROW_CONFIG.abi,
+      functionName: 'canReclaim',
+      args: [this.contractAddress, BigInt(capsuleId)],
+    })) as boolean;
+  }
+
+  /**
+   * Return the funds recipients left unclaimed to the creator, once the claim period is over
+   */
+  async reclaimEscrowedFunds(capsuleId: number): Promise<string> {
+    if (!ESCROW_CONFIG.address) throw new Error('CapsuleEscrow is not deployed on this network');
+
+    return await writeContract(config, {
+      address: ESCROW_CONFIG.address,
+      abi: ESCROW_CONFIG.abi,
+      functionName: 'reclaim',
+      args: [this.contractAddress, BigInt(capsuleId)],
+    });
+  }
+
+  /**
+   * Claim tokens an account owns on this capsule contract, as capsule ID => token ID; empty where
+   * CapsuleClaims is not deployed
+   */
+  async getOwnedClaimTokens(account: string): Promise<Map<number, number>> {
+    const owned = new Map<number, number>();
+    if (!CLAIMS_CONFIG.address) return owned;
+
+    const tokenIds = (await readContract(config, {
+      address: CLAIMS_CONFIG.address,
+      abi: CLAIMS_CONFIG.abi,
+      functionName: 'tokensOfOwner',
+      args: [account as `0x${string}`],
+    })) as readonly bigint[];
+    const claims = (await readContracts(config, {
+      allowFailure: false,
+      contracts: tokenIds.map(tokenId => ({
+        address: CLAIMS_CONFIG.address!,
+        abi: CLAIMS_CONFIG.abi,
+        functionName: 'claims',
+        args: [tokenId],
+      })),
+    })) as unknown as [string, bigint][];
+
+    claims.forEach(([capsules, capsuleId], i) => {
+      if (capsules.toLowerCase() === this.contractAddress.toLowerCase()) {
+        owned.set(Number(capsuleId), Number(tokenIds[i]));
+      }
+    });
+    return owned;
+  }
+
+  /**
+   * Mint a claim token to each recipient of a locked capsule
+   */
+  async tokenizeClaims(capsuleId: number): Promise<string> {
+    // The capsule contract only accepts the CapsuleClaims deployment it was built with
+    const claimsModule = (await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'claimsModule',
+    })) as `0x${string}`;
+    if (/^0x0+$/.test(claimsModule)) throw new Error('This capsule contract does not support claim tokens');
+
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'tokenizeClaims',
+      args: [BigInt(capsuleId), claimsModule],
+    });
+  }
+
+  /**
+   * Send a claim token, and with it the claim on its capsule, to another wallet
+   */
+  async transferClaimToken(tokenId: number, to: string): Promise<string> {
+    const account = getAccount(config).address;
+    if (!account) throw new Error('No wallet connected');
+    if (!CLAIMS_CONFIG.address) throw new Error('CapsuleClaims is not deployed on this network');
+
+    const locked = (await readContract(config, {
+      address: CLAIMS_CONFIG.address,
+      abi: CLAIMS_CONFIG.abi,
+      functionName: 'locked',
+      args: [BigInt(tokenId)],
+    })) as boolean;
+    if (locked) throw new Error('This claim is locked: its capsule was cancelled or is already unlockable');
+
+    return await writeContract(config, {
+      address: CLAIMS_CONFIG.address,
+      abi: CLAIMS_CONFIG.abi,
+      functionName: 'safeTransferFrom',
+      args: [account, to as `0x${string}`, BigInt(tokenId)],
+    });
+  }
+
+  /**
+   * Give a recipient that received a claim token its wrapped copy of the data key
+   */
+  async setWrappedKey(capsuleId: number, recipient: string, wrappedKey: string): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'setWrappedKey',
+      args: [BigInt(capsuleId), recipient, wrappedKey],
+    });
+  }
+
+  async heartbeat(capsuleId: number): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'heartbeat',
+      args: [BigInt(capsuleId)],
+    });
+  }
+
+  /**
+   * Cancel a capsule; the contract refunds any Blocklock fee it holds to the creator
+   */
+  async cancelCapsule(capsuleId: number): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'cancelCapsule',
+      args: [BigInt(capsuleId)],
+    });
+  }
+
+  async extendUnlockTime(capsuleId: number, unlockTime: number): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'extendUnlockTime',
+      args: [BigInt(capsuleId), BigInt(unlockTime)],
+    });
+  }
+
+  /**
+   * Replace a recipient; wrappedKey is '0x' unless the capsule uses wrapped keys
+   */
+  async updateRecipient(capsuleId: number, previousRecipient: string, recipient: string, wrappedKey: string): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'updateRecipient',
+      args: [BigInt(capsuleId), previousRecipient, recipient, wrappedKey],
+    });
+  }
+
+  async updateCid(capsuleId: number, ipfsCid: string): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'updateCid',
+      args: [BigInt(capsuleId), ipfsCid],
+    });
+  }
+
+  /**
+   * Proof gate of a capsule; verifier is the zero address when there is none
+   */
+  async getProofGate(capsuleId: number): Promise<ProofGate> {
+    const [verifier, requiredMask, publicSignals] = (await readContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'getProofGate',
+      args: [BigInt(capsuleId)],
+    })) as [string, bigint, readonly bigint[]];
+    return { verifier, requiredMask, publicSignals: [...publicSignals] };
+  }
+
+  async unlockTimeCapsuleWithProof(capsuleId: number, proof: SolidityProof): Promise<string> {
+    return await writeContract(config, {
+      address: this.contractAddress,
+      abi: this.contractAbi,
+      functionName: 'unlockTimeCapsuleWithProof',
+      args: [
+        BigInt(capsuleId),
+        proof.a.map(BigInt),
+        proof.b.map(pair => pair.map(BigInt)),
+        proof.c.map(BigInt),
+        proof.publicSignals.map(BigInt),
+      ],
+    });
+  }
+
+  /**
+   * Capsules the connected wallet created or receives, including those it holds a claim token for
+   */
   async getUserTimeCapsules(): Promise<TimeCapsule[]> {
     const account = getAccount(config);
     if (!account.address) throw new Error('No wallet connected');
 
+    const [capsules, claimTokens] = await Promise.all([
+      this.listUserTimeCapsules(account.address),
+      this.getOwnedClaimTokens(account.address),
+    ]);
+
+    // An indexer can lag behind a token transfer; read those capsules from the chain
+    const listed = new Set(capsules.map(capsule => capsule.id));
+    const missing = Array.from(claimTokens.keys()).filter(id => !listed.has(id));
+    if (missing.length > 0) {
+      capsules.push(...(READER_CONFIG.address
+        ? await this.getTimeCapsules(missing)
+        : await Promise.all(missing.map(id => this.getTimeCapsule(id)))));
+    }
+
+    return capsules.map(capsule => ({ ...capsule, claimTokenId: claimTokens.get(capsule.id) }));
+  }
+
+  private async listUserTimeCapsules(address: `0x${string}`): Promise<TimeCapsule[]> {
+    if (INDEXER_CONFIG.url) {
+      const indexer = new CapsuleIndexClient(INDEXER_CONFIG.url);
+      const capsules = await indexer.queryCapsules({ account: address });
+      const head = capsules.some(capsule => isBlockCondition(capsule.conditionType)) ? await getBlock(config) : undefined;
+      return capsules.map(capsule => toTimeCapsule(capsule, head));
+    }
+
+    if (READER_CONFIG.address) {
+      // Capsules the wallet created or was made a recipient of; the recipient list keeps
+      // capsules it was later replaced on, which the filter below drops
+      const [created, received] = (await readContracts(config, {
+        allowFailure: false,
+        contracts: [
+          { address: this.contractAddress, abi: this.contractAbi, functionName: 'getUserCapsules', args: [address] },
+          { address: this.contractAddress, abi: this.contractAbi, functionName: 'getRecipientCapsules', args: [address] },
+        ],
+      })) as [readonly bigint[], readonly bigint[]];
+      const ids = Array.from(new Set([...created, ...received].map(Number))).sort((a, b) => a - b);
+      const capsules = ids.length > 0 ? await this.getTimeCapsules(ids) : [];
+      return capsules.filter(capsule =>
+        capsule.creator.toLowerCase() === address.toLowerCase() || includesAddress(capsule.recipients, address)
+      );
+    }
+
+    // Without an indexer or CapsuleReader, read every capsule and filter client-side
     const nextCapsuleId = (await readContract(config, {
       address: this.contractAddress,
       abi: this.contractAbi,
@@ -123,8 +695,8 @@ export class ContractService {
       try {
         const capsule = await this.getTimeCapsule(i);
         if (
-          capsule.creator.toLowerCase() === account.address.toLowerCase() ||
-          capsule.recipient.toLowerCase() === account.address.toLowerCase()
+          capsule.creator.toLowerCase() === address.toLowerCase() ||
+          includesAddress(capsule.recipients, address)
         ) {
           userCapsules.push(capsule);
         }
@@ -146,3 +718,79 @@ export class ContractService {
     return Array.isArray(result) ? Number(result[0] || 0) : Number(result || 0);
   }
 }
+
+// Return values of TimeCapsuleBlocklockSimple.getTimeCapsule, in ABI order
+type TimeCapsuleResult = readonly [
+  ipfsCid: string,
+  blocklockRequestId: bigint,
+  unlockTime: bigint,
+  creationTime: bigint,
+  creator: string,
+  recipientEmail: string,
+  title: string,
+  isUnlocked: boolean,
+  fileSize: bigint,
+  fileType: string,
+  hasDecryptionKey: boolean,
+  useBlocklock: boolean,
+  recipient: string,
+  guardianApproval: number,
+  conditionType: number,
+];
+
+// CapsuleReader.CapsuleView; getTimeCapsule reads are mapped to the same shape
+interface CapsuleView {
+  id: bigint;
+  ipfsCid: string;
+  unlockTime: bigint;
+  conditionType: number;
+  creationTime: bigint;
+  creator: string;
+  recipient: string;
+  recipients: readonly string[];
+  title: string;
+  isUnlocked: boolean;
+  isCancelled: boolean;
+  useBlocklock: boolean;
+  guardianApproval: number;
+  heartbeatInterval: bigint;
+  envelopeHash: string;
+  plaintextHash: string;
+  timeUntilUnlock: bigint;
+  canUnlock: boolean;
+}
+
+function includesAddress(addresses: readonly string[], address: string): boolean {
+  return addresses.some(entry => entry.toLowerCase() === address.toLowerCase());
+}
+
+// unlockTime in Unix seconds, estimated from the chain head for block conditions
+function unlockFields(unlockTime: number, conditionType: ConditionType, head?: ChainHead) {
+  return {
+    unlockTime: estimateUnlockTimestamp(unlockTime, conditionType, head, NETWORK_CONFIG.blockTime),
+    ...(isBlockCondition(conditionType) && { unlockBlock: unlockTime }),
+    conditionType,
+  };
+}
+
+function toTimeCapsule(capsule: IndexedCapsule, head?: ChainHead): TimeCapsule {
+  const now = Math.floor(Date.now() / 1000);
+  const unlock = unlockFields(capsule.unlockTime, capsule.conditionType, head);
+  return {
+    id: capsule.id,
+    ipfsCid: capsule.ipfsCid,
+    ...(capsule.envelopeHash && { contentHash: capsule.envelopeHash, plaintextHash: capsule.plaintextHash }),
+    creator: capsule.creator,
+    recipient: capsule.recipient,
+    recipients: capsule.recipients,
+    title: capsule.title,
+    ...unlock,
+    isUnlocked: capsule.isUnlocked,
+    isCancelled: capsule.isCancelled,
+    heartbeatInterval: capsule.heartbeatInterval,
+    usesBlocklock: capsule.useBlocklock,
+    createdAt: capsule.creationTime,
+    canUnlock: capsule.status === 'unlockable',
+    timeUntilUnlock: Math.max(0, unlock.unlockTime - now),
+  };
+}
@@ -0,0 +1,11 @@
+// lib/services/encryptionKeys.ts - Wallet encryption keys for multi-recipient capsules (see shared/keyWrap.ts)
+import { signMessage } from '@wagmi/core';
+import { ENCRYPTION_KEY_MESSAGE, encryptionKeyFromSignature, type EncryptionKeyPair } from '@shared/keyWrap';
+import { config } from '../wagmi';
+
+/**
+ * Encryption key pair of the connected wallet; asks the wallet for a signature
+ */
+export async function deriveEncryptionKey(): Promise<EncryptionKeyPair> {
+  return encryptionKeyFromSignature(await signMessage(config, { message: ENCRYPTION_KEY_MESSAGE }));
+}
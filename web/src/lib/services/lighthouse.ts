@@ -1,61 +1,85 @@
-// lib/services/lighthouse.ts - Lighthouse IPFS service for file uploads
-import { LIGHTHOUSE_CONFIG } from '../config';
+// lib/services/lighthouse.ts - IPFS service for file uploads, backed by the configured StorageProvider
+import { KuboStorage, LighthouseStorage, StorageProvider, storeVerified } from '@shared/storage';
+import { ContentRetriever, MemoryCache, RetrievedContent } from '@shared/retrieval';
+import { ENVELOPE_MIME_TYPE, isEnvelope, type ChunkManifest } from '@shared/envelope';
+import {
+  blobChunkSource,
+  downloadChunked,
+  uploadChunked,
+  type ChunkProgress,
+  type ChunkedUpload,
+  type ChunkedUploadState,
+} from '@shared/chunkedUpload';
+import { LIGHTHOUSE_CONFIG, STORAGE_CONFIG } from '../config';
 import { UploadResponse } from '../types';
 
+// Shared by every service instance, so content verified once is not downloaded again this session
+const retrievalCache = new MemoryCache();
+
+// Chunks already stored for files whose upload was cancelled or failed, by file identity; an
+// upload of the same file in this tab picks up from there
+const interruptedUploads = new Map<string, ChunkedUploadState>();
+
+export interface ContentDescription {
+  contentType: string;
+  size: number;
+  isViewable: boolean;
+  fileType: string;
+}
+
 export class LighthouseService {
   private apiKey: string;
+  private storage: StorageProvider;
+  private retriever: ContentRetriever;
 
   constructor() {
     this.apiKey = LIGHTHOUSE_CONFIG.apiKey;
-    if (!this.apiKey) {
-      console.warn("Lighthouse API key not found in environment variables. File uploads will not work.");
+    if (STORAGE_CONFIG.backend === 'kubo') {
+      this.storage = new KuboStorage(STORAGE_CONFIG.kuboApiUrl, STORAGE_CONFIG.kuboGateway);
+    } else {
+      this.storage = new LighthouseStorage(this.apiKey, LIGHTHOUSE_CONFIG.gateway);
+      if (!this.apiKey) {
+        console.warn("Lighthouse API key not found in environment variables. File uploads will not work.");
+      }
     }
+    // The Lighthouse gateway is already among the raced gateways; a Kubo node is raced alongside them
+    this.retriever = new ContentRetriever({
+      gateways: STORAGE_CONFIG.gateways,
+      storage: this.storage.backend === 'kubo' ? this.storage : undefined,
+      cache: retrievalCache,
+    });
   }
 
   /**
-   * Upload file to Lighthouse IPFS
+   * Upload file to the configured storage backend
    * @param file File to upload
    * @param fileName Optional custom filename
    * @returns Promise with upload response containing CID
    */
   async uploadFile(file: File, fileName?: string): Promise<UploadResponse> {
     try {
-      if (!this.apiKey) {
-        throw new Error("Lighthouse API key is required. Please add NEXT_PUBLIC_LIGHTHOUSE_API_KEY to your .env.local file. Get a free API key from https://lighthouse.storage");
+      if (this.storage.backend === 'lighthouse' && !this.apiKey) {
+        throw new Error("Lighthouse API key is required. Please add NEXT_PUBLIC_LIGHTHOUSE_API_KEY to your .env.local file (get a free API key from https://lighthouse.storage), or set NEXT_PUBLIC_STORAGE_BACKEND=kubo to use a local IPFS node");
       }
 
-      console.log(`Uploading file to Lighthouse IPFS: ${file.name}`);
+      console.log(`Uploading file to ${this.storage.backend} IPFS: ${file.name}`);
       console.log(`File size: ${file.size} bytes`);
 
-      const formData = new FormData();
-      formData.append('file', file, fileName || file.name);
-
-      const response = await fetch('https://node.lighthouse.storage/api/v0/add', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: formData
+      const name = fileName || file.name;
+      // Only hand back a CID that matches the bytes and reads back, so no capsule points at missing content
+      const stored = await storeVerified(this.storage, new Uint8Array(await file.arrayBuffer()), {
+        fileName: name,
+        onRetry: (stage, attempt, error) => console.warn(`IPFS ${stage} attempt ${attempt} failed, retrying: ${error.message}`)
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data || !data.Hash) {
-        throw new Error("Failed to upload file to Lighthouse");
-      }
-
-      console.log(`File uploaded successfully to IPFS`);
-      console.log(`CID: ${data.Hash}`);
-      console.log(`Gateway URL: ${LIGHTHOUSE_CONFIG.gateway}${data.Hash}`);
+      console.log(`File uploaded to IPFS, CID verified and content retrievable`);
+      console.log(`CID: ${stored.cid}`);
+      console.log(`Gateway URL: ${this.getGatewayUrl(stored.cid)}`);
 
       return {
-        Hash: data.Hash,
-        Name: data.Name || file.name,
-        Size: data.Size || file.size.toString()
+        Hash: stored.cid,
+        Name: name,
+        Size: stored.size.toString()
       };
 
     } catch (error) {
@@ -64,6 +88,61 @@ export class LighthouseService {
     }
   }
 
+  /**
+   * Seal and upload a large file chunk by chunk without reading it into memory (shared/chunkedUpload.ts).
+   * Resumes an earlier interrupted upload of the same file
+   * @param file File to seal and upload
+   * @param options.signal Cancels between chunks; uploading the file again resumes
+   * @param options.onProgress Called after each chunk is stored
+   * @returns The manifest CID, data key and content hashes for the capsule
+   */
+  async uploadLargeFile(file: File, options: { signal?: AbortSignal; onProgress?: (progress: ChunkProgress) => void } = {}): Promise<ChunkedUpload> {
+    if (this.storage.backend === 'lighthouse' && !this.apiKey) {
+      throw new Error("Lighthouse API key is required. Please add NEXT_PUBLIC_LIGHTHOUSE_API_KEY to your .env.local file (get a free API key from https://lighthouse.storage), or set NEXT_PUBLIC_STORAGE_BACKEND=kubo to use a local IPFS node");
+    }
+
+    const uploadId = `${file.name}:${file.size}:${file.lastModified}`;
+    const resume = interruptedUploads.get(uploadId);
+    console.log(resume
+      ? `Resuming upload of ${file.name} after ${resume.chunks.length} stored chunks`
+      : `Uploading ${file.name} (${file.size} bytes) in chunks to ${this.storage.backend} IPFS`);
+
+    const upload = await uploadChunked(this.storage, blobChunkSource(file), {
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      resume,
+      signal: options.signal,
+      onProgress: options.onProgress,
+      onChunk: state => interruptedUploads.set(uploadId, state),
+      store: {
+        onRetry: (stage, attempt, error) => console.warn(`IPFS ${stage} attempt ${attempt} failed, retrying: ${error.message}`)
+      },
+    });
+    interruptedUploads.delete(uploadId);
+
+    console.log(`Manifest for ${upload.manifest.chunks.length} chunks uploaded, CID: ${upload.cid}`);
+    return upload;
+  }
+
+  /**
+   * Download, verify and decrypt a chunked envelope into a Blob, one chunk in memory at a time
+   * @param manifest Parsed manifest
+   * @param dataKey Hex-encoded data key of the capsule
+   * @param onProgress Called after each chunk is decrypted
+   * @returns The content, and the plaintext digests to check against the capsule's plaintext hash
+   */
+  async downloadLargeFile(manifest: ChunkManifest, dataKey: string, onProgress?: (progress: ChunkProgress) => void): Promise<{
+    blob: Blob;
+    plaintextDigests: Uint8Array;
+  }> {
+    // Blob parts can be paged out by the browser, unlike one large ArrayBuffer
+    const parts: Blob[] = [];
+    const { plaintextDigests } = await downloadChunked(this.retriever, manifest, dataKey,
+      plaintext => { parts.push(new Blob([plaintext.slice().buffer as ArrayBuffer])); },
+      { onProgress });
+    return { blob: new Blob(parts, { type: manifest.mimeType }), plaintextDigests };
+  }
+
   /**
    * Upload text content to Lighthouse IPFS
    * @param content Text content to upload
@@ -82,7 +161,7 @@ export class LighthouseService {
    * @returns Gateway URL
    */
   getGatewayUrl(cid: string): string {
-    return `${LIGHTHOUSE_CONFIG.gateway}${cid}`;
+    return this.storage.gatewayUrl(cid) ?? `${LIGHTHOUSE_CONFIG.gateway}${cid}`;
   }
 
   /**
@@ -92,22 +171,50 @@ export class LighthouseService {
    */
   async downloadFile(cid: string): Promise<string> {
     try {
-      const url = this.getGatewayUrl(cid);
-      console.log(`Downloading file from IPFS: ${url}`);
+      return new TextDecoder().decode(await this.downloadBytes(cid));
 
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    } catch (error) {
+      console.error("Error downloading from IPFS:", error);
+      throw error;
+    }
+  }
 
-      const content = await response.text();
-      console.log(`File downloaded successfully from IPFS`);
-      
-      return content;
+  /**
+   * Download raw bytes from IPFS by CID (used for encrypted envelopes). Gateways race, and only
+   * bytes matching the CID are accepted; interrupted downloads resume where they stopped
+   * @param cid IPFS CID
+   * @returns Promise with the downloaded bytes
+   */
+  async downloadBytes(cid: string): Promise<Uint8Array> {
+    return (await this.retrieve(cid)).content;
+  }
 
+  /**
+   * Confirm that recipients will be able to download a CID, before a capsule points at it
+   * @param cid IPFS CID
+   * @throws Error naming the CID when no gateway serves matching bytes
+   */
+  async assertRetrievable(cid: string): Promise<void> {
+    try {
+      await this.retriever.retrieve(cid);
     } catch (error) {
-      console.error("Error downloading from IPFS:", error);
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Uploaded content ${cid} cannot be downloaded from any gateway, so no capsule was created: ${reason}`);
+    }
+  }
+
+  private async retrieve(cid: string): Promise<RetrievedContent> {
+    try {
+      console.log(`📥 Downloading from IPFS: ${cid}`);
+
+      const retrieved = await this.retriever.retrieve(cid);
+      console.log(`✅ Downloaded ${retrieved.content.length} bytes from ${retrieved.source}, CID verified` +
+        (retrieved.resumedFrom > 0 ? ` (resumed at byte ${retrieved.resumedFrom})` : ''));
+
+      return retrieved;
+
+    } catch (error) {
+      console.error("❌ Error downloading bytes from IPFS:", error);
       throw error;
     }
   }
@@ -125,17 +232,14 @@ export class LighthouseService {
     gatewayUrl: string;
   }> {
     try {
-      const url = this.getGatewayUrl(cid);
-      console.log(`📥 Downloading file as blob from IPFS: ${url}`);
-
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      const retrieved = await this.retrieve(cid);
+      const url = retrieved.source.startsWith('http') ? retrieved.source : this.getGatewayUrl(cid);
 
-      const blob = await response.blob();
-      const contentType = response.headers.get('content-type') || 'application/octet-stream';
+      // Envelopes are identified by their bytes; legacy plaintext content by the gateway's Content-Type
+      const contentType = isEnvelope(retrieved.content)
+        ? ENVELOPE_MIME_TYPE
+        : (await this.getFileMetadata(cid)).contentType;
+      const blob = new Blob([retrieved.content.slice().buffer as ArrayBuffer], { type: contentType });
       const size = blob.size;
       
       // Create a download URL for the blob
@@ -180,21 +284,8 @@ export class LighthouseService {
       }
       
       const downloadFileName = fileName || `timecapsule-${cid.slice(-8)}${extension}`;
-      
-      // Create download link and trigger download
-      const link = document.createElement('a');
-      link.href = fileData.downloadUrl;
-      link.download = downloadFileName;
-      link.style.display = 'none';
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      // Clean up the object URL after a delay
-      setTimeout(() => {
-        URL.revokeObjectURL(fileData.downloadUrl);
-      }, 100);
+      this.saveBlobForUser(fileData.blob, downloadFileName);
+      URL.revokeObjectURL(fileData.downloadUrl);
       
       console.log(`✅ File download initiated: ${downloadFileName}`);
       
@@ -204,17 +295,62 @@ export class LighthouseService {
     }
   }
 
+  /**
+   * Trigger a browser download for an in-memory blob (e.g. decrypted capsule content)
+   * @param blob Content to save
+   * @param fileName Filename for download
+   */
+  saveBlobForUser(blob: Blob, fileName: string): void {
+    const downloadUrl = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = downloadUrl;
+    link.download = fileName;
+    link.style.display = 'none';
+    
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    
+    // Clean up the object URL after a delay
+    setTimeout(() => {
+      URL.revokeObjectURL(downloadUrl);
+    }, 100);
+  }
+
+  /**
+   * Classify content by MIME type for display decisions
+   * @param contentType MIME type of the content
+   * @param size Size in bytes
+   * @returns Content description
+   */
+  describeContentType(contentType: string, size: number): ContentDescription {
+    // Determine if file can be viewed in browser
+    const isViewable = contentType.startsWith('text/') || 
+                      contentType.includes('pdf') ||
+                      contentType.startsWith('image/');
+    
+    let fileType = 'Unknown';
+    if (contentType.includes('pdf')) fileType = 'PDF';
+    else if (contentType.includes('text')) fileType = 'Text';
+    else if (contentType.includes('image')) fileType = 'Image';
+    else if (contentType.includes('video')) fileType = 'Video';
+    else if (contentType.includes('audio')) fileType = 'Audio';
+    
+    return {
+      contentType,
+      size,
+      isViewable,
+      fileType
+    };
+  }
+
   /**
    * Get file metadata from IPFS
    * @param cid IPFS CID
    * @returns Promise with file metadata
    */
-  async getFileMetadata(cid: string): Promise<{
-    contentType: string;
-    size: number;
-    isViewable: boolean;
-    fileType: string;
-  }> {
+  async getFileMetadata(cid: string): Promise<ContentDescription> {
     try {
       const url = this.getGatewayUrl(cid);
       console.log(`🔍 Getting metadata for CID: ${cid}`);
@@ -241,24 +377,7 @@ export class LighthouseService {
         console.log(`   ${key}: ${value}`);
       }
       
-      // Determine if file can be viewed in browser
-      const isViewable = contentType.startsWith('text/') || 
-                        contentType.includes('pdf') ||
-                        contentType.startsWith('image/');
-      
-      let fileType = 'Unknown';
-      if (contentType.includes('pdf')) fileType = 'PDF';
-      else if (contentType.includes('text')) fileType = 'Text';
-      else if (contentType.includes('image')) fileType = 'Image';
-      else if (contentType.includes('video')) fileType = 'Video';
-      else if (contentType.includes('audio')) fileType = 'Audio';
-      
-      const metadata = {
-        contentType,
-        size,
-        isViewable,
-        fileType
-      };
+      const metadata = this.describeContentType(contentType, size);
       
       console.log(`✅ File metadata retrieved successfully:`, metadata);
       return metadata;
@@ -0,0 +1,66 @@
+// lib/services/proofs.ts - Proof provider for the dashboard (see shared/proofs.ts)
+import { getBlock, signMessage } from '@wagmi/core';
+import { Groth16ProofProvider } from '@shared/groth16';
+import {
+  MockProofProvider,
+  PROOF_CIRCUITS,
+  RECEIVER_SECRET_MESSAGE,
+  receiverSecretFromSignature,
+  type CircuitProof,
+  type ProofProvider,
+} from '@shared/proofs';
+import { config } from '../wagmi';
+import { PROOF_CONFIG } from '../config';
+
+// Clock tolerance for time_validation proofs, in seconds
+export const DEFAULT_MAX_DRIFT = 300;
+
+let provider: ProofProvider | undefined;
+
+/**
+ * Proof provider selected by NEXT_PUBLIC_PROOF_BACKEND; snarkjs fetches the wasm and zkey itself
+ */
+export function getProofProvider(): ProofProvider {
+  if (provider) return provider;
+
+  switch (PROOF_CONFIG.backend) {
+    case 'mock':
+      console.warn('NEXT_PUBLIC_PROOF_BACKEND=mock: proofs are unverified placeholders');
+      provider = new MockProofProvider();
+      break;
+    case 'groth16':
+      provider = new Groth16ProofProvider(async circuit => {
+        const base = `${PROOF_CONFIG.artifactsUrl}/${PROOF_CIRCUITS[circuit]}`;
+        const response = await fetch(`${base}_verification_key.json`);
+        if (!response.ok) {
+          throw new Error(`Circuit artifacts not found at ${base}; run npm run circuits:copy`);
+        }
+        return { wasm: `${base}.wasm`, zkey: `${base}.zkey`, verificationKey: await response.json() };
+      });
+      break;
+    default:
+      throw new Error(`Unknown NEXT_PUBLIC_PROOF_BACKEND "${PROOF_CONFIG.backend}", expected groth16 or mock`);
+  }
+  return provider;
+}
+
+/**
+ * receiver_auth secret of the connected wallet; asks the wallet for a signature
+ */
+export async function deriveReceiverSecret(): Promise<bigint> {
+  return receiverSecretFromSignature(await signMessage(config, { message: RECEIVER_SECRET_MESSAGE }));
+}
+
+/**
+ * Prove that the browser clock is within maxDrift of the latest block timestamp
+ */
+export async function proveLocalTime(capsuleId: number, maxDrift: number = DEFAULT_MAX_DRIFT): Promise<CircuitProof<'time_validation'>> {
+  const block = await getBlock(config);
+  return getProofProvider().prove('time_validation', {
+    capsuleId,
+    unlockTime: block.timestamp,
+    referenceTime: block.timestamp,
+    maxDrift,
+    localTime: Math.floor(Date.now() / 1000),
+  });
+}
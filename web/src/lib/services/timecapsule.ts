@@ -1,46 +1,34 @@
 // lib/services/timecapsule.ts - Main service that combines contract and IPFS operations
 import { ContractService } from './contract';
-import { LighthouseService } from './lighthouse';
+import { LighthouseService, ContentDescription } from './lighthouse';
 import { TimeCapsule, CreateTimeCapsuleData } from '../types';
-
-// Browser-compatible crypto functions
-const browserCrypto = {
-  createHash: (algorithm: string) => {
-    let data = '';
-    return {
-      update: (chunk: string) => {
-        data += chunk;
-        return browserCrypto.createHash(algorithm);
-      },
-      digest: (encoding: string) => {
-        // Simple hash for demo - in production use WebCrypto API
-        let hash = 0;
-        for (let i = 0; i < data.length; i++) {
-          const char = data.charCodeAt(i);
-          hash = ((hash << 5) - hash) + char;
-          hash = hash & hash; // Convert to 32bit integer
-        }
-        return Math.abs(hash).toString(16).padStart(32, '0');
-      }
-    };
-  },
-  randomBytes: (size: number) => {
-    const bytes = new Uint8Array(size);
-    if (typeof window !== 'undefined' && window.crypto) {
-      window.crypto.getRandomValues(bytes);
-    } else {
-      // Fallback for server-side rendering
-      for (let i = 0; i < size; i++) {
-        bytes[i] = Math.floor(Math.random() * 256);
-      }
-    }
-    return {
-      toString: (encoding: string) => {
-        return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-      }
-    };
-  }
-};
+import {
+  sealContent,
+  serializeEnvelope,
+  parseEnvelope,
+  openEnvelope,
+  isEnvelope,
+  hashContent,
+  verifyContentHash,
+  isChunkManifest,
+  parseManifest,
+  DEFAULT_CHUNK_SIZE,
+  type ContentHashes,
+  ENVELOPE_ALGORITHM,
+  ENVELOPE_MIME_TYPE,
+  NO_CONTENT_HASH,
+  ContentIntegrityError,
+} from '@shared/envelope';
+import { verifyTimeAttestation, type SignedTimeAttestation, type TimeAttestation } from '@shared/timeAttestation';
+import { formatEther, recoverMessageAddress, zeroAddress } from 'viem';
+import { TIME_ATTESTATION_CONFIG } from '../config';
+import { combineProofs, matchesProofGate, ProofError, toSolidityProof, type CircuitProof } from '@shared/proofs';
+import { getAccount, waitForTransactionReceipt } from '@wagmi/core';
+import { config } from '../wagmi';
+import { deriveReceiverSecret, getProofProvider, proveLocalTime } from './proofs';
+import { unwrapDataKey, wrapDataKey } from '@shared/keyWrap';
+import { deriveEncryptionKey } from './encryptionKeys';
+import type { GuardianState } from '@shared/guardians';
 
 export class TimeCapsuleService {
   private contractService: ContractService;
@@ -63,132 +51,113 @@ export class TimeCapsuleService {
       console.log('🚀 Creating complete time capsule...');
       console.log('📁 Data:', data);
 
-  let ipfsResult: unknown;
-      let fileSize = 1024;
-      let fileType = "text/plain";
+      // The data key only goes on-chain wrapped to each recipient's registered encryption key;
+      // in plain form anyone could read it from the transaction before the unlock time.
+      // Look the keys up first, so an unregistered recipient fails the create before any upload
+      const publicKeys = await this.getEncryptionKeys(data.recipientAddresses);
+
+      let ipfsCid: string;
+      let dataKey: string;
+      let fileSize: number;
+      let fileType: string;
+      let contentHashes: ContentHashes;
+
+      if (data.file && data.file.size > DEFAULT_CHUNK_SIZE) {
+        // Large files are sealed and uploaded a chunk at a time, so they never sit in memory whole
+        console.log(`📦 Large file (${data.file.size} bytes) - sealing and uploading in ${DEFAULT_CHUNK_SIZE}-byte chunks...`);
+        const upload = await this.lighthouseService.uploadLargeFile(data.file, { signal: data.signal, onProgress: data.onProgress });
+        ipfsCid = upload.cid;
+        dataKey = upload.dataKey;
+        fileSize = upload.manifest.size;
+        fileType = upload.manifest.mimeType;
+        contentHashes = upload.contentHashes;
+        console.log(`✅ ${upload.manifest.chunks.length} encrypted chunks and their manifest uploaded to IPFS`);
+      } else {
+        let content: Uint8Array | string;
+        let fileName: string;
 
-      if (data.file) {
-        // Check if it's a text file that should be read as content
-        if (data.file.type === 'text/plain' || data.file.name.toLowerCase().endsWith('.txt')) {
-          console.log('� Text file detected - extracting content for storage...');
+        if (data.file) {
+          // Files of any type are sealed byte-for-byte, so the recipient gets the exact original back
+          console.log('📁 File provided - reading for client-side encryption...');
           console.log(`   File name: ${data.file.name}`);
           console.log(`   File size: ${data.file.size} bytes`);
           console.log(`   File type: ${data.file.type}`);
-          
-          try {
-            // Read the text file content
-            const fileContent = await this.readFileAsText(data.file);
-            console.log(`📖 Text content extracted (${fileContent.length} characters)`);
-            console.log(`📝 Content preview: ${fileContent.substring(0, 200)}...`);
-            
-            // Upload the actual text content to IPFS
-            ipfsResult = await this.lighthouseService.uploadText(
-              fileContent,
-              data.file.name
-            );
-            fileSize = fileContent.length;
-            fileType = 'text/plain';
-            
-            console.log('✅ Text content uploaded to IPFS successfully!');
-            console.log(`   IPFS CID: ${ipfsResult.Hash}`);
-            console.log(`   Content will be readable by recipient as text`);
-            
-          } catch (readError) {
-            console.error('❌ Failed to read text file content:', readError);
-            throw new Error(`Failed to read text file: ${readError?.message || 'Unknown error'}`);
-          }
+
+          content = new Uint8Array(await data.file.arrayBuffer());
+          fileName = data.file.name;
+          fileType = data.file.type || 'application/octet-stream';
         } else {
-          // For binary files (PDF, images, etc.), upload the file as-is
-          console.log('📁 Binary file detected - uploading file directly...');
-          console.log(`   File name: ${data.file.name}`);
-          console.log(`   File size: ${data.file.size} bytes`);
-          console.log(`   File type: ${data.file.type}`);
-          
-          ipfsResult = await this.lighthouseService.uploadFile(data.file);
-          fileSize = data.file.size;
-          fileType = data.file.type;
-          
-          console.log('✅ Binary file uploaded to IPFS successfully!');
-          console.log(`   IPFS CID: ${ipfsResult.Hash}`);
-          console.log(`   File will be downloadable by recipient`);
-        }
-        
-        console.log(`   IPFS Result Full Object:`, ipfsResult);
-        console.log(`   Gateway URL: https://gateway.lighthouse.storage/ipfs/${ipfsResult.Hash}`);
-        
-        // Test immediate retrieval to verify upload
-        console.log('🔍 Testing immediate file retrieval...');
-        try {
-          const testMetadata = await this.lighthouseService.getFileMetadata(ipfsResult.Hash);
-          console.log(`✅ Immediate retrieval test successful:`, testMetadata);
-        } catch (testError) {
-          console.log(`⚠️  Immediate retrieval test failed (this is normal for new uploads):`, testError);
+          // Create message content and seal it as text
+          console.log('📤 No file provided, creating text message...');
+          content = this.formatTimeCapsuleContent(data);
+          fileName = `timecapsule-${Date.now()}.txt`;
+          fileType = 'text/plain';
         }
-        
-      } else {
-        // Create message content and upload as text
-        console.log('📤 No file provided, creating text message...');
-        const messageContent = this.formatTimeCapsuleContent(data);
-        
-        console.log('📤 Uploading message content to IPFS...');
-        ipfsResult = await this.lighthouseService.uploadText(
-          messageContent,
-          `timecapsule-${Date.now()}.txt`
+
+        console.log(`🔐 Encrypting content with ${ENVELOPE_ALGORITHM} before upload...`);
+        const sealed = await sealContent(content, { mimeType: fileType, fileName });
+        dataKey = sealed.dataKey;
+        fileSize = sealed.envelope.header.size;
+        const sealedBytes = serializeEnvelope(sealed.envelope);
+        contentHashes = await hashContent(sealedBytes, content);
+        console.log(`✅ Content sealed (${fileSize} bytes plaintext → ${sealedBytes.length} bytes envelope)`);
+
+        console.log('📤 Uploading encrypted envelope to IPFS...');
+        const ipfsResult = await this.lighthouseService.uploadFile(
+          new File([sealedBytes.slice().buffer as ArrayBuffer], `${fileName}.fpe`, { type: ENVELOPE_MIME_TYPE })
         );
-        
-        console.log('✅ Message uploaded to IPFS successfully!');
-        console.log(`   IPFS CID: ${ipfsResult.Hash}`);
-        console.log(`   IPFS Result Full Object:`, ipfsResult);
+        ipfsCid = ipfsResult.Hash;
+        data.onProgress?.({ chunk: 1, chunks: 1, bytes: fileSize, totalBytes: fileSize });
       }
 
+      console.log('✅ Encrypted content uploaded to IPFS successfully!');
+      console.log(`   IPFS CID: ${ipfsCid}`);
+      console.log(`   Gateways only ever serve ciphertext for this capsule`);
+
+      // A capsule pointing at content nobody can download can never be opened, so check before the transaction
+      await this.lighthouseService.assertRetrievable(ipfsCid);
+      console.log('✅ IPFS upload verified - recipients can download it');
+
       // Create time capsule on blockchain with the actual file CID
       console.log('⛓️  Creating time capsule on blockchain...');
-      console.log(`   🔗 CRITICAL: Storing IPFS CID in contract: ${ipfsResult.Hash}`);
-      console.log(`   📧 Recipient: ${data.recipientAddress}`);
+      console.log(`   🔗 CRITICAL: Storing IPFS CID in contract: ${ipfsCid}`);
+      console.log(`   📧 Recipients: ${data.recipientAddresses.join(', ')}`);
       console.log(`   ⏰ Unlock time: ${new Date(data.unlockTime * 1000).toISOString()}`);
       console.log(`   📊 File size: ${fileSize} bytes`);
       console.log(`   📝 File type: ${fileType}`);
       console.log(`   🎯 Title: ${data.title}`);
       
+      console.log('🔑 Wrapping the data key for each recipient...');
+      const wrappedKeys = await Promise.all(publicKeys.map(publicKey => wrapDataKey(dataKey, publicKey)));
       const txHash = await this.contractService.createTimeCapsule(
-        ipfsResult.Hash,  // This is now the actual file CID
-        data.recipientAddress,
+        ipfsCid,  // CID of the encrypted envelope, or of its chunk manifest
+        data.recipientAddresses,
+        wrappedKeys,
         data.unlockTime,
         data.title,
-        false, // useBlocklock - can be made configurable
         fileSize, // actual file size
-        fileType  // actual file type
+        fileType, // actual file type
+        contentHashes // recipients check the download against these
       );
       
       console.log(`✅ Time capsule created in contract with transaction: ${txHash}`);
 
       // Get the capsule ID (this is approximate - in production you'd get it from the transaction receipt)
+      await waitForTransactionReceipt(config, { hash: txHash as `0x${string}` });
       const nextCapsuleId = await this.contractService.getNextCapsuleId();
       const capsuleId = nextCapsuleId - 1;
+      console.log(`🧾 Content hashes recorded: envelope ${contentHashes.envelope}, plaintext ${contentHashes.plaintext}`);
 
       console.log('🎉 Time capsule created successfully!');
       console.log(`   Capsule ID: ${capsuleId}`);
       console.log(`   Transaction: ${txHash}`);
-      console.log(`   IPFS CID: ${ipfsResult.Hash}`);
+      console.log(`   IPFS CID: ${ipfsCid}`);
       console.log(`   File Size: ${fileSize} bytes`);
       console.log(`   File Type: ${fileType}`);
 
-      // Verify the IPFS upload by checking if it's accessible
-      try {
-        const verifyUrl = `https://gateway.lighthouse.storage/ipfs/${ipfsResult.Hash}`;
-        const verifyResponse = await fetch(verifyUrl, { method: 'HEAD' });
-        if (verifyResponse.ok) {
-          console.log('✅ IPFS upload verified - file is accessible');
-        } else {
-          console.log('⚠️  IPFS upload verification failed, but CID should work');
-        }
-      } catch (verifyError) {
-        console.log('⚠️  Could not verify IPFS upload, but CID should work');
-      }
-
       return {
         txHash,
-        ipfsCid: ipfsResult.Hash,
+        ipfsCid,
         capsuleId
       };
 
@@ -200,12 +169,15 @@ export class TimeCapsuleService {
 
   /**
    * Unlock and retrieve a time capsule with zkTLS verification and Blocklock decryption
+   * @param options.gasless Sign the unlock and have the unlock relayer send it; escrowed funds are left to claim later
    */
-  async unlockTimeCapsule(capsuleId: number): Promise<{
+  async unlockTimeCapsule(capsuleId: number, options: { gasless?: boolean } = {}): Promise<{
     capsule: TimeCapsule;
     content: string;
     txHash?: string;
-  fileMetadata?: Record<string, unknown>;
+    fileMetadata?: ContentDescription;
+    decryptedFile?: { blob: Blob; fileName: string; mimeType: string };
+    escrowTxHash?: string;
   }> {
     try {
       console.log(`🚀 Starting zkTLS Unlock Sequence for TimeCapsule ${capsuleId}`);
@@ -217,14 +189,25 @@ export class TimeCapsuleService {
       const capsule = await this.contractService.getTimeCapsule(capsuleId);
       
       console.log(`Title: "${capsule.title}"`); 
-      console.log(`Recipient: ${capsule.recipient}`);
-      console.log(`Status: ${capsule.isUnlocked ? 'ALREADY UNLOCKED' : 'LOCKED'}`);
+      console.log(`Recipients: ${capsule.recipients.join(', ')}`);
+      console.log(`Status: ${capsule.hasUnlocked ? 'ALREADY UNLOCKED' : 'LOCKED'}`);
       console.log(`Can Unlock: ${capsule.canUnlock ? 'YES' : 'NO'}`);
+      if (capsule.guardianApproval && capsule.guardianApproval !== 'none') {
+        console.log(`Guardians: ${capsule.guardianApproval.toUpperCase()}`);
+      }
       console.log(`Uses Blocklock: ${capsule.usesBlocklock ? 'YES' : 'NO'}`);
       console.log(`IPFS CID: ${capsule.ipfsCid}`);
 
-      if (capsule.isUnlocked) {
+      const isAuthorized = await this.contractService.isAuthorizedUnlocker(capsuleId);
+      console.log(`Authorized Unlocker: ${isAuthorized ? 'YES' : 'NO'}`);
+      if (!isAuthorized) {
+        throw new Error(`🚫 Only a recipient (${capsule.recipients.join(', ')}) or a delegate approved by the creator can unlock this time capsule.`);
+      }
+
+      if (capsule.hasUnlocked) {
         console.log("\n⚠️  TimeCapsule already unlocked. Retrieving content...");
+      } else if (capsule.guardianApproval === 'vetoed') {
+        throw new Error('🚫 The guardians of this time capsule vetoed its unlock.');
       } else if (!capsule.canUnlock) {
         const timeUntil = capsule.timeUntilUnlock || 0;
         const hoursUntil = Math.ceil(timeUntil / 3600);
@@ -248,14 +231,47 @@ export class TimeCapsuleService {
       let txHash: string | undefined;
 
       // Step 4: Blockchain Unlock
-      if (!capsule.isUnlocked) {
+      if (!capsule.hasUnlocked) {
         console.log("\n🔓 Step 4: Executing Blockchain Unlock");
         console.log("-".repeat(40));
-        console.log('🔗 Submitting unlock transaction to blockchain...');
-        txHash = await this.contractService.unlockTimeCapsule(capsuleId);
+        const gate = await this.contractService.getProofGate(capsuleId);
+        if (gate.verifier !== zeroAddress) {
+          const receiverProof: CircuitProof | null = zkProofs.receiverProof.proof;
+          if (!receiverProof || !matchesProofGate(receiverProof, gate)) {
+            throw new Error(`🚫 Your receiver proof does not match this capsule's proof gate (${gate.verifier})`);
+          }
+          console.log(`🔗 Submitting ${receiverProof.circuit} proof to verifier ${gate.verifier}...`);
+          txHash = await this.contractService.unlockTimeCapsuleWithProof(capsuleId, toSolidityProof(receiverProof));
+        } else if (options.gasless) {
+          console.log('✍️  Signing unlock request for the relayer...');
+          txHash = await this.contractService.unlockTimeCapsuleGasless(capsuleId);
+        } else {
+          console.log('🔗 Submitting unlock transaction to blockchain...');
+          txHash = await this.contractService.unlockTimeCapsule(capsuleId);
+        }
         console.log(`✅ Unlock Transaction: ${txHash}`);
       }
 
+      // Funds attached to the capsule are paid out once the recipient has unlocked
+      let escrowTxHash: string | undefined;
+      const account = getAccount(config).address;
+      const recipient = account && capsule.recipients.includes(account) ? account : capsule.recipient;
+      if (txHash) {
+        await waitForTransactionReceipt(config, { hash: txHash as `0x${string}` });
+      }
+      const escrowed = await this.contractService.getEscrowedFunds(capsuleId, recipient);
+      if (options.gasless && escrowed.some(funds => funds.claimable > BigInt(0))) {
+        console.log("\n💰 Escrowed funds are waiting for you; claim them from the dashboard once your wallet has gas");
+      } else if (escrowed.some(funds => funds.claimable > BigInt(0))) {
+        console.log("\n💰 Claiming escrowed funds");
+        console.log("-".repeat(40));
+        for (const funds of escrowed.filter(funds => funds.claimable > BigInt(0))) {
+          console.log(`${funds.token === zeroAddress ? 'FIL' : funds.token}: ${formatEther(funds.claimable)}`);
+        }
+        escrowTxHash = await this.contractService.claimEscrowedFunds(capsuleId, recipient);
+        console.log(`✅ Claim Transaction: ${escrowTxHash}`);
+      }
+
       // Step 5: Content Retrieval and Decryption
       console.log("\n📥 Step 5: Content Retrieval and Decryption");
       console.log("-".repeat(40));
@@ -264,53 +280,87 @@ export class TimeCapsuleService {
       console.log(`🌐 Testing gateway accessibility: https://gateway.lighthouse.storage/ipfs/${capsule.ipfsCid}`);
       
       let content: string;
-  let fileMetadata: Record<string, unknown>;
+      let fileMetadata: ContentDescription;
+      let decryptedFile: { blob: Blob; fileName: string; mimeType: string };
       
       try {
-        // First get file metadata to understand what type of file we're dealing with
-        console.log(`🔍 Getting file metadata for CID: ${capsule.ipfsCid}...`);
-        fileMetadata = await this.lighthouseService.getFileMetadata(capsule.ipfsCid);
+        const downloaded = await this.lighthouseService.downloadBytes(capsule.ipfsCid);
+        if (await verifyContentHash(downloaded, capsule.contentHash ?? NO_CONTENT_HASH, 'envelope')) {
+          console.log(`✅ Envelope matches the hash recorded on-chain`);
+        } else {
+          console.log(`⚠️  No content hash recorded for this capsule - the download cannot be verified`);
+        }
+        
+        if (isChunkManifest(downloaded)) {
+          const manifest = parseManifest(downloaded);
+          console.log(`📦 Chunk manifest detected: ${manifest.fileName} in ${manifest.chunks.length} encrypted chunks - fetching decryption key from contract...`);
+          const dataKey = await this.readDataKey(capsuleId);
+          // Each chunk is checked against its CID and its authentication tag as it arrives
+          const { blob, plaintextDigests } = await this.lighthouseService.downloadLargeFile(manifest, dataKey,
+            progress => console.log(`   Chunk ${progress.chunk}/${progress.chunks} verified and decrypted (${progress.bytes}/${progress.totalBytes} bytes)`));
+          await verifyContentHash(plaintextDigests, capsule.plaintextHash ?? NO_CONTENT_HASH, 'plaintext');
+          console.log(`✅ ${manifest.fileName} reassembled (${manifest.mimeType}, ${blob.size} bytes)`);
+
+          fileMetadata = this.lighthouseService.describeContentType(manifest.mimeType, blob.size);
+          decryptedFile = { blob, fileName: manifest.fileName, mimeType: manifest.mimeType };
+        } else if (isEnvelope(downloaded)) {
+          console.log(`🔐 Encrypted envelope detected - fetching decryption key from contract...`);
+          const dataKey = await this.readDataKey(capsuleId);
+          const opened = await openEnvelope(parseEnvelope(downloaded), dataKey);
+          console.log(`✅ Envelope decrypted: ${opened.fileName} (${opened.mimeType}, ${opened.content.length} bytes)`);
+          await verifyContentHash(opened.content, capsule.plaintextHash ?? NO_CONTENT_HASH, 'plaintext');
+          
+          fileMetadata = this.lighthouseService.describeContentType(opened.mimeType, opened.content.length);
+          decryptedFile = {
+            blob: new Blob([opened.content.slice().buffer as ArrayBuffer], { type: opened.mimeType }),
+            fileName: opened.fileName,
+            mimeType: opened.mimeType
+          };
+        } else {
+          // Capsules created before envelope encryption were uploaded in plaintext
+          console.log(`⚠️  Content is not an encrypted envelope (legacy plaintext capsule)`);
+          const legacyMetadata = await this.lighthouseService.getFileMetadata(capsule.ipfsCid);
+          
+          fileMetadata = this.lighthouseService.describeContentType(legacyMetadata.contentType, downloaded.length);
+          decryptedFile = {
+            blob: new Blob([downloaded.slice().buffer as ArrayBuffer], { type: legacyMetadata.contentType }),
+            fileName: `timecapsule-${capsule.title || capsuleId}`,
+            mimeType: legacyMetadata.contentType
+          };
+        }
         
         console.log(`📄 File Type: ${fileMetadata.fileType}`);
         console.log(`📊 File Size: ${fileMetadata.size} bytes`);
-        console.log(`� Content Type: ${fileMetadata.contentType}`);
-        console.log(`�👁️  Can View: ${fileMetadata.isViewable ? 'Yes' : 'No'}`);
-        console.log(`🔍 Full File Metadata:`, fileMetadata);
+        console.log(`📝 Content Type: ${fileMetadata.contentType}`);
+        console.log(`👁️  Can View: ${fileMetadata.isViewable ? 'Yes' : 'No'}`);
         
-        if (fileMetadata.isViewable && fileMetadata.contentType.startsWith('text/')) {
-          // For text files, get the actual content to display
-          console.log(`📖 Text file detected - downloading actual content for display...`);
-          content = await this.lighthouseService.downloadFile(capsule.ipfsCid);
-          console.log(`✅ Text content retrieved successfully (${content.length} characters)`);
-          console.log(`📝 Content preview (first 200 chars): ${content.substring(0, 200)}...`);
-          
-          // For text files, the recipient gets the ACTUAL file content to read
+        if (fileMetadata.contentType.startsWith('text/')) {
+          content = await decryptedFile.blob.text();
+          console.log(`✅ Text content recovered (${content.length} characters)`);
           console.log(`🎯 RECIPIENT WILL SEE: The actual text content from the uploaded file`);
-          
         } else {
           // For binary files (PDF, images, etc.), provide download info
-          console.log(`� Binary file detected - preparing download metadata...`);
           content = `📁 File Ready for Download
 
+File Name: ${decryptedFile.fileName}
 File Type: ${fileMetadata.fileType}
 Size: ${fileMetadata.size} bytes  
 Content Type: ${fileMetadata.contentType}
 IPFS CID: ${capsule.ipfsCid}
 
-This ${fileMetadata.fileType} file will be automatically downloaded when you view the results.
-The downloaded file will be the exact same file that was uploaded by the sender.
-
-Gateway URL: https://gateway.lighthouse.storage/ipfs/${capsule.ipfsCid}`;
+This ${fileMetadata.fileType} file was decrypted in your browser and will be downloaded when you view the results.
+The downloaded file will be the exact same file that was uploaded by the sender.`;
           
-          console.log(`✅ Binary file metadata prepared - file will auto-download for recipient`);
-          console.log(`🎯 RECIPIENT WILL GET: The exact same ${fileMetadata.fileType} file that was uploaded`);
+          console.log(`✅ Binary file decrypted - file will auto-download for recipient`);
         }
       } catch (ipfsError) {
-        console.log(`⚠️  IPFS retrieval failed for CID: ${capsule.ipfsCid}`);
+        if (ipfsError instanceof ContentIntegrityError) {
+          console.error(`🚫 CONTENT REJECTED: ${ipfsError.message}`);
+          throw ipfsError;
+        }
+        console.log(`⚠️  Content retrieval failed for CID: ${capsule.ipfsCid}`);
         console.log(`❌ Error details:`, ipfsError);
-        console.log(`🔗 Direct IPFS Access: https://gateway.lighthouse.storage/ipfs/${capsule.ipfsCid}`);
-        console.log(`🔗 Alternative Gateway: https://ipfs.io/ipfs/${capsule.ipfsCid}`);
-        throw new Error(`Failed to retrieve content from IPFS CID ${capsule.ipfsCid}: ${ipfsError}`);
+        throw new Error(`Failed to retrieve and decrypt content from IPFS CID ${capsule.ipfsCid}: ${ipfsError}`);
       }
 
       // Step 6: Blocklock Decryption (if applicable)
@@ -332,7 +382,9 @@ Gateway URL: https://gateway.lighthouse.storage/ipfs/${capsule.ipfsCid}`;
         capsule,
         content,
         txHash,
-        fileMetadata: fileMetadata || null
+        fileMetadata,
+        decryptedFile,
+        escrowTxHash
       };
 
     } catch (error) {
@@ -356,26 +408,124 @@ Gateway URL: https://gateway.lighthouse.storage/ipfs/${capsule.ipfsCid}`;
   }
 
   /**
-   * Read a file as text content
+   * Register the connected wallet's encryption key so others can create capsules for it
    */
-  private async readFileAsText(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          resolve(event.target.result as string);
-        } else {
-          reject(new Error('Failed to read file content'));
-        }
-      };
-      
-      reader.onerror = () => {
-        reject(new Error('Error reading file'));
-      };
-      
-      reader.readAsText(file);
-    });
+  async registerEncryptionKey(): Promise<string> {
+    const { publicKey } = await deriveEncryptionKey();
+    return this.contractService.registerEncryptionKey(publicKey);
+  }
+
+  /**
+   * Check in on a dead man's switch, pushing its deadline one interval from now
+   */
+  async getGuardianState(capsuleId: number): Promise<GuardianState | undefined> {
+    return this.contractService.getGuardianState(capsuleId);
+  }
+
+  async heartbeat(capsuleId: number): Promise<string> {
+    return this.contractService.heartbeat(capsuleId);
+  }
+
+  async cancelTimeCapsule(capsuleId: number): Promise<string> {
+    return this.contractService.cancelCapsule(capsuleId);
+  }
+
+  async extendUnlockTime(capsuleId: number, unlockTime: number): Promise<string> {
+    return this.contractService.extendUnlockTime(capsuleId, unlockTime);
+  }
+
+  /**
+   * Replace a recipient of a locked capsule. Capsules with wrapped keys keep no key of their
+   * own, so the creator must supply the data key to wrap for the new recipient.
+   */
+  async updateRecipient(capsuleId: number, previousRecipient: string, recipient: string, dataKey?: string): Promise<string> {
+    const wrappedKey = dataKey ? (await this.wrapForRecipients(dataKey, [recipient]))[0] : '0x';
+    return this.contractService.updateRecipient(capsuleId, previousRecipient, recipient, wrappedKey);
+  }
+
+  async updateCid(capsuleId: number, ipfsCid: string): Promise<string> {
+    return this.contractService.updateCid(capsuleId, ipfsCid);
+  }
+
+  /**
+   * Turn each recipient's claim into an ERC-721 it can transfer; the creator can no longer
+   * change recipients afterwards
+   */
+  /**
+   * Take back escrowed funds the recipients did not claim; possible from 90 days after the
+   * unlock time, or for capsules whose guardians vetoed the unlock
+   */
+  async reclaimEscrowedFunds(capsuleId: number): Promise<string> {
+    const account = getAccount(config).address;
+    if (!account) throw new Error('No wallet connected');
+
+    const escrowed = await this.contractService.getEscrowedFunds(capsuleId, account);
+    if (!escrowed.some(funds => funds.remaining > BigInt(0))) throw new Error('No unclaimed funds in escrow');
+    if (!(await this.contractService.canReclaimEscrowedFunds(capsuleId))) {
+      throw new Error('Recipients can claim for 90 days after the unlock time');
+    }
+
+    const txHash = await this.contractService.reclaimEscrowedFunds(capsuleId);
+    await waitForTransactionReceipt(config, { hash: txHash as `0x${string}` });
+    return txHash;
+  }
+
+  async tokenizeClaims(capsuleId: number): Promise<string> {
+    return this.contractService.tokenizeClaims(capsuleId);
+  }
+
+  /**
+   * Wrap the data key for recipients that received a claim token and hold no copy yet;
+   * a wrapped key does not move with the token, so they cannot unlock until the creator does this
+   */
+  async wrapKeyForClaimHolders(capsuleId: number, dataKey: string): Promise<string> {
+    const recipients = await this.contractService.getRecipients(capsuleId);
+    const hasKeys = await Promise.all(recipients.map(recipient => this.contractService.hasWrappedKey(capsuleId, recipient)));
+    const pending = recipients.filter((_, i) => !hasKeys[i]);
+    if (pending.length === 0) throw new Error('Every recipient already holds a wrapped key');
+
+    const wrappedKeys = await this.wrapForRecipients(dataKey, pending);
+    let txHash = '';
+    for (let i = 0; i < pending.length; i++) {
+      txHash = await this.contractService.setWrappedKey(capsuleId, pending[i], wrappedKeys[i]);
+      await waitForTransactionReceipt(config, { hash: txHash as `0x${string}` });
+    }
+    return txHash;
+  }
+
+  async transferClaimToken(tokenId: number, to: string): Promise<string> {
+    return this.contractService.transferClaimToken(tokenId, to);
+  }
+
+  /**
+   * Wrap the data key to the encryption key each recipient registered on-chain
+   */
+  private async wrapForRecipients(dataKey: string, recipients: string[]): Promise<string[]> {
+    const publicKeys = await this.getEncryptionKeys(recipients);
+    return Promise.all(publicKeys.map(publicKey => wrapDataKey(dataKey, publicKey)));
+  }
+
+  /**
+   * The encryption keys the recipients registered on-chain, in recipient order
+   */
+  private async getEncryptionKeys(recipients: string[]): Promise<string[]> {
+    const publicKeys = await Promise.all(recipients.map(recipient => this.contractService.getEncryptionKey(recipient)));
+    const unregistered = recipients.filter((_, i) => !publicKeys[i]);
+    if (unregistered.length > 0) {
+      throw new Error(`No encryption key registered for ${unregistered.join(', ')}. Each recipient must register one from the dashboard first.`);
+    }
+    return publicKeys as string[];
+  }
+
+  /**
+   * The connected wallet's data key: its wrapped copy when the capsule has one, otherwise the stored key
+   */
+  private async readDataKey(capsuleId: number): Promise<string> {
+    const wrappedKey = await this.contractService.getWrappedKey(capsuleId);
+    if (wrappedKey) {
+      return unwrapDataKey(wrappedKey, (await deriveEncryptionKey()).privateKey);
+    }
+    return this.contractService.getDecryptionKey(capsuleId);
   }
 
   /**
@@ -390,7 +540,7 @@ Gateway URL: https://gateway.lighthouse.storage/ipfs/${capsule.ipfsCid}`;
 Title: ${data.title}
 Created: ${new Date().toISOString()}
 Unlock Time: ${unlockDate.toISOString()}
-Recipient: ${data.recipientAddress}
+Recipients: ${data.recipientAddresses.join(', ')}
 
 MESSAGE:
 ========
@@ -422,7 +572,7 @@ Visit https://future-protocol.app to create your own time capsules!`;
 
     console.log("   🌐 Validating NTP Servers...");
     const ntpValidation = await this.validateNTPServers();
-    console.log(`   NTP Validation: ${ntpValidation.valid ? '✅ VALID' : '❌ INVALID'} (${ntpValidation.validCount}/3 sources)`);
+    console.log(`   NTP Validation: ${ntpValidation.valid ? '✅ VALID' : '❌ INVALID'} (${ntpValidation.validCount}/${ntpValidation.sources.length} sources)`);
 
     console.log("   🔐 Generating Receiver ZK Proof...");
     const receiverProof = await this.generateReceiverAuthProof(capsuleId);
@@ -432,10 +582,13 @@ Visit https://future-protocol.app to create your own time capsules!`;
     const masterProof = await this.generateMasterZKProof({
       capsuleId,
       timeValid: timeProof.valid,
+      timeProof: timeProof.proof,
+      receiverProof: receiverProof.proof,
       ntpValid: ntpValidation.valid,
       receiverValid: receiverProof.valid
     });
     console.log(`   Master Proof: ${masterProof.valid ? '✅ VALID' : '❌ INVALID'}`);
+    console.log(`   Proof Backend: ${masterProof.backend}`);
     console.log(`   Proof Hash: ${masterProof.hash.slice(0, 32)}...`);
 
     return {
@@ -447,125 +600,92 @@ Visit https://future-protocol.app to create your own time capsules!`;
   }
 
   /**
-   * Generate time-based ZK proof
+   * Prove that the local clock agrees with the latest block
    */
   private async generateTimeZKProof(capsuleId: number): Promise<any> {
-    const blockchainTime = await this.getBlockchainTimestamp();
     const localTime = Math.floor(Date.now() / 1000);
-    const timeDiff = Math.abs(blockchainTime - localTime);
-    
-    const zkInputs = {
-      capsule_id: capsuleId,
-      blockchain_time: blockchainTime,
-      local_time: localTime,
-      time_difference: timeDiff,
-      max_allowed_diff: 300, // 5 minutes
-      timestamp: Date.now()
-    };
-
-    const proof = await this.generateZKProof(zkInputs, "time_validation");
-    return { valid: timeDiff <= 300, timeDiff, proof, inputs: zkInputs };
+    try {
+      const proof = await proveLocalTime(capsuleId);
+      const timeDiff = Math.abs(Number(proof.publicSignals[2]) - localTime);
+      return { valid: await getProofProvider().verify(proof), timeDiff, proof };
+    } catch (error) {
+      if (!(error instanceof ProofError)) throw error;
+      const timeDiff = Math.abs(await this.getBlockchainTimestamp() - localTime);
+      return { valid: false, timeDiff, proof: null };
+    }
   }
 
   /**
-   * Validate NTP servers with zkTLS
+   * Fetch a signed SNTP/block time attestation and check its signature and policy
    */
   private async validateNTPServers(): Promise<any> {
-    let validCount = 0;
-    const sources = [];
-
-    // Blockchain time (always valid as authoritative source)
-    sources.push({ name: 'Blockchain', valid: true, diff: 0 });
-    validCount++;
-    console.log(`     ✅ Blockchain Time: Valid (authoritative)`);
+    const response = await fetch(TIME_ATTESTATION_CONFIG.endpoint, { cache: 'no-store' });
+    const body = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      console.log(`     ❌ Time attestation unavailable: ${body?.error ?? `HTTP ${response.status}`}`);
+      return { valid: false, validCount: 0, sources: [] };
+    }
 
-    // Try external time servers
-    const timeServers = [
-      { name: 'WorldTimeAPI', url: 'https://worldtimeapi.org/api/timezone/UTC' },
-      { name: 'TimeAPI', url: 'https://timeapi.io/api/Time/current/zone?timeZone=UTC' }
-    ];
+    const signed = body as SignedTimeAttestation;
+    const trusted = TIME_ATTESTATION_CONFIG.trustedAttestor ? [TIME_ATTESTATION_CONFIG.trustedAttestor] : undefined;
+    let attestation: TimeAttestation;
+    try {
+      attestation = await verifyTimeAttestation(
+        signed,
+        (hash, signature) => recoverMessageAddress({
+          message: { raw: hash as `0x${string}` },
+          signature: signature as `0x${string}`,
+        }),
+        trusted
+      );
+    } catch (error) {
+      console.log(`     ❌ Time attestation rejected: ${error instanceof Error ? error.message : error}`);
+      return { valid: false, validCount: 0, sources: [] };
+    }
 
-    for (const server of timeServers) {
-      try {
-        console.log(`     📡 Querying ${server.name}...`);
-        // In browser environment, we'll use fetch with CORS considerations
-        const response = await fetch(server.url, {
-          method: 'GET',
-          headers: { 'Accept': 'application/json' }
-        });
-        
-        if (response.ok) {
-          sources.push({ name: server.name, valid: true, diff: 0 });
-          validCount++;
-          console.log(`     ✅ ${server.name}: Valid`);
-        } else {
-          sources.push({ name: server.name, valid: false, diff: -1 });
-          console.log(`     ⚠️  ${server.name}: HTTP ${response.status}`);
-        }
-      } catch (error) {
-        sources.push({ name: server.name, valid: false, diff: -1 });
-        console.log(`     ❌ ${server.name}: Network error`);
-      }
+    const sources = attestation.samples.map(sample => ({
+      name: sample.server,
+      valid: attestation.agreeingServers.includes(sample.server),
+      diff: sample.offsetMs ?? -1,
+    }));
+    for (const source of sources) {
+      console.log(`     ${source.valid ? '✅' : '❌'} ${source.name}: ${source.valid ? `${source.diff}ms offset` : 'no agreement'}`);
     }
+    console.log(`     ⛓️  Block ${attestation.chain.blockNumber}: ${attestation.chainSkewMs}ms from NTP time`);
+    attestation.reasons.forEach(reason => console.log(`     ⚠️  ${reason}`));
 
-    return { valid: validCount >= 1, validCount, sources };
+    return {
+      valid: attestation.valid,
+      validCount: attestation.agreeingServers.length,
+      sources,
+      attestation: signed,
+    };
   }
 
   /**
-   * Generate receiver authorization proof
+   * Prove knowledge of the connected wallet's receiver secret for this capsule
    */
   private async generateReceiverAuthProof(capsuleId: number): Promise<any> {
-    const inputs = {
-      capsule_id: capsuleId,
-      timestamp: Math.floor(Date.now() / 1000)
-    };
+    const account = getAccount(config);
+    if (!account.address) throw new Error('No wallet connected');
 
-    const proof = await this.generateZKProof(inputs, "receiver_auth");
-    return { valid: true, proof, inputs }; // Always valid for connected wallet
+    const proof = await getProofProvider().prove('receiver_auth', {
+      capsuleId,
+      recipient: account.address,
+      secret: await deriveReceiverSecret(),
+    });
+    return { valid: await getProofProvider().verify(proof), proof };
   }
 
   /**
-   * Generate master ZK proof combining all validations
+   * Combine the component proofs into one digest for the unlock report
    */
   private async generateMasterZKProof(params: any): Promise<any> {
-    const inputs = {
-      capsule_id: params.capsuleId,
-      time_valid: params.timeValid ? 1 : 0,
-      ntp_valid: params.ntpValid ? 1 : 0,
-      receiver_valid: params.receiverValid ? 1 : 0,
-      timestamp: Math.floor(Date.now() / 1000)
-    };
-
-    const proof = await this.generateZKProof(inputs, "master_validation");
+    const proofs: CircuitProof[] = [params.timeProof, params.receiverProof].filter(proof => proof !== null);
+    const { backend, hash } = await combineProofs(proofs);
     const valid = params.timeValid && params.ntpValid && params.receiverValid;
-    
-    const hash = browserCrypto.createHash('sha256')
-      .update(JSON.stringify(inputs))
-      .digest('hex');
-
-    return { valid, proof, inputs, hash };
-  }
 
-  /**
-   * Generate ZK-SNARK proof (mock implementation for frontend)
-   */
-  private async generateZKProof(inputs: any, circuitType: string): Promise<any> {
-    // Mock ZK proof generation for frontend (in production, use actual ZK library)
-    const inputHash = browserCrypto.createHash('sha256')
-      .update(JSON.stringify(inputs) + circuitType)
-      .digest('hex');
-
-    return {
-      protocol: "Groth16",
-      curve: "bn128",
-      proof: {
-        a: [inputHash.slice(0, 32), inputHash.slice(32, 64)],
-        b: [[inputHash.slice(0, 16), inputHash.slice(16, 32)], [inputHash.slice(32, 48), inputHash.slice(48, 64)]],
-        c: [inputHash.slice(8, 40), inputHash.slice(40, 72)]
-      },
-      publicSignals: [inputHash.slice(0, 16), inputs.timestamp?.toString() || Date.now().toString()],
-      hash: inputHash
-    };
+    return { valid, backend, hash };
   }
 
   /**
@@ -623,6 +743,7 @@ Visit https://future-protocol.app to create your own time capsules!`;
         masterProofValid: zkProofs.masterProof.valid,
         masterProofHash: zkProofs.masterProof.hash
       },
+      proofBackend: zkProofs.masterProof.backend,
       blockchainTransaction: txHash || "Already unlocked",
       status: "SUCCESS"
     };
@@ -631,6 +752,7 @@ Visit https://future-protocol.app to create your own time capsules!`;
     console.log(`   Capsule ID: ${report.capsuleId}`);
     console.log(`   Timestamp: ${report.timestamp}`);
     console.log(`   zkTLS Valid: ${Object.values(report.zkTLSValidation).every(v => v === true)}`);
+    console.log(`   Proof Backend: ${report.proofBackend}`);
     console.log(`   Transaction: ${report.blockchainTransaction}`);
     console.log(`   Status: ${report.status}`);
   }
@@ -1,25 +1,47 @@
 // lib/types.ts - TypeScript interfaces for the application
+import type { ConditionType } from '@shared/conditions';
+import type { GuardianApproval } from '@shared/guardians';
+import type { ChunkProgress } from '@shared/chunkedUpload';
+
 export interface TimeCapsule {
   id: number;
   ipfsCid: string;
-  contentHash?: string;
+  contentHash?: string;     // SHA-256 of the envelope recorded by the creator (setContentHash)
+  plaintextHash?: string;   // SHA-256 of the sealed content
   creator: string;
-  recipient: string;
+  recipient: string;        // First recipient; delegates unlock on its behalf
+  recipients: string[];
   title: string;
-  unlockTime: number;
-  isUnlocked: boolean;
+  unlockTime: number;       // Unix seconds; estimated from unlockBlock for block conditions
+  unlockBlock?: number;     // Block the capsule unlocks at, for block conditions
+  conditionType?: ConditionType;
+  isUnlocked: boolean;      // Every recipient has unlocked
+  hasUnlocked?: boolean;    // The connected wallet has unlocked its copy
+  isCancelled?: boolean;
+  heartbeatInterval?: number; // Dead man's switch interval in seconds; unlockTime is the current deadline
+  guardianApproval?: GuardianApproval;
+  claimTokenId?: number;    // CapsuleClaims token the connected wallet holds the claim with
   usesBlocklock: boolean;
   createdAt: number;
   canUnlock?: boolean;
-  timeUntilUnlock?: number;
+  timeUntilUnlock?: number; // Seconds; estimated for block conditions
+}
+
+export interface EscrowedFunds {
+  token: string;            // ERC-20 address, or the zero address for FIL
+  total: bigint;            // Deposited by the creator
+  remaining: bigint;        // Not yet claimed or refunded
+  claimable: bigint;        // Claimable now by the account asked about
 }
 
 export interface CreateTimeCapsuleData {
   title: string;
   message: string;
-  recipientAddress: string;
+  recipientAddresses: string[];
   unlockTime: number;
   file?: File;
+  onProgress?: (progress: ChunkProgress) => void; // After each chunk of the file is sealed and stored
+  signal?: AbortSignal;     // Cancels a chunked upload between chunks; creating again resumes it
 }
 
 export interface UploadResponse {